@@ -0,0 +1,22 @@
+import fs from "node:fs";
+
+import { z } from "zod";
+
+const KlineRowSchema = z.array(z.union([z.number(), z.string()])).min(6);
+
+export const BacktestFixtureSchema = z.object({
+  version: z.literal(1),
+  // Base interval of the recorded klines; coarser intervals requested by the engine are aggregated from it.
+  interval: z.string().regex(/^\d+[mhd]$/),
+  homeStableCoin: z.string().min(2).default("USDT"),
+  exchangeInfo: z.object({
+    symbols: z.array(z.record(z.unknown())).min(1)
+  }),
+  klines: z.record(z.array(KlineRowSchema).min(1))
+});
+export type BacktestFixture = z.infer<typeof BacktestFixtureSchema>;
+
+export function loadBacktestFixture(filePath: string): BacktestFixture {
+  const raw = fs.readFileSync(filePath, "utf-8");
+  return BacktestFixtureSchema.parse(JSON.parse(raw));
+}
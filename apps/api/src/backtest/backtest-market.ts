@@ -0,0 +1,265 @@
+import { intervalToMs } from "../modules/market-data/kline-store";
+import type { PaperPriceQuote } from "../modules/paper/paper-fill-simulator";
+import type { PaperPriceSource } from "../modules/paper/paper-exchange.service";
+import type { BacktestFixture } from "./backtest-fixture";
+
+type Bar = {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  quoteVolume: number;
+};
+
+type MarketResponse = { status: number; body: unknown };
+
+function num(value: unknown): number {
+  const n = typeof value === "number" ? value : Number.parseFloat(String(value));
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function fmt(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(8) : "0";
+}
+
+function toKlineRow(bar: Bar): Array<number | string> {
+  return [
+    bar.openTime,
+    fmt(bar.open),
+    fmt(bar.high),
+    fmt(bar.low),
+    fmt(bar.close),
+    fmt(bar.volume),
+    bar.closeTime,
+    fmt(bar.quoteVolume),
+    0,
+    "0",
+    "0",
+    "0"
+  ];
+}
+
+function invalidSymbol(): MarketResponse {
+  return { status: 400, body: { code: -1121, msg: "Invalid symbol." } };
+}
+
+/**
+ * Serves recorded exchangeInfo/klines as Binance public REST responses at the simulated time.
+ * Only bars closed at or before "now" are visible, so the engine never sees the future.
+ */
+export class BacktestMarket {
+  private readonly bars = new Map<string, Bar[]>();
+  private readonly baseIntervalMs: number;
+  private quoteWindowStartMs: number | null = null;
+
+  constructor(
+    private readonly fixture: BacktestFixture,
+    private readonly now: () => number
+  ) {
+    this.baseIntervalMs = intervalToMs(fixture.interval);
+    for (const [rawSymbol, rows] of Object.entries(fixture.klines)) {
+      const parsed = rows
+        .map((row) => {
+          const openTime = num(row[0]);
+          const closeTime = row.length > 6 ? num(row[6]) : openTime + this.baseIntervalMs - 1;
+          const close = num(row[4]);
+          const volume = num(row[5]);
+          const quoteVolume = row.length > 7 ? num(row[7]) : volume * close;
+          return { openTime, closeTime, open: num(row[1]), high: num(row[2]), low: num(row[3]), close, volume, quoteVolume };
+        })
+        .filter((bar) => [bar.openTime, bar.closeTime, bar.open, bar.high, bar.low, bar.close].every(Number.isFinite))
+        .sort((a, b) => a.openTime - b.openTime);
+      this.bars.set(rawSymbol.trim().toUpperCase(), parsed);
+    }
+  }
+
+  get intervalMs(): number {
+    return this.baseIntervalMs;
+  }
+
+  get symbols(): string[] {
+    return [...this.bars.keys()].sort();
+  }
+
+  /** Close time range covered by every recorded symbol. */
+  getRange(): { firstCloseMs: number; lastCloseMs: number; minBars: number } {
+    let firstCloseMs = Number.NEGATIVE_INFINITY;
+    let lastCloseMs = Number.POSITIVE_INFINITY;
+    let minBars = Number.POSITIVE_INFINITY;
+    for (const bars of this.bars.values()) {
+      if (bars.length === 0) continue;
+      firstCloseMs = Math.max(firstCloseMs, bars[0].closeTime);
+      lastCloseMs = Math.min(lastCloseMs, bars[bars.length - 1].closeTime);
+      minBars = Math.min(minBars, bars.length);
+    }
+    if (!Number.isFinite(firstCloseMs) || !Number.isFinite(lastCloseMs)) {
+      throw new Error("Backtest fixture has no klines");
+    }
+    return { firstCloseMs, lastCloseMs, minBars };
+  }
+
+  /** Limit matching between two steps sees the full high/low range of the bars closed in between. */
+  setQuoteWindowStart(ms: number | null): void {
+    this.quoteWindowStartMs = ms;
+  }
+
+  lastPrice(symbol: string): number | null {
+    const bars = this.closedBars(symbol);
+    const last = bars[bars.length - 1];
+    return last ? last.close : null;
+  }
+
+  getQuote(symbol: string): PaperPriceQuote | null {
+    const bars = this.closedBars(symbol);
+    const last = bars[bars.length - 1];
+    if (!last) return null;
+
+    const windowStart = this.quoteWindowStartMs;
+    const window = windowStart === null ? [last] : bars.filter((bar) => bar.closeTime > windowStart);
+    const range = window.length > 0 ? window : [last];
+    return {
+      price: last.close,
+      low: Math.min(...range.map((bar) => bar.low)),
+      high: Math.max(...range.map((bar) => bar.high))
+    };
+  }
+
+  createPriceSource(): PaperPriceSource {
+    return {
+      getQuote: async (symbol: string) => this.getQuote(symbol)
+    };
+  }
+
+  handle(url: URL): MarketResponse {
+    const symbol = url.searchParams.get("symbol")?.trim().toUpperCase() ?? null;
+    switch (url.pathname) {
+      case "/api/v3/ping":
+        return { status: 200, body: {} };
+      case "/api/v3/time":
+        return { status: 200, body: { serverTime: this.now() } };
+      case "/api/v3/exchangeInfo": {
+        const all = this.fixture.exchangeInfo.symbols;
+        if (!symbol) return { status: 200, body: { timezone: "UTC", serverTime: this.now(), symbols: all } };
+        const match = all.filter((s) => String(s.symbol ?? "").toUpperCase() === symbol);
+        return match.length > 0 ? { status: 200, body: { timezone: "UTC", serverTime: this.now(), symbols: match } } : invalidSymbol();
+      }
+      case "/api/v3/ticker/price": {
+        if (symbol) {
+          const price = this.lastPrice(symbol);
+          return price === null ? invalidSymbol() : { status: 200, body: { symbol, price: fmt(price) } };
+        }
+        return {
+          status: 200,
+          body: this.symbols
+            .map((s) => ({ symbol: s, price: this.lastPrice(s) }))
+            .filter((t): t is { symbol: string; price: number } => t.price !== null)
+            .map((t) => ({ symbol: t.symbol, price: fmt(t.price) }))
+        };
+      }
+      case "/api/v3/ticker/24hr": {
+        const tickers = (symbol ? [symbol] : this.symbols).map((s) => this.ticker24h(s)).filter(Boolean);
+        if (symbol) return tickers[0] ? { status: 200, body: tickers[0] } : invalidSymbol();
+        return { status: 200, body: tickers };
+      }
+      case "/api/v3/klines": {
+        if (!symbol || !this.bars.has(symbol)) return invalidSymbol();
+        const interval = url.searchParams.get("interval") ?? this.fixture.interval;
+        const limit = Math.max(1, Math.min(1000, Number.parseInt(url.searchParams.get("limit") ?? "500", 10) || 500));
+        let intervalMs: number;
+        try {
+          intervalMs = intervalToMs(interval);
+        } catch {
+          return { status: 400, body: { code: -1120, msg: "Invalid interval." } };
+        }
+        const bars = this.aggregate(this.closedBars(symbol), intervalMs);
+        const startTime = Number.parseInt(url.searchParams.get("startTime") ?? "", 10);
+        const window = Number.isFinite(startTime)
+          ? bars.filter((bar) => bar.openTime >= startTime).slice(0, limit)
+          : bars.slice(-limit);
+        return { status: 200, body: window.map(toKlineRow) };
+      }
+      default:
+        return { status: 404, body: { code: -1000, msg: `Backtest market does not serve ${url.pathname}` } };
+    }
+  }
+
+  private closedBars(symbol: string): Bar[] {
+    const bars = this.bars.get(symbol.trim().toUpperCase()) ?? [];
+    const nowMs = this.now();
+    let lo = 0;
+    let hi = bars.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (bars[mid].closeTime <= nowMs) lo = mid + 1;
+      else hi = mid;
+    }
+    return bars.slice(0, lo);
+  }
+
+  private aggregate(bars: Bar[], intervalMs: number): Bar[] {
+    if (intervalMs <= this.baseIntervalMs) return bars;
+    const out: Bar[] = [];
+    for (const bar of bars) {
+      const bucketOpen = Math.floor(bar.openTime / intervalMs) * intervalMs;
+      const last = out[out.length - 1];
+      if (last && last.openTime === bucketOpen) {
+        last.high = Math.max(last.high, bar.high);
+        last.low = Math.min(last.low, bar.low);
+        last.close = bar.close;
+        last.closeTime = bar.closeTime;
+        last.volume += bar.volume;
+        last.quoteVolume += bar.quoteVolume;
+      } else {
+        out.push({ ...bar, openTime: bucketOpen });
+      }
+    }
+    return out;
+  }
+
+  private ticker24h(symbol: string): Record<string, string | number> | null {
+    const bars = this.closedBars(symbol);
+    const last = bars[bars.length - 1];
+    if (!last) return null;
+    const window = bars.filter((bar) => bar.closeTime > last.closeTime - 86_400_000);
+    const open = window[0]?.open ?? last.open;
+    const high = Math.max(...window.map((bar) => bar.high));
+    const low = Math.min(...window.map((bar) => bar.low));
+    const volume = window.reduce((sum, bar) => sum + bar.volume, 0);
+    const quoteVolume = window.reduce((sum, bar) => sum + bar.quoteVolume, 0);
+    return {
+      symbol,
+      priceChange: fmt(last.close - open),
+      priceChangePercent: (open > 0 ? ((last.close - open) / open) * 100 : 0).toFixed(3),
+      openPrice: fmt(open),
+      highPrice: fmt(high),
+      lowPrice: fmt(low),
+      lastPrice: fmt(last.close),
+      volume: fmt(volume),
+      quoteVolume: fmt(quoteVolume),
+      openTime: window[0]?.openTime ?? last.openTime,
+      closeTime: last.closeTime
+    };
+  }
+}
+
+/** Routes `fetch` calls for `baseUrl` to the recorded market; everything else goes to the real network. */
+export function installBacktestFetch(market: BacktestMarket, baseUrl: string): () => void {
+  const realFetch = globalThis.fetch;
+  const origin = new URL(baseUrl).origin;
+
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    if (url.origin !== origin) {
+      return await realFetch(input, init);
+    }
+    const res = market.handle(url);
+    return new Response(JSON.stringify(res.body), { status: res.status, headers: { "content-type": "application/json" } });
+  }) as typeof fetch;
+
+  return () => {
+    globalThis.fetch = realFetch;
+  };
+}
@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { BotState } from "@autobot/shared";
+import { describe, expect, it } from "vitest";
+
+import type { AiDecisionProvider, AiDecisionResult } from "../modules/ai/ai-decision.provider";
+import type { BacktestFixture } from "./backtest-fixture";
+import { runBacktest } from "./backtest-runner";
+
+const HOUR_MS = 3_600_000;
+const START_MS = Date.UTC(2026, 0, 1);
+
+function symbolInfo(symbol: string, baseAsset: string, tickSize: string, stepSize: string): Record<string, unknown> {
+  return {
+    symbol,
+    status: "TRADING",
+    baseAsset,
+    quoteAsset: "USDT",
+    permissions: ["SPOT"],
+    filters: [
+      { filterType: "PRICE_FILTER", minPrice: tickSize, maxPrice: "1000000.00000000", tickSize },
+      { filterType: "LOT_SIZE", minQty: stepSize, maxQty: "9000000.00000000", stepSize },
+      { filterType: "MARKET_LOT_SIZE", minQty: "0.00000000", maxQty: "100000.00000000", stepSize: "0.00000000" },
+      { filterType: "NOTIONAL", minNotional: "5.00000000", applyMinToMarket: true, maxNotional: "9000000.00000000", applyMaxToMarket: false }
+    ]
+  };
+}
+
+function syntheticKlines(params: { bars: number; base: number; drift: number; amplitude: number; volume: number }): Array<Array<number | string>> {
+  const rows: Array<Array<number | string>> = [];
+  let previous = params.base;
+  for (let i = 0; i < params.bars; i += 1) {
+    const close = params.base * (1 + params.drift * i + params.amplitude * Math.sin(i / 6));
+    const open = previous;
+    const high = Math.max(open, close) * 1.015;
+    const low = Math.min(open, close) * 0.985;
+    const openTime = START_MS + i * HOUR_MS;
+    rows.push([openTime, open.toFixed(4), high.toFixed(4), low.toFixed(4), close.toFixed(4), String(params.volume), openTime + HOUR_MS - 1, (params.volume * close).toFixed(2)]);
+    previous = close;
+  }
+  return rows;
+}
+
+function createFixture(): BacktestFixture {
+  return {
+    version: 1,
+    interval: "1h",
+    homeStableCoin: "USDT",
+    exchangeInfo: {
+      symbols: [symbolInfo("BTCUSDT", "BTC", "0.01000000", "0.00001000"), symbolInfo("ETHUSDT", "ETH", "0.01000000", "0.00010000")]
+    },
+    klines: {
+      BTCUSDT: syntheticKlines({ bars: 160, base: 60_000, drift: 0.002, amplitude: 0.06, volume: 2_000 }),
+      ETHUSDT: syntheticKlines({ bars: 160, base: 3_000, drift: 0.001, amplitude: 0.08, volume: 30_000 })
+    }
+  };
+}
+
+describe("backtest-runner", () => {
+  it("replays fixtures through the engine and reports equity, trades, locks and run stats", async () => {
+    const report = await runBacktest({ fixture: createFixture(), stepMs: HOUR_MS, risk: 60, startingBalanceHome: 1_000 });
+
+    expect(report.steps).toBe(report.equityCurve.length);
+    expect(report.steps).toBeGreaterThan(20);
+    expect(Date.parse(report.equityCurve[0].ts)).toBeGreaterThanOrEqual(START_MS + 30 * HOUR_MS);
+    expect(report.summary.startEquityHome).toBeGreaterThan(0);
+    expect(report.trades.length).toBeGreaterThan(0);
+    expect(report.trades.every((trade) => trade.price > 0 && trade.qty > 0)).toBe(true);
+    expect(report.trades.every((trade) => Date.parse(trade.ts) < START_MS + 160 * HOUR_MS)).toBe(true);
+    expect(report.summary.feesHome).toBeGreaterThan(0);
+    expect(Array.isArray(report.lockTimeline)).toBe(true);
+    expect(report.runStats?.totals.filledOrders).toBeGreaterThan(0);
+  }, 120_000);
+
+  it("is deterministic for the same fixture", async () => {
+    const strip = (report: Awaited<ReturnType<typeof runBacktest>>) =>
+      report.trades.map(({ ts, symbol, side, type, qty, price }) => ({ ts, symbol, side, type, qty, price }));
+    const first = await runBacktest({ fixture: createFixture(), stepMs: 2 * HOUR_MS, risk: 40 });
+    const second = await runBacktest({ fixture: createFixture(), stepMs: 2 * HOUR_MS, risk: 40 });
+
+    expect(strip(second)).toEqual(strip(first));
+    expect(second.equityCurve.map((p) => p.equityHome)).toEqual(first.equityCurve.map((p) => p.equityHome));
+  }, 120_000);
+
+  it("holds each position for the max holding period of the lane it was opened under and counts the stale exits", async () => {
+    const maxHoldingMinutes = { TREND: 240, MEAN_REVERSION: 480, GRID: 720 };
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-backtest-stale-"));
+    try {
+      const report = await runBacktest({
+        fixture: createFixture(),
+        stepMs: HOUR_MS,
+        risk: 60,
+        advanced: {
+          maxHoldingMinutesTrend: maxHoldingMinutes.TREND,
+          maxHoldingMinutesMeanReversion: maxHoldingMinutes.MEAN_REVERSION,
+          maxHoldingMinutesGrid: maxHoldingMinutes.GRID,
+          stalePositionAction: "EXIT"
+        },
+        dataDir
+      });
+      const decisions = fs
+        .readFileSync(path.join(dataDir, "history", "decisions.jsonl"), "utf-8")
+        .trim()
+        .split("\n")
+        .map((line) => (JSON.parse(line) as { decision: BotState["decisions"][number] }).decision);
+      const staleExits = decisions.filter((decision) => decision.reasonCode === "STALE_POSITION_EXIT");
+
+      expect(staleExits.length).toBeGreaterThan(0);
+      expect(report.runStats?.totals.stalePositionExits).toBe(staleExits.length);
+      for (const exit of staleExits) {
+        // Exits are the only holding-window resets with the EXIT action, so the window started when the position opened.
+        const openedAtMs = Date.parse(exit.ts) - Number(exit.details?.heldMinutes) * 60_000;
+        const opening = decisions
+          .filter((decision) => decision.reasonCode === "ENTRY" && decision.details?.symbol === exit.details?.symbol)
+          .filter((decision) => Date.parse(decision.ts) <= openedAtMs)
+          .at(-1);
+        const lane = opening?.details?.strategy as keyof typeof maxHoldingMinutes;
+        expect(lane).toBeDefined();
+        expect(exit.details).toMatchObject({ strategy: lane, maxHoldingMinutes: maxHoldingMinutes[lane] });
+      }
+      // The fixture adds to an open position under another lane; the add does not move its holding period.
+      const latestEntryLane = (exit: BotState["decisions"][number]) =>
+        decisions
+          .filter((decision) => decision.reasonCode === "ENTRY" && decision.details?.symbol === exit.details?.symbol && decision.ts <= exit.ts)
+          .at(-1)?.details?.strategy;
+      expect(staleExits.some((exit) => latestEntryLane(exit) !== exit.details?.strategy)).toBe(true);
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it("gates live entries on the AI provider's reply and records its rationale on the entry trade", async () => {
+    const stubProvider = (reply: Pick<AiDecisionResult, "verdict" | "confidence" | "rationale">) =>
+      ({
+        evaluate: async () => ({ source: "LLM", model: "stub-model", cached: false, latencyMs: 0, ...reply })
+      }) as unknown as AiDecisionProvider;
+    const run = async (aiDecisions: AiDecisionProvider) => {
+      const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-backtest-ai-"));
+      try {
+        const report = await runBacktest({ fixture: createFixture(), stepMs: 2 * HOUR_MS, risk: 60, aiDecisions, dataDir });
+        const state = JSON.parse(fs.readFileSync(path.join(dataDir, "state.json"), "utf-8")) as BotState;
+        return { report, decisions: state.decisions };
+      } finally {
+        fs.rmSync(dataDir, { recursive: true, force: true });
+      }
+    };
+
+    const rejected = await run(stubProvider({ verdict: "REJECT", confidence: 80, rationale: "Momentum is fading." }));
+    expect(rejected.report.trades.filter((trade) => trade.side === "BUY")).toEqual([]);
+    expect(rejected.decisions.some((decision) => decision.kind === "AI" && decision.summary.includes("verdict REJECT"))).toBe(true);
+
+    const approved = await run(stubProvider({ verdict: "APPROVE", confidence: 90, rationale: "Trend and volume agree." }));
+    expect(approved.report.trades.some((trade) => trade.side === "BUY")).toBe(true);
+    const entry = approved.decisions.find((decision) => decision.kind === "TRADE" && decision.reasonCode === "ENTRY");
+    expect(entry?.details).toMatchObject({
+      ai: { source: "LLM", verdict: "APPROVE", confidence: 90, minConfidence: 65, rationale: "Trend and volume agree.", model: "stub-model" }
+    });
+  }, 120_000);
+});
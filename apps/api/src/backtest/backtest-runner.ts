@@ -0,0 +1,331 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import type { AppConfig, BotState, ProtectionLockEntry, TradeMode } from "@autobot/shared";
+import { AppConfigSchema, BotStateSchema, defaultBotState } from "@autobot/shared";
+
+import type { AiDecisionProvider } from "../modules/ai/ai-decision.provider";
+import { BotEngineService, type BotRunStatsResponse } from "../modules/bot/bot-engine.service";
+import { FixedClock } from "../modules/clock/clock";
+import { ConfigService } from "../modules/config/config.service";
+import { BinanceMarketDataService } from "../modules/integrations/binance-market-data.service";
+import { ConversionRouterService } from "../modules/integrations/conversion-router.service";
+import { KlineCacheService } from "../modules/market-data/kline-cache.service";
+import { PaperExchangeService } from "../modules/paper/paper-exchange.service";
+import { PaperTradingService } from "../modules/paper/paper-trading.service";
+import { UniverseService } from "../modules/universe/universe.service";
+import type { BacktestFixture } from "./backtest-fixture";
+import { BacktestMarket, installBacktestFetch } from "./backtest-market";
+
+export const BACKTEST_BASE_URL = "https://backtest.binance.invalid";
+
+const UNIVERSE_REFRESH_MS = 5 * 60_000;
+const MIN_WARMUP_BARS = 30;
+
+export type BacktestOptions = {
+  fixture: BacktestFixture;
+  startMs?: number;
+  endMs?: number;
+  stepMs?: number;
+  risk?: number;
+  tradeMode?: TradeMode;
+  startingBalanceHome?: number;
+  advanced?: Partial<AppConfig["advanced"]>;
+  /** Gates entries through this provider, as with `aiEnabled`; without it the replay runs with AI off. */
+  aiDecisions?: AiDecisionProvider;
+  dataDir?: string;
+  keepDataDir?: boolean;
+  onStep?: (progress: { step: number; steps: number; ts: string; equityHome: number }) => void;
+};
+
+export type BacktestEquityPoint = {
+  ts: string;
+  equityHome: number;
+  freeHome: number;
+  unpricedAssets: string[];
+};
+
+export type BacktestTrade = {
+  ts: string;
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: string;
+  qty: number;
+  price: number;
+  quoteQty: number;
+  feeHome?: number;
+  liquidity?: "MAKER" | "TAKER";
+};
+
+export type BacktestLockEvent = {
+  ts: string;
+  event: "ADDED" | "REMOVED";
+  id: string;
+  type: ProtectionLockEntry["type"];
+  scope: ProtectionLockEntry["scope"];
+  symbol?: string;
+  reason: string;
+  expiresAt: string;
+};
+
+export type BacktestReport = {
+  version: 1;
+  startedAt: string;
+  finishedAt: string;
+  steps: number;
+  stepMs: number;
+  homeStableCoin: string;
+  symbols: string[];
+  config: { risk: number; tradeMode: TradeMode; startingBalanceHome: number };
+  summary: {
+    startEquityHome: number;
+    endEquityHome: number;
+    returnPct: number;
+    maxDrawdownPct: number;
+    trades: number;
+    feesHome: number;
+    locksAdded: number;
+  };
+  equityCurve: BacktestEquityPoint[];
+  trades: BacktestTrade[];
+  lockTimeline: BacktestLockEvent[];
+  runStats: BotRunStatsResponse["kpi"];
+  finalState: Pick<BotState, "phase" | "lastError" | "riskState" | "activeOrders">;
+};
+
+function round(value: number, decimals = 8): number {
+  const pow = 10 ** decimals;
+  return Math.round(value * pow) / pow;
+}
+
+function valueWallet(params: {
+  balances: Array<{ asset: string; total: number; free: number }>;
+  home: string;
+  market: BacktestMarket;
+}): Omit<BacktestEquityPoint, "ts"> {
+  let equityHome = 0;
+  let freeHome = 0;
+  const unpricedAssets: string[] = [];
+  for (const balance of params.balances) {
+    const asset = balance.asset.toUpperCase();
+    if (asset === params.home) {
+      equityHome += balance.total;
+      freeHome += balance.free;
+      continue;
+    }
+    const direct = params.market.lastPrice(`${asset}${params.home}`);
+    const inverse = direct === null ? params.market.lastPrice(`${params.home}${asset}`) : null;
+    const rate = direct ?? (inverse && inverse > 0 ? 1 / inverse : null);
+    if (rate === null) {
+      unpricedAssets.push(asset);
+      continue;
+    }
+    equityHome += balance.total * rate;
+  }
+  return { equityHome: round(equityHome, 6), freeHome: round(freeHome, 6), unpricedAssets };
+}
+
+function seedConfig(configService: ConfigService, options: BacktestOptions, home: string): AppConfig {
+  const initial = configService.createInitialConfig({
+    binanceApiKey: "backtest",
+    binanceApiSecret: "backtest",
+    uiUsername: "backtest",
+    uiPassword: "backtest-only",
+    traderRegion: "NON_EEA",
+    homeStableCoin: home,
+    tradeMode: options.tradeMode ?? "SPOT",
+    risk: options.risk ?? 50,
+    // The live decision path runs against the simulated exchange; nothing leaves the process.
+    liveTrading: true,
+    aiEnabled: Boolean(options.aiDecisions),
+    aiMinTradeConfidence: 65
+  });
+  const config = AppConfigSchema.parse({
+    ...initial,
+    advanced: {
+      ...initial.advanced,
+      ...(options.advanced ?? {}),
+      binanceEnvironment: "SPOT_TESTNET",
+      binanceBaseUrlOverride: BACKTEST_BASE_URL,
+      paperStartingBalanceHome: options.startingBalanceHome ?? options.advanced?.paperStartingBalanceHome ?? 1_000
+    }
+  });
+  configService.save(config);
+  return config;
+}
+
+/**
+ * Replays recorded klines through the real `BotEngineService` live decision path.
+ * Time is simulated, Binance public endpoints are served from the fixture and orders hit the paper exchange.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const clock = new FixedClock(0);
+  const market = new BacktestMarket(options.fixture, () => clock.now());
+  const range = market.getRange();
+  if (range.minBars <= MIN_WARMUP_BARS) {
+    throw new Error(`Backtest fixture needs more than ${MIN_WARMUP_BARS} bars per symbol (got ${range.minBars})`);
+  }
+
+  const warmupMs = Math.min(120, Math.floor(range.minBars / 2)) * market.intervalMs;
+  const startMs = options.startMs ?? range.firstCloseMs + Math.max(warmupMs, MIN_WARMUP_BARS * market.intervalMs);
+  const endMs = Math.min(options.endMs ?? range.lastCloseMs, range.lastCloseMs);
+  const stepMs = options.stepMs ?? 5 * 60_000;
+  if (!(startMs < endMs)) {
+    throw new Error(`Backtest window is empty (start ${new Date(startMs).toISOString()} >= end ${new Date(endMs).toISOString()})`);
+  }
+  if (!Number.isFinite(stepMs) || stepMs < 5_000) {
+    throw new Error(`stepMs must be >= 5000, got ${stepMs}`);
+  }
+
+  const home = options.fixture.homeStableCoin.trim().toUpperCase();
+  const dataDir = options.dataDir ?? fs.mkdtempSync(path.join(os.tmpdir(), "autobot-backtest-"));
+  const previousDataDir = process.env.DATA_DIR;
+  const startedAt = new Date().toISOString();
+
+  clock.set(startMs);
+  process.env.DATA_DIR = dataDir;
+  const restoreFetch = installBacktestFetch(market, BACKTEST_BASE_URL);
+
+  try {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const configService = new ConfigService();
+    const config = seedConfig(configService, options, home);
+    const marketData = new BinanceMarketDataService(configService, clock);
+    const paper = new PaperExchangeService(configService, marketData, clock);
+    paper.setPriceSource(market.createPriceSource());
+    paper.reset();
+    const trading = new PaperTradingService(configService, paper);
+    const conversionRouter = new ConversionRouterService(configService, marketData, trading);
+    // Kline streams are real-time; the replay feeds the cache through the recorded REST klines only.
+    const klines = new KlineCacheService(configService, clock, { streaming: false });
+    const universe = new UniverseService(configService, trading, clock, klines);
+    const engine = new BotEngineService(
+      configService,
+      marketData,
+      trading,
+      conversionRouter,
+      universe,
+      options.aiDecisions ?? null,
+      paper,
+      clock
+    );
+
+    const seededAt = new Date(startMs).toISOString();
+    const seeded = BotStateSchema.parse({ ...defaultBotState(), startedAt: seededAt, updatedAt: seededAt, running: true, phase: "TRADING" });
+    fs.writeFileSync(path.join(dataDir, "state.json"), JSON.stringify(seeded, null, 2) + "\n", "utf-8");
+
+    const equityCurve: BacktestEquityPoint[] = [];
+    const trades: BacktestTrade[] = [];
+    const lockTimeline: BacktestLockEvent[] = [];
+    const seenFills = new Set<string>();
+    let activeLocks = new Map<string, ProtectionLockEntry>();
+    let lastUniverseScanMs = Number.NEGATIVE_INFINITY;
+    let previousStepMs: number | null = null;
+    const steps = Math.floor((endMs - startMs) / stepMs) + 1;
+
+    for (let step = 0; step < steps; step += 1) {
+      const nowMs = startMs + step * stepMs;
+      clock.set(nowMs);
+      market.setQuoteWindowStart(previousStepMs);
+      const ts = new Date(nowMs).toISOString();
+
+      if (nowMs - lastUniverseScanMs >= UNIVERSE_REFRESH_MS) {
+        await universe.scanAndWait();
+        lastUniverseScanMs = nowMs;
+      }
+
+      await paper.matchOpenOrders(paper.getOpenOrders());
+      await engine.tickOnce();
+
+      for (const entry of paper.listOrderEntries()) {
+        if (entry.order.status !== "FILLED" || seenFills.has(entry.order.id)) continue;
+        seenFills.add(entry.order.id);
+        trades.push({
+          ts: entry.updatedAt,
+          orderId: entry.order.id,
+          ...(entry.order.clientOrderId ? { clientOrderId: entry.order.clientOrderId } : {}),
+          symbol: entry.order.symbol,
+          side: entry.order.side,
+          type: entry.order.type,
+          qty: entry.order.qty,
+          price: entry.order.price ?? 0,
+          quoteQty: round(entry.fill?.quoteQty ?? entry.order.qty * (entry.order.price ?? 0)),
+          ...(entry.order.feeHome !== undefined ? { feeHome: entry.order.feeHome } : {}),
+          ...(entry.fill ? { liquidity: entry.fill.liquidity } : {})
+        });
+      }
+
+      const state = engine.getState();
+      const nextLocks = new Map((state.protectionLocks ?? []).map((lock) => [lock.id, lock] as const));
+      for (const [id, lock] of nextLocks) {
+        if (activeLocks.has(id)) continue;
+        lockTimeline.push({ ts, event: "ADDED", id, type: lock.type, scope: lock.scope, symbol: lock.symbol, reason: lock.reason, expiresAt: lock.expiresAt });
+      }
+      for (const [id, lock] of activeLocks) {
+        if (nextLocks.has(id)) continue;
+        lockTimeline.push({ ts, event: "REMOVED", id, type: lock.type, scope: lock.scope, symbol: lock.symbol, reason: lock.reason, expiresAt: lock.expiresAt });
+      }
+      activeLocks = nextLocks;
+
+      const point = { ts, ...valueWallet({ balances: paper.getBalances(), home, market }) };
+      equityCurve.push(point);
+      options.onStep?.({ step: step + 1, steps, ts, equityHome: point.equityHome });
+      previousStepMs = nowMs;
+    }
+
+    const finalState = engine.getState();
+    const runStats = engine.getRunStats().kpi;
+    const startEquityHome = equityCurve[0]?.equityHome ?? 0;
+    const endEquityHome = equityCurve[equityCurve.length - 1]?.equityHome ?? 0;
+    let peak = Number.NEGATIVE_INFINITY;
+    let maxDrawdownPct = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equityHome);
+      if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - point.equityHome) / peak) * 100);
+    }
+
+    return {
+      version: 1,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      steps,
+      stepMs,
+      homeStableCoin: home,
+      symbols: market.symbols,
+      config: {
+        risk: config.basic.risk,
+        tradeMode: config.basic.tradeMode,
+        startingBalanceHome: config.advanced.paperStartingBalanceHome
+      },
+      summary: {
+        startEquityHome,
+        endEquityHome,
+        returnPct: startEquityHome > 0 ? round(((endEquityHome - startEquityHome) / startEquityHome) * 100, 4) : 0,
+        maxDrawdownPct: round(maxDrawdownPct, 4),
+        trades: trades.length,
+        feesHome: round(trades.reduce((sum, trade) => sum + (trade.feeHome ?? 0), 0), 6),
+        locksAdded: lockTimeline.filter((event) => event.event === "ADDED").length
+      },
+      equityCurve,
+      trades,
+      lockTimeline,
+      runStats,
+      finalState: {
+        phase: finalState.phase,
+        lastError: finalState.lastError,
+        riskState: finalState.riskState,
+        activeOrders: finalState.activeOrders
+      }
+    };
+  } finally {
+    restoreFetch();
+    if (previousDataDir === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = previousDataDir;
+    if (!options.dataDir && !options.keepDataDir) {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  }
+}
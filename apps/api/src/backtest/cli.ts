@@ -0,0 +1,106 @@
+import "reflect-metadata";
+
+import fs from "node:fs";
+import path from "node:path";
+
+import type { TradeMode } from "@autobot/shared";
+
+import { loadBacktestFixture } from "./backtest-fixture";
+import { runBacktest } from "./backtest-runner";
+
+type CliOptions = {
+  fixture: string;
+  out: string;
+  stepMs?: number;
+  risk?: number;
+  tradeMode?: TradeMode;
+  startingBalance?: number;
+  from?: number;
+  to?: number;
+};
+
+function parseTime(value: string): number {
+  const asNumber = Number(value);
+  const ms = Number.isFinite(asNumber) ? asNumber : Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid time: ${value}`);
+  return ms;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: Partial<CliOptions> = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    const next = argv[index + 1];
+    if (arg === "--fixture" && next) {
+      options.fixture = next;
+    } else if (arg === "--out" && next) {
+      options.out = next;
+    } else if (arg === "--step-ms" && next) {
+      options.stepMs = Number(next);
+    } else if (arg === "--risk" && next) {
+      options.risk = Number(next);
+    } else if (arg === "--trade-mode" && next) {
+      if (next !== "SPOT" && next !== "SPOT_GRID" && next !== "DCA") {
+        throw new Error(`--trade-mode must be SPOT, SPOT_GRID or DCA, got ${next}`);
+      }
+      options.tradeMode = next;
+    } else if (arg === "--starting-balance" && next) {
+      options.startingBalance = Number(next);
+    } else if (arg === "--from" && next) {
+      options.from = parseTime(next);
+    } else if (arg === "--to" && next) {
+      options.to = parseTime(next);
+    } else {
+      throw new Error(`Unknown or incomplete argument: ${arg}`);
+    }
+    index += 1;
+  }
+
+  if (!options.fixture) {
+    throw new Error("Usage: backtest --fixture <file.json> [--out <dir>] [--step-ms 300000] [--risk 50] [--trade-mode SPOT|SPOT_GRID|DCA]");
+  }
+  return { out: "backtest-out", ...options } as CliOptions;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const fixture = loadBacktestFixture(path.resolve(options.fixture));
+  const report = await runBacktest({
+    fixture,
+    startMs: options.from,
+    endMs: options.to,
+    stepMs: options.stepMs,
+    risk: options.risk,
+    tradeMode: options.tradeMode,
+    startingBalanceHome: options.startingBalance,
+    onStep: ({ step, steps, ts, equityHome }) => {
+      if (step % 100 === 0 || step === steps) {
+        process.stderr.write(`[backtest] ${step}/${steps} ${ts} equity=${equityHome.toFixed(2)}\n`);
+      }
+    }
+  });
+
+  const outDir = path.resolve(options.out);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, "report.json"), JSON.stringify(report, null, 2) + "\n", "utf-8");
+  fs.writeFileSync(
+    path.join(outDir, "equity.csv"),
+    ["ts,equityHome,freeHome", ...report.equityCurve.map((p) => `${p.ts},${p.equityHome},${p.freeHome}`)].join("\n") + "\n",
+    "utf-8"
+  );
+  fs.writeFileSync(
+    path.join(outDir, "trades.csv"),
+    [
+      "ts,symbol,side,type,qty,price,quoteQty,feeHome,liquidity",
+      ...report.trades.map((t) => [t.ts, t.symbol, t.side, t.type, t.qty, t.price, t.quoteQty, t.feeHome ?? "", t.liquidity ?? ""].join(","))
+    ].join("\n") + "\n",
+    "utf-8"
+  );
+
+  process.stdout.write(JSON.stringify(report.summary, null, 2) + "\n");
+}
+
+main().catch((err) => {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+});
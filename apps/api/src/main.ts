@@ -5,6 +5,7 @@ import type { NestExpressApplication } from "@nestjs/platform-express";
 import type { RequestHandler } from "express";
 import { json } from "express";
 
+import { applyDataMigrations } from "./migrations/data-migrations";
 import { AppModule } from "./modules/app.module";
 import { ConfigService } from "./modules/config/config.service";
 import { createLogger } from "./modules/logging/pino-logger";
@@ -31,6 +32,18 @@ async function bootstrap(): Promise<void> {
   });
 
   const configService = app.get(ConfigService);
+  // Throws (and so refuses to start) on data written by a newer build, before the engine can overwrite it.
+  for (const dataMigration of applyDataMigrations(configService.dataDir)) {
+    if (dataMigration.backupPath) {
+      logger.info({
+        msg: "Data migration applied",
+        file: dataMigration.file,
+        fromVersion: dataMigration.fromVersion,
+        toVersion: dataMigration.toVersion,
+        backup: dataMigration.backupPath
+      });
+    }
+  }
   const migration = configService.migrateOnStartup();
   if (migration.migrated) {
     logger.info({ msg: "Config startup migration applied", reason: migration.reason });
@@ -0,0 +1,57 @@
+import path from "node:path";
+
+import { applyDataMigrations, type DataFileMigration, planDataMigrations } from "./data-migrations";
+
+type CliOptions = {
+  dataDir: string;
+  dryRun: boolean;
+};
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    dataDir: process.env.DATA_DIR ?? path.resolve(process.cwd(), "../../data"),
+    dryRun: false
+  };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    const next = argv[index + 1];
+    if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg === "--data-dir" && next) {
+      options.dataDir = path.resolve(next);
+      index += 1;
+    } else {
+      throw new Error(`Unknown or incomplete argument: ${arg}\nUsage: migrate [--data-dir <dir>] [--dry-run]`);
+    }
+  }
+  return options;
+}
+
+function formatMigration(migration: DataFileMigration, dryRun: boolean): string {
+  const version = migration.fromVersion === undefined ? "" : ` v${migration.fromVersion}`;
+  const lines = [`${migration.file}${version}: ${migration.status}`];
+  if (migration.status === "outdated") {
+    lines[0] = `${migration.file}: v${migration.fromVersion} → v${migration.toVersion}${dryRun ? " (dry run, not written)" : ""}`;
+    lines.push(...migration.steps.map((step) => `  ${step}`));
+    lines.push(`  changes: ${migration.changedPaths.length > 0 ? migration.changedPaths.join(", ") : "none"}`);
+    if (migration.backupPath) lines.push(`  backup: ${migration.backupPath}`);
+  }
+  if (migration.message) lines.push(`  ${migration.message}`);
+  return lines.join("\n");
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const migrations = options.dryRun ? planDataMigrations(options.dataDir) : applyDataMigrations(options.dataDir, undefined, "migrate CLI");
+  process.stdout.write(`${migrations.map((migration) => formatMigration(migration, options.dryRun)).join("\n")}\n`);
+  if (migrations.some((migration) => migration.status === "newer" || migration.status === "failed")) {
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+}
@@ -0,0 +1,76 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { defaultBotState, UnsupportedDataVersionError } from "@autobot/shared";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { applyDataMigrations, planDataMigrations } from "./data-migrations";
+
+// Simulates the next build: state.json at version 3, with one more registered step from the current version 2.
+vi.mock("@autobot/shared", async (importOriginal) => {
+  const shared = await importOriginal<typeof import("@autobot/shared")>();
+  const { z } = await import("zod");
+  const registry = [
+    ...shared.BOT_STATE_MIGRATIONS,
+    { to: 3, description: "record the upgrade", up: (document: Record<string, unknown>) => ({ ...document, lastError: "upgraded" }) }
+  ];
+  return {
+    ...shared,
+    BotStateSchema: shared.BotStateSchema.extend({ version: z.literal(3) }),
+    migrateBotState: (document: unknown) => shared.runMigrations(document, registry, 3, "state.json")
+  };
+});
+
+describe("data migrations", () => {
+  let dataDir: string;
+  const now = () => Date.parse("2026-03-01T00:00:00.000Z");
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-migrations-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function write(file: string, document: unknown): string {
+    const raw = JSON.stringify(document, null, 2);
+    fs.writeFileSync(path.join(dataDir, file), raw, "utf-8");
+    return raw;
+  }
+
+  it("reports pending steps on a dry run, then backs up and upgrades the file", () => {
+    const original = write("state.json", defaultBotState());
+
+    expect(planDataMigrations(dataDir)).toEqual([
+      { file: "config.json", status: "missing", steps: [], changedPaths: [] },
+      {
+        file: "state.json",
+        status: "outdated",
+        fromVersion: 2,
+        toVersion: 3,
+        steps: ["v2 → v3: record the upgrade"],
+        changedPaths: ["lastError", "version"]
+      }
+    ]);
+    expect(fs.readFileSync(path.join(dataDir, "state.json"), "utf-8")).toBe(original);
+    expect(fs.existsSync(path.join(dataDir, "backups"))).toBe(false);
+
+    const [, state] = applyDataMigrations(dataDir, now);
+    expect(state.backupPath).toBe(path.join(dataDir, "backups", "state.v2.2026-03-01T00-00-00-000Z.json"));
+    expect(fs.readFileSync(state.backupPath ?? "", "utf-8")).toBe(original);
+    expect(JSON.parse(fs.readFileSync(path.join(dataDir, "state.json"), "utf-8"))).toMatchObject({ version: 3, lastError: "upgraded" });
+    expect(planDataMigrations(dataDir)[1]).toMatchObject({ status: "current", fromVersion: 3 });
+  });
+
+  it("refuses to migrate anything when a file is newer than this build", () => {
+    write("config.json", { version: 7 });
+    const original = write("state.json", defaultBotState());
+
+    expect(planDataMigrations(dataDir)[0]).toMatchObject({ file: "config.json", status: "newer", fromVersion: 7, toVersion: 1 });
+    expect(() => applyDataMigrations(dataDir, now)).toThrow(UnsupportedDataVersionError);
+    expect(fs.readFileSync(path.join(dataDir, "state.json"), "utf-8")).toBe(original);
+    expect(fs.existsSync(path.join(dataDir, "backups"))).toBe(false);
+  });
+});
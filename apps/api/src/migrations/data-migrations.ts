@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  type AppConfig,
+  AppConfigSchema,
+  BotStateSchema,
+  migrateAppConfig,
+  migrateBotState,
+  type MigrationResult,
+  UnsupportedDataVersionError
+} from "@autobot/shared";
+import type { ZodTypeAny } from "zod";
+
+import { ConfigHistoryStore } from "../modules/config/config-history";
+
+type DataFile = {
+  name: "config.json" | "state.json";
+  migrate: (document: unknown) => MigrationResult;
+  schema: ZodTypeAny;
+};
+
+const DATA_FILES: DataFile[] = [
+  { name: "config.json", migrate: migrateAppConfig, schema: AppConfigSchema },
+  { name: "state.json", migrate: migrateBotState, schema: BotStateSchema }
+];
+
+export type DataFileMigration = {
+  file: DataFile["name"];
+  /**
+   * `outdated`: migrations are pending (or were applied, see `backupPath`).
+   * `newer`: written by a newer build, the API refuses to start.
+   * `failed`: the migrated document does not validate, nothing is written.
+   * `unreadable`: not JSON or unversioned; left to the owning service as before.
+   */
+  status: "missing" | "current" | "outdated" | "newer" | "failed" | "unreadable";
+  fromVersion?: number;
+  toVersion?: number;
+  steps: string[];
+  /** Dotted paths whose value the migration changes (arrays count as one value). Values are not reported: config holds secrets. */
+  changedPaths: string[];
+  message?: string;
+  /** Copy of the file as it was before migrating, once applied. */
+  backupPath?: string;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, string>): Map<string, string> {
+  if (!isPlainObject(value)) {
+    if (prefix) out.set(prefix, JSON.stringify(value));
+    return out;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  }
+  return out;
+}
+
+function changedPaths(before: unknown, after: unknown): string[] {
+  const previous = flatten(before, "", new Map());
+  const next = flatten(after, "", new Map());
+  return [...new Set([...previous.keys(), ...next.keys()])].filter((key) => previous.get(key) !== next.get(key)).sort();
+}
+
+type PlannedFile = { plan: DataFileMigration; original?: Record<string, unknown>; document?: Record<string, unknown> };
+
+function planFile(dataDir: string, file: DataFile): PlannedFile {
+  const filePath = path.join(dataDir, file.name);
+  if (!fs.existsSync(filePath)) {
+    return { plan: { file: file.name, status: "missing", steps: [], changedPaths: [] } };
+  }
+
+  let original: unknown;
+  let result: MigrationResult;
+  try {
+    original = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    result = file.migrate(original);
+  } catch (err) {
+    if (err instanceof UnsupportedDataVersionError) {
+      const plan: DataFileMigration = {
+        file: file.name,
+        status: "newer",
+        fromVersion: err.version,
+        toVersion: err.supportedVersion,
+        steps: [],
+        changedPaths: [],
+        message: err.message
+      };
+      return { plan };
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    return { plan: { file: file.name, status: "unreadable", steps: [], changedPaths: [], message } };
+  }
+
+  const base = { file: file.name, fromVersion: result.fromVersion, toVersion: result.toVersion, steps: result.applied };
+  if (result.applied.length === 0) {
+    return { plan: { ...base, status: "current", changedPaths: [] } };
+  }
+  const parsed = file.schema.safeParse(result.document);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const message = `Migrated ${file.name} does not validate: ${issue ? `${issue.path.join(".")}: ${issue.message}` : "invalid"}`;
+    return { plan: { ...base, status: "failed", changedPaths: changedPaths(original, result.document), message } };
+  }
+  return {
+    plan: { ...base, status: "outdated", changedPaths: changedPaths(original, parsed.data) },
+    original: original as Record<string, unknown>,
+    document: parsed.data as Record<string, unknown>
+  };
+}
+
+/** What a migration of `dataDir` would do, without touching any file. */
+export function planDataMigrations(dataDir: string): DataFileMigration[] {
+  return DATA_FILES.map((file) => planFile(dataDir, file).plan);
+}
+
+/**
+ * Upgrades `config.json` and `state.json` to the current versions, copying each to `DATA_DIR/backups/` first.
+ * A config upgrade is recorded in the config history, attributed to `source`.
+ * Throws before writing anything when a file is newer than this build or would not validate after migrating.
+ */
+export function applyDataMigrations(
+  dataDir: string,
+  now: () => number = () => Date.now(),
+  source = "startup migration"
+): DataFileMigration[] {
+  const plans = DATA_FILES.map((file) => planFile(dataDir, file));
+
+  const blocking = plans.map(({ plan }) => plan).find((plan) => plan.status === "newer" || plan.status === "failed");
+  if (blocking?.status === "newer") {
+    throw new UnsupportedDataVersionError(blocking.file, blocking.fromVersion ?? 0, blocking.toVersion ?? 0);
+  }
+  if (blocking) {
+    throw new Error(blocking.message);
+  }
+
+  const stamp = new Date(now()).toISOString().replace(/[:.]/g, "-");
+  return plans.map(({ plan, original, document }) => {
+    if (plan.status !== "outdated" || !document) return plan;
+
+    const filePath = path.join(dataDir, plan.file);
+    const backupDir = path.join(dataDir, "backups");
+    const backupPath = path.join(backupDir, `${path.basename(plan.file, ".json")}.v${plan.fromVersion}.${stamp}.json`);
+    fs.mkdirSync(backupDir, { recursive: true });
+    fs.copyFileSync(filePath, backupPath);
+
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(document, null, 2), { encoding: "utf-8" });
+    fs.renameSync(tmpPath, filePath);
+    if (plan.file === "config.json" && original) {
+      new ConfigHistoryStore(path.join(dataDir, "config-history.jsonl"), now).record(original, document as AppConfig, source);
+    }
+    return { ...plan, backupPath };
+  });
+}
@@ -0,0 +1,139 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { ConfigService } from "../config/config.service";
+import { AiDecisionProvider, type AiDecisionRequest, parseAiDecisionReply } from "./ai-decision.provider";
+
+type MockReply = { status: number; body: unknown; delayMs?: number };
+
+function createRequest(overrides: Partial<AiDecisionRequest> = {}): AiDecisionRequest {
+  return {
+    symbol: "BTCUSDC",
+    candidate: {
+      symbol: "BTCUSDC",
+      baseAsset: "BTC",
+      quoteAsset: "USDC",
+      lastPrice: 65_000,
+      quoteVolume24h: 1_000_000_000,
+      priceChangePct24h: 1.2,
+      rsi14: 58,
+      adx14: 24,
+      atrPct14: 0.8,
+      score: 1.4,
+      reasons: []
+    },
+    regime: { label: "BULL_TREND", confidence: 0.7 },
+    recentDecisions: [],
+    homeStableCoin: "USDC",
+    risk: 50,
+    minConfidence: 65,
+    ...overrides
+  };
+}
+
+function completion(content: string): unknown {
+  return { model: "mock-model", choices: [{ message: { role: "assistant", content } }] };
+}
+
+describe("ai-decision.provider", () => {
+  let server: http.Server;
+  let baseUrl = "";
+  let calls: Array<{ authorization?: string; body: Record<string, unknown> }> = [];
+  let reply: MockReply = { status: 200, body: {} };
+
+  beforeEach(async () => {
+    calls = [];
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        calls.push({ authorization: req.headers.authorization, body: JSON.parse(raw) as Record<string, unknown> });
+        setTimeout(() => {
+          res.writeHead(reply.status, { "content-type": "application/json" });
+          res.end(JSON.stringify(reply.body));
+        }, reply.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function createProvider(openai: Record<string, unknown> = {}): AiDecisionProvider {
+    return new AiDecisionProvider({
+      load: () => ({ basic: { openai: { apiKey: "sk-test", baseUrl, timeoutMs: 1_000, ...openai } } })
+    } as unknown as ConfigService);
+  }
+
+  it("returns the model verdict and sends a JSON-only prompt", async () => {
+    reply = {
+      status: 200,
+      body: completion(JSON.stringify({ verdict: "approve", confidence: 81.6, rationale: "Trend and momentum aligned." }))
+    };
+
+    const result = await createProvider().evaluate(createRequest());
+
+    expect(result).toMatchObject({
+      source: "LLM",
+      verdict: "APPROVE",
+      confidence: 82,
+      rationale: "Trend and momentum aligned.",
+      model: "mock-model",
+      cached: false
+    });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.authorization).toBe("Bearer sk-test");
+    expect(calls[0]?.body).toMatchObject({ model: "gpt-4o-mini", temperature: 0, response_format: { type: "json_object" } });
+  });
+
+  it("caches replies for identical features", async () => {
+    reply = { status: 200, body: completion('{"verdict":"REJECT","confidence":20,"rationale":"Overextended."}') };
+    const provider = createProvider();
+
+    const first = await provider.evaluate(createRequest());
+    const second = await provider.evaluate(createRequest());
+    const changed = await provider.evaluate(createRequest({ regime: { label: "RANGE", confidence: 0.5 } }));
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ verdict: "REJECT", cached: true });
+    expect(changed.cached).toBe(false);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("fails closed on HTTP errors and malformed replies", async () => {
+    reply = { status: 500, body: { error: "boom" } };
+    const httpFailure = await createProvider().evaluate(createRequest());
+    expect(httpFailure).toMatchObject({ source: "UNAVAILABLE", verdict: "ABSTAIN", confidence: 0 });
+    expect(httpFailure.error).toContain("OpenAI HTTP 500");
+
+    reply = { status: 200, body: completion("I think you should buy.") };
+    const malformed = await createProvider().evaluate(createRequest());
+    expect(malformed).toMatchObject({ source: "UNAVAILABLE", verdict: "ABSTAIN" });
+  });
+
+  it("fails closed on timeout", async () => {
+    reply = { status: 200, body: completion('{"verdict":"APPROVE","confidence":90,"rationale":"Late."}'), delayMs: 1_500 };
+
+    const result = await createProvider({ timeoutMs: 1_000 }).evaluate(createRequest());
+
+    expect(result).toMatchObject({ source: "UNAVAILABLE", verdict: "ABSTAIN", error: "Timed out after 1000ms" });
+  });
+
+  it("does not call the endpoint without an API key", async () => {
+    const result = await createProvider({ apiKey: undefined }).evaluate(createRequest());
+
+    expect(result.source).toBe("UNAVAILABLE");
+    expect(calls).toHaveLength(0);
+  });
+
+  it("parses fenced JSON and clamps confidence", () => {
+    const parsed = parseAiDecisionReply('```json\n{"verdict":"APPROVE","confidence":140,"rationale":"ok"}\n```');
+    expect(parsed).toEqual({ verdict: "APPROVE", confidence: 100, rationale: "ok" });
+  });
+});
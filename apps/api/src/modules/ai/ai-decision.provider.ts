@@ -0,0 +1,291 @@
+import crypto from "node:crypto";
+
+import { Inject, Injectable, Optional } from "@nestjs/common";
+import type { AppConfig, Decision, RuntimeRiskState, UniverseCandidate } from "@autobot/shared";
+import { z } from "zod";
+
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
+import { ConfigService } from "../config/config.service";
+
+export type AiDecisionVerdict = "APPROVE" | "REJECT" | "ABSTAIN";
+
+export type AiDecisionRequest = {
+  symbol: string;
+  candidate: UniverseCandidate | null;
+  regime: {
+    label: string;
+    confidence: number;
+  };
+  riskState?: RuntimeRiskState;
+  recentDecisions: Array<Pick<Decision, "ts" | "kind" | "summary">>;
+  homeStableCoin: string;
+  risk: number;
+  minConfidence: number;
+};
+
+export type AiDecisionResult = {
+  source: "LLM" | "UNAVAILABLE";
+  verdict: AiDecisionVerdict;
+  confidence: number;
+  rationale: string;
+  model: string;
+  cached: boolean;
+  latencyMs: number;
+  error?: string;
+};
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const CACHE_TTL_MS = 2 * 60_000;
+const FAILURE_CACHE_TTL_MS = 30_000;
+const MAX_CACHE_ENTRIES = 200;
+const MAX_RECENT_DECISIONS = 12;
+
+const AiReplySchema = z.object({
+  verdict: z
+    .string()
+    .transform((v) => v.trim().toUpperCase())
+    .pipe(z.enum(["APPROVE", "REJECT", "ABSTAIN"])),
+  confidence: z.coerce.number().finite(),
+  rationale: z.string().trim().min(1).max(2_000)
+});
+
+const ChatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullable().optional()
+        })
+      })
+    )
+    .min(1)
+});
+
+export function resolveOpenAiBaseUrl(config: AppConfig | null): string {
+  const configured = config?.basic.openai.baseUrl?.trim();
+  if (configured) return configured.replace(/\/+$/, "");
+
+  const env = (process.env.OPENAI_BASE_URL ?? "").trim();
+  if (env) return env.replace(/\/+$/, "");
+
+  return DEFAULT_OPENAI_BASE_URL;
+}
+
+export function parseAiDecisionReply(content: string): { verdict: AiDecisionVerdict; confidence: number; rationale: string } {
+  // Models occasionally wrap JSON in a markdown fence even when asked not to.
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    throw new Error("AI reply did not contain a JSON object");
+  }
+
+  const reply = AiReplySchema.parse(JSON.parse(trimmed.slice(start, end + 1)));
+  return {
+    verdict: reply.verdict,
+    confidence: Math.max(0, Math.min(100, Math.round(reply.confidence))),
+    rationale: reply.rationale.slice(0, 500)
+  };
+}
+
+function roundFeature(value: number | undefined, decimals = 2): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  const pow = 10 ** decimals;
+  return Math.round(value * pow) / pow;
+}
+
+export function buildAiDecisionPrompt(request: AiDecisionRequest): { system: string; user: string } {
+  const c = request.candidate;
+  const payload = {
+    candidate: c
+      ? {
+          symbol: c.symbol,
+          baseAsset: c.baseAsset,
+          quoteAsset: c.quoteAsset,
+          lastPrice: c.lastPrice,
+          quoteVolume24h: roundFeature(c.quoteVolume24h, 0),
+          priceChangePct24h: roundFeature(c.priceChangePct24h),
+          rsi14: roundFeature(c.rsi14),
+          adx14: roundFeature(c.adx14),
+          atrPct14: roundFeature(c.atrPct14, 3),
+          donchianBreakoutPct20: roundFeature(c.donchianBreakoutPct20, 3),
+          bollingerPosition20: roundFeature(c.bollingerPosition20, 3),
+          bollingerWidthPct20: roundFeature(c.bollingerWidthPct20, 3),
+          emaTrendSpreadPct: roundFeature(c.emaTrendSpreadPct, 3),
+          rangeCycleScore20: roundFeature(c.rangeCycleScore20, 3),
+          strategyHint: c.strategyHint,
+          score: roundFeature(c.score, 4)
+        }
+      : { symbol: request.symbol },
+    regime: {
+      label: request.regime.label,
+      confidence: roundFeature(request.regime.confidence, 3)
+    },
+    riskState: request.riskState
+      ? {
+          state: request.riskState.state,
+          reasonCodes: request.riskState.reason_codes.slice(0, 6),
+          unwindOnly: request.riskState.unwind_only
+        }
+      : { state: "NORMAL" },
+    risk: request.risk,
+    homeStableCoin: request.homeStableCoin,
+    minConfidence: request.minConfidence,
+    recentDecisions: request.recentDecisions.slice(0, MAX_RECENT_DECISIONS).map((d) => ({
+      ts: d.ts,
+      kind: d.kind,
+      summary: d.summary.slice(0, 160)
+    }))
+  };
+
+  return {
+    system: [
+      "You are a risk reviewer for a Binance spot trading bot.",
+      "The engine enforces all hard limits; you only approve or reject the proposed entry on the given symbol.",
+      'Reply with a single JSON object: {"verdict":"APPROVE"|"REJECT"|"ABSTAIN","confidence":0-100,"rationale":"<max 240 chars>"}.',
+      "confidence is your integer confidence (0-100) that entering now has positive expectancy after fees."
+    ].join(" "),
+    user: JSON.stringify(payload)
+  };
+}
+
+function buildCacheKey(request: AiDecisionRequest, model: string): string {
+  const c = request.candidate;
+  const fingerprint = JSON.stringify([
+    model,
+    request.symbol,
+    roundFeature(c?.lastPrice, 6),
+    roundFeature(c?.rsi14, 0),
+    roundFeature(c?.adx14, 0),
+    roundFeature(c?.atrPct14, 1),
+    roundFeature(c?.bollingerPosition20, 1),
+    roundFeature(c?.emaTrendSpreadPct, 1),
+    request.regime.label,
+    request.riskState?.state ?? "NORMAL",
+    request.minConfidence
+  ]);
+  return crypto.createHash("sha256").update(fingerprint).digest("hex").slice(0, 32);
+}
+
+@Injectable()
+export class AiDecisionProvider {
+  private readonly cache = new Map<string, { expiresAtMs: number; result: AiDecisionResult }>();
+  private readonly inFlight = new Map<string, Promise<AiDecisionResult>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  async evaluate(request: AiDecisionRequest): Promise<AiDecisionResult> {
+    const config = this.configService.load();
+    const model = config?.basic.openai.model?.trim() || DEFAULT_OPENAI_MODEL;
+    const key = buildCacheKey(request, model);
+    const nowMs = this.clock.now();
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAtMs > nowMs) {
+      return { ...cached.result, cached: true };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return await pending;
+
+    const run = this.requestDecision(config, model, request)
+      .then((result) => {
+        const ttl = result.source === "LLM" ? CACHE_TTL_MS : FAILURE_CACHE_TTL_MS;
+        this.remember(key, result, this.clock.now() + ttl);
+        return result;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, run);
+    return await run;
+  }
+
+  private remember(key: string, result: AiDecisionResult, expiresAtMs: number): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const nowMs = this.clock.now();
+      for (const [k, entry] of this.cache) {
+        if (entry.expiresAtMs <= nowMs) this.cache.delete(k);
+      }
+      if (this.cache.size >= MAX_CACHE_ENTRIES) {
+        const oldest = this.cache.keys().next().value;
+        if (oldest !== undefined) this.cache.delete(oldest);
+      }
+    }
+    this.cache.set(key, { expiresAtMs, result });
+  }
+
+  private async requestDecision(config: AppConfig | null, model: string, request: AiDecisionRequest): Promise<AiDecisionResult> {
+    const startedAtMs = Date.now();
+    const unavailable = (error: string): AiDecisionResult => ({
+      source: "UNAVAILABLE",
+      verdict: "ABSTAIN",
+      confidence: 0,
+      rationale: `AI unavailable: ${error}`.slice(0, 500),
+      model,
+      cached: false,
+      latencyMs: Date.now() - startedAtMs,
+      error
+    });
+
+    const apiKey = config?.basic.openai.apiKey;
+    if (!apiKey) {
+      return unavailable("Missing OpenAI API key");
+    }
+
+    const baseUrl = resolveOpenAiBaseUrl(config);
+    const timeoutMs = config?.basic.openai.timeoutMs ?? 8_000;
+    const prompt = buildAiDecisionPrompt(request);
+
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${apiKey}`
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          max_tokens: 200,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: prompt.system },
+            { role: "user", content: prompt.user }
+          ]
+        }),
+        signal: controller.signal
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        return unavailable(`OpenAI HTTP ${res.status}: ${text.slice(0, 200)}`);
+      }
+
+      const completion = ChatCompletionSchema.parse(await res.json());
+      const content = completion.choices[0]?.message.content ?? "";
+      const reply = parseAiDecisionReply(content);
+      return {
+        source: "LLM",
+        ...reply,
+        model: completion.model ?? model,
+        cached: false,
+        latencyMs: Date.now() - startedAtMs
+      };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        return unavailable(`Timed out after ${timeoutMs}ms`);
+      }
+      return unavailable(err instanceof Error ? err.message : String(err));
+    } finally {
+      clearTimeout(t);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+
+import { ConfigModule } from "../config/config.module";
+import { AiDecisionProvider } from "./ai-decision.provider";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [AiDecisionProvider],
+  exports: [AiDecisionProvider]
+})
+export class AiModule {}
@@ -1,17 +1,22 @@
 import { Module } from "@nestjs/common";
 
 import { BotModule } from "./bot/bot.module";
+import { ClockModule } from "./clock/clock.module";
 import { ConfigPublicModule } from "./config/config.public.module";
 import { DashboardModule } from "./dashboard/dashboard.module";
+import { EventsModule } from "./events/events.module";
 import { HealthModule } from "./health/health.module";
 import { IntegrationsModule } from "./integrations/integrations.module";
+import { MetricsModule } from "./metrics/metrics.module";
 import { NewsModule } from "./news/news.module";
+import { NotificationsModule } from "./notifications/notifications.module";
 import { PortfolioModule } from "./portfolio/portfolio.module";
 import { SetupModule } from "./setup/setup.module";
 import { UniverseModule } from "./universe/universe.module";
 
 @Module({
   imports: [
+    ClockModule,
     HealthModule,
     SetupModule,
     ConfigPublicModule,
@@ -20,6 +25,9 @@ import { UniverseModule } from "./universe/universe.module";
     PortfolioModule,
     UniverseModule,
     BotModule,
+    NotificationsModule,
+    EventsModule,
+    MetricsModule,
     DashboardModule
   ]
 })
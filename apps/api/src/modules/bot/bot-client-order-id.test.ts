@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  type BotClientOrderIdParams,
+  buildBotClientOrderId,
+  isBotClientOrderId,
+  isBotClientOrderIdFor,
+  isProtectiveBracketClientOrderId
+} from "./bot-client-order-id";
+
+const params: BotClientOrderIdParams = {
+  prefix: "ABOT",
+  purpose: "GRID",
+  side: "BUY",
+  exchange: "BINANCE",
+  nowMs: Date.parse("2026-03-01T00:00:00.000Z"),
+  random: "A1B2C3"
+};
+
+describe("buildBotClientOrderId", () => {
+  it("keeps the hyphenated form on Binance", () => {
+    expect(buildBotClientOrderId(params)).toBe(`ABOT-GRB-${params.nowMs.toString(36).toUpperCase()}A1B2C3`);
+  });
+
+  it("builds hyphen-free ids of at most 18 characters for Kraken and OKX", () => {
+    for (const exchange of ["KRAKEN", "OKX"] as const) {
+      for (const prefix of ["ABOT", "MY-BOT-PREFIX", "XY1"]) {
+        const id = buildBotClientOrderId({ ...params, exchange, prefix });
+        expect(id).toMatch(/^[A-Z0-9]{1,18}$/);
+        expect(isBotClientOrderId(id, prefix)).toBe(true);
+      }
+    }
+    expect(buildBotClientOrderId({ ...params, exchange: "OKX", prefix: "MYBOTPREFIX1", purpose: "TP", side: "SELL" })).toMatch(/^MYBOTPS/);
+  });
+});
+
+describe("isBotClientOrderId", () => {
+  it("recognises both forms and leaves external ids alone", () => {
+    expect(isBotClientOrderId(buildBotClientOrderId(params), "ABOT")).toBe(true);
+    expect(isBotClientOrderId(buildBotClientOrderId({ ...params, exchange: "OKX" }).toLowerCase(), "ABOT")).toBe(true);
+    // Ids from the default prefix stay recognised after the prefix changes.
+    expect(isBotClientOrderId(buildBotClientOrderId({ ...params, exchange: "KRAKEN" }), "NEWBOT")).toBe(true);
+    expect(isBotClientOrderId("web_1234567890", "ABOT")).toBe(false);
+    expect(isBotClientOrderId("ABOTGRB1", "ABOT")).toBe(false);
+    expect(isBotClientOrderId(undefined, "ABOT")).toBe(false);
+  });
+
+  it("tells bracket legs apart from other bot orders", () => {
+    const takeProfit = buildBotClientOrderId({ ...params, exchange: "OKX", purpose: "TP", side: "SELL" });
+    const grid = buildBotClientOrderId({ ...params, exchange: "OKX", side: "SELL" });
+    expect(isProtectiveBracketClientOrderId(takeProfit, "ABOT")).toBe(true);
+    expect(isProtectiveBracketClientOrderId(grid, "ABOT")).toBe(false);
+    expect(isProtectiveBracketClientOrderId(buildBotClientOrderId({ ...params, purpose: "SL", side: "SELL" }), "ABOT")).toBe(true);
+  });
+});
+
+describe("isBotClientOrderIdFor", () => {
+  it("matches purpose and side in both forms", () => {
+    const shortEntry = { ...params, purpose: "FS", side: "SELL" } as const;
+    for (const exchange of ["BINANCE", "OKX"] as const) {
+      const id = buildBotClientOrderId({ ...shortEntry, exchange });
+      expect(isBotClientOrderIdFor(id, "ABOT", { purpose: "FS", side: "SELL" })).toBe(true);
+      expect(isBotClientOrderIdFor(id, "ABOT", { purpose: "FS", side: "BUY" })).toBe(false);
+      expect(isBotClientOrderIdFor(id, "ABOT", { purpose: "TP", side: "SELL" })).toBe(false);
+    }
+    expect(isBotClientOrderIdFor("web_FSS_123", "ABOT", { purpose: "FS", side: "SELL" })).toBe(false);
+  });
+});
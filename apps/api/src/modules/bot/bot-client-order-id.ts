@@ -0,0 +1,85 @@
+import type { ExchangeId } from "@autobot/shared";
+
+const DEFAULT_PREFIX = "ABOT";
+
+/** Kraken caps client ids at 18 characters and OKX only takes alphanumerics, so ccxt exchanges get a compact form. */
+const COMPACT_ID_MAX_LENGTH = 18;
+const COMPACT_PREFIX_LENGTH = 4;
+const COMPACT_UNIQUE_LENGTH = 11;
+
+export type BotClientOrderIdParams = {
+  /** `advanced.botOrderClientIdPrefix`, already normalized by the engine (upper case, 3–12 characters). */
+  prefix: string;
+  /** Two-character purpose code source, e.g. "GRID", "TP", "SL", "FS". */
+  purpose: string;
+  side: "BUY" | "SELL";
+  exchange: ExchangeId;
+  nowMs: number;
+  /** Six upper-case hex characters. */
+  random: string;
+};
+
+/** The prefix as it appears in compact ids: alphanumerics only, at most four characters. */
+function compactPrefix(prefix: string): string {
+  const compact = prefix.trim().toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, COMPACT_PREFIX_LENGTH);
+  return compact.length >= 3 ? compact : DEFAULT_PREFIX;
+}
+
+function toPurposeCode(purpose: string): string {
+  return (purpose.trim().toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 2) || "O").padEnd(2, "O");
+}
+
+/**
+ * Client order id for an order the bot places. Binance gets `<PREFIX>-<PP><S>-<time36+rand>` (at most 36 characters);
+ * Kraken and OKX get the hyphen-free `<PREF><PP><S><11 chars>` (at most 18 characters), which both accept.
+ */
+export function buildBotClientOrderId(params: BotClientOrderIdParams): string {
+  const purposeCode = toPurposeCode(params.purpose);
+  const sideCode = params.side === "BUY" ? "B" : "S";
+  const time36 = params.nowMs.toString(36).toUpperCase();
+  if (params.exchange === "BINANCE") {
+    return `${params.prefix}-${purposeCode}${sideCode}-${time36}${params.random}`.slice(0, 36);
+  }
+  const unique = `${time36}${params.random}`.slice(-COMPACT_UNIQUE_LENGTH).padStart(COMPACT_UNIQUE_LENGTH, "0");
+  return `${compactPrefix(params.prefix)}${purposeCode}${sideCode}${unique}`.slice(0, COMPACT_ID_MAX_LENGTH);
+}
+
+function compactIdPattern(prefix: string, purpose = "[A-Z0-9]{2}", side = "[BS]"): RegExp {
+  return new RegExp(`^${compactPrefix(prefix)}${purpose}${side}[A-Z0-9]{${COMPACT_UNIQUE_LENGTH}}$`);
+}
+
+/** True for client ids built by `buildBotClientOrderId` with `prefix` (or the default prefix), in either form. */
+export function isBotClientOrderId(clientOrderId: string | undefined, prefix: string): boolean {
+  const normalized = clientOrderId?.trim().toUpperCase() ?? "";
+  if (!normalized) return false;
+  if (normalized.startsWith(`${prefix}-`)) return true;
+  if (normalized.startsWith(`${DEFAULT_PREFIX}-`)) return true; // legacy default prefix compatibility after prefix changes/reset
+  if (compactIdPattern(prefix).test(normalized) || compactIdPattern(DEFAULT_PREFIX).test(normalized)) return true;
+  // Signature fallback for previously generated bot client ids from older runs.
+  // Format emitted for Binance: <PREFIX>-<2 chars + side(B|S)>-<time36+rand>
+  return /^[A-Z0-9]{3,12}-[A-Z0-9]{2}[BS]-[A-Z0-9]{8,}$/.test(normalized);
+}
+
+/** Take-profit / stop-loss legs of an exchange-side bracket (client ids from purposes "TP" / "SL"). */
+export function isProtectiveBracketClientOrderId(clientOrderId: string | undefined, prefix: string): boolean {
+  if (!isBotClientOrderId(clientOrderId, prefix)) return false;
+  const normalized = clientOrderId?.trim().toUpperCase() ?? "";
+  return /^[A-Z0-9]{3,12}-(TP|SL)S-/.test(normalized) || compactIdPattern(prefix, "(TP|SL)").test(normalized);
+}
+
+/** Bot client ids built for `purpose` and `side`, e.g. the "FS" / "SELL" entry of a futures short. */
+export function isBotClientOrderIdFor(
+  clientOrderId: string | undefined,
+  prefix: string,
+  params: { purpose: string; side: "BUY" | "SELL" }
+): boolean {
+  if (!isBotClientOrderId(clientOrderId, prefix)) return false;
+  const normalized = clientOrderId?.trim().toUpperCase() ?? "";
+  const purposeCode = toPurposeCode(params.purpose);
+  const sideCode = params.side === "BUY" ? "B" : "S";
+  return (
+    new RegExp(`^[A-Z0-9]{3,12}-${purposeCode}${sideCode}-`).test(normalized) ||
+    compactIdPattern(prefix, purposeCode, sideCode).test(normalized) ||
+    compactIdPattern(DEFAULT_PREFIX, purposeCode, sideCode).test(normalized)
+  );
+}
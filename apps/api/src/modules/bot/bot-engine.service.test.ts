@@ -1,13 +1,21 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 import { describe, expect, it, vi } from "vitest";
 
-import type { AppConfig, BotState, Order, UniverseCandidate } from "@autobot/shared";
+import type { AppConfig, BotState, DcaDeal, DecisionReasonCode, FuturesShort, Order, PositionTracking, UniverseCandidate } from "@autobot/shared";
 import { defaultBotState } from "@autobot/shared";
 
 import { BotEngineService } from "./bot-engine.service";
+import { FixedClock } from "../clock/clock";
 import type { ConfigService } from "../config/config.service";
 import type { BinanceMarketDataService, BinanceSymbolRules, MarketQtyValidation } from "../integrations/binance-market-data.service";
-import type { BinanceBalanceSnapshot, BinanceTradingService } from "../integrations/binance-trading.service";
+import type { BinanceBalanceSnapshot, BinanceOrderSnapshot, BinanceTradingService } from "../integrations/binance-trading.service";
+import type { ExchangeAccountStream } from "../integrations/exchange-adapter";
 import type { ConversionRouterService } from "../integrations/conversion-router.service";
+import type { PaperExchangeService } from "../paper/paper-exchange.service";
+import { PaperTradingService } from "../paper/paper-trading.service";
 import type { UniverseService } from "../universe/universe.service";
 
 describe("bot-engine pickFeasibleLiveCandidate", () => {
@@ -737,13 +745,17 @@ describe("bot-engine pickFeasibleLiveCandidate", () => {
           id: "fee-1",
           ts: new Date(now - 2 * 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip SOLUSDC: Fee/edge filter (net 0.006% < 0.052%)"
+          summary: "Skip SOLUSDC: Fee/edge filter (net 0.006% < 0.052%)",
+          reasonCode: "FEE_EDGE",
+          details: { symbol: "SOLUSDC" }
         },
         {
           id: "fee-2",
           ts: new Date(now - 5 * 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip SOLUSDC: Fee/edge filter (net 0.004% < 0.052%)"
+          summary: "Skip SOLUSDC: Fee/edge filter (net 0.004% < 0.052%)",
+          reasonCode: "FEE_EDGE",
+          details: { symbol: "SOLUSDC" }
         }
       ]
     };
@@ -1395,29 +1407,30 @@ describe("bot-engine insufficient-balance helpers", () => {
 
   it("classifies grid waiting skips as storm-eligible", () => {
     const helpers = service as unknown as {
-      getSkipStormKey: (summary: string) => string | null;
+      getSkipStormKey: (reasonCode: DecisionReasonCode | undefined, symbol: string | null) => string | null;
     };
 
-    const key = helpers.getSkipStormKey("Skip XRPUSDC: Grid waiting for ladder slot or inventory");
-    expect(key).toBe("skip xrpusdc: grid waiting for ladder slot or inventory");
+    const key = helpers.getSkipStormKey("GRID_WAITING", "XRPUSDC");
+    expect(key).toBe("GRID_WAITING:XRPUSDC");
   });
 
   it("classifies grid guard pause skips as storm-eligible", () => {
     const helpers = service as unknown as {
-      getSkipStormKey: (summary: string) => string | null;
+      getSkipStormKey: (reasonCode: DecisionReasonCode | undefined, symbol: string | null) => string | null;
     };
 
-    const key = helpers.getSkipStormKey("Skip XRPUSDC: Grid guard paused BUY leg");
-    expect(key).toBe("skip xrpusdc: grid guard paused buy leg");
+    const key = helpers.getSkipStormKey("GRID_GUARD_BUY_PAUSED", "XRPUSDC");
+    expect(key).toBe("GRID_GUARD_BUY_PAUSED:XRPUSDC");
   });
 
   it("classifies grid sell-leg-not-actionable skips as family storm-eligible", () => {
     const helpers = service as unknown as {
-      getSkipStormKey: (summary: string) => string | null;
+      getSkipStormKey: (reasonCode: DecisionReasonCode | undefined, symbol: string | null) => string | null;
     };
 
-    const key = helpers.getSkipStormKey("Skip XRPUSDC: Grid sell leg not actionable yet");
-    expect(key).toBe("skip *: grid sell leg not actionable yet");
+    const key = helpers.getSkipStormKey("GRID_SELL_NOT_ACTIONABLE", "XRPUSDC");
+    expect(key).toBe("GRID_SELL_NOT_ACTIONABLE:*");
+    expect(helpers.getSkipStormKey("GRID_SELL_NOT_ACTIONABLE", null)).toBeNull();
   });
 
   it("uses gentler skip-storm trigger for grid waiting loops", () => {
@@ -1428,6 +1441,7 @@ describe("bot-engine insufficient-balance helpers", () => {
         risk: number;
         baseCooldownMs: number;
         summary: string;
+        reasonCode: DecisionReasonCode;
       }) => { cooldownMs: number; storm?: { threshold: number } };
     };
 
@@ -1440,7 +1454,9 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "wait-1",
           ts: new Date(now - 20_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "XRPUSDC" }
         }
       ]
     };
@@ -1450,7 +1466,8 @@ describe("bot-engine insufficient-balance helpers", () => {
       symbol: "XRPUSDC",
       risk: 100,
       baseCooldownMs: 60_000,
-      summary
+      summary,
+      reasonCode: "GRID_WAITING"
     });
     expect(withOneRecent.storm).toBeUndefined();
 
@@ -1462,7 +1479,9 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "wait-2",
           ts: new Date(now - 40_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "XRPUSDC" }
         }
       ]
     };
@@ -1471,7 +1490,8 @@ describe("bot-engine insufficient-balance helpers", () => {
       symbol: "XRPUSDC",
       risk: 100,
       baseCooldownMs: 60_000,
-      summary
+      summary,
+      reasonCode: "GRID_WAITING"
     });
     expect(withTwoRecent.storm?.threshold).toBe(3);
     expect(withTwoRecent.cooldownMs).toBeGreaterThanOrEqual(150_000);
@@ -1485,6 +1505,7 @@ describe("bot-engine insufficient-balance helpers", () => {
         risk: number;
         baseCooldownMs: number;
         summary: string;
+        reasonCode: DecisionReasonCode;
       }) => { cooldownMs: number; storm?: { threshold: number } };
     };
 
@@ -1497,7 +1518,9 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "pause-1",
           ts: new Date(now - 20_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "GRID_GUARD_BUY_PAUSED",
+          details: { symbol: "XRPUSDC" }
         }
       ]
     };
@@ -1507,7 +1530,8 @@ describe("bot-engine insufficient-balance helpers", () => {
       symbol: "XRPUSDC",
       risk: 100,
       baseCooldownMs: 60_000,
-      summary
+      summary,
+      reasonCode: "GRID_GUARD_BUY_PAUSED"
     });
     expect(withOneRecent.storm).toBeUndefined();
 
@@ -1519,7 +1543,9 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "pause-2",
           ts: new Date(now - 40_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "GRID_GUARD_BUY_PAUSED",
+          details: { symbol: "XRPUSDC" }
         }
       ]
     };
@@ -1528,7 +1554,8 @@ describe("bot-engine insufficient-balance helpers", () => {
       symbol: "XRPUSDC",
       risk: 100,
       baseCooldownMs: 60_000,
-      summary
+      summary,
+      reasonCode: "GRID_GUARD_BUY_PAUSED"
     });
     expect(withTwoRecent.storm?.threshold).toBe(3);
     expect(withTwoRecent.cooldownMs).toBeGreaterThanOrEqual(150_000);
@@ -1563,6 +1590,7 @@ describe("bot-engine insufficient-balance helpers", () => {
         risk: number;
         baseCooldownMs: number;
         summary: string;
+        reasonCode: DecisionReasonCode;
       }) => { cooldownMs: number; storm?: { threshold: number; count: number } };
     };
 
@@ -1575,19 +1603,25 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "dust-1",
           ts: new Date(now - 5 * 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip BTCUSDC: Grid sell leg not actionable yet"
+          summary: "Skip BTCUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "BTCUSDC" }
         },
         {
           id: "dust-2",
           ts: new Date(now - 20 * 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip SOLUSDC: Grid sell leg not actionable yet"
+          summary: "Skip SOLUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "SOLUSDC" }
         },
         {
           id: "dust-3",
           ts: new Date(now - 35 * 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip TAOUSDC: Grid sell leg not actionable yet"
+          summary: "Skip TAOUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "TAOUSDC" }
         }
       ]
     };
@@ -1597,7 +1631,8 @@ describe("bot-engine insufficient-balance helpers", () => {
       symbol: "ETHUSDC",
       risk: 100,
       baseCooldownMs: 900_000,
-      summary
+      summary,
+      reasonCode: "GRID_SELL_NOT_ACTIONABLE"
     });
     expect(cooldown.storm?.threshold).toBe(3);
     expect(cooldown.storm?.count).toBe(4);
@@ -1708,7 +1743,7 @@ describe("bot-engine insufficient-balance helpers", () => {
     const helpers = service as unknown as {
       deriveNoFeasibleRecoveryPolicy: (params: {
         state: BotState;
-        reason: string | undefined;
+        reasonCode: DecisionReasonCode | undefined;
         risk: number;
         nowMs: number;
       }) => { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number };
@@ -1723,14 +1758,15 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "nf-1",
           ts: new Date(now - 45_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         }
       ]
     };
 
     const policy = helpers.deriveNoFeasibleRecoveryPolicy({
       state,
-      reason: "No feasible candidates after sizing/cap filters (10 rejected)",
+      reasonCode: "NO_FEASIBLE_CANDIDATE",
       risk: 100,
       nowMs: now
     });
@@ -1745,7 +1781,7 @@ describe("bot-engine insufficient-balance helpers", () => {
     const helpers = service as unknown as {
       deriveNoFeasibleRecoveryPolicy: (params: {
         state: BotState;
-        reason: string | undefined;
+        reasonCode: DecisionReasonCode | undefined;
         risk: number;
         nowMs: number;
       }) => { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number };
@@ -1760,14 +1796,15 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "nf-1",
           ts: new Date(now - 45_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         }
       ]
     };
 
     const policy = helpers.deriveNoFeasibleRecoveryPolicy({
       state,
-      reason: "No feasible candidates after policy/exposure filters",
+      reasonCode: "NO_FEASIBLE_CANDIDATE",
       risk: 100,
       nowMs: now
     });
@@ -1782,7 +1819,7 @@ describe("bot-engine insufficient-balance helpers", () => {
     const helpers = service as unknown as {
       deriveNoFeasibleRecoveryPolicy: (params: {
         state: BotState;
-        reason: string | undefined;
+        reasonCode: DecisionReasonCode | undefined;
         risk: number;
         nowMs: number;
       }) => { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number };
@@ -1797,14 +1834,15 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "nf-1",
           ts: new Date(now - 4 * 60 * 60_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         }
       ]
     };
 
     const policy = helpers.deriveNoFeasibleRecoveryPolicy({
       state,
-      reason: "No feasible candidates after policy/exposure filters",
+      reasonCode: "NO_FEASIBLE_CANDIDATE",
       risk: 100,
       nowMs: now
     });
@@ -1818,7 +1856,7 @@ describe("bot-engine insufficient-balance helpers", () => {
     const helpers = service as unknown as {
       deriveNoFeasibleRecoveryPolicy: (params: {
         state: BotState;
-        reason: string | undefined;
+        reasonCode: DecisionReasonCode | undefined;
         risk: number;
         nowMs: number;
       }) => { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number };
@@ -1839,14 +1877,15 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "nf-1",
           ts: new Date(now - 4 * 60 * 60_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         }
       ]
     };
 
     const policy = helpers.deriveNoFeasibleRecoveryPolicy({
       state,
-      reason: "No feasible candidates after policy/exposure filters",
+      reasonCode: "NO_FEASIBLE_CANDIDATE",
       risk: 100,
       nowMs: now
     });
@@ -1860,7 +1899,7 @@ describe("bot-engine insufficient-balance helpers", () => {
     const helpers = service as unknown as {
       deriveNoFeasibleRecoveryPolicy: (params: {
         state: BotState;
-        reason: string | undefined;
+        reasonCode: DecisionReasonCode | undefined;
         risk: number;
         nowMs: number;
       }) => { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number };
@@ -1884,20 +1923,22 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "nf-2",
           ts: new Date(now - 180_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         },
         {
           id: "nf-1",
           ts: new Date(now - 240_000).toISOString(),
           kind: "SKIP",
-          summary
+          summary,
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
         }
       ]
     };
 
     const policy = helpers.deriveNoFeasibleRecoveryPolicy({
       state,
-      reason: "No feasible candidates after sizing/cap filters (11 rejected)",
+      reasonCode: "NO_FEASIBLE_CANDIDATE",
       risk: 100,
       nowMs: now
     });
@@ -1907,6 +1948,42 @@ describe("bot-engine insufficient-balance helpers", () => {
     expect(policy.threshold).toBe(2);
   });
 
+  it("keys no-feasible recovery on the reason code, not the skip summary", () => {
+    const helpers = service as unknown as {
+      deriveNoFeasibleRecoveryPolicy: (params: {
+        state: BotState;
+        reasonCode: DecisionReasonCode | undefined;
+        risk: number;
+        nowMs: number;
+      }) => { enabled: boolean; recentCount: number };
+    };
+
+    const now = Date.now();
+    const state: BotState = {
+      ...defaultBotState(),
+      decisions: [
+        {
+          id: "caution-1",
+          ts: new Date(now - 45_000).toISOString(),
+          kind: "SKIP",
+          summary: "Skip: No feasible candidates: daily loss caution paused new symbols (3 filtered)",
+          reasonCode: "DAILY_LOSS_CAUTION"
+        },
+        {
+          id: "nf-1",
+          ts: new Date(now - 90_000).toISOString(),
+          kind: "SKIP",
+          summary: "Skip: candidates rejected",
+          reasonCode: "NO_FEASIBLE_CANDIDATE"
+        }
+      ]
+    };
+
+    expect(helpers.deriveNoFeasibleRecoveryPolicy({ state, reasonCode: "DAILY_LOSS_CAUTION", risk: 100, nowMs: now }).enabled).toBe(false);
+    const policy = helpers.deriveNoFeasibleRecoveryPolicy({ state, reasonCode: "NO_FEASIBLE_CANDIDATE", risk: 100, nowMs: now });
+    expect(policy).toMatchObject({ enabled: true, recentCount: 2 });
+  });
+
   it("holds recovered quote against the high reserve after no-feasible recovery", () => {
     const helpers = service as unknown as {
       deriveEffectiveQuoteReserveTargetForBuy: (params: {
@@ -2254,12 +2331,13 @@ describe("bot-engine insufficient-balance helpers", () => {
 
   it("classifies skip reason clusters for KPI counters", () => {
     const helpers = service as unknown as {
-      classifySkipReasonCluster: (summary: string) => "FEE_EDGE" | "MIN_ORDER" | "INVENTORY_WAITING" | "OTHER";
+      classifySkipReasonCluster: (reasonCode: DecisionReasonCode) => "FEE_EDGE" | "MIN_ORDER" | "INVENTORY_WAITING" | "OTHER";
     };
 
-    expect(helpers.classifySkipReasonCluster("Skip BNBUSDC: Fee/edge filter (net 0.02% < 0.05%)")).toBe("FEE_EDGE");
-    expect(helpers.classifySkipReasonCluster("Skip DOGEUSDC: Grid sell sizing rejected (Below minQty 1.00000000)")).toBe("MIN_ORDER");
-    expect(helpers.classifySkipReasonCluster("Skip SUIUSDC: Grid waiting for ladder slot or inventory")).toBe("INVENTORY_WAITING");
+    expect(helpers.classifySkipReasonCluster("FEE_EDGE")).toBe("FEE_EDGE");
+    expect(helpers.classifySkipReasonCluster("GRID_SELL_SIZING_FLOOR")).toBe("MIN_ORDER");
+    expect(helpers.classifySkipReasonCluster("GRID_WAITING")).toBe("INVENTORY_WAITING");
+    expect(helpers.classifySkipReasonCluster("PROTECTION_LOCK")).toBe("OTHER");
   });
 
   it("counts recent skip clusters inside the requested window", () => {
@@ -2279,25 +2357,33 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "skip-1",
           ts: new Date(now - 5_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid buy sizing rejected (Below minNotional 5.00000000)"
+          summary: "Skip ETHUSDC: Grid buy sizing rejected (Below minNotional 5.00000000)",
+          reasonCode: "GRID_BUY_SIZING_FLOOR",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "skip-2",
           ts: new Date(now - 20_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip SOLUSDC: Grid sell sizing rejected (Below minQty 0.00100000)"
+          summary: "Skip SOLUSDC: Grid sell sizing rejected (Below minQty 0.00100000)",
+          reasonCode: "GRID_SELL_SIZING_FLOOR",
+          details: { symbol: "SOLUSDC" }
         },
         {
           id: "skip-3",
           ts: new Date(now - 40_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory"
+          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory",
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "DOGEUSDC" }
         },
         {
           id: "skip-4",
           ts: new Date(now - 80_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip BNBUSDC: Fee/edge filter (net 0.01% < 0.05%)"
+          summary: "Skip BNBUSDC: Fee/edge filter (net 0.01% < 0.05%)",
+          reasonCode: "FEE_EDGE",
+          details: { symbol: "BNBUSDC" }
         }
       ]
     };
@@ -2323,7 +2409,7 @@ describe("bot-engine insufficient-balance helpers", () => {
       countRecentSymbolSkipMatches: (params: {
         state: BotState;
         symbol: string;
-        contains: string;
+        reasonCodes: DecisionReasonCode[];
         windowMs: number;
       }) => number;
     };
@@ -2336,25 +2422,33 @@ describe("bot-engine insufficient-balance helpers", () => {
           id: "s1",
           ts: new Date(now - 5_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory"
+          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory",
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "DOGEUSDC" }
         },
         {
           id: "s2",
           ts: new Date(now - 20_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory"
+          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory",
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "DOGEUSDC" }
         },
         {
           id: "s3",
           ts: new Date(now - 70_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory"
+          summary: "Skip DOGEUSDC: Grid waiting for ladder slot or inventory",
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "DOGEUSDC" }
         },
         {
           id: "s4",
           ts: new Date(now - 15_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid waiting for ladder slot or inventory"
+          summary: "Skip ETHUSDC: Grid waiting for ladder slot or inventory",
+          reasonCode: "GRID_WAITING",
+          details: { symbol: "ETHUSDC" }
         }
       ]
     };
@@ -2363,7 +2457,7 @@ describe("bot-engine insufficient-balance helpers", () => {
       helpers.countRecentSymbolSkipMatches({
         state,
         symbol: "DOGEUSDC",
-        contains: "grid waiting for ladder slot or inventory",
+        reasonCodes: ["GRID_WAITING"],
         windowMs: 60_000
       })
     ).toBe(2);
@@ -2371,7 +2465,7 @@ describe("bot-engine insufficient-balance helpers", () => {
 
   it("activates reason-level quarantine after repeated fee-edge skips", () => {
     const helpers = service as unknown as {
-      maybeApplyReasonQuarantineLock: (params: { state: BotState; summary: string; risk: number }) => BotState;
+      maybeApplyReasonQuarantineLock: (params: { state: BotState; reasonCode: DecisionReasonCode; risk: number }) => BotState;
       getActiveReasonQuarantineFamilies: (
         state: BotState
       ) => Set<"FEE_EDGE" | "GRID_BUY_SIZING" | "GRID_SELL_SIZING" | "GRID_BUY_QUOTE">;
@@ -2383,7 +2477,9 @@ describe("bot-engine insufficient-balance helpers", () => {
       id: `d-${idx}`,
       ts: new Date(now - idx * 15_000).toISOString(),
       kind: "SKIP",
-      summary: skipSummary
+      summary: skipSummary,
+      reasonCode: "FEE_EDGE" as const,
+      details: { symbol: "BNBUSDC" }
     }));
 
     const state: BotState = {
@@ -2393,7 +2489,7 @@ describe("bot-engine insufficient-balance helpers", () => {
 
     const next = helpers.maybeApplyReasonQuarantineLock({
       state,
-      summary: skipSummary,
+      reasonCode: "FEE_EDGE",
       risk: 50
     });
 
@@ -2403,7 +2499,7 @@ describe("bot-engine insufficient-balance helpers", () => {
 
   it("activates reason-level quarantine after repeated grid buy quote insufficiency skips", () => {
     const helpers = service as unknown as {
-      maybeApplyReasonQuarantineLock: (params: { state: BotState; summary: string; risk: number }) => BotState;
+      maybeApplyReasonQuarantineLock: (params: { state: BotState; reasonCode: DecisionReasonCode; risk: number }) => BotState;
       getActiveReasonQuarantineFamilies: (
         state: BotState
       ) => Set<"FEE_EDGE" | "GRID_BUY_SIZING" | "GRID_SELL_SIZING" | "GRID_BUY_QUOTE">;
@@ -2415,7 +2511,9 @@ describe("bot-engine insufficient-balance helpers", () => {
       id: `q-${idx}`,
       ts: new Date(now - idx * 15_000).toISOString(),
       kind: "SKIP",
-      summary: skipSummary
+      summary: skipSummary,
+      reasonCode: "GRID_BUY_QUOTE_INSUFFICIENT" as const,
+      details: { quoteAsset: "ETH" }
     }));
 
     const state: BotState = {
@@ -2425,7 +2523,7 @@ describe("bot-engine insufficient-balance helpers", () => {
 
     const next = helpers.maybeApplyReasonQuarantineLock({
       state,
-      summary: skipSummary,
+      reasonCode: "GRID_BUY_QUOTE_INSUFFICIENT",
       risk: 50
     });
 
@@ -2433,6 +2531,44 @@ describe("bot-engine insufficient-balance helpers", () => {
     expect(families.has("GRID_BUY_QUOTE")).toBe(true);
   });
 
+  it("keys reason quarantine and skip storms off reason codes, not summary wording", () => {
+    const helpers = service as unknown as {
+      maybeApplyReasonQuarantineLock: (params: { state: BotState; reasonCode: DecisionReasonCode; risk: number }) => BotState;
+      getActiveReasonQuarantineFamilies: (
+        state: BotState
+      ) => Set<"FEE_EDGE" | "GRID_BUY_SIZING" | "GRID_SELL_SIZING" | "GRID_BUY_QUOTE">;
+      countRecentSymbolSkipMatches: (params: {
+        state: BotState;
+        symbol: string;
+        reasonCodes: DecisionReasonCode[];
+        windowMs: number;
+      }) => number;
+    };
+
+    const now = Date.now();
+    const state: BotState = {
+      ...defaultBotState(),
+      decisions: Array.from({ length: 6 }).map((_, idx) => ({
+        id: `r-${idx}`,
+        ts: new Date(now - idx * 10_000).toISOString(),
+        kind: "SKIP",
+        summary: `Expected edge too thin after fees (#${idx})`,
+        reasonCode: "FEE_EDGE" as const,
+        details: { symbol: "BNBUSDC" }
+      }))
+    };
+
+    const next = helpers.maybeApplyReasonQuarantineLock({ state, reasonCode: "FEE_EDGE", risk: 50 });
+    expect(helpers.getActiveReasonQuarantineFamilies(next).has("FEE_EDGE")).toBe(true);
+    expect(
+      helpers.countRecentSymbolSkipMatches({ state, symbol: "BNBUSDC", reasonCodes: ["FEE_EDGE"], windowMs: 60_000 })
+    ).toBe(6);
+    expect(
+      helpers.countRecentSymbolSkipMatches({ state, symbol: "BNBUSDC", reasonCodes: ["GRID_WAITING"], windowMs: 60_000 })
+    ).toBe(0);
+    expect(helpers.countRecentSymbolSkipMatches({ state, symbol: "BNB", reasonCodes: ["FEE_EDGE"], windowMs: 60_000 })).toBe(0);
+  });
+
   it("extracts wallet policy snapshot from latest wallet-sweep decision", () => {
     const helpers = service as unknown as {
       extractWalletPolicySnapshot: (state: BotState) => {
@@ -2809,17 +2945,26 @@ describe("bot-engine insufficient-balance helpers", () => {
           ts: new Date(now - 60_000).toISOString(),
           kind: "TRADE",
           summary: "Binance testnet SELL MARKET ORCAUSDC qty 10 → FILLED (orderId 1 · stop-loss-exit)",
-          details: { reason: "stop-loss-exit" }
+          reasonCode: "STOP_LOSS_EXIT",
+          details: { symbol: "ORCAUSDC", reason: "stop-loss-exit" }
+        },
+        {
+          id: "sl-2",
+          ts: new Date(now - 90_000).toISOString(),
+          kind: "TRADE",
+          summary: "Stop-loss exit filled for BTCUSDC and ETHUSDC basket",
+          reasonCode: "STOP_LOSS_EXIT",
+          details: { symbol: "ETHUSDC", reason: "stop-loss-exit" }
         }
       ]
     };
 
     const helpers = guardedService as unknown as {
-      getEntryGuard: (params: { symbol: string; state: BotState }) => { summary: string } | null;
+      getEntryGuard: (params: { symbol: string; state: BotState }) => { summary: string; reasonCode: DecisionReasonCode } | null;
     };
 
     const guarded = helpers.getEntryGuard({ symbol: "ORCAUSDC", state });
-    expect(guarded?.summary).toBe("Post stop-loss cooldown active");
+    expect(guarded).toMatchObject({ summary: "Post stop-loss cooldown active", reasonCode: "STOP_LOSS_COOLDOWN" });
 
     const otherSymbol = helpers.getEntryGuard({ symbol: "BTCUSDC", state });
     expect(otherSymbol).toBeNull();
@@ -2927,6 +3072,135 @@ describe("bot-engine insufficient-balance helpers", () => {
     expect(events[0].pnlPct).toBeCloseTo(0.99502488, 8);
   });
 
+  it("attributes ladder partial closes to one round trip", () => {
+    const helpers = service as unknown as {
+      getClosedPnlEvents: (state: BotState) => Array<{ symbol: string; pnlAbs: number; closeCost: number; positionClosed: boolean }>;
+      toClosedRoundTrips: (
+        events: Array<{ symbol: string; pnlAbs: number; closeCost: number; positionClosed: boolean }>
+      ) => Array<{ symbol: string; pnlAbs: number; pnlPct: number }>;
+    };
+
+    const now = Date.now();
+    const fill = (id: string, minutesAgo: number, side: "BUY" | "SELL", price: number, qty: number) => ({
+      id,
+      ts: new Date(now - minutesAgo * 60_000).toISOString(),
+      symbol: "AAAUSDC",
+      side,
+      type: "MARKET" as const,
+      status: "FILLED" as const,
+      price,
+      qty
+    });
+    const state: BotState = {
+      ...defaultBotState(),
+      orderHistory: [
+        fill("buy-1", 40, "BUY", 100, 3),
+        fill("tp-1", 30, "SELL", 101, 1),
+        fill("tp-2", 20, "SELL", 102, 1),
+        fill("trail-exit", 10, "SELL", 101.5, 1)
+      ]
+    };
+
+    const events = helpers.getClosedPnlEvents(state);
+    expect(events.map((event) => event.positionClosed)).toEqual([false, false, true]);
+    expect(events.map((event) => event.closeCost)).toEqual([100, 100, 100]);
+
+    const roundTrips = helpers.toClosedRoundTrips(events);
+    expect(roundTrips).toHaveLength(1);
+    expect(roundTrips[0].pnlAbs).toBeCloseTo(4.5, 8);
+    expect(roundTrips[0].pnlPct).toBeCloseTo(1.5, 8);
+  });
+
+  it("closes the round trip when a base-asset fee leaves dust behind", () => {
+    const helpers = service as unknown as {
+      getClosedPnlEvents: (state: BotState) => Array<{ symbol: string; pnlAbs: number; closeCost: number; positionClosed: boolean }>;
+      toClosedRoundTrips: (
+        events: Array<{ symbol: string; pnlAbs: number; closeCost: number; positionClosed: boolean }>
+      ) => Array<{ symbol: string; pnlAbs: number; pnlPct: number }>;
+    };
+
+    const now = Date.now();
+    const fill = (id: string, minutesAgo: number, side: "BUY" | "SELL", price: number, qty: number, feeHome?: number) => ({
+      id,
+      ts: new Date(now - minutesAgo * 60_000).toISOString(),
+      symbol: "AAAUSDC",
+      side,
+      type: "MARKET" as const,
+      status: "FILLED" as const,
+      price,
+      qty,
+      ...(feeHome !== undefined ? { feeHome } : {})
+    });
+    // The 0.1% fee on the buy is paid in AAA, so only 2.997 AAA arrive and the exit sells all of them.
+    const state: BotState = {
+      ...defaultBotState(),
+      orderHistory: [
+        fill("buy-1", 50, "BUY", 100, 3, 0.3),
+        fill("tp-1", 40, "SELL", 101, 1),
+        fill("trail-exit", 30, "SELL", 101.5, 1.997),
+        fill("buy-2", 20, "BUY", 100, 1),
+        fill("sell-2", 10, "SELL", 103, 1)
+      ]
+    };
+
+    const events = helpers.getClosedPnlEvents(state);
+    expect(events.map((event) => event.positionClosed)).toEqual([false, true, true]);
+    // The dust's cost basis is charged to the closing fill, and the next entry starts from a flat position.
+    expect(events.map((event) => event.closeCost)).toEqual([100.1, 200.2, 100]);
+
+    const roundTrips = helpers.toClosedRoundTrips(events);
+    expect(roundTrips).toHaveLength(2);
+    expect(roundTrips[0].pnlAbs).toBeCloseTo(3.3955, 8);
+    expect(roundTrips[1].pnlAbs).toBeCloseTo(3, 8);
+  });
+
+  it("starts fresh position tracking when re-entering after a fee-dust close", () => {
+    const helpers = service as unknown as {
+      getManagedPositions: (state: BotState) => Map<string, { netQty: number; peakQty: number; openedAt?: string }>;
+      prunePositionTracking: (state: BotState, positions: Map<string, unknown>) => BotState;
+      trackPositionPrice: (state: BotState, position: unknown, price: number) => PositionTracking;
+    };
+    const fill = (id: string, ts: string, side: "BUY" | "SELL", qty: number): Order => ({
+      id,
+      ts,
+      symbol: "AAAUSDC",
+      side,
+      type: "MARKET",
+      status: "FILLED",
+      price: 100,
+      qty
+    });
+    const tracking: PositionTracking = {
+      symbol: "AAAUSDC",
+      openedAt: "2026-03-01T00:00:00.000Z",
+      highWaterPrice: 110,
+      highWaterAt: "2026-03-01T00:30:00.000Z",
+      breakEvenArmed: true,
+      takeProfitStepsDone: 2,
+      pyramidAdds: 1,
+      strategy: "TREND"
+    };
+    // The buy's 0.1% fee is paid in AAA, so the exit sells 2.997 and leaves 0.003 AAA of dust.
+    const closed: BotState = {
+      ...defaultBotState(),
+      orderHistory: [fill("exit", "2026-03-01T01:00:00.000Z", "SELL", 2.997), fill("buy-1", "2026-03-01T00:00:00.000Z", "BUY", 3)],
+      positionTracking: [tracking]
+    };
+    expect(helpers.getManagedPositions(closed).get("AAAUSDC")).toMatchObject({ netQty: 0 });
+    expect(helpers.prunePositionTracking(closed, helpers.getManagedPositions(closed)).positionTracking).toEqual([]);
+
+    const reentered: BotState = { ...closed, orderHistory: [fill("buy-2", "2026-03-01T02:00:00.000Z", "BUY", 1), ...closed.orderHistory] };
+    const position = helpers.getManagedPositions(reentered).get("AAAUSDC");
+    expect(position).toMatchObject({ netQty: 1, peakQty: 1, openedAt: "2026-03-01T02:00:00.000Z" });
+    expect(helpers.trackPositionPrice(reentered, position, 100)).toMatchObject({
+      openedAt: "2026-03-01T02:00:00.000Z",
+      highWaterPrice: 100,
+      breakEvenArmed: false,
+      takeProfitStepsDone: 0,
+      pyramidAdds: 0
+    });
+  });
+
   it("summarizes recent risk-budget performance from gross closes and paid fees", () => {
     const helpers = service as unknown as {
       summarizeRecentRiskBudgetPerformance: (params: {
@@ -5932,25 +6206,33 @@ describe("bot-engine symbol lock checks", () => {
           id: "d1",
           ts: new Date(now - 30_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "d2",
           ts: new Date(now - 35_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid guard paused BUY leg"
+          summary: "Skip ETHUSDC: Grid guard paused BUY leg",
+          reasonCode: "GRID_GUARD_BUY_PAUSED",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "d3",
           ts: new Date(now - 70_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "d4",
           ts: new Date(now - 75_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid guard paused BUY leg"
+          summary: "Skip ETHUSDC: Grid guard paused BUY leg",
+          reasonCode: "GRID_GUARD_BUY_PAUSED",
+          details: { symbol: "ETHUSDC" }
         }
       ]
     };
@@ -6012,25 +6294,33 @@ describe("bot-engine symbol lock checks", () => {
           id: "s1",
           ts: new Date(now - 30_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "s2",
           ts: new Date(now - 60_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "s3",
           ts: new Date(now - 90_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         },
         {
           id: "s4",
           ts: new Date(now - 120_000).toISOString(),
           kind: "SKIP",
-          summary: "Skip ETHUSDC: Grid sell leg not actionable yet"
+          summary: "Skip ETHUSDC: Grid sell leg not actionable yet",
+          reasonCode: "GRID_SELL_NOT_ACTIONABLE",
+          details: { symbol: "ETHUSDC" }
         }
       ]
     };
@@ -6305,3 +6595,602 @@ describe("bot-engine live order sync", () => {
     expect(synced.activeOrders.some((order) => order.id === "2002")).toBe(true);
   });
 });
+
+describe("bot-engine clock", () => {
+  it("expires protection locks and blacklist entries on the injected clock", () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      {} as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      {} as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      pruneExpiredProtectionLocks: (state: BotState) => BotState;
+      pruneExpiredBlacklist: (state: BotState) => BotState;
+    };
+
+    const state: BotState = {
+      ...defaultBotState(),
+      protectionLocks: [
+        {
+          id: "lock-1",
+          type: "STOPLOSS_GUARD",
+          scope: "SYMBOL",
+          symbol: "BTCUSDC",
+          reason: "Stoploss guard",
+          createdAt: "2026-03-01T00:00:00.000Z",
+          expiresAt: "2026-03-01T02:00:00.000Z"
+        }
+      ],
+      symbolBlacklist: [
+        {
+          symbol: "ETHUSDC",
+          reason: "Repeated rejects",
+          createdAt: "2026-03-01T00:00:00.000Z",
+          expiresAt: "2026-03-01T00:30:00.000Z"
+        }
+      ]
+    };
+
+    clock.advance(29 * 60_000);
+    expect(internals.pruneExpiredBlacklist(state).symbolBlacklist).toHaveLength(1);
+    expect(internals.pruneExpiredProtectionLocks(state).protectionLocks).toHaveLength(1);
+
+    clock.advance(60_000);
+    expect(internals.pruneExpiredBlacklist(state).symbolBlacklist).toHaveLength(0);
+
+    clock.set(Date.parse("2026-03-01T02:00:00.000Z"));
+    expect(internals.pruneExpiredProtectionLocks(state).protectionLocks).toHaveLength(0);
+  });
+
+  it("closes DCA deals whose position was sold outside the deal", () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T01:00:00.000Z"));
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      {} as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      {} as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      getManagedPositions: (state: BotState) => Map<string, unknown>;
+      closeOrphanedDcaDeals: (state: BotState, positions: Map<string, unknown>) => BotState;
+    };
+    const buy = (symbol: string): Order => ({
+      id: `buy-${symbol}`,
+      ts: "2026-03-01T00:00:00.000Z",
+      symbol,
+      side: "BUY",
+      type: "MARKET",
+      status: "FILLED",
+      qty: 1,
+      price: 10
+    });
+    const deal = (symbol: string): DcaDeal => ({
+      id: `deal-${symbol}`,
+      symbol,
+      status: "OPEN",
+      baseOrderQuote: 10,
+      maxSafetyOrders: 3,
+      safetyOrdersFilled: 0,
+      fills: [{ kind: "BASE", orderId: `buy-${symbol}`, price: 10, qty: 1, ts: "2026-03-01T00:00:00.000Z" }],
+      qty: 1,
+      costQuote: 10,
+      feesQuote: 0,
+      avgEntryPrice: 10,
+      takeProfitPrice: 10.15,
+      nextSafetyPrice: 9.85,
+      openedAt: "2026-03-01T00:00:00.000Z"
+    });
+    const state: BotState = {
+      ...defaultBotState(),
+      orderHistory: [
+        { ...buy("ETHUSDC"), id: "sell-ETHUSDC", side: "SELL", ts: "2026-03-01T00:30:00.000Z" },
+        buy("ETHUSDC"),
+        buy("BNBUSDC")
+      ],
+      dcaDeals: [deal("ETHUSDC"), deal("BNBUSDC")]
+    };
+
+    const next = internals.closeOrphanedDcaDeals(state, internals.getManagedPositions(state));
+    expect(next.dcaDeals.find((entry) => entry.symbol === "ETHUSDC")).toMatchObject({
+      status: "CLOSED",
+      closeReason: "POSITION_GONE",
+      closedAt: "2026-03-01T01:00:00.000Z"
+    });
+    expect(next.dcaDeals.find((entry) => entry.symbol === "BNBUSDC")?.status).toBe("OPEN");
+    expect(internals.closeOrphanedDcaDeals(next, internals.getManagedPositions(next))).toBe(next);
+  });
+
+  it("closes futures shorts at take-profit reduce-only and drops shorts closed on the exchange", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T01:00:00.000Z"));
+    const placeFuturesMarketOrder = vi.fn(async (params: { symbol: string; side: "BUY" | "SELL"; quantity: string }) => ({
+      symbol: params.symbol,
+      orderId: "f-2",
+      status: "FILLED",
+      side: params.side,
+      reduceOnly: true,
+      avgPrice: 1_800,
+      origQty: Number(params.quantity),
+      executedQty: Number(params.quantity)
+    }));
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      {
+        getFuturesPositions: async () => [
+          { symbol: "ETHUSDT", positionAmt: -0.05, entryPrice: 2_000, markPrice: 1_800, unrealizedPnl: 10, leverage: 2, marginType: "ISOLATED" }
+        ],
+        placeFuturesMarketOrder
+      } as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      { getLatest: async () => null } as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      reconcileFuturesShorts: (params: { config: AppConfig; state: BotState; risk: number }) => Promise<BotState>;
+    };
+    const short = (symbol: string): FuturesShort => ({
+      id: `short-${symbol}`,
+      symbol,
+      status: "OPEN",
+      qty: 0.05,
+      entryPrice: 2_000,
+      leverage: 2,
+      marginType: "ISOLATED",
+      entryOrderId: `f-${symbol}`,
+      openedAt: "2026-03-01T00:00:00.000Z"
+    });
+    const config = {
+      basic: {},
+      advanced: {},
+      derived: { allowFutures: true }
+    } as unknown as AppConfig;
+
+    const next = await internals.reconcileFuturesShorts({
+      config,
+      state: { ...defaultBotState(), futuresShorts: [short("ETHUSDT"), short("BTCUSDT")] },
+      risk: 50
+    });
+
+    expect(placeFuturesMarketOrder).toHaveBeenCalledTimes(1);
+    expect(placeFuturesMarketOrder.mock.calls[0]?.[0]).toMatchObject({ symbol: "ETHUSDT", side: "BUY", quantity: "0.05", reduceOnly: true });
+    expect(next.futuresShorts.find((entry) => entry.symbol === "BTCUSDT")).toMatchObject({ status: "CLOSED", closeReason: "POSITION_GONE" });
+    expect(next.futuresShorts.find((entry) => entry.symbol === "ETHUSDT")).toMatchObject({
+      status: "CLOSED",
+      closeReason: "TAKE_PROFIT",
+      exitPrice: 1_800,
+      realizedPnl: 10
+    });
+    expect(next.decisions.map((decision) => decision.kind)).toEqual(["ENGINE", "TRADE"]);
+    expect(next.decisions[1]).toMatchObject({ reasonCode: "FUTURES_SHORT_EXIT", details: { reason: "futures-short-exit-take-profit" } });
+  });
+
+  it("adopts short positions opened by the bot's own entry orders and leaves other shorts alone", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T01:00:00.000Z"));
+    const placeFuturesMarketOrder = vi.fn();
+    const getFuturesOrders = vi.fn(async (symbol: string) =>
+      symbol === "ETHUSDT"
+        ? [
+            { symbol, orderId: "f-1", clientOrderId: "ABOT-FSS-MM7ABC12A1B2C3", status: "FILLED", side: "SELL", reduceOnly: false, avgPrice: 2_001, origQty: 0.05, executedQty: 0.05, updateTime: Date.parse("2026-03-01T00:30:00.000Z") }
+          ]
+        : [{ symbol, orderId: "f-9", clientOrderId: "web_123", status: "FILLED", side: "SELL", reduceOnly: false, origQty: 1, executedQty: 1 }]
+    );
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      {
+        getFuturesPositions: async () => [
+          { symbol: "ETHUSDT", positionAmt: -0.05, entryPrice: 2_000, markPrice: 2_000, unrealizedPnl: 0, leverage: 2, marginType: "ISOLATED" },
+          { symbol: "SOLUSDT", positionAmt: -1, entryPrice: 150, markPrice: 150, unrealizedPnl: 0, leverage: 5, marginType: "CROSSED" }
+        ],
+        getFuturesOrders,
+        placeFuturesMarketOrder
+      } as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      { getLatest: async () => null } as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      reconcileFuturesShorts: (params: { config: AppConfig; state: BotState; risk: number }) => Promise<BotState>;
+    };
+    const config = { basic: {}, advanced: {}, derived: { allowFutures: true } } as unknown as AppConfig;
+
+    const next = await internals.reconcileFuturesShorts({ config, state: defaultBotState(), risk: 50 });
+
+    expect(next.futuresShorts).toHaveLength(1);
+    expect(next.futuresShorts[0]).toMatchObject({
+      symbol: "ETHUSDT",
+      status: "OPEN",
+      qty: 0.05,
+      entryPrice: 2_000,
+      leverage: 2,
+      marginType: "ISOLATED",
+      entryOrderId: "f-1",
+      openedAt: "2026-03-01T00:30:00.000Z"
+    });
+    expect(next.decisions[0]).toMatchObject({ kind: "ENGINE", summary: "Adopted futures short ETHUSDT opened by the bot" });
+    expect(placeFuturesMarketOrder).not.toHaveBeenCalled();
+
+    // Once tracked, the short is not looked up again.
+    getFuturesOrders.mockClear();
+    await internals.reconcileFuturesShorts({ config, state: next, risk: 50 });
+    expect(getFuturesOrders.mock.calls.map(([symbol]) => symbol)).toEqual(["SOLUSDT"]);
+  });
+});
+
+describe("bot-engine lifetime history", () => {
+  it("keeps closed PnL cost basis after the entry rolls off state.json", () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-engine-history-"));
+    const previousDataDir = process.env.DATA_DIR;
+    process.env.DATA_DIR = dataDir;
+    try {
+      const service = new BotEngineService(
+        { load: () => null } as unknown as ConfigService,
+        {} as unknown as BinanceMarketDataService,
+        {} as unknown as BinanceTradingService,
+        {} as unknown as ConversionRouterService,
+        {} as unknown as UniverseService
+      );
+      const internals = service as unknown as {
+        save: (state: BotState) => void;
+        getClosedPnlEvents: (state: BotState) => Array<{ symbol: string; pnlAbs: number }>;
+      };
+      const buy: Order = {
+        id: "buy-1",
+        ts: "2026-03-01T00:00:00.000Z",
+        symbol: "BTCUSDC",
+        side: "BUY",
+        type: "MARKET",
+        status: "FILLED",
+        qty: 0.01,
+        price: 100_000
+      };
+      const sell: Order = { ...buy, id: "sell-1", ts: "2026-03-01T01:00:00.000Z", side: "SELL", price: 101_000 };
+
+      internals.save({ ...defaultBotState(), orderHistory: [buy] });
+      const rolledOff: BotState = { ...defaultBotState(), orderHistory: [sell] };
+      internals.save(rolledOff);
+
+      expect(internals.getClosedPnlEvents(rolledOff)).toEqual([expect.objectContaining({ symbol: "BTCUSDC", pnlAbs: 10 })]);
+      expect(service.getRunStats().kpi?.totals.filledOrders).toBe(2);
+    } finally {
+      if (previousDataDir === undefined) delete process.env.DATA_DIR;
+      else process.env.DATA_DIR = previousDataDir;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("bot-engine user-data stream", () => {
+  it("applies streamed order updates and only polls REST when the stream cannot be trusted", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    let healthy = true;
+    let pending: BinanceOrderSnapshot[] = [];
+    const stream = {
+      isHealthy: () => healthy,
+      getStatus: () => ({ state: "CONNECTED", connectedSince: clock.now() - 1_000, lastEventAt: null, reconnectAttempts: 0, lastError: null }),
+      drainOrderUpdates: () => {
+        const drained = pending;
+        pending = [];
+        return drained;
+      }
+    } as unknown as ExchangeAccountStream;
+    const getOpenOrders = vi.fn(async (symbol: string): Promise<BinanceOrderSnapshot[]> =>
+      symbol === "ETHUSDC"
+        ? [{ symbol, orderId: "o2", side: "BUY", type: "LIMIT", status: "NEW", origQty: "1", executedQty: "0", price: "2000" }]
+        : []
+    );
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      { getOpenOrders } as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      {} as unknown as UniverseService,
+      null,
+      null,
+      clock,
+      stream
+    );
+    const internals = service as unknown as {
+      syncLiveOrders: (state: BotState) => Promise<BotState>;
+    };
+    const resting = (id: string, symbol: string): Order => ({
+      id,
+      ts: "2026-03-01T00:00:00.000Z",
+      symbol,
+      side: "BUY",
+      type: "LIMIT",
+      status: "NEW",
+      qty: 1,
+      price: 100,
+      feeHome: 0.01
+    });
+
+    pending = [{ symbol: "BTCUSDC", orderId: "o1", side: "BUY", type: "LIMIT", status: "FILLED", origQty: "1", executedQty: "1" }];
+    const first = await internals.syncLiveOrders({
+      ...defaultBotState(),
+      activeOrders: [resting("o1", "BTCUSDC"), resting("o2", "ETHUSDC")]
+    });
+    // No poll since the stream connected yet, so REST reconciles once even though the stream is up.
+    expect(getOpenOrders).toHaveBeenCalledTimes(1);
+    expect(first.activeOrders.map((order) => order.id)).toEqual(["o2"]);
+    expect(first.orderHistory[0]).toMatchObject({ id: "o1", status: "FILLED", price: 100, feeHome: 0.01 });
+
+    clock.advance(10_000);
+    pending = [{ symbol: "ETHUSDC", orderId: "o2", side: "BUY", type: "LIMIT", status: "CANCELED", origQty: "1", executedQty: "0" }];
+    const second = await internals.syncLiveOrders(first);
+    expect(getOpenOrders).toHaveBeenCalledTimes(1);
+    expect(second.activeOrders).toEqual([]);
+    expect(second.orderHistory.map((order) => `${order.id}:${order.status}`)).toEqual(["o2:CANCELED", "o1:FILLED"]);
+
+    healthy = false;
+    clock.advance(10_000);
+    await internals.syncLiveOrders({ ...second, activeOrders: [resting("o3", "ETHUSDC")] });
+    expect(getOpenOrders).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads balances from the stream cache per tick but from REST when refreshing after an order", async () => {
+    const streamed: BinanceBalanceSnapshot[] = [{ asset: "USDC", free: 100, locked: 0, total: 100 }];
+    const afterFill: BinanceBalanceSnapshot[] = [{ asset: "USDC", free: 40, locked: 0, total: 40 }];
+    const seedBalances = vi.fn();
+    const stream = { getBalances: () => streamed, seedBalances } as unknown as ExchangeAccountStream;
+    const getBalances = vi.fn(async () => afterFill);
+    const service = new BotEngineService(
+      { load: () => null } as unknown as ConfigService,
+      {} as unknown as BinanceMarketDataService,
+      { getBalances } as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      {} as unknown as UniverseService,
+      null,
+      null,
+      new FixedClock(Date.parse("2026-03-01T00:00:00.000Z")),
+      stream
+    );
+    const internals = service as unknown as {
+      getLiveBalances: (options?: { fresh?: boolean }) => Promise<BinanceBalanceSnapshot[]>;
+    };
+
+    await expect(internals.getLiveBalances()).resolves.toBe(streamed);
+    expect(getBalances).not.toHaveBeenCalled();
+    await expect(internals.getLiveBalances({ fresh: true })).resolves.toBe(afterFill);
+    expect(seedBalances).toHaveBeenCalledWith(afterFill);
+  });
+});
+
+describe("bot-engine protective brackets", () => {
+  it("places an OCO bracket for an open position and logs the exit when a leg fills", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    const config = {
+      basic: { tradeMode: "SPOT" },
+      advanced: { botOrderClientIdPrefix: "ABOT", liveExchangeBracketsEnabled: true, liveTradeSlippageBuffer: 1.005 }
+    } as unknown as AppConfig;
+    const marketData = {
+      getTickerPrice: async () => "100",
+      normalizeLimitPrice: async (_symbol: string, price: number) => ({ ok: true, normalizedPrice: price.toFixed(2) }),
+      validateLimitOrderQty: async (_symbol: string, qty: number) => ({ ok: true, normalizedQty: qty.toFixed(3) })
+    };
+    const placeOcoSell = vi.fn(
+      async (params: { symbol: string; takeProfitClientOrderId?: string; stopClientOrderId?: string; listClientOrderId?: string }) => ({
+        symbol: params.symbol,
+        orderListId: "list-1",
+        listClientOrderId: params.listClientOrderId,
+        orders: [
+          { symbol: params.symbol, orderId: "tp-1", clientOrderId: params.takeProfitClientOrderId },
+          { symbol: params.symbol, orderId: "sl-1", clientOrderId: params.stopClientOrderId }
+        ]
+      })
+    );
+    const trading = {
+      getBalances: async (): Promise<BinanceBalanceSnapshot[]> => [{ asset: "BTC", free: 2, locked: 0, total: 2 }],
+      supportsOrderLists: () => true,
+      getOpenOrderLists: vi.fn(async () => []),
+      cancelOrderList: vi.fn(async () => undefined),
+      placeOcoSell
+    };
+    const service = new BotEngineService(
+      { load: () => config } as unknown as ConfigService,
+      marketData as unknown as BinanceMarketDataService,
+      trading as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      { getLatest: async () => null } as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      reconcileProtectiveBrackets: (params: {
+        config: AppConfig;
+        state: BotState;
+        risk: number;
+        getBaseAsset: (symbol: string) => string | null;
+      }) => Promise<BotState>;
+    };
+    const entry: Order = {
+      id: "buy-1",
+      ts: "2026-02-28T23:00:00.000Z",
+      symbol: "BTCUSDC",
+      side: "BUY",
+      type: "MARKET",
+      status: "FILLED",
+      qty: 1,
+      price: 100
+    };
+    const getBaseAsset = (symbol: string) => (symbol.endsWith("USDC") ? symbol.slice(0, -4) : null);
+
+    // Price sits inside the band, so the bracket goes on immediately.
+    const placed = await internals.reconcileProtectiveBrackets({
+      config,
+      state: { ...defaultBotState(), orderHistory: [entry] },
+      risk: 0,
+      getBaseAsset
+    });
+    expect(trading.getOpenOrderLists).toHaveBeenCalledTimes(1);
+    expect(placeOcoSell).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: "BTCUSDC", quantity: "1.000", takeProfitPrice: "100.35", stopPrice: "99.20" })
+    );
+    expect(placed.protectiveBrackets).toEqual([
+      expect.objectContaining({ symbol: "BTCUSDC", kind: "OCO", orderListId: "list-1", takeProfitOrderId: "tp-1", stopOrderId: "sl-1" })
+    ]);
+    expect(placed.activeOrders.map((order) => `${order.id}:${order.type}`)).toEqual(["tp-1:LIMIT_MAKER", "sl-1:STOP_LOSS_LIMIT"]);
+    expect(placed.activeOrders.every((order) => /^ABOT-(TP|SL)S-/.test(order.clientOrderId ?? ""))).toBe(true);
+
+    // The take-profit leg fills on the exchange (order sync moves it to history); the other leg is canceled by the OCO.
+    const [takeProfitLeg] = placed.activeOrders;
+    const afterFill = await internals.reconcileProtectiveBrackets({
+      config,
+      state: {
+        ...placed,
+        activeOrders: [],
+        orderHistory: [{ ...takeProfitLeg, status: "FILLED" }, ...placed.orderHistory]
+      },
+      risk: 0,
+      getBaseAsset
+    });
+    expect(afterFill.protectiveBrackets).toEqual([]);
+    expect(afterFill.decisions[0]).toMatchObject({ kind: "TRADE", reasonCode: "TAKE_PROFIT_EXIT" });
+    expect(placeOcoSell).toHaveBeenCalledTimes(1);
+    expect(trading.getOpenOrderLists).toHaveBeenCalledTimes(1);
+  });
+
+  it("rests a lone stop at the trailing stop once the position has run up", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    const config = {
+      basic: { tradeMode: "SPOT" },
+      advanced: {
+        botOrderClientIdPrefix: "ABOT",
+        liveExchangeBracketsEnabled: true,
+        liveTradeSlippageBuffer: 1.005,
+        trailingStopEnabled: true,
+        trailingStopActivationPct: 1,
+        trailingStopDistancePct: 1,
+        trailingStopAtrMultiplier: 0
+      }
+    } as unknown as AppConfig;
+    const marketData = {
+      getTickerPrice: async () => "104",
+      normalizeLimitPrice: async (_symbol: string, price: number) => ({ ok: true, normalizedPrice: price.toFixed(2) }),
+      validateLimitOrderQty: async (_symbol: string, qty: number) => ({ ok: true, normalizedQty: qty.toFixed(3) })
+    };
+    const placeStopLossLimitOrder = vi.fn(async (params: { symbol: string; clientOrderId?: string }) => ({
+      symbol: params.symbol,
+      orderId: "sl-1",
+      clientOrderId: params.clientOrderId
+    }));
+    const trading = {
+      getBalances: async (): Promise<BinanceBalanceSnapshot[]> => [{ asset: "BTC", free: 1, locked: 0, total: 1 }],
+      supportsOrderLists: () => true,
+      getOpenOrderLists: async () => [],
+      placeOcoSell: vi.fn(),
+      placeStopLossLimitOrder
+    };
+    const service = new BotEngineService(
+      { load: () => config } as unknown as ConfigService,
+      marketData as unknown as BinanceMarketDataService,
+      trading as unknown as BinanceTradingService,
+      {} as unknown as ConversionRouterService,
+      { getLatest: async () => null } as unknown as UniverseService,
+      null,
+      null,
+      clock
+    );
+    const internals = service as unknown as {
+      reconcileProtectiveBrackets: (params: {
+        config: AppConfig;
+        state: BotState;
+        risk: number;
+        getBaseAsset: (symbol: string) => string | null;
+      }) => Promise<BotState>;
+    };
+    const entry: Order = {
+      id: "buy-1",
+      ts: "2026-02-28T23:00:00.000Z",
+      symbol: "BTCUSDC",
+      side: "BUY",
+      type: "MARKET",
+      status: "FILLED",
+      qty: 1,
+      price: 100
+    };
+
+    const placed = await internals.reconcileProtectiveBrackets({
+      config,
+      state: {
+        ...defaultBotState(),
+        orderHistory: [entry],
+        positionTracking: [
+          {
+            symbol: "BTCUSDC",
+            openedAt: entry.ts,
+            highWaterPrice: 105,
+            highWaterAt: "2026-02-28T23:30:00.000Z",
+            breakEvenArmed: false,
+            takeProfitStepsDone: 0,
+            pyramidAdds: 0
+          }
+        ]
+      },
+      risk: 0,
+      getBaseAsset: (symbol) => symbol.replace(/USDC$/, "")
+    });
+    expect(trading.placeOcoSell).not.toHaveBeenCalled();
+    expect(placeStopLossLimitOrder).toHaveBeenCalledWith(expect.objectContaining({ stopPrice: "103.95", side: "SELL" }));
+    expect(placed.protectiveBrackets).toEqual([
+      expect.objectContaining({ kind: "STOP_LOSS_LIMIT", stopOrderId: "sl-1", stopRule: "TRAILING_STOP" })
+    ]);
+  });
+
+  it("never touches order lists in paper mode, even with exchange brackets enabled", async () => {
+    const config = {
+      basic: { tradeMode: "SPOT" },
+      advanced: { exchange: "BINANCE", botOrderClientIdPrefix: "ABOT", liveExchangeBracketsEnabled: true }
+    } as unknown as AppConfig;
+    const configService = { load: () => config } as unknown as ConfigService;
+    const trading = new PaperTradingService(configService, {} as unknown as PaperExchangeService);
+    const getOpenOrderLists = vi.spyOn(trading, "getOpenOrderLists");
+    const placeOcoSell = vi.spyOn(trading, "placeOcoSell");
+    const service = new BotEngineService(
+      configService,
+      { getTickerPrice: async () => "100" } as unknown as BinanceMarketDataService,
+      trading,
+      {} as unknown as ConversionRouterService,
+      { getLatest: async () => null } as unknown as UniverseService,
+      null,
+      null,
+      new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"))
+    );
+    const internals = service as unknown as {
+      reconcileProtectiveBrackets: (params: {
+        config: AppConfig;
+        state: BotState;
+        risk: number;
+        getBaseAsset: (symbol: string) => string | null;
+      }) => Promise<BotState>;
+    };
+    const entry: Order = { id: "buy-1", ts: "2026-02-28T23:00:00.000Z", symbol: "BTCUSDC", side: "BUY", type: "MARKET", status: "FILLED", qty: 1, price: 100 };
+
+    expect(trading.supportsOrderLists()).toBe(false);
+    const state = await internals.reconcileProtectiveBrackets({
+      config,
+      state: { ...defaultBotState(), orderHistory: [entry] },
+      risk: 0,
+      getBaseAsset: (symbol) => symbol.replace(/USDC$/, "")
+    });
+    expect(state.protectiveBrackets).toEqual([]);
+    expect(getOpenOrderLists).not.toHaveBeenCalled();
+    expect(placeOcoSell).not.toHaveBeenCalled();
+    await expect(trading.placeOcoSell()).rejects.toThrow(/paper mode/);
+  });
+});
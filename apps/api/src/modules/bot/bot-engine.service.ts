@@ -2,26 +2,110 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 
-import { Injectable, OnModuleInit } from "@nestjs/common";
-import type { AppConfig, BotState, Decision, Order, ProtectionLockEntry, SymbolBlacklistEntry, UniverseCandidate } from "@autobot/shared";
-import { BotStateSchema, defaultBotState } from "@autobot/shared";
-
+import { Inject, Injectable, OnModuleInit, Optional } from "@nestjs/common";
+import type {
+  AppConfig,
+  BotState,
+  DcaDeal,
+  Decision,
+  DecisionReasonCode,
+  FuturesShort,
+  GridPlan,
+  Order,
+  PositionTracking,
+  ProtectionLockEntry,
+  ProtectiveBracket,
+  SymbolBlacklistEntry,
+  UniverseCandidate
+} from "@autobot/shared";
+import { BotStateSchema, defaultBotState, migrateBotState, UnsupportedDataVersionError } from "@autobot/shared";
+
+import { AiDecisionProvider, type AiDecisionResult } from "../ai/ai-decision.provider";
+import { CLOCK, type Clock, type ClockTimer, SystemClock } from "../clock/clock";
 import { ConfigService } from "../config/config.service";
 import { resolveRouteBridgeAssets, resolveUniverseDefaultQuoteAssets } from "../config/asset-routing";
-import { BinanceMarketDataService, type BinanceSymbolRules, type MarketQtyValidation } from "../integrations/binance-market-data.service";
+import type { BinanceFuturesPositionSnapshot } from "../integrations/binance-futures-adapter";
+import type { BinanceSymbolRules, MarketQtyValidation } from "../integrations/binance-market-data.service";
 import {
-  BinanceTradingService,
   type BinanceOrderSnapshot,
   isBinanceTestnetBaseUrl,
   type BinanceBalanceSnapshot,
   type BinanceMarketOrderResponse
 } from "../integrations/binance-trading.service";
 import { ConversionRouterService } from "../integrations/conversion-router.service";
+import {
+  EXCHANGE_ACCOUNT_STREAM,
+  EXCHANGE_MARKET_DATA,
+  EXCHANGE_TRADING,
+  type ExchangeAccountStream,
+  type ExchangeMarketData,
+  type ExchangeTrading
+} from "../integrations/exchange-adapter";
+import { PaperExchangeService, type PaperOrderResult } from "../paper/paper-exchange.service";
 import { getPairPolicyBlockReason, isStableAsset } from "../policy/trading-policy";
 import { UniverseService } from "../universe/universe.service";
+import {
+  buildBotClientOrderId,
+  isBotClientOrderId,
+  isBotClientOrderIdFor,
+  isProtectiveBracketClientOrderId
+} from "./bot-client-order-id";
+import { BotHistoryStore, toBotFillRecord } from "./bot-history-store";
+import { BotLedger, type ClosedPnlEvent, isPositionDust } from "./bot-ledger";
+import {
+  addDcaSafetyFill,
+  closeDcaDeal,
+  closeDcaDealFromOrder,
+  dcaFillFromOrder,
+  deriveDcaAction,
+  deriveDcaBaseOrderQuote,
+  deriveDcaSafetyOrderQuote,
+  mergeDcaDeal,
+  openDcaDeal,
+  type DcaSettings
+} from "./dca-deal.service";
+import {
+  closeFuturesShort,
+  deriveFuturesShortExit,
+  deriveFuturesShortPnlPct,
+  type FuturesShortExitReason,
+  mergeFuturesShort
+} from "./futures-short.service";
+import {
+  applyGridOrderUpdates,
+  buildGridPlan,
+  deriveBollingerGridRange,
+  isGridRecenterDue,
+  markGridLevelOrder,
+  releaseGridLots,
+  selectGridLegs,
+  trackGridRange,
+  trailGridPlanUp
+} from "./grid-plan.service";
+import {
+  derivePositionExitDecision,
+  derivePyramidAddQuote,
+  deriveStalePositionDecision,
+  type PositionExitRule,
+  type PositionExitSettings,
+  type PositionStopRule,
+  type StalePositionSettings
+} from "./position-exit.service";
 import { deriveRiskBudgetDecision, type RiskBudgetRecentPerformance } from "./risk-budget.service";
 
 const EXECUTION_FIAT_QUOTES = new Set(["EUR", "JPY", "GBP", "TRY", "BRL", "AUD"]);
+// Full REST order poll cadence while the user-data stream is healthy (safety net for dropped events).
+const USER_DATA_STREAM_RECONCILE_INTERVAL_MS = 5 * 60_000;
+// Exchange-side brackets are replaced at most this often, and only when the stop moved by more than the tolerance.
+const PROTECTIVE_BRACKET_REPRICE_MIN_INTERVAL_MS = 60_000;
+const PROTECTIVE_BRACKET_REPRICE_TOLERANCE_PCT = 0.25;
+const POSITION_EXIT_REASONS: Record<PositionExitRule | "STALE_POSITION", { reason: string; reasonCode: DecisionReasonCode }> = {
+  TAKE_PROFIT: { reason: "take-profit-exit", reasonCode: "TAKE_PROFIT_EXIT" },
+  STOP_LOSS: { reason: "stop-loss-exit", reasonCode: "STOP_LOSS_EXIT" },
+  TRAILING_STOP: { reason: "trailing-stop-exit", reasonCode: "TRAILING_STOP_EXIT" },
+  BREAK_EVEN_STOP: { reason: "break-even-exit", reasonCode: "BREAK_EVEN_EXIT" },
+  STALE_POSITION: { reason: "stale-position-exit", reasonCode: "STALE_POSITION_EXIT" }
+};
 
 function atomicWriteFile(filePath: string, data: string): void {
   const tmpPath = `${filePath}.tmp`;
@@ -33,6 +117,10 @@ type ManagedPosition = {
   symbol: string;
   netQty: number;
   costQuote: number;
+  /** First buy after the position was last flat. */
+  openedAt?: string;
+  /** Largest netQty since `openedAt` (base for take-profit ladder fractions). */
+  peakQty: number;
   lastBuyTs?: string;
   lastSellTs?: string;
 };
@@ -150,6 +238,7 @@ type BaselineRunStats = {
     sells: number;
     conversions: number;
     entryTrades: number;
+    stalePositionExits: number;
     sizingRejectSkips: number;
     feeEdgeSkips: number;
     minOrderSkips: number;
@@ -168,7 +257,8 @@ type BaselineRunStats = {
     openPositions: number;
   };
   byDecisionKind: Record<string, number>;
-  topSkipSummaries: Array<{ summary: string; count: number }>;
+  /** Skip counts grouped by reason code; `summary` is the latest example for that code. */
+  topSkipSummaries: Array<{ reasonCode: DecisionReasonCode; summary: string; count: number }>;
   quoteFamilies?: Array<{
     quoteAsset: string;
     filledOrders: number;
@@ -201,13 +291,6 @@ type TransientExchangeBackoffState = {
   lastErrorMessage?: string;
 };
 
-type ClosedPnlEvent = {
-  symbol: string;
-  ts: string;
-  pnlAbs: number;
-  pnlPct: number;
-};
-
 type ProtectionPolicy = {
   cooldownMs: number;
   stoplossLookbackMs: number;
@@ -245,6 +328,60 @@ type DailyLossGuardSnapshot = {
 
 type ReasonQuarantineFamily = "FEE_EDGE" | "GRID_BUY_SIZING" | "GRID_SELL_SIZING" | "GRID_BUY_QUOTE";
 
+type SkipReasonCluster = "FEE_EDGE" | "MIN_ORDER" | "INVENTORY_WAITING" | "OTHER";
+
+const REASON_QUARANTINE_FAMILY_BY_CODE: Partial<Record<DecisionReasonCode, ReasonQuarantineFamily>> = {
+  FEE_EDGE: "FEE_EDGE",
+  GRID_BUY_SIZING_FLOOR: "GRID_BUY_SIZING",
+  GRID_SELL_SIZING_FLOOR: "GRID_SELL_SIZING",
+  GRID_BUY_QUOTE_INSUFFICIENT: "GRID_BUY_QUOTE"
+};
+
+const SKIP_REASON_CLUSTER_BY_CODE: Partial<Record<DecisionReasonCode, SkipReasonCluster>> = {
+  FEE_EDGE: "FEE_EDGE",
+  GRID_WAITING: "INVENTORY_WAITING",
+  GRID_GUARD_BUY_PAUSED: "INVENTORY_WAITING",
+  GRID_NO_INVENTORY: "INVENTORY_WAITING",
+  SIZING_FILTER: "MIN_ORDER",
+  MIN_ORDER: "MIN_ORDER",
+  INVALID_ORDER_QTY: "MIN_ORDER",
+  GRID_BUY_SIZING_FLOOR: "MIN_ORDER",
+  GRID_BUY_SIZING_REJECTED: "MIN_ORDER",
+  GRID_SELL_SIZING_FLOOR: "MIN_ORDER",
+  GRID_SELL_SIZING_REJECTED: "MIN_ORDER"
+};
+
+const SIZING_REJECT_SKIP_CODES: ReadonlySet<DecisionReasonCode> = new Set<DecisionReasonCode>([
+  "SIZING_FILTER",
+  "MIN_ORDER",
+  "INVALID_ORDER_QTY",
+  "GRID_BUY_SIZING_FLOOR",
+  "GRID_SELL_SIZING_FLOOR"
+]);
+
+// Per-symbol skip reasons that can loop every tick; repeats inside a short window escalate into a skip-storm cooldown.
+const SKIP_STORM_CODES: ReadonlySet<DecisionReasonCode> = new Set<DecisionReasonCode>([
+  "GRID_BUY_SIZING_FLOOR",
+  "GRID_BUY_SIZING_REJECTED",
+  "GRID_SELL_SIZING_FLOOR",
+  "GRID_SELL_SIZING_REJECTED",
+  "GRID_BUY_QUOTE_INSUFFICIENT",
+  "INSUFFICIENT_BALANCE",
+  "INVALID_BALANCE",
+  "INVALID_ORDER_QTY",
+  "GRID_PRICE_INVALID",
+  "CONVERSION_COOLDOWN",
+  "SIZING_FILTER",
+  "SYMBOL_BLACKLISTED",
+  "MAX_CONSECUTIVE_ENTRIES",
+  "MAX_OPEN_POSITIONS",
+  "FEE_EDGE",
+  "GRID_WAITING",
+  "GRID_GUARD_BUY_PAUSED",
+  "GRID_SELL_NOT_ACTIONABLE",
+  "NO_FEASIBLE_CANDIDATE"
+]);
+
 export type BotRunStatsResponse = {
   generatedAt: string;
   kpi: BaselineRunStats | null;
@@ -265,6 +402,12 @@ export type BotRunStatsResponse = {
   };
 };
 
+/** One engine tick: how long it ran, or that the loop fired while the previous tick was still running. */
+export type BotTickSample = { outcome: "COMPLETED"; durationMs: number } | { outcome: "OVERLAP" };
+
+/** A position the engine manages, valued at its cost basis in the symbol's quote asset. */
+export type OpenPositionSummary = { symbol: string; netQty: number; costQuote: number };
+
 @Injectable()
 export class BotEngineService implements OnModuleInit {
   private readonly dataDir = process.env.DATA_DIR ?? path.resolve(process.cwd(), "../../data");
@@ -272,24 +415,43 @@ export class BotEngineService implements OnModuleInit {
   private readonly telemetryDir = path.join(this.dataDir, "telemetry");
   private readonly baselineStatsPath = path.join(this.telemetryDir, "baseline-kpis.json");
   private readonly adaptiveShadowPath = path.join(this.telemetryDir, "adaptive-shadow.jsonl");
-
-  private loopTimer: NodeJS.Timeout | null = null;
-  private examineTimer: NodeJS.Timeout | null = null;
+  // Lifetime PnL and run stats, folded from each decision and fill as the history store records it.
+  private readonly ledger = new BotLedger();
+  private readonly history = new BotHistoryStore(path.join(this.dataDir, "history"), () => this.clock.now(), {
+    decision: (decision) => this.ledger.addDecision(decision),
+    fill: (fill) => this.ledger.addFill(fill)
+  });
+  private readonly stateListeners = new Set<(state: BotState) => void>();
+  private readonly tickListeners = new Set<(sample: BotTickSample) => void>();
+
+  private loopTimer: ClockTimer | null = null;
+  private examineTimer: ClockTimer | null = null;
   private tickInFlight = false;
   private lastBaselineFingerprint: string | null = null;
   private transientExchangeBackoffState: TransientExchangeBackoffState | null = null;
   private orderDiscoveryCursor = 0;
   private lastSupplementalOrderDiscoveryAtMs = 0;
+  private lastOrderPollAtMs = 0;
+  // Unknown bot order lists left on the exchange (e.g. after a state reset) are swept once per process.
+  private orphanBracketSweepDone = false;
+  // Server clock drift alert is logged once per excursion above the threshold.
+  private clockDriftAlerted = false;
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly marketData: BinanceMarketDataService,
-    private readonly trading: BinanceTradingService,
+    @Inject(EXCHANGE_MARKET_DATA) private readonly marketData: ExchangeMarketData,
+    @Inject(EXCHANGE_TRADING) private readonly trading: ExchangeTrading,
     private readonly conversionRouter: ConversionRouterService,
-    private readonly universe: UniverseService
+    private readonly universe: UniverseService,
+    @Optional() private readonly aiDecisions: AiDecisionProvider | null = null,
+    @Optional() private readonly paperExchange: PaperExchangeService | null = null,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock(),
+    @Optional() @Inject(EXCHANGE_ACCOUNT_STREAM) private readonly userDataStream: ExchangeAccountStream | null = null
   ) {}
 
   onModuleInit(): void {
+    this.getHistory();
+    this.userDataStream?.onUpdate(() => this.flushUserDataStreamOrders());
     const state = this.getState();
     if (!state.running) return;
 
@@ -314,14 +476,16 @@ export class BotEngineService implements OnModuleInit {
 
   getState(): BotState {
     if (!fs.existsSync(this.statePath)) {
-      return defaultBotState();
+      return this.defaultState();
     }
 
     try {
       const raw = fs.readFileSync(this.statePath, "utf-8");
-      return this.ensureStateStartedAt(BotStateSchema.parse(JSON.parse(raw)));
+      return this.ensureStateStartedAt(BotStateSchema.parse(migrateBotState(JSON.parse(raw)).document));
     } catch (err) {
-      const fallback = defaultBotState();
+      // A state from a newer build must not be replaced by the default on the next save.
+      if (err instanceof UnsupportedDataVersionError) throw err;
+      const fallback = this.defaultState();
       return {
         ...fallback,
         lastError: err instanceof Error ? err.message : "Failed to load state.json"
@@ -329,6 +493,23 @@ export class BotEngineService implements OnModuleInit {
     }
   }
 
+  /** Every decision over the bot's lifetime, newest first. */
+  listDecisions(): Decision[] {
+    return this.getLifetimeDecisions(this.getState());
+  }
+
+  /** Every order that is no longer active, over the bot's lifetime, newest first. */
+  listOrderHistory(): Order[] {
+    const state = this.getState();
+    const activeIds = new Set(state.activeOrders.map((order) => order.id));
+    return this.getLifetimeOrderHistory(state).filter((order) => !activeIds.has(order.id));
+  }
+
+  private defaultState(): BotState {
+    const now = new Date(this.clock.now()).toISOString();
+    return { ...defaultBotState(), startedAt: now, updatedAt: now };
+  }
+
   private ensureStateStartedAt(state: BotState): BotState {
     if (state.startedAt && Number.isFinite(Date.parse(state.startedAt))) {
       return state;
@@ -340,7 +521,7 @@ export class BotEngineService implements OnModuleInit {
       state.updatedAt
     ];
     const timestamps = candidates.map((ts) => Date.parse(ts)).filter((ts) => Number.isFinite(ts));
-    const earliest = timestamps.length > 0 ? Math.min(...timestamps) : Date.now();
+    const earliest = timestamps.length > 0 ? Math.min(...timestamps) : this.clock.now();
     return {
       ...state,
       startedAt: new Date(earliest).toISOString()
@@ -350,13 +531,95 @@ export class BotEngineService implements OnModuleInit {
   private save(state: BotState): void {
     fs.mkdirSync(this.dataDir, { recursive: true });
     const withStartedAt = this.ensureStateStartedAt(state);
-    const next: BotState = { ...withStartedAt, updatedAt: new Date().toISOString() };
+    const next: BotState = { ...withStartedAt, updatedAt: new Date(this.clock.now()).toISOString() };
     atomicWriteFile(this.statePath, JSON.stringify(next, null, 2));
+    this.getHistory().record(next);
+    for (const listener of this.stateListeners) {
+      try {
+        listener(next);
+      } catch {
+        // Listeners (notifications) must never fail a state write.
+      }
+    }
+  }
+
+  /** Called with every state the engine persists, in write order. Returns an unsubscribe function. */
+  onStateSaved(listener: (state: BotState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /** Called after every tick and every skipped overlapping one (metrics). Returns an unsubscribe function. */
+  onTick(listener: (sample: BotTickSample) => void): () => void {
+    this.tickListeners.add(listener);
+    return () => this.tickListeners.delete(listener);
+  }
+
+  isTickInFlight(): boolean {
+    return this.tickInFlight;
+  }
+
+  getOpenPositions(): OpenPositionSummary[] {
+    this.getHistory();
+    return this.ledger.getOpenPositions();
+  }
+
+  private notifyTick(sample: BotTickSample): void {
+    for (const listener of this.tickListeners) {
+      try {
+        listener(sample);
+      } catch {
+        // Same as state listeners: never fail the loop.
+      }
+    }
+  }
+
+  private getHistory(): BotHistoryStore {
+    this.history.open(() => (fs.existsSync(this.statePath) ? this.getState() : null));
+    return this.history;
+  }
+
+  /**
+   * Every order the bot has seen: the lifetime history store merged with the (possibly newer) snapshot in `state`.
+   * Newest first, like `BotState.orderHistory`.
+   */
+  private getLifetimeOrderHistory(state: BotState): Order[] {
+    const byId = new Map(this.getHistory().listOrders().map((order) => [order.id, order] as const));
+    for (const order of state.orderHistory) {
+      byId.set(order.id, order);
+    }
+    return [...byId.values()].sort((a, b) => Date.parse(b.ts) - Date.parse(a.ts));
+  }
+
+  /**
+   * The lifetime ledger, plus the fills and decisions in `state` the history store has not recorded yet (a state
+   * still being built in the tick). Only those are folded, into a copy, so the cost is bounded by the tick's changes.
+   */
+  private getLedger(state: BotState): BotLedger {
+    const history = this.getHistory();
+    const pendingFills = state.orderHistory
+      .filter((order) => order.status === "FILLED" && !history.hasFill(order.id))
+      .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+    const pendingDecisions = state.decisions
+      .filter((decision) => !history.hasDecision(decision.id))
+      .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+    if (pendingFills.length === 0 && pendingDecisions.length === 0) return this.ledger;
+
+    const ledger = this.ledger.clone();
+    for (const order of pendingFills) ledger.addFill(toBotFillRecord(order));
+    for (const decision of pendingDecisions) ledger.addDecision(decision);
+    return ledger;
+  }
+
+  private getLifetimeDecisions(state: BotState): Decision[] {
+    const recorded = this.getHistory().listDecisions();
+    const recordedIds = new Set(recorded.map((decision) => decision.id));
+    return [...state.decisions.filter((decision) => !recordedIds.has(decision.id)), ...recorded];
   }
 
   private pruneExpiredBlacklist(state: BotState): BotState {
     if (!state.symbolBlacklist || state.symbolBlacklist.length === 0) return state;
-    const now = Date.now();
+    const now = this.clock.now();
     const pruned = state.symbolBlacklist.filter((e) => {
       const expiresAt = Date.parse(e.expiresAt);
       return Number.isNaN(expiresAt) ? true : expiresAt > now;
@@ -367,7 +630,7 @@ export class BotEngineService implements OnModuleInit {
 
   private pruneExpiredProtectionLocks(state: BotState): BotState {
     if (!state.protectionLocks || state.protectionLocks.length === 0) return state;
-    const now = Date.now();
+    const now = this.clock.now();
     const pruned = state.protectionLocks.filter((lock) => {
       const expiresAt = Date.parse(lock.expiresAt);
       return Number.isFinite(expiresAt) && expiresAt > now;
@@ -383,7 +646,7 @@ export class BotEngineService implements OnModuleInit {
     const existingIndex = (state.protectionLocks ?? []).findIndex(
       (lock) => lock.type === lockInput.type && lock.scope === lockInput.scope && (lock.symbol ?? "") === (lockInput.symbol ?? "")
     );
-    const nowIso = new Date().toISOString();
+    const nowIso = new Date(this.clock.now()).toISOString();
     const existing = existingIndex >= 0 ? state.protectionLocks[existingIndex] : undefined;
     const nextLock: ProtectionLockEntry = {
       id: existing?.id ?? crypto.randomUUID(),
@@ -422,7 +685,7 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private getActiveGlobalProtectionLock(state: BotState): ProtectionLockEntry | null {
-    const now = Date.now();
+    const now = this.clock.now();
     return (
       (state.protectionLocks ?? []).find(
         (lock) =>
@@ -435,7 +698,7 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private getActiveReasonQuarantineFamilies(state: BotState): Set<ReasonQuarantineFamily> {
-    const now = Date.now();
+    const now = this.clock.now();
     const families = new Set<ReasonQuarantineFamily>();
     for (const lock of state.protectionLocks ?? []) {
       if (!this.isReasonQuarantineLock(lock)) continue;
@@ -455,7 +718,7 @@ export class BotEngineService implements OnModuleInit {
       onlyTypes?: string[];
     }
   ): ProtectionLockEntry | null {
-    const now = Date.now();
+    const now = this.clock.now();
     const normalized = symbol.trim().toUpperCase();
     if (!normalized) return null;
     const exclude = new Set((opts?.excludeTypes ?? []).map((t) => t.trim().toUpperCase()).filter(Boolean));
@@ -647,19 +910,19 @@ export class BotEngineService implements OnModuleInit {
     const recentNonActionableSellLegSkips = this.countRecentSymbolSkipMatches({
       state: params.state,
       symbol: params.symbol,
-      contains: "grid sell leg not actionable yet",
+      reasonCodes: ["GRID_SELL_NOT_ACTIONABLE"],
       windowMs: 15 * 60_000
     });
     const recentNonActionableSellLegSkipsLong = this.countRecentSymbolSkipMatches({
       state: params.state,
       symbol: params.symbol,
-      contains: "grid sell leg not actionable yet",
+      reasonCodes: ["GRID_SELL_NOT_ACTIONABLE"],
       windowMs: this.deriveDustResidualSoloLoopLookbackMs(params.risk)
     });
     const recentGridGuardBuyPauseSkips = this.countRecentSymbolSkipMatches({
       state: params.state,
       symbol: params.symbol,
-      contains: "grid guard paused buy leg",
+      reasonCodes: ["GRID_GUARD_BUY_PAUSED"],
       windowMs: 15 * 60_000
     });
     if (
@@ -1128,8 +1391,10 @@ export class BotEngineService implements OnModuleInit {
     hasBuyLimit: boolean;
     hasSellLimit: boolean;
     risk: number;
+    gridRecenterDue?: boolean;
   }): boolean {
     if (!(params.hasBuyLimit && params.hasSellLimit)) return false;
+    if (params.gridRecenterDue) return false;
     if (params.recentInventoryWaitingSkips <= 0) return false;
 
     const boundedRisk = Math.max(0, Math.min(100, Number.isFinite(params.risk) ? params.risk : 50));
@@ -1717,21 +1982,18 @@ export class BotEngineService implements OnModuleInit {
     );
   }
 
-  private getReasonQuarantineFamily(summary: string): ReasonQuarantineFamily | null {
-    const lower = summary.trim().toLowerCase();
-    if (!lower.startsWith("skip ")) return null;
+  private getDecisionReasonCode(decision: Decision): DecisionReasonCode | undefined {
+    return decision.reasonCode;
+  }
 
-    if (lower.includes("fee/edge filter")) return "FEE_EDGE";
-    if (lower.includes("grid sell sizing rejected")) {
-      const detail = lower.includes("(") ? lower.slice(lower.indexOf("(")) : lower;
-      if (this.isSizingFloorRejectReason(detail)) return "GRID_SELL_SIZING";
-    }
-    if (lower.includes("grid buy sizing rejected")) {
-      const detail = lower.includes("(") ? lower.slice(lower.indexOf("(")) : lower;
-      if (this.isSizingFloorRejectReason(detail)) return "GRID_BUY_SIZING";
-    }
-    if (lower.includes("insufficient spendable") && lower.includes("for grid buy")) return "GRID_BUY_QUOTE";
-    return null;
+  /** The symbol a SKIP/TRADE decision is about, or null for global decisions. */
+  private getDecisionSymbol(decision: Pick<Decision, "details">): string | null {
+    const symbol = decision.details?.symbol;
+    return typeof symbol === "string" && symbol.trim() ? symbol.trim().toUpperCase() : null;
+  }
+
+  private getReasonQuarantineFamily(reasonCode: DecisionReasonCode | undefined): ReasonQuarantineFamily | null {
+    return reasonCode ? REASON_QUARANTINE_FAMILY_BY_CODE[reasonCode] ?? null : null;
   }
 
   private deriveReasonQuarantinePolicy(params: {
@@ -1771,14 +2033,14 @@ export class BotEngineService implements OnModuleInit {
 
   private maybeApplyReasonQuarantineLock(params: {
     state: BotState;
-    summary: string;
+    reasonCode: DecisionReasonCode;
     risk: number;
   }): BotState {
-    const family = this.getReasonQuarantineFamily(params.summary);
+    const family = this.getReasonQuarantineFamily(params.reasonCode);
     if (!family) return params.state;
 
     const policy = this.deriveReasonQuarantinePolicy({ family, risk: params.risk });
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
 
     let count = 0;
     for (const decision of params.state.decisions) {
@@ -1786,7 +2048,7 @@ export class BotEngineService implements OnModuleInit {
       const ts = Date.parse(decision.ts);
       if (!Number.isFinite(ts)) continue;
       if (nowMs - ts > policy.windowMs) break;
-      if (this.getReasonQuarantineFamily(decision.summary) === family) count += 1;
+      if (this.getReasonQuarantineFamily(this.getDecisionReasonCode(decision)) === family) count += 1;
     }
     if (count < policy.threshold) return params.state;
 
@@ -1811,23 +2073,22 @@ export class BotEngineService implements OnModuleInit {
   private countRecentSymbolSkipMatches(params: {
     state: BotState;
     symbol: string;
-    contains: string;
+    reasonCodes: readonly DecisionReasonCode[];
     windowMs: number;
   }): number {
     const symbol = params.symbol.trim().toUpperCase();
-    const needle = params.contains.trim().toLowerCase();
-    if (!symbol || !needle) return 0;
+    if (!symbol || params.reasonCodes.length === 0) return 0;
 
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
     let count = 0;
     for (const decision of params.state.decisions) {
       if (decision.kind !== "SKIP") continue;
       const ts = Date.parse(decision.ts);
       if (Number.isFinite(ts) && nowMs - ts > params.windowMs) break;
 
-      const summary = decision.summary.trim();
-      if (!summary.toUpperCase().startsWith(`SKIP ${symbol}:`)) continue;
-      if (!summary.toLowerCase().includes(needle)) continue;
+      if (this.getDecisionSymbol(decision) !== symbol) continue;
+      const reasonCode = this.getDecisionReasonCode(decision);
+      if (!reasonCode || !params.reasonCodes.includes(reasonCode)) continue;
       count += 1;
     }
     return count;
@@ -1841,17 +2102,17 @@ export class BotEngineService implements OnModuleInit {
     const quoteAsset = params.quoteAsset.trim().toUpperCase();
     if (!quoteAsset) return 0;
 
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
     let count = 0;
     for (const decision of params.state.decisions) {
       if (decision.kind !== "SKIP") continue;
       const ts = Date.parse(decision.ts);
       if (Number.isFinite(ts) && nowMs - ts > params.windowMs) break;
 
-      const summary = decision.summary.trim().toUpperCase();
-      if (!summary.startsWith("SKIP ")) continue;
-      if (!summary.includes(`INSUFFICIENT SPENDABLE ${quoteAsset}`)) continue;
-      if (!summary.includes("FOR GRID BUY")) continue;
+      if (this.getDecisionReasonCode(decision) !== "GRID_BUY_QUOTE_INSUFFICIENT") continue;
+      const details = this.getDecisionDetails(decision);
+      const decisionQuoteAsset = typeof details?.quoteAsset === "string" ? details.quoteAsset.trim().toUpperCase() : undefined;
+      if (decisionQuoteAsset !== quoteAsset) continue;
       count += 1;
     }
     return count;
@@ -1859,48 +2120,27 @@ export class BotEngineService implements OnModuleInit {
 
   private countRecentSkipCluster(params: {
     state: BotState;
-    cluster: "FEE_EDGE" | "MIN_ORDER" | "INVENTORY_WAITING" | "OTHER";
+    cluster: SkipReasonCluster;
     windowMs: number;
   }): number {
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
     let count = 0;
     for (const decision of params.state.decisions) {
       if (decision.kind !== "SKIP") continue;
       const ts = Date.parse(decision.ts);
       if (Number.isFinite(ts) && nowMs - ts > params.windowMs) break;
-      if (this.classifySkipReasonCluster(decision.summary) !== params.cluster) continue;
+      if (this.classifySkipReasonCluster(this.getDecisionReasonCode(decision)) !== params.cluster) continue;
       count += 1;
     }
     return count;
   }
 
-  private getSkipStormKey(summary: string): string | null {
-    const raw = summary.trim();
-    if (!raw) return null;
-    const lower = raw.toLowerCase();
-    if (!lower.startsWith("skip ")) return null;
-    if (lower.startsWith("skip:")) return null; // global skips, not symbol-specific
-
-    if (lower.includes("grid sell leg not actionable yet")) {
-      return "skip *: grid sell leg not actionable yet";
-    }
-
-    const key = (lower.includes("(") ? lower.slice(0, lower.indexOf("(")) : lower).trim();
-    const eligible =
-      key.includes("sizing rejected") ||
-      key.includes("insufficient") ||
-      key.includes("conversion cooldown") ||
-      key.includes("binance sizing filter") ||
-      key.includes("temporarily blacklisted") ||
-      key.includes("max consecutive entries reached") ||
-      key.includes("waiting for ladder slot or inventory") ||
-      key.includes("grid sell leg not actionable yet") ||
-      key.includes("grid guard paused buy leg") ||
-      key.includes("fee/edge filter") ||
-      key.includes("max open positions reached") ||
-      key.includes("no feasible candidates") ||
-      key.includes("invalid");
-    return eligible ? key : null;
+  private getSkipStormKey(reasonCode: DecisionReasonCode | undefined, symbol: string | null): string | null {
+    if (!reasonCode || !SKIP_STORM_CODES.has(reasonCode)) return null;
+    if (!symbol) return null; // global skips, not symbol-specific
+
+    // Non-actionable sell legs are usually dust spread over many symbols; count them as one family.
+    return reasonCode === "GRID_SELL_NOT_ACTIONABLE" ? `${reasonCode}:*` : `${reasonCode}:${symbol}`;
   }
 
   private summarizeSkipProblem(summary: string): string {
@@ -1918,18 +2158,19 @@ export class BotEngineService implements OnModuleInit {
     risk: number;
     baseCooldownMs: number;
     summary: string;
+    reasonCode: DecisionReasonCode;
   }): {
     cooldownMs: number;
     storm?: { key: string; windowMs: number; count: number; threshold: number; problem: string };
   } {
-    const key = this.getSkipStormKey(params.summary);
+    const key = this.getSkipStormKey(params.reasonCode, params.symbol.trim().toUpperCase() || null);
     if (!key) return { cooldownMs: params.baseCooldownMs };
 
     const boundedRisk = Math.max(0, Math.min(100, Number.isFinite(params.risk) ? params.risk : 50));
     const t = boundedRisk / 100;
-    const nowMs = Date.now();
-    const isDustSellLegKey = key.includes("grid sell leg not actionable yet");
-    const isGridWaitKey = key.includes("grid waiting for ladder slot or inventory") || key.includes("grid guard paused buy leg");
+    const nowMs = this.clock.now();
+    const isDustSellLegKey = params.reasonCode === "GRID_SELL_NOT_ACTIONABLE";
+    const isGridWaitKey = params.reasonCode === "GRID_WAITING" || params.reasonCode === "GRID_GUARD_BUY_PAUSED";
     const windowMs = isDustSellLegKey
       ? this.deriveDustResidualSoloLoopLookbackMs(params.risk)
       : isGridWaitKey
@@ -1952,7 +2193,7 @@ export class BotEngineService implements OnModuleInit {
       const ts = Date.parse(d.ts);
       if (!Number.isFinite(ts)) continue;
       if (nowMs - ts > windowMs) break;
-      if (this.getSkipStormKey(d.summary) === key) {
+      if (this.getSkipStormKey(this.getDecisionReasonCode(d), this.getDecisionSymbol(d)) === key) {
         recent += 1;
       }
     }
@@ -1971,64 +2212,41 @@ export class BotEngineService implements OnModuleInit {
     };
   }
 
+  /** Closed-PnL events of the ledger's recent window (at least the last 7 days of fills), in fill order. */
   private getClosedPnlEvents(state: BotState): ClosedPnlEvent[] {
-    const events: ClosedPnlEvent[] = [];
-    const positions = new Map<string, { netQty: number; costQuote: number }>();
-    const filledOrders = [...state.orderHistory]
-      .filter((o) => o.status === "FILLED")
-      .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
-
-    for (const order of filledOrders) {
-      const symbol = order.symbol.trim().toUpperCase();
-      if (!symbol) continue;
-      const qty = Number.isFinite(order.qty) ? Math.max(0, order.qty) : 0;
-      const price = Number.isFinite(order.price) ? Math.max(0, order.price ?? 0) : 0;
-      const orderFeeHome = Number.isFinite(order.feeHome) ? Math.max(0, order.feeHome ?? 0) : 0;
-      if (qty <= 0 || price <= 0) continue;
-
-      const current = positions.get(symbol) ?? { netQty: 0, costQuote: 0 };
-      if (order.side === "BUY") {
-        current.netQty += qty;
-        current.costQuote += qty * price + orderFeeHome;
-        positions.set(symbol, current);
+    return this.getLedger(state).getClosedPnlEvents();
+  }
+
+  /**
+   * Folds partial closes into one event per round trip (emitted when the position is fully closed), with the
+   * PnL % weighted by the cost basis each fill closed. Positions still partly open are left out.
+   */
+  private toClosedRoundTrips(events: ClosedPnlEvent[]): ClosedPnlEvent[] {
+    const pending = new Map<string, ClosedPnlEvent[]>();
+    const roundTrips: ClosedPnlEvent[] = [];
+    for (const event of events) {
+      const parts = [...(pending.get(event.symbol) ?? []), event];
+      if (!event.positionClosed) {
+        pending.set(event.symbol, parts);
         continue;
       }
-
-      const closeQty = Math.min(qty, current.netQty);
-      const avgCost = current.netQty > 0 ? current.costQuote / current.netQty : 0;
-      if (closeQty > 0 && avgCost > 0) {
-        const closeCost = avgCost * closeQty;
-        const closeFeeHome = orderFeeHome > 0 ? orderFeeHome * (closeQty / qty) : 0;
-        const pnlAbs = price * closeQty - closeCost - closeFeeHome;
-        const pnlPct = closeCost > 0 ? (pnlAbs / closeCost) * 100 : 0;
-        events.push({
-          symbol,
-          ts: order.ts,
-          pnlAbs: this.toRounded(pnlAbs, 8),
-          pnlPct: this.toRounded(pnlPct, 8)
-        });
-      }
-      const uncoveredQty = Math.max(0, qty - closeQty);
-      const uncoveredFeeHome = orderFeeHome > 0 && uncoveredQty > 0 ? orderFeeHome * (uncoveredQty / qty) : 0;
-      if (uncoveredFeeHome > 0) {
-        events.push({
-          symbol,
-          ts: order.ts,
-          pnlAbs: this.toRounded(-uncoveredFeeHome, 8),
-          pnlPct: 0
-        });
-      }
-
-      current.netQty = Math.max(0, current.netQty - closeQty);
-      current.costQuote = Math.max(0, current.costQuote - avgCost * closeQty);
-      if (current.netQty <= 1e-12) {
-        current.netQty = 0;
-        current.costQuote = 0;
+      pending.delete(event.symbol);
+      if (parts.length === 1) {
+        roundTrips.push(event);
+        continue;
       }
-      positions.set(symbol, current);
+      const pnlAbs = parts.reduce((sum, part) => sum + part.pnlAbs, 0);
+      const closeCost = parts.reduce((sum, part) => sum + part.closeCost, 0);
+      roundTrips.push({
+        symbol: event.symbol,
+        ts: event.ts,
+        pnlAbs: this.toRounded(pnlAbs, 8),
+        pnlPct: closeCost > 0 ? this.toRounded((pnlAbs / closeCost) * 100, 8) : 0,
+        closeCost: this.toRounded(closeCost, 8),
+        positionClosed: true
+      });
     }
-
-    return events;
+    return roundTrips;
   }
 
   private summarizeRecentRiskBudgetPerformance(params: {
@@ -2036,62 +2254,9 @@ export class BotEngineService implements OnModuleInit {
     nowMs: number;
     lookbackMs: number;
   }): RiskBudgetRecentPerformance {
-    const nowMs = Number.isFinite(params.nowMs) ? params.nowMs : Date.now();
+    const nowMs = Number.isFinite(params.nowMs) ? params.nowMs : this.clock.now();
     const lookbackMs = Number.isFinite(params.lookbackMs) ? Math.max(0, params.lookbackMs) : 0;
-    const windowStartMs = nowMs - lookbackMs;
-    const positions = new Map<string, { netQty: number; costQuote: number }>();
-    let trades = 0;
-    let realizedPnlHome = 0;
-    let feesHome = 0;
-
-    const filledOrders = params.state.orderHistory
-      .filter((order) => order.status === "FILLED")
-      .map((order) => ({ order, ts: Date.parse(order.ts) }))
-      .filter((entry) => Number.isFinite(entry.ts))
-      .sort((a, b) => a.ts - b.ts);
-
-    for (const { order, ts } of filledOrders) {
-      const inWindow = ts >= windowStartMs;
-      const symbol = order.symbol.trim().toUpperCase();
-      const qty = Number.isFinite(order.qty) ? Math.max(0, order.qty) : 0;
-      const price = Number.isFinite(order.price) ? Math.max(0, order.price ?? 0) : 0;
-      const notional = qty > 0 && price > 0 ? qty * price : 0;
-      const orderFeeHome = Number.isFinite(order.feeHome) ? Math.max(0, order.feeHome ?? 0) : 0;
-
-      if (inWindow) {
-        trades += 1;
-        feesHome += orderFeeHome;
-      }
-      if (!symbol || qty <= 0 || price <= 0) continue;
-
-      const current = positions.get(symbol) ?? { netQty: 0, costQuote: 0 };
-      if (order.side === "BUY") {
-        current.netQty += qty;
-        current.costQuote += notional;
-        positions.set(symbol, current);
-        continue;
-      }
-
-      const closeQty = Math.min(qty, current.netQty);
-      const avgCost = current.netQty > 0 ? current.costQuote / current.netQty : 0;
-      if (closeQty > 0 && avgCost > 0 && inWindow) {
-        realizedPnlHome += price * closeQty - avgCost * closeQty;
-      }
-
-      current.netQty = Math.max(0, current.netQty - closeQty);
-      current.costQuote = Math.max(0, current.costQuote - avgCost * closeQty);
-      if (current.netQty <= 1e-12) {
-        current.netQty = 0;
-        current.costQuote = 0;
-      }
-      positions.set(symbol, current);
-    }
-
-    return {
-      trades,
-      realizedPnlHome: this.toRounded(realizedPnlHome, 8),
-      feesHome: this.toRounded(feesHome, 8)
-    };
+    return this.getLedger(params.state).summarizeFillsSince(nowMs - lookbackMs);
   }
 
   private evaluateProtectionLocks(params: {
@@ -2099,7 +2264,7 @@ export class BotEngineService implements OnModuleInit {
     risk: number;
     walletTotalHome?: number;
   }): BotState {
-    const nowMs = Date.now();
+    const nowMs = this.clock.now();
     const policy = this.deriveProtectionPolicy(params.risk);
     let next = this.pruneExpiredProtectionLocks(params.state);
 
@@ -2153,7 +2318,8 @@ export class BotEngineService implements OnModuleInit {
       });
     }
 
-    const closedPnlEvents = this.getClosedPnlEvents(next).filter((event) => {
+    // Scale-outs count once per position, not once per partial fill.
+    const closedPnlEvents = this.toClosedRoundTrips(this.getClosedPnlEvents(next)).filter((event) => {
       const ts = Date.parse(event.ts);
       return Number.isFinite(ts) && nowMs - ts <= policy.lowProfitLookbackMs;
     });
@@ -2224,20 +2390,24 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private isSymbolBlocked(symbol: string, state: BotState): string | null {
+    return this.getSymbolBlock(symbol, state)?.reason ?? null;
+  }
+
+  private getSymbolBlock(symbol: string, state: BotState): { reason: string; reasonCode: DecisionReasonCode } | null {
     const config = this.configService.load();
-    if (!config) return "Bot is not initialized";
+    if (!config) return { reason: "Bot is not initialized", reasonCode: "NOT_INITIALIZED" };
 
     const globalLock = this.getActiveGlobalProtectionLock(state);
     if (globalLock) {
-      return `Protection lock ${globalLock.type}: ${globalLock.reason}`;
+      return { reason: `Protection lock ${globalLock.type}: ${globalLock.reason}`, reasonCode: "PROTECTION_LOCK" };
     }
 
     if (config.advanced.neverTradeSymbols.includes(symbol)) {
-      return "Blocked by Advanced never-trade list";
+      return { reason: "Blocked by Advanced never-trade list", reasonCode: "PAIR_POLICY" };
     }
 
     const normalized = symbol.trim().toUpperCase();
-    const now = Date.now();
+    const now = this.clock.now();
     for (const lock of state.protectionLocks ?? []) {
       if (lock.scope !== "SYMBOL") continue;
       if (lock.symbol?.trim().toUpperCase() !== normalized) continue;
@@ -2245,12 +2415,12 @@ export class BotEngineService implements OnModuleInit {
       if (!Number.isFinite(expiresAt) || expiresAt <= now) continue;
       if (lock.type.trim().toUpperCase() === "GRID_GUARD_BUY_PAUSE") continue;
       if (this.isNonBlockingGridGuardPauseCooldownLock(lock)) continue;
-      return `Protection lock ${lock.type}: ${lock.reason}`;
+      return { reason: `Protection lock ${lock.type}: ${lock.reason}`, reasonCode: "PROTECTION_LOCK" };
     }
 
     const active = (state.symbolBlacklist ?? []).find((e) => e.symbol === symbol && Date.parse(e.expiresAt) > now);
     if (active) {
-      return `Temporarily blacklisted (${active.reason})`;
+      return { reason: `Temporarily blacklisted (${active.reason})`, reasonCode: "SYMBOL_BLACKLISTED" };
     }
 
     return null;
@@ -2296,7 +2466,7 @@ export class BotEngineService implements OnModuleInit {
       return "Blocked by Advanced never-trade list";
     }
 
-    const now = Date.now();
+    const now = this.clock.now();
     for (const lock of params.state.protectionLocks ?? []) {
       if (lock.scope !== "SYMBOL") continue;
       if (lock.symbol?.trim().toUpperCase() !== normalized) continue;
@@ -2374,7 +2544,8 @@ export class BotEngineService implements OnModuleInit {
       message.includes("\"CODE\":-1001") ||
       message.includes("\"CODE\":-1003") ||
       message.includes("TOO MANY REQUESTS") ||
-      message.includes("429")
+      message.includes("429") ||
+      message.includes("BINANCE HTTP 418")
     );
   }
 
@@ -2393,13 +2564,8 @@ export class BotEngineService implements OnModuleInit {
     return true;
   }
 
-  private countRecentSymbolErrorSkips(params: {
-    state: BotState;
-    symbol: string;
-    matcher: RegExp;
-    windowMs: number;
-  }): number {
-    const now = Date.now();
+  private countRecentInsufficientBalanceRejects(params: { state: BotState; symbol: string; windowMs: number }): number {
+    const now = this.clock.now();
     const normalized = params.symbol.trim().toUpperCase();
     let count = 0;
     for (const decision of params.state.decisions) {
@@ -2407,9 +2573,8 @@ export class BotEngineService implements OnModuleInit {
       const ts = Date.parse(decision.ts);
       if (!Number.isFinite(ts)) continue;
       if (now - ts > params.windowMs) break;
-      const summary = decision.summary.toUpperCase();
-      if (!summary.includes(normalized)) continue;
-      if (!params.matcher.test(summary)) continue;
+      if (this.getDecisionSymbol(decision) !== normalized) continue;
+      if (typeof decision.details?.insufficientBalanceRejectCount30m !== "number") continue;
       count += 1;
     }
     return count;
@@ -2436,7 +2601,7 @@ export class BotEngineService implements OnModuleInit {
     return undefined;
   }
 
-  private getTransientBackoffInfo(): {
+  getTransientBackoffInfo(): {
     active: boolean;
     remainingMs: number;
     errorCount: number;
@@ -2453,7 +2618,7 @@ export class BotEngineService implements OnModuleInit {
       };
     }
 
-    const now = Date.now();
+    const now = this.clock.now();
     const resetWindowMs = 30 * 60 * 1000;
     if (now - state.lastErrorAtMs > resetWindowMs) {
       this.transientExchangeBackoffState = null;
@@ -2481,7 +2646,7 @@ export class BotEngineService implements OnModuleInit {
     errorCount: number;
     lastErrorCode?: string;
   } {
-    const now = Date.now();
+    const now = this.clock.now();
     const minBackoffMs = 30_000;
     const maxBackoffMs = 600_000;
     const resetWindowMs = 30 * 60 * 1000;
@@ -2490,7 +2655,13 @@ export class BotEngineService implements OnModuleInit {
     const previous = this.transientExchangeBackoffState;
     const withinResetWindow = previous && now - previous.lastErrorAtMs <= resetWindowMs;
     const errorCount = withinResetWindow ? previous.errorCount + 1 : 1;
-    const pauseMs = Math.min(maxBackoffMs, Math.round(minBackoffMs * multiplier ** Math.max(0, errorCount - 1)));
+    // Never resume before the host's rate-limit block (429/418 Retry-After) has expired.
+    const retryAfterMatch = /RETRY-AFTER (\d+)S/i.exec(rawMessage);
+    const retryAfterMs = retryAfterMatch ? Number.parseInt(retryAfterMatch[1], 10) * 1000 : 0;
+    const pauseMs = Math.max(
+      retryAfterMs,
+      Math.min(maxBackoffMs, Math.round(minBackoffMs * multiplier ** Math.max(0, errorCount - 1)))
+    );
     const pauseUntilMs = now + pauseMs;
     const lastErrorCode = this.extractExchangeErrorCode(rawMessage);
 
@@ -2510,6 +2681,19 @@ export class BotEngineService implements OnModuleInit {
     };
   }
 
+  /** Summary to log when the measured server clock offset newly exceeds the alert threshold. */
+  private checkClockDrift(): string | null {
+    const status = this.trading.getClockSyncStatus();
+    if (!status.driftAlert) {
+      this.clockDriftAlerted = false;
+      return null;
+    }
+    if (this.clockDriftAlerted) return null;
+    this.clockDriftAlerted = true;
+    const direction = (status.offsetMs ?? 0) > 0 ? "behind" : "ahead of";
+    return `Clock drift alert: local clock is ${Math.abs(status.offsetMs ?? 0)}ms ${direction} Binance server time (threshold ${status.driftAlertThresholdMs}ms); signed requests are being corrected.`;
+  }
+
   private clearTransientExchangeBackoff(): void {
     this.transientExchangeBackoffState = null;
   }
@@ -2532,18 +2716,18 @@ export class BotEngineService implements OnModuleInit {
 
   private ensureLoopTimer(): void {
     if (this.loopTimer) return;
-    this.loopTimer = setInterval(() => {
+    this.loopTimer = this.clock.setInterval(() => {
       void this.tick();
     }, 5000);
   }
 
   private scheduleExamineTransition(): void {
     if (this.examineTimer) {
-      clearTimeout(this.examineTimer);
+      this.examineTimer.cancel();
       this.examineTimer = null;
     }
 
-    this.examineTimer = setTimeout(() => {
+    this.examineTimer = this.clock.setTimeout(() => {
       void (async () => {
         try {
           const snap = await this.universe.scanAndWait();
@@ -2575,7 +2759,10 @@ export class BotEngineService implements OnModuleInit {
       });
   }
 
-  private getEntryGuard(params: { symbol: string; state: BotState }): { summary: string; details?: Record<string, unknown> } | null {
+  private getEntryGuard(params: {
+    symbol: string;
+    state: BotState;
+  }): { summary: string; reasonCode: DecisionReasonCode; details?: Record<string, unknown> } | null {
     const config = this.configService.load();
     if (!config) return null;
 
@@ -2586,10 +2773,11 @@ export class BotEngineService implements OnModuleInit {
       const lastBuy = history.find((o) => o.side === "BUY");
       const lastBuyAt = lastBuy ? Date.parse(lastBuy.ts) : Number.NaN;
       if (Number.isFinite(lastBuyAt)) {
-        const elapsed = Date.now() - lastBuyAt;
+        const elapsed = this.clock.now() - lastBuyAt;
         if (elapsed < cooldownMs) {
           return {
             summary: "Entry cooldown active",
+            reasonCode: "ENTRY_COOLDOWN",
             details: {
               cooldownMs,
               remainingMs: Math.max(0, Math.round(cooldownMs - elapsed)),
@@ -2606,17 +2794,17 @@ export class BotEngineService implements OnModuleInit {
     if (stopLossEntryCooldownMs > 0) {
       const lastStopLossExit = params.state.decisions.find((decision) => {
         if (decision.kind !== "TRADE") return false;
-        const details = this.getDecisionDetails(decision);
-        if (details?.reason !== "stop-loss-exit") return false;
-        return decision.summary.toUpperCase().includes(normalizedSymbol);
+        if (this.getDecisionReasonCode(decision) !== "STOP_LOSS_EXIT") return false;
+        return this.getDecisionSymbol(decision) === normalizedSymbol;
       });
       if (lastStopLossExit) {
         const stopLossAt = Date.parse(lastStopLossExit.ts);
         if (Number.isFinite(stopLossAt)) {
-          const elapsed = Date.now() - stopLossAt;
+          const elapsed = this.clock.now() - stopLossAt;
           if (elapsed < stopLossEntryCooldownMs) {
             return {
               summary: "Post stop-loss cooldown active",
+              reasonCode: "STOP_LOSS_COOLDOWN",
               details: {
                 stopLossEntryCooldownMs,
                 remainingMs: Math.max(0, Math.round(stopLossEntryCooldownMs - elapsed)),
@@ -2638,6 +2826,7 @@ export class BotEngineService implements OnModuleInit {
       if (consecutiveBuys >= maxConsecutiveEntries) {
         return {
           summary: `Max consecutive entries reached (${maxConsecutiveEntries})`,
+          reasonCode: "MAX_CONSECUTIVE_ENTRIES",
           details: {
             consecutiveBuys,
             maxConsecutiveEntries
@@ -2664,10 +2853,11 @@ export class BotEngineService implements OnModuleInit {
 
     for (const order of filledOrders) {
       const symbol = order.symbol.trim().toUpperCase();
-      const position = positions.get(symbol) ?? {
+      const position: ManagedPosition = positions.get(symbol) ?? {
         symbol,
         netQty: 0,
         costQuote: 0,
+        peakQty: 0,
         lastBuyTs: undefined,
         lastSellTs: undefined
       };
@@ -2677,7 +2867,12 @@ export class BotEngineService implements OnModuleInit {
       if (qty <= 0) continue;
 
       if (order.side === "BUY") {
+        if (position.netQty <= 0) {
+          position.openedAt = order.ts;
+          position.peakQty = 0;
+        }
         position.netQty += qty;
+        position.peakQty = Math.max(position.peakQty, position.netQty);
         if (Number.isFinite(notional) && notional > 0) {
           position.costQuote += notional;
         }
@@ -2689,7 +2884,8 @@ export class BotEngineService implements OnModuleInit {
         if (Number.isFinite(avgCost) && avgCost > 0) {
           position.costQuote = Math.max(0, position.costQuote - avgCost * reduceQty);
         }
-        if (position.netQty <= 1e-12) {
+        // Same rule as the closed-PnL events: the dust a base-asset fee leaves behind closes the position.
+        if (isPositionDust(position.netQty, position.peakQty)) {
           position.netQty = 0;
           position.costQuote = 0;
         }
@@ -3158,6 +3354,8 @@ export class BotEngineService implements OnModuleInit {
   }): Promise<{
     candidate: UniverseCandidate | null;
     reason?: string;
+    /** Set with `reason` when no candidate is left: DAILY_LOSS_CAUTION when the caution pause filtered them out. */
+    reasonCode?: DecisionReasonCode;
     sizingRejected: number;
     rejectionSamples: Array<{
       symbol: string;
@@ -3208,13 +3406,20 @@ export class BotEngineService implements OnModuleInit {
       return {
         candidate: null,
         reason: "No feasible candidates: daily loss caution paused new symbols (no managed inventory)",
+        reasonCode: "DAILY_LOSS_CAUTION",
         sizingRejected: 0,
         rejectionSamples: []
       };
     }
     const maxSymbolNotional = walletTotalHome * (maxPositionPct / 100);
     if (!Number.isFinite(maxSymbolNotional) || maxSymbolNotional <= 0) {
-      return { candidate: null, reason: "Max symbol exposure is zero", sizingRejected: 0, rejectionSamples: [] };
+      return {
+        candidate: null,
+        reason: "Max symbol exposure is zero",
+        reasonCode: "NO_FEASIBLE_CANDIDATE",
+        sizingRejected: 0,
+        rejectionSamples: []
+      };
     }
 
     const effectiveNotionalCap =
@@ -3291,20 +3496,35 @@ export class BotEngineService implements OnModuleInit {
         activeOrderCount: symbolOpenLimitOrders.length
       });
       if (blockedReason) continue;
+      // An open DCA deal is managed from the position loop, so the next deal goes to another symbol.
+      if (liveConfig?.basic?.tradeMode === "DCA" && this.findOpenDcaDeal(state, symbol)) continue;
       const hasBuyLimit = symbolOpenLimitOrders.some((order) => order.side === "BUY");
       const hasSellLimit = symbolOpenLimitOrders.some((order) => order.side === "SELL");
       const recentInventoryWaitingSkips = this.countRecentSymbolSkipMatches({
         state,
         symbol,
-        contains: "grid waiting for ladder slot or inventory",
+        reasonCodes: ["GRID_WAITING"],
         windowMs: 20 * 60_000
       });
+      const gridPlan = this.findGridPlan(state, symbol);
+      // A ladder parked outside its plan's range is let through once the re-centre window passed, so the grid moves.
+      const gridRecenterDue = gridPlan
+        ? isGridRecenterDue(gridPlan, {
+            price: candidate.lastPrice,
+            levelCount: liveConfig?.advanced.gridLevelCount ?? 6,
+            spacing: liveConfig?.advanced.gridSpacingMode ?? "GEOMETRIC",
+            rangeMode: liveConfig?.advanced.gridRangeMode ?? "ATR",
+            nowMs: this.clock.now(),
+            recenterAfterMs: (liveConfig?.advanced.gridRecenterMinutes ?? 10) * 60_000
+          })
+        : false;
       if (
         this.shouldSuppressParkedGridLadderCandidate({
           recentInventoryWaitingSkips,
           hasBuyLimit,
           hasSellLimit,
-          risk
+          risk,
+          gridRecenterDue
         })
       ) {
         recordRejection({
@@ -3385,7 +3605,7 @@ export class BotEngineService implements OnModuleInit {
         const quoteReserveForBuy = this.deriveEffectiveQuoteReserveTargetForBuy({
           state,
           risk,
-          nowMs: Date.now(),
+          nowMs: this.clock.now(),
           reserveHardTarget: quoteReserveTargets.reserveHardTarget,
           reserveHighTarget: quoteReserveTargets.reserveHighTarget
         });
@@ -3433,7 +3653,7 @@ export class BotEngineService implements OnModuleInit {
         const recentFeeEdgeRejects = this.countRecentSymbolSkipMatches({
           state,
           symbol,
-          contains: "fee/edge filter",
+          reasonCodes: ["FEE_EDGE"],
           windowMs: 15 * 60_000
         });
         if (
@@ -3634,13 +3854,15 @@ export class BotEngineService implements OnModuleInit {
       }
     }
 
+    const cautionFiltered = sizingRejected === 0 && Boolean(managedSymbolsOnlySet) && managedSymbolFiltered > 0;
     const reason =
       sizingRejected > 0
         ? `No feasible candidates after sizing/cap filters (${sizingRejected} rejected)`
-        : managedSymbolsOnlySet && managedSymbolFiltered > 0
+        : cautionFiltered
           ? `No feasible candidates: daily loss caution paused new symbols (${managedSymbolFiltered} filtered)`
           : "No feasible candidates after policy/exposure filters";
-    return { candidate: null, reason, sizingRejected, rejectionSamples };
+    const reasonCode: DecisionReasonCode = cautionFiltered ? "DAILY_LOSS_CAUTION" : "NO_FEASIBLE_CANDIDATE";
+    return { candidate: null, reason, reasonCode, sizingRejected, rejectionSamples };
   }
 
   private ensureTelemetryDir(): void {
@@ -3665,61 +3887,22 @@ export class BotEngineService implements OnModuleInit {
 
   private isConversionTradeDecision(decision: Decision): boolean {
     if (decision.kind !== "TRADE") return false;
-    const details = this.getDecisionDetails(decision);
-    if (typeof details?.mode === "string" && (details.mode === "conversion-router" || details.mode === "wallet-sweep")) {
-      return true;
-    }
-    if (typeof details?.reason === "string" && details.reason.toLowerCase().includes("convert ")) {
-      return true;
-    }
-    return decision.summary.toLowerCase().includes("convert ");
+    return this.getDecisionReasonCode(decision) === "CONVERSION";
   }
 
   private isEntryTradeDecision(decision: Decision): boolean {
     if (decision.kind !== "TRADE") return false;
-    const details = this.getDecisionDetails(decision);
-    if (typeof details?.reason !== "string") return false;
-    return details.reason === "entry" || details.reason === "entry-retry-sizing";
+    return this.getDecisionReasonCode(decision) === "ENTRY";
   }
 
   private isSizingRejectSkipDecision(decision: Decision): boolean {
     if (decision.kind !== "SKIP") return false;
-    const summary = decision.summary.toLowerCase();
-    if (summary.includes("binance sizing filter")) return true;
-    if (summary.includes("min order constraints")) return true;
-    if (summary.includes("minqty")) return true;
-    if (summary.includes("lot_size")) return true;
-    if (summary.includes("market_lot_size")) return true;
-    if (summary.includes("minnotional")) return true;
-    if (summary.includes("notional")) return true;
-    return false;
+    const reasonCode = this.getDecisionReasonCode(decision);
+    return reasonCode !== undefined && SIZING_REJECT_SKIP_CODES.has(reasonCode);
   }
 
-  private classifySkipReasonCluster(summary: string): "FEE_EDGE" | "MIN_ORDER" | "INVENTORY_WAITING" | "OTHER" {
-    const lower = summary.trim().toLowerCase();
-    if (lower.includes("fee/edge filter")) return "FEE_EDGE";
-    if (
-      lower.includes("grid waiting for ladder slot or inventory") ||
-      lower.includes("grid guard paused buy leg") ||
-      lower.includes("grid guard active (no inventory to sell)") ||
-      lower.includes("waiting for ladder slot") ||
-      lower.includes("no inventory")
-    ) {
-      return "INVENTORY_WAITING";
-    }
-    if (
-      lower.includes("binance sizing filter") ||
-      lower.includes("min order constraints") ||
-      lower.includes("minqty") ||
-      lower.includes("lot_size") ||
-      lower.includes("market_lot_size") ||
-      lower.includes("minnotional") ||
-      lower.includes("notional") ||
-      lower.includes("sizing rejected")
-    ) {
-      return "MIN_ORDER";
-    }
-    return "OTHER";
+  private classifySkipReasonCluster(reasonCode: DecisionReasonCode | undefined): SkipReasonCluster {
+    return reasonCode ? SKIP_REASON_CLUSTER_BY_CODE[reasonCode] ?? "OTHER" : "OTHER";
   }
 
   private mapBinanceStatus(status: string | undefined): Order["status"] {
@@ -3828,13 +4011,12 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private isBotOwnedOrder(order: Order, prefix: string): boolean {
-    const clientOrderId = typeof order.clientOrderId === "string" ? order.clientOrderId.trim().toUpperCase() : "";
-    if (!clientOrderId) return false;
-    if (clientOrderId.startsWith(`${prefix}-`)) return true;
-    if (clientOrderId.startsWith("ABOT-")) return true; // legacy default prefix compatibility after prefix changes/reset
-    // Signature fallback for previously generated bot client ids from older runs.
-    // Format emitted by buildBotClientOrderId: <PREFIX>-<2 chars + side(B|S)>-<time36+rand>
-    return /^[A-Z0-9]{3,12}-[A-Z0-9]{2}[BS]-[A-Z0-9]{8,}$/.test(clientOrderId);
+    return isBotClientOrderId(typeof order.clientOrderId === "string" ? order.clientOrderId : undefined, prefix);
+  }
+
+  /** Take-profit / stop-loss legs of an exchange-side bracket (client ids from purposes "TP" / "SL"). */
+  private isProtectiveBracketOrder(order: Order, prefix: string): boolean {
+    return isProtectiveBracketClientOrderId(order.clientOrderId, prefix);
   }
 
   private shouldAttemptBalanceDeltaSellFallback(required: number, available: number): boolean {
@@ -3846,14 +4028,6 @@ export class BotEngineService implements OnModuleInit {
     return Number.isFinite(shortfallRatio) && shortfallRatio <= 0.03; // up to 3% shortfall
   }
 
-  private isNoFeasibleRecoveryReason(reason: string | undefined): boolean {
-    const normalized = (reason ?? "").trim().toLowerCase();
-    return (
-      normalized.includes("no feasible candidates after sizing/cap filters") ||
-      normalized.includes("no feasible candidates after policy/exposure filters")
-    );
-  }
-
   private deriveMinQuoteLiquidityHome(config: AppConfig | null | undefined, risk: number): number {
     const configuredMinTopUpTarget = config?.advanced.conversionTopUpMinTarget ?? 5;
     return Math.max(1, configuredMinTopUpTarget * (risk >= 80 ? 0.6 : risk >= 50 ? 0.8 : 1));
@@ -3999,11 +4173,11 @@ export class BotEngineService implements OnModuleInit {
 
   private deriveNoFeasibleRecoveryPolicy(params: {
     state: BotState;
-    reason: string | undefined;
+    reasonCode: DecisionReasonCode | undefined;
     risk: number;
     nowMs: number;
   }): { enabled: boolean; recentCount: number; threshold: number; cooldownMs: number; windowMs: number } {
-    if (!this.isNoFeasibleRecoveryReason(params.reason)) {
+    if (params.reasonCode !== "NO_FEASIBLE_CANDIDATE") {
       return { enabled: false, recentCount: 0, threshold: 0, cooldownMs: 0, windowMs: 0 };
     }
 
@@ -4021,7 +4195,7 @@ export class BotEngineService implements OnModuleInit {
       mostRecentTradeMs === null ? params.nowMs - windowMs : Math.max(params.nowMs - windowMs, mostRecentTradeMs);
     const recentSkips = params.state.decisions.filter((decision) => {
       if (decision.kind !== "SKIP") return false;
-      if (!this.isNoFeasibleRecoveryReason(decision.summary)) return false;
+      if (this.getDecisionReasonCode(decision) !== "NO_FEASIBLE_CANDIDATE") return false;
       const ts = Date.parse(decision.ts);
       return Number.isFinite(ts) && ts >= windowStartMs && ts <= params.nowMs;
     }).length;
@@ -4099,19 +4273,20 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private buildBotClientOrderId(params: { config: AppConfig; purpose: string; side: "BUY" | "SELL" }): string {
-    const prefix = this.resolveBotOrderClientIdPrefix(params.config);
-    const purposeCode = (params.purpose.trim().toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 2) || "O").padEnd(2, "O");
-    const sideCode = params.side === "BUY" ? "B" : "S";
-    const time36 = Date.now().toString(36).toUpperCase();
-    const rand = crypto.randomBytes(3).toString("hex").toUpperCase();
-    // Binance Spot newClientOrderId max length is small (commonly 36); keep it short and deterministic.
-    return `${prefix}-${purposeCode}${sideCode}-${time36}${rand}`.slice(0, 36);
+    return buildBotClientOrderId({
+      prefix: this.resolveBotOrderClientIdPrefix(params.config),
+      purpose: params.purpose,
+      side: params.side,
+      exchange: params.config.advanced.exchange ?? "BINANCE",
+      nowMs: this.clock.now(),
+      random: crypto.randomBytes(3).toString("hex").toUpperCase()
+    });
   }
 
   private getOrderAgeMs(order: Order): number | null {
     const ts = Date.parse(order.ts);
     if (!Number.isFinite(ts)) return null;
-    const age = Date.now() - ts;
+    const age = this.clock.now() - ts;
     return Number.isFinite(age) && age >= 0 ? age : null;
   }
 
@@ -4127,6 +4302,8 @@ export class BotEngineService implements OnModuleInit {
     const toCancel = params.orders
       .filter((o) => o.status === "NEW")
       .filter((o) => this.isBotOwnedOrder(o, prefix))
+      // Exchange-side brackets are the protection that must survive stops and locks; they are managed separately.
+      .filter((o) => !this.isProtectiveBracketOrder(o, prefix))
       .slice(0, Math.max(0, Math.floor(params.maxCancels)));
 
     if (toCancel.length === 0) return params.state;
@@ -4168,7 +4345,7 @@ export class BotEngineService implements OnModuleInit {
         : [
             {
               id: crypto.randomUUID(),
-              ts: new Date().toISOString(),
+              ts: new Date(this.clock.now()).toISOString(),
               kind: "ENGINE",
               summary,
               details: {
@@ -4210,7 +4387,7 @@ export class BotEngineService implements OnModuleInit {
     if (!Number.isFinite(qty) || qty <= 0) return null;
 
     const tsCandidate = typeof snapshot.transactTime === "number" ? snapshot.transactTime : Number.NaN;
-    const ts = Number.isFinite(tsCandidate) ? new Date(tsCandidate).toISOString() : new Date().toISOString();
+    const ts = Number.isFinite(tsCandidate) ? new Date(tsCandidate).toISOString() : new Date(this.clock.now()).toISOString();
     const priceCandidate = Number.parseFloat(snapshot.price ?? "");
     const type = (snapshot.type?.trim().toUpperCase() ?? "MARKET") as Order["type"];
 
@@ -4220,7 +4397,7 @@ export class BotEngineService implements OnModuleInit {
       symbol,
       ...(clientOrderId ? { clientOrderId } : {}),
       side,
-      type: type === "LIMIT" || type === "LIMIT_MAKER" ? type : "MARKET",
+      type: type === "LIMIT" || type === "LIMIT_MAKER" || type === "STOP_LOSS_LIMIT" ? type : "MARKET",
       status: this.mapBinanceStatus(snapshot.status),
       qty,
       ...(Number.isFinite(priceCandidate) && priceCandidate > 0 ? { price: priceCandidate } : {})
@@ -4283,11 +4460,886 @@ export class BotEngineService implements OnModuleInit {
     return true;
   }
 
+  /**
+   * Applies streamed `executionReport` snapshots (oldest first): open ones replace/enter `activeOrders`,
+   * terminal ones leave it for `orderHistory`.
+   */
+  private applyStreamedOrderUpdates(state: BotState, snapshots: BinanceOrderSnapshot[]): BotState {
+    let activeOrders = state.activeOrders;
+    let finalized: Order[] = [];
+    for (const snapshot of snapshots) {
+      const order = this.mapExchangeOrderToStateOrder(snapshot);
+      if (!order) continue;
+      const existing = activeOrders.find((active) => active.id === order.id);
+      activeOrders = activeOrders.filter((active) => active.id !== order.id);
+      finalized = finalized.filter((done) => done.id !== order.id);
+      const merged = existing ? this.mergeOrderRecords(order, existing) : order;
+      if (merged.status === "NEW") {
+        activeOrders = [merged, ...activeOrders];
+      } else {
+        finalized = [merged, ...finalized];
+      }
+    }
+
+    return {
+      ...state,
+      activeOrders: activeOrders.slice(0, 50),
+      orderHistory: this.dedupeOrderHistory([...finalized, ...state.orderHistory]).slice(0, 200)
+    };
+  }
+
+  /** Applies buffered stream order updates to the persisted state between ticks (a running tick drains them itself). */
+  private flushUserDataStreamOrders(): void {
+    if (!this.userDataStream || this.tickInFlight) return;
+    const updates = this.userDataStream.drainOrderUpdates();
+    if (updates.length === 0) return;
+    this.save(this.applyStreamedOrderUpdates(this.getState(), updates));
+  }
+
+  /**
+   * The stream only reports changes, so polling is skipped only while it has been up since before the
+   * last successful poll (nothing missed in between), with a periodic full poll to catch anything dropped.
+   */
+  private canSkipOrderPolling(nowMs: number): boolean {
+    const status = this.userDataStream?.isHealthy() ? this.userDataStream.getStatus() : null;
+    if (!status || status.connectedSince === null) return false;
+    if (this.lastOrderPollAtMs < status.connectedSince) return false;
+    return nowMs - this.lastOrderPollAtMs < USER_DATA_STREAM_RECONCILE_INTERVAL_MS;
+  }
+
+  /**
+   * Balances from the user-data stream when it is live; otherwise REST (which also re-seeds the stream cache).
+   * `fresh` always reads REST: the stream's balance event for an order we just placed usually arrives after the reply.
+   */
+  private async getLiveBalances(options: { fresh?: boolean } = {}): Promise<BinanceBalanceSnapshot[]> {
+    const streamed = options.fresh ? null : this.userDataStream?.getBalances();
+    if (streamed) return streamed;
+    const balances = await this.trading.getBalances();
+    this.userDataStream?.seedBalances(balances);
+    return balances;
+  }
+
+  /** Managed-position exit band: take-profit 0.35% .. 1.25%, base stop-loss -0.8% .. -2.0% (before regime adjustment). */
+  private deriveManagedExitThresholds(risk: number): { takeProfitPct: number; stopLossPct: number } {
+    return {
+      takeProfitPct: 0.35 + (risk / 100) * 0.9,
+      stopLossPct: -(0.8 + (risk / 100) * 1.2)
+    };
+  }
+
+  private resolvePositionExitSettings(config: AppConfig | null): PositionExitSettings {
+    const advanced = config?.advanced;
+    return {
+      trailingStopEnabled: advanced?.trailingStopEnabled ?? false,
+      trailingStopActivationPct: advanced?.trailingStopActivationPct ?? 0.8,
+      trailingStopDistancePct: advanced?.trailingStopDistancePct ?? 1,
+      trailingStopAtrMultiplier: advanced?.trailingStopAtrMultiplier ?? 0,
+      breakEvenStopEnabled: advanced?.breakEvenStopEnabled ?? false,
+      breakEvenTriggerPct: advanced?.breakEvenTriggerPct ?? 0.6,
+      breakEvenOffsetPct: advanced?.breakEvenOffsetPct ?? 0.1,
+      takeProfitLadder: advanced?.takeProfitLadder ?? []
+    };
+  }
+
+  private resolveStalePositionSettings(config: AppConfig | null): StalePositionSettings {
+    const advanced = config?.advanced;
+    return {
+      maxHoldingMinutes: {
+        TREND: advanced?.maxHoldingMinutesTrend ?? 0,
+        MEAN_REVERSION: advanced?.maxHoldingMinutesMeanReversion ?? 0,
+        GRID: advanced?.maxHoldingMinutesGrid ?? 0
+      },
+      action: advanced?.stalePositionAction ?? "REEVALUATE"
+    };
+  }
+
+  private findPositionTracking(state: BotState, symbol: string): PositionTracking | null {
+    const normalized = symbol.trim().toUpperCase();
+    return (state.positionTracking ?? []).find((entry) => entry.symbol === normalized) ?? null;
+  }
+
+  /** The position's tracking record with `price` folded into the high-water mark; starts over for a newly opened position. */
+  private trackPositionPrice(state: BotState, position: ManagedPosition, price: number): PositionTracking {
+    const nowIso = new Date(this.clock.now()).toISOString();
+    const openedAt = position.openedAt ?? position.lastBuyTs ?? nowIso;
+    const existing = this.findPositionTracking(state, position.symbol);
+    if (!existing || existing.openedAt !== openedAt) {
+      return {
+        symbol: position.symbol,
+        openedAt,
+        highWaterPrice: price,
+        highWaterAt: nowIso,
+        breakEvenArmed: false,
+        takeProfitStepsDone: 0,
+        pyramidAdds: 0
+      };
+    }
+    return price > existing.highWaterPrice ? { ...existing, highWaterPrice: price, highWaterAt: nowIso } : existing;
+  }
+
+  /**
+   * Records the strategy lane an entry opened (or added to) a position under, unless the open position already has
+   * one, so its max holding period no longer follows the lane recommended on later ticks.
+   */
+  private recordPositionStrategy(state: BotState, symbol: string, strategy: NonNullable<PositionTracking["strategy"]>): BotState {
+    const position = this.getManagedPositions(state).get(symbol.trim().toUpperCase());
+    if (!position || position.netQty <= 0) return state;
+    const avgEntryPrice = position.costQuote / position.netQty;
+    if (!Number.isFinite(avgEntryPrice) || avgEntryPrice <= 0) return state;
+    const tracking = this.trackPositionPrice(state, position, avgEntryPrice);
+    return tracking.strategy ? state : this.upsertPositionTracking(state, { ...tracking, strategy });
+  }
+
+  private upsertPositionTracking(state: BotState, tracking: PositionTracking): BotState {
+    const existing = this.findPositionTracking(state, tracking.symbol);
+    if (
+      existing &&
+      existing.openedAt === tracking.openedAt &&
+      existing.highWaterPrice === tracking.highWaterPrice &&
+      existing.breakEvenArmed === tracking.breakEvenArmed &&
+      existing.takeProfitStepsDone === tracking.takeProfitStepsDone &&
+      existing.pyramidAdds === tracking.pyramidAdds &&
+      existing.strategy === tracking.strategy &&
+      existing.staleReviewedAt === tracking.staleReviewedAt
+    ) {
+      return state;
+    }
+    return {
+      ...state,
+      positionTracking: [...(state.positionTracking ?? []).filter((entry) => entry.symbol !== tracking.symbol), tracking]
+    };
+  }
+
+  /** Drops tracking for positions that are no longer open. */
+  private prunePositionTracking(state: BotState, positions: Map<string, ManagedPosition>): BotState {
+    const tracking = state.positionTracking ?? [];
+    const kept = tracking.filter((entry) => (positions.get(entry.symbol)?.netQty ?? 0) > 0);
+    return kept.length === tracking.length ? state : { ...state, positionTracking: kept };
+  }
+
+  private findProtectiveBracket(state: BotState, symbol: string): ProtectiveBracket | null {
+    const normalized = symbol.trim().toUpperCase();
+    return (state.protectiveBrackets ?? []).find((bracket) => bracket.symbol === normalized) ?? null;
+  }
+
+  private findGridPlan(state: BotState, symbol: string): GridPlan | null {
+    const normalized = symbol.trim().toUpperCase();
+    return (state.gridPlans ?? []).find((plan) => plan.symbol === normalized) ?? null;
+  }
+
+  private upsertGridPlan(state: BotState, plan: GridPlan): BotState {
+    return {
+      ...state,
+      gridPlans: [...(state.gridPlans ?? []).filter((entry) => entry.symbol !== plan.symbol), plan]
+    };
+  }
+
+  /**
+   * Applies order fills / cancels to the grid levels that were waiting on them, and releases held lots once the
+   * position was closed by other means (exits, unwinds).
+   */
+  private reconcileGridPlans(state: BotState): BotState {
+    const plans = state.gridPlans ?? [];
+    if (plans.length === 0) return state;
+    const orders = [...state.activeOrders, ...state.orderHistory];
+    const positions = this.getManagedPositions(state);
+    const nowIso = new Date(this.clock.now()).toISOString();
+    let changed = false;
+    const next = plans.map((plan) => {
+      const applied = applyGridOrderUpdates(plan, orders, nowIso);
+      const updated = (positions.get(plan.symbol)?.netQty ?? 0) > 0 ? applied : releaseGridLots(applied, nowIso);
+      if (updated !== plan) changed = true;
+      return updated;
+    });
+    return changed ? { ...state, gridPlans: next } : state;
+  }
+
+  private resolveDcaSettings(config: AppConfig | null): DcaSettings {
+    const advanced = config?.advanced;
+    return {
+      maxSafetyOrders: advanced?.dcaMaxSafetyOrders ?? 3,
+      deviationPct: advanced?.dcaSafetyOrderDeviationPct ?? 1.5,
+      deviationScale: advanced?.dcaDeviationScale ?? 1,
+      volumeScale: advanced?.dcaSafetyOrderVolumeScale ?? 1.5,
+      takeProfitPct: advanced?.dcaTakeProfitPct ?? 1.5
+    };
+  }
+
+  private findOpenDcaDeal(state: BotState, symbol: string): DcaDeal | null {
+    const normalized = symbol.trim().toUpperCase();
+    return (state.dcaDeals ?? []).find((deal) => deal.status === "OPEN" && deal.symbol === normalized) ?? null;
+  }
+
+  private upsertDcaDeal(state: BotState, deal: DcaDeal): BotState {
+    return { ...state, dcaDeals: mergeDcaDeal(state.dcaDeals ?? [], deal) };
+  }
+
+  /** Closes open deals whose position was sold outside the deal (unwinds, manual sells). */
+  private closeOrphanedDcaDeals(state: BotState, positions: Map<string, ManagedPosition>): BotState {
+    const orphaned = (state.dcaDeals ?? []).filter(
+      (deal) => deal.status === "OPEN" && (positions.get(deal.symbol)?.netQty ?? 0) <= 0
+    );
+    if (orphaned.length === 0) return state;
+    const nowIso = new Date(this.clock.now()).toISOString();
+    return orphaned.reduce(
+      (next, deal) => this.upsertDcaDeal(next, closeDcaDeal(deal, { nowIso, reason: "POSITION_GONE" })),
+      state
+    );
+  }
+
+  private findOpenFuturesShort(state: BotState, symbol: string): FuturesShort | null {
+    const normalized = symbol.trim().toUpperCase();
+    return (state.futuresShorts ?? []).find((short) => short.status === "OPEN" && short.symbol === normalized) ?? null;
+  }
+
+  private upsertFuturesShort(state: BotState, short: FuturesShort): BotState {
+    return { ...state, futuresShorts: mergeFuturesShort(state.futuresShorts ?? [], short) };
+  }
+
+  /** Notional of the open futures shorts at their entry price (margin assets are USD stables, counted as home). */
+  private getOpenFuturesShortExposure(state: BotState): number {
+    return (state.futuresShorts ?? [])
+      .filter((short) => short.status === "OPEN")
+      .reduce((sum, short) => sum + short.qty * short.entryPrice, 0);
+  }
+
+  /**
+   * Adopts short positions the bot opened but never recorded, e.g. when the entry response was lost after the
+   * exchange filled the order. A position counts as the bot's when the latest filled opening SELL on the symbol
+   * carries the bot's "FS" client id; other shorts are left alone.
+   */
+  private async adoptUntrackedFuturesShorts(params: {
+    config: AppConfig;
+    state: BotState;
+    positions: BinanceFuturesPositionSnapshot[];
+  }): Promise<BotState> {
+    const prefix = this.resolveBotOrderClientIdPrefix(params.config);
+    let state = params.state;
+    for (const position of params.positions) {
+      if (position.positionAmt >= 0 || this.findOpenFuturesShort(state, position.symbol)) continue;
+      const orders = await this.trading.getFuturesOrders(position.symbol);
+      const entry = [...orders].reverse().find((order) => order.side === "SELL" && !order.reduceOnly && order.executedQty > 0);
+      if (!entry || !isBotClientOrderIdFor(entry.clientOrderId, prefix, { purpose: "FS", side: "SELL" })) continue;
+
+      const openedAtMs = entry.updateTime && entry.updateTime > 0 ? entry.updateTime : this.clock.now();
+      const short: FuturesShort = {
+        id: crypto.randomUUID(),
+        symbol: position.symbol,
+        status: "OPEN",
+        qty: Math.abs(position.positionAmt),
+        entryPrice: position.entryPrice > 0 ? position.entryPrice : (entry.avgPrice ?? position.markPrice),
+        leverage: position.leverage,
+        marginType: position.marginType,
+        entryOrderId: entry.orderId ?? entry.clientOrderId ?? "unknown",
+        openedAt: new Date(openedAtMs).toISOString()
+      };
+      state = this.prependEngineDecision(
+        this.upsertFuturesShort(state, short),
+        `Adopted futures short ${short.symbol} opened by the bot`,
+        { stage: "futures-short", symbol: short.symbol, qty: short.qty, entryOrderId: short.entryOrderId }
+      );
+    }
+    return state;
+  }
+
+  /**
+   * Adopts untracked bot shorts, then closes open futures shorts reduce-only at the managed take-profit / stop-loss
+   * (on the mark price), once the symbol's regime is no longer a bear trend, or when futures were switched off.
+   * Shorts the exchange no longer holds are closed as POSITION_GONE. At most one exit order per call, like the spot
+   * exits.
+   */
+  private async reconcileFuturesShorts(params: { config: AppConfig; state: BotState; risk: number }): Promise<BotState> {
+    const { config, risk } = params;
+    const positions = await this.trading.getFuturesPositions();
+    let state = await this.adoptUntrackedFuturesShorts({ config, state: params.state, positions });
+    const openShorts = (state.futuresShorts ?? []).filter((short) => short.status === "OPEN");
+    if (openShorts.length === 0) return state;
+
+    const universeSnapshot = await this.universe.getLatest().catch(() => null);
+    const { takeProfitPct, stopLossPct } = this.deriveManagedExitThresholds(risk);
+    const nowIso = new Date(this.clock.now()).toISOString();
+    let exitPlaced = false;
+
+    for (const short of openShorts) {
+      const position = positions.find((entry) => entry.symbol === short.symbol && entry.positionAmt < 0);
+      if (!position) {
+        state = this.prependEngineDecision(
+          this.upsertFuturesShort(state, closeFuturesShort(short, { nowIso, reason: "POSITION_GONE" })),
+          `Futures short ${short.symbol} was closed outside the bot`,
+          { stage: "futures-short", symbol: short.symbol, qty: short.qty }
+        );
+        continue;
+      }
+      if (exitPlaced) continue;
+
+      const candidate =
+        (universeSnapshot?.candidates ?? []).find((entry) => entry.symbol.trim().toUpperCase() === short.symbol) ?? null;
+      const regime = candidate ? this.buildRegimeSnapshot(candidate, risk) : null;
+      const regimeExit = !config.derived.allowFutures || (regime !== null && regime.label !== "BEAR_TREND");
+      const reason: FuturesShortExitReason | null = regimeExit
+        ? "REGIME_EXIT"
+        : deriveFuturesShortExit(short, position.markPrice, { takeProfitPct, stopLossPct });
+      if (!reason) continue;
+
+      const qty = Math.min(short.qty, Math.abs(position.positionAmt));
+      const order = await this.trading.placeFuturesMarketOrder({
+        symbol: short.symbol,
+        side: "BUY",
+        quantity: String(qty),
+        reduceOnly: true,
+        clientOrderId: this.buildBotClientOrderId({ config, purpose: "FS", side: "BUY" })
+      });
+      const exitPrice = order.avgPrice ?? position.markPrice;
+      const closed = closeFuturesShort(short, { nowIso, reason, exitPrice, exitQty: order.executedQty > 0 ? order.executedQty : qty });
+      const reasonLabel = reason.toLowerCase().replace(/_/g, "-");
+      const reasonCode: DecisionReasonCode = "FUTURES_SHORT_EXIT";
+      exitPlaced = true;
+      state = {
+        ...this.upsertFuturesShort(state, closed),
+        decisions: [
+          {
+            id: crypto.randomUUID(),
+            ts: nowIso,
+            kind: "TRADE",
+            summary: `BUY ${qty} ${short.symbol} futures (close short: ${reasonLabel})`,
+            reasonCode,
+            details: {
+              mode: "futures-short",
+              reason: `futures-short-exit-${reasonLabel}`,
+              symbol: short.symbol,
+              qty,
+              entryPrice: short.entryPrice,
+              exitPrice,
+              pnlPct: Number(deriveFuturesShortPnlPct(short, exitPrice).toFixed(4)),
+              realizedPnl: closed.realizedPnl ?? null,
+              leverage: short.leverage,
+              orderId: order.orderId ?? null,
+              ...(regime ? { regime } : {})
+            }
+          },
+          ...state.decisions
+        ].slice(0, 200)
+      };
+    }
+    return state;
+  }
+
+  /**
+   * Opens a futures short on the candidate while the risk budget is in its BEAR_SHORT lane. Returns null when the
+   * symbol has no USD-M contract margined in its quote asset or the budget is below the contract minimum, so the
+   * caller falls back to the spot skip.
+   */
+  private async openFuturesShort(params: {
+    config: AppConfig;
+    state: BotState;
+    risk: number;
+    symbol: string;
+    quoteAsset: string;
+    maxShortNotionalQuote: number;
+    riskBudget: Record<string, unknown>;
+  }): Promise<BotState | null> {
+    const { config, symbol } = params;
+    if (this.findOpenFuturesShort(params.state, symbol)) return null;
+    const openShorts = (params.state.futuresShorts ?? []).filter((short) => short.status === "OPEN").length;
+    if (openShorts >= Math.max(1, config.derived.maxOpenPositions)) return null;
+
+    const rules = await this.trading.getFuturesSymbolRules(symbol);
+    if (!rules || rules.marginAsset !== params.quoteAsset.trim().toUpperCase()) return null;
+
+    const funding = await this.trading.getFuturesFundingRate(symbol);
+    const minFundingRatePct = config.advanced.futuresMinFundingRatePct ?? -0.01;
+    if (funding.fundingRatePct < minFundingRatePct) {
+      const reasonCode: DecisionReasonCode = "FUTURES_FUNDING";
+      const summary = `Skip short ${symbol}: Futures funding rate ${funding.fundingRatePct.toFixed(4)}% below ${minFundingRatePct.toFixed(4)}%`;
+      const cooldownMs = this.deriveNoActionSymbolCooldownMs(params.risk);
+      const alreadyLogged = params.state.decisions[0]?.kind === "SKIP" && params.state.decisions[0]?.summary === summary;
+      const next: BotState = {
+        ...params.state,
+        decisions: alreadyLogged
+          ? params.state.decisions
+          : [
+              {
+                id: crypto.randomUUID(),
+                ts: new Date(this.clock.now()).toISOString(),
+                kind: "SKIP",
+                summary,
+                reasonCode,
+                details: { stage: "futures-short-entry", symbol, fundingRatePct: funding.fundingRatePct, minFundingRatePct, cooldownMs }
+              },
+              ...params.state.decisions
+            ].slice(0, 200)
+      };
+      return this.upsertProtectionLock(next, {
+        type: "COOLDOWN",
+        scope: "SYMBOL",
+        symbol,
+        reason: `Futures funding rate below minimum (${Math.round(cooldownMs / 1000)}s)`,
+        expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
+        details: { category: "FUTURES_FUNDING", fundingRatePct: funding.fundingRatePct, cooldownMs }
+      });
+    }
+
+    const quantity = await this.trading.normalizeFuturesMarketQuantity(
+      symbol,
+      params.maxShortNotionalQuote / funding.markPrice,
+      funding.markPrice
+    );
+    if (!quantity) return null;
+
+    const leverage = config.advanced.futuresLeverage ?? 2;
+    const marginType = config.advanced.futuresMarginType ?? "ISOLATED";
+    await this.trading.prepareFuturesSymbol({ symbol, leverage, marginType });
+    const order = await this.trading.placeFuturesMarketOrder({
+      symbol,
+      side: "SELL",
+      quantity,
+      clientOrderId: this.buildBotClientOrderId({ config, purpose: "FS", side: "SELL" })
+    });
+    if (!(order.executedQty > 0)) {
+      throw new Error(`Futures short entry for ${symbol} did not fill (${order.status ?? "unknown status"})`);
+    }
+
+    const nowIso = new Date(this.clock.now()).toISOString();
+    const short: FuturesShort = {
+      id: crypto.randomUUID(),
+      symbol,
+      status: "OPEN",
+      qty: order.executedQty,
+      entryPrice: order.avgPrice ?? funding.markPrice,
+      leverage,
+      marginType,
+      entryOrderId: order.orderId ?? order.clientOrderId ?? "unknown",
+      fundingRatePct: funding.fundingRatePct,
+      openedAt: nowIso
+    };
+    const next = this.upsertFuturesShort(params.state, short);
+    const reasonCode: DecisionReasonCode = "FUTURES_SHORT_ENTRY";
+    return {
+      ...next,
+      decisions: [
+        {
+          id: crypto.randomUUID(),
+          ts: nowIso,
+          kind: "TRADE",
+          summary: `SELL ${short.qty} ${symbol} futures (open short, ${leverage}x ${marginType.toLowerCase()})`,
+          reasonCode,
+          details: {
+            mode: "futures-short",
+            reason: "futures-short-entry",
+            symbol,
+            qty: short.qty,
+            entryPrice: short.entryPrice,
+            leverage,
+            marginType,
+            fundingRatePct: funding.fundingRatePct,
+            maxShortNotionalQuote: Number(params.maxShortNotionalQuote.toFixed(6)),
+            orderId: order.orderId ?? null,
+            riskBudget: params.riskBudget
+          }
+        },
+        ...next.decisions
+      ].slice(0, 200),
+      lastError: undefined
+    };
+  }
+
+  private prependEngineDecision(state: BotState, summary: string, details?: Record<string, unknown>): BotState {
+    const alreadyLogged = state.decisions[0]?.kind === "ENGINE" && state.decisions[0]?.summary === summary;
+    if (alreadyLogged) return state;
+    return {
+      ...state,
+      decisions: [
+        {
+          id: crypto.randomUUID(),
+          ts: new Date(this.clock.now()).toISOString(),
+          kind: "ENGINE",
+          summary,
+          ...(details ? { details } : {})
+        },
+        ...state.decisions
+      ].slice(0, 200)
+    };
+  }
+
+  /**
+   * Keeps one exchange-side bracket (OCO take-profit + stop-loss, or a lone STOP_LOSS_LIMIT) resting for every
+   * managed live position, so positions stay protected while the process is down:
+   * - retires brackets whose legs left `activeOrders` (a filled leg is logged as the exit trade);
+   * - cancels brackets of closed positions, unknown bot brackets, and everything when the feature is off;
+   * - places missing brackets and replaces ones whose stop moved or whose position grew.
+   *
+   * Bracket legs live in `activeOrders` like any other order, so the normal order sync / user-data stream
+   * records their fills in `orderHistory` and the managed position shrinks accordingly.
+   */
+  private async reconcileProtectiveBrackets(params: {
+    config: AppConfig;
+    state: BotState;
+    risk: number;
+    getBaseAsset: (symbol: string) => string | null;
+  }): Promise<BotState> {
+    const { config, risk } = params;
+    const prefix = this.resolveBotOrderClientIdPrefix(config);
+    // Order lists are Binance-only and never available in paper / backtest runs.
+    const enabled =
+      config.advanced.liveExchangeBracketsEnabled && config.basic.tradeMode === "SPOT" && this.trading.supportsOrderLists();
+    let state = this.retireFinishedProtectiveBrackets(params.state);
+
+    if (!enabled) {
+      for (const bracket of state.protectiveBrackets ?? []) {
+        state = await this.cancelProtectiveBracket(state, bracket, "exchange brackets disabled");
+      }
+      return state;
+    }
+
+    const referencedLegIds = new Set(
+      (state.protectiveBrackets ?? []).flatMap((bracket) => [bracket.stopOrderId, bracket.takeProfitOrderId ?? ""])
+    );
+    for (const order of state.activeOrders) {
+      if (order.status !== "NEW" || referencedLegIds.has(order.id) || !this.isProtectiveBracketOrder(order, prefix)) continue;
+      try {
+        await this.trading.cancelOrder(order.symbol, order.id);
+        state = {
+          ...state,
+          activeOrders: state.activeOrders.filter((active) => active.id !== order.id),
+          orderHistory: this.dedupeOrderHistory([{ ...order, status: "CANCELED" }, ...state.orderHistory]).slice(0, 200)
+        };
+      } catch {
+        // Next order sync resolves it.
+      }
+    }
+    if (!this.orphanBracketSweepDone) {
+      const known = new Set((state.protectiveBrackets ?? []).map((bracket) => bracket.orderListId).filter(Boolean));
+      for (const list of await this.trading.getOpenOrderLists()) {
+        if (known.has(list.orderListId) || !list.listClientOrderId?.toUpperCase().startsWith(`${prefix}-OCO-`)) continue;
+        await this.trading.cancelOrderList(list.symbol, list.orderListId).catch(() => undefined);
+      }
+      this.orphanBracketSweepDone = true;
+    }
+
+    const positions = this.getManagedPositions(state);
+    for (const bracket of state.protectiveBrackets ?? []) {
+      if ((positions.get(bracket.symbol)?.netQty ?? 0) <= 0) {
+        state = await this.cancelProtectiveBracket(state, bracket, "position closed");
+      }
+    }
+
+    const openPositions = [...positions.values()].filter((position) => position.netQty > 0 && position.costQuote > 0);
+    if (openPositions.length === 0) return state;
+
+    const balances = await this.getLiveBalances();
+    const universeSnapshot = await this.universe.getLatest().catch(() => null);
+    const { takeProfitPct, stopLossPct } = this.deriveManagedExitThresholds(risk);
+    const exitSettings = this.resolvePositionExitSettings(config);
+    const slippageBuffer = Math.max(1, config.advanced.liveTradeSlippageBuffer ?? 1.005);
+    const nowMs = this.clock.now();
+
+    for (const position of openPositions) {
+      const symbol = position.symbol;
+      const baseAsset = params.getBaseAsset(symbol);
+      if (!baseAsset) continue;
+      const existing = this.findProtectiveBracket(state, symbol);
+      const avgEntryPrice = position.costQuote / position.netQty;
+      const candidate =
+        (universeSnapshot?.candidates ?? []).find((entry) => entry.symbol.trim().toUpperCase() === symbol) ?? null;
+      const adjustedStopLossPct = this.getRegimeAdjustedStopLossPct({
+        risk,
+        baseStopLossPct: stopLossPct,
+        regime: this.buildRegimeSnapshot(candidate, risk)
+      });
+      const nowPrice = Number.parseFloat(await this.marketData.getTickerPrice(symbol));
+      if (!Number.isFinite(nowPrice) || nowPrice <= 0) continue;
+      // Same stop as the tick's exit loop, so trailing / break-even moves re-price the bracket.
+      const tracking = this.trackPositionPrice(state, position, nowPrice);
+      const exit = derivePositionExitDecision({
+        avgEntryPrice,
+        price: nowPrice,
+        highWaterPrice: tracking.highWaterPrice,
+        takeProfitPct,
+        stopLossPct: adjustedStopLossPct,
+        atrPct: candidate?.atrPct14,
+        breakEvenArmed: tracking.breakEvenArmed,
+        takeProfitStepsDone: tracking.takeProfitStepsDone,
+        settings: exitSettings
+      });
+      const stopPrice = exit.stopPrice;
+      const baseFree = balances.find((balance) => balance.asset.toUpperCase() === baseAsset.toUpperCase())?.free ?? 0;
+      const availableQty = Math.min(position.netQty, Math.max(0, baseFree) + (existing?.qty ?? 0));
+
+      if (existing) {
+        const updatedAtMs = Date.parse(existing.updatedAt);
+        if (Number.isFinite(updatedAtMs) && nowMs - updatedAtMs < PROTECTIVE_BRACKET_REPRICE_MIN_INTERVAL_MS) continue;
+        const stopMovedPct = (Math.abs(stopPrice - existing.stopPrice) / existing.stopPrice) * 100;
+        const positionGrew = availableQty > existing.qty * 1.01;
+        if (stopMovedPct <= PROTECTIVE_BRACKET_REPRICE_TOLERANCE_PCT && !positionGrew) continue;
+      }
+
+      // Already through a threshold: the tick's own exit logic sells this position now.
+      if (exit.rule) continue;
+
+      // With a trailing stop or a take-profit ladder there is no fixed take-profit, so the bracket is the stop alone.
+      const normalizedTakeProfit =
+        exit.takeProfitPrice === null ? null : await this.marketData.normalizeLimitPrice(symbol, exit.takeProfitPrice, "SELL");
+      const normalizedStop = await this.marketData.normalizeLimitPrice(symbol, stopPrice, "BUY");
+      const normalizedStopLimit = await this.marketData.normalizeLimitPrice(symbol, stopPrice / slippageBuffer, "BUY");
+      if (!normalizedStop.ok || !normalizedStopLimit.ok) continue;
+      // Validate at the lower (stop-limit) price: that is where minNotional bites first.
+      const qtyCheck = await this.marketData.validateLimitOrderQty(symbol, availableQty, normalizedStopLimit.normalizedPrice);
+      if (!qtyCheck.ok || !qtyCheck.normalizedQty) continue;
+
+      if (existing) {
+        state = await this.cancelProtectiveBracket(state, existing, "re-price");
+        if (this.findProtectiveBracket(state, symbol)) continue;
+      }
+      state = await this.placeProtectiveBracket({
+        config,
+        state,
+        symbol,
+        entryPrice: avgEntryPrice,
+        quantity: qtyCheck.normalizedQty,
+        takeProfitPrice: normalizedTakeProfit?.ok ? normalizedTakeProfit.normalizedPrice : null,
+        stopPrice: normalizedStop.normalizedPrice,
+        stopLimitPrice: normalizedStopLimit.normalizedPrice,
+        stopRule: exit.stopRule,
+        replaced: Boolean(existing)
+      });
+    }
+
+    return state;
+  }
+
+  private async placeProtectiveBracket(params: {
+    config: AppConfig;
+    state: BotState;
+    symbol: string;
+    entryPrice: number;
+    quantity: string;
+    takeProfitPrice: string | null;
+    stopPrice: string;
+    stopLimitPrice: string;
+    stopRule: PositionStopRule;
+    replaced: boolean;
+  }): Promise<BotState> {
+    const { config, symbol } = params;
+    const nowIso = new Date(this.clock.now()).toISOString();
+    const qty = Number.parseFloat(params.quantity);
+    const takeProfitClientOrderId = this.buildBotClientOrderId({ config, purpose: "TP", side: "SELL" });
+    const stopClientOrderId = this.buildBotClientOrderId({ config, purpose: "SL", side: "SELL" });
+    const leg = (id: string, clientOrderId: string, type: string, price: string): Order => ({
+      id,
+      ts: nowIso,
+      symbol,
+      clientOrderId,
+      side: "SELL",
+      type,
+      status: "NEW",
+      qty,
+      price: Number.parseFloat(price)
+    });
+
+    let bracket: ProtectiveBracket | null = null;
+    let legs: Order[] = [];
+    let ocoError: string | null = null;
+    if (params.takeProfitPrice) {
+      try {
+        const list = await this.trading.placeOcoSell({
+          symbol,
+          quantity: params.quantity,
+          takeProfitPrice: params.takeProfitPrice,
+          stopPrice: params.stopPrice,
+          stopLimitPrice: params.stopLimitPrice,
+          listClientOrderId: `${this.resolveBotOrderClientIdPrefix(config)}-OCO-${takeProfitClientOrderId.split("-").pop() ?? ""}`.slice(0, 36),
+          takeProfitClientOrderId,
+          stopClientOrderId
+        });
+        const takeProfitOrderId = list.orders.find((order) => order.clientOrderId === takeProfitClientOrderId)?.orderId;
+        const stopOrderId = list.orders.find((order) => order.clientOrderId === stopClientOrderId)?.orderId;
+        if (!list.orderListId || !takeProfitOrderId || !stopOrderId) {
+          throw new Error("OCO response is missing order ids");
+        }
+        bracket = {
+          symbol,
+          kind: "OCO",
+          orderListId: list.orderListId,
+          ...(list.listClientOrderId ? { listClientOrderId: list.listClientOrderId } : {}),
+          takeProfitOrderId,
+          stopOrderId,
+          qty,
+          entryPrice: params.entryPrice,
+          takeProfitPrice: Number.parseFloat(params.takeProfitPrice),
+          stopPrice: Number.parseFloat(params.stopPrice),
+          stopLimitPrice: Number.parseFloat(params.stopLimitPrice),
+          stopRule: params.stopRule,
+          createdAt: nowIso,
+          updatedAt: nowIso
+        };
+        legs = [
+          leg(takeProfitOrderId, takeProfitClientOrderId, "LIMIT_MAKER", params.takeProfitPrice),
+          leg(stopOrderId, stopClientOrderId, "STOP_LOSS_LIMIT", params.stopLimitPrice)
+        ];
+      } catch (err) {
+        ocoError = this.sanitizeUserErrorMessage(err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    if (!bracket) {
+      // Without a usable take-profit leg (filters, OCO rejected) the stop alone still protects the position.
+      try {
+        const stop = await this.trading.placeStopLossLimitOrder({
+          symbol,
+          side: "SELL",
+          quantity: params.quantity,
+          stopPrice: params.stopPrice,
+          price: params.stopLimitPrice,
+          clientOrderId: stopClientOrderId
+        });
+        if (!stop.orderId) throw new Error("STOP_LOSS_LIMIT response is missing the order id");
+        bracket = {
+          symbol,
+          kind: "STOP_LOSS_LIMIT",
+          stopOrderId: stop.orderId,
+          qty,
+          entryPrice: params.entryPrice,
+          stopPrice: Number.parseFloat(params.stopPrice),
+          stopLimitPrice: Number.parseFloat(params.stopLimitPrice),
+          stopRule: params.stopRule,
+          createdAt: nowIso,
+          updatedAt: nowIso
+        };
+        legs = [leg(stop.orderId, stopClientOrderId, "STOP_LOSS_LIMIT", params.stopLimitPrice)];
+      } catch (err) {
+        const error = this.sanitizeUserErrorMessage(err instanceof Error ? err.message : String(err));
+        return this.prependEngineDecision(params.state, `Exchange bracket for ${symbol} failed`, {
+          stage: "protective-bracket",
+          symbol,
+          error,
+          ...(ocoError ? { ocoError } : {})
+        });
+      }
+    }
+
+    const next: BotState = {
+      ...params.state,
+      activeOrders: [...legs, ...params.state.activeOrders].slice(0, 50),
+      protectiveBrackets: [...(params.state.protectiveBrackets ?? []).filter((entry) => entry.symbol !== symbol), bracket]
+    };
+    const takeProfitLabel = bracket.takeProfitPrice !== undefined ? `TP ${bracket.takeProfitPrice} / ` : "";
+    return this.prependEngineDecision(
+      next,
+      `${params.replaced ? "Re-priced" : "Placed"} exchange ${bracket.kind === "OCO" ? "OCO" : "stop-loss"} bracket for ${symbol}: ${takeProfitLabel}stop ${bracket.stopPrice} (qty ${params.quantity})`,
+      {
+        stage: "protective-bracket",
+        symbol,
+        kind: bracket.kind,
+        qty,
+        entryPrice: Number(params.entryPrice.toFixed(8)),
+        takeProfitPrice: bracket.takeProfitPrice ?? null,
+        stopPrice: bracket.stopPrice,
+        stopLimitPrice: bracket.stopLimitPrice,
+        stopRule: bracket.stopRule,
+        ...(ocoError ? { ocoError } : {})
+      }
+    );
+  }
+
+  /** Cancels a bracket on the exchange; on failure the bracket stays and the next sync sorts out what happened. */
+  private async cancelProtectiveBracket(state: BotState, bracket: ProtectiveBracket, reason: string): Promise<BotState> {
+    try {
+      if (bracket.kind === "OCO" && bracket.orderListId) {
+        await this.trading.cancelOrderList(bracket.symbol, bracket.orderListId);
+      } else {
+        await this.trading.cancelOrder(bracket.symbol, bracket.stopOrderId);
+      }
+    } catch {
+      return state;
+    }
+
+    const legIds = new Set([bracket.stopOrderId, bracket.takeProfitOrderId ?? ""]);
+    const canceledLegs = state.activeOrders
+      .filter((order) => legIds.has(order.id))
+      .map((order) => ({ ...order, status: "CANCELED" as const }));
+    const next: BotState = {
+      ...state,
+      activeOrders: state.activeOrders.filter((order) => !legIds.has(order.id)),
+      orderHistory: this.dedupeOrderHistory([...canceledLegs, ...state.orderHistory]).slice(0, 200),
+      protectiveBrackets: (state.protectiveBrackets ?? []).filter((entry) => entry !== bracket)
+    };
+    if (reason === "re-price") return next;
+    return this.prependEngineDecision(next, `Canceled exchange bracket for ${bracket.symbol}: ${reason}`, {
+      stage: "protective-bracket",
+      symbol: bracket.symbol,
+      kind: bracket.kind,
+      reason
+    });
+  }
+
+  /**
+   * Drops brackets none of whose legs are still open. A FILLED leg in `orderHistory` means the exchange closed
+   * the position for us; that is recorded as the exit trade.
+   */
+  private retireFinishedProtectiveBrackets(state: BotState): BotState {
+    let next = state;
+    for (const bracket of state.protectiveBrackets ?? []) {
+      const legIds = new Set([bracket.stopOrderId, bracket.takeProfitOrderId ?? ""]);
+      if (next.activeOrders.some((order) => legIds.has(order.id) && order.status === "NEW")) continue;
+
+      next = { ...next, protectiveBrackets: (next.protectiveBrackets ?? []).filter((entry) => entry !== bracket) };
+      const filledLeg = next.orderHistory.find((order) => legIds.has(order.id) && order.status === "FILLED");
+      if (!filledLeg) continue;
+
+      const isTakeProfit = filledLeg.id === bracket.takeProfitOrderId;
+      const exitRule: PositionExitRule = isTakeProfit ? "TAKE_PROFIT" : bracket.stopRule;
+      const { reason, reasonCode } = POSITION_EXIT_REASONS[exitRule];
+      const fillPrice = filledLeg.price ?? (isTakeProfit ? bracket.takeProfitPrice : bracket.stopLimitPrice) ?? Number.NaN;
+      const pnlPct = Number.isFinite(fillPrice) ? ((fillPrice - bracket.entryPrice) / bracket.entryPrice) * 100 : null;
+      next = {
+        ...next,
+        decisions: [
+          {
+            id: crypto.randomUUID(),
+            ts: new Date(this.clock.now()).toISOString(),
+            kind: "TRADE",
+            summary: `SELL ${filledLeg.qty} ${bracket.symbol} (exchange ${isTakeProfit ? "take-profit" : "stop-loss"} filled)`,
+            reasonCode,
+            details: {
+              symbol: bracket.symbol,
+              mode: "protective-bracket",
+              reason,
+              exitRule,
+              bracketKind: bracket.kind,
+              orderId: filledLeg.id,
+              avgEntryPrice: Number(bracket.entryPrice.toFixed(8)),
+              ...(Number.isFinite(fillPrice) ? { fillPrice } : {}),
+              ...(pnlPct !== null ? { pnlPct: Number(pnlPct.toFixed(4)) } : {})
+            }
+          },
+          ...next.decisions
+        ].slice(0, 200)
+      };
+    }
+    return next;
+  }
+
   private async syncLiveOrders(
     state: BotState,
     opts?: {
       symbolsHint?: string[];
     }
+  ): Promise<BotState> {
+    const streamed = this.userDataStream?.drainOrderUpdates() ?? [];
+    const withStreamed = streamed.length > 0 ? this.applyStreamedOrderUpdates(state, streamed) : state;
+    const nowMs = this.clock.now();
+    if (this.canSkipOrderPolling(nowMs)) return withStreamed;
+
+    const polled = await this.pollLiveOrders(withStreamed, opts);
+    this.lastOrderPollAtMs = nowMs;
+    return polled;
+  }
+
+  private async pollLiveOrders(
+    state: BotState,
+    opts?: {
+      symbolsHint?: string[];
+    }
   ): Promise<BotState> {
     const activeSymbols = Array.from(
       new Set(
@@ -4307,7 +5359,7 @@ export class BotEngineService implements OnModuleInit {
     let trackedSymbols = activeSymbols;
     const discoveryMode = trackedSymbols.length === 0 && hintSymbols.length > 0;
     const supplementalDiscoveryMode =
-      trackedSymbols.length > 0 && hintSymbols.length > 0 && this.shouldRunSupplementalOrderDiscovery(Date.now());
+      trackedSymbols.length > 0 && hintSymbols.length > 0 && this.shouldRunSupplementalOrderDiscovery(this.clock.now());
     if (discoveryMode) {
       // After a state reset we can have real open orders on the exchange but none in `state.activeOrders`.
       // Discover them quickly by scanning a small batch of hint symbols per tick (symbol-scoped; no global fetch).
@@ -4381,7 +5433,7 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "ENGINE",
                       summary,
                       details: {
@@ -4449,6 +5501,82 @@ export class BotEngineService implements OnModuleInit {
     };
   }
 
+  private async placePaperTakeProfit(params: { order: Order; risk: number }): Promise<Order | null> {
+    const { order } = params;
+    if (!this.paperExchange || order.status !== "FILLED" || order.side !== "BUY") return null;
+    const entryPrice = order.price ?? Number.NaN;
+    if (!Number.isFinite(entryPrice) || entryPrice <= 0) return null;
+
+    // Same take-profit band as the live managed-position exit.
+    const { takeProfitPct } = this.deriveManagedExitThresholds(params.risk);
+    try {
+      const price = await this.marketData.normalizeLimitPrice(order.symbol, entryPrice * (1 + takeProfitPct / 100), "SELL");
+      if (!price.ok) return null;
+      const qty = await this.marketData.validateLimitOrderQty(order.symbol, order.qty, price.normalizedPrice);
+      const normalizedQty = qty.ok && qty.normalizedQty ? Number.parseFloat(qty.normalizedQty) : Number.NaN;
+      if (!Number.isFinite(normalizedQty) || normalizedQty <= 0 || normalizedQty > order.qty) return null;
+
+      const result = await this.paperExchange.placeOrder({
+        symbol: order.symbol,
+        side: "SELL",
+        type: "LIMIT",
+        qty: normalizedQty,
+        price: Number.parseFloat(price.normalizedPrice)
+      });
+      return result.order;
+    } catch {
+      return null;
+    }
+  }
+
+  private async evaluateAiDecision(params: {
+    current: BotState;
+    candidateSymbol: string;
+    selectedCandidate: UniverseCandidate | null;
+    homeStable: string;
+    risk: number;
+    aiMin: number;
+  }): Promise<AiDecisionResult> {
+    if (!this.aiDecisions) {
+      return {
+        source: "UNAVAILABLE",
+        verdict: "ABSTAIN",
+        confidence: 0,
+        rationale: "AI unavailable: decision provider not registered",
+        model: "n/a",
+        cached: false,
+        latencyMs: 0,
+        error: "Decision provider not registered"
+      };
+    }
+
+    const regime = this.buildRegimeSnapshot(params.selectedCandidate, params.risk);
+    return await this.aiDecisions.evaluate({
+      symbol: params.candidateSymbol,
+      candidate: params.selectedCandidate,
+      regime: { label: regime.label, confidence: regime.confidence },
+      riskState: params.current.riskState,
+      recentDecisions: params.current.decisions.slice(0, 12).map((d) => ({ ts: d.ts, kind: d.kind, summary: d.summary })),
+      homeStableCoin: params.homeStable,
+      risk: params.risk,
+      minConfidence: params.aiMin
+    });
+  }
+
+  private toAiDecisionDetails(decision: AiDecisionResult, minConfidence: number): Record<string, unknown> {
+    return {
+      source: decision.source,
+      verdict: decision.verdict,
+      confidence: decision.confidence,
+      minConfidence,
+      rationale: decision.rationale,
+      model: decision.model,
+      cached: decision.cached,
+      latencyMs: decision.latencyMs,
+      ...(decision.error ? { error: decision.error.slice(0, 200) } : {})
+    };
+  }
+
   private buildRegimeSnapshot(candidate: UniverseCandidate | null, risk = 50): AdaptiveRegimeSnapshot {
     const inputs = {
       priceChangePct24h: candidate?.priceChangePct24h,
@@ -4544,7 +5672,7 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private resolveExecutionLane(params: {
-    tradeMode: "SPOT" | "SPOT_GRID";
+    tradeMode: AppConfig["basic"]["tradeMode"];
     gridEnabled: boolean;
     risk: number;
     riskState: "NORMAL" | "CAUTION" | "HALT";
@@ -4832,17 +5960,16 @@ export class BotEngineService implements OnModuleInit {
   }
 
   private buildBaselineStats(state: BotState): BaselineRunStats {
-    const nowIso = new Date().toISOString();
-    const decisionList = [...state.decisions];
-    const decisionChronological = [...decisionList].sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+    const nowIso = new Date(this.clock.now()).toISOString();
+    const ledger = this.getLedger(state);
+    const decisionTotals = ledger.getDecisionTotals();
+    const fillTotals = ledger.getFillTotals();
     const startedAt =
       state.startedAt && Number.isFinite(Date.parse(state.startedAt))
         ? state.startedAt
-        : decisionChronological[0]?.ts ?? state.updatedAt;
-    const runtimeSeconds = Math.max(0, Math.round((Date.now() - Date.parse(startedAt)) / 1000));
+        : decisionTotals.earliestTs ?? state.updatedAt;
+    const runtimeSeconds = Math.max(0, Math.round((this.clock.now() - Date.parse(startedAt)) / 1000));
 
-    const byDecisionKind: Record<string, number> = {};
-    const skipSummaryCounts = new Map<string, number>();
     const runtimeConfig = this.configService.load();
     const runtimeHomeStable = (runtimeConfig?.basic.homeStableCoin ?? "USDC").trim().toUpperCase();
     const runtimeTraderRegion = runtimeConfig?.basic.traderRegion === "EEA" ? "EEA" : "NON_EEA";
@@ -4903,163 +6030,55 @@ export class BotEngineService implements OnModuleInit {
       quoteFamilyStats.set(normalized, next);
       return next;
     };
-    const extractSymbolFromSummary = (summary: string): string | null => {
-      const raw = summary.trim();
-      if (raw.length === 0) return null;
-      if (raw.startsWith("Skip ")) {
-        const rest = raw.slice(5);
-        const colonIndex = rest.indexOf(":");
-        const candidate = (colonIndex >= 0 ? rest.slice(0, colonIndex) : rest).trim().toUpperCase();
-        return candidate.length >= 6 ? candidate : null;
-      }
-      const tradeMatch = raw.match(/\b([A-Z0-9]{6,20})\b/);
-      return tradeMatch ? tradeMatch[1].trim().toUpperCase() : null;
-    };
-    const collectDecisionSymbol = (decision: Decision): string | null => {
-      const details = this.getDecisionDetails(decision);
-      const symbolFromDetails = typeof details?.symbol === "string" ? details.symbol.trim().toUpperCase() : "";
-      if (symbolFromDetails.length >= 6) return symbolFromDetails;
-      return extractSymbolFromSummary(decision.summary);
-    };
-    let trades = 0;
-    let skips = 0;
-    let conversions = 0;
-    let entryTrades = 0;
+    for (const [symbol, activity] of decisionTotals.bySymbol) {
+      const quoteAsset = this.getSymbolQuoteAssetByPriority(symbol, quoteCandidates);
+      if (!quoteAsset) continue;
+      const bucket = ensureQuoteStats(quoteAsset);
+      bucket.trades += activity.trades;
+      bucket.skips += activity.skips;
+    }
+
+    const trades = decisionTotals.byKind.TRADE ?? 0;
+    const skips = decisionTotals.byKind.SKIP ?? 0;
+    const conversions = decisionTotals.tradesByReasonCode.get("CONVERSION") ?? 0;
+    const entryTrades = decisionTotals.tradesByReasonCode.get("ENTRY") ?? 0;
+    const stalePositionExits = decisionTotals.tradesByReasonCode.get("STALE_POSITION_EXIT") ?? 0;
     let sizingRejectSkips = 0;
     let feeEdgeSkips = 0;
     let minOrderSkips = 0;
     let inventoryWaitingSkips = 0;
-
-    for (const decision of decisionList) {
-      byDecisionKind[decision.kind] = (byDecisionKind[decision.kind] ?? 0) + 1;
-      if (decision.kind === "TRADE") {
-        trades += 1;
-        const symbol = collectDecisionSymbol(decision);
-        if (symbol) {
-          const quoteAsset = this.getSymbolQuoteAssetByPriority(symbol, quoteCandidates);
-          if (quoteAsset) {
-            ensureQuoteStats(quoteAsset).trades += 1;
-          }
-        }
-        if (this.isConversionTradeDecision(decision)) {
-          conversions += 1;
-        }
-        if (this.isEntryTradeDecision(decision)) {
-          entryTrades += 1;
-        }
-      }
-      if (decision.kind === "SKIP") {
-        skips += 1;
-        if (this.isSizingRejectSkipDecision(decision)) {
-          sizingRejectSkips += 1;
-        }
-        const cluster = this.classifySkipReasonCluster(decision.summary);
-        if (cluster === "FEE_EDGE") feeEdgeSkips += 1;
-        if (cluster === "MIN_ORDER") minOrderSkips += 1;
-        if (cluster === "INVENTORY_WAITING") inventoryWaitingSkips += 1;
-        const symbol = collectDecisionSymbol(decision);
-        if (symbol) {
-          const quoteAsset = this.getSymbolQuoteAssetByPriority(symbol, quoteCandidates);
-          if (quoteAsset) {
-            ensureQuoteStats(quoteAsset).skips += 1;
-          }
-        }
-        skipSummaryCounts.set(decision.summary, (skipSummaryCounts.get(decision.summary) ?? 0) + 1);
-      }
-    }
-
-    const topSkipSummaries = [...skipSummaryCounts.entries()]
-      .sort((a, b) => b[1] - a[1])
+    for (const [reasonCode, { count }] of decisionTotals.skipsByReasonCode) {
+      if (SIZING_REJECT_SKIP_CODES.has(reasonCode)) sizingRejectSkips += count;
+      const cluster = this.classifySkipReasonCluster(reasonCode);
+      if (cluster === "FEE_EDGE") feeEdgeSkips += count;
+      if (cluster === "MIN_ORDER") minOrderSkips += count;
+      if (cluster === "INVENTORY_WAITING") inventoryWaitingSkips += count;
+    }
+
+    // Most recently seen first, so ties keep the code with the latest example on top.
+    const topSkipSummaries = [...decisionTotals.skipsByReasonCode.entries()]
+      .reverse()
+      .sort((a, b) => b[1].count - a[1].count)
       .slice(0, 20)
-      .map(([summary, count]) => ({ summary, count }));
-
-    const filledOrders = [...state.orderHistory]
-      .filter((o) => o.status === "FILLED")
-      .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
-
-    const symbolMap = new Map<string, BaselineSymbolStats>();
-    let buys = 0;
-    let sells = 0;
-    let buyNotional = 0;
-    let sellNotional = 0;
-    let feesHome = 0;
-
-    for (const order of filledOrders) {
-      const symbol = order.symbol.trim().toUpperCase();
-      const qty = Number.isFinite(order.qty) ? Math.max(0, order.qty) : 0;
-      const price = Number.isFinite(order.price) ? Math.max(0, order.price ?? 0) : 0;
-      const notional = qty > 0 && price > 0 ? qty * price : 0;
-      const orderFeeHome = Number.isFinite(order.feeHome) ? Math.max(0, order.feeHome ?? 0) : 0;
-      if (qty <= 0) continue;
-      const quoteAsset = this.getSymbolQuoteAssetByPriority(symbol, quoteCandidates);
-      if (quoteAsset) {
-        const bucket = ensureQuoteStats(quoteAsset);
-        bucket.filledOrders += 1;
-        if (order.side === "BUY") {
-          bucket.buys += 1;
-        } else {
-          bucket.sells += 1;
-        }
-      }
+      .map(([reasonCode, { summary, count }]) => ({ reasonCode, summary, count }));
 
-      const next = symbolMap.get(symbol) ?? {
-        symbol,
-        buys: 0,
-        sells: 0,
-        buyNotional: 0,
-        sellNotional: 0,
-        netQty: 0,
-        avgEntry: 0,
-        openCost: 0,
-        realizedPnl: 0,
-        feesHome: 0,
-        lastTradeTs: undefined
-      };
-
-      if (order.side === "BUY") {
-        buys += 1;
-        next.buys += 1;
-        if (notional > 0) {
-          buyNotional += notional;
-          next.buyNotional += notional;
-          next.openCost += notional;
-        }
-        if (orderFeeHome > 0) {
-          next.openCost += orderFeeHome;
-        }
-        next.netQty += qty;
-      } else {
-        sells += 1;
-        next.sells += 1;
-        if (notional > 0) {
-          sellNotional += notional;
-          next.sellNotional += notional;
-        }
-        const closeQty = Math.min(qty, next.netQty);
-        const avgCost = next.netQty > 0 ? next.openCost / next.netQty : 0;
-        if (closeQty > 0 && avgCost > 0 && price > 0) {
-          next.realizedPnl += (price - avgCost) * closeQty;
-          next.openCost = Math.max(0, next.openCost - avgCost * closeQty);
-          next.netQty = Math.max(0, next.netQty - closeQty);
-        }
-      }
-      if (orderFeeHome > 0) {
-        feesHome += orderFeeHome;
-        next.feesHome += orderFeeHome;
-      }
-
-      next.avgEntry = next.netQty > 0 ? next.openCost / next.netQty : 0;
-      next.lastTradeTs = order.ts;
-      symbolMap.set(symbol, next);
+    const symbolTotals = ledger.getSymbolTotals();
+    for (const totals of symbolTotals) {
+      const quoteAsset = this.getSymbolQuoteAssetByPriority(totals.symbol, quoteCandidates);
+      if (!quoteAsset) continue;
+      const bucket = ensureQuoteStats(quoteAsset);
+      bucket.filledOrders += totals.buys + totals.sells;
+      bucket.buys += totals.buys;
+      bucket.sells += totals.sells;
     }
 
-    const symbols = [...symbolMap.values()]
+    const symbols: BaselineSymbolStats[] = symbolTotals
       .map((s) => ({
         ...s,
         buyNotional: this.toRounded(s.buyNotional, 8),
         sellNotional: this.toRounded(s.sellNotional, 8),
         netQty: this.toRounded(s.netQty, 8),
-        avgEntry: this.toRounded(s.avgEntry, 8),
+        avgEntry: this.toRounded(s.netQty > 0 ? s.openCost / s.netQty : 0, 8),
         openCost: this.toRounded(s.openCost, 8),
         realizedPnl: this.toRounded(s.realizedPnl, 8),
         feesHome: this.toRounded(s.feesHome, 8)
@@ -5068,7 +6087,7 @@ export class BotEngineService implements OnModuleInit {
       .slice(0, 40);
 
     const realizedPnl = this.toRounded(symbols.reduce((sum, s) => sum + s.realizedPnl, 0), 8);
-    const totalFeesHome = this.toRounded(feesHome, 8);
+    const totalFeesHome = this.toRounded(fillTotals.feesHome, 8);
     const openExposureCost = this.toRounded(symbols.reduce((sum, s) => sum + (s.netQty > 0 ? s.openCost : 0), 0), 8);
     const openPositions = symbols.filter((s) => s.netQty > 0).length;
     const quoteFamilies = [...quoteFamilyStats.values()]
@@ -5090,15 +6109,16 @@ export class BotEngineService implements OnModuleInit {
         ...(state.lastError ? { lastError: state.lastError } : {})
       },
       totals: {
-        decisions: decisionList.length,
+        decisions: decisionTotals.decisions,
         trades,
         skips,
-        filledOrders: filledOrders.length,
+        filledOrders: fillTotals.filledOrders,
         activeOrders: state.activeOrders.length,
-        buys,
-        sells,
+        buys: fillTotals.buys,
+        sells: fillTotals.sells,
         conversions,
         entryTrades,
+        stalePositionExits,
         sizingRejectSkips,
         feeEdgeSkips,
         minOrderSkips,
@@ -5109,14 +6129,14 @@ export class BotEngineService implements OnModuleInit {
         feeEdgeSkipPct: this.toRounded(skips > 0 ? (feeEdgeSkips / skips) * 100 : 0, 4),
         minOrderSkipPct: this.toRounded(skips > 0 ? (minOrderSkips / skips) * 100 : 0, 4),
         inventoryWaitingSkipPct: this.toRounded(skips > 0 ? (inventoryWaitingSkips / skips) * 100 : 0, 4),
-        buyNotional: this.toRounded(buyNotional, 8),
-        sellNotional: this.toRounded(sellNotional, 8),
+        buyNotional: this.toRounded(fillTotals.buyNotional, 8),
+        sellNotional: this.toRounded(fillTotals.sellNotional, 8),
         realizedPnl,
         feesHome: totalFeesHome,
         openExposureCost,
         openPositions
       },
-      byDecisionKind,
+      byDecisionKind: { ...decisionTotals.byKind },
       topSkipSummaries,
       quoteFamilies,
       symbols
@@ -5165,7 +6185,7 @@ export class BotEngineService implements OnModuleInit {
 
     const regime = this.buildRegimeSnapshot(tickContext.candidate, tickContext.risk);
     const strategy = this.buildAdaptiveStrategyScores(tickContext.candidate, regime.label);
-    const tickDurationMs = Math.max(0, Date.now() - tickStartedAtMs);
+    const tickDurationMs = Math.max(0, this.clock.now() - tickStartedAtMs);
 
     for (const decision of newDecisions) {
       const details =
@@ -5176,7 +6196,7 @@ export class BotEngineService implements OnModuleInit {
 
       const event: AdaptiveShadowEvent = {
         version: 1,
-        ts: new Date().toISOString(),
+        ts: new Date(this.clock.now()).toISOString(),
         tickStartedAt: tickContext.tickStartedAtIso,
         tickDurationMs,
         environment: tickContext.liveTrading ? "LIVE" : "PAPER",
@@ -5249,8 +6269,8 @@ export class BotEngineService implements OnModuleInit {
 
           parsed.push({
             version: 1,
-            ts: typeof event.ts === "string" && event.ts.trim() ? event.ts : new Date().toISOString(),
-            tickStartedAt: typeof event.tickStartedAt === "string" && event.tickStartedAt.trim() ? event.tickStartedAt : new Date().toISOString(),
+            ts: typeof event.ts === "string" && event.ts.trim() ? event.ts : new Date(this.clock.now()).toISOString(),
+            tickStartedAt: typeof event.tickStartedAt === "string" && event.tickStartedAt.trim() ? event.tickStartedAt : new Date(this.clock.now()).toISOString(),
             tickDurationMs: typeof event.tickDurationMs === "number" && Number.isFinite(event.tickDurationMs) ? event.tickDurationMs : 0,
             environment: event.environment === "LIVE" ? "LIVE" : "PAPER",
             homeStableCoin:
@@ -5379,7 +6399,7 @@ export class BotEngineService implements OnModuleInit {
     }
 
     return {
-      generatedAt: new Date().toISOString(),
+      generatedAt: new Date(this.clock.now()).toISOString(),
       kpi,
       adaptiveShadowTail: this.readAdaptiveShadowTail(200),
       walletPolicy: this.extractWalletPolicySnapshot(state),
@@ -5406,17 +6426,25 @@ export class BotEngineService implements OnModuleInit {
       running: true,
       phase: "EXAMINING",
       lastError: undefined,
-      startedAt: new Date().toISOString()
+      startedAt: new Date(this.clock.now()).toISOString()
     });
 
     this.scheduleExamineTransition();
     this.ensureLoopTimer();
   }
 
+  /** Runs a single engine iteration outside the loop timer (used by the backtest runner). */
+  async tickOnce(): Promise<void> {
+    await this.tick();
+  }
+
   private async tick(): Promise<void> {
-    if (this.tickInFlight) return;
+    if (this.tickInFlight) {
+      this.notifyTick({ outcome: "OVERLAP" });
+      return;
+    }
     this.tickInFlight = true;
-    const tickStartedAtMs = Date.now();
+    const tickStartedAtMs = this.clock.now();
     let beforeDecisionIds = new Set<string>();
     let tickContext: TickTelemetryContext | null = null;
     try {
@@ -5481,7 +6509,26 @@ export class BotEngineService implements OnModuleInit {
         if (!alreadyLogged) {
           current = {
             ...current,
-            decisions: [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "ENGINE", summary }, ...current.decisions].slice(0, 200)
+            decisions: [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "ENGINE", summary }, ...current.decisions].slice(0, 200)
+          };
+        }
+      }
+
+      if (liveTrading) {
+        this.userDataStream?.ensureStarted();
+      } else {
+        void this.userDataStream?.stop();
+      }
+
+      if (liveTrading) {
+        const driftSummary = this.checkClockDrift();
+        if (driftSummary) {
+          current = {
+            ...current,
+            decisions: [
+              { id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "ENGINE", summary: driftSummary },
+              ...current.decisions
+            ].slice(0, 200)
           };
         }
       }
@@ -5489,6 +6536,7 @@ export class BotEngineService implements OnModuleInit {
       if (liveTrading) {
         const syncBackoff = this.getTransientBackoffInfo();
         if (syncBackoff.active) {
+          const reasonCode: DecisionReasonCode = "EXCHANGE_BACKOFF";
           const summary = "Skip: Transient exchange backoff active";
           const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
           const next = {
@@ -5498,9 +6546,10 @@ export class BotEngineService implements OnModuleInit {
               : [
                   {
                     id: crypto.randomUUID(),
-                    ts: new Date().toISOString(),
+                    ts: new Date(this.clock.now()).toISOString(),
                     kind: "SKIP",
                     summary,
+                    reasonCode,
                     details: {
                       stage: "order-sync",
                       remainingMs: syncBackoff.remainingMs,
@@ -5552,6 +6601,7 @@ export class BotEngineService implements OnModuleInit {
           const rawMsg = syncErr instanceof Error ? syncErr.message : String(syncErr);
           const safeMsg = this.sanitizeUserErrorMessage(rawMsg);
           const backoffDetails = this.registerTransientExchangeError(rawMsg, safeMsg);
+          const reasonCode: DecisionReasonCode = "ORDER_SYNC_FAILED";
           const summary = "Skip: Live order sync failed";
           const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
           const next = {
@@ -5561,9 +6611,10 @@ export class BotEngineService implements OnModuleInit {
               : [
                   {
                     id: crypto.randomUUID(),
-                    ts: new Date().toISOString(),
+                    ts: new Date(this.clock.now()).toISOString(),
                     kind: "SKIP",
                     summary,
+                    reasonCode,
                     details: {
                       stage: "order-sync",
                       error: safeMsg,
@@ -5580,6 +6631,61 @@ export class BotEngineService implements OnModuleInit {
           this.save(next);
           return;
         }
+
+        const reconciledGridPlans = this.reconcileGridPlans(current);
+        if (reconciledGridPlans !== current) {
+          current = reconciledGridPlans;
+          this.save(current);
+        }
+
+        if (config && (config.advanced.liveExchangeBracketsEnabled || (current.protectiveBrackets ?? []).length > 0)) {
+          try {
+            const reconciled = await this.withTimeout(
+              this.reconcileProtectiveBrackets({ config, state: current, risk, getBaseAsset: getExecutionBaseFromSymbol }),
+              15_000,
+              "Protective bracket sync"
+            );
+            if (reconciled !== current) {
+              current = reconciled;
+              this.save(current);
+            }
+          } catch (bracketErr) {
+            const safeMsg = this.sanitizeUserErrorMessage(bracketErr instanceof Error ? bracketErr.message : String(bracketErr));
+            const next = this.prependEngineDecision(current, "Protective bracket sync failed", {
+              stage: "protective-bracket",
+              error: safeMsg
+            });
+            if (next !== current) {
+              current = next;
+              this.save(current);
+            }
+          }
+        }
+
+        if (
+          config &&
+          this.trading.supportsFutures() &&
+          (config.derived.allowFutures || (current.futuresShorts ?? []).some((short) => short.status === "OPEN"))
+        ) {
+          try {
+            // Not raced against a timer: a reduce-only exit that fills after a timeout would go unrecorded.
+            const reconciled = await this.reconcileFuturesShorts({ config, state: current, risk });
+            if (reconciled !== current) {
+              current = reconciled;
+              this.save(current);
+            }
+          } catch (futuresErr) {
+            const safeMsg = this.sanitizeUserErrorMessage(futuresErr instanceof Error ? futuresErr.message : String(futuresErr));
+            const next = this.prependEngineDecision(current, "Futures short sync failed", {
+              stage: "futures-short",
+              error: safeMsg
+            });
+            if (next !== current) {
+              current = next;
+              this.save(current);
+            }
+          }
+        }
       }
 
       const globalLock = this.getActiveGlobalProtectionLock(current);
@@ -5629,6 +6735,7 @@ export class BotEngineService implements OnModuleInit {
           this.save(current);
         }
 
+        const reasonCode: DecisionReasonCode = "PROTECTION_LOCK";
         const summary = `Skip: Protection lock ${globalLock.type} (GLOBAL)`;
         const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
         const next = {
@@ -5638,9 +6745,10 @@ export class BotEngineService implements OnModuleInit {
             : [
                 {
                   id: crypto.randomUUID(),
-                  ts: new Date().toISOString(),
+                  ts: new Date(this.clock.now()).toISOString(),
                   kind: "SKIP",
                   summary,
+                  reasonCode,
                   details: {
                     stage: "protection-lock",
                     lock: globalLock
@@ -5654,20 +6762,24 @@ export class BotEngineService implements OnModuleInit {
         return;
       }
 
-      const maybeFillOne = (state: BotState): { activeOrders: Order[]; orderHistory: Order[] } => {
-        if (state.activeOrders.length === 0) {
+      const matchPaperOrders = async (state: BotState): Promise<{ activeOrders: Order[]; orderHistory: Order[] }> => {
+        if (!this.paperExchange || state.activeOrders.length === 0) {
           return { activeOrders: state.activeOrders, orderHistory: state.orderHistory };
         }
-        if (Math.random() > 0.4) {
+
+        const matched = await this.paperExchange.matchOpenOrders(state.activeOrders);
+        if (matched.filledOrders.length === 0) {
           return { activeOrders: state.activeOrders, orderHistory: state.orderHistory };
         }
-
-        const [toFill, ...rest] = state.activeOrders;
-        const filled: Order = { ...toFill, status: "FILLED" };
-        return { activeOrders: rest, orderHistory: [filled, ...state.orderHistory].slice(0, 200) };
+        return {
+          activeOrders: matched.activeOrders,
+          orderHistory: [...matched.filledOrders, ...state.orderHistory].slice(0, 200)
+        };
       };
 
-      const filled = liveTrading ? { activeOrders: current.activeOrders, orderHistory: current.orderHistory } : maybeFillOne(current);
+      const filled = liveTrading
+        ? { activeOrders: current.activeOrders, orderHistory: current.orderHistory }
+        : await matchPaperOrders(current);
       const candidateSelection = await (async (): Promise<{
         symbol: string | null;
         candidate: UniverseCandidate | null;
@@ -5757,7 +6869,7 @@ export class BotEngineService implements OnModuleInit {
                 if (order.symbol !== symbol) return false;
                 if (order.status !== "NEW") return false;
                 const type = order.type.trim().toUpperCase();
-                return type === "LIMIT" || type === "LIMIT_MAKER";
+                return (type === "LIMIT" || type === "LIMIT_MAKER") && !this.isProtectiveBracketOrder(order, botPrefix);
               });
               const externalOpenLimits = symbolOpenLimitOrdersAll.filter((order) => !this.isBotOwnedOrder(order, botPrefix));
               if (externalOpenLimits.length > 0 && !manageExternalOpenOrders) {
@@ -5834,13 +6946,13 @@ export class BotEngineService implements OnModuleInit {
               const recentGridBuySizingRejects = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "grid buy sizing rejected",
+                reasonCodes: ["GRID_BUY_SIZING_FLOOR", "GRID_BUY_SIZING_REJECTED"],
                 windowMs: 15 * 60_000
               });
               const recentGridBuyQuoteInsufficient = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "insufficient spendable",
+                reasonCodes: ["GRID_BUY_QUOTE_INSUFFICIENT"],
                 windowMs: 15 * 60_000
               });
               const recentQuoteAssetBuyQuoteInsufficient = this.countRecentQuoteAssetGridBuyQuoteSkips({
@@ -5851,25 +6963,25 @@ export class BotEngineService implements OnModuleInit {
               const recentGridSellSizingRejects = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "grid sell sizing rejected",
+                reasonCodes: ["GRID_SELL_SIZING_FLOOR", "GRID_SELL_SIZING_REJECTED"],
                 windowMs: 15 * 60_000
               });
               const recentEntryGuardSkips = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "entry cooldown active",
+                reasonCodes: ["ENTRY_COOLDOWN"],
                 windowMs: 20 * 60_000
               });
               const recentInventoryWaitingSkips = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "grid waiting for ladder slot or inventory",
+                reasonCodes: ["GRID_WAITING"],
                 windowMs: 20 * 60_000
               });
               const recentFeeEdgeRejects = this.countRecentSymbolSkipMatches({
                 state: current,
                 symbol,
-                contains: "fee/edge filter",
+                reasonCodes: ["FEE_EDGE"],
                 windowMs: 15 * 60_000
               });
               const sizingRejectThreshold = Math.max(2, Math.round(4 - boundedRisk / 50)); // risk 0 -> 4, risk 100 -> 2
@@ -6048,7 +7160,7 @@ export class BotEngineService implements OnModuleInit {
               decisions: [
                 {
                   id: crypto.randomUUID(),
-                  ts: new Date().toISOString(),
+                  ts: new Date(this.clock.now()).toISOString(),
                   kind: "ENGINE",
                   summary,
                   details: {
@@ -6064,6 +7176,7 @@ export class BotEngineService implements OnModuleInit {
         }
       }
       if (!candidateSymbol) {
+        const reasonCode: DecisionReasonCode = "NO_CANDIDATE";
         const summary = `Skip: ${candidateSelection.reason ?? "No eligible trading candidate"}`;
         const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
         const next = {
@@ -6072,7 +7185,7 @@ export class BotEngineService implements OnModuleInit {
           orderHistory: filled.orderHistory,
           decisions: alreadyLogged
             ? current.decisions
-            : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+            : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode }, ...current.decisions].slice(0, 200)
         } satisfies BotState;
         this.save(next);
         return;
@@ -6106,6 +7219,7 @@ export class BotEngineService implements OnModuleInit {
             })
           : this.isSymbolBlocked(candidateSymbol, current);
       if (blockedReason) {
+        const reasonCode: DecisionReasonCode = this.getSymbolBlock(candidateSymbol, current)?.reasonCode ?? "PROTECTION_LOCK";
         const summary = `Skip ${candidateSymbol}: ${blockedReason}`;
         const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
         const next = {
@@ -6114,7 +7228,7 @@ export class BotEngineService implements OnModuleInit {
           orderHistory: filled.orderHistory,
           decisions: alreadyLogged
             ? current.decisions
-            : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+            : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
         } satisfies BotState;
         this.save(next);
         return;
@@ -6122,8 +7236,9 @@ export class BotEngineService implements OnModuleInit {
 
       const entryGuard = this.getEntryGuard({ symbol: candidateSymbol, state: current });
       if (entryGuard) {
+        const reasonCode: DecisionReasonCode = entryGuard.reasonCode;
         const summary = `Skip ${candidateSymbol}: ${entryGuard.summary}`;
-        const isMaxConsecutiveEntryGuard = entryGuard.summary.trim().toLowerCase().includes("max consecutive entries reached");
+        const isMaxConsecutiveEntryGuard = reasonCode === "MAX_CONSECUTIVE_ENTRIES";
         const baseCooldownMs = isMaxConsecutiveEntryGuard
           ? Math.max(this.deriveNoActionSymbolCooldownMs(risk), Math.round((45 - (risk / 100) * 30) * 60_000)) // 45m -> 15m
           : this.deriveNoActionSymbolCooldownMs(risk);
@@ -6132,7 +7247,8 @@ export class BotEngineService implements OnModuleInit {
           symbol: candidateSymbol,
           risk,
           baseCooldownMs,
-          summary
+          summary,
+          reasonCode
         });
         const cooldownMs = cooldown.cooldownMs;
         const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
@@ -6145,10 +7261,12 @@ export class BotEngineService implements OnModuleInit {
             : [
                 {
                   id: crypto.randomUUID(),
-                  ts: new Date().toISOString(),
+                  ts: new Date(this.clock.now()).toISOString(),
                   kind: "SKIP",
                   summary,
+                  reasonCode,
                   details: {
+                    symbol: candidateSymbol,
                     ...(entryGuard.details ?? {}),
                     ...(isMaxConsecutiveEntryGuard ? { cooldownMs } : {}),
                     ...(cooldown.storm ? { storm: cooldown.storm } : {})
@@ -6165,7 +7283,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cooldown.storm
                 ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                 : `Cooldown after max-consecutive-entry guard (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: "ENTRY_GUARD_MAX_CONSECUTIVE",
                 cooldownMs,
@@ -6180,8 +7298,15 @@ export class BotEngineService implements OnModuleInit {
 
       const aiEnabled = Boolean(config?.basic.aiEnabled);
       const aiMin = config?.basic.aiMinTradeConfidence ?? 65;
-      const aiConfidence = aiEnabled ? Math.floor(Math.random() * 101) : null;
-      if (aiEnabled && aiConfidence !== null && aiConfidence < aiMin) {
+      const aiDecision = aiEnabled ? await this.evaluateAiDecision({ current, candidateSymbol, selectedCandidate, homeStable, risk, aiMin }) : null;
+      const aiConfidence = aiDecision ? aiDecision.confidence : null;
+      if (aiDecision && (aiDecision.verdict !== "APPROVE" || aiDecision.confidence < aiMin)) {
+        const gateReason =
+          aiDecision.source === "UNAVAILABLE"
+            ? "provider unavailable"
+            : aiDecision.verdict !== "APPROVE"
+              ? `verdict ${aiDecision.verdict}, confidence ${aiDecision.confidence}%`
+              : `confidence ${aiDecision.confidence}% < ${aiMin}%`;
         const next = {
           ...current,
           activeOrders: filled.activeOrders,
@@ -6189,9 +7314,10 @@ export class BotEngineService implements OnModuleInit {
           decisions: [
             {
               id: crypto.randomUUID(),
-              ts: new Date().toISOString(),
+              ts: new Date(this.clock.now()).toISOString(),
               kind: "AI",
-              summary: `AI gated trade (confidence ${aiConfidence}% < ${aiMin}%)`
+              summary: `AI gated trade on ${candidateSymbol} (${gateReason})`,
+              details: this.toAiDecisionDetails(aiDecision, aiMin)
             },
             ...current.decisions
           ].slice(0, 200)
@@ -6213,13 +7339,14 @@ export class BotEngineService implements OnModuleInit {
         if (Number.isFinite(cooldownMs) && cooldownMs > 0) {
           const lastTrade = current.decisions.find((d) => d.kind === "TRADE");
           const lastTradeAt = lastTrade ? Date.parse(lastTrade.ts) : Number.NaN;
-          if (Number.isFinite(lastTradeAt) && Date.now() - lastTradeAt < cooldownMs) {
+          if (Number.isFinite(lastTradeAt) && this.clock.now() - lastTradeAt < cooldownMs) {
             return;
           }
         }
 
         const transientBackoff = this.getTransientBackoffInfo();
         if (transientBackoff.active) {
+          const reasonCode: DecisionReasonCode = "EXCHANGE_BACKOFF";
           const summary = `Skip ${candidateSymbol}: Transient exchange backoff active`;
           const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
           const next = {
@@ -6231,10 +7358,12 @@ export class BotEngineService implements OnModuleInit {
               : [
                   {
                     id: crypto.randomUUID(),
-                    ts: new Date().toISOString(),
+                    ts: new Date(this.clock.now()).toISOString(),
                     kind: "SKIP",
                     summary,
+                    reasonCode,
                     details: {
+                      symbol: candidateSymbol,
                       remainingMs: transientBackoff.remainingMs,
                       errorCount: transientBackoff.errorCount,
                       pauseUntil: transientBackoff.pauseUntilIso,
@@ -6277,9 +7406,10 @@ export class BotEngineService implements OnModuleInit {
             fallbackQty: number;
             response: BinanceMarketOrderResponse | BinanceOrderSnapshot;
             reason: string;
+            reasonCode: DecisionReasonCode;
             details?: Record<string, unknown>;
-          }): void => {
-            const { symbol, side, requestedQty, fallbackQty, response, reason, details } = params;
+          }): Order => {
+            const { symbol, side, requestedQty, fallbackQty, response, reason, reasonCode, details } = params;
             const fills = "fills" in response && Array.isArray(response.fills) ? response.fills : [];
             const avgPrice = (() => {
               let qtySum = 0;
@@ -6315,7 +7445,7 @@ export class BotEngineService implements OnModuleInit {
 
             const order: Order = {
               id: response.orderId !== undefined ? String(response.orderId) : crypto.randomUUID(),
-              ts: new Date().toISOString(),
+              ts: new Date(this.clock.now()).toISOString(),
               symbol,
               ...(clientOrderId ? { clientOrderId } : {}),
               side,
@@ -6334,10 +7464,12 @@ export class BotEngineService implements OnModuleInit {
               decisions: [
                 {
                   id: crypto.randomUUID(),
-                  ts: new Date().toISOString(),
+                  ts: new Date(this.clock.now()).toISOString(),
                   kind: "TRADE",
                   summary: decisionSummary,
+                  reasonCode,
                   details: {
+                    symbol,
                     baseUrl,
                     orderId: order.id,
                     status: response.status,
@@ -6366,9 +7498,10 @@ export class BotEngineService implements OnModuleInit {
             this.clearTransientExchangeBackoff();
             this.save(nextState);
             current = nextState;
+            return order;
           };
 
-          let balances = await this.trading.getBalances();
+          let balances = await this.getLiveBalances();
           const getAssetFree = (asset: string): number => {
             const normalized = asset.trim().toUpperCase();
             if (!normalized) return 0;
@@ -6377,7 +7510,7 @@ export class BotEngineService implements OnModuleInit {
           };
           const refreshBalances = async (): Promise<boolean> => {
             try {
-              balances = await this.trading.getBalances();
+              balances = await this.getLiveBalances({ fresh: true });
               return true;
             } catch {
               return false;
@@ -6410,6 +7543,7 @@ export class BotEngineService implements OnModuleInit {
           }): BotState => {
             const required = Number.isFinite(params.required) ? Math.max(0, params.required) : 0;
             const available = Number.isFinite(params.available) ? Math.max(0, params.available) : 0;
+            const reasonCode: DecisionReasonCode = "INSUFFICIENT_BALANCE";
             const summary = `Skip ${params.symbol}: ${params.stage} pre-check insufficient ${params.asset} balance (need ${required.toFixed(6)}, free ${available.toFixed(6)})`;
             const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
             const cooldown = this.deriveInfeasibleSymbolCooldown({
@@ -6417,7 +7551,8 @@ export class BotEngineService implements OnModuleInit {
               symbol: params.symbol,
               risk,
               baseCooldownMs,
-              summary
+              summary,
+              reasonCode
             });
             const cooldownMs = cooldown.cooldownMs;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
@@ -6430,10 +7565,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: params.symbol,
                         stage: params.stage,
                         side: params.side,
                         asset: params.asset,
@@ -6455,7 +7592,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cooldown.storm
                 ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                 : `Cooldown after ${params.stage} insufficient ${params.asset} (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: "PRECHECK_INSUFFICIENT_BALANCE",
                 stage: params.stage,
@@ -6479,7 +7616,7 @@ export class BotEngineService implements OnModuleInit {
           const walletTotalHome = await this.estimateWalletTotalInHome(balances, homeStable);
           const capitalProfile = this.getCapitalProfile(walletTotalHome);
           const executionBridgeAssets = resolveRouteBridgeAssets(config, homeStable);
-          const riskNowMs = Date.now();
+          const riskNowMs = this.clock.now();
           const dailyLossGuard = this.evaluateDailyLossGuard({
             state: current,
             risk,
@@ -6527,7 +7664,7 @@ export class BotEngineService implements OnModuleInit {
             .filter((symbol) => symbol.length > 0);
           const countableManagedStopLossCooldownSymbolsForCaution = countableManagedOpenSymbolsForCaution.filter((symbol) => {
             const entryGuard = this.getEntryGuard({ symbol, state: current });
-            return entryGuard?.summary === "Post stop-loss cooldown active";
+            return entryGuard?.reasonCode === "STOP_LOSS_COOLDOWN";
           });
           const cautionPauseNewSymbols = this.shouldPauseNewSymbolsInCaution({
             guard: dailyLossGuard,
@@ -6599,7 +7736,7 @@ export class BotEngineService implements OnModuleInit {
                   if (details?.reason !== "global-lock-unwind") return false;
                   if (typeof details?.symbol !== "string" || details.symbol.trim().toUpperCase() !== position.symbol) return false;
                   const ts = Date.parse(decision.ts);
-                  return Number.isFinite(ts) && Date.now() - ts < unwindCooldownMs;
+                  return Number.isFinite(ts) && this.clock.now() - ts < unwindCooldownMs;
                 });
                 if (recentUnwind) {
                   continue;
@@ -6651,6 +7788,7 @@ export class BotEngineService implements OnModuleInit {
                   fallbackQty: sellQty,
                   response: unwindRes,
                   reason: "global-lock-unwind",
+                  reasonCode: "RISK_UNWIND",
                   details: {
                     reason: "global-lock-unwind",
                     lockType,
@@ -6667,6 +7805,7 @@ export class BotEngineService implements OnModuleInit {
               }
             }
 
+            const reasonCode: DecisionReasonCode = "PROTECTION_LOCK";
             const summary = `Skip: Protection lock ${globalLockAfterDrawdown.type} (GLOBAL)`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -6676,9 +7815,10 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
                         stage: "protection-lock",
                         lock: globalLockAfterDrawdown
@@ -6702,6 +7842,7 @@ export class BotEngineService implements OnModuleInit {
               })
             : postProtectionBlockedReason;
           if (postProtectionManagedRiskBlockedReason) {
+            const reasonCode: DecisionReasonCode = this.getSymbolBlock(candidateSymbol, current)?.reasonCode ?? "PROTECTION_LOCK";
             const summary = `Skip ${candidateSymbol}: ${postProtectionManagedRiskBlockedReason}`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -6710,7 +7851,7 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
             } satisfies BotState;
             this.save(next);
             return;
@@ -6762,10 +7903,10 @@ export class BotEngineService implements OnModuleInit {
             managedOpenSymbolsOnly
           });
           if (!feasibleCandidateSelection.candidate) {
-            const nowMs = Date.now();
+            const nowMs = this.clock.now();
             const noFeasibleRecoveryPolicy = this.deriveNoFeasibleRecoveryPolicy({
               state: current,
-              reason: feasibleCandidateSelection.reason,
+              reasonCode: feasibleCandidateSelection.reasonCode,
               risk,
               nowMs
             });
@@ -6856,7 +7997,7 @@ export class BotEngineService implements OnModuleInit {
                       scope: "SYMBOL",
                       symbol: position.symbol,
                       reason: `No-feasible recovery min-order (${Math.round(minOrderCooldownMs / 60000)}m)`,
-                      expiresAt: new Date(Date.now() + minOrderCooldownMs).toISOString(),
+                      expiresAt: new Date(this.clock.now() + minOrderCooldownMs).toISOString(),
                       details: {
                         category: "NO_FEASIBLE_RECOVERY_MIN_ORDER",
                         source: "NO_FEASIBLE_RECOVERY",
@@ -6902,6 +8043,7 @@ export class BotEngineService implements OnModuleInit {
                   fallbackQty: sellQty,
                   response: sellRes,
                   reason: "no-feasible-liquidity-recovery",
+                  reasonCode: "LIQUIDITY_RECOVERY",
                   details: {
                     mode: "liquidity-recovery",
                     triggerReason: feasibleCandidateSelection.reason ?? null,
@@ -6933,7 +8075,7 @@ export class BotEngineService implements OnModuleInit {
                 type: "COOLDOWN",
                 scope: "GLOBAL",
                 reason: `No-feasible dust recovery cooldown (${Math.round(cooldownMs / 60000)}m)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "NO_FEASIBLE_DUST_RECOVERY",
                   trigger: dailyLossGuard.trigger,
@@ -6971,7 +8113,7 @@ export class BotEngineService implements OnModuleInit {
                 scope: "GLOBAL",
                 symbol: "REASON_QUARANTINE:GRID_BUY_QUOTE",
                 reason: `No-feasible quote quarantine (${quoteAssets.join("/") || "non-home"} · ${Math.round(quoteQuarantinePolicy.cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + quoteQuarantinePolicy.cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + quoteQuarantinePolicy.cooldownMs).toISOString(),
                 details: {
                   category: "REASON_QUARANTINE",
                   family: "GRID_BUY_QUOTE",
@@ -6997,6 +8139,7 @@ export class BotEngineService implements OnModuleInit {
                   })
                 : 0;
 
+            const reasonCode: DecisionReasonCode = feasibleCandidateSelection.reasonCode ?? "NO_FEASIBLE_CANDIDATE";
             const summary = `Skip: ${feasibleCandidateSelection.reason ?? "No feasible live candidate"}`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7008,9 +8151,10 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
                         rejectedBySizing: feasibleCandidateSelection.sizingRejected,
                         capitalTier: capitalProfile.tier,
@@ -7048,7 +8192,7 @@ export class BotEngineService implements OnModuleInit {
                     scope: "SYMBOL",
                     symbol: primaryRejectionSymbol,
                     reason: `No-feasible sizing reject (${Math.round(noFeasibleSizingRejectCooldownMs / 1000)}s)`,
-                    expiresAt: new Date(Date.now() + noFeasibleSizingRejectCooldownMs).toISOString(),
+                    expiresAt: new Date(this.clock.now() + noFeasibleSizingRejectCooldownMs).toISOString(),
                     details: {
                       category: "NO_FEASIBLE_SIZING_REJECT",
                       stage: primaryRejectionStage,
@@ -7079,6 +8223,7 @@ export class BotEngineService implements OnModuleInit {
             enforceRegionPolicy: config?.advanced.enforceRegionPolicy
           });
           if (pairPolicyReason) {
+            const reasonCode: DecisionReasonCode = "PAIR_POLICY";
             const summary = `Skip ${candidateSymbol}: ${pairPolicyReason}`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7087,13 +8232,14 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
             } satisfies BotState;
             this.save(next);
             return;
           }
           const candidateQuoteAsset = rules.quoteAsset.trim().toUpperCase();
           if (!allowedExecutionQuotes.has(candidateQuoteAsset)) {
+            const reasonCode: DecisionReasonCode = "QUOTE_NOT_ENABLED";
             const summary = `Skip ${candidateSymbol}: Quote asset ${candidateQuoteAsset} is not enabled for execution`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7102,13 +8248,14 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
             } satisfies BotState;
             this.save(next);
             return;
           }
           quoteFree = balances.find((b) => b.asset.trim().toUpperCase() === candidateQuoteAsset)?.free ?? 0;
           if (!Number.isFinite(quoteFree) || quoteFree < 0) {
+            const reasonCode: DecisionReasonCode = "INVALID_BALANCE";
             const summary = `Skip ${candidateSymbol}: Invalid ${candidateQuoteAsset} balance`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7117,7 +8264,7 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200),
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200),
               lastError: undefined
             } satisfies BotState;
             this.save(next);
@@ -7135,10 +8282,12 @@ export class BotEngineService implements OnModuleInit {
           );
           const selectedRegime = this.buildRegimeSnapshot(selectedCandidate ?? null, risk);
           const selectedStrategy = this.buildAdaptiveStrategyScores(selectedCandidate ?? null, selectedRegime.label);
-          const openExposureHome = countableOpenHomePositions.reduce(
-            (sum, position) => sum + Math.max(0, Number.isFinite(position.costQuote) ? position.costQuote : 0),
-            0
-          );
+          const futuresShortsEnabled = Boolean(config?.derived.allowFutures) && liveTrading && this.trading.supportsFutures();
+          const openExposureHome =
+            countableOpenHomePositions.reduce(
+              (sum, position) => sum + Math.max(0, Number.isFinite(position.costQuote) ? position.costQuote : 0),
+              0
+            ) + this.getOpenFuturesShortExposure(current);
           let selectedRiskBudget = deriveRiskBudgetDecision({
             risk,
             walletTotalHome,
@@ -7155,6 +8304,7 @@ export class BotEngineService implements OnModuleInit {
             regime: selectedRegime,
             strategy: selectedStrategy,
             openExposureHome,
+            allowShort: futuresShortsEnabled,
             openPositions: countableOpenHomePositions.length,
             activeOrderCount: current.activeOrders.length,
             baseMinNetEdgePct: capitalProfile.minNetEdgePct,
@@ -7170,7 +8320,8 @@ export class BotEngineService implements OnModuleInit {
             regime: selectedRegime,
             strategy: selectedStrategy
           });
-          if (selectedRiskBudget.lane === "RISK_OFF" || selectedRiskBudget.lane === "DEFENSIVE") {
+          // Spot stays defensive in the bear-short lane; the short itself is a futures order.
+          if (selectedRiskBudget.lane === "RISK_OFF" || selectedRiskBudget.lane === "DEFENSIVE" || selectedRiskBudget.lane === "BEAR_SHORT") {
             executionLane = "DEFENSIVE";
           }
           tickContext.executionLane = executionLane;
@@ -7186,12 +8337,17 @@ export class BotEngineService implements OnModuleInit {
           const riskBudgetBlocksNewExposure = !selectedRiskBudget.allowedActions.openNewPosition;
 
           const rebalanceSellCooldownMs = config?.advanced.liveTradeRebalanceSellCooldownMs ?? 900_000;
-          const takeProfitPct = 0.35 + (risk / 100) * 0.9; // 0.35% .. 1.25%
-          const stopLossPct = -(0.8 + (risk / 100) * 1.2); // -0.8% .. -2.0%
+          const { takeProfitPct, stopLossPct } = this.deriveManagedExitThresholds(risk);
+          const positionExitSettings = this.resolvePositionExitSettings(config);
+          const stalePositionSettings = this.resolveStalePositionSettings(config);
+          current = this.prunePositionTracking(current, managedPositions);
+          const dcaSettings = this.resolveDcaSettings(config);
+          if (tradeMode === "DCA") current = this.closeOrphanedDcaDeals(current, managedPositions);
           const baseMaxSymbolConcentrationPct = this.deriveMaxSymbolConcentrationPct(risk);
           const portfolioBudgetFull = selectedRiskBudget.reasons.includes("portfolio-exposure-budget-full");
+          const riskBudgetDefensive = selectedRiskBudget.lane === "DEFENSIVE" || selectedRiskBudget.lane === "BEAR_SHORT";
           const maxSymbolConcentrationPct =
-            portfolioBudgetFull && selectedRiskBudget.lane === "DEFENSIVE"
+            portfolioBudgetFull && riskBudgetDefensive
               ? Math.min(baseMaxSymbolConcentrationPct, Math.max(8, selectedRiskBudget.maxTotalExposurePct * 2))
               : baseMaxSymbolConcentrationPct;
           const portfolioExposureCapHome =
@@ -7221,12 +8377,166 @@ export class BotEngineService implements OnModuleInit {
             ) {
               continue;
             }
-            const baseFree = balances.find((b) => b.asset.toUpperCase() === baseAsset.toUpperCase())?.free ?? 0;
+            // Quantity locked in an exchange bracket is released by canceling the bracket before selling.
+            const protectiveBracket = this.findProtectiveBracket(current, position.symbol);
+            const baseFree =
+              (balances.find((b) => b.asset.toUpperCase() === baseAsset.toUpperCase())?.free ?? 0) + (protectiveBracket?.qty ?? 0);
             if (!Number.isFinite(baseFree) || baseFree <= 0) continue;
 
+            // An open DCA deal owns its position: no stop-loss or trims, only safety orders below the base fill and the
+            // take-profit on the averaged entry.
+            const dcaDeal = tradeMode === "DCA" ? this.findOpenDcaDeal(current, position.symbol) : null;
+            if (dcaDeal) {
+              const dcaQuoteAsset = getExecutionQuoteFromSymbol(position.symbol);
+              const dcaPrice = Number.parseFloat(await this.marketData.getTickerPrice(position.symbol));
+              const dcaAction = deriveDcaAction(dcaDeal, dcaPrice);
+              if (!dcaQuoteAsset || dcaAction === null) continue;
+              const dcaDetails = {
+                mode: "dca",
+                dealId: dcaDeal.id,
+                safetyOrdersFilled: dcaDeal.safetyOrdersFilled,
+                maxSafetyOrders: dcaDeal.maxSafetyOrders,
+                avgEntryPrice: dcaDeal.avgEntryPrice,
+                takeProfitPrice: dcaDeal.takeProfitPrice,
+                marketPrice: Number(dcaPrice.toFixed(8))
+              };
+
+              if (dcaAction === "TAKE_PROFIT") {
+                const dcaSellCheck = await this.marketData.validateMarketOrderQty(position.symbol, Math.min(dcaDeal.qty, baseFree));
+                if (!dcaSellCheck.ok || !dcaSellCheck.normalizedQty) continue;
+                const dcaSellQty = Number.parseFloat(dcaSellCheck.normalizedQty);
+                setLiveOperation({
+                  stage: "dca-take-profit-market-sell",
+                  symbol: position.symbol,
+                  side: "SELL",
+                  asset: baseAsset,
+                  required: dcaSellQty
+                });
+                const dcaSellFunds = await ensureFundsBeforeOrder({ asset: baseAsset, required: dcaSellQty });
+                if (!dcaSellFunds.ok) continue;
+                const dcaSellRes = await this.trading.placeSpotMarketOrder({
+                  symbol: position.symbol,
+                  side: "SELL",
+                  quantity: dcaSellCheck.normalizedQty
+                });
+                const dcaSellOrder = persistLiveTrade({
+                  symbol: position.symbol,
+                  side: "SELL",
+                  requestedQty: dcaSellCheck.normalizedQty,
+                  fallbackQty: dcaSellQty,
+                  response: dcaSellRes,
+                  reason: "dca-take-profit-exit",
+                  reasonCode: "DCA_TAKE_PROFIT_EXIT",
+                  details: dcaDetails
+                });
+                const closedDcaDeal = closeDcaDealFromOrder(dcaDeal, dcaSellOrder, {
+                  executedQty: dcaSellRes.executedQty,
+                  fallbackPrice: dcaPrice,
+                  nowIso: new Date(this.clock.now()).toISOString()
+                });
+                if (closedDcaDeal) {
+                  current = this.upsertDcaDeal(current, closedDcaDeal);
+                  this.save(current);
+                }
+                return;
+              }
+
+              // Safety orders add exposure, so they respect protection locks and the current risk budget / symbol cap.
+              const dcaSafetyQuote = deriveDcaSafetyOrderQuote(dcaDeal, dcaSettings);
+              const dcaTradeCapQuote = await this.normalizeHomeAmountToQuoteUnits({
+                amountHome: selectedRiskBudget.maxTradeNotionalHome,
+                quoteAsset: dcaQuoteAsset,
+                homeStable,
+                bridgeAssets: positionExitBridgeAssets
+              });
+              const dcaSymbolCapQuote = await this.normalizeHomeAmountToQuoteUnits({
+                amountHome: walletTotalHome * (maxPositionPct / 100),
+                quoteAsset: dcaQuoteAsset,
+                homeStable,
+                bridgeAssets: positionExitBridgeAssets
+              });
+              const dcaCapReason = this.isSymbolBlocked(position.symbol, current)
+                ? "protection lock"
+                : !selectedRiskBudget.allowedActions.increasePosition
+                  ? `risk budget ${selectedRiskBudget.lane}`
+                  : dcaTradeCapQuote === null || dcaSafetyQuote > dcaTradeCapQuote * 1.0001
+                    ? `risk budget ${(dcaTradeCapQuote ?? 0).toFixed(2)} < ${dcaSafetyQuote.toFixed(2)}`
+                    : dcaSymbolCapQuote === null || position.costQuote + dcaSafetyQuote > dcaSymbolCapQuote * 1.0001
+                      ? `symbol cap ${(dcaSymbolCapQuote ?? 0).toFixed(2)} ${dcaQuoteAsset}`
+                      : null;
+              if (dcaCapReason) {
+                const reasonCode: DecisionReasonCode = "DCA_SAFETY_CAPPED";
+                const summary = `Skip ${position.symbol}: DCA safety order capped (${dcaCapReason})`;
+                if (current.decisions[0]?.summary !== summary) {
+                  current = {
+                    ...current,
+                    decisions: [
+                      {
+                        id: crypto.randomUUID(),
+                        ts: new Date(this.clock.now()).toISOString(),
+                        kind: "SKIP",
+                        summary,
+                        reasonCode,
+                        details: {
+                          symbol: position.symbol,
+                          ...dcaDetails,
+                          safetyOrderQuote: Number(dcaSafetyQuote.toFixed(6)),
+                          nextSafetyPrice: dcaDeal.nextSafetyPrice,
+                          riskBudget: selectedRiskBudget
+                        }
+                      },
+                      ...current.decisions
+                    ].slice(0, 200)
+                  } satisfies BotState;
+                }
+                continue;
+              }
+
+              const dcaBuyCheck = await this.marketData.validateMarketOrderQty(position.symbol, dcaSafetyQuote / dcaPrice);
+              if (!dcaBuyCheck.ok || !dcaBuyCheck.normalizedQty) continue;
+              const dcaBuyQty = Number.parseFloat(dcaBuyCheck.normalizedQty);
+              const dcaBuyRequiredQuote = dcaBuyQty * dcaPrice * bufferFactor;
+              setLiveOperation({
+                stage: "dca-safety-order-market-buy",
+                symbol: position.symbol,
+                side: "BUY",
+                asset: dcaQuoteAsset,
+                required: dcaBuyRequiredQuote
+              });
+              const dcaBuyFunds = await ensureFundsBeforeOrder({ asset: dcaQuoteAsset, required: dcaBuyRequiredQuote });
+              if (!dcaBuyFunds.ok) continue;
+              const dcaBuyRes = await this.trading.placeSpotMarketOrder({
+                symbol: position.symbol,
+                side: "BUY",
+                quantity: dcaBuyCheck.normalizedQty
+              });
+              const dcaBuyOrder = persistLiveTrade({
+                symbol: position.symbol,
+                side: "BUY",
+                requestedQty: dcaBuyCheck.normalizedQty,
+                fallbackQty: dcaBuyQty,
+                response: dcaBuyRes,
+                reason: "dca-safety-order",
+                reasonCode: "DCA_SAFETY_ORDER",
+                details: {
+                  ...dcaDetails,
+                  safetyOrder: dcaDeal.safetyOrdersFilled + 1,
+                  safetyOrderQuote: Number(dcaSafetyQuote.toFixed(6)),
+                  nextSafetyPrice: dcaDeal.nextSafetyPrice,
+                  riskBudget: selectedRiskBudget
+                }
+              });
+              const dcaSafetyFill = dcaFillFromOrder(dcaBuyOrder, { executedQty: dcaBuyRes.executedQty, fallbackPrice: dcaPrice });
+              if (dcaSafetyFill) {
+                current = this.upsertDcaDeal(current, addDcaSafetyFill(dcaDeal, dcaSafetyFill, dcaSettings));
+                this.save(current);
+              }
+              return;
+            }
+
             if (Number.isFinite(rebalanceSellCooldownMs) && rebalanceSellCooldownMs > 0 && position.lastBuyTs) {
               const lastBuyAt = Date.parse(position.lastBuyTs);
-              if (Number.isFinite(lastBuyAt) && Date.now() - lastBuyAt < rebalanceSellCooldownMs) {
+              if (Number.isFinite(lastBuyAt) && this.clock.now() - lastBuyAt < rebalanceSellCooldownMs) {
                 continue;
               }
             }
@@ -7248,7 +8558,30 @@ export class BotEngineService implements OnModuleInit {
               baseStopLossPct: stopLossPct,
               regime: positionRegime
             });
-            const pnlPct = ((nowPrice - avgEntryPrice) / avgEntryPrice) * 100;
+            const trackedPosition = this.trackPositionPrice(current, position, nowPrice);
+            // Positions opened before entries recorded their lane (or adopted ones) take the grid lane when a grid plan
+            // owns the symbol, else the lane recommended now; either way it is stored and kept from then on.
+            const positionTracking = trackedPosition.strategy
+              ? trackedPosition
+              : {
+                  ...trackedPosition,
+                  strategy: this.findGridPlan(current, position.symbol)
+                    ? ("GRID" as const)
+                    : this.buildAdaptiveStrategyScores(positionCandidate, positionRegime.label).recommended
+                };
+            const positionExit = derivePositionExitDecision({
+              avgEntryPrice,
+              price: nowPrice,
+              highWaterPrice: positionTracking.highWaterPrice,
+              takeProfitPct,
+              stopLossPct: adjustedStopLossPct,
+              atrPct: positionCandidate?.atrPct14,
+              breakEvenArmed: positionTracking.breakEvenArmed,
+              takeProfitStepsDone: positionTracking.takeProfitStepsDone,
+              settings: positionExitSettings
+            });
+            current = this.upsertPositionTracking(current, { ...positionTracking, breakEvenArmed: positionExit.breakEvenArmed });
+            const pnlPct = positionExit.pnlPct;
             const tradableQty = Math.min(position.netQty, baseFree);
             const concentrationExposureHome = await this.estimateAssetValueInHome(
               baseAsset,
@@ -7271,7 +8604,7 @@ export class BotEngineService implements OnModuleInit {
               : 0;
             const shouldPortfolioBudgetTrim =
               portfolioExposureExcessHome > 0 &&
-              selectedRiskBudget.lane === "DEFENSIVE" &&
+              riskBudgetDefensive &&
               Number.isFinite(concentrationExposureHome ?? Number.NaN) &&
               (concentrationExposureHome ?? 0) > 0;
             const portfolioBudgetTrimFraction = shouldPortfolioBudgetTrim
@@ -7282,24 +8615,166 @@ export class BotEngineService implements OnModuleInit {
                   pnlPct
                 })
               : 0;
-            const shouldTakeProfit = pnlPct >= takeProfitPct;
-            const shouldStopLoss = pnlPct <= adjustedStopLossPct;
-            if (!shouldTakeProfit && !shouldStopLoss && !shouldConcentrationTrim && !shouldPortfolioBudgetTrim) continue;
-            const exitReason = shouldStopLoss
-              ? "stop-loss-exit"
+            // A resting bracket owns the regular exits; the market stop only backs up a stop-limit that the price gapped
+            // through, or a stop that moved up (trailing / break-even) before the bracket was re-priced. Take-profits stay
+            // here when the bracket is stop-only (trailing stop or ladder).
+            const stopRuleFired = positionExit.rule !== null && positionExit.rule !== "TAKE_PROFIT";
+            const shouldTakeProfit =
+              positionExit.rule === "TAKE_PROFIT" && (!protectiveBracket || protectiveBracket.takeProfitPrice === undefined);
+            const shouldStopLoss = protectiveBracket
+              ? nowPrice < protectiveBracket.stopLimitPrice || (stopRuleFired && positionExit.stopPrice > protectiveBracket.stopPrice)
+              : stopRuleFired;
+            const staleWindowStart = Date.parse(positionTracking.staleReviewedAt ?? positionTracking.openedAt);
+            const stalePosition = deriveStalePositionDecision({
+              strategy: positionTracking.strategy ?? "TREND",
+              windowStartMs: Number.isFinite(staleWindowStart) ? staleWindowStart : this.clock.now(),
+              nowMs: this.clock.now(),
+              pnlPct,
+              bullTrend: positionRegime.label === "BULL_TREND",
+              takeProfitStepsDone: positionTracking.takeProfitStepsDone,
+              settings: stalePositionSettings
+            });
+            const shouldStaleExit = !shouldTakeProfit && !shouldStopLoss && stalePosition.action === "EXIT";
+            if (stalePosition.action === "KEEP") {
+              current = this.upsertPositionTracking(current, {
+                ...(this.findPositionTracking(current, position.symbol) ?? positionTracking),
+                staleReviewedAt: new Date(this.clock.now()).toISOString()
+              });
+              current = this.prependEngineDecision(
+                current,
+                `Kept ${position.symbol} past its ${positionTracking.strategy ?? "TREND"} holding window (in profit, bull trend)`,
+                {
+                  symbol: position.symbol,
+                  strategy: positionTracking.strategy ?? "TREND",
+                  heldMinutes: stalePosition.heldMinutes,
+                  maxHoldingMinutes: stalePosition.maxHoldingMinutes,
+                  pnlPct: Number(pnlPct.toFixed(4))
+                }
+              );
+            }
+            if (!shouldTakeProfit && !shouldStopLoss && !shouldStaleExit && !shouldConcentrationTrim && !shouldPortfolioBudgetTrim) {
+              const quoteAsset = getExecutionQuoteFromSymbol(position.symbol);
+              const pyramidAddQuote =
+                config?.advanced.pyramidingEnabled && quoteAsset && selectedRiskBudget.allowedActions.increasePosition
+                  ? derivePyramidAddQuote({
+                      maxAdds: config.advanced.pyramidingMaxAdds,
+                      triggerPct: config.advanced.pyramidingTriggerPct,
+                      addFraction: config.advanced.pyramidingAddFraction,
+                      addsDone: positionTracking.pyramidAdds,
+                      pnlPct,
+                      bullTrend: positionRegime.label === "BULL_TREND",
+                      positionCostQuote: position.costQuote,
+                      positionExposureHome: concentrationExposureHome ?? Number.NaN,
+                      maxPositionExposureHome: walletTotalHome * (maxPositionPct / 100),
+                      notionalCap: config.advanced.liveTradeNotionalCap
+                    })
+                  : null;
+              if (!quoteAsset || pyramidAddQuote === null) continue;
+
+              const addCheck = await this.marketData.validateMarketOrderQty(position.symbol, pyramidAddQuote / nowPrice);
+              if (!addCheck.ok || !addCheck.normalizedQty) continue;
+              const addQty = Number.parseFloat(addCheck.normalizedQty);
+              const addRequiredQuote = addQty * nowPrice * bufferFactor;
+              setLiveOperation({
+                stage: "pyramid-add-market-buy",
+                symbol: position.symbol,
+                side: "BUY",
+                asset: quoteAsset,
+                required: addRequiredQuote
+              });
+              const addFunds = await ensureFundsBeforeOrder({ asset: quoteAsset, required: addRequiredQuote });
+              if (!addFunds.ok) continue;
+
+              const addRes = await this.trading.placeSpotMarketOrder({
+                symbol: position.symbol,
+                side: "BUY",
+                quantity: addCheck.normalizedQty
+              });
+              current = this.upsertPositionTracking(current, {
+                ...(this.findPositionTracking(current, position.symbol) ?? positionTracking),
+                pyramidAdds: positionTracking.pyramidAdds + 1
+              });
+              persistLiveTrade({
+                symbol: position.symbol,
+                side: "BUY",
+                requestedQty: addCheck.normalizedQty,
+                fallbackQty: addQty,
+                response: addRes,
+                reason: "pyramid-add",
+                reasonCode: "PYRAMID_ADD",
+                details: {
+                  mode: "position-pyramid",
+                  pyramidAdd: positionTracking.pyramidAdds + 1,
+                  pyramidingMaxAdds: config?.advanced.pyramidingMaxAdds ?? null,
+                  addQuote: Number(pyramidAddQuote.toFixed(6)),
+                  pnlPct: Number(pnlPct.toFixed(4)),
+                  avgEntryPrice: Number(avgEntryPrice.toFixed(8)),
+                  marketPrice: Number(nowPrice.toFixed(8)),
+                  maxPositionPct,
+                  riskBudget: selectedRiskBudget,
+                  regime: positionRegime
+                }
+              });
+              return;
+            }
+            const exitRule: PositionExitRule | "STALE_POSITION" | "REBALANCE" = shouldStopLoss
+              ? positionExit.stopRule
               : shouldTakeProfit
-                ? "take-profit-exit"
+                ? "TAKE_PROFIT"
+                : shouldStaleExit
+                  ? "STALE_POSITION"
+                  : "REBALANCE";
+            const takeProfitStep = exitRule === "TAKE_PROFIT" ? positionExit.takeProfitStep : null;
+            const scaleOutFraction = exitRule === "TAKE_PROFIT" ? positionExit.exitFraction : null;
+            const exitReason =
+              scaleOutFraction !== null
+                ? "partial-take-profit-exit"
+                : exitRule !== "REBALANCE"
+                  ? POSITION_EXIT_REASONS[exitRule].reason
                 : shouldConcentrationTrim
                   ? "concentration-rebalance-exit"
                   : "portfolio-budget-rebalance-exit";
+            const exitReasonCode: DecisionReasonCode =
+              exitRule !== "REBALANCE" ? POSITION_EXIT_REASONS[exitRule].reasonCode : "REBALANCE_EXIT";
+            const exitRuleDetails = {
+              exitRule,
+              stopRule: positionExit.stopRule,
+              stopPrice: positionExit.stopPrice,
+              highWaterPrice: Number(positionExit.highWaterPrice.toFixed(8)),
+              peakPnlPct: Number(positionExit.peakPnlPct.toFixed(4)),
+              breakEvenArmed: positionExit.breakEvenArmed,
+              trailingDistancePct: positionExit.trailingDistancePct,
+              takeProfitStep,
+              scaleOutFraction,
+              peakQty: Number(position.peakQty.toFixed(8)),
+              strategy: positionTracking.strategy ?? null,
+              heldMinutes: stalePosition.heldMinutes,
+              maxHoldingMinutes: stalePosition.maxHoldingMinutes
+            };
 
-            const sellQtyDesired =
-              shouldConcentrationTrim && !shouldTakeProfit && !shouldStopLoss
+            let sellQtyDesired =
+              shouldConcentrationTrim && exitRule === "REBALANCE"
                 ? Math.min(position.netQty, baseFree) * concentrationTrimFraction
-                : shouldPortfolioBudgetTrim && !shouldTakeProfit && !shouldStopLoss
+                : shouldPortfolioBudgetTrim && exitRule === "REBALANCE"
                   ? Math.min(position.netQty, baseFree) * portfolioBudgetTrimFraction
+                  : scaleOutFraction !== null
+                    ? Math.min(position.netQty, baseFree, position.peakQty * scaleOutFraction)
                 : Math.min(position.netQty, baseFree);
             if (!Number.isFinite(sellQtyDesired) || sellQtyDesired <= 0) continue;
+            if (scaleOutFraction !== null) {
+              // A ladder step too small to sell, or one leaving a remainder below the exchange minimum, closes the position.
+              const remainderQty = Math.min(position.netQty, baseFree) - sellQtyDesired;
+              const stepCheck = await this.marketData.validateMarketOrderQty(position.symbol, sellQtyDesired);
+              const remainderCheck =
+                remainderQty > 0 ? await this.marketData.validateMarketOrderQty(position.symbol, remainderQty) : { ok: true };
+              if (!stepCheck.ok || !remainderCheck.ok) sellQtyDesired = Math.min(position.netQty, baseFree);
+            }
+            // Advanced only once the order is placed, so a failed step is retried on the next tick.
+            const markTakeProfitStepDone = (): void => {
+              if (takeProfitStep === null) return;
+              const tracking = this.findPositionTracking(current, position.symbol) ?? positionTracking;
+              current = this.upsertPositionTracking(current, { ...tracking, takeProfitStepsDone: takeProfitStep + 1 });
+            };
 
             const sellCheck = await this.marketData.validateMarketOrderQty(position.symbol, sellQtyDesired);
             let sellQtyStr = sellCheck.ok ? sellCheck.normalizedQty : undefined;
@@ -7314,6 +8789,11 @@ export class BotEngineService implements OnModuleInit {
             const sellQty = Number.parseFloat(sellQtyStr);
             if (!Number.isFinite(sellQty) || sellQty <= 0) continue;
 
+            if (protectiveBracket) {
+              current = await this.cancelProtectiveBracket(current, protectiveBracket, exitReason);
+              if (this.findProtectiveBracket(current, position.symbol)) continue;
+            }
+
             setLiveOperation({
               stage: "position-exit-market-sell",
               symbol: position.symbol,
@@ -7352,6 +8832,7 @@ export class BotEngineService implements OnModuleInit {
                     side: "SELL",
                     quantity: adjustedQtyStr
                   });
+                  markTakeProfitStepDone();
                   persistLiveTrade({
                     symbol: position.symbol,
                     side: "SELL",
@@ -7359,6 +8840,7 @@ export class BotEngineService implements OnModuleInit {
                     fallbackQty: adjustedQty,
                     response: sellRes,
                     reason: exitReason,
+                    reasonCode: exitReasonCode,
                     details: {
                       mode: "position-exit",
                       partialExitDueToBalanceDelta: true,
@@ -7381,6 +8863,7 @@ export class BotEngineService implements OnModuleInit {
                       marketPrice: Number(nowPrice.toFixed(8)),
                       takeProfitPct: Number(takeProfitPct.toFixed(4)),
                       stopLossPct: Number(adjustedStopLossPct.toFixed(4)),
+                      ...exitRuleDetails,
                       regime: positionRegime
                     }
                   });
@@ -7407,6 +8890,7 @@ export class BotEngineService implements OnModuleInit {
                       : null,
                   takeProfitPct: Number(takeProfitPct.toFixed(4)),
                   stopLossPct: Number(adjustedStopLossPct.toFixed(4)),
+                  ...exitRuleDetails,
                   regime: positionRegime,
                   refreshedBalances: exitFunds.refreshed
                 }
@@ -7420,6 +8904,7 @@ export class BotEngineService implements OnModuleInit {
               side: "SELL",
               quantity: sellQtyStr
             });
+            markTakeProfitStepDone();
             persistLiveTrade({
               symbol: position.symbol,
               side: "SELL",
@@ -7427,6 +8912,7 @@ export class BotEngineService implements OnModuleInit {
               fallbackQty: sellQty,
               response: sellRes,
               reason: exitReason,
+              reasonCode: exitReasonCode,
               details: {
                 mode: "position-exit",
                 concentrationExposurePct: Number(concentrationExposurePct.toFixed(4)),
@@ -7446,18 +8932,57 @@ export class BotEngineService implements OnModuleInit {
                 marketPrice: Number(nowPrice.toFixed(8)),
                 takeProfitPct: Number(takeProfitPct.toFixed(4)),
                 stopLossPct: Number(adjustedStopLossPct.toFixed(4)),
+                ...exitRuleDetails,
                 regime: positionRegime
               }
             });
             return;
           }
 
+          if (config && futuresShortsEnabled && selectedRiskBudget.allowedActions.openShort && !candidateIsOpen) {
+            const shortBase: BotState = { ...current, activeOrders: filled.activeOrders, orderHistory: filled.orderHistory };
+            try {
+              const maxShortNotionalQuote = await this.normalizeHomeAmountToQuoteUnits({
+                amountHome: selectedRiskBudget.maxShortNotionalHome,
+                quoteAsset: candidateQuoteAsset,
+                homeStable,
+                bridgeAssets: resolveRouteBridgeAssets(config, homeStable)
+              });
+              const next =
+                maxShortNotionalQuote && maxShortNotionalQuote > 0
+                  ? // Not raced against a timer (the requests time out on their own); a short that fills after a
+                    // lost response is adopted by the next futures sync.
+                    await this.openFuturesShort({
+                      config,
+                      state: shortBase,
+                      risk,
+                      symbol: candidateSymbol,
+                      quoteAsset: candidateQuoteAsset,
+                      maxShortNotionalQuote,
+                      riskBudget: selectedRiskBudget
+                    })
+                  : null;
+              if (next) {
+                this.save(next);
+                return;
+              }
+            } catch (futuresErr) {
+              const safeMsg = this.sanitizeUserErrorMessage(futuresErr instanceof Error ? futuresErr.message : String(futuresErr));
+              current = this.prependEngineDecision(current, `Futures short entry failed for ${candidateSymbol}`, {
+                stage: "futures-short-entry",
+                symbol: candidateSymbol,
+                error: safeMsg
+              });
+            }
+          }
+
           if ((cautionPauseNewSymbols || riskBudgetBlocksNewExposure) && !candidateIsOpen) {
+            const reasonCode: DecisionReasonCode = cautionPauseNewSymbols ? "DAILY_LOSS_CAUTION" : "RISK_BUDGET_PAUSED";
             const summary = cautionPauseNewSymbols
               ? `Skip ${candidateSymbol}: Daily loss caution (new symbols paused)`
               : `Skip ${candidateSymbol}: Risk budget blocked new exposure`;
             const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), this.deriveCautionEntryPauseCooldownMs(risk));
-            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
             const cooldownMs = cooldown.cooldownMs;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7469,10 +8994,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         stage: "daily-loss-caution",
                         candidateSymbol,
                         riskState: dailyLossGuard.state,
@@ -7500,7 +9027,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cautionPauseNewSymbols
                 ? `Daily loss caution pause (${Math.round(cooldownMs / 1000)}s)`
                 : `Risk budget new-exposure pause (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: cautionPauseNewSymbols ? "DAILY_LOSS_CAUTION_NEW_SYMBOL" : "RISK_BUDGET_NEW_EXPOSURE",
                 cooldownMs,
@@ -7623,7 +9150,7 @@ export class BotEngineService implements OnModuleInit {
                   if (order.side !== "BUY") return false;
                   if (order.status !== "FILLED" && order.status !== "NEW") return false;
                   const ts = Date.parse(order.ts);
-                  return Number.isFinite(ts) && Date.now() - ts < rebalanceSellCooldownMs;
+                  return Number.isFinite(ts) && this.clock.now() - ts < rebalanceSellCooldownMs;
                 });
                 if (hasRecentHomeBuy) continue;
 
@@ -7633,7 +9160,7 @@ export class BotEngineService implements OnModuleInit {
                   if (typeof details?.mode !== "string" || details.mode !== "wallet-sweep") return false;
                   if (typeof details?.sourceAsset !== "string" || details.sourceAsset.trim().toUpperCase() !== source.asset) return false;
                   const ts = Date.parse(decision.ts);
-                  return Number.isFinite(ts) && Date.now() - ts < rebalanceSellCooldownMs;
+                  return Number.isFinite(ts) && this.clock.now() - ts < rebalanceSellCooldownMs;
                 });
                 if (hasRecentSweepConversion) continue;
               }
@@ -7664,6 +9191,7 @@ export class BotEngineService implements OnModuleInit {
                   fallbackQty: Number.isFinite(fallbackQty) && fallbackQty > 0 ? fallbackQty : 0,
                   response: leg.response,
                   reason: `wallet-sweep ${source.asset} -> ${homeStable}`,
+                  reasonCode: "CONVERSION",
                   details: {
                     mode: "wallet-sweep",
                     category: source.category,
@@ -7803,7 +9331,7 @@ export class BotEngineService implements OnModuleInit {
                   return false;
                 }
                 const ts = Date.parse(decision.ts);
-                return Number.isFinite(ts) && Date.now() - ts < unwindCandidate.unwindCooldownMs;
+                return Number.isFinite(ts) && this.clock.now() - ts < unwindCandidate.unwindCooldownMs;
               });
               if (recentUnwind) {
                 continue;
@@ -7870,6 +9398,7 @@ export class BotEngineService implements OnModuleInit {
                 fallbackQty: sellQty,
                 response: unwindRes,
                 reason: unwindReason,
+                reasonCode: "RISK_UNWIND",
                 details: {
                   reason: unwindReason,
                   trigger: dailyLossGuard.trigger,
@@ -7895,6 +9424,7 @@ export class BotEngineService implements OnModuleInit {
             if (!dailyLossGuard.active) {
               // CAUTION unwind is best-effort. If no unwind candidate is available, continue normal cycle.
             } else {
+            const reasonCode: DecisionReasonCode = "DAILY_LOSS_GUARD";
             const summary = this.buildDailyLossGuardSkipSummary(dailyLossGuard, homeStable);
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7906,9 +9436,10 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
                         stage: "daily-loss-guard",
                         dailyRealizedPnl: dailyLossGuard.dailyRealizedPnl,
@@ -7940,9 +9471,10 @@ export class BotEngineService implements OnModuleInit {
           }
 
           if (countableOpenHomePositions.length >= maxOpenPositions && !candidateIsOpen) {
+            const reasonCode: DecisionReasonCode = "MAX_OPEN_POSITIONS";
             const summary = `Skip ${candidateSymbol}: Max open positions reached (${maxOpenPositions})`;
             const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
-            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
             const cooldownMs = cooldown.cooldownMs;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -7954,10 +9486,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         openPositions: countableOpenHomePositions.length,
                         rawOpenPositions: managedOpenHomeSymbols.length,
                         maxOpenPositions,
@@ -7977,7 +9511,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cooldown.storm
                 ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                 : `Cooldown after max-open-position skip (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: "MAX_OPEN_POSITIONS",
                 openPositions: countableOpenHomePositions.length,
@@ -7992,6 +9526,140 @@ export class BotEngineService implements OnModuleInit {
             return;
           }
 
+          if (tradeMode === "DCA") {
+            // Open deals are handled in the position loop above; the entry path only opens new ones with a base order
+            // sized so the deal's largest safety order fits the risk budget and the whole deal fits the symbol cap.
+            if (this.findOpenDcaDeal(current, candidateSymbol)) return;
+            const dcaPriceStr = await this.marketData.getTickerPrice(candidateSymbol);
+            const dcaPrice = Number.parseFloat(dcaPriceStr);
+            if (!Number.isFinite(dcaPrice) || dcaPrice <= 0) {
+              throw new Error(`Invalid ticker price: ${dcaPriceStr}`);
+            }
+            const dcaTradeCapQuote = await this.normalizeHomeAmountToQuoteUnits({
+              amountHome: selectedRiskBudget.maxTradeNotionalHome,
+              quoteAsset: candidateQuoteAsset,
+              homeStable,
+              bridgeAssets: executionBridgeAssets
+            });
+            const dcaDealCapQuote = await this.normalizeHomeAmountToQuoteUnits({
+              amountHome: walletTotalHome * (maxPositionPct / 100),
+              quoteAsset: candidateQuoteAsset,
+              homeStable,
+              bridgeAssets: executionBridgeAssets
+            });
+            const dcaNotionalCap =
+              Number.isFinite(notionalCap) && notionalCap > 0 ? Math.max(1, notionalCap * capitalProfile.notionalCapMultiplier) : null;
+            const dcaBaseOrderQuote = deriveDcaBaseOrderQuote({
+              settings: dcaSettings,
+              maxTradeNotionalQuote: Math.min(dcaTradeCapQuote ?? 0, dcaNotionalCap ? dcaNotionalCap / bufferFactor : Number.POSITIVE_INFINITY),
+              maxDealNotionalQuote: Math.min(dcaDealCapQuote ?? 0, quoteFree)
+            });
+            const dcaBaseCheck =
+              dcaBaseOrderQuote > 0 ? await this.marketData.validateMarketOrderQty(candidateSymbol, dcaBaseOrderQuote / dcaPrice) : null;
+            if (!dcaBaseCheck?.ok || !dcaBaseCheck.normalizedQty) {
+              const reasonCode: DecisionReasonCode = dcaBaseOrderQuote > 0 ? "MIN_ORDER" : "TARGET_NOTIONAL_ZERO";
+              const summary =
+                dcaBaseOrderQuote > 0
+                  ? `Skip ${candidateSymbol}: DCA base order ${dcaBaseOrderQuote.toFixed(4)} ${candidateQuoteAsset} below Binance min order constraints`
+                  : `Skip ${candidateSymbol}: Target notional is zero (DCA deal caps exhausted)`;
+              const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
+              const next = {
+                ...current,
+                activeOrders: filled.activeOrders,
+                orderHistory: filled.orderHistory,
+                decisions: alreadyLogged
+                  ? current.decisions
+                  : [
+                      {
+                        id: crypto.randomUUID(),
+                        ts: new Date(this.clock.now()).toISOString(),
+                        kind: "SKIP",
+                        summary,
+                        reasonCode,
+                        details: {
+                          symbol: candidateSymbol,
+                          mode: "dca",
+                          baseOrderQuote: Number(dcaBaseOrderQuote.toFixed(6)),
+                          maxSafetyOrders: dcaSettings.maxSafetyOrders,
+                          volumeScale: dcaSettings.volumeScale,
+                          ...(dcaBaseCheck?.reason ? { validation: dcaBaseCheck.reason } : {}),
+                          riskBudget: selectedRiskBudget
+                        }
+                      },
+                      ...current.decisions
+                    ].slice(0, 200),
+                lastError: undefined
+              } satisfies BotState;
+              this.save(next);
+              return;
+            }
+
+            const dcaBaseQty = Number.parseFloat(dcaBaseCheck.normalizedQty);
+            const dcaRequiredQuote = dcaBaseQty * dcaPrice * bufferFactor;
+            setLiveOperation({
+              stage: "dca-base-order-market-buy",
+              symbol: candidateSymbol,
+              side: "BUY",
+              asset: candidateQuoteAsset,
+              required: dcaRequiredQuote
+            });
+            const dcaFunds = await ensureFundsBeforeOrder({ asset: candidateQuoteAsset, required: dcaRequiredQuote });
+            if (!dcaFunds.ok) {
+              current = buildInsufficientFundsSkipState({
+                symbol: candidateSymbol,
+                stage: "dca-base-order-market-buy",
+                side: "BUY",
+                asset: candidateQuoteAsset,
+                required: dcaRequiredQuote,
+                available: dcaFunds.available,
+                details: { mode: "dca", baseOrderQuote: Number(dcaBaseOrderQuote.toFixed(6)) }
+              });
+              this.save(current);
+              return;
+            }
+            const dcaRes = await this.trading.placeSpotMarketOrder({
+              symbol: candidateSymbol,
+              side: "BUY",
+              quantity: dcaBaseCheck.normalizedQty
+            });
+            const dcaDealId = crypto.randomUUID();
+            const dcaOrder = persistLiveTrade({
+              symbol: candidateSymbol,
+              side: "BUY",
+              requestedQty: dcaBaseCheck.normalizedQty,
+              fallbackQty: dcaBaseQty,
+              response: dcaRes,
+              reason: "dca-base-order",
+              reasonCode: "DCA_BASE_ORDER",
+              details: {
+                mode: "dca",
+                dealId: dcaDealId,
+                baseOrderQuote: Number(dcaBaseOrderQuote.toFixed(6)),
+                maxSafetyOrders: dcaSettings.maxSafetyOrders,
+                marketPrice: Number(dcaPrice.toFixed(8)),
+                strategy: selectedStrategy.recommended,
+                riskBudget: selectedRiskBudget,
+                ...(aiDecision ? { ai: this.toAiDecisionDetails(aiDecision, aiMin) } : {})
+              }
+            });
+            const dcaBaseFill = dcaFillFromOrder(dcaOrder, { executedQty: dcaRes.executedQty, fallbackPrice: dcaPrice });
+            if (dcaBaseFill) {
+              current = this.upsertDcaDeal(
+                current,
+                openDcaDeal({
+                  id: dcaDealId,
+                  symbol: candidateSymbol,
+                  baseOrderQuote: dcaBaseOrderQuote,
+                  fill: dcaBaseFill,
+                  settings: dcaSettings
+                })
+              );
+              current = this.recordPositionStrategy(current, candidateSymbol, selectedStrategy.recommended);
+              this.save(current);
+            }
+            return;
+          }
+
           const priceStr = await this.marketData.getTickerPrice(candidateSymbol);
           const price = Number.parseFloat(priceStr);
           if (!Number.isFinite(price) || price <= 0) {
@@ -8018,6 +9686,7 @@ export class BotEngineService implements OnModuleInit {
             regime: selectedRegime,
             strategy: selectedStrategy,
             openExposureHome,
+            allowShort: futuresShortsEnabled,
             openPositions: countableOpenHomePositions.length,
             activeOrderCount: current.activeOrders.length,
             baseMinNetEdgePct: capitalProfile.minNetEdgePct,
@@ -8056,9 +9725,10 @@ export class BotEngineService implements OnModuleInit {
           if (Number.isFinite(estimatedEdgePct)) {
             const netEdgePct = (estimatedEdgePct ?? 0) - roundTripCostPct;
             if (!bypassFeeEdgeFilter && !this.isFeeEdgeSufficient(netEdgePct, regimeAdjustedMinNetEdgePct)) {
+              const reasonCode: DecisionReasonCode = "FEE_EDGE";
               const summary = `Skip ${candidateSymbol}: Fee/edge filter (net ${netEdgePct.toFixed(3)}% < ${regimeAdjustedMinNetEdgePct.toFixed(3)}%)`;
               const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), this.deriveFeeEdgeCooldownMs(risk));
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               const cooldownMs = cooldown.cooldownMs;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -8070,10 +9740,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           capitalTier: capitalProfile.tier,
                           estimatedEdgePct: Number((estimatedEdgePct ?? 0).toFixed(6)),
                           roundTripCostPct: Number(roundTripCostPct.toFixed(6)),
@@ -8104,7 +9776,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Cooldown after fee/edge filter (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "FEE_EDGE_FILTER",
                   cooldownMs,
@@ -8117,7 +9789,7 @@ export class BotEngineService implements OnModuleInit {
                   ...(cooldown.storm ? { storm: cooldown.storm } : {})
                 }
               });
-              this.save(this.maybeApplyReasonQuarantineLock({ state: nextWithCooldown, summary, risk }));
+              this.save(this.maybeApplyReasonQuarantineLock({ state: nextWithCooldown, reasonCode, risk }));
               return;
             }
           }
@@ -8128,6 +9800,7 @@ export class BotEngineService implements OnModuleInit {
           const remainingSymbolNotional = Math.max(0, maxSymbolNotional - currentCandidateNotional);
 
           if (remainingSymbolNotional <= 0) {
+            const reasonCode: DecisionReasonCode = "MAX_SYMBOL_EXPOSURE";
             const summary = `Skip ${candidateSymbol}: Max symbol exposure reached (${maxPositionPct.toFixed(2)}%)`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -8139,10 +9812,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         maxPositionPct,
                         walletTotalHome: Number(walletTotalHome.toFixed(6)),
                         currentCandidateNotional: Number(currentCandidateNotional.toFixed(6))
@@ -8163,6 +9838,7 @@ export class BotEngineService implements OnModuleInit {
           const capForSizing = enforcedCap ? enforcedCap / bufferFactor : null;
           const targetNotional = Math.min(rawTargetNotional, capForSizing ?? rawTargetNotional, quoteFree, remainingSymbolNotional);
           if (!Number.isFinite(targetNotional) || targetNotional <= 0) {
+            const reasonCode: DecisionReasonCode = "TARGET_NOTIONAL_ZERO";
             const summary = `Skip ${candidateSymbol}: Target notional is zero`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -8171,7 +9847,7 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200),
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200),
               lastError: undefined
             } satisfies BotState;
             this.save(next);
@@ -8192,6 +9868,7 @@ export class BotEngineService implements OnModuleInit {
           }
           if (!qtyStr) {
             const reason = check.reason ?? "Binance min order constraints";
+            const reasonCode: DecisionReasonCode = "MIN_ORDER";
             const summary = `Skip ${candidateSymbol}: ${reason}`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -8200,7 +9877,7 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200),
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200),
               lastError: undefined
             } satisfies BotState;
             this.save(next);
@@ -8268,9 +9945,10 @@ export class BotEngineService implements OnModuleInit {
               qty = budgetQty;
               bufferedCost = budgetBufferedCost;
             } else {
+              const reasonCode: DecisionReasonCode = "RISK_BUDGET_CAP";
               const summary = `Skip ${candidateSymbol}: Risk budget market entry cap below exchange minimum`;
               const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), this.deriveCautionEntryPauseCooldownMs(risk));
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               const cooldownMs = cooldown.cooldownMs;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -8282,10 +9960,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           stage: "risk-budget-market-entry-size",
                           riskBudget: selectedRiskBudget,
                           riskBudgetBuyNotionalCapQuote,
@@ -8309,7 +9989,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Risk budget market entry cap below exchange minimum (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "RISK_BUDGET_MARKET_ENTRY_SIZE",
                   cooldownMs,
@@ -8326,6 +10006,7 @@ export class BotEngineService implements OnModuleInit {
           if (enforcedCap && Number.isFinite(bufferedCost)) {
             const capTolerance = Math.max(0.01, enforcedCap * 0.001);
             if (bufferedCost > enforcedCap + capTolerance) {
+              const reasonCode: DecisionReasonCode = "LIVE_NOTIONAL_CAP";
               const summary = `Skip ${candidateSymbol}: Would exceed live notional cap (cap ${enforcedCap.toFixed(2)} ${candidateQuoteAsset})`;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -8337,10 +10018,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           bufferedCost: Number(bufferedCost.toFixed(6)),
                           cap: Number(enforcedCap.toFixed(6)),
                           price: Number(price.toFixed(8)),
@@ -8381,9 +10064,10 @@ export class BotEngineService implements OnModuleInit {
             const shortfallTriggerRatio = Math.max(0.3, 0.8 - (risk / 100) * 0.5); // risk 0 -> 80%, risk 100 -> 30%
             const minShortfallToConvert = floorTopUpTarget * shortfallTriggerRatio;
             if (!requiresReserveRecovery && shortfall < minShortfallToConvert) {
+              const reasonCode: DecisionReasonCode = "INSUFFICIENT_BALANCE";
               const summary = `Skip ${candidateSymbol}: Insufficient ${candidateQuoteAsset} for estimated cost`;
               const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               const cooldownMs = cooldown.cooldownMs;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -8395,10 +10079,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           shortfall: Number(shortfall.toFixed(6)),
                           minShortfallToConvert: Number(minShortfallToConvert.toFixed(6)),
                           floorTopUpTarget: Number(floorTopUpTarget.toFixed(6)),
@@ -8422,7 +10108,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Cooldown after quote shortfall skip (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "SKIP_QUOTE_SHORTFALL",
                   cooldownMs,
@@ -8436,7 +10122,7 @@ export class BotEngineService implements OnModuleInit {
             }
             const conversionTarget = Math.max(shortfall * conversionTopUpReserveMultiplier, floorTopUpTarget, reserveTopUpNeeded);
             const conversionTopUpCooldownMs = Math.max(0, config?.advanced.conversionTopUpCooldownMs ?? 90_000);
-            const nowMs = Date.now();
+            const nowMs = this.clock.now();
             if (conversionTopUpCooldownMs > 0) {
               const lastConversionTrade = current.decisions.find((d) => {
                 if (d.kind !== "TRADE") return false;
@@ -8445,6 +10131,7 @@ export class BotEngineService implements OnModuleInit {
               });
               const lastConversionAt = lastConversionTrade ? Date.parse(lastConversionTrade.ts) : Number.NaN;
               if (Number.isFinite(lastConversionAt) && nowMs - lastConversionAt < conversionTopUpCooldownMs) {
+                const reasonCode: DecisionReasonCode = "CONVERSION_COOLDOWN";
                 const summary = `Skip ${candidateSymbol}: Conversion cooldown active`;
                 const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                 const next = {
@@ -8456,10 +10143,12 @@ export class BotEngineService implements OnModuleInit {
                     : [
                         {
                           id: crypto.randomUUID(),
-                          ts: new Date().toISOString(),
+                          ts: new Date(this.clock.now()).toISOString(),
                           kind: "SKIP",
                           summary,
+                          reasonCode,
                           details: {
+                            symbol: candidateSymbol,
                             conversionTopUpCooldownMs,
                             remainingMs: Math.max(0, Math.round(conversionTopUpCooldownMs - (nowMs - lastConversionAt))),
                             shortfall: Number(shortfall.toFixed(6)),
@@ -8487,7 +10176,7 @@ export class BotEngineService implements OnModuleInit {
                     if (o.side !== "BUY") return false;
                     if (o.status !== "FILLED" && o.status !== "NEW") return false;
                     const ts = Date.parse(o.ts);
-                    return Number.isFinite(ts) && Date.now() - ts < rebalanceSellCooldownMs;
+                    return Number.isFinite(ts) && this.clock.now() - ts < rebalanceSellCooldownMs;
                   })
                 : false;
 
@@ -8559,6 +10248,7 @@ export class BotEngineService implements OnModuleInit {
                   fallbackQty: Number.isFinite(fallbackQty) && fallbackQty > 0 ? fallbackQty : 0,
                   response: leg.response,
                   reason: `${leg.reason}${leg.bridgeAsset ? ` via ${leg.bridgeAsset}` : ""}`,
+                  reasonCode: "CONVERSION",
                   details: {
                     shortfall: Number(shortfall.toFixed(6)),
                     conversionTarget: Number(conversionTarget.toFixed(6)),
@@ -8582,10 +10272,11 @@ export class BotEngineService implements OnModuleInit {
               return;
             }
 
+            const reasonCode: DecisionReasonCode = "INSUFFICIENT_BALANCE";
             const summary = `Skip ${candidateSymbol}: Insufficient ${candidateQuoteAsset} for estimated cost`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
-            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
             const cooldownMs = cooldown.cooldownMs;
             const next = {
               ...current,
@@ -8596,10 +10287,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         bufferedCost: Number(bufferedCost.toFixed(6)),
                         availableQuote: Number(quoteFree.toFixed(6)),
                         shortfall: Number(shortfall.toFixed(6)),
@@ -8629,7 +10322,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cooldown.storm
                 ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                 : `Cooldown after quote-insufficient (no conversion route) (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: "SKIP_QUOTE_INSUFFICIENT",
                 cooldownMs,
@@ -8661,7 +10354,7 @@ export class BotEngineService implements OnModuleInit {
             const quoteReserveForBuy = this.deriveEffectiveQuoteReserveTargetForBuy({
               state: current,
               risk,
-              nowMs: Date.now(),
+              nowMs: this.clock.now(),
               reserveHardTarget,
               reserveHighTarget
             });
@@ -8673,7 +10366,7 @@ export class BotEngineService implements OnModuleInit {
                 .filter((order) => order.status === "NEW")
                 .filter((order) => {
                   const orderType = order.type.trim().toUpperCase();
-                  return orderType === "LIMIT" || orderType === "LIMIT_MAKER";
+                  return (orderType === "LIMIT" || orderType === "LIMIT_MAKER") && !this.isProtectiveBracketOrder(order, botPrefix);
                 })
                 .filter((order) => this.isBotOwnedOrder(order, botPrefix))
                 .map((order) => {
@@ -8709,11 +10402,12 @@ export class BotEngineService implements OnModuleInit {
               if (order.symbol !== candidateSymbol) return false;
               if (order.status !== "NEW") return false;
               const t = order.type.trim().toUpperCase();
-              return t === "LIMIT" || t === "LIMIT_MAKER";
+              return (t === "LIMIT" || t === "LIMIT_MAKER") && !this.isProtectiveBracketOrder(order, botPrefix);
             });
 
             const externalOpenLimits = symbolOpenLimitOrdersAll.filter((order) => !this.isBotOwnedOrder(order, botPrefix));
             if (externalOpenLimits.length > 0 && !manageExternalOpenOrders) {
+              const reasonCode: DecisionReasonCode = "EXTERNAL_OPEN_ORDERS";
               const summary = `Skip ${candidateSymbol}: External open LIMIT order(s) detected`;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -8723,10 +10417,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           externalOpenOrders: externalOpenLimits.map((o) => ({
                             id: o.id,
                             side: o.side,
@@ -8795,7 +10491,7 @@ export class BotEngineService implements OnModuleInit {
                 if (order.symbol !== candidateSymbol) return false;
                 if (order.status !== "NEW") return false;
                 const t = order.type.trim().toUpperCase();
-                return t === "LIMIT" || t === "LIMIT_MAKER";
+                return (t === "LIMIT" || t === "LIMIT_MAKER") && !this.isProtectiveBracketOrder(order, botPrefix);
               });
               this.save(current);
             }
@@ -8807,7 +10503,7 @@ export class BotEngineService implements OnModuleInit {
                 scope: "SYMBOL",
                 symbol: candidateSymbol,
                 reason: `Grid guard: pause BUY legs (${regime.label} ${Math.round(regime.confidence * 100)}%)`,
-                expiresAt: new Date(Date.now() + guardLockMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + guardLockMs).toISOString(),
                 details: {
                   regime,
                   pauseConfidenceThreshold,
@@ -8819,10 +10515,93 @@ export class BotEngineService implements OnModuleInit {
             const atr = Number.isFinite(selectedCandidate?.atrPct14) ? Math.max(0.1, selectedCandidate?.atrPct14 ?? 0.4) : 0.4;
             const gridSpacingPct = Math.max(0.2, Math.min(2.5, atr * (0.6 - (risk / 100) * 0.25)));
 
+            // The plan is kept across ticks; a new one is only sized when the price stayed outside the range for the
+            // re-centre window (an infinity grid trails upward right away) or the configured shape changed.
+            const gridLevelCount = config?.advanced.gridLevelCount ?? 6;
+            const gridSpacingMode = config?.advanced.gridSpacingMode ?? "GEOMETRIC";
+            const gridRangeMode = config?.advanced.gridRangeMode ?? "ATR";
+            const gridNowIso = new Date(this.clock.now()).toISOString();
+            let gridPlan = this.findGridPlan(current, candidateSymbol);
+            if (gridPlan) {
+              const tracked = trackGridRange(
+                gridRangeMode === "INFINITY" && gridPlan.rangeMode === "INFINITY"
+                  ? trailGridPlanUp(gridPlan, price, gridNowIso)
+                  : gridPlan,
+                price,
+                gridNowIso
+              );
+              if (tracked !== gridPlan) {
+                if (tracked.upperPrice !== gridPlan.upperPrice) {
+                  current = this.prependEngineDecision(
+                    current,
+                    `Grid plan ${candidateSymbol} trailed up: ${tracked.lowerPrice}–${tracked.upperPrice}`,
+                    {
+                      symbol: candidateSymbol,
+                      previousRange: [gridPlan.lowerPrice, gridPlan.upperPrice],
+                      levels: tracked.levels.length
+                    }
+                  );
+                }
+                gridPlan = tracked;
+                current = this.upsertGridPlan(current, gridPlan);
+                this.save(current);
+              }
+            }
+            if (
+              !gridPlan ||
+              isGridRecenterDue(gridPlan, {
+                price,
+                levelCount: gridLevelCount,
+                spacing: gridSpacingMode,
+                rangeMode: gridRangeMode,
+                nowMs: this.clock.now(),
+                recenterAfterMs: (config?.advanced.gridRecenterMinutes ?? 10) * 60_000
+              })
+            ) {
+              const replaced = gridPlan;
+              const bandRange =
+                gridRangeMode === "BOLLINGER"
+                  ? deriveBollingerGridRange({
+                      price,
+                      bollingerPosition20: selectedCandidate?.bollingerPosition20,
+                      bollingerWidthPct20: selectedCandidate?.bollingerWidthPct20,
+                      levelCount: gridLevelCount,
+                      spacing: gridSpacingMode
+                    })
+                  : null;
+              gridPlan = buildGridPlan(
+                {
+                  symbol: candidateSymbol,
+                  anchorPrice: bandRange?.anchorPrice ?? price,
+                  stepPct: bandRange?.stepPct ?? gridSpacingPct,
+                  levelCount: gridLevelCount,
+                  spacing: gridSpacingMode,
+                  rangeMode: gridRangeMode,
+                  nowIso: gridNowIso
+                },
+                replaced
+              );
+              current = this.prependEngineDecision(
+                this.upsertGridPlan(current, gridPlan),
+                `Grid plan ${candidateSymbol}: ${gridPlan.lowerPrice}–${gridPlan.upperPrice} (${gridPlan.levelCount} ${gridSpacingMode.toLowerCase()} levels, ${gridRangeMode.toLowerCase()} range)`,
+                {
+                  symbol: candidateSymbol,
+                  anchorPrice: gridPlan.anchorPrice,
+                  stepPct: gridPlan.stepPct,
+                  rangeMode: gridRangeMode,
+                  ...(gridRangeMode === "BOLLINGER" && !bandRange ? { bandFallback: "ATR" } : {}),
+                  replacedRange: replaced ? [replaced.lowerPrice, replaced.upperPrice] : null,
+                  outOfRangeSince: replaced?.outOfRangeSince ?? null
+                }
+              );
+              this.save(current);
+            }
+            const gridLegs = selectGridLegs(gridPlan, price);
+
             if (botOrderAutoCancelEnabled && config) {
               const ttlMs = Math.max(60_000, Math.round(config.advanced.botOrderStaleTtlMinutes * 60_000));
               const maxDistancePct = Math.max(0.1, config.advanced.botOrderMaxDistancePct);
-              const cancelDistancePct = Math.max(maxDistancePct, gridSpacingPct * 3);
+              const cancelDistancePct = Math.max(maxDistancePct, gridPlan.stepPct * 3);
 
               const stale = symbolOpenLimitOrdersAll
                 .filter((order) => this.isBotOwnedOrder(order, botPrefix))
@@ -8857,7 +10636,7 @@ export class BotEngineService implements OnModuleInit {
                   details: {
                     symbol: candidateSymbol,
                     marketPrice: Number(price.toFixed(8)),
-                    gridSpacingPct: Number(gridSpacingPct.toFixed(6)),
+                    gridSpacingPct: Number(gridPlan.stepPct.toFixed(6)),
                     staleTtlMinutes: config.advanced.botOrderStaleTtlMinutes,
                     cancelDistancePct: Number(cancelDistancePct.toFixed(6))
                   },
@@ -8871,7 +10650,7 @@ export class BotEngineService implements OnModuleInit {
               if (order.symbol !== candidateSymbol) return false;
               if (order.status !== "NEW") return false;
               const t = order.type.trim().toUpperCase();
-              if (t !== "LIMIT" && t !== "LIMIT_MAKER") return false;
+              if ((t !== "LIMIT" && t !== "LIMIT_MAKER") || this.isProtectiveBracketOrder(order, botPrefix)) return false;
               return manageExternalOpenOrders ? true : this.isBotOwnedOrder(order, botPrefix);
             });
 
@@ -8881,19 +10660,19 @@ export class BotEngineService implements OnModuleInit {
             const recentGridGuardPausedSkips = this.countRecentSymbolSkipMatches({
               state: current,
               symbol: candidateSymbol,
-              contains: "grid guard paused buy leg",
+              reasonCodes: ["GRID_GUARD_BUY_PAUSED"],
               windowMs: 30 * 60_000
             });
             const recentInventoryWaitingSkips = this.countRecentSymbolSkipMatches({
               state: current,
               symbol: candidateSymbol,
-              contains: "grid waiting for ladder slot or inventory",
+              reasonCodes: ["GRID_WAITING"],
               windowMs: 30 * 60_000
             });
             const recentGridSellSizingRejects = this.countRecentSymbolSkipMatches({
               state: current,
               symbol: candidateSymbol,
-              contains: "grid sell sizing rejected",
+              reasonCodes: ["GRID_SELL_SIZING_FLOOR", "GRID_SELL_SIZING_REJECTED"],
               windowMs: 30 * 60_000
             });
 
@@ -8933,7 +10712,7 @@ export class BotEngineService implements OnModuleInit {
                   return false;
                 }
                 const ts = Date.parse(decision.ts);
-                return Number.isFinite(ts) && Date.now() - ts < unwindPolicy.cooldownMs;
+                return Number.isFinite(ts) && this.clock.now() - ts < unwindPolicy.cooldownMs;
               });
 
               if (!recentUnwind) {
@@ -8993,6 +10772,7 @@ export class BotEngineService implements OnModuleInit {
                           fallbackQty: sellQty,
                           response: unwindRes,
                           reason: unwindReason,
+                          reasonCode: "RISK_UNWIND",
                           details: {
                             reason: unwindReason,
                             symbol: candidateSymbol,
@@ -9023,7 +10803,7 @@ export class BotEngineService implements OnModuleInit {
             if (!hasBuyLimit && quoteFree < reserveLowTarget && symbolOpenLimits.length < maxGridOrdersPerSymbol && config) {
               const conversionTarget = Math.max(floorTopUpTarget, reserveHighTarget - quoteFree);
               const conversionTopUpCooldownMs = Math.max(0, config.advanced.conversionTopUpCooldownMs ?? 90_000);
-              const nowMs = Date.now();
+              const nowMs = this.clock.now();
               const lastConversionTrade = conversionTopUpCooldownMs
                 ? current.decisions.find((d) => {
                     if (d.kind !== "TRADE") return false;
@@ -9066,6 +10846,7 @@ export class BotEngineService implements OnModuleInit {
                       fallbackQty: Number.isFinite(fallbackQty) && fallbackQty > 0 ? fallbackQty : 0,
                       response: leg.response,
                       reason: `${leg.reason}${leg.bridgeAsset ? ` via ${leg.bridgeAsset}` : ""}`,
+                      reasonCode: "CONVERSION",
                       details: {
                         mode: "conversion-router",
                         stage: "grid-reserve-recovery",
@@ -9096,6 +10877,7 @@ export class BotEngineService implements OnModuleInit {
             }
 
             if (symbolOpenLimits.length >= maxGridOrdersPerSymbol) {
+              const reasonCode: DecisionReasonCode = "GRID_LADDER_FULL";
               const summary = `Skip ${candidateSymbol}: Grid ladder full (${symbolOpenLimits.length}/${maxGridOrdersPerSymbol})`;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -9104,14 +10886,14 @@ export class BotEngineService implements OnModuleInit {
                 orderHistory: current.orderHistory,
                 decisions: alreadyLogged
                   ? current.decisions
-                  : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200),
+                  : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200),
                 lastError: undefined
               } satisfies BotState;
               this.save(next);
               return;
             }
-            const buyLimitPrice = Number((price * (1 - gridSpacingPct / 100)).toFixed(8));
-            const sellLimitPrice = Number((price * (1 + gridSpacingPct / 100)).toFixed(8));
+            const buyLimitPrice = gridLegs.buy?.price ?? Number.NaN;
+            const sellLimitPrice = gridLegs.sell?.price ?? Number.NaN;
             let placedGridOrder = false;
             let pendingNoActionState: BotState | null = null;
             const desiredSellQty = Math.min(baseFree, qty);
@@ -9130,15 +10912,20 @@ export class BotEngineService implements OnModuleInit {
                 : Number.NaN;
 
             if (!hasBuyLimit && buyPaused) {
+              const reasonCode: DecisionReasonCode = cautionPauseNewSymbols
+                ? "DAILY_LOSS_CAUTION"
+                : buyPausedByRiskBudget
+                  ? "RISK_BUDGET_PAUSED"
+                  : "GRID_GUARD_BUY_PAUSED";
               const summary = cautionPauseNewSymbols
                 ? `Skip ${candidateSymbol}: Daily loss caution paused GRID BUY leg`
                 : buyPausedByRiskBudget
                   ? `Skip ${candidateSymbol}: Risk budget paused GRID BUY leg`
                   : `Skip ${candidateSymbol}: Grid guard paused BUY leg`;
               const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), guardLockMs);
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               const cooldownMs = cooldown.cooldownMs;
-              const nowMs = Date.now();
+              const nowMs = this.clock.now();
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const lastSimilar = current.decisions.find((d) => d.kind === "SKIP" && d.summary === summary);
               const lastSimilarAt = lastSimilar ? Date.parse(lastSimilar.ts) : Number.NaN;
@@ -9150,10 +10937,12 @@ export class BotEngineService implements OnModuleInit {
                   decisions: [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         regime,
                         pauseConfidenceThreshold,
                         cautionModeActive,
@@ -9178,7 +10967,7 @@ export class BotEngineService implements OnModuleInit {
                   reason: cooldown.storm
                     ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                     : `Cooldown after grid guard buy pause (${Math.round(cooldownMs / 1000)}s)`,
-                  expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                  expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                   details: {
                     category: "GRID_GUARD_BUY_PAUSE",
                     cooldownMs,
@@ -9212,12 +11001,13 @@ export class BotEngineService implements OnModuleInit {
               if (placedGridOrder) {
                 return;
               }
+              const reasonCode: DecisionReasonCode = "GRID_SELL_NOT_ACTIONABLE";
               const summary = `Skip ${candidateSymbol}: Grid sell leg not actionable yet`;
               const baseCooldownMs = Math.max(
                 this.deriveNoActionSymbolCooldownMs(risk),
                 this.deriveGridSizingRejectCooldownMs({ risk, side: "SELL", reason: sellLegAssessment.reason ?? "not actionable" })
               );
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               let cooldownMs = cooldown.cooldownMs;
               const isHomeQuoteDustResidual =
                 candidateQuoteAsset === homeStable &&
@@ -9227,19 +11017,19 @@ export class BotEngineService implements OnModuleInit {
                 const recentNonActionableSellLegSkips = this.countRecentSymbolSkipMatches({
                   state: current,
                   symbol: candidateSymbol,
-                  contains: "grid sell leg not actionable yet",
+                  reasonCodes: ["GRID_SELL_NOT_ACTIONABLE"],
                   windowMs: 30 * 60_000
                 });
                 const recentNonActionableSellLegSkipsLong = this.countRecentSymbolSkipMatches({
                   state: current,
                   symbol: candidateSymbol,
-                  contains: "grid sell leg not actionable yet",
+                  reasonCodes: ["GRID_SELL_NOT_ACTIONABLE"],
                   windowMs: this.deriveDustResidualSoloLoopLookbackMs(risk)
                 });
                 const recentGridGuardBuyPauseSkips = this.countRecentSymbolSkipMatches({
                   state: current,
                   symbol: candidateSymbol,
-                  contains: "grid guard paused buy leg",
+                  reasonCodes: ["GRID_GUARD_BUY_PAUSED"],
                   windowMs: 30 * 60_000
                 });
                 if (
@@ -9263,10 +11053,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           desiredQty: Number(desiredSellQty.toFixed(8)),
                           normalizedQty: Number(sellLegAssessment.normalizedQty.toFixed(8)),
                           baseFree: Number(baseFree.toFixed(8)),
@@ -9291,7 +11083,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Cooldown after non-actionable sell leg (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "GRID_SELL_NOT_ACTIONABLE",
                   cooldownMs,
@@ -9308,6 +11100,7 @@ export class BotEngineService implements OnModuleInit {
             if (!hasBuyLimit && !buyPaused && Number.isFinite(buyLimitPrice) && buyLimitPrice > 0) {
               const buyPriceNorm = await this.marketData.normalizeLimitPrice(candidateSymbol, buyLimitPrice, "BUY");
 	              if (!buyPriceNorm.ok) {
+	                const reasonCode: DecisionReasonCode = "GRID_PRICE_INVALID";
 	                const summary = `Skip ${candidateSymbol}: Grid buy price invalid (${buyPriceNorm.reason})`;
 	                const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
 	                const next = {
@@ -9317,10 +11110,11 @@ export class BotEngineService implements OnModuleInit {
 	                    : [
 	                        {
                           id: crypto.randomUUID(),
-                          ts: new Date().toISOString(),
+                          ts: new Date(this.clock.now()).toISOString(),
                           kind: "SKIP",
                           summary,
-                          details: { ...buyPriceNorm, desiredPrice: buyLimitPrice }
+                          reasonCode,
+                          details: { symbol: candidateSymbol, ...buyPriceNorm, desiredPrice: buyLimitPrice }
                         },
                         ...current.decisions
                       ].slice(0, 200),
@@ -9338,9 +11132,10 @@ export class BotEngineService implements OnModuleInit {
                   : Number.POSITIVE_INFINITY;
               const buyQtyTarget = Math.min(qty, maxAffordableQty, maxRiskBudgetBuyQty);
               if (!Number.isFinite(buyQtyTarget) || buyQtyTarget <= 0) {
+                const reasonCode: DecisionReasonCode = "GRID_BUY_QUOTE_INSUFFICIENT";
                 const summary = `Skip ${candidateSymbol}: Insufficient spendable ${candidateQuoteAsset} for grid BUY`;
                 const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
-                const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+                const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
                 const cooldownMs = cooldown.cooldownMs;
                 const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                 const next = {
@@ -9352,10 +11147,13 @@ export class BotEngineService implements OnModuleInit {
                     : [
                         {
                           id: crypto.randomUUID(),
-                          ts: new Date().toISOString(),
+                          ts: new Date(this.clock.now()).toISOString(),
                           kind: "SKIP",
                           summary,
+                          reasonCode,
                           details: {
+                            symbol: candidateSymbol,
+                            quoteAsset: candidateQuoteAsset,
                             desiredQty: Number(qty.toFixed(8)),
                             maxAffordableQty: Number(maxAffordableQty.toFixed(8)),
                             maxRiskBudgetBuyQty: Number(
@@ -9384,7 +11182,7 @@ export class BotEngineService implements OnModuleInit {
                   reason: cooldown.storm
                     ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                     : `Cooldown after grid quote insufficiency (${Math.round(cooldownMs / 1000)}s)`,
-                  expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                  expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                   details: {
                     category: "GRID_BUY_QUOTE_INSUFFICIENT",
                     cooldownMs,
@@ -9392,7 +11190,7 @@ export class BotEngineService implements OnModuleInit {
                     ...(cooldown.storm ? { storm: cooldown.storm } : {})
                   }
                 });
-                pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, summary, risk });
+                pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, reasonCode, risk });
               } else {
                 const buyCheck = await this.marketData.validateLimitOrderQty(candidateSymbol, buyQtyTarget, buyPriceNorm.normalizedPrice);
               let buyQtyStr: string | undefined = buyCheck.ok ? buyCheck.normalizedQty : undefined;
@@ -9414,9 +11212,10 @@ export class BotEngineService implements OnModuleInit {
               if (buyQtyStr && Number.isFinite(buyQty) && buyQty > 0) {
                 const buyNotionalEstimate = buyQty * buyPrice * bufferFactor;
                 if (this.isBuyNotionalAboveCap({ notionalQuote: buyNotionalEstimate, capQuote: riskBudgetBuyNotionalCapQuote })) {
+                  const reasonCode: DecisionReasonCode = "RISK_BUDGET_CAP";
                   const summary = `Skip ${candidateSymbol}: Risk budget grid BUY cap below exchange minimum`;
                   const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), this.deriveCautionEntryPauseCooldownMs(risk));
-                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
                   const cooldownMs = cooldown.cooldownMs;
                   const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                   const next = {
@@ -9428,10 +11227,12 @@ export class BotEngineService implements OnModuleInit {
                       : [
                           {
                             id: crypto.randomUUID(),
-                            ts: new Date().toISOString(),
+                            ts: new Date(this.clock.now()).toISOString(),
                             kind: "SKIP",
                             summary,
+                            reasonCode,
                             details: {
+                              symbol: candidateSymbol,
                               stage: "risk-budget-grid-buy-size",
                               riskBudget: selectedRiskBudget,
                               riskBudgetBuyNotionalCapQuote,
@@ -9460,7 +11261,7 @@ export class BotEngineService implements OnModuleInit {
                     reason: cooldown.storm
                       ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                       : `Risk budget grid BUY cap below exchange minimum (${Math.round(cooldownMs / 1000)}s)`,
-                    expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                    expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                     details: {
                       category: "RISK_BUDGET_GRID_BUY_SIZE",
                       cooldownMs,
@@ -9514,11 +11315,13 @@ export class BotEngineService implements OnModuleInit {
                     fallbackQty: buyQty,
                     response: buyOrder,
                     reason: "grid-ladder-buy",
+                    reasonCode: "GRID_BUY",
                     details: {
                       mode: "grid-ladder",
                       gridSide: "BUY",
+                      gridLevel: gridLegs.buy?.index ?? null,
                       anchorPrice: Number(price.toFixed(8)),
-                      gridSpacingPct: Number(gridSpacingPct.toFixed(6)),
+                      gridSpacingPct: Number(gridPlan.stepPct.toFixed(6)),
                       limitPrice: buyPriceNorm.normalizedPrice,
                       riskBudgetBuyNotionalCapQuote:
                         riskBudgetBuyNotionalCapQuote !== null ? Number(riskBudgetBuyNotionalCapQuote.toFixed(6)) : null,
@@ -9532,6 +11335,19 @@ export class BotEngineService implements OnModuleInit {
                       }
                     }
                   });
+                  if (gridLegs.buy && buyOrder.orderId !== undefined) {
+                    current = this.upsertGridPlan(
+                      current,
+                      markGridLevelOrder(this.findGridPlan(current, candidateSymbol) ?? gridPlan, {
+                        index: gridLegs.buy.index,
+                        side: "BUY",
+                        orderId: String(buyOrder.orderId),
+                        qty: buyQty,
+                        nowIso: new Date(this.clock.now()).toISOString()
+                      })
+                    );
+                    this.save(current);
+                  }
                   placedGridOrder = true;
                   }
                 }
@@ -9543,9 +11359,10 @@ export class BotEngineService implements OnModuleInit {
                   quoteSpendable
                 });
                 if (sizingIsQuoteInsufficient) {
+                  const reasonCode: DecisionReasonCode = "GRID_BUY_QUOTE_INSUFFICIENT";
                   const summary = `Skip ${candidateSymbol}: Insufficient spendable ${candidateQuoteAsset} for grid BUY`;
                   const baseCooldownMs = this.deriveNoActionSymbolCooldownMs(risk);
-                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
                   const cooldownMs = cooldown.cooldownMs;
                   const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                   const next = {
@@ -9557,11 +11374,14 @@ export class BotEngineService implements OnModuleInit {
                       : [
                           {
                             id: crypto.randomUUID(),
-                            ts: new Date().toISOString(),
+                            ts: new Date(this.clock.now()).toISOString(),
                             kind: "SKIP",
                             summary,
+                            reasonCode,
                             details: {
+                              symbol: candidateSymbol,
                               ...buyCheck,
+                              quoteAsset: candidateQuoteAsset,
                               desiredQty: Number(qty.toFixed(8)),
                               maxAffordableQty: Number(maxAffordableQty.toFixed(8)),
                               limitPrice: buyPriceNorm.normalizedPrice,
@@ -9587,7 +11407,7 @@ export class BotEngineService implements OnModuleInit {
                     reason: cooldown.storm
                       ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                       : `Cooldown after grid quote insufficiency (${Math.round(cooldownMs / 1000)}s)`,
-                    expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                    expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                     details: {
                       category: "GRID_BUY_QUOTE_INSUFFICIENT",
                       cooldownMs,
@@ -9596,14 +11416,17 @@ export class BotEngineService implements OnModuleInit {
                       ...(cooldown.storm ? { storm: cooldown.storm } : {})
                     }
                   });
-                  pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, summary, risk });
+                  pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, reasonCode, risk });
                 } else {
+                const reasonCode: DecisionReasonCode = this.isSizingFloorRejectReason(buyCheck.reason ?? "")
+                  ? "GRID_BUY_SIZING_FLOOR"
+                  : "GRID_BUY_SIZING_REJECTED";
                 const summary = `Skip ${candidateSymbol}: Grid buy sizing rejected (${buyCheck.reason})`;
                 const baseCooldownMs = Math.max(
                   this.deriveNoActionSymbolCooldownMs(risk),
                   this.deriveGridSizingRejectCooldownMs({ risk, side: "BUY", reason: buyCheck.reason })
                 );
-                const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+                const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
                 const cooldownMs = cooldown.cooldownMs;
                 const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                 const next = {
@@ -9615,10 +11438,12 @@ export class BotEngineService implements OnModuleInit {
                     : [
                         {
                           id: crypto.randomUUID(),
-                          ts: new Date().toISOString(),
+                          ts: new Date(this.clock.now()).toISOString(),
                           kind: "SKIP",
                           summary,
+                          reasonCode,
                           details: {
+                            symbol: candidateSymbol,
                             ...buyCheck,
                             desiredQty: Number(qty.toFixed(8)),
                             maxAffordableQty: Number(maxAffordableQty.toFixed(8)),
@@ -9644,7 +11469,7 @@ export class BotEngineService implements OnModuleInit {
                   reason: cooldown.storm
                     ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                     : `Cooldown after grid buy sizing reject (${Math.round(cooldownMs / 1000)}s)`,
-                  expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                  expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                   details: {
                     category: "GRID_BUY_SIZING_REJECT",
                     cooldownMs,
@@ -9653,7 +11478,7 @@ export class BotEngineService implements OnModuleInit {
                     ...(cooldown.storm ? { storm: cooldown.storm } : {})
                   }
                 });
-                pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, summary, risk });
+                pendingNoActionState = this.maybeApplyReasonQuarantineLock({ state: pendingNoActionState, reasonCode, risk });
                 }
               }
               }
@@ -9663,6 +11488,7 @@ export class BotEngineService implements OnModuleInit {
               if (Number.isFinite(desiredSellQty) && desiredSellQty > 0) {
                 const sellPriceNorm = await this.marketData.normalizeLimitPrice(candidateSymbol, sellLimitPrice, "SELL");
                 if (!sellPriceNorm.ok) {
+                  const reasonCode: DecisionReasonCode = "GRID_PRICE_INVALID";
                   const summary = `Skip ${candidateSymbol}: Grid sell price invalid (${sellPriceNorm.reason})`;
                   const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                   const next = {
@@ -9674,10 +11500,11 @@ export class BotEngineService implements OnModuleInit {
                       : [
                           {
                             id: crypto.randomUUID(),
-                            ts: new Date().toISOString(),
+                            ts: new Date(this.clock.now()).toISOString(),
                             kind: "SKIP",
                             summary,
-                            details: { ...sellPriceNorm, desiredPrice: sellLimitPrice }
+                            reasonCode,
+                            details: { symbol: candidateSymbol, ...sellPriceNorm, desiredPrice: sellLimitPrice }
                           },
                           ...current.decisions
                         ].slice(0, 200),
@@ -9731,11 +11558,13 @@ export class BotEngineService implements OnModuleInit {
                       fallbackQty: sellQty,
                       response: sellOrder,
                       reason: "grid-ladder-sell",
+                      reasonCode: "GRID_SELL",
                       details: {
                         mode: "grid-ladder",
                         gridSide: "SELL",
+                        gridLevel: gridLegs.sell?.index ?? null,
                         anchorPrice: Number(price.toFixed(8)),
-                        gridSpacingPct: Number(gridSpacingPct.toFixed(6)),
+                        gridSpacingPct: Number(gridPlan.stepPct.toFixed(6)),
                         limitPrice: sellPriceNorm.normalizedPrice,
                         validation: {
                           ok: sellCheck.ok,
@@ -9746,6 +11575,19 @@ export class BotEngineService implements OnModuleInit {
                         }
                       }
                     });
+                    if (gridLegs.sell && sellOrder.orderId !== undefined) {
+                      current = this.upsertGridPlan(
+                        current,
+                        markGridLevelOrder(this.findGridPlan(current, candidateSymbol) ?? gridPlan, {
+                          index: gridLegs.sell.index,
+                          side: "SELL",
+                          orderId: String(sellOrder.orderId),
+                          qty: sellQty,
+                          nowIso: new Date(this.clock.now()).toISOString()
+                        })
+                      );
+                      this.save(current);
+                    }
                     if (
                       config &&
                       this.shouldApplyParkedSellLadderCooldown({
@@ -9763,7 +11605,7 @@ export class BotEngineService implements OnModuleInit {
                         scope: "SYMBOL",
                         symbol: candidateSymbol,
                         reason: `Cooldown after guarded sell ladder (${Math.round(cooldownMs / 1000)}s)`,
-                        expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                        expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                         details: {
                           category: "GRID_GUARD_SELL_LADDER",
                           cooldownMs,
@@ -9771,7 +11613,7 @@ export class BotEngineService implements OnModuleInit {
                           buyPaused,
                           buyPausedByCaution,
                           limitPrice: sellPriceNorm.normalizedPrice,
-                          gridSpacingPct: Number(gridSpacingPct.toFixed(6))
+                          gridSpacingPct: Number(gridPlan.stepPct.toFixed(6))
                         }
                       });
                       this.save(current);
@@ -9779,12 +11621,15 @@ export class BotEngineService implements OnModuleInit {
                     placedGridOrder = true;
                   }
                 } else if (sellCheck.reason) {
+                  const reasonCode: DecisionReasonCode = this.isSizingFloorRejectReason(sellCheck.reason ?? "")
+                    ? "GRID_SELL_SIZING_FLOOR"
+                    : "GRID_SELL_SIZING_REJECTED";
                   const summary = `Skip ${candidateSymbol}: Grid sell sizing rejected (${sellCheck.reason})`;
                   const baseCooldownMs = Math.max(
                     this.deriveNoActionSymbolCooldownMs(risk),
                     this.deriveGridSizingRejectCooldownMs({ risk, side: "SELL", reason: sellCheck.reason })
                   );
-                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+                  const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
                   const cooldownMs = cooldown.cooldownMs;
                   const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
                   const next = {
@@ -9796,10 +11641,12 @@ export class BotEngineService implements OnModuleInit {
                       : [
                           {
                             id: crypto.randomUUID(),
-                            ts: new Date().toISOString(),
+                            ts: new Date(this.clock.now()).toISOString(),
                             kind: "SKIP",
                             summary,
+                            reasonCode,
                             details: {
+                              symbol: candidateSymbol,
                               ...sellCheck,
                               desiredQty: Number(desiredSellQty.toFixed(8)),
                               baseFree: Number(baseFree.toFixed(8)),
@@ -9819,7 +11666,7 @@ export class BotEngineService implements OnModuleInit {
                     reason: cooldown.storm
                       ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                       : `Cooldown after grid sell sizing reject (${Math.round(cooldownMs / 1000)}s)`,
-                    expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                    expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                     details: {
                       category: "GRID_SELL_SIZING_REJECT",
                       cooldownMs,
@@ -9828,7 +11675,7 @@ export class BotEngineService implements OnModuleInit {
                       ...(cooldown.storm ? { storm: cooldown.storm } : {})
                     }
                   });
-                  const withReasonQuarantine = this.maybeApplyReasonQuarantineLock({ state: nextWithCooldown, summary, risk });
+                  const withReasonQuarantine = this.maybeApplyReasonQuarantineLock({ state: nextWithCooldown, reasonCode, risk });
                   if (!pendingNoActionState) pendingNoActionState = withReasonQuarantine;
                 }
               }
@@ -9844,13 +11691,14 @@ export class BotEngineService implements OnModuleInit {
             }
 
             if (buyPaused && !hasSellLimit && (!Number.isFinite(baseFree) || baseFree <= 0)) {
+              const reasonCode: DecisionReasonCode = "GRID_NO_INVENTORY";
               const summary = `Skip ${candidateSymbol}: Grid guard active (no inventory to sell)`;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const baseCooldownMs = Math.max(
                 this.deriveNoActionSymbolCooldownMs(risk),
                 this.deriveGridGuardNoInventoryCooldownMs(risk)
               );
-              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+              const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
               const cooldownMs = cooldown.cooldownMs;
               const next = {
                 ...current,
@@ -9859,10 +11707,12 @@ export class BotEngineService implements OnModuleInit {
                   : [
                       {
                         id: crypto.randomUUID(),
-                        ts: new Date().toISOString(),
+                        ts: new Date(this.clock.now()).toISOString(),
                         kind: "SKIP",
                         summary,
+                        reasonCode,
                         details: {
+                          symbol: candidateSymbol,
                           baseFree: Number((Number.isFinite(baseFree) ? baseFree : 0).toFixed(8)),
                           cooldownMs,
                           regime,
@@ -9881,7 +11731,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Grid guard active; rotating away (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "GRID_GUARD_ROTATE",
                   cooldownMs,
@@ -9894,8 +11744,9 @@ export class BotEngineService implements OnModuleInit {
               return;
             }
 
+            const reasonCode: DecisionReasonCode = "GRID_WAITING";
             const summary = `Skip ${candidateSymbol}: Grid waiting for ladder slot or inventory`;
-            const nowMs = Date.now();
+            const nowMs = this.clock.now();
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const lastSimilar = current.decisions.find((d) => d.kind === "SKIP" && d.summary === summary);
             const lastSimilarAt = lastSimilar ? Date.parse(lastSimilar.ts) : Number.NaN;
@@ -9907,7 +11758,7 @@ export class BotEngineService implements OnModuleInit {
               hasSellLimit,
               staleTtlMinutes: config?.advanced.botOrderStaleTtlMinutes
             });
-            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
             const cooldownMs = cooldown.cooldownMs;
             const next = {
               ...current,
@@ -9916,10 +11767,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         hasBuyLimit,
                         hasSellLimit,
                         openLimitOrders: symbolOpenLimits.length,
@@ -9941,7 +11794,7 @@ export class BotEngineService implements OnModuleInit {
                 reason: cooldown.storm
                   ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                   : `Grid ladder waiting; rotating away (${Math.round(cooldownMs / 1000)}s)`,
-                expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+                expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
                 details: {
                   category: "GRID_WAIT_ROTATE",
                   cooldownMs,
@@ -9960,11 +11813,12 @@ export class BotEngineService implements OnModuleInit {
 
           const marketEntryPausedByRiskBudget = !selectedRiskBudget.allowedActions.marketEntry;
           if (cautionPauseNewSymbols || marketEntryPausedByRiskBudget) {
+            const reasonCode: DecisionReasonCode = cautionPauseNewSymbols ? "DAILY_LOSS_CAUTION" : "RISK_BUDGET_PAUSED";
             const summary = cautionPauseNewSymbols
               ? `Skip ${candidateSymbol}: Daily loss caution paused MARKET entry`
               : `Skip ${candidateSymbol}: Risk budget paused MARKET entry`;
             const baseCooldownMs = Math.max(this.deriveNoActionSymbolCooldownMs(risk), this.deriveCautionEntryPauseCooldownMs(risk));
-            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary });
+            const cooldown = this.deriveInfeasibleSymbolCooldown({ state: current, symbol: candidateSymbol, risk, baseCooldownMs, summary, reasonCode });
             const cooldownMs = cooldown.cooldownMs;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -9976,10 +11830,12 @@ export class BotEngineService implements OnModuleInit {
                 : [
                     {
                       id: crypto.randomUUID(),
-                      ts: new Date().toISOString(),
+                      ts: new Date(this.clock.now()).toISOString(),
                       kind: "SKIP",
                       summary,
+                      reasonCode,
                       details: {
+                        symbol: candidateSymbol,
                         stage: "daily-loss-caution-market-entry",
                         candidateSymbol,
                         riskState: dailyLossGuard.state,
@@ -10007,7 +11863,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cautionPauseNewSymbols
                 ? `Daily loss caution paused market entry (${Math.round(cooldownMs / 1000)}s)`
                 : `Risk budget paused market entry (${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: cautionPauseNewSymbols ? "DAILY_LOSS_CAUTION_MARKET_ENTRY" : "RISK_BUDGET_MARKET_ENTRY",
                 cooldownMs,
@@ -10062,13 +11918,21 @@ export class BotEngineService implements OnModuleInit {
                 fallbackQty: entryQty,
                 response: res,
                 reason: retriedSizing ? "entry-retry-sizing" : "entry",
+                reasonCode: "ENTRY",
                 details: {
+                  ...(aiDecision ? { ai: this.toAiDecisionDetails(aiDecision, aiMin) } : {}),
+                  strategy: selectedStrategy.recommended,
                   riskBudget: selectedRiskBudget,
                   riskBudgetBuyNotionalCapQuote:
                     riskBudgetBuyNotionalCapQuote !== null ? Number(riskBudgetBuyNotionalCapQuote.toFixed(6)) : null,
                   riskBudgetMaxNewExposureHome: Number(selectedRiskBudget.maxNewExposureHome.toFixed(6))
                 }
               });
+              const withStrategy = this.recordPositionStrategy(current, candidateSymbol, selectedStrategy.recommended);
+              if (withStrategy !== current) {
+                current = withStrategy;
+                this.save(current);
+              }
               break;
             } catch (entryErr) {
               const msg = entryErr instanceof Error ? entryErr.message : String(entryErr);
@@ -10102,14 +11966,18 @@ export class BotEngineService implements OnModuleInit {
           const operationSymbol = liveOperation.symbol?.trim().toUpperCase() || candidateSymbol;
           const operationTag = operationSide ? `${operationStage}:${operationSide}` : operationStage;
           const recentInsufficientCount = insufficientBalanceError
-            ? this.countRecentSymbolErrorSkips({
+            ? this.countRecentInsufficientBalanceRejects({
                 state: current,
                 symbol: operationSymbol,
-                matcher: /INSUFFICIENT BALANCE/i,
                 windowMs: 30 * 60_000
               }) + 1
             : 0;
           const backoffDetails = transient ? this.registerTransientExchangeError(rawMsg, safeMsg) : null;
+          const reasonCode: DecisionReasonCode = sizingFilterError
+            ? "SIZING_FILTER"
+            : transient
+              ? "EXCHANGE_BACKOFF"
+              : "ORDER_REJECTED";
           const summary = sizingFilterError
             ? `Skip ${operationSymbol}: Binance sizing filter (${safeMsg})`
             : transient
@@ -10117,6 +11985,7 @@ export class BotEngineService implements OnModuleInit {
               : `Order rejected (${operationTag}) for ${operationSymbol} (${envLabel}): ${safeMsg}`;
           const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
           const decisionDetails: Record<string, unknown> = {
+            symbol: operationSymbol,
             stage: operationStage,
             ...(operationSide ? { side: operationSide } : {}),
             ...(liveOperation.asset ? { asset: liveOperation.asset } : {}),
@@ -10126,9 +11995,10 @@ export class BotEngineService implements OnModuleInit {
           };
           const skipDecision = {
             id: crypto.randomUUID(),
-            ts: new Date().toISOString(),
+            ts: new Date(this.clock.now()).toISOString(),
             kind: "SKIP",
             summary,
+            reasonCode,
             details: {
               ...decisionDetails,
               ...(backoffDetails
@@ -10157,7 +12027,7 @@ export class BotEngineService implements OnModuleInit {
               scope: "SYMBOL",
               symbol: operationSymbol,
               reason: `Sizing cooldown after Binance filter error (${Math.round(sizingCooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + sizingCooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + sizingCooldownMs).toISOString(),
               details: {
                 category: "SIZING_FILTER",
                 cooldownMs: sizingCooldownMs,
@@ -10175,7 +12045,8 @@ export class BotEngineService implements OnModuleInit {
               symbol: operationSymbol,
               risk,
               baseCooldownMs: insufficientBaseCooldownMs,
-              summary
+              summary,
+              reasonCode
             });
             const cooldownMs = Math.max(cooldown.cooldownMs, insufficientBaseCooldownMs);
             nextState = this.upsertProtectionLock(nextState, {
@@ -10185,7 +12056,7 @@ export class BotEngineService implements OnModuleInit {
               reason: cooldown.storm
                 ? `Skip storm (${cooldown.storm.count}/${cooldown.storm.threshold}): ${cooldown.storm.problem} (${Math.round(cooldownMs / 1000)}s)`
                 : `Cooldown after insufficient balance (${operationTag}, ${Math.round(cooldownMs / 1000)}s)`,
-              expiresAt: new Date(Date.now() + cooldownMs).toISOString(),
+              expiresAt: new Date(this.clock.now() + cooldownMs).toISOString(),
               details: {
                 category: "INSUFFICIENT_BALANCE",
                 stage: operationStage,
@@ -10202,7 +12073,7 @@ export class BotEngineService implements OnModuleInit {
             const ttlMinutes = insufficientBalanceError
               ? this.deriveInsufficientBalanceBlacklistTtlMinutes(baseTtlMinutes, recentInsufficientCount)
               : baseTtlMinutes;
-            const now = new Date();
+            const now = new Date(this.clock.now());
             nextState = this.addSymbolBlacklist(nextState, {
               symbol: operationSymbol,
               reason: safeMsg.slice(0, 120),
@@ -10216,9 +12087,7 @@ export class BotEngineService implements OnModuleInit {
         }
       }
 
-      // Paper mode (stub execution)
-      const orderStatusRoll = Math.random();
-      const status: Order["status"] = orderStatusRoll < 0.35 ? "FILLED" : "NEW";
+      // Paper mode (simulated exchange)
       const desiredQty = 0.001;
       let normalizedQty = desiredQty;
       try {
@@ -10229,6 +12098,7 @@ export class BotEngineService implements OnModuleInit {
             if (Number.isFinite(req) && req > 0) {
               normalizedQty = req;
             } else {
+              const reasonCode: DecisionReasonCode = "INVALID_ORDER_QTY";
               const summary = `Skip ${candidateSymbol}: Invalid suggested qty for minNotional`;
               const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
               const next = {
@@ -10237,7 +12107,7 @@ export class BotEngineService implements OnModuleInit {
                 orderHistory: filled.orderHistory,
                 decisions: alreadyLogged
                   ? current.decisions
-                  : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+                  : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
               } satisfies BotState;
               this.save(next);
               return;
@@ -10254,6 +12124,7 @@ export class BotEngineService implements OnModuleInit {
                     .filter(Boolean)
                     .join(" · ")})`
                 : "";
+            const reasonCode: DecisionReasonCode = "MIN_ORDER";
             const summary = `Skip ${candidateSymbol}: ${reason}${details}`;
             const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
             const next = {
@@ -10262,7 +12133,7 @@ export class BotEngineService implements OnModuleInit {
               orderHistory: filled.orderHistory,
               decisions: alreadyLogged
                 ? current.decisions
-                : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "SKIP", summary }, ...current.decisions].slice(0, 200)
+                : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
             } satisfies BotState;
             this.save(next);
             return;
@@ -10275,30 +12146,63 @@ export class BotEngineService implements OnModuleInit {
         // ignore in paper mode
       }
 
-      const order: Order = {
-        id: crypto.randomUUID(),
-        ts: new Date().toISOString(),
-        symbol: candidateSymbol,
-        side: "BUY",
-        type: "MARKET",
-        status,
-        qty: normalizedQty
-      };
+      let paperEntry: PaperOrderResult | null = null;
+      let paperRejectReason = "Paper exchange unavailable";
+      if (this.paperExchange) {
+        try {
+          paperEntry = await this.paperExchange.placeOrder({
+            symbol: candidateSymbol,
+            side: "BUY",
+            type: "MARKET",
+            qty: normalizedQty
+          });
+        } catch (err) {
+          paperRejectReason = `Paper order rejected (${err instanceof Error ? err.message : String(err)})`;
+        }
+      }
+      if (!paperEntry) {
+        const reasonCode: DecisionReasonCode = "PAPER_REJECTED";
+        const summary = `Skip ${candidateSymbol}: ${paperRejectReason}`.slice(0, 240);
+        const alreadyLogged = current.decisions[0]?.kind === "SKIP" && current.decisions[0]?.summary === summary;
+        const next = {
+          ...current,
+          activeOrders: filled.activeOrders,
+          orderHistory: filled.orderHistory,
+          decisions: alreadyLogged
+            ? current.decisions
+            : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "SKIP", summary, reasonCode, details: { symbol: candidateSymbol } }, ...current.decisions].slice(0, 200)
+        } satisfies BotState;
+        this.save(next);
+        return;
+      }
 
+      const order = paperEntry.order;
+      const exitOrder = await this.placePaperTakeProfit({ order, risk });
       const decisionSummary =
-        status === "FILLED" ? `Order filled (stub) for ${candidateSymbol}` : `Placed a stub order candidate for ${candidateSymbol}`;
+        order.status === "FILLED"
+          ? `Paper BUY ${order.qty} ${candidateSymbol} @ ${order.price ?? "?"}${exitOrder ? ` · TP ${exitOrder.price ?? "?"}` : ""}`
+          : `Placed paper order for ${candidateSymbol}`;
 
       let nextState: BotState = {
         ...current,
         decisions: [
           {
             id: crypto.randomUUID(),
-            ts: new Date().toISOString(),
+            ts: new Date(this.clock.now()).toISOString(),
             kind: "PAPER",
             summary:
               aiEnabled && aiConfidence !== null
                 ? `${decisionSummary} (paper · AI ${aiConfidence}%)`
-                : `${decisionSummary} (paper)`
+                : `${decisionSummary} (paper)`,
+            details: {
+              orderId: order.id,
+              price: order.price,
+              qty: order.qty,
+              feeHome: order.feeHome,
+              ...(paperEntry.fill ? { liquidity: paperEntry.fill.liquidity, quoteQty: paperEntry.fill.quoteQty } : {}),
+              ...(exitOrder ? { takeProfitOrderId: exitOrder.id, takeProfitPrice: exitOrder.price } : {}),
+              ...(aiDecision ? { ai: this.toAiDecisionDetails(aiDecision, aiMin) } : {})
+            }
           },
           ...current.decisions
         ].slice(0, 200),
@@ -10307,11 +12211,14 @@ export class BotEngineService implements OnModuleInit {
         lastError: undefined
       };
 
-      if (status === "NEW") {
+      if (order.status === "NEW") {
         nextState = { ...nextState, activeOrders: [order, ...nextState.activeOrders].slice(0, 50) };
       } else {
         nextState = { ...nextState, orderHistory: [order, ...nextState.orderHistory].slice(0, 200) };
       }
+      if (exitOrder) {
+        nextState = { ...nextState, activeOrders: [exitOrder, ...nextState.activeOrders].slice(0, 50) };
+      }
 
       this.save(nextState);
     } finally {
@@ -10326,6 +12233,8 @@ export class BotEngineService implements OnModuleInit {
         });
       }
       this.tickInFlight = false;
+      this.notifyTick({ outcome: "COMPLETED", durationMs: Math.max(0, this.clock.now() - tickStartedAtMs) });
+      this.flushUserDataStreamOrders();
     }
   }
 
@@ -10336,10 +12245,11 @@ export class BotEngineService implements OnModuleInit {
     // Stop the loop first; then cancel bot-owned open orders best-effort.
     this.addDecision("ENGINE", "Stop requested");
 
-    if (this.loopTimer) clearInterval(this.loopTimer);
-    if (this.examineTimer) clearTimeout(this.examineTimer);
+    this.loopTimer?.cancel();
+    this.examineTimer?.cancel();
     this.loopTimer = null;
     this.examineTimer = null;
+    void this.userDataStream?.stop();
 
     state = this.getState();
     this.save({
@@ -10351,6 +12261,7 @@ export class BotEngineService implements OnModuleInit {
     const config = this.configService.load();
     if (config?.advanced.autoCancelBotOrdersOnStop) {
       const prefix = this.resolveBotOrderClientIdPrefix(config);
+      // Waiting on an in-flight tick is about real concurrency, not bot time.
       const waitUntil = Date.now() + 5_000;
       while (this.tickInFlight && Date.now() < waitUntil) {
         await new Promise((r) => setTimeout(r, 100));
@@ -10392,7 +12303,7 @@ export class BotEngineService implements OnModuleInit {
           lastError: safeMsg,
           decisions: alreadyLogged
             ? latest.decisions
-            : [{ id: crypto.randomUUID(), ts: new Date().toISOString(), kind: "ENGINE", summary }, ...latest.decisions].slice(0, 200)
+            : [{ id: crypto.randomUUID(), ts: new Date(this.clock.now()).toISOString(), kind: "ENGINE", summary }, ...latest.decisions].slice(0, 200)
         };
         this.save({
           ...withDecision,
@@ -10409,7 +12320,7 @@ export class BotEngineService implements OnModuleInit {
     const state = this.getState();
     const decision: Decision = {
       id: crypto.randomUUID(),
-      ts: new Date().toISOString(),
+      ts: new Date(this.clock.now()).toISOString(),
       kind,
       summary
     };
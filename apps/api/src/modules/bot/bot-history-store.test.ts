@@ -0,0 +1,173 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { BotState, Order } from "@autobot/shared";
+import { defaultBotState } from "@autobot/shared";
+
+import { BotHistoryStore } from "./bot-history-store";
+
+const tempDirs: string[] = [];
+
+function createDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-history-"));
+  tempDirs.push(dir);
+  return path.join(dir, "history");
+}
+
+function order(id: string, overrides: Partial<Order> = {}): Order {
+  return {
+    id,
+    ts: `2026-03-01T00:0${id.length % 10}:00.000Z`,
+    symbol: "BTCUSDC",
+    side: "BUY",
+    type: "MARKET",
+    status: "FILLED",
+    qty: 0.01,
+    price: 100_000,
+    feeHome: 1,
+    ...overrides
+  };
+}
+
+function decision(id: string, ts: string): BotState["decisions"][number] {
+  return { id, ts, kind: "SKIP", summary: `Skip BTCUSDC: ${id}` };
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("bot-history-store", () => {
+  it("imports a legacy state.json snapshot on first open and records the migration", () => {
+    const dir = createDir();
+    const legacy: BotState = {
+      ...defaultBotState(),
+      decisions: [decision("d2", "2026-03-01T00:02:00.000Z"), decision("d1", "2026-03-01T00:01:00.000Z")],
+      orderHistory: [order("o1")]
+    };
+
+    const store = new BotHistoryStore(dir);
+    store.open(() => legacy);
+
+    expect(store.getMeta()?.migratedFromState).toMatchObject({ decisions: 2, orders: 1 });
+    expect(store.listDecisions().map((d) => d.id)).toEqual(["d2", "d1"]);
+    expect(store.listFills()).toEqual([expect.objectContaining({ orderId: "o1", quoteQty: 1_000, feeHome: 1 })]);
+
+    let legacyLoads = 0;
+    const reopened = new BotHistoryStore(dir);
+    reopened.open(() => {
+      legacyLoads += 1;
+      return legacy;
+    });
+    expect(legacyLoads).toBe(0);
+    expect(reopened.listDecisions()).toHaveLength(2);
+  });
+
+  it("keeps history that rolls off the bounded state window and only appends changes", () => {
+    const dir = createDir();
+    const store = new BotHistoryStore(dir);
+    store.open(() => null);
+
+    const open = order("o1", { status: "NEW", type: "LIMIT" });
+    store.record({ ...defaultBotState(), decisions: [decision("d1", "2026-03-01T00:01:00.000Z")], activeOrders: [open] });
+    store.record({ ...defaultBotState(), decisions: [decision("d1", "2026-03-01T00:01:00.000Z")], activeOrders: [open] });
+    store.record({
+      ...defaultBotState(),
+      decisions: [decision("d2", "2026-03-01T00:02:00.000Z")],
+      activeOrders: [open],
+      orderHistory: [{ ...open, status: "FILLED" }]
+    });
+    store.record({ ...defaultBotState(), decisions: [], orderHistory: [] });
+
+    const orderRows = fs.readFileSync(path.join(dir, "orders.jsonl"), "utf-8").trim().split("\n");
+    expect(orderRows).toHaveLength(2);
+    expect(store.listOrders()).toEqual([expect.objectContaining({ id: "o1", status: "FILLED" })]);
+    expect(store.listDecisions().map((d) => d.id)).toEqual(["d2", "d1"]);
+    expect(store.listFills()).toHaveLength(1);
+  });
+
+  it("feeds each decision and fill to the observer once, replaying the stored rows on reopen", () => {
+    const dir = createDir();
+    const seen: string[] = [];
+    const observer = { decision: (d: { id: string }) => seen.push(d.id), fill: (f: { orderId: string }) => seen.push(f.orderId) };
+    const store = new BotHistoryStore(dir, undefined, observer);
+    store.open(() => null);
+    const state = { ...defaultBotState(), decisions: [decision("d1", "2026-03-01T00:01:00.000Z")], orderHistory: [order("o1")] };
+    store.record(state);
+    store.record(state);
+    expect(seen).toEqual(["d1", "o1"]);
+    expect(store.hasFill("o1")).toBe(true);
+    expect(store.hasDecision("d2")).toBe(false);
+
+    seen.length = 0;
+    new BotHistoryStore(dir, undefined, observer).open(() => null);
+    expect(seen).toEqual(["d1", "o1"]);
+  });
+
+  it("logs protection lock and blacklist set/cleared events", () => {
+    const dir = createDir();
+    const store = new BotHistoryStore(dir);
+    store.open(() => null);
+
+    const lock = {
+      id: "lock-1",
+      type: "COOLDOWN" as const,
+      scope: "SYMBOL" as const,
+      symbol: "BTCUSDC",
+      reason: "Cooldown",
+      createdAt: "2026-03-01T00:00:00.000Z",
+      expiresAt: "2026-03-01T01:00:00.000Z"
+    };
+    const entry = { symbol: "ETHUSDC", reason: "Rejects", createdAt: "2026-03-01T00:00:00.000Z", expiresAt: "2026-03-01T00:30:00.000Z" };
+    store.record({ ...defaultBotState(), protectionLocks: [lock], symbolBlacklist: [entry] });
+    store.record({ ...defaultBotState(), protectionLocks: [{ ...lock, expiresAt: "2026-03-01T02:00:00.000Z" }], symbolBlacklist: [] });
+    store.record({ ...defaultBotState(), protectionLocks: [] });
+
+    expect(store.listLockHistory().map((row) => [row.event, row.lock.expiresAt])).toEqual([
+      ["SET", "2026-03-01T01:00:00.000Z"],
+      ["SET", "2026-03-01T02:00:00.000Z"],
+      ["CLEARED", "2026-03-01T02:00:00.000Z"]
+    ]);
+    expect(store.listBlacklistHistory().map((row) => row.event)).toEqual(["SET", "CLEARED"]);
+  });
+
+  it("skips a torn trailing line when reloading", () => {
+    const dir = createDir();
+    const store = new BotHistoryStore(dir);
+    store.open(() => null);
+    store.record({ ...defaultBotState(), decisions: [decision("d1", "2026-03-01T00:01:00.000Z")] });
+    fs.appendFileSync(path.join(dir, "decisions.jsonl"), '{"recordedAt":"2026-03-01T00:02:00.000Z","decis');
+
+    const reopened = new BotHistoryStore(dir);
+    reopened.open(() => null);
+    expect(reopened.listDecisions().map((d) => d.id)).toEqual(["d1"]);
+
+    reopened.record({ ...defaultBotState(), decisions: [decision("d2", "2026-03-01T00:03:00.000Z")] });
+    expect(reopened.listDecisions().map((d) => d.id)).toEqual(["d2", "d1"]);
+  });
+
+  it("appends a correction row when a fill's fee becomes known after it was recorded", () => {
+    const dir = createDir();
+    const fees: Array<number | undefined> = [];
+    const observer = { decision: () => undefined, fill: (f: { feeHome?: number }) => fees.push(f.feeHome) };
+    const store = new BotHistoryStore(dir, undefined, observer);
+    store.open(() => null);
+
+    store.record({ ...defaultBotState(), orderHistory: [order("o1", { feeHome: undefined })] });
+    store.record({ ...defaultBotState(), orderHistory: [order("o1", { feeHome: 0.4 })] });
+    store.record({ ...defaultBotState(), orderHistory: [order("o1", { feeHome: 0.4 })] });
+
+    expect(fs.readFileSync(path.join(dir, "fills.jsonl"), "utf-8").trim().split("\n")).toHaveLength(2);
+    expect(store.listFills()).toEqual([expect.objectContaining({ orderId: "o1", feeHome: 0.4 })]);
+    expect(fees).toEqual([undefined]);
+
+    fees.length = 0;
+    new BotHistoryStore(dir, undefined, observer).open(() => null);
+    expect(fees).toEqual([0.4]);
+  });
+});
@@ -0,0 +1,363 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { BotState, Decision, Order, ProtectionLockEntry, SymbolBlacklistEntry } from "@autobot/shared";
+import { LegacyDecisionSchema, OrderSchema, ProtectionLockEntrySchema, SymbolBlacklistEntrySchema } from "@autobot/shared";
+import { z } from "zod";
+
+export const BOT_HISTORY_VERSION = 1 as const;
+
+const BotFillRecordSchema = z.object({
+  orderId: z.string().min(1),
+  ts: z.string().min(1),
+  symbol: z.string().min(1),
+  clientOrderId: z.string().min(1).optional(),
+  side: z.enum(["BUY", "SELL"]),
+  type: z.string().min(1),
+  qty: z.number().positive(),
+  price: z.number().nonnegative(),
+  quoteQty: z.number().nonnegative(),
+  feeHome: z.number().nonnegative().optional()
+});
+export type BotFillRecord = z.infer<typeof BotFillRecordSchema>;
+
+const HistoryEventSchema = z.enum(["SET", "CLEARED"]);
+export type BotHistoryEvent = z.infer<typeof HistoryEventSchema>;
+
+// Rows are never rewritten, so decisions appended by builds that predate reason codes are upgraded on read.
+const DecisionRowSchema = z.object({ recordedAt: z.string().min(1), decision: LegacyDecisionSchema });
+const OrderRowSchema = z.object({ recordedAt: z.string().min(1), order: OrderSchema });
+const FillRowSchema = z.object({ recordedAt: z.string().min(1), fill: BotFillRecordSchema });
+const LockRowSchema = z.object({ recordedAt: z.string().min(1), event: HistoryEventSchema, lock: ProtectionLockEntrySchema });
+const BlacklistRowSchema = z.object({
+  recordedAt: z.string().min(1),
+  event: HistoryEventSchema,
+  entry: SymbolBlacklistEntrySchema
+});
+export type BotLockHistoryRow = z.infer<typeof LockRowSchema>;
+export type BotBlacklistHistoryRow = z.infer<typeof BlacklistRowSchema>;
+
+const BotHistoryMetaSchema = z.object({
+  version: z.literal(BOT_HISTORY_VERSION),
+  createdAt: z.string().min(1),
+  migratedFromState: z
+    .object({
+      at: z.string().min(1),
+      decisions: z.number().int().nonnegative(),
+      orders: z.number().int().nonnegative(),
+      protectionLocks: z.number().int().nonnegative(),
+      symbolBlacklist: z.number().int().nonnegative()
+    })
+    .optional()
+});
+export type BotHistoryMeta = z.infer<typeof BotHistoryMetaSchema>;
+
+type BotHistoryTable = "decisions" | "orders" | "fills" | "locks" | "blacklist";
+
+function atomicWriteFile(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, data, { encoding: "utf-8" });
+  fs.renameSync(tmpPath, filePath);
+}
+
+function readRows<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  const rows: T[] = [];
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = schema.safeParse(JSON.parse(line));
+      if (parsed.success) rows.push(parsed.data);
+    } catch {
+      // A torn trailing line (crash mid-append) is skipped; everything before it is intact.
+    }
+  }
+  return rows;
+}
+
+function endsWithNewline(filePath: string): boolean {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    if (size === 0) return true;
+    const last = Buffer.alloc(1);
+    fs.readSync(fd, last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** The fill row recorded for a FILLED order. */
+export function toBotFillRecord(order: Order): BotFillRecord {
+  const price = order.price ?? 0;
+  return {
+    orderId: order.id,
+    ts: order.ts,
+    symbol: order.symbol,
+    ...(order.clientOrderId ? { clientOrderId: order.clientOrderId } : {}),
+    side: order.side,
+    type: order.type,
+    qty: order.qty,
+    price,
+    quoteQty: order.qty * price,
+    ...(order.feeHome !== undefined ? { feeHome: order.feeHome } : {})
+  };
+}
+
+/**
+ * Receives every decision and fill once, oldest first: the stored rows on open, then each newly recorded one.
+ * A fee that only becomes known after its fill was recorded reaches the observer on the next open, not live.
+ */
+export type BotHistoryObserver = {
+  decision(decision: Decision): void;
+  fill(fill: BotFillRecord): void;
+};
+
+function orderFingerprint(order: Order): string {
+  return [order.status, order.qty, order.price ?? "", order.feeHome ?? "", order.clientOrderId ?? ""].join("|");
+}
+
+function blacklistKey(entry: SymbolBlacklistEntry): string {
+  return `${entry.symbol}|${entry.createdAt}`;
+}
+
+/**
+ * Append-only lifetime history of the bot (decisions, orders, fills, protection locks, blacklist),
+ * stored as JSONL tables under `DATA_DIR/history`.
+ *
+ * `state.json` stays the bounded working set the engine mutates every tick; this store keeps
+ * everything that rolls off it so PnL, run stats and triage can see the whole life of a bot.
+ * Only id indexes stay in memory; the rows are read back from disk when listed, and running
+ * aggregates are fed through the observer. A fill recorded before its fee was known gets a
+ * correction row once the fee arrives; readers keep the last row of each fill.
+ */
+export class BotHistoryStore {
+  private opened = false;
+  private readonly decisionIds = new Set<string>();
+  private readonly orderFingerprints = new Map<string, string>();
+  private readonly settledOrderIds = new Set<string>();
+  // Fee in home currency last recorded per filled order id (undefined while still unknown).
+  private readonly fillFees = new Map<string, number | undefined>();
+  private readonly newlineCheckedTables = new Set<BotHistoryTable>();
+  private readonly activeLocks = new Map<string, ProtectionLockEntry>();
+  private readonly activeBlacklist = new Map<string, SymbolBlacklistEntry>();
+  private meta: BotHistoryMeta | null = null;
+  private metaPersisted = false;
+
+  constructor(
+    private readonly dir: string,
+    private readonly now: () => number = () => Date.now(),
+    private readonly observer?: BotHistoryObserver
+  ) {}
+
+  private get metaPath(): string {
+    return path.join(this.dir, "meta.json");
+  }
+
+  private tablePath(table: BotHistoryTable): string {
+    return path.join(this.dir, `${table}.jsonl`);
+  }
+
+  /**
+   * Loads the tables into memory (once). On first open (no `meta.json` yet) the legacy state is imported,
+   * so installs that only ever had `state.json` keep the history they still have.
+   */
+  open(loadLegacyState: () => BotState | null): void {
+    if (this.opened) return;
+    this.opened = true;
+
+    for (const row of readRows(this.tablePath("decisions"), DecisionRowSchema)) {
+      if (this.decisionIds.has(row.decision.id)) continue;
+      this.decisionIds.add(row.decision.id);
+      this.observer?.decision(row.decision);
+    }
+    for (const row of readRows(this.tablePath("orders"), OrderRowSchema)) {
+      this.orderFingerprints.set(row.order.id, orderFingerprint(row.order));
+      if (row.order.status === "NEW") this.settledOrderIds.delete(row.order.id);
+      else this.settledOrderIds.add(row.order.id);
+    }
+    const fills = new Map<string, BotFillRecord>();
+    for (const row of readRows(this.tablePath("fills"), FillRowSchema)) {
+      fills.set(row.fill.orderId, row.fill);
+    }
+    for (const fill of fills.values()) {
+      this.fillFees.set(fill.orderId, fill.feeHome);
+      this.observer?.fill(fill);
+    }
+    for (const row of readRows(this.tablePath("locks"), LockRowSchema)) {
+      if (row.event === "SET") this.activeLocks.set(row.lock.id, row.lock);
+      else this.activeLocks.delete(row.lock.id);
+    }
+    for (const row of readRows(this.tablePath("blacklist"), BlacklistRowSchema)) {
+      if (row.event === "SET") this.activeBlacklist.set(blacklistKey(row.entry), row.entry);
+      else this.activeBlacklist.delete(blacklistKey(row.entry));
+    }
+
+    if (fs.existsSync(this.metaPath)) {
+      try {
+        this.meta = BotHistoryMetaSchema.parse(JSON.parse(fs.readFileSync(this.metaPath, "utf-8")));
+        this.metaPersisted = true;
+        return;
+      } catch {
+        // Rewritten below; the tables themselves are the source of truth.
+      }
+    }
+
+    const nowIso = new Date(this.now()).toISOString();
+    this.meta = { version: BOT_HISTORY_VERSION, createdAt: nowIso };
+    const legacyState = loadLegacyState();
+    if (legacyState) {
+      this.meta.migratedFromState = {
+        at: nowIso,
+        decisions: legacyState.decisions.length,
+        orders: new Set([...legacyState.orderHistory, ...legacyState.activeOrders].map((o) => o.id)).size,
+        protectionLocks: legacyState.protectionLocks.length,
+        symbolBlacklist: legacyState.symbolBlacklist.length
+      };
+      this.record(legacyState);
+    }
+  }
+
+  /** Appends whatever in `state` is new or changed since the last call. Never rewrites existing rows. */
+  record(state: BotState): void {
+    if (!this.opened) {
+      throw new Error("Bot history store is not open");
+    }
+    const recordedAt = new Date(this.now()).toISOString();
+    const decisionRows: string[] = [];
+    const orderRows: string[] = [];
+    const fillRows: string[] = [];
+    const lockRows: string[] = [];
+    const blacklistRows: string[] = [];
+
+    const newDecisions = state.decisions
+      .filter((decision) => !this.decisionIds.has(decision.id))
+      .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+    for (const decision of newDecisions) {
+      this.decisionIds.add(decision.id);
+      this.observer?.decision(decision);
+      decisionRows.push(JSON.stringify({ recordedAt, decision }));
+    }
+
+    const orders = [...state.orderHistory].reverse().concat(state.activeOrders);
+    for (const order of orders) {
+      const fingerprint = orderFingerprint(order);
+      if (this.orderFingerprints.get(order.id) !== fingerprint) {
+        // A terminal status never goes back to NEW; ignore stale snapshots still lingering in activeOrders.
+        if (!(this.settledOrderIds.has(order.id) && order.status === "NEW")) {
+          this.orderFingerprints.set(order.id, fingerprint);
+          if (order.status !== "NEW") this.settledOrderIds.add(order.id);
+          orderRows.push(JSON.stringify({ recordedAt, order }));
+        }
+      }
+
+      if (order.status !== "FILLED") continue;
+      if (!this.fillFees.has(order.id)) {
+        const fill = toBotFillRecord(order);
+        this.fillFees.set(order.id, fill.feeHome);
+        this.observer?.fill(fill);
+        fillRows.push(JSON.stringify({ recordedAt, fill }));
+      } else if (order.feeHome !== undefined && this.fillFees.get(order.id) !== order.feeHome) {
+        this.fillFees.set(order.id, order.feeHome);
+        fillRows.push(JSON.stringify({ recordedAt, fill: toBotFillRecord(order) }));
+      }
+    }
+
+    const currentLocks = new Map((state.protectionLocks ?? []).map((lock) => [lock.id, lock] as const));
+    for (const [id, lock] of currentLocks) {
+      const known = this.activeLocks.get(id);
+      if (known && known.expiresAt === lock.expiresAt && known.reason === lock.reason) continue;
+      this.activeLocks.set(id, lock);
+      lockRows.push(JSON.stringify({ recordedAt, event: "SET", lock }));
+    }
+    for (const [id, lock] of [...this.activeLocks]) {
+      if (currentLocks.has(id)) continue;
+      this.activeLocks.delete(id);
+      lockRows.push(JSON.stringify({ recordedAt, event: "CLEARED", lock }));
+    }
+
+    const currentBlacklist = new Map((state.symbolBlacklist ?? []).map((entry) => [blacklistKey(entry), entry] as const));
+    for (const [key, entry] of currentBlacklist) {
+      const known = this.activeBlacklist.get(key);
+      if (known && known.expiresAt === entry.expiresAt) continue;
+      this.activeBlacklist.set(key, entry);
+      blacklistRows.push(JSON.stringify({ recordedAt, event: "SET", entry }));
+    }
+    for (const [key, entry] of [...this.activeBlacklist]) {
+      if (currentBlacklist.has(key)) continue;
+      this.activeBlacklist.delete(key);
+      blacklistRows.push(JSON.stringify({ recordedAt, event: "CLEARED", entry }));
+    }
+
+    this.append("decisions", decisionRows);
+    this.append("orders", orderRows);
+    this.append("fills", fillRows);
+    this.append("locks", lockRows);
+    this.append("blacklist", blacklistRows);
+  }
+
+  getMeta(): BotHistoryMeta | null {
+    return this.meta;
+  }
+
+  hasDecision(id: string): boolean {
+    return this.decisionIds.has(id);
+  }
+
+  hasFill(orderId: string): boolean {
+    return this.fillFees.has(orderId);
+  }
+
+  /** Lifetime decisions, newest first (same order as `BotState.decisions`). Reads the table from disk. */
+  listDecisions(): Decision[] {
+    const byId = new Map<string, Decision>();
+    for (const row of readRows(this.tablePath("decisions"), DecisionRowSchema)) {
+      if (!byId.has(row.decision.id)) byId.set(row.decision.id, row.decision);
+    }
+    return [...byId.values()].reverse();
+  }
+
+  /** Latest snapshot of every order ever seen, newest first (same order as `BotState.orderHistory`). Reads the table from disk. */
+  listOrders(): Order[] {
+    const byId = new Map<string, Order>();
+    for (const row of readRows(this.tablePath("orders"), OrderRowSchema)) {
+      const known = byId.get(row.order.id);
+      if (known && known.status !== "NEW" && row.order.status === "NEW") continue;
+      byId.set(row.order.id, row.order);
+    }
+    return [...byId.values()].sort((a, b) => Date.parse(b.ts) - Date.parse(a.ts));
+  }
+
+  /** Lifetime fills in the order they were first recorded, with their latest fee. Reads the table from disk. */
+  listFills(): BotFillRecord[] {
+    const byId = new Map<string, BotFillRecord>();
+    for (const row of readRows(this.tablePath("fills"), FillRowSchema)) {
+      byId.set(row.fill.orderId, row.fill);
+    }
+    return [...byId.values()];
+  }
+
+  listLockHistory(): BotLockHistoryRow[] {
+    return readRows(this.tablePath("locks"), LockRowSchema);
+  }
+
+  listBlacklistHistory(): BotBlacklistHistoryRow[] {
+    return readRows(this.tablePath("blacklist"), BlacklistRowSchema);
+  }
+
+  private append(table: BotHistoryTable, rows: string[]): void {
+    if (rows.length === 0) return;
+    fs.mkdirSync(this.dir, { recursive: true });
+    if (!this.metaPersisted && this.meta) {
+      // Written with the first row so read-only callers never leave an empty history directory behind.
+      atomicWriteFile(this.metaPath, JSON.stringify(this.meta, null, 2) + "\n");
+      this.metaPersisted = true;
+    }
+    const filePath = this.tablePath(table);
+    // Our own appends always end with a newline; only a crash mid-append on an earlier run can leave a torn line.
+    const needsNewline = !this.newlineCheckedTables.has(table) && fs.existsSync(filePath) && !endsWithNewline(filePath);
+    this.newlineCheckedTables.add(table);
+    fs.appendFileSync(filePath, `${needsNewline ? "\n" : ""}${rows.join("\n")}\n`, { encoding: "utf-8" });
+  }
+}
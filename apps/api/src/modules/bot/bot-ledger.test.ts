@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import type { Decision } from "@autobot/shared";
+
+import { BotLedger, type LedgerFill } from "./bot-ledger";
+
+function fill(orderId: string, ts: string, overrides: Partial<LedgerFill> = {}): LedgerFill {
+  return { orderId, ts, symbol: "BTCUSDC", side: "BUY", qty: 1, price: 100, feeHome: 0, ...overrides };
+}
+
+function skip(id: string, reasonCode: Decision["reasonCode"], summary: string): Decision {
+  return { id, ts: "2026-03-01T00:00:00.000Z", kind: "SKIP", summary, reasonCode };
+}
+
+describe("BotLedger", () => {
+  it("folds closes incrementally against the lifetime cost basis", () => {
+    const ledger = new BotLedger();
+    ledger.addFill(fill("b1", "2026-03-01T00:00:00.000Z", { feeHome: 1 }));
+    ledger.addFill(fill("s1", "2026-03-01T01:00:00.000Z", { side: "SELL", qty: 0.5, price: 120 }));
+    ledger.addFill(fill("s2", "2026-03-01T02:00:00.000Z", { side: "SELL", qty: 0.5, price: 80 }));
+
+    expect(ledger.getClosedPnlEvents()).toEqual([
+      expect.objectContaining({ pnlAbs: 9.5, closeCost: 50.5, positionClosed: false }),
+      expect.objectContaining({ pnlAbs: -10.5, closeCost: 50.5, positionClosed: true })
+    ]);
+    expect(ledger.getOpenPositions()).toEqual([]);
+    expect(ledger.getFillTotals()).toMatchObject({ filledOrders: 3, buys: 1, sells: 2, feesHome: 1 });
+    expect(ledger.getSymbolTotals()).toEqual([expect.objectContaining({ symbol: "BTCUSDC", netQty: 0, realizedPnl: -1 })]);
+  });
+
+  it("keeps only the recent window of closed events and fills", () => {
+    const ledger = new BotLedger();
+    ledger.addFill(fill("b1", "2026-03-01T00:00:00.000Z"));
+    ledger.addFill(fill("s1", "2026-03-01T01:00:00.000Z", { side: "SELL", price: 110 }));
+    ledger.addFill(fill("b2", "2026-03-10T00:00:00.000Z"));
+    ledger.addFill(fill("s2", "2026-03-10T01:00:00.000Z", { side: "SELL", price: 90, feeHome: 0.5 }));
+
+    expect(ledger.getClosedPnlEvents().map((event) => event.ts)).toEqual(["2026-03-10T01:00:00.000Z"]);
+    expect(ledger.summarizeFillsSince(0)).toEqual({ trades: 2, realizedPnlHome: -10, feesHome: 0.5 });
+    expect(ledger.getSymbolTotals()[0]).toMatchObject({ buys: 2, sells: 2, realizedPnl: 0 });
+  });
+
+  it("counts decisions by reason code and leaves the source untouched when a clone folds pending rows", () => {
+    const ledger = new BotLedger();
+    ledger.addDecision(skip("d1", "FEE_EDGE", "Skip BTCUSDC: fee edge"));
+    const copy = ledger.clone();
+    copy.addDecision(skip("d2", "FEE_EDGE", "Skip ETHUSDC: fee edge again"));
+    copy.addFill(fill("b1", "2026-03-01T00:00:00.000Z"));
+
+    expect(copy.getDecisionTotals().skipsByReasonCode.get("FEE_EDGE")).toEqual({ summary: "Skip ETHUSDC: fee edge again", count: 2 });
+    expect(copy.getDecisionTotals().bySymbol.get("ETHUSDC")).toEqual({ trades: 0, skips: 1 });
+    expect(ledger.getDecisionTotals()).toMatchObject({ decisions: 1, byKind: { SKIP: 1 } });
+    expect(ledger.getDecisionTotals().skipsByReasonCode.get("FEE_EDGE")?.count).toBe(1);
+    expect(ledger.getFillTotals().filledOrders).toBe(0);
+  });
+});
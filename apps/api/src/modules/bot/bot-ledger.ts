@@ -0,0 +1,356 @@
+import type { Decision, DecisionReasonCode } from "@autobot/shared";
+
+import type { BotFillRecord } from "./bot-history-store";
+
+// Closed-PnL events and recent fills older than this (before the newest one) are dropped; the protection and risk
+// budget lookbacks that read them span at most 24h.
+const RECENT_WINDOW_MS = 7 * 24 * 60 * 60_000;
+// Fees paid in the base asset leave a residual after the whole free balance is sold; a residual up to this share of
+// the position's peak quantity is dust, so the sell closes the position (Binance spot fees are at most 0.1% per fill).
+const POSITION_DUST_FRACTION = 0.005;
+
+/** True when `remainingQty` left by a sell is at most dust of a position that peaked at `peakQty`, so the sell closed it. */
+export function isPositionDust(remainingQty: number, peakQty: number): boolean {
+  return remainingQty <= Math.max(1e-12, peakQty * POSITION_DUST_FRACTION);
+}
+
+export type ClosedPnlEvent = {
+  symbol: string;
+  ts: string;
+  pnlAbs: number;
+  pnlPct: number;
+  /** Cost basis of the quantity closed by this fill (0 for fee-only events). */
+  closeCost: number;
+  /** False for partial closes (scale-outs) that leave part of the position open. */
+  positionClosed: boolean;
+};
+
+export type LedgerFill = Pick<BotFillRecord, "orderId" | "ts" | "symbol" | "side" | "qty" | "price" | "feeHome">;
+
+/** Lifetime fill totals of one symbol; `openCost` includes the buy fees of the open quantity. */
+export type LedgerSymbolTotals = {
+  symbol: string;
+  buys: number;
+  sells: number;
+  buyNotional: number;
+  sellNotional: number;
+  netQty: number;
+  openCost: number;
+  realizedPnl: number;
+  feesHome: number;
+  lastTradeTs?: string;
+};
+
+export type LedgerFillTotals = {
+  filledOrders: number;
+  buys: number;
+  sells: number;
+  buyNotional: number;
+  sellNotional: number;
+  feesHome: number;
+};
+
+export type LedgerDecisionTotals = {
+  decisions: number;
+  earliestTs?: string;
+  byKind: Record<string, number>;
+  tradesByReasonCode: Map<DecisionReasonCode, number>;
+  /** Count and latest summary per reason code ("OTHER" when unset), least recently seen first. */
+  skipsByReasonCode: Map<DecisionReasonCode, { summary: string; count: number }>;
+  /** TRADE / SKIP decisions per symbol (`details.symbol`, else the symbol in the summary). */
+  bySymbol: Map<string, { trades: number; skips: number }>;
+};
+
+type CostBasis = { netQty: number; costQuote: number; peakQty: number };
+type RecentFill = { tsMs: number; feeHome: number; grossPnl: number };
+
+const round = (value: number, decimals = 8): number => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+function decisionSymbol(decision: Decision): string | null {
+  const details = decision.details && typeof decision.details === "object" ? (decision.details as Record<string, unknown>) : undefined;
+  const fromDetails = typeof details?.symbol === "string" ? details.symbol.trim().toUpperCase() : "";
+  if (fromDetails.length >= 6) return fromDetails;
+  const raw = decision.summary.trim();
+  if (raw.length === 0) return null;
+  if (raw.startsWith("Skip ")) {
+    const rest = raw.slice(5);
+    const colonIndex = rest.indexOf(":");
+    const candidate = (colonIndex >= 0 ? rest.slice(0, colonIndex) : rest).trim().toUpperCase();
+    return candidate.length >= 6 ? candidate : null;
+  }
+  const tradeMatch = raw.match(/\b([A-Z0-9]{6,20})\b/);
+  return tradeMatch ? tradeMatch[1].trim().toUpperCase() : null;
+}
+
+/**
+ * Running aggregates over the bot's lifetime fills and decisions, folded once per row as the history store records
+ * it, so PnL, protections and run stats never re-scan the whole history. Per-fill detail is kept only for a bounded
+ * recent window.
+ */
+export class BotLedger {
+  private readonly pnlPositions = new Map<string, CostBasis>();
+  private readonly grossPositions = new Map<string, CostBasis>();
+  private readonly symbolTotals = new Map<string, LedgerSymbolTotals>();
+  private readonly fillTotals: LedgerFillTotals = { filledOrders: 0, buys: 0, sells: 0, buyNotional: 0, sellNotional: 0, feesHome: 0 };
+  private readonly decisionTotals: LedgerDecisionTotals = {
+    decisions: 0,
+    byKind: {},
+    tradesByReasonCode: new Map(),
+    skipsByReasonCode: new Map(),
+    bySymbol: new Map()
+  };
+  private closedPnlEvents: ClosedPnlEvent[] = [];
+  private newestEventMs = Number.NEGATIVE_INFINITY;
+  private recentFills: RecentFill[] = [];
+
+  /** Folds one filled order; callers pass each order once, oldest first. */
+  addFill(fill: LedgerFill): void {
+    this.fillTotals.filledOrders += 1;
+    this.foldClosedPnl(fill);
+    this.foldGross(fill);
+    this.foldSymbolTotals(fill);
+  }
+
+  /** Folds one decision; callers pass each decision once, oldest first. */
+  addDecision(decision: Decision): void {
+    const totals = this.decisionTotals;
+    totals.decisions += 1;
+    const tsMs = Date.parse(decision.ts);
+    if (Number.isFinite(tsMs) && (totals.earliestTs === undefined || tsMs < Date.parse(totals.earliestTs))) {
+      totals.earliestTs = decision.ts;
+    }
+    totals.byKind[decision.kind] = (totals.byKind[decision.kind] ?? 0) + 1;
+    if (decision.kind !== "TRADE" && decision.kind !== "SKIP") return;
+
+    const symbol = decisionSymbol(decision);
+    if (symbol) {
+      const activity = totals.bySymbol.get(symbol) ?? { trades: 0, skips: 0 };
+      if (decision.kind === "TRADE") activity.trades += 1;
+      else activity.skips += 1;
+      totals.bySymbol.set(symbol, activity);
+    }
+    const reasonCode = decision.reasonCode ?? "OTHER";
+    if (decision.kind === "TRADE") {
+      totals.tradesByReasonCode.set(reasonCode, (totals.tradesByReasonCode.get(reasonCode) ?? 0) + 1);
+      return;
+    }
+    const skipStats = totals.skipsByReasonCode.get(reasonCode);
+    totals.skipsByReasonCode.delete(reasonCode);
+    totals.skipsByReasonCode.set(reasonCode, { summary: decision.summary, count: (skipStats?.count ?? 0) + 1 });
+  }
+
+  clone(): BotLedger {
+    const copy = new BotLedger();
+    for (const [symbol, position] of this.pnlPositions) copy.pnlPositions.set(symbol, { ...position });
+    for (const [symbol, position] of this.grossPositions) copy.grossPositions.set(symbol, { ...position });
+    for (const [symbol, totals] of this.symbolTotals) copy.symbolTotals.set(symbol, { ...totals });
+    Object.assign(copy.fillTotals, this.fillTotals);
+    copy.decisionTotals.decisions = this.decisionTotals.decisions;
+    copy.decisionTotals.earliestTs = this.decisionTotals.earliestTs;
+    copy.decisionTotals.byKind = { ...this.decisionTotals.byKind };
+    copy.decisionTotals.tradesByReasonCode = new Map(this.decisionTotals.tradesByReasonCode);
+    copy.decisionTotals.skipsByReasonCode = new Map(
+      [...this.decisionTotals.skipsByReasonCode].map(([code, stats]) => [code, { ...stats }] as const)
+    );
+    copy.decisionTotals.bySymbol = new Map([...this.decisionTotals.bySymbol].map(([symbol, stats]) => [symbol, { ...stats }] as const));
+    copy.closedPnlEvents = [...this.closedPnlEvents];
+    copy.newestEventMs = this.newestEventMs;
+    copy.recentFills = [...this.recentFills];
+    return copy;
+  }
+
+  /** Closed-PnL events of the recent window, in fill order. */
+  getClosedPnlEvents(): ClosedPnlEvent[] {
+    return [...this.closedPnlEvents];
+  }
+
+  /** Fills since `windowStartMs`, with the PnL of their closes against the gross (fee-free) cost basis. */
+  summarizeFillsSince(windowStartMs: number): { trades: number; realizedPnlHome: number; feesHome: number } {
+    let trades = 0;
+    let realizedPnlHome = 0;
+    let feesHome = 0;
+    for (const fill of this.recentFills) {
+      if (fill.tsMs < windowStartMs) continue;
+      trades += 1;
+      realizedPnlHome += fill.grossPnl;
+      feesHome += fill.feeHome;
+    }
+    return { trades, realizedPnlHome: round(realizedPnlHome), feesHome: round(feesHome) };
+  }
+
+  /** Positions still open, at their gross cost basis in the symbol's quote asset. */
+  getOpenPositions(): Array<{ symbol: string; netQty: number; costQuote: number }> {
+    return [...this.grossPositions]
+      .filter(([, position]) => position.netQty > 0)
+      .map(([symbol, position]) => ({ symbol, netQty: position.netQty, costQuote: position.costQuote }));
+  }
+
+  getSymbolTotals(): LedgerSymbolTotals[] {
+    return [...this.symbolTotals.values()].map((totals) => ({ ...totals }));
+  }
+
+  getFillTotals(): LedgerFillTotals {
+    return { ...this.fillTotals };
+  }
+
+  getDecisionTotals(): LedgerDecisionTotals {
+    return this.decisionTotals;
+  }
+
+  private foldClosedPnl(fill: LedgerFill): void {
+    const symbol = fill.symbol.trim().toUpperCase();
+    const qty = Number.isFinite(fill.qty) ? Math.max(0, fill.qty) : 0;
+    const price = Number.isFinite(fill.price) ? Math.max(0, fill.price) : 0;
+    const orderFeeHome = Number.isFinite(fill.feeHome) ? Math.max(0, fill.feeHome ?? 0) : 0;
+    if (!symbol || qty <= 0 || price <= 0) return;
+
+    const current = this.pnlPositions.get(symbol) ?? { netQty: 0, costQuote: 0, peakQty: 0 };
+    if (fill.side === "BUY") {
+      current.netQty += qty;
+      current.costQuote += qty * price + orderFeeHome;
+      current.peakQty = Math.max(current.peakQty, current.netQty);
+      this.pnlPositions.set(symbol, current);
+      return;
+    }
+
+    const events: ClosedPnlEvent[] = [];
+    const closeQty = Math.min(qty, current.netQty);
+    const avgCost = current.netQty > 0 ? current.costQuote / current.netQty : 0;
+    // A dust residual is closed with the fill, so its cost (the base-asset fee) is charged to this close.
+    const positionClosed = isPositionDust(current.netQty - closeQty, current.peakQty);
+    const closedCostQty = positionClosed ? current.netQty : closeQty;
+    if (closeQty > 0 && avgCost > 0) {
+      const closeCost = avgCost * closedCostQty;
+      const closeFeeHome = orderFeeHome > 0 ? orderFeeHome * (closeQty / qty) : 0;
+      const pnlAbs = price * closeQty - closeCost - closeFeeHome;
+      const pnlPct = closeCost > 0 ? (pnlAbs / closeCost) * 100 : 0;
+      events.push({
+        symbol,
+        ts: fill.ts,
+        pnlAbs: round(pnlAbs),
+        pnlPct: round(pnlPct),
+        closeCost: round(closeCost),
+        positionClosed
+      });
+    }
+    const uncoveredQty = Math.max(0, qty - closeQty);
+    const uncoveredFeeHome = orderFeeHome > 0 && uncoveredQty > 0 ? orderFeeHome * (uncoveredQty / qty) : 0;
+    if (uncoveredFeeHome > 0) {
+      events.push({ symbol, ts: fill.ts, pnlAbs: round(-uncoveredFeeHome), pnlPct: 0, closeCost: 0, positionClosed: true });
+    }
+
+    current.netQty = Math.max(0, current.netQty - closedCostQty);
+    current.costQuote = Math.max(0, current.costQuote - avgCost * closedCostQty);
+    if (current.netQty <= 1e-12) {
+      current.netQty = 0;
+      current.costQuote = 0;
+      current.peakQty = 0;
+    }
+    this.pnlPositions.set(symbol, current);
+    if (events.length === 0) return;
+    this.closedPnlEvents.push(...events);
+    const tsMs = Date.parse(fill.ts);
+    if (Number.isFinite(tsMs) && tsMs > this.newestEventMs) this.newestEventMs = tsMs;
+    if (Date.parse(this.closedPnlEvents[0].ts) < this.newestEventMs - RECENT_WINDOW_MS) {
+      this.closedPnlEvents = this.closedPnlEvents.filter((event) => !(Date.parse(event.ts) < this.newestEventMs - RECENT_WINDOW_MS));
+    }
+  }
+
+  private foldGross(fill: LedgerFill): void {
+    const tsMs = Date.parse(fill.ts);
+    if (!Number.isFinite(tsMs)) return;
+    const symbol = fill.symbol.trim().toUpperCase();
+    const qty = Number.isFinite(fill.qty) ? Math.max(0, fill.qty) : 0;
+    const price = Number.isFinite(fill.price) ? Math.max(0, fill.price) : 0;
+    const feeHome = Number.isFinite(fill.feeHome) ? Math.max(0, fill.feeHome ?? 0) : 0;
+    let grossPnl = 0;
+
+    if (symbol && qty > 0 && price > 0) {
+      const current = this.grossPositions.get(symbol) ?? { netQty: 0, costQuote: 0, peakQty: 0 };
+      if (fill.side === "BUY") {
+        current.netQty += qty;
+        current.costQuote += qty * price;
+        current.peakQty = Math.max(current.peakQty, current.netQty);
+      } else {
+        const closeQty = Math.min(qty, current.netQty);
+        const avgCost = current.netQty > 0 ? current.costQuote / current.netQty : 0;
+        if (closeQty > 0 && avgCost > 0) {
+          grossPnl = price * closeQty - avgCost * closeQty;
+        }
+        current.netQty = Math.max(0, current.netQty - closeQty);
+        current.costQuote = Math.max(0, current.costQuote - avgCost * closeQty);
+        if (isPositionDust(current.netQty, current.peakQty)) {
+          current.netQty = 0;
+          current.costQuote = 0;
+          current.peakQty = 0;
+        }
+      }
+      this.grossPositions.set(symbol, current);
+    }
+
+    const newestMs = Math.max(tsMs, this.recentFills[this.recentFills.length - 1]?.tsMs ?? tsMs);
+    this.recentFills.push({ tsMs, feeHome, grossPnl });
+    if (this.recentFills[0].tsMs < newestMs - RECENT_WINDOW_MS) {
+      this.recentFills = this.recentFills.filter((entry) => entry.tsMs >= newestMs - RECENT_WINDOW_MS);
+    }
+  }
+
+  private foldSymbolTotals(fill: LedgerFill): void {
+    const symbol = fill.symbol.trim().toUpperCase();
+    const qty = Number.isFinite(fill.qty) ? Math.max(0, fill.qty) : 0;
+    const price = Number.isFinite(fill.price) ? Math.max(0, fill.price) : 0;
+    const notional = qty > 0 && price > 0 ? qty * price : 0;
+    const orderFeeHome = Number.isFinite(fill.feeHome) ? Math.max(0, fill.feeHome ?? 0) : 0;
+    if (qty <= 0) return;
+
+    const next = this.symbolTotals.get(symbol) ?? {
+      symbol,
+      buys: 0,
+      sells: 0,
+      buyNotional: 0,
+      sellNotional: 0,
+      netQty: 0,
+      openCost: 0,
+      realizedPnl: 0,
+      feesHome: 0,
+      lastTradeTs: undefined
+    };
+    if (fill.side === "BUY") {
+      this.fillTotals.buys += 1;
+      next.buys += 1;
+      if (notional > 0) {
+        this.fillTotals.buyNotional += notional;
+        next.buyNotional += notional;
+        next.openCost += notional;
+      }
+      if (orderFeeHome > 0) {
+        next.openCost += orderFeeHome;
+      }
+      next.netQty += qty;
+    } else {
+      this.fillTotals.sells += 1;
+      next.sells += 1;
+      if (notional > 0) {
+        this.fillTotals.sellNotional += notional;
+        next.sellNotional += notional;
+      }
+      const closeQty = Math.min(qty, next.netQty);
+      const avgCost = next.netQty > 0 ? next.openCost / next.netQty : 0;
+      if (closeQty > 0 && avgCost > 0 && price > 0) {
+        next.realizedPnl += (price - avgCost) * closeQty;
+        next.openCost = Math.max(0, next.openCost - avgCost * closeQty);
+        next.netQty = Math.max(0, next.netQty - closeQty);
+      }
+    }
+    if (orderFeeHome > 0) {
+      this.fillTotals.feesHome += orderFeeHome;
+      next.feesHome += orderFeeHome;
+    }
+    next.lastTradeTs = fill.ts;
+    this.symbolTotals.set(symbol, next);
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import type { Decision, Order } from "@autobot/shared";
+
+import { DecisionQuerySchema, OrderQuerySchema, queryDecisions, queryOrders } from "./bot-query";
+
+function decision(id: string, ts: string, kind: string, summary: string, details?: Record<string, unknown>): Decision {
+  return { id, ts, kind, summary, ...(details ? { details } : {}) };
+}
+
+const decisions: Decision[] = [
+  decision("d1", "2026-03-01T10:00:00.000Z", "SKIP", "Skip DOGEBTC: Fee/edge filter (net 0.2% < 0.8%)"),
+  decision("d2", "2026-03-01T11:00:00.000Z", "SKIP", "Skip DOGEBTC: Insufficient BTC balance"),
+  decision("d3", "2026-03-01T12:00:00.000Z", "TRADE", "Binance BUY MARKET DOGEBTC qty 100", { symbol: "DOGEBTC" }),
+  decision("d4", "2026-03-01T12:00:00.000Z", "SKIP", "Skip DOGEBTCX: Fee/edge filter"),
+  decision("d5", "2026-03-02T09:00:00.000Z", "SKIP", "Skip ETHUSDC: Fee/edge filter (net 0.1% < 0.8%)"),
+  decision("d6", "2026-03-02T10:00:00.000Z", "ENGINE", "Tick completed", { symbol: "dogebtc" })
+];
+
+describe("bot-query", () => {
+  it("filters decisions by symbol, time range and text while counting matches per kind", () => {
+    const page = queryDecisions(
+      decisions,
+      DecisionQuerySchema.parse({ symbol: "dogebtc", kind: "skip", from: "2026-03-01T00:00:00Z", to: "2026-03-01T23:59:59Z" })
+    );
+
+    expect(page.items.map((d) => d.id)).toEqual(["d2", "d1"]);
+    expect(page.total).toBe(2);
+    expect(page.countsByKind).toEqual({ SKIP: 2, TRADE: 1 });
+    expect(page.nextCursor).toBeNull();
+
+    const text = queryDecisions(decisions, DecisionQuerySchema.parse({ q: "fee/EDGE" }));
+    expect(text.items.map((d) => d.id)).toEqual(["d5", "d4", "d1"]);
+  });
+
+  it("pages with a stable cursor even when new entries arrive", () => {
+    const first = queryDecisions(decisions, DecisionQuerySchema.parse({ limit: "2" }));
+    expect(first.items.map((d) => d.id)).toEqual(["d6", "d5"]);
+    expect(first.total).toBe(6);
+    expect(first.nextCursor).not.toBeNull();
+
+    const withNewer = [decision("d7", "2026-03-03T00:00:00.000Z", "SKIP", "Skip BNBUSDC: cooldown"), ...decisions];
+    const second = queryDecisions(withNewer, DecisionQuerySchema.parse({ limit: "2", cursor: first.nextCursor }));
+    expect(second.items.map((d) => d.id)).toEqual(["d4", "d3"]);
+
+    const third = queryDecisions(withNewer, DecisionQuerySchema.parse({ limit: "2", cursor: second.nextCursor }));
+    expect(third.items.map((d) => d.id)).toEqual(["d2", "d1"]);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it("rejects malformed cursors, limits and time bounds", () => {
+    expect(DecisionQuerySchema.safeParse({ cursor: "not-a-cursor" }).success).toBe(false);
+    expect(DecisionQuerySchema.safeParse({ limit: "0" }).success).toBe(false);
+    expect(DecisionQuerySchema.safeParse({ from: "yesterday" }).success).toBe(false);
+    expect(DecisionQuerySchema.parse({ from: "1772359200000" }).from).toBe(1_772_359_200_000);
+  });
+
+  it("filters orders by symbol, side and status", () => {
+    const base: Order = {
+      id: "o1",
+      ts: "2026-03-01T10:00:00.000Z",
+      symbol: "DOGEBTC",
+      side: "BUY",
+      type: "MARKET",
+      status: "FILLED",
+      qty: 100,
+      price: 0.000002
+    };
+    const orders: Order[] = [
+      base,
+      { ...base, id: "o2", ts: "2026-03-01T11:00:00.000Z", side: "SELL", type: "LIMIT", status: "CANCELED" },
+      { ...base, id: "o3", ts: "2026-03-01T12:00:00.000Z", symbol: "ETHUSDC" }
+    ];
+
+    expect(queryOrders(orders, OrderQuerySchema.parse({ symbol: "DOGEBTC" })).items.map((o) => o.id)).toEqual(["o2", "o1"]);
+    expect(queryOrders(orders, OrderQuerySchema.parse({ status: "filled", side: "buy" })).items.map((o) => o.id)).toEqual(["o3", "o1"]);
+    expect(queryOrders(orders, OrderQuerySchema.parse({ type: "limit,stop_loss_limit" })).total).toBe(1);
+  });
+});
@@ -0,0 +1,163 @@
+import type { Decision, Order } from "@autobot/shared";
+import { z } from "zod";
+
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 500;
+
+const csvList = z
+  .string()
+  .transform((value) =>
+    value
+      .split(",")
+      .map((item) => item.trim().toUpperCase())
+      .filter((item) => item.length > 0)
+  )
+  .optional();
+
+const timeBound = z
+  .string()
+  .transform((value, ctx) => {
+    const trimmed = value.trim();
+    const ms = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+    if (!Number.isFinite(ms)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid time: ${value}` });
+      return z.NEVER;
+    }
+    return ms;
+  })
+  .optional();
+
+const PageQuerySchema = z.object({
+  symbol: z
+    .string()
+    .transform((value) => value.trim().toUpperCase())
+    .optional(),
+  from: timeBound,
+  to: timeBound,
+  cursor: z
+    .string()
+    .min(1)
+    .refine((value) => decodeCursor(value) !== null, "Invalid cursor")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT)
+});
+
+export const DecisionQuerySchema = PageQuerySchema.extend({
+  kind: csvList,
+  q: z.string().trim().min(1).optional()
+});
+export type DecisionQuery = z.infer<typeof DecisionQuerySchema>;
+
+export const OrderQuerySchema = PageQuerySchema.extend({
+  side: csvList,
+  status: csvList,
+  type: csvList
+});
+export type OrderQuery = z.infer<typeof OrderQuerySchema>;
+
+export type PagedResult<T> = {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+};
+
+export type DecisionPage = PagedResult<Decision> & {
+  /** Matches per decision kind for every filter except `kind` (facet counts). */
+  countsByKind: Record<string, number>;
+};
+
+type CursorKey = { ts: number; id: string };
+
+function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify([key.ts, key.id]), "utf-8").toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as unknown;
+    if (Array.isArray(parsed) && typeof parsed[0] === "number" && typeof parsed[1] === "string") {
+      return { ts: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+function toKey(item: { ts: string; id: string }): CursorKey {
+  const ts = Date.parse(item.ts);
+  return { ts: Number.isFinite(ts) ? ts : 0, id: item.id };
+}
+
+/** Newest first; ties broken by id so the order (and therefore cursors) is total and stable. */
+function compareKeysDesc(a: CursorKey, b: CursorKey): number {
+  if (a.ts !== b.ts) return b.ts - a.ts;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+function inTimeRange(ts: number, query: { from?: number; to?: number }): boolean {
+  if (query.from !== undefined && ts < query.from) return false;
+  if (query.to !== undefined && ts > query.to) return false;
+  return true;
+}
+
+function paginate<T extends { ts: string; id: string }>(items: T[], query: { cursor?: string; limit: number }): PagedResult<T> {
+  const keyed = items.map((item) => ({ item, key: toKey(item) })).sort((a, b) => compareKeysDesc(a.key, b.key));
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const start = after ? keyed.findIndex((entry) => compareKeysDesc(entry.key, after) > 0) : 0;
+  const remaining = start < 0 ? [] : keyed.slice(start);
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map((entry) => entry.item),
+    total: keyed.length,
+    nextCursor: remaining.length > page.length && last ? encodeCursor(last.key) : null
+  };
+}
+
+function getDecisionSymbol(decision: Decision): string | null {
+  const symbol = decision.details?.symbol;
+  return typeof symbol === "string" && symbol.trim().length > 0 ? symbol.trim().toUpperCase() : null;
+}
+
+function decisionMatchesSymbol(decision: Decision, symbol: string): boolean {
+  if (getDecisionSymbol(decision) === symbol) return true;
+  const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^A-Z0-9])${escaped}([^A-Z0-9]|$)`).test(decision.summary.toUpperCase());
+}
+
+export function queryDecisions(decisions: Decision[], query: DecisionQuery): DecisionPage {
+  const needle = query.q?.toLowerCase();
+  const kinds = query.kind && query.kind.length > 0 ? new Set(query.kind) : null;
+  const countsByKind: Record<string, number> = {};
+  const matches: Decision[] = [];
+
+  for (const decision of decisions) {
+    if (!inTimeRange(toKey(decision).ts, query)) continue;
+    if (query.symbol && !decisionMatchesSymbol(decision, query.symbol)) continue;
+    if (needle && !decision.summary.toLowerCase().includes(needle)) continue;
+    countsByKind[decision.kind] = (countsByKind[decision.kind] ?? 0) + 1;
+    if (kinds && !kinds.has(decision.kind.toUpperCase())) continue;
+    matches.push(decision);
+  }
+
+  return { ...paginate(matches, query), countsByKind };
+}
+
+export function queryOrders(orders: Order[], query: OrderQuery): PagedResult<Order> {
+  const sides = query.side && query.side.length > 0 ? new Set(query.side) : null;
+  const statuses = query.status && query.status.length > 0 ? new Set(query.status) : null;
+  const types = query.type && query.type.length > 0 ? new Set(query.type) : null;
+
+  const matches = orders.filter((order) => {
+    if (!inTimeRange(toKey(order).ts, query)) return false;
+    if (query.symbol && order.symbol.trim().toUpperCase() !== query.symbol) return false;
+    if (sides && !sides.has(order.side)) return false;
+    if (statuses && !statuses.has(order.status)) return false;
+    if (types && !types.has(order.type.toUpperCase())) return false;
+    return true;
+  });
+
+  return paginate(matches, query);
+}
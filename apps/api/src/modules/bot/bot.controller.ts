@@ -1,7 +1,25 @@
-import { Body, Controller, Get, Post } from "@nestjs/common";
-import type { BotState } from "@autobot/shared";
+import { BadRequestException, Body, Controller, Get, Post, Query } from "@nestjs/common";
+import type { BotState, Order } from "@autobot/shared";
+import type { z } from "zod";
 
 import { BotEngineService, type BotRunStatsResponse } from "./bot-engine.service";
+import {
+  DecisionQuerySchema,
+  type DecisionPage,
+  OrderQuerySchema,
+  type PagedResult,
+  queryDecisions,
+  queryOrders
+} from "./bot-query";
+
+function parseQuery<T extends z.ZodTypeAny>(schema: T, raw: Record<string, unknown>): z.infer<T> {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new BadRequestException(`Invalid query${issue?.path.length ? ` (${issue.path.join(".")})` : ""}: ${issue?.message ?? "bad input"}`);
+  }
+  return parsed.data;
+}
 
 @Controller()
 export class BotController {
@@ -29,19 +47,24 @@ export class BotController {
     return { ok: true };
   }
 
+  /** Lifetime decisions. Filters: `symbol`, `kind` (comma list), `from`/`to` (ISO or epoch ms), `q` (summary text); `cursor`/`limit` paging. */
   @Get("bot/decisions")
-  getDecisions(): BotState["decisions"] {
-    return this.botEngine.getState().decisions;
+  getDecisions(@Query() raw: Record<string, unknown>): DecisionPage {
+    const query = parseQuery(DecisionQuerySchema, raw);
+    return queryDecisions(this.botEngine.listDecisions(), query);
   }
 
+  /** Filters: `symbol`, `side`, `status`, `type` (comma lists), `from`/`to`; `cursor`/`limit` paging. */
   @Get("orders/active")
-  getActiveOrders(): BotState["activeOrders"] {
-    return this.botEngine.getState().activeOrders;
+  getActiveOrders(@Query() raw: Record<string, unknown>): PagedResult<Order> {
+    const query = parseQuery(OrderQuerySchema, raw);
+    return queryOrders(this.botEngine.getState().activeOrders, query);
   }
 
   @Get("orders/history")
-  getOrderHistory(): BotState["orderHistory"] {
-    return this.botEngine.getState().orderHistory;
+  getOrderHistory(@Query() raw: Record<string, unknown>): PagedResult<Order> {
+    const query = parseQuery(OrderQuerySchema, raw);
+    return queryOrders(this.botEngine.listOrderHistory(), query);
   }
 
   @Post("bot/debug/decision")
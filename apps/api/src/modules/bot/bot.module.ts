@@ -1,15 +1,17 @@
 import { Module } from "@nestjs/common";
 import { APP_GUARD } from "@nestjs/core";
 
+import { AiModule } from "../ai/ai.module";
 import { ConfigModule } from "../config/config.module";
 import { IntegrationsModule } from "../integrations/integrations.module";
+import { PaperModule } from "../paper/paper.module";
 import { ApiKeyGuard } from "../security/api-key.guard";
 import { UniverseModule } from "../universe/universe.module";
 import { BotController } from "./bot.controller";
 import { BotEngineService } from "./bot-engine.service";
 
 @Module({
-  imports: [ConfigModule, IntegrationsModule, UniverseModule],
+  imports: [AiModule, ConfigModule, IntegrationsModule, PaperModule, UniverseModule],
   controllers: [BotController],
   providers: [
     BotEngineService,
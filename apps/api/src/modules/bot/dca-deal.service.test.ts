@@ -0,0 +1,118 @@
+import type { Order } from "@autobot/shared";
+import { describe, expect, it } from "vitest";
+
+import {
+  addDcaSafetyFill,
+  closeDcaDeal,
+  closeDcaDealFromOrder,
+  dcaFillFromOrder,
+  deriveDcaAction,
+  deriveDcaBaseOrderQuote,
+  deriveDcaSafetyOrderQuote,
+  mergeDcaDeal,
+  openDcaDeal,
+  type DcaSettings
+} from "./dca-deal.service";
+
+const nowIso = "2026-03-01T00:00:00.000Z";
+
+const settings: DcaSettings = {
+  maxSafetyOrders: 2,
+  deviationPct: 2,
+  deviationScale: 1.5,
+  volumeScale: 2,
+  takeProfitPct: 1
+};
+
+describe("deriveDcaBaseOrderQuote", () => {
+  it("fits the largest safety order in one trade and the whole deal in the symbol cap", () => {
+    // Volumes 1 + 2 + 4 = 7 base orders; the last safety order is 4 base orders.
+    expect(deriveDcaBaseOrderQuote({ settings, maxTradeNotionalQuote: 40, maxDealNotionalQuote: 700 })).toBe(10);
+    expect(deriveDcaBaseOrderQuote({ settings, maxTradeNotionalQuote: 400, maxDealNotionalQuote: 70 })).toBe(10);
+    expect(deriveDcaBaseOrderQuote({ settings, maxTradeNotionalQuote: 0, maxDealNotionalQuote: 70 })).toBe(0);
+  });
+});
+
+describe("DCA deal lifecycle", () => {
+  it("averages down with scaled safety orders and books the take-profit net of fees", () => {
+    let deal = openDcaDeal({
+      id: "deal-1",
+      symbol: "AAAUSDC",
+      baseOrderQuote: 10,
+      fill: { orderId: "o1", price: 100, qty: 0.1, fee: 0.01, ts: nowIso },
+      settings
+    });
+    expect(deal).toMatchObject({ avgEntryPrice: 100, takeProfitPrice: 101, nextSafetyPrice: 98 });
+    expect(deriveDcaAction(deal, 99)).toBeNull();
+    expect(deriveDcaAction(deal, 98)).toBe("SAFETY_ORDER");
+    expect(deriveDcaSafetyOrderQuote(deal, settings)).toBe(20);
+
+    deal = addDcaSafetyFill(deal, { orderId: "o2", price: 98, qty: 0.2, fee: 0.02, ts: nowIso }, settings);
+    expect(deal.avgEntryPrice).toBeCloseTo(98.666667, 5);
+    // Second step is 2% × 1.5 below the first: 100 × (1 - 5%).
+    expect(deal.nextSafetyPrice).toBe(95);
+
+    deal = addDcaSafetyFill(deal, { orderId: "o3", price: 95, qty: 0.4, fee: 0.04, ts: nowIso }, settings);
+    expect(deal.safetyOrdersFilled).toBe(2);
+    expect(deal.nextSafetyPrice).toBeUndefined();
+    expect(deriveDcaAction(deal, 90)).toBeNull();
+    expect(deriveDcaAction(deal, deal.takeProfitPrice)).toBe("TAKE_PROFIT");
+
+    const closed = closeDcaDeal(deal, { nowIso, reason: "TAKE_PROFIT", exitPrice: 97.5, exitQty: 0.7, exitFee: 0.07 });
+    expect(closed.status).toBe("CLOSED");
+    expect(closed.realizedPnl).toBeCloseTo(97.5 * 0.7 - 67.6 - 0.07 - 0.07, 6);
+  });
+
+  it("keeps open deals and only the newest closed ones", () => {
+    const open = openDcaDeal({
+      id: "open",
+      symbol: "AAAUSDC",
+      baseOrderQuote: 10,
+      fill: { orderId: "o1", price: 100, qty: 0.1, ts: nowIso },
+      settings
+    });
+    const gone = closeDcaDeal({ ...open, id: "gone" }, { nowIso, reason: "POSITION_GONE" });
+    expect(gone.realizedPnl).toBeUndefined();
+
+    const deals = mergeDcaDeal(mergeDcaDeal([open], gone), { ...open, qty: 0.2 });
+    expect(deals.map((deal) => deal.id)).toEqual(["open", "gone"]);
+    expect(deals[0].qty).toBe(0.2);
+  });
+});
+
+describe("dcaFillFromOrder", () => {
+  it("only turns a FILLED order with an executed quantity into a deal fill", () => {
+    const order: Order = { id: "o2", ts: nowIso, symbol: "AAAUSDC", side: "BUY", type: "MARKET", status: "FILLED", qty: 0.2, price: 98, feeHome: 0.02 };
+
+    expect(dcaFillFromOrder(order, { executedQty: "0.20000000", fallbackPrice: 97 })).toEqual({
+      orderId: "o2",
+      price: 98,
+      qty: 0.2,
+      fee: 0.02,
+      ts: nowIso
+    });
+    // Partially filled orders map to NEW; resting limit orders report no executed quantity.
+    expect(dcaFillFromOrder({ ...order, status: "NEW" }, { executedQty: "0.05000000", fallbackPrice: 97 })).toBeNull();
+    expect(dcaFillFromOrder(order, { executedQty: "0.00000000", fallbackPrice: 97 })).toBeNull();
+    expect(dcaFillFromOrder(order, { fallbackPrice: 97 })).toBeNull();
+  });
+});
+
+describe("closeDcaDealFromOrder", () => {
+  it("only closes the deal on a FILLED take-profit sell with an executed quantity", () => {
+    const deal = openDcaDeal({
+      id: "deal-1",
+      symbol: "AAAUSDC",
+      baseOrderQuote: 10,
+      fill: { orderId: "o1", price: 100, qty: 0.1, fee: 0.01, ts: nowIso },
+      settings
+    });
+    const sell: Order = { id: "tp", ts: nowIso, symbol: "AAAUSDC", side: "SELL", type: "MARKET", status: "FILLED", qty: 0.1, price: 101, feeHome: 0.01 };
+
+    const closed = closeDcaDealFromOrder(deal, sell, { executedQty: "0.10000000", fallbackPrice: 100.5, nowIso });
+    expect(closed).toMatchObject({ status: "CLOSED", closeReason: "TAKE_PROFIT", exitPrice: 101 });
+    expect(closed?.realizedPnl).toBeCloseTo(0.1 - 0.01 - 0.01, 8);
+    expect(closeDcaDealFromOrder(deal, { ...sell, status: "NEW" }, { executedQty: "0.04000000", fallbackPrice: 100.5, nowIso })).toBeNull();
+    expect(closeDcaDealFromOrder(deal, sell, { executedQty: "0.00000000", fallbackPrice: 100.5, nowIso })).toBeNull();
+  });
+});
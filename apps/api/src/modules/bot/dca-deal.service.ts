@@ -0,0 +1,178 @@
+import type { DcaDeal, DcaFill, Order } from "@autobot/shared";
+
+export type DcaSettings = {
+  maxSafetyOrders: number;
+  /** Drop below the base fill that triggers the first safety order, in %. */
+  deviationPct: number;
+  /** Each further safety order's step is the previous step × this. */
+  deviationScale: number;
+  /** Safety order N buys base × volumeScale^N. */
+  volumeScale: number;
+  takeProfitPct: number;
+};
+
+export type DcaAction = "TAKE_PROFIT" | "SAFETY_ORDER" | null;
+
+const MAX_CLOSED_DCA_DEALS = 50;
+
+const round = (value: number, decimals = 8): number => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** Volume of safety order `n` (1-based) relative to the base order. */
+const safetyVolumeFactor = (settings: DcaSettings, n: number): number => Math.max(1, settings.volumeScale) ** n;
+
+/**
+ * Sizes the base order so the whole deal stays inside the caps: the largest safety order fits one trade of the risk
+ * budget, and base plus every safety order fits the symbol's exposure cap. Returns 0 when either cap is exhausted.
+ */
+export function deriveDcaBaseOrderQuote(params: {
+  settings: DcaSettings;
+  maxTradeNotionalQuote: number;
+  maxDealNotionalQuote: number;
+}): number {
+  const { settings } = params;
+  const n = Math.max(0, Math.round(settings.maxSafetyOrders));
+  let volumeSum = 1;
+  for (let i = 1; i <= n; i += 1) volumeSum += safetyVolumeFactor(settings, i);
+  const byTrade = params.maxTradeNotionalQuote / safetyVolumeFactor(settings, n);
+  const byDeal = params.maxDealNotionalQuote / volumeSum;
+  const quote = Math.min(byTrade, byDeal);
+  return Number.isFinite(quote) && quote > 0 ? quote : 0;
+}
+
+/** Quote to spend on the next safety order of the deal. */
+export function deriveDcaSafetyOrderQuote(deal: DcaDeal, settings: DcaSettings): number {
+  return deal.baseOrderQuote * safetyVolumeFactor(settings, deal.safetyOrdersFilled + 1);
+}
+
+/** Trigger price of safety order `n` (1-based): the base fill minus the summed, scaled deviations. */
+function deriveSafetyTriggerPrice(baseFillPrice: number, settings: DcaSettings, n: number): number {
+  let deviationPct = 0;
+  for (let i = 0; i < n; i += 1) deviationPct += settings.deviationPct * Math.max(1, settings.deviationScale) ** i;
+  return round(baseFillPrice * Math.max(0, 1 - deviationPct / 100));
+}
+
+function withFill(deal: DcaDeal, fill: DcaFill, settings: DcaSettings): DcaDeal {
+  const fills = [...deal.fills, fill];
+  const qty = deal.qty + fill.qty;
+  const costQuote = deal.costQuote + fill.price * fill.qty;
+  const avgEntryPrice = costQuote / qty;
+  const safetyOrdersFilled = fills.filter((entry) => entry.kind === "SAFETY").length;
+  const baseFillPrice = fills.find((entry) => entry.kind === "BASE")?.price ?? fill.price;
+  const nextSafetyPrice =
+    safetyOrdersFilled < deal.maxSafetyOrders
+      ? deriveSafetyTriggerPrice(baseFillPrice, settings, safetyOrdersFilled + 1)
+      : undefined;
+  return {
+    ...deal,
+    fills,
+    safetyOrdersFilled,
+    qty: round(qty),
+    costQuote: round(costQuote),
+    feesQuote: round(deal.feesQuote + (fill.fee ?? 0)),
+    avgEntryPrice: round(avgEntryPrice),
+    takeProfitPrice: round(avgEntryPrice * (1 + settings.takeProfitPct / 100)),
+    nextSafetyPrice: nextSafetyPrice && nextSafetyPrice > 0 ? nextSafetyPrice : undefined
+  };
+}
+
+export function openDcaDeal(params: {
+  id: string;
+  symbol: string;
+  baseOrderQuote: number;
+  fill: Omit<DcaFill, "kind">;
+  settings: DcaSettings;
+}): DcaDeal {
+  const empty: DcaDeal = {
+    id: params.id,
+    symbol: params.symbol,
+    status: "OPEN",
+    baseOrderQuote: params.baseOrderQuote,
+    maxSafetyOrders: Math.max(0, Math.round(params.settings.maxSafetyOrders)),
+    safetyOrdersFilled: 0,
+    fills: [],
+    qty: 0,
+    costQuote: 0,
+    feesQuote: 0,
+    avgEntryPrice: params.fill.price,
+    takeProfitPrice: params.fill.price,
+    openedAt: params.fill.ts
+  };
+  return withFill(empty, { ...params.fill, kind: "BASE" }, params.settings);
+}
+
+/**
+ * The deal fill of a placed DCA order, or null unless the exchange reports it FILLED with a positive executed quantity:
+ * a resting or partially filled order must not move the average or count as a safety order.
+ */
+export function dcaFillFromOrder(order: Order, params: { executedQty?: string; fallbackPrice: number }): Omit<DcaFill, "kind"> | null {
+  const executedQty = Number.parseFloat(params.executedQty ?? "");
+  if (order.status !== "FILLED" || !Number.isFinite(executedQty) || executedQty <= 0) return null;
+  return {
+    orderId: order.id,
+    price: order.price ?? params.fallbackPrice,
+    qty: executedQty,
+    ...(order.feeHome ? { fee: order.feeHome } : {}),
+    ts: order.ts
+  };
+}
+
+export function addDcaSafetyFill(deal: DcaDeal, fill: Omit<DcaFill, "kind">, settings: DcaSettings): DcaDeal {
+  return withFill(deal, { ...fill, kind: "SAFETY" }, settings);
+}
+
+/** The take-profit on the averaged entry wins over a safety order; both wait for the price to cross their level. */
+export function deriveDcaAction(deal: DcaDeal, price: number): DcaAction {
+  if (deal.status !== "OPEN" || !Number.isFinite(price) || price <= 0) return null;
+  if (price >= deal.takeProfitPrice) return "TAKE_PROFIT";
+  if (deal.nextSafetyPrice !== undefined && price <= deal.nextSafetyPrice) return "SAFETY_ORDER";
+  return null;
+}
+
+export function closeDcaDeal(
+  deal: DcaDeal,
+  params: { nowIso: string; reason: "TAKE_PROFIT" | "POSITION_GONE"; exitPrice?: number; exitQty?: number; exitFee?: number }
+): DcaDeal {
+  const soldQty = Math.min(deal.qty, params.exitQty ?? deal.qty);
+  const realizedPnl =
+    params.reason === "TAKE_PROFIT" && params.exitPrice && deal.qty > 0
+      ? round((params.exitPrice - deal.avgEntryPrice) * soldQty - deal.feesQuote * (soldQty / deal.qty) - (params.exitFee ?? 0))
+      : undefined;
+  return {
+    ...deal,
+    status: "CLOSED",
+    closedAt: params.nowIso,
+    closeReason: params.reason,
+    nextSafetyPrice: undefined,
+    ...(params.exitPrice ? { exitPrice: params.exitPrice } : {}),
+    ...(realizedPnl !== undefined ? { realizedPnl } : {})
+  };
+}
+
+/**
+ * The deal closed by its take-profit sell, or null unless the exchange reports the sell FILLED with a positive executed
+ * quantity (same rule as `dcaFillFromOrder`): a resting or partially filled sell leaves the deal open.
+ */
+export function closeDcaDealFromOrder(
+  deal: DcaDeal,
+  order: Order,
+  params: { executedQty?: string; fallbackPrice: number; nowIso: string }
+): DcaDeal | null {
+  const exit = dcaFillFromOrder(order, params);
+  if (!exit) return null;
+  return closeDcaDeal(deal, { nowIso: params.nowIso, reason: "TAKE_PROFIT", exitPrice: exit.price, exitQty: exit.qty, exitFee: exit.fee });
+}
+
+/** Replaces the deal by id and keeps the newest closed deals. */
+export function mergeDcaDeal(deals: DcaDeal[], deal: DcaDeal): DcaDeal[] {
+  const next = [deal, ...deals.filter((entry) => entry.id !== deal.id)];
+  const open = next.filter((entry) => entry.status === "OPEN");
+  const closed = next
+    .filter((entry) => entry.status === "CLOSED")
+    .sort((a, b) => (b.closedAt ?? "").localeCompare(a.closedAt ?? ""))
+    .slice(0, MAX_CLOSED_DCA_DEALS);
+  return [...open, ...closed];
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import type { FuturesShort } from "@autobot/shared";
+
+import { closeFuturesShort, deriveFuturesShortExit, deriveFuturesShortPnlPct, mergeFuturesShort } from "./futures-short.service";
+
+const nowIso = "2026-03-01T00:00:00.000Z";
+
+const short: FuturesShort = {
+  id: "short-1",
+  symbol: "ETHUSDT",
+  status: "OPEN",
+  qty: 0.05,
+  entryPrice: 2_000,
+  leverage: 2,
+  marginType: "ISOLATED",
+  entryOrderId: "1",
+  openedAt: nowIso
+};
+
+describe("futures shorts", () => {
+  it("takes profit when the price falls and stops out when it rises", () => {
+    const thresholds = { takeProfitPct: 1, stopLossPct: -1.5 };
+    expect(deriveFuturesShortPnlPct(short, 1_980)).toBeCloseTo(1, 10);
+    expect(deriveFuturesShortExit(short, 1_990, thresholds)).toBeNull();
+    expect(deriveFuturesShortExit(short, 1_980, thresholds)).toBe("TAKE_PROFIT");
+    expect(deriveFuturesShortExit(short, 2_030, thresholds)).toBe("STOP_LOSS");
+
+    const closed = closeFuturesShort(short, { nowIso, reason: "TAKE_PROFIT", exitPrice: 1_980, exitQty: 0.05 });
+    expect(closed).toMatchObject({ status: "CLOSED", closeReason: "TAKE_PROFIT", exitPrice: 1_980, realizedPnl: 1 });
+    expect(deriveFuturesShortExit(closed, 1_900, thresholds)).toBeNull();
+  });
+
+  it("books no PnL for shorts closed outside the bot and keeps open shorts first", () => {
+    const gone = closeFuturesShort({ ...short, id: "gone" }, { nowIso, reason: "POSITION_GONE" });
+    expect(gone.realizedPnl).toBeUndefined();
+
+    const shorts = mergeFuturesShort(mergeFuturesShort([short], gone), { ...short, qty: 0.04 });
+    expect(shorts.map((entry) => entry.id)).toEqual(["short-1", "gone"]);
+    expect(shorts[0].qty).toBe(0.04);
+  });
+});
@@ -0,0 +1,58 @@
+import type { FuturesShort } from "@autobot/shared";
+
+export type FuturesShortExitReason = NonNullable<FuturesShort["closeReason"]>;
+
+const MAX_CLOSED_FUTURES_SHORTS = 50;
+
+const round = (value: number, decimals = 8): number => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** Unleveraged PnL of the short at `markPrice`, in % of the entry price (positive when the price fell). */
+export function deriveFuturesShortPnlPct(short: FuturesShort, markPrice: number): number {
+  if (!Number.isFinite(markPrice) || markPrice <= 0 || short.entryPrice <= 0) return 0;
+  return ((short.entryPrice - markPrice) / short.entryPrice) * 100;
+}
+
+/** Mirrors the managed spot exits: take-profit at `takeProfitPct`, stop-loss at `stopLossPct` (negative). */
+export function deriveFuturesShortExit(
+  short: FuturesShort,
+  markPrice: number,
+  thresholds: { takeProfitPct: number; stopLossPct: number }
+): "TAKE_PROFIT" | "STOP_LOSS" | null {
+  if (short.status !== "OPEN" || !Number.isFinite(markPrice) || markPrice <= 0) return null;
+  const pnlPct = deriveFuturesShortPnlPct(short, markPrice);
+  if (pnlPct >= thresholds.takeProfitPct) return "TAKE_PROFIT";
+  if (pnlPct <= thresholds.stopLossPct) return "STOP_LOSS";
+  return null;
+}
+
+export function closeFuturesShort(
+  short: FuturesShort,
+  params: { nowIso: string; reason: FuturesShortExitReason; exitPrice?: number; exitQty?: number }
+): FuturesShort {
+  const closedQty = Math.min(short.qty, params.exitQty ?? short.qty);
+  const realizedPnl =
+    params.reason !== "POSITION_GONE" && params.exitPrice ? round((short.entryPrice - params.exitPrice) * closedQty) : undefined;
+  return {
+    ...short,
+    status: "CLOSED",
+    closedAt: params.nowIso,
+    closeReason: params.reason,
+    ...(params.exitPrice ? { exitPrice: params.exitPrice } : {}),
+    ...(realizedPnl !== undefined ? { realizedPnl } : {})
+  };
+}
+
+/** Replaces the short by id and keeps the newest closed shorts. */
+export function mergeFuturesShort(shorts: FuturesShort[], short: FuturesShort): FuturesShort[] {
+  const next = [short, ...shorts.filter((entry) => entry.id !== short.id)];
+  const open = next.filter((entry) => entry.status === "OPEN");
+  const closed = next
+    .filter((entry) => entry.status === "CLOSED")
+    .sort((a, b) => (b.closedAt ?? "").localeCompare(a.closedAt ?? ""))
+    .slice(0, MAX_CLOSED_FUTURES_SHORTS);
+  return [...open, ...closed];
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import type { Order } from "@autobot/shared";
+
+import {
+  applyGridOrderUpdates,
+  buildGridPlan,
+  deriveBollingerGridRange,
+  isGridRecenterDue,
+  markGridLevelOrder,
+  selectGridLegs,
+  trackGridRange,
+  trailGridPlanUp
+} from "./grid-plan.service";
+
+const nowIso = "2026-03-01T00:00:00.000Z";
+
+const filled = (id: string, side: "BUY" | "SELL", price: number, qty: number, feeHome?: number): Order => ({
+  id,
+  ts: nowIso,
+  symbol: "AAAUSDC",
+  side,
+  type: "LIMIT",
+  status: "FILLED",
+  price,
+  qty,
+  ...(feeHome ? { feeHome } : {})
+});
+
+describe("buildGridPlan", () => {
+  it("lays equal price steps around the anchor for arithmetic spacing", () => {
+    const plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso });
+    expect(plan.levels.map((level) => level.price)).toEqual([98, 99, 100, 101, 102]);
+    expect(plan).toMatchObject({ lowerPrice: 98, upperPrice: 102, levelCount: 5 });
+  });
+
+  it("lays equal % steps for geometric spacing", () => {
+    const plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 4, spacing: "GEOMETRIC", nowIso });
+    const prices = plan.levels.map((level) => level.price);
+    expect(prices[1] / prices[0]).toBeCloseTo(1.01, 8);
+    expect(prices[3] / prices[2]).toBeCloseTo(1.01, 8);
+    expect(Math.sqrt(prices[1] * prices[2])).toBeCloseTo(100, 6);
+  });
+
+  it("spans the Bollinger band reconstructed from the universe features", () => {
+    const range = deriveBollingerGridRange({
+      price: 102,
+      bollingerPosition20: 0.75,
+      bollingerWidthPct20: (8 / 102) * 100,
+      levelCount: 5,
+      spacing: "ARITHMETIC"
+    });
+    expect(range?.anchorPrice).toBeCloseTo(100, 8);
+    expect(range?.stepPct).toBeCloseTo(2, 8);
+
+    const plan = buildGridPlan({ symbol: "AAAUSDC", ...range!, levelCount: 5, spacing: "ARITHMETIC", rangeMode: "BOLLINGER", nowIso });
+    expect(plan).toMatchObject({ lowerPrice: 96, upperPrice: 104, rangeMode: "BOLLINGER" });
+    expect(deriveBollingerGridRange({ price: 102, levelCount: 5, spacing: "ARITHMETIC" })).toBeNull();
+  });
+});
+
+describe("grid re-centring", () => {
+  const params = { levelCount: 5, spacing: "ARITHMETIC" as const, rangeMode: "ATR" as const, recenterAfterMs: 10 * 60_000 };
+  const nowMs = Date.parse(nowIso);
+
+  it("re-centres only after the price stayed outside the range for the window", () => {
+    let plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso });
+    expect(isGridRecenterDue(plan, { ...params, price: 100.5, nowMs })).toBe(false);
+    expect(isGridRecenterDue(plan, { ...params, price: 100.5, levelCount: 6, nowMs })).toBe(true);
+
+    const laterIso = new Date(nowMs + 30 * 60_000).toISOString();
+    plan = trackGridRange(plan, 102.5, laterIso);
+    expect(plan.outOfRangeSince).toBe(laterIso);
+    expect(trackGridRange(plan, 103, laterIso)).toBe(plan);
+    expect(isGridRecenterDue(plan, { ...params, price: 102.5, nowMs: nowMs + 35 * 60_000 })).toBe(false);
+    expect(isGridRecenterDue(plan, { ...params, price: 102.5, nowMs: nowMs + 40 * 60_000 })).toBe(true);
+    expect(trackGridRange(plan, 101, laterIso).outOfRangeSince).toBeUndefined();
+  });
+
+  it("trails an infinity grid upward and keeps held lots below", () => {
+    let plan = buildGridPlan({
+      symbol: "AAAUSDC",
+      anchorPrice: 100,
+      stepPct: 1,
+      levelCount: 5,
+      spacing: "ARITHMETIC",
+      rangeMode: "INFINITY",
+      nowIso
+    });
+    expect(isGridRecenterDue(plan, { ...params, rangeMode: "INFINITY", price: 102, nowMs })).toBe(true);
+    plan = markGridLevelOrder(plan, { index: 1, side: "BUY", orderId: "b1", qty: 1, nowIso });
+    plan = applyGridOrderUpdates(plan, [filled("b1", "BUY", 99, 1)], nowIso);
+
+    const trailed = trailGridPlanUp(plan, 103.5, nowIso);
+    expect(trailed.levels.map((level) => level.price)).toEqual([99, 100, 101, 102, 103, 104]);
+    expect(trailed.levels.map((level) => level.index)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(trailed).toMatchObject({ lowerPrice: 99, upperPrice: 104, levelCount: 5 });
+    expect(trailGridPlanUp(trailed, 103.5, nowIso)).toBe(trailed);
+  });
+
+  it("keeps sub-satoshi levels apart and stops trailing once the price is covered", () => {
+    const plan = buildGridPlan({
+      symbol: "AAABTC",
+      anchorPrice: 5e-8,
+      stepPct: 1,
+      levelCount: 5,
+      spacing: "GEOMETRIC",
+      rangeMode: "INFINITY",
+      nowIso
+    });
+    const prices = plan.levels.map((level) => level.price);
+    expect(prices).toEqual([5e-8, 6e-8, 7e-8, 8e-8, 9e-8]);
+
+    const trailed = trailGridPlanUp(plan, 1.2e-7, nowIso);
+    expect(trailed.upperPrice).toBeGreaterThan(1.2e-7);
+    const collapsed = { ...plan, levels: plan.levels.map((level) => ({ ...level, price: 5e-8 })), upperPrice: 5e-8 };
+    expect(trailGridPlanUp(collapsed, 6e-8, nowIso).levels.map((level) => level.price).slice(-3)).toEqual([5e-8, 6e-8, 7e-8]);
+  });
+});
+
+describe("grid plan cycles", () => {
+  it("skips levels holding a bought lot and books a cycle when the sell above fills", () => {
+    let plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso });
+    expect(selectGridLegs(plan, 99.5)).toMatchObject({ buy: { index: 1, price: 99 }, sell: { index: 2, price: 100 } });
+
+    plan = markGridLevelOrder(plan, { index: 1, side: "BUY", orderId: "b1", qty: 2, nowIso });
+    plan = applyGridOrderUpdates(plan, [filled("b1", "BUY", 99, 2, 0.2)], nowIso);
+    expect(plan.levels[1]).toMatchObject({ status: "FILLED", fillPrice: 99, qty: 2 });
+    expect(selectGridLegs(plan, 99.5).buy?.index).toBe(0);
+
+    plan = markGridLevelOrder(plan, { index: 2, side: "SELL", orderId: "s1", qty: 2, nowIso });
+    expect(applyGridOrderUpdates(plan, [{ ...filled("s1", "SELL", 100, 2), status: "NEW" }], nowIso)).toBe(plan);
+    plan = applyGridOrderUpdates(plan, [filled("s1", "SELL", 100, 2, 0.2)], nowIso);
+
+    expect(plan.cycleCount).toBe(1);
+    expect(plan.realizedProfit).toBeCloseTo(1.6, 8);
+    expect(plan.cycles[0]).toMatchObject({ buyPrice: 99, sellPrice: 100, qty: 2 });
+    expect(plan.levels.map((level) => level.status)).toEqual(["EMPTY", "EMPTY", "EMPTY", "EMPTY", "EMPTY"]);
+  });
+
+  it("frees the level of a canceled order and carries cycles over to a rebuilt plan", () => {
+    let plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso });
+    plan = markGridLevelOrder(plan, { index: 1, side: "BUY", orderId: "b1", qty: 1, nowIso });
+    plan = applyGridOrderUpdates(plan, [{ ...filled("b1", "BUY", 99, 1), status: "CANCELED" }], nowIso);
+    expect(plan.levels[1]).toEqual({ index: 1, price: 99, status: "EMPTY" });
+
+    const rebuilt = buildGridPlan(
+      { symbol: "AAAUSDC", anchorPrice: 110, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso },
+      { ...plan, cycleCount: 3, realizedProfit: 2.5 }
+    );
+    expect(rebuilt).toMatchObject({ anchorPrice: 110, cycleCount: 3, realizedProfit: 2.5 });
+  });
+
+  it("carries held lots and resting orders over a re-centre so their cycle still books", () => {
+    let plan = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 100, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso });
+    plan = markGridLevelOrder(plan, { index: 1, side: "BUY", orderId: "b1", qty: 1, nowIso });
+    plan = applyGridOrderUpdates(plan, [filled("b1", "BUY", 99, 1)], nowIso);
+    plan = markGridLevelOrder(plan, { index: 2, side: "SELL", orderId: "s1", qty: 1, nowIso });
+
+    let rebuilt = buildGridPlan({ symbol: "AAAUSDC", anchorPrice: 110, stepPct: 1, levelCount: 5, spacing: "ARITHMETIC", nowIso }, plan);
+    expect(rebuilt).toMatchObject({ lowerPrice: 107.8, upperPrice: 112.2, levelCount: 5 });
+    expect(rebuilt.levels.slice(0, 3)).toEqual([
+      { index: 0, price: 99, status: "FILLED", side: "BUY", orderId: "b1", qty: 1, fillPrice: 99, filledAt: nowIso },
+      { index: 1, price: 100, status: "OPEN", side: "SELL", orderId: "s1", qty: 1 },
+      { index: 2, price: 107.8, status: "EMPTY" }
+    ]);
+
+    rebuilt = applyGridOrderUpdates(rebuilt, [filled("s1", "SELL", 100, 1)], nowIso);
+    expect(rebuilt.cycles[0]).toMatchObject({ buyPrice: 99, sellPrice: 100, qty: 1, profit: 1 });
+    expect(rebuilt.levels.slice(0, 2).map((level) => level.status)).toEqual(["EMPTY", "EMPTY"]);
+  });
+});
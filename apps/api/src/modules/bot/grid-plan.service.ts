@@ -0,0 +1,275 @@
+import type { GridCycle, GridLevel, GridPlan, Order } from "@autobot/shared";
+
+export type GridSpacing = GridPlan["spacing"];
+export type GridRangeMode = GridPlan["rangeMode"];
+
+export type GridPlanParams = {
+  symbol: string;
+  anchorPrice: number;
+  /** Distance between neighbouring levels at the anchor, in %. */
+  stepPct: number;
+  levelCount: number;
+  spacing: GridSpacing;
+  rangeMode?: GridRangeMode;
+  nowIso: string;
+};
+
+export type GridLegs = {
+  /** Highest level below the price that does not already hold a bought lot. */
+  buy: GridLevel | null;
+  /** Lowest level above the price. */
+  sell: GridLevel | null;
+};
+
+const MAX_GRID_CYCLES = 50;
+const MIN_BAND_STEP_PCT = 0.2;
+const MAX_BAND_STEP_PCT = 5;
+const QTY_EPSILON = 1e-12;
+// Smallest price step at the 8-decimal rounding of level prices; neighbouring levels are at least this far apart.
+const PRICE_TICK = 1e-8;
+// Upper bound on levels added by one trail; a larger jump is left to the re-centre.
+const MAX_TRAIL_LEVELS = 500;
+
+const round = (value: number, decimals = 8): number => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const emptyLevel = (level: GridLevel): GridLevel => ({ index: level.index, price: level.price, status: "EMPTY" });
+
+/** Level prices rounded to 8 decimals, kept strictly increasing and above zero (low-priced assets round together). */
+const nextLevelPrice = (price: number, previous: number | undefined): number =>
+  Math.max(round(price), round((previous ?? 0) + PRICE_TICK));
+
+/**
+ * Puts the held lots (FILLED) and resting orders (OPEN) of the plan being replaced into the new levels, replacing a
+ * new level at the same price, and renumbers by price so sells still pair with the lots below them.
+ */
+function carryOverGridLevels(levels: GridLevel[], previous: GridPlan | null | undefined): GridLevel[] {
+  const held = (previous?.levels ?? []).filter((level) => level.status === "FILLED" || level.status === "OPEN");
+  if (held.length === 0) return levels;
+  const heldPrices = new Set(held.map((level) => level.price));
+  return [...levels.filter((level) => !heldPrices.has(level.price)), ...held]
+    .sort((a, b) => a.price - b.price)
+    .map((level, index) => ({ ...level, index }));
+}
+
+/**
+ * Lays `levelCount` price levels around the anchor, spaced by `stepPct` (equal % steps when geometric, equal price
+ * steps when arithmetic). Realised cycles, held lots and resting orders of the plan being replaced are carried over;
+ * the range (`lowerPrice`–`upperPrice`) covers the new levels only.
+ */
+export function buildGridPlan(params: GridPlanParams, previous?: GridPlan | null): GridPlan {
+  const gaps = Math.max(1, Math.round(params.levelCount) - 1);
+  const halfGaps = gaps / 2;
+  const ratio = 1 + params.stepPct / 100;
+  // Arithmetic steps are capped so the lowest level stays above zero.
+  const stepAbs = Math.min(params.anchorPrice * (params.stepPct / 100), (params.anchorPrice * 0.9) / halfGaps);
+  const lowerPrice =
+    params.spacing === "GEOMETRIC" ? params.anchorPrice / ratio ** halfGaps : params.anchorPrice - stepAbs * halfGaps;
+  const levels: GridLevel[] = [];
+  for (let index = 0; index <= gaps; index += 1) {
+    const price = params.spacing === "GEOMETRIC" ? lowerPrice * ratio ** index : lowerPrice + stepAbs * index;
+    levels.push({ index, price: nextLevelPrice(price, levels[index - 1]?.price), status: "EMPTY" });
+  }
+
+  return {
+    symbol: params.symbol,
+    spacing: params.spacing,
+    rangeMode: params.rangeMode ?? "ATR",
+    levelCount: levels.length,
+    lowerPrice: levels[0].price,
+    upperPrice: levels[levels.length - 1].price,
+    anchorPrice: round(params.anchorPrice),
+    stepPct: round(params.stepPct, 6),
+    levels: carryOverGridLevels(levels, previous),
+    cycles: previous?.cycles ?? [],
+    cycleCount: previous?.cycleCount ?? 0,
+    realizedProfit: previous?.realizedProfit ?? 0,
+    createdAt: params.nowIso,
+    updatedAt: params.nowIso
+  };
+}
+
+/**
+ * Reconstructs the Bollinger band (20, 2σ) from the universe features (position of the close in the band and band width
+ * as % of the close) and returns the anchor and step that lay `levelCount` levels across it. The step is kept within
+ * 0.2–5% so a squeezed band does not produce levels inside the fees. Returns null without usable features.
+ */
+export function deriveBollingerGridRange(params: {
+  price: number;
+  bollingerPosition20?: number;
+  bollingerWidthPct20?: number;
+  levelCount: number;
+  spacing: GridSpacing;
+}): { anchorPrice: number; stepPct: number } | null {
+  const { price, bollingerPosition20: position, bollingerWidthPct20: widthPct } = params;
+  if (!Number.isFinite(price) || price <= 0) return null;
+  if (typeof position !== "number" || typeof widthPct !== "number" || !Number.isFinite(widthPct) || widthPct <= 0) return null;
+
+  const width = (price * widthPct) / 100;
+  const lower = price - Math.max(0, Math.min(1, position)) * width;
+  const upper = lower + width;
+  if (lower <= 0) return null;
+
+  const gaps = Math.max(1, Math.round(params.levelCount) - 1);
+  const geometric = params.spacing === "GEOMETRIC";
+  const anchorPrice = geometric ? Math.sqrt(lower * upper) : (lower + upper) / 2;
+  const stepPct = geometric ? ((upper / lower) ** (1 / gaps) - 1) * 100 : ((width / gaps) / anchorPrice) * 100;
+  return { anchorPrice, stepPct: Math.max(MIN_BAND_STEP_PCT, Math.min(MAX_BAND_STEP_PCT, stepPct)) };
+}
+
+/** Sets `outOfRangeSince` when the price leaves the plan's range and clears it when it is back. Returns the same plan otherwise. */
+export function trackGridRange(plan: GridPlan, price: number, nowIso: string): GridPlan {
+  const outOfRange = price <= plan.lowerPrice || price >= plan.upperPrice;
+  if (outOfRange === Boolean(plan.outOfRangeSince)) return plan;
+  return { ...plan, outOfRangeSince: outOfRange ? nowIso : undefined };
+}
+
+/**
+ * Whether the plan should be laid out again around the price: its shape no longer matches the config, or the price has
+ * been outside the range for `recenterAfterMs` (counted from `outOfRangeSince`, or from the last plan update while the
+ * symbol was not ticked). An infinity grid above its range is always due; `trailGridPlanUp` normally handles it first.
+ */
+export function isGridRecenterDue(
+  plan: GridPlan,
+  params: { price: number; levelCount: number; spacing: GridSpacing; rangeMode: GridRangeMode; nowMs: number; recenterAfterMs: number }
+): boolean {
+  if (plan.levelCount !== params.levelCount || plan.spacing !== params.spacing || plan.rangeMode !== params.rangeMode) return true;
+  if (params.price > plan.lowerPrice && params.price < plan.upperPrice) return false;
+  if (plan.rangeMode === "INFINITY" && params.price >= plan.upperPrice) return true;
+  const sinceMs = Date.parse(plan.outOfRangeSince ?? plan.updatedAt);
+  if (!Number.isFinite(sinceMs)) return true;
+  return params.nowMs - sinceMs >= Math.max(0, params.recenterAfterMs);
+}
+
+/**
+ * Infinity grid: adds levels above the top one (same step as the top pair) until the price is back inside, then drops
+ * free levels from the bottom down to the configured count. Held lots and resting orders below are kept, so their sells
+ * still pair. Returns the same plan when nothing moved.
+ */
+export function trailGridPlanUp(plan: GridPlan, price: number, nowIso: string): GridPlan {
+  if (plan.levels.length < 2 || !(price >= plan.upperPrice)) return plan;
+  const levels = [...plan.levels];
+  const geometric = plan.spacing === "GEOMETRIC";
+  for (let added = 0; price >= levels[levels.length - 1].price && added < MAX_TRAIL_LEVELS; added += 1) {
+    const top = levels[levels.length - 1];
+    const below = levels[levels.length - 2];
+    const next = geometric ? top.price * (top.price / below.price) : top.price + (top.price - below.price);
+    levels.push({ index: top.index + 1, price: nextLevelPrice(next, top.price), status: "EMPTY" });
+  }
+  while (levels.length > plan.levelCount && levels[0].status === "EMPTY") levels.shift();
+
+  return {
+    ...plan,
+    levels,
+    lowerPrice: levels[0].price,
+    upperPrice: levels[levels.length - 1].price,
+    anchorPrice: round(price),
+    outOfRangeSince: undefined,
+    updatedAt: nowIso
+  };
+}
+
+export function selectGridLegs(plan: GridPlan, price: number): GridLegs {
+  const below = plan.levels.filter((level) => level.price < price && level.status !== "FILLED");
+  const sell = plan.levels.find((level) => level.price > price) ?? null;
+  return { buy: below[below.length - 1] ?? null, sell };
+}
+
+export function markGridLevelOrder(
+  plan: GridPlan,
+  params: { index: number; side: "BUY" | "SELL"; orderId: string; qty: number; nowIso: string }
+): GridPlan {
+  return {
+    ...plan,
+    levels: plan.levels.map((level) =>
+      level.index === params.index
+        ? { ...level, status: "OPEN", side: params.side, orderId: params.orderId, qty: params.qty }
+        : level
+    ),
+    updatedAt: params.nowIso
+  };
+}
+
+/**
+ * Moves OPEN levels along with their orders: a filled BUY holds its lot, a filled SELL closes a cycle against the
+ * highest bought lot below it, and canceled / rejected orders free the level. Returns the same plan when nothing changed.
+ */
+export function applyGridOrderUpdates(plan: GridPlan, orders: Order[], nowIso: string): GridPlan {
+  const byId = new Map(orders.map((order) => [order.id, order]));
+  let levels = plan.levels;
+  let cycles = plan.cycles;
+  let cycleCount = plan.cycleCount;
+  let realizedProfit = plan.realizedProfit;
+  let changed = false;
+
+  for (const level of plan.levels) {
+    if (level.status !== "OPEN" || !level.orderId) continue;
+    const order = byId.get(level.orderId);
+    if (!order || order.status === "NEW") continue;
+    changed = true;
+
+    if (order.status !== "FILLED") {
+      levels = levels.map((entry) => (entry.index === level.index ? emptyLevel(entry) : entry));
+      continue;
+    }
+
+    const fillPrice = order.price && order.price > 0 ? order.price : level.price;
+    if (order.side === "BUY") {
+      levels = levels.map((entry) =>
+        entry.index === level.index
+          ? {
+              ...entry,
+              status: "FILLED",
+              side: "BUY",
+              qty: order.qty,
+              fillPrice,
+              ...(order.feeHome ? { fee: order.feeHome } : {}),
+              filledAt: order.ts
+            }
+          : entry
+      );
+      continue;
+    }
+
+    const lot = [...levels].reverse().find((entry) => entry.index < level.index && entry.status === "FILLED");
+    if (lot?.qty && lot.fillPrice) {
+      const qty = Math.min(order.qty, lot.qty);
+      const buyFee = (lot.fee ?? 0) * (qty / lot.qty);
+      const sellFee = (order.feeHome ?? 0) * (qty / order.qty);
+      const cycle: GridCycle = {
+        buyPrice: lot.fillPrice,
+        sellPrice: fillPrice,
+        qty,
+        profit: round((fillPrice - lot.fillPrice) * qty - buyFee - sellFee),
+        completedAt: order.ts
+      };
+      cycles = [cycle, ...cycles].slice(0, MAX_GRID_CYCLES);
+      cycleCount += 1;
+      realizedProfit = round(realizedProfit + cycle.profit);
+      const remainingQty = lot.qty - qty;
+      levels = levels.map((entry) =>
+        entry.index === lot.index
+          ? remainingQty > QTY_EPSILON
+            ? { ...entry, qty: remainingQty, ...(entry.fee ? { fee: entry.fee - buyFee } : {}) }
+            : emptyLevel(entry)
+          : entry
+      );
+    }
+    levels = levels.map((entry) => (entry.index === level.index ? emptyLevel(entry) : entry));
+  }
+
+  return changed ? { ...plan, levels, cycles, cycleCount, realizedProfit, updatedAt: nowIso } : plan;
+}
+
+/** Frees every level holding a bought lot; used once the position is gone. Returns the same plan when none held one. */
+export function releaseGridLots(plan: GridPlan, nowIso: string): GridPlan {
+  if (!plan.levels.some((level) => level.status === "FILLED")) return plan;
+  return {
+    ...plan,
+    levels: plan.levels.map((level) => (level.status === "FILLED" ? emptyLevel(level) : level)),
+    updatedAt: nowIso
+  };
+}
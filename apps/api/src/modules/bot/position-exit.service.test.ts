@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  derivePositionExitDecision,
+  derivePyramidAddQuote,
+  deriveStalePositionDecision,
+  type PositionExitInput,
+  type PositionExitSettings,
+  type PyramidAddInput,
+  type StalePositionInput
+} from "./position-exit.service";
+
+const settings = (overrides: Partial<PositionExitSettings> = {}): PositionExitSettings => ({
+  trailingStopEnabled: false,
+  trailingStopActivationPct: 1,
+  trailingStopDistancePct: 0.5,
+  trailingStopAtrMultiplier: 0,
+  breakEvenStopEnabled: false,
+  breakEvenTriggerPct: 0.6,
+  breakEvenOffsetPct: 0.1,
+  takeProfitLadder: [],
+  ...overrides
+});
+
+const input = (overrides: Partial<PositionExitInput> = {}): PositionExitInput => ({
+  avgEntryPrice: 100,
+  price: 100,
+  highWaterPrice: 100,
+  takeProfitPct: 0.8,
+  stopLossPct: -1.5,
+  breakEvenArmed: false,
+  takeProfitStepsDone: 0,
+  settings: settings(),
+  ...overrides
+});
+
+describe("derivePositionExitDecision", () => {
+  it("keeps the fixed take-profit / stop-loss band when trailing and break-even are off", () => {
+    expect(derivePositionExitDecision(input({ price: 100.5 })).rule).toBeNull();
+    expect(derivePositionExitDecision(input({ price: 100.81 })).rule).toBe("TAKE_PROFIT");
+    expect(derivePositionExitDecision(input({ price: 98.5 }))).toMatchObject({ rule: "STOP_LOSS", stopRule: "STOP_LOSS", stopPrice: 98.5 });
+  });
+
+  it("arms the break-even stop after the trigger and keeps it armed on the way back down", () => {
+    const armed = derivePositionExitDecision(
+      input({ price: 100.4, highWaterPrice: 100.7, settings: settings({ breakEvenStopEnabled: true }) })
+    );
+    expect(armed).toMatchObject({ rule: null, breakEvenArmed: true, stopRule: "BREAK_EVEN_STOP", stopPrice: 100.1 });
+
+    // The high-water mark was reset by a later buy, but the persisted flag keeps the stop at break-even.
+    const fired = derivePositionExitDecision(
+      input({ price: 100.05, highWaterPrice: 100.05, breakEvenArmed: true, settings: settings({ breakEvenStopEnabled: true }) })
+    );
+    expect(fired.rule).toBe("BREAK_EVEN_STOP");
+  });
+
+  it("trails the high-water mark once activated and drops the fixed take-profit", () => {
+    const trailing = settings({ trailingStopEnabled: true });
+    expect(derivePositionExitDecision(input({ price: 101, settings: trailing }))).toMatchObject({
+      rule: null,
+      takeProfitPrice: null,
+      trailingActive: true
+    });
+    expect(derivePositionExitDecision(input({ price: 100.6, highWaterPrice: 100.9, settings: trailing })).trailingActive).toBe(false);
+
+    const hit = derivePositionExitDecision(input({ price: 101.45, highWaterPrice: 102, settings: trailing }));
+    expect(hit).toMatchObject({ rule: "TRAILING_STOP", stopRule: "TRAILING_STOP", stopPrice: 101.49, trailingDistancePct: 0.5 });
+  });
+
+  it("sizes the trailing distance from ATR and falls back to the fixed distance without it", () => {
+    const atrTrailing = settings({ trailingStopEnabled: true, trailingStopAtrMultiplier: 2 });
+    expect(derivePositionExitDecision(input({ price: 102.4, highWaterPrice: 104, atrPct: 0.75, settings: atrTrailing }))).toMatchObject({
+      rule: "TRAILING_STOP",
+      trailingDistancePct: 1.5,
+      stopPrice: 102.44
+    });
+    expect(derivePositionExitDecision(input({ price: 103, highWaterPrice: 104, settings: atrTrailing })).trailingDistancePct).toBe(0.5);
+  });
+
+  it("scales out along the take-profit ladder and leaves the rest to the trailing stop", () => {
+    const ladder = [
+      { pnlPct: 1, fraction: 0.33 },
+      { pnlPct: 0.5, fraction: 0.33 }
+    ];
+    const first = derivePositionExitDecision(input({ price: 100.6, settings: settings({ takeProfitLadder: ladder }) }));
+    expect(first).toMatchObject({ rule: "TAKE_PROFIT", takeProfitStep: 0, exitFraction: 0.33, takeProfitPrice: null });
+    // Without trailing, the last step sells whatever is left.
+    expect(
+      derivePositionExitDecision(input({ price: 101.2, takeProfitStepsDone: 1, settings: settings({ takeProfitLadder: ladder }) }))
+    ).toMatchObject({ rule: "TAKE_PROFIT", takeProfitStep: 1, exitFraction: null });
+    // With trailing, the last step is partial too and nothing fires once the ladder is done.
+    const trailing = settings({ takeProfitLadder: ladder, trailingStopEnabled: true, trailingStopActivationPct: 5 });
+    expect(derivePositionExitDecision(input({ price: 101.2, takeProfitStepsDone: 1, settings: trailing })).exitFraction).toBe(0.33);
+    expect(derivePositionExitDecision(input({ price: 104, takeProfitStepsDone: 2, settings: trailing })).rule).toBeNull();
+  });
+});
+
+describe("derivePyramidAddQuote", () => {
+  const pyramid = (overrides: Partial<PyramidAddInput> = {}): PyramidAddInput => ({
+    maxAdds: 2,
+    triggerPct: 1,
+    addFraction: 0.5,
+    addsDone: 0,
+    pnlPct: 1.2,
+    bullTrend: true,
+    positionCostQuote: 20,
+    positionExposureHome: 20.24,
+    maxPositionExposureHome: 50,
+    notionalCap: 25,
+    ...overrides
+  });
+
+  it("adds a fraction of the position cost once the trigger gain is reached in a bull trend", () => {
+    expect(derivePyramidAddQuote(pyramid())).toBe(10);
+    expect(derivePyramidAddQuote(pyramid({ pnlPct: 0.9 }))).toBeNull();
+    expect(derivePyramidAddQuote(pyramid({ bullTrend: false }))).toBeNull();
+    expect(derivePyramidAddQuote(pyramid({ addsDone: 2 }))).toBeNull();
+  });
+
+  it("caps the add at the max-position headroom and the notional cap", () => {
+    expect(derivePyramidAddQuote(pyramid({ maxPositionExposureHome: 26 }))).toBe(5.76);
+    expect(derivePyramidAddQuote(pyramid({ notionalCap: 4 }))).toBe(4);
+    expect(derivePyramidAddQuote(pyramid({ maxPositionExposureHome: 20 }))).toBeNull();
+  });
+});
+
+describe("deriveStalePositionDecision", () => {
+  const hour = 60 * 60_000;
+  const stale = (overrides: Partial<StalePositionInput> = {}): StalePositionInput => ({
+    strategy: "MEAN_REVERSION",
+    windowStartMs: 0,
+    nowMs: 7 * hour,
+    pnlPct: -0.2,
+    bullTrend: false,
+    takeProfitStepsDone: 0,
+    settings: { maxHoldingMinutes: { TREND: 0, MEAN_REVERSION: 360, GRID: 1440 }, action: "REEVALUATE" },
+    ...overrides
+  });
+
+  it("uses the max holding period of the position's lane", () => {
+    expect(deriveStalePositionDecision(stale())).toEqual({ action: "EXIT", heldMinutes: 420, maxHoldingMinutes: 360 });
+    expect(deriveStalePositionDecision(stale({ strategy: "GRID" })).action).toBeNull();
+    expect(deriveStalePositionDecision(stale({ strategy: "TREND", nowMs: 100 * hour })).action).toBeNull();
+  });
+
+  it("keeps a profitable bull-trend position on re-evaluation and leaves laddered positions alone", () => {
+    expect(deriveStalePositionDecision(stale({ pnlPct: 0.4, bullTrend: true })).action).toBe("KEEP");
+    expect(
+      deriveStalePositionDecision(
+        stale({ pnlPct: 0.4, bullTrend: true, settings: { ...stale().settings, action: "EXIT" } })
+      ).action
+    ).toBe("EXIT");
+    expect(deriveStalePositionDecision(stale({ takeProfitStepsDone: 1 })).action).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+export type PositionExitRule = "TAKE_PROFIT" | "STOP_LOSS" | "TRAILING_STOP" | "BREAK_EVEN_STOP";
+export type PositionStopRule = Exclude<PositionExitRule, "TAKE_PROFIT">;
+
+export type PositionExitSettings = {
+  trailingStopEnabled: boolean;
+  trailingStopActivationPct: number;
+  trailingStopDistancePct: number;
+  /** > 0: trailing distance = ATR(14)% × multiplier (fixed distance when ATR is unknown). */
+  trailingStopAtrMultiplier: number;
+  breakEvenStopEnabled: boolean;
+  breakEvenTriggerPct: number;
+  breakEvenOffsetPct: number;
+  /** Scale-out steps replacing the fixed take-profit; fractions are of the largest size the position reached. */
+  takeProfitLadder: Array<{ pnlPct: number; fraction: number }>;
+};
+
+export type PositionExitInput = {
+  avgEntryPrice: number;
+  price: number;
+  /** Highest price seen since the position opened (the current price is folded in). */
+  highWaterPrice: number;
+  takeProfitPct: number;
+  /** Negative, already regime-adjusted. */
+  stopLossPct: number;
+  atrPct?: number | null;
+  breakEvenArmed: boolean;
+  takeProfitStepsDone: number;
+  settings: PositionExitSettings;
+};
+
+export type PositionExitDecision = {
+  /** The rule that fired, or null while the position should stay open. */
+  rule: PositionExitRule | null;
+  pnlPct: number;
+  peakPnlPct: number;
+  highWaterPrice: number;
+  /** The stop currently in force and the rule that set it (the highest of fixed / break-even / trailing). */
+  stopPrice: number;
+  stopRule: PositionStopRule;
+  breakEvenArmed: boolean;
+  trailingActive: boolean;
+  trailingDistancePct: number | null;
+  /** Price of the next full take-profit; null when a trailing stop or ladder replaces the fixed take-profit. */
+  takeProfitPrice: number | null;
+  /** Ladder step that fired (0-based), when `rule` is TAKE_PROFIT from the ladder. */
+  takeProfitStep: number | null;
+  /** Share of the position's peak size to sell; null sells everything that is left. */
+  exitFraction: number | null;
+};
+
+const MIN_TRAILING_DISTANCE_PCT = 0.1;
+
+const round = (value: number, decimals = 8): number => {
+  if (!Number.isFinite(value)) return 0;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function resolveTrailingDistancePct(settings: PositionExitSettings, atrPct?: number | null): number {
+  const atrDistance =
+    settings.trailingStopAtrMultiplier > 0 && typeof atrPct === "number" && Number.isFinite(atrPct) && atrPct > 0
+      ? atrPct * settings.trailingStopAtrMultiplier
+      : Number.NaN;
+  const distance = Number.isFinite(atrDistance) ? atrDistance : settings.trailingStopDistancePct;
+  return Math.max(MIN_TRAILING_DISTANCE_PCT, distance);
+}
+
+export function normalizeTakeProfitLadder(ladder: PositionExitSettings["takeProfitLadder"]): PositionExitSettings["takeProfitLadder"] {
+  return ladder
+    .filter((rung) => Number.isFinite(rung.pnlPct) && rung.pnlPct > 0 && Number.isFinite(rung.fraction) && rung.fraction > 0)
+    .sort((a, b) => a.pnlPct - b.pnlPct);
+}
+
+/**
+ * Decides the exit for one long position from its entry, current price and high-water mark.
+ *
+ * The fixed stop always applies; an armed break-even stop and an active trailing stop can only raise it.
+ * A take-profit ladder sells the position in steps; whatever is left after the last step trails when the
+ * trailing stop is on, otherwise the last step sells the rest. Without a ladder, an enabled trailing stop
+ * drops the fixed take-profit so winners can run until the stop hits.
+ */
+export function derivePositionExitDecision(input: PositionExitInput): PositionExitDecision {
+  const { avgEntryPrice, price, settings } = input;
+  const highWaterPrice = Math.max(input.highWaterPrice, price);
+  const pnlPct = ((price - avgEntryPrice) / avgEntryPrice) * 100;
+  const peakPnlPct = ((highWaterPrice - avgEntryPrice) / avgEntryPrice) * 100;
+
+  let stopPrice = avgEntryPrice * (1 + input.stopLossPct / 100);
+  let stopRule: PositionStopRule = "STOP_LOSS";
+
+  const breakEvenArmed = settings.breakEvenStopEnabled && (input.breakEvenArmed || peakPnlPct >= settings.breakEvenTriggerPct);
+  if (breakEvenArmed) {
+    const breakEvenPrice = avgEntryPrice * (1 + settings.breakEvenOffsetPct / 100);
+    if (breakEvenPrice > stopPrice) {
+      stopPrice = breakEvenPrice;
+      stopRule = "BREAK_EVEN_STOP";
+    }
+  }
+
+  const trailingActive = settings.trailingStopEnabled && peakPnlPct >= settings.trailingStopActivationPct;
+  const trailingDistancePct = trailingActive ? resolveTrailingDistancePct(settings, input.atrPct) : null;
+  if (trailingDistancePct !== null) {
+    const trailingPrice = highWaterPrice * (1 - trailingDistancePct / 100);
+    if (trailingPrice > stopPrice) {
+      stopPrice = trailingPrice;
+      stopRule = "TRAILING_STOP";
+    }
+  }
+
+  const ladder = normalizeTakeProfitLadder(settings.takeProfitLadder);
+  const nextRung = ladder[input.takeProfitStepsDone] ?? null;
+  const fixedTakeProfit = ladder.length === 0 && !settings.trailingStopEnabled;
+  const takeProfitPrice = fixedTakeProfit ? avgEntryPrice * (1 + input.takeProfitPct / 100) : null;
+
+  let rule: PositionExitRule | null = null;
+  let takeProfitStep: number | null = null;
+  let exitFraction: number | null = null;
+  if (price <= stopPrice) {
+    rule = stopRule;
+  } else if (nextRung && pnlPct >= nextRung.pnlPct) {
+    rule = "TAKE_PROFIT";
+    takeProfitStep = input.takeProfitStepsDone;
+    const isLastRung = takeProfitStep === ladder.length - 1;
+    exitFraction = isLastRung && !settings.trailingStopEnabled ? null : Math.min(1, nextRung.fraction);
+  } else if (fixedTakeProfit && pnlPct >= input.takeProfitPct) {
+    rule = "TAKE_PROFIT";
+  }
+
+  return {
+    rule,
+    pnlPct,
+    peakPnlPct: round(peakPnlPct, 6),
+    highWaterPrice,
+    stopPrice: round(stopPrice),
+    stopRule,
+    breakEvenArmed,
+    trailingActive,
+    trailingDistancePct: trailingDistancePct === null ? null : round(trailingDistancePct, 6),
+    takeProfitPrice: takeProfitPrice === null ? null : round(takeProfitPrice),
+    takeProfitStep,
+    exitFraction
+  };
+}
+
+export type PyramidAddInput = {
+  maxAdds: number;
+  triggerPct: number;
+  addFraction: number;
+  addsDone: number;
+  pnlPct: number;
+  bullTrend: boolean;
+  positionCostQuote: number;
+  positionExposureHome: number;
+  /** Wallet value × maxPositionPct: the add never takes the symbol past it. */
+  maxPositionExposureHome: number;
+  notionalCap: number;
+};
+
+/**
+ * Quote notional to add to a winning position, or null when no add is due.
+ *
+ * Adds need a bull trend and a gain of `triggerPct` since the average entry; each later add re-measures from the
+ * new, higher average, so adds stay spaced out as the position grows.
+ */
+export function derivePyramidAddQuote(input: PyramidAddInput): number | null {
+  if (!input.bullTrend || input.addsDone >= input.maxAdds) return null;
+  if (!Number.isFinite(input.pnlPct) || input.pnlPct < input.triggerPct) return null;
+  const headroom = input.maxPositionExposureHome - input.positionExposureHome;
+  const addQuote = Math.min(input.positionCostQuote * input.addFraction, headroom, input.notionalCap);
+  return Number.isFinite(addQuote) && addQuote > 0 ? round(addQuote, 8) : null;
+}
+
+export type PositionStrategyLane = "TREND" | "MEAN_REVERSION" | "GRID";
+
+export type StalePositionSettings = {
+  /** Minutes per lane; 0 = no limit for that lane. */
+  maxHoldingMinutes: Record<PositionStrategyLane, number>;
+  action: "EXIT" | "REEVALUATE";
+};
+
+export type StalePositionInput = {
+  strategy: PositionStrategyLane;
+  /** Start of the holding window: the open, or the last re-evaluation that kept the position. */
+  windowStartMs: number;
+  nowMs: number;
+  pnlPct: number;
+  bullTrend: boolean;
+  takeProfitStepsDone: number;
+  settings: StalePositionSettings;
+};
+
+export type StalePositionDecision = {
+  action: "EXIT" | "KEEP" | null;
+  heldMinutes: number;
+  maxHoldingMinutes: number;
+};
+
+/**
+ * Checks a position against its lane's max holding period. Positions that already sold a take-profit step are left
+ * to the ladder. Past the window, REEVALUATE keeps a position that is in profit in a bull trend (a new window starts)
+ * and exits the rest; EXIT always exits.
+ */
+export function deriveStalePositionDecision(input: StalePositionInput): StalePositionDecision {
+  const maxHoldingMinutes = input.settings.maxHoldingMinutes[input.strategy] ?? 0;
+  const heldMinutes = Math.max(0, (input.nowMs - input.windowStartMs) / 60_000);
+  const result = { heldMinutes: round(heldMinutes, 2), maxHoldingMinutes };
+  if (maxHoldingMinutes <= 0 || !Number.isFinite(heldMinutes) || heldMinutes < maxHoldingMinutes) {
+    return { action: null, ...result };
+  }
+  if (input.takeProfitStepsDone > 0) return { action: null, ...result };
+  if (input.settings.action === "REEVALUATE" && input.bullTrend && input.pnlPct > 0) {
+    return { action: "KEEP", ...result };
+  }
+  return { action: "EXIT", ...result };
+}
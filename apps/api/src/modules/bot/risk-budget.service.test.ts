@@ -199,4 +199,32 @@ describe("deriveRiskBudgetDecision", () => {
     expect(feeDrag.allowedActions.marketEntry).toBe(false);
     expect(feeDrag.reasons).toContain("recent-negative-expectancy");
   });
+
+  it("moves a confirmed bear trend into the short lane only when futures are allowed", () => {
+    const bear = {
+      regime: { label: "BEAR_TREND" as const, confidence: 0.74 },
+      strategy: { trend: 0.7, meanReversion: 0.3, grid: 0.35, recommended: "TREND" as const }
+    };
+    const spotOnly = deriveRiskBudgetDecision(baselineInput(bear));
+    const shorting = deriveRiskBudgetDecision(baselineInput({ ...bear, allowShort: true }));
+    const cautious = deriveRiskBudgetDecision(
+      baselineInput({
+        ...bear,
+        allowShort: true,
+        riskState: { state: "CAUTION", trigger: "ABS_DAILY_LOSS", dailyRealizedPnl: -20, managedExposurePct: 0 }
+      })
+    );
+
+    expect(spotOnly.lane).toBe("DEFENSIVE");
+    expect(spotOnly.allowedActions.openShort).toBe(false);
+    expect(spotOnly.maxShortNotionalHome).toBe(0);
+    expect(shorting.lane).toBe("BEAR_SHORT");
+    expect(shorting.allowedActions.openNewPosition).toBe(false);
+    expect(shorting.allowedActions.marketEntry).toBe(false);
+    expect(shorting.allowedActions.openShort).toBe(true);
+    expect(shorting.maxShortNotionalHome).toBeCloseTo(7_000 * 0.015, 6);
+    expect(shorting.reasons).toContain("bear-short-lane");
+    expect(cautious.lane).toBe("DEFENSIVE");
+    expect(cautious.allowedActions.openShort).toBe(false);
+  });
 });
@@ -2,7 +2,8 @@ export type RiskBudgetRiskState = "NORMAL" | "CAUTION" | "HALT";
 export type RiskBudgetTrigger = "NONE" | "ABS_DAILY_LOSS" | "PROFIT_GIVEBACK";
 export type RiskBudgetRegimeLabel = "BULL_TREND" | "BEAR_TREND" | "RANGE" | "NEUTRAL" | "UNKNOWN";
 export type RiskBudgetStrategy = "TREND" | "MEAN_REVERSION" | "GRID";
-export type RiskBudgetLane = "RISK_OFF" | "DEFENSIVE" | "BASELINE" | "OPPORTUNITY" | "RECOVERY_OPPORTUNITY";
+/** BEAR_SHORT is DEFENSIVE for spot, with the trade budget moved to futures shorts (only when `allowShort`). */
+export type RiskBudgetLane = "RISK_OFF" | "DEFENSIVE" | "BASELINE" | "OPPORTUNITY" | "RECOVERY_OPPORTUNITY" | "BEAR_SHORT";
 
 export type RiskBudgetRegime = {
   label: RiskBudgetRegimeLabel;
@@ -45,6 +46,8 @@ export type RiskBudgetInput = {
   baseMinNetEdgePct: number;
   estimatedRoundTripCostPct?: number;
   recentPerformance?: RiskBudgetRecentPerformance;
+  /** Futures are enabled (`derived.allowFutures`): a confirmed bear trend may short instead of only pausing buys. */
+  allowShort?: boolean;
 };
 
 export type RiskBudgetDecision = {
@@ -56,8 +59,11 @@ export type RiskBudgetDecision = {
     placeGridSell: boolean;
     marketEntry: boolean;
     reduceOnly: boolean;
+    openShort: boolean;
   };
   maxNewExposureHome: number;
+  /** Notional budget for one new futures short; 0 outside the BEAR_SHORT lane. */
+  maxShortNotionalHome: number;
   maxTotalExposurePct: number;
   maxTradeNotionalHome: number;
   minNetEdgePct: number;
@@ -134,11 +140,12 @@ export function deriveRiskBudgetDecision(input: RiskBudgetInput): RiskBudgetDeci
     minNetEdgePct += 0.3;
     reasons.push("risk-state-halt");
   } else if (confirmedBear) {
-    lane = "DEFENSIVE";
+    lane = input.allowShort && guard.state === "NORMAL" ? "BEAR_SHORT" : "DEFENSIVE";
     allowNewExposure = false;
     cooldownBias = "STRICT";
     minNetEdgePct += 0.2;
     reasons.push("confirmed-bear-trend");
+    if (lane === "BEAR_SHORT") reasons.push("bear-short-lane");
   } else if (guard.state === "CAUTION") {
     const givebackStillActive =
       guard.trigger === "PROFIT_GIVEBACK" &&
@@ -186,7 +193,8 @@ export function deriveRiskBudgetDecision(input: RiskBudgetInput): RiskBudgetDeci
   }
 
   const maxNewExposureHome = allowNewExposure ? Math.max(0, maxTradeNotionalHome) : 0;
-  if (maxNewExposureHome <= 0 && lane !== "RISK_OFF" && lane !== "DEFENSIVE") {
+  const maxShortNotionalHome = lane === "BEAR_SHORT" ? Math.max(0, maxTradeNotionalHome) : 0;
+  if (maxNewExposureHome <= 0 && lane !== "RISK_OFF" && lane !== "DEFENSIVE" && lane !== "BEAR_SHORT") {
     lane = "DEFENSIVE";
     cooldownBias = "STRICT";
     reasons.push("no-new-exposure-budget");
@@ -200,9 +208,11 @@ export function deriveRiskBudgetDecision(input: RiskBudgetInput): RiskBudgetDeci
       placeGridBuy: maxNewExposureHome > 0,
       placeGridSell: openPositions > 0 || openExposureHome > 0,
       marketEntry: maxNewExposureHome > 0 && lane !== "DEFENSIVE" && lane !== "RISK_OFF",
-      reduceOnly: openPositions > 0 || openExposureHome > 0
+      reduceOnly: openPositions > 0 || openExposureHome > 0,
+      openShort: maxShortNotionalHome > 0
     },
     maxNewExposureHome: round(maxNewExposureHome, 6),
+    maxShortNotionalHome: round(maxShortNotionalHome, 6),
     maxTotalExposurePct,
     maxTradeNotionalHome: round(maxNewExposureHome, 6),
     minNetEdgePct: round(minNetEdgePct, 6),
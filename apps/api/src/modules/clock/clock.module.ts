@@ -0,0 +1,10 @@
+import { Global, Module } from "@nestjs/common";
+
+import { CLOCK, SystemClock } from "./clock";
+
+@Global()
+@Module({
+  providers: [{ provide: CLOCK, useFactory: () => new SystemClock() }],
+  exports: [CLOCK]
+})
+export class ClockModule {}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { AcceleratedClock, FixedClock } from "./clock";
+
+describe("FixedClock", () => {
+  it("only moves on set/advance", () => {
+    const clock = new FixedClock(1_000);
+    expect(clock.now()).toBe(1_000);
+    clock.advance(500);
+    expect(clock.now()).toBe(1_500);
+    clock.set(10_000);
+    expect(clock.now()).toBe(10_000);
+    expect(() => clock.set(Number.NaN)).toThrow(/Invalid clock time/);
+  });
+
+  it("fires due timers in order and reports the scheduled time to callbacks", () => {
+    const clock = new FixedClock(0);
+    const fired: Array<[string, number]> = [];
+    clock.setTimeout(() => fired.push(["timeout-250", clock.now()]), 250);
+    const loop = clock.setInterval(() => fired.push(["interval", clock.now()]), 5_000);
+    clock.setTimeout(() => fired.push(["timeout-5000", clock.now()]), 5_000);
+
+    clock.advance(12_000);
+    expect(fired).toEqual([
+      ["timeout-250", 250],
+      ["interval", 5_000],
+      ["timeout-5000", 5_000],
+      ["interval", 10_000]
+    ]);
+    expect(clock.now()).toBe(12_000);
+
+    loop.cancel();
+    clock.advance(60_000);
+    expect(fired).toHaveLength(4);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("does not fire cancelled timers", () => {
+    const clock = new FixedClock(0);
+    let fired = false;
+    const timer = clock.setTimeout(() => {
+      fired = true;
+    }, 100);
+    timer.cancel();
+    clock.advance(1_000);
+    expect(fired).toBe(false);
+  });
+});
+
+describe("AcceleratedClock", () => {
+  it("starts at the requested time and rejects invalid factors", () => {
+    const startMs = Date.parse("2026-01-01T00:00:00.000Z");
+    const clock = new AcceleratedClock(startMs, 60);
+    expect(clock.now()).toBeGreaterThanOrEqual(startMs);
+    expect(clock.now() - startMs).toBeLessThan(60 * 60_000);
+    expect(() => new AcceleratedClock(startMs, 0)).toThrow(/acceleration factor/);
+  });
+
+  it("scales timers down by the factor", async () => {
+    const clock = new AcceleratedClock(0, 1_000);
+    const firedAt = await new Promise<number>((resolve) => {
+      clock.setTimeout(() => resolve(clock.now()), 5_000);
+    });
+    expect(firedAt).toBeGreaterThanOrEqual(4_000);
+  });
+});
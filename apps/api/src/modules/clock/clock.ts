@@ -0,0 +1,155 @@
+/**
+ * Time source for every service whose behaviour depends on "now" (cooldowns, lock TTLs, cache ages,
+ * daily windows, the engine loop). Production uses the system clock; tests and replays swap in a
+ * fixed or accelerated clock so hours of bot time can be exercised without waiting for them.
+ */
+export const CLOCK = Symbol("CLOCK");
+
+export type ClockTimer = {
+  cancel(): void;
+};
+
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): ClockTimer;
+  setInterval(fn: () => void, ms: number): ClockTimer;
+}
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(fn: () => void, ms: number): ClockTimer {
+    const handle = setTimeout(fn, ms);
+    return { cancel: () => clearTimeout(handle) };
+  }
+
+  setInterval(fn: () => void, ms: number): ClockTimer {
+    const handle = setInterval(fn, ms);
+    return { cancel: () => clearInterval(handle) };
+  }
+}
+
+type ScheduledTimer = {
+  id: number;
+  dueAtMs: number;
+  intervalMs: number | null;
+  fn: () => void;
+};
+
+/**
+ * Manually driven clock. Time only moves on `set()` / `advance()`, which fire due timers in order
+ * (ties broken by registration order), so a run is fully reproducible.
+ */
+export class FixedClock implements Clock {
+  private readonly timers = new Map<number, ScheduledTimer>();
+  private nextTimerId = 1;
+
+  constructor(private nowMs = 0) {
+    FixedClock.assertTime(nowMs);
+  }
+
+  now(): number {
+    return this.nowMs;
+  }
+
+  setTimeout(fn: () => void, ms: number): ClockTimer {
+    return this.schedule(fn, ms, null);
+  }
+
+  setInterval(fn: () => void, ms: number): ClockTimer {
+    return this.schedule(fn, ms, Math.max(1, ms));
+  }
+
+  set(ms: number): void {
+    FixedClock.assertTime(ms);
+    if (ms < this.nowMs) {
+      this.nowMs = ms;
+      return;
+    }
+
+    for (;;) {
+      const due = this.nextDueTimer(ms);
+      if (!due) break;
+      this.nowMs = due.dueAtMs;
+      if (due.intervalMs === null) {
+        this.timers.delete(due.id);
+      } else {
+        due.dueAtMs += due.intervalMs;
+      }
+      due.fn();
+    }
+    this.nowMs = ms;
+  }
+
+  advance(ms: number): void {
+    this.set(this.nowMs + ms);
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  private schedule(fn: () => void, ms: number, intervalMs: number | null): ClockTimer {
+    const id = this.nextTimerId++;
+    const delay = Number.isFinite(ms) ? Math.max(0, ms) : 0;
+    this.timers.set(id, { id, dueAtMs: this.nowMs + delay, intervalMs, fn });
+    return { cancel: () => this.timers.delete(id) };
+  }
+
+  private nextDueTimer(untilMs: number): ScheduledTimer | null {
+    let next: ScheduledTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.dueAtMs > untilMs) continue;
+      if (!next || timer.dueAtMs < next.dueAtMs || (timer.dueAtMs === next.dueAtMs && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private static assertTime(ms: number): void {
+    if (!Number.isFinite(ms)) {
+      throw new Error(`Invalid clock time: ${ms}`);
+    }
+  }
+}
+
+/**
+ * Real-time clock running `factor` times faster than the wall clock from `startMs`.
+ * Timers are scaled down accordingly, so a 5s engine loop at factor 60 fires every ~83ms.
+ */
+export class AcceleratedClock implements Clock {
+  private readonly realStartMs = Date.now();
+
+  constructor(
+    private readonly startMs: number,
+    private readonly factor: number
+  ) {
+    if (!Number.isFinite(startMs)) {
+      throw new Error(`Invalid clock time: ${startMs}`);
+    }
+    if (!Number.isFinite(factor) || factor <= 0) {
+      throw new Error(`Invalid clock acceleration factor: ${factor}`);
+    }
+  }
+
+  now(): number {
+    return Math.floor(this.startMs + (Date.now() - this.realStartMs) * this.factor);
+  }
+
+  setTimeout(fn: () => void, ms: number): ClockTimer {
+    const handle = setTimeout(fn, this.toRealMs(ms));
+    return { cancel: () => clearTimeout(handle) };
+  }
+
+  setInterval(fn: () => void, ms: number): ClockTimer {
+    const handle = setInterval(fn, this.toRealMs(ms));
+    return { cancel: () => clearInterval(handle) };
+  }
+
+  private toRealMs(ms: number): number {
+    return Math.max(1, Math.round(ms / this.factor));
+  }
+}
@@ -0,0 +1,173 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+
+import type { AppConfig } from "@autobot/shared";
+import { z } from "zod";
+
+// Older entries are dropped once the file holds more than this many.
+const MAX_HISTORY_ENTRIES = 500;
+
+/** Credentials never leave `config.json`: history keeps only the fact that they changed, and rollback keeps the current ones. */
+export const CONFIG_SECRET_PATHS: ReadonlyArray<readonly string[]> = [
+  ["basic", "binance", "apiKey"],
+  ["basic", "binance", "apiSecret"],
+  ["basic", "binance", "apiPassphrase"],
+  ["basic", "openai", "apiKey"],
+  ["basic", "uiAuth", "passwordHash"],
+  ["basic", "notifications", "telegram", "botToken"],
+  ["basic", "notifications", "discord", "webhookUrl"],
+  ["basic", "notifications", "webhook", "secret"],
+  ["advanced", "apiKey"]
+];
+
+const SECRET_PATH_KEYS = new Set(CONFIG_SECRET_PATHS.map((segments) => segments.join(".")));
+// Bumped on every write; a change of only this is not a change.
+const IGNORED_PATHS = new Set(["updatedAt"]);
+
+const ConfigChangeSchema = z.object({
+  path: z.string().min(1),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+  /** Secret field: changed, values withheld. */
+  redacted: z.literal(true).optional()
+});
+export type ConfigChange = z.infer<typeof ConfigChangeSchema>;
+
+const ConfigHistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  ts: z.string().min(1),
+  /** What wrote the config, e.g. `PUT /config/advanced` or `startup migration`. */
+  source: z.string().min(1),
+  changes: z.array(ConfigChangeSchema),
+  /** The config as it was before this change (possibly an older version), secrets removed. Absent when there was none (setup). */
+  before: z.record(z.unknown()).optional()
+});
+export type ConfigHistoryEntry = z.infer<typeof ConfigHistoryEntrySchema>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Leaf values by dotted path; arrays are leaves (a changed list shows up as one change). */
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>): Map<string, unknown> {
+  if (!isPlainObject(value)) {
+    if (prefix) out.set(prefix, value);
+    return out;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  }
+  return out;
+}
+
+/**
+ * Field-level changes from `before` to `after`, sorted by path, with secret values withheld.
+ * `before` may be a raw document of an older config version (startup migration).
+ */
+export function diffConfig(before: AppConfig | Record<string, unknown> | null, after: AppConfig): ConfigChange[] {
+  const previous = flatten(before ?? {}, "", new Map());
+  const next = flatten(after, "", new Map());
+  const paths = [...new Set([...previous.keys(), ...next.keys()])].sort();
+
+  const changes: ConfigChange[] = [];
+  for (const path of paths) {
+    if (IGNORED_PATHS.has(path)) continue;
+    const from = previous.get(path);
+    const to = next.get(path);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes.push(SECRET_PATH_KEYS.has(path) ? { path, redacted: true } : { path, before: from, after: to });
+  }
+  return changes;
+}
+
+function withPath(target: Record<string, unknown>, segments: readonly string[], value: unknown): void {
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(node[segment])) return;
+    node = node[segment] as Record<string, unknown>;
+  }
+  const leaf = segments[segments.length - 1];
+  if (value === undefined) {
+    delete node[leaf];
+  } else {
+    node[leaf] = value;
+  }
+}
+
+function readPath(source: unknown, segments: readonly string[]): unknown {
+  let node = source;
+  for (const segment of segments) {
+    if (!isPlainObject(node)) return undefined;
+    node = node[segment];
+  }
+  return node;
+}
+
+export function redactConfigSecrets(config: AppConfig | Record<string, unknown>): Record<string, unknown> {
+  const copy = structuredClone(config) as Record<string, unknown>;
+  for (const segments of CONFIG_SECRET_PATHS) withPath(copy, segments, undefined);
+  return copy;
+}
+
+/** A redacted snapshot with the secrets of `current` put back, ready for schema parsing. */
+export function restoreConfigSecrets(snapshot: Record<string, unknown>, current: AppConfig): Record<string, unknown> {
+  const copy = structuredClone(snapshot);
+  for (const segments of CONFIG_SECRET_PATHS) withPath(copy, segments, readPath(current, segments));
+  return copy;
+}
+
+/** Append-only JSONL log of config writes (`DATA_DIR/config-history.jsonl`), newest last on disk. */
+export class ConfigHistoryStore {
+  constructor(
+    private readonly filePath: string,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  /** Records the write of `after` over `before`; returns null (and records nothing) when no field changed. */
+  record(before: AppConfig | Record<string, unknown> | null, after: AppConfig, source: string): ConfigHistoryEntry | null {
+    const changes = diffConfig(before, after);
+    if (changes.length === 0) return null;
+
+    const entry: ConfigHistoryEntry = {
+      id: crypto.randomUUID(),
+      ts: new Date(this.now()).toISOString(),
+      source,
+      changes,
+      ...(before ? { before: redactConfigSecrets(before) } : {})
+    };
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, { encoding: "utf-8" });
+
+    const entries = this.readAll();
+    if (entries.length > MAX_HISTORY_ENTRIES) {
+      const kept = entries.slice(-MAX_HISTORY_ENTRIES);
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, kept.map((row) => `${JSON.stringify(row)}\n`).join(""), { encoding: "utf-8" });
+      fs.renameSync(tmpPath, this.filePath);
+    }
+    return entry;
+  }
+
+  /** Newest first. */
+  list(limit = 50): ConfigHistoryEntry[] {
+    return this.readAll().reverse().slice(0, Math.max(0, limit));
+  }
+
+  get(id: string): ConfigHistoryEntry | null {
+    return this.readAll().find((entry) => entry.id === id) ?? null;
+  }
+
+  private readAll(): ConfigHistoryEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const entries: ConfigHistoryEntry[] = [];
+    for (const line of fs.readFileSync(this.filePath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = ConfigHistoryEntrySchema.safeParse(JSON.parse(line));
+        if (parsed.success) entries.push(parsed.data);
+      } catch {
+        // A torn trailing line (crash mid-append) is skipped; everything before it is intact.
+      }
+    }
+    return entries;
+  }
+}
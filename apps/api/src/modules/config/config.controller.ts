@@ -1,14 +1,17 @@
-import { BadRequestException, Body, Controller, Get, Post, Put } from "@nestjs/common";
+import { BadRequestException, Body, Controller, Get, Param, Post, Put, Query } from "@nestjs/common";
 import { z } from "zod";
 import type { AppConfig } from "@autobot/shared";
-import { AppConfigSchema } from "@autobot/shared";
+import { NotificationEventTypeSchema, TakeProfitRungSchema } from "@autobot/shared";
 
+import type { ConfigChange } from "./config-history";
 import { ConfigService } from "./config.service";
 
 const AdvancedUpdateSchema = z.object({
   apiBaseUrl: z.union([z.string().url(), z.literal("")]).optional(),
+  exchange: z.enum(["BINANCE", "KRAKEN", "OKX"]).optional(),
   binanceEnvironment: z.enum(["MAINNET", "SPOT_TESTNET"]).optional(),
   binanceBaseUrlOverride: z.union([z.string().url(), z.literal("")]).optional(),
+  binanceFuturesBaseUrlOverride: z.union([z.string().url(), z.literal("")]).optional(),
   apiHost: z.string().min(1).optional(),
   apiPort: z.number().int().min(1).max(65535).optional(),
   uiHost: z.string().min(1).optional(),
@@ -20,6 +23,36 @@ const AdvancedUpdateSchema = z.object({
   autoCancelBotOrdersOnStop: z.boolean().optional(),
   autoCancelBotOrdersOnGlobalProtectionLock: z.boolean().optional(),
   manageExternalOpenOrders: z.boolean().optional(),
+  liveExchangeBracketsEnabled: z.boolean().optional(),
+  trailingStopEnabled: z.boolean().optional(),
+  trailingStopActivationPct: z.number().min(0).max(50).optional(),
+  trailingStopDistancePct: z.number().min(0.1).max(50).optional(),
+  trailingStopAtrMultiplier: z.number().min(0).max(10).optional(),
+  breakEvenStopEnabled: z.boolean().optional(),
+  breakEvenTriggerPct: z.number().min(0.1).max(50).optional(),
+  breakEvenOffsetPct: z.number().min(0).max(5).optional(),
+  takeProfitLadder: z.array(TakeProfitRungSchema).max(5).optional(),
+  pyramidingEnabled: z.boolean().optional(),
+  pyramidingTriggerPct: z.number().min(0.1).max(20).optional(),
+  pyramidingMaxAdds: z.number().int().min(1).max(10).optional(),
+  pyramidingAddFraction: z.number().min(0.1).max(1).optional(),
+  maxHoldingMinutesTrend: z.number().int().min(0).max(43200).optional(),
+  maxHoldingMinutesMeanReversion: z.number().int().min(0).max(43200).optional(),
+  maxHoldingMinutesGrid: z.number().int().min(0).max(43200).optional(),
+  stalePositionAction: z.enum(["EXIT", "REEVALUATE"]).optional(),
+  gridLevelCount: z.number().int().min(2).max(40).optional(),
+  gridSpacingMode: z.enum(["ARITHMETIC", "GEOMETRIC"]).optional(),
+  gridRangeMode: z.enum(["ATR", "BOLLINGER", "INFINITY"]).optional(),
+  gridRecenterMinutes: z.number().int().min(0).max(1440).optional(),
+  dcaMaxSafetyOrders: z.number().int().min(0).max(10).optional(),
+  dcaSafetyOrderDeviationPct: z.number().min(0.2).max(20).optional(),
+  dcaDeviationScale: z.number().min(1).max(3).optional(),
+  dcaSafetyOrderVolumeScale: z.number().min(1).max(3).optional(),
+  dcaTakeProfitPct: z.number().min(0.2).max(20).optional(),
+  futuresEnabled: z.boolean().optional(),
+  futuresLeverage: z.number().int().min(1).max(10).optional(),
+  futuresMarginType: z.enum(["ISOLATED", "CROSSED"]).optional(),
+  futuresMinFundingRatePct: z.number().min(-1).max(1).optional(),
   neverTradeSymbols: z.array(z.string().min(1)).optional(),
   autoBlacklistEnabled: z.boolean().optional(),
   autoBlacklistTtlMinutes: z.number().int().min(1).max(43200).optional(),
@@ -40,13 +73,16 @@ const AdvancedUpdateSchema = z.object({
   maxConsecutiveEntriesPerSymbol: z.number().int().min(1).max(50).optional(),
   conversionTopUpReserveMultiplier: z.number().min(1).max(10).optional(),
   conversionTopUpCooldownMs: z.number().int().min(0).max(86_400_000).optional(),
-  conversionTopUpMinTarget: z.number().min(1).max(100_000).optional()
+  conversionTopUpMinTarget: z.number().min(1).max(100_000).optional(),
+  paperFeeRate: z.number().min(0).max(0.01).optional(),
+  paperSlippageBps: z.number().min(0).max(500).optional(),
+  paperStartingBalanceHome: z.number().min(1).max(10_000_000).optional()
 });
 
 const BasicUpdateSchema = z.object({
   homeStableCoin: z.string().min(2).optional(),
   risk: z.number().int().min(0).max(100).optional(),
-  tradeMode: z.enum(["SPOT", "SPOT_GRID"]).optional(),
+  tradeMode: z.enum(["SPOT", "SPOT_GRID", "DCA"]).optional(),
   aiEnabled: z.boolean().optional(),
   aiMinTradeConfidence: z.number().int().min(0).max(100).optional(),
   liveTrading: z.boolean().optional()
@@ -60,7 +96,36 @@ const UiAuthUpdateSchema = z.object({
 
 const BinanceCredentialsUpdateSchema = z.object({
   apiKey: z.string().min(1),
-  apiSecret: z.string().min(1)
+  apiSecret: z.string().min(1),
+  apiPassphrase: z.union([z.string().min(1), z.literal("")]).optional()
+});
+
+const OpenAiUpdateSchema = z.object({
+  apiKey: z.string().min(1).optional(),
+  model: z.string().optional(),
+  baseUrl: z.union([z.string().url(), z.literal("")]).optional(),
+  timeoutMs: z.number().int().min(1_000).max(60_000).optional()
+});
+
+const NotificationRoutingUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  events: z.array(NotificationEventTypeSchema).optional(),
+  minIntervalSeconds: z.number().int().min(0).max(3_600).optional()
+});
+
+const NotificationsUpdateSchema = z.object({
+  telegram: NotificationRoutingUpdateSchema.extend({
+    botToken: z.union([z.string().min(1), z.literal("")]).optional(),
+    chatId: z.union([z.string().min(1), z.literal("")]).optional(),
+    apiBaseUrl: z.union([z.string().url(), z.literal("")]).optional()
+  }).optional(),
+  discord: NotificationRoutingUpdateSchema.extend({
+    webhookUrl: z.union([z.string().url(), z.literal("")]).optional()
+  }).optional(),
+  webhook: NotificationRoutingUpdateSchema.extend({
+    url: z.union([z.string().url(), z.literal("")]).optional(),
+    secret: z.union([z.string().min(1), z.literal("")]).optional()
+  }).optional()
 });
 
 @Controller("config")
@@ -94,8 +159,10 @@ export class ConfigController {
       uiHost: string;
       uiPort: number;
       apiBaseUrl?: string;
+      exchange: "BINANCE" | "KRAKEN" | "OKX";
       binanceEnvironment: "MAINNET" | "SPOT_TESTNET";
       binanceBaseUrlOverride?: string;
+      binanceFuturesBaseUrlOverride?: string;
       apiKeyHint: string;
       botOrderClientIdPrefix: string;
       botOrderAutoCancelEnabled: boolean;
@@ -104,6 +171,36 @@ export class ConfigController {
       autoCancelBotOrdersOnStop: boolean;
       autoCancelBotOrdersOnGlobalProtectionLock: boolean;
       manageExternalOpenOrders: boolean;
+      liveExchangeBracketsEnabled: boolean;
+      trailingStopEnabled: boolean;
+      trailingStopActivationPct: number;
+      trailingStopDistancePct: number;
+      trailingStopAtrMultiplier: number;
+      breakEvenStopEnabled: boolean;
+      breakEvenTriggerPct: number;
+      breakEvenOffsetPct: number;
+      takeProfitLadder: Array<{ pnlPct: number; fraction: number }>;
+      pyramidingEnabled: boolean;
+      pyramidingTriggerPct: number;
+      pyramidingMaxAdds: number;
+      pyramidingAddFraction: number;
+      maxHoldingMinutesTrend: number;
+      maxHoldingMinutesMeanReversion: number;
+      maxHoldingMinutesGrid: number;
+      stalePositionAction: "EXIT" | "REEVALUATE";
+      gridLevelCount: number;
+      gridSpacingMode: "ARITHMETIC" | "GEOMETRIC";
+      gridRangeMode: "ATR" | "BOLLINGER" | "INFINITY";
+      gridRecenterMinutes: number;
+      dcaMaxSafetyOrders: number;
+      dcaSafetyOrderDeviationPct: number;
+      dcaDeviationScale: number;
+      dcaSafetyOrderVolumeScale: number;
+      dcaTakeProfitPct: number;
+      futuresEnabled: boolean;
+      futuresLeverage: number;
+      futuresMarginType: "ISOLATED" | "CROSSED";
+      futuresMinFundingRatePct: number;
       neverTradeSymbols: string[];
       autoBlacklistEnabled: boolean;
       autoBlacklistTtlMinutes: number;
@@ -125,6 +222,9 @@ export class ConfigController {
       conversionTopUpReserveMultiplier: number;
       conversionTopUpCooldownMs: number;
       conversionTopUpMinTarget: number;
+      paperFeeRate: number;
+      paperSlippageBps: number;
+      paperStartingBalanceHome: number;
     };
   } {
     const config = this.configService.load();
@@ -155,8 +255,10 @@ export class ConfigController {
         uiHost: config.advanced.uiHost,
         uiPort: config.advanced.uiPort,
         apiBaseUrl: config.advanced.apiBaseUrl,
+        exchange: config.advanced.exchange,
         binanceEnvironment: config.advanced.binanceEnvironment,
         binanceBaseUrlOverride: config.advanced.binanceBaseUrlOverride,
+        binanceFuturesBaseUrlOverride: config.advanced.binanceFuturesBaseUrlOverride,
         apiKeyHint: config.advanced.apiKey.slice(-6),
         botOrderClientIdPrefix: config.advanced.botOrderClientIdPrefix,
         botOrderAutoCancelEnabled: config.advanced.botOrderAutoCancelEnabled,
@@ -165,6 +267,36 @@ export class ConfigController {
         autoCancelBotOrdersOnStop: config.advanced.autoCancelBotOrdersOnStop,
         autoCancelBotOrdersOnGlobalProtectionLock: config.advanced.autoCancelBotOrdersOnGlobalProtectionLock,
         manageExternalOpenOrders: config.advanced.manageExternalOpenOrders,
+        liveExchangeBracketsEnabled: config.advanced.liveExchangeBracketsEnabled,
+        trailingStopEnabled: config.advanced.trailingStopEnabled,
+        trailingStopActivationPct: config.advanced.trailingStopActivationPct,
+        trailingStopDistancePct: config.advanced.trailingStopDistancePct,
+        trailingStopAtrMultiplier: config.advanced.trailingStopAtrMultiplier,
+        breakEvenStopEnabled: config.advanced.breakEvenStopEnabled,
+        breakEvenTriggerPct: config.advanced.breakEvenTriggerPct,
+        breakEvenOffsetPct: config.advanced.breakEvenOffsetPct,
+        takeProfitLadder: config.advanced.takeProfitLadder,
+        pyramidingEnabled: config.advanced.pyramidingEnabled,
+        pyramidingTriggerPct: config.advanced.pyramidingTriggerPct,
+        pyramidingMaxAdds: config.advanced.pyramidingMaxAdds,
+        pyramidingAddFraction: config.advanced.pyramidingAddFraction,
+        maxHoldingMinutesTrend: config.advanced.maxHoldingMinutesTrend,
+        maxHoldingMinutesMeanReversion: config.advanced.maxHoldingMinutesMeanReversion,
+        maxHoldingMinutesGrid: config.advanced.maxHoldingMinutesGrid,
+        stalePositionAction: config.advanced.stalePositionAction,
+        gridLevelCount: config.advanced.gridLevelCount,
+        gridSpacingMode: config.advanced.gridSpacingMode,
+        gridRangeMode: config.advanced.gridRangeMode,
+        gridRecenterMinutes: config.advanced.gridRecenterMinutes,
+        dcaMaxSafetyOrders: config.advanced.dcaMaxSafetyOrders,
+        dcaSafetyOrderDeviationPct: config.advanced.dcaSafetyOrderDeviationPct,
+        dcaDeviationScale: config.advanced.dcaDeviationScale,
+        dcaSafetyOrderVolumeScale: config.advanced.dcaSafetyOrderVolumeScale,
+        dcaTakeProfitPct: config.advanced.dcaTakeProfitPct,
+        futuresEnabled: config.advanced.futuresEnabled,
+        futuresLeverage: config.advanced.futuresLeverage,
+        futuresMarginType: config.advanced.futuresMarginType,
+        futuresMinFundingRatePct: config.advanced.futuresMinFundingRatePct,
         neverTradeSymbols: config.advanced.neverTradeSymbols,
         autoBlacklistEnabled: config.advanced.autoBlacklistEnabled,
         autoBlacklistTtlMinutes: config.advanced.autoBlacklistTtlMinutes,
@@ -185,7 +317,10 @@ export class ConfigController {
         maxConsecutiveEntriesPerSymbol: config.advanced.maxConsecutiveEntriesPerSymbol,
         conversionTopUpReserveMultiplier: config.advanced.conversionTopUpReserveMultiplier,
         conversionTopUpCooldownMs: config.advanced.conversionTopUpCooldownMs,
-        conversionTopUpMinTarget: config.advanced.conversionTopUpMinTarget
+        conversionTopUpMinTarget: config.advanced.conversionTopUpMinTarget,
+        paperFeeRate: config.advanced.paperFeeRate,
+        paperSlippageBps: config.advanced.paperSlippageBps,
+        paperStartingBalanceHome: config.advanced.paperStartingBalanceHome
       }
     };
   }
@@ -193,28 +328,42 @@ export class ConfigController {
   @Put("basic")
   updateBasic(@Body() body: unknown): { ok: true } {
     const patch = BasicUpdateSchema.parse(body);
-    this.configService.updateBasic(patch);
+    this.configService.updateBasic(patch, "PUT /config/basic");
     return { ok: true };
   }
 
   @Put("advanced")
   updateAdvanced(@Body() body: unknown): { ok: true } {
     const patch = AdvancedUpdateSchema.parse(body);
-    this.configService.updateAdvanced(patch);
+    this.configService.updateAdvanced(patch, "PUT /config/advanced");
     return { ok: true };
   }
 
   @Put("ui-auth")
   updateUiAuth(@Body() body: unknown): { ok: true } {
     const patch = UiAuthUpdateSchema.parse(body);
-    this.configService.updateUiAuth(patch);
+    this.configService.updateUiAuth(patch, "PUT /config/ui-auth");
     return { ok: true };
   }
 
   @Put("binance-credentials")
   updateBinanceCredentials(@Body() body: unknown): { ok: true } {
     const patch = BinanceCredentialsUpdateSchema.parse(body);
-    this.configService.updateBinanceCredentials(patch);
+    this.configService.updateBinanceCredentials(patch, "PUT /config/binance-credentials");
+    return { ok: true };
+  }
+
+  @Put("openai")
+  updateOpenAi(@Body() body: unknown): { ok: true } {
+    const patch = OpenAiUpdateSchema.parse(body);
+    this.configService.updateOpenAi(patch, "PUT /config/openai");
+    return { ok: true };
+  }
+
+  @Put("notifications")
+  updateNotifications(@Body() body: unknown): { ok: true } {
+    const patch = NotificationsUpdateSchema.parse(body);
+    this.configService.updateNotifications(patch, "PUT /config/notifications");
     return { ok: true };
   }
 
@@ -229,14 +378,31 @@ export class ConfigController {
 
   @Put("import")
   importConfig(@Body() body: unknown): { ok: true } {
-    const config = AppConfigSchema.parse(body);
-    this.configService.importConfig(config);
+    const config = this.configService.parseImport(body);
+    this.configService.importConfig(config, "PUT /config/import");
     return { ok: true };
   }
 
   @Post("rotate-api-key")
   rotateApiKey(): { apiKey: string } {
-    const next = this.configService.rotateApiKey();
+    const next = this.configService.rotateApiKey("POST /config/rotate-api-key");
     return { apiKey: next.advanced.apiKey };
   }
+
+  @Get("history")
+  getHistory(@Query("limit") limit?: string): {
+    entries: Array<{ id: string; ts: string; source: string; changes: ConfigChange[]; canRollback: boolean }>;
+  } {
+    const parsed = Number.parseInt(limit ?? "", 10);
+    const entries = this.configService.getHistory(Number.isFinite(parsed) ? Math.min(Math.max(parsed, 1), 500) : 50);
+    return {
+      entries: entries.map(({ id, ts, source, changes, before }) => ({ id, ts, source, changes, canRollback: Boolean(before) }))
+    };
+  }
+
+  @Post("rollback/:id")
+  rollback(@Param("id") id: string): { ok: true } {
+    this.configService.rollback(id, `POST /config/rollback/${id}`);
+    return { ok: true };
+  }
 }
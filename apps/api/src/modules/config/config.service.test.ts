@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { ConfigService } from "./config.service";
+
+describe("ConfigService history", () => {
+  let dataDir: string;
+  const previousDataDir = process.env.DATA_DIR;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-config-"));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    if (previousDataDir === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = previousDataDir;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function setUp(service: ConfigService): void {
+    const config = service.createInitialConfig({
+      binanceApiKey: "binance-key",
+      binanceApiSecret: "binance-secret",
+      uiUsername: "admin",
+      uiPassword: "correct horse",
+      traderRegion: "EEA",
+      tradeMode: "SPOT",
+      risk: 40,
+      liveTrading: false,
+      aiEnabled: false,
+      aiMinTradeConfidence: 65
+    });
+    service.save(config, "POST /setup/basic");
+  }
+
+  it("records each mutation with its source and a redacted field diff, newest first", () => {
+    const service = new ConfigService();
+    setUp(service);
+    service.updateAdvanced({ followRiskProfile: false }, "PUT /config/advanced");
+    service.updateAdvanced({ followRiskProfile: false }, "PUT /config/advanced");
+    service.rotateApiKey("POST /config/rotate-api-key");
+
+    const [rotation, toggle, setup] = service.getHistory();
+    expect(service.getHistory()).toHaveLength(3);
+    expect(setup).toMatchObject({ source: "POST /setup/basic" });
+    expect(setup.before).toBeUndefined();
+    expect(toggle).toMatchObject({
+      source: "PUT /config/advanced",
+      changes: [{ path: "advanced.followRiskProfile", before: true, after: false }]
+    });
+    expect(rotation.changes).toEqual([{ path: "advanced.apiKey", redacted: true }]);
+
+    const raw = fs.readFileSync(path.join(dataDir, "config-history.jsonl"), "utf-8");
+    const current = service.load();
+    expect(raw).not.toContain("binance-secret");
+    expect(raw).not.toContain(current?.advanced.apiKey);
+    expect(raw).not.toContain(current?.basic.uiAuth.passwordHash);
+  });
+
+  it("rolls back to the config before an entry, keeping current credentials, and records the rollback", () => {
+    const service = new ConfigService();
+    setUp(service);
+    service.updateAdvanced({ followRiskProfile: false, paperFeeRate: 0.002 }, "PUT /config/advanced");
+    const toggle = service.getHistory()[0];
+    service.updateBinanceCredentials({ apiKey: "new-key", apiSecret: "new-secret" }, "PUT /config/binance-credentials");
+
+    const restored = service.rollback(toggle.id, `POST /config/rollback/${toggle.id}`);
+    expect(restored.advanced.followRiskProfile).toBe(true);
+    expect(restored.advanced.paperFeeRate).toBe(0.001);
+    expect(restored.basic.binance).toEqual({ apiKey: "new-key", apiSecret: "new-secret" });
+    expect(service.load()).toEqual(restored);
+
+    const [rollback] = service.getHistory();
+    expect(rollback.source).toBe(`POST /config/rollback/${toggle.id}`);
+    expect(rollback.changes.map((change) => change.path)).toEqual(["advanced.followRiskProfile", "advanced.paperFeeRate"]);
+
+    const setupEntry = service.getHistory().at(-1);
+    expect(() => service.rollback(setupEntry?.id ?? "", "test")).toThrow(/nothing earlier/);
+    expect(() => service.rollback("missing", "test")).toThrow(/not found/);
+  });
+
+  it("records the raw document on startup and migrates history snapshots before rolling back", () => {
+    const service = new ConfigService();
+    setUp(service);
+    const configPath = path.join(dataDir, "config.json");
+    const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    delete raw.advanced.exchange;
+    fs.writeFileSync(configPath, JSON.stringify(raw), "utf-8");
+
+    expect(new ConfigService().migrateOnStartup()).toEqual({ migrated: true, reason: "normalized" });
+    const [startup] = service.getHistory();
+    expect(startup.source).toBe("startup migration");
+    expect(startup.changes).toEqual([{ path: "advanced.exchange", after: "BINANCE" }]);
+
+    const newer = { ...startup, id: "newer", before: { ...startup.before, version: 99 } };
+    fs.appendFileSync(path.join(dataDir, "config-history.jsonl"), `${JSON.stringify(newer)}\n`, "utf-8");
+    expect(() => service.rollback("newer", "test")).toThrow(/cannot be migrated: config.json is version 99/);
+  });
+});
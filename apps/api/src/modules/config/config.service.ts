@@ -2,13 +2,37 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 
-import { BadRequestException, Injectable } from "@nestjs/common";
-import type { AppConfig, BasicSetupRequest, DerivedSettings } from "@autobot/shared";
-import { AppConfigSchema, CONFIG_VERSION, defaultHomeStableCoin, deriveAdvancedRiskProfile, deriveSettings } from "@autobot/shared";
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import type { AppConfig, BasicSetupRequest, DerivedSettings, NotificationsConfig } from "@autobot/shared";
+import {
+  AppConfigSchema,
+  CONFIG_VERSION,
+  defaultHomeStableCoin,
+  deriveAdvancedRiskProfile,
+  deriveSettings,
+  migrateAppConfig,
+  NotificationsConfigSchema
+} from "@autobot/shared";
 import bcrypt from "bcryptjs";
 
+import { type ConfigHistoryEntry, ConfigHistoryStore, restoreConfigSecrets } from "./config-history";
+
 type Writeable<T> = { -readonly [K in keyof T]: T[K] };
 
+/** Per-channel notification patch; an empty string clears a text field. */
+export type NotificationsPatch = {
+  [K in keyof NotificationsConfig]?: { [F in keyof NotificationsConfig[K]]?: NotificationsConfig[K][F] | "" };
+};
+
+function mergeNotificationChannel<T extends Record<string, unknown>>(current: T, patch: Record<string, unknown> | undefined): T {
+  const next: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(patch ?? {})) {
+    if (value === undefined) continue;
+    next[key] = typeof value === "string" ? value.trim() || undefined : value;
+  }
+  return next as T;
+}
+
 function atomicWriteFile(filePath: string, data: string): void {
   const tmpPath = `${filePath}.tmp`;
   fs.writeFileSync(tmpPath, data, { encoding: "utf-8" });
@@ -28,6 +52,10 @@ export class ConfigService {
     return path.join(this.dataDir, "config.json");
   }
 
+  private get history(): ConfigHistoryStore {
+    return new ConfigHistoryStore(path.join(this.dataDir, "config-history.jsonl"));
+  }
+
   isInitialized(): boolean {
     return fs.existsSync(this.configPath);
   }
@@ -40,7 +68,8 @@ export class ConfigService {
     }
 
     const raw = fs.readFileSync(this.configPath, "utf-8");
-    const parsed = AppConfigSchema.parse(JSON.parse(raw));
+    const document = JSON.parse(raw) as Record<string, unknown>;
+    const parsed = AppConfigSchema.parse(migrateAppConfig(document).document);
     const normalized = parsed.advanced.followRiskProfile
       ? AppConfigSchema.parse({
           ...parsed,
@@ -63,6 +92,8 @@ export class ConfigService {
     const stat = fs.statSync(this.configPath);
     this.cachedConfig = normalized;
     this.cachedMtimeMs = stat.mtimeMs;
+    // The raw document, so version steps and filled-in defaults show up in the diff too.
+    this.history.record(document, normalized, "startup migration");
     return { migrated: true, reason: "normalized" };
   }
 
@@ -79,17 +110,73 @@ export class ConfigService {
     }
 
     const raw = fs.readFileSync(this.configPath, "utf-8");
-    const parsed = AppConfigSchema.parse(JSON.parse(raw)) as AppConfig;
+    const parsed = AppConfigSchema.parse(migrateAppConfig(JSON.parse(raw)).document) as AppConfig;
     this.cachedConfig = parsed;
     this.cachedMtimeMs = stat.mtimeMs;
     return parsed;
   }
 
-  save(config: AppConfig): void {
+  /** Writes `config.json` and records the field-level changes in the config history, attributed to `source`. */
+  save(config: AppConfig, source = "internal"): void {
+    let previous: AppConfig | null = null;
+    try {
+      previous = this.load();
+    } catch {
+      // An unreadable config.json is replaced; the history then shows every field as new.
+    }
     fs.mkdirSync(this.dataDir, { recursive: true });
     atomicWriteFile(this.configPath, JSON.stringify(config, null, 2));
     this.cachedConfig = config;
     this.cachedMtimeMs = fs.statSync(this.configPath).mtimeMs;
+    this.history.record(previous, config, source);
+  }
+
+  /** Newest first; each entry lists its redacted field changes. */
+  getHistory(limit?: number): ConfigHistoryEntry[] {
+    return this.history.list(limit);
+  }
+
+  /**
+   * Undoes history entry `id` by restoring the config as it was before it (and so before every later change too).
+   * Credentials are not rolled back: the current ones are kept. The rollback itself becomes a new history entry.
+   */
+  rollback(id: string, source: string): AppConfig {
+    const current = this.load();
+    if (!current) {
+      throw new BadRequestException("Bot is not initialized.");
+    }
+    const entry = this.history.get(id);
+    if (!entry) {
+      throw new NotFoundException(`Config history entry ${id} not found.`);
+    }
+    if (!entry.before) {
+      throw new BadRequestException("This change created the config; there is nothing earlier to roll back to.");
+    }
+
+    let snapshot: Record<string, unknown>;
+    try {
+      // Snapshots keep the version they were written with.
+      snapshot = migrateAppConfig(restoreConfigSecrets(entry.before, current)).document;
+    } catch (err) {
+      throw new BadRequestException(`The config before ${id} cannot be migrated: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const parsed = AppConfigSchema.safeParse({ ...snapshot, updatedAt: new Date().toISOString() });
+    if (!parsed.success) {
+      throw new BadRequestException(`The config before ${id} no longer validates: ${parsed.error.issues[0]?.message ?? "invalid"}`);
+    }
+    this.save(parsed.data, source);
+    return parsed.data;
+  }
+
+  /** Parses an exported config, upgrading older versions; exports from a newer build are refused. */
+  parseImport(body: unknown): AppConfig {
+    let document: unknown;
+    try {
+      document = migrateAppConfig(body).document;
+    } catch (err) {
+      throw new BadRequestException(err instanceof Error ? err.message : String(err));
+    }
+    return AppConfigSchema.parse(document);
   }
 
   createInitialConfig(request: BasicSetupRequest): AppConfig {
@@ -107,7 +194,8 @@ export class ConfigService {
       updatedAt: now,
       basic: {
         binance: { apiKey: request.binanceApiKey, apiSecret: request.binanceApiSecret },
-        openai: { apiKey: request.openaiApiKey, model: undefined },
+        openai: { apiKey: request.openaiApiKey, model: undefined, baseUrl: undefined, timeoutMs: 8_000 },
+        notifications: NotificationsConfigSchema.parse({}),
         uiAuth: {
           username: request.uiUsername,
           passwordHash,
@@ -124,8 +212,10 @@ export class ConfigService {
       },
       advanced: {
         apiKey,
+        exchange: "BINANCE",
         binanceEnvironment: "MAINNET",
         binanceBaseUrlOverride: undefined,
+        binanceFuturesBaseUrlOverride: undefined,
         apiBaseUrl: undefined,
         apiHost: process.env.API_HOST ?? "0.0.0.0",
         apiPort: Number.parseInt(process.env.PORT ?? "8148", 10),
@@ -136,6 +226,36 @@ export class ConfigService {
         autoCancelBotOrdersOnStop: true,
         autoCancelBotOrdersOnGlobalProtectionLock: true,
         manageExternalOpenOrders: false,
+        liveExchangeBracketsEnabled: false,
+        trailingStopEnabled: false,
+        trailingStopActivationPct: 0.8,
+        trailingStopDistancePct: 1,
+        trailingStopAtrMultiplier: 0,
+        breakEvenStopEnabled: false,
+        breakEvenTriggerPct: 0.6,
+        breakEvenOffsetPct: 0.1,
+        takeProfitLadder: [],
+        pyramidingEnabled: false,
+        pyramidingTriggerPct: 1,
+        pyramidingMaxAdds: 2,
+        pyramidingAddFraction: 0.5,
+        maxHoldingMinutesTrend: 0,
+        maxHoldingMinutesMeanReversion: 0,
+        maxHoldingMinutesGrid: 0,
+        stalePositionAction: "REEVALUATE",
+        gridLevelCount: 6,
+        gridSpacingMode: "GEOMETRIC",
+        gridRangeMode: "ATR",
+        gridRecenterMinutes: 10,
+        dcaMaxSafetyOrders: 3,
+        dcaSafetyOrderDeviationPct: 1.5,
+        dcaDeviationScale: 1,
+        dcaSafetyOrderVolumeScale: 1.5,
+        dcaTakeProfitPct: 1.5,
+        futuresEnabled: false,
+        futuresLeverage: 2,
+        futuresMarginType: "ISOLATED",
+        futuresMinFundingRatePct: -0.01,
         neverTradeSymbols: [],
         autoBlacklistEnabled: true,
         autoBlacklistTtlMinutes: 180,
@@ -146,6 +266,9 @@ export class ConfigService {
         excludeStableStablePairs: true,
         enforceRegionPolicy: true,
         conversionTopUpMinTarget: 5,
+        paperFeeRate: 0.001,
+        paperSlippageBps: 5,
+        paperStartingBalanceHome: 10_000,
         ...riskProfile
       },
       expert: {},
@@ -155,14 +278,17 @@ export class ConfigService {
     return AppConfigSchema.parse(config);
   }
 
-  updateBasic(patch: {
-    homeStableCoin?: string;
-    risk?: number;
-    tradeMode?: "SPOT" | "SPOT_GRID";
-    aiEnabled?: boolean;
-    aiMinTradeConfidence?: number;
-    liveTrading?: boolean;
-  }): AppConfig {
+  updateBasic(
+    patch: {
+      homeStableCoin?: string;
+      risk?: number;
+      tradeMode?: "SPOT" | "SPOT_GRID" | "DCA";
+      aiEnabled?: boolean;
+      aiMinTradeConfidence?: number;
+      liveTrading?: boolean;
+    },
+    source = "internal"
+  ): AppConfig {
     const current = this.load();
     if (!current) {
       throw new BadRequestException("Bot is not initialized.");
@@ -177,7 +303,7 @@ export class ConfigService {
       throw new BadRequestException("OpenAI API key is required when aiEnabled=true.");
     }
 
-    const derived = deriveSettings({ risk: nextBasic.risk, tradeMode: nextBasic.tradeMode });
+    const derived = deriveSettings({ risk: nextBasic.risk, tradeMode: nextBasic.tradeMode }, current.advanced);
     const nextAdvanced = current.advanced.followRiskProfile
       ? {
           ...current.advanced,
@@ -193,47 +319,85 @@ export class ConfigService {
       derived
     });
 
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 
-  updateAdvanced(patch: {
-    apiBaseUrl?: string;
-    binanceEnvironment?: "MAINNET" | "SPOT_TESTNET";
-    binanceBaseUrlOverride?: string;
-    apiHost?: string;
-    apiPort?: number;
-    uiHost?: string;
-    uiPort?: number;
-    botOrderClientIdPrefix?: string;
-    botOrderAutoCancelEnabled?: boolean;
-    botOrderStaleTtlMinutes?: number;
-    botOrderMaxDistancePct?: number;
-    autoCancelBotOrdersOnStop?: boolean;
-    autoCancelBotOrdersOnGlobalProtectionLock?: boolean;
-    manageExternalOpenOrders?: boolean;
-    neverTradeSymbols?: string[];
-    autoBlacklistEnabled?: boolean;
-    autoBlacklistTtlMinutes?: number;
-    followRiskProfile?: boolean;
-    liveTradeCooldownMs?: number;
-    liveTradeNotionalCap?: number;
-    liveTradeSlippageBuffer?: number;
-    liveTradeRebalanceSellCooldownMs?: number;
-    conversionBuyBuffer?: number;
-    conversionSellBuffer?: number;
-    conversionFeeBuffer?: number;
-    routingBridgeAssets?: string[];
-    universeQuoteAssets?: string[];
-    walletQuoteHintLimit?: number;
-    excludeStableStablePairs?: boolean;
-    enforceRegionPolicy?: boolean;
-    symbolEntryCooldownMs?: number;
-    maxConsecutiveEntriesPerSymbol?: number;
-    conversionTopUpReserveMultiplier?: number;
-    conversionTopUpCooldownMs?: number;
-    conversionTopUpMinTarget?: number;
-  }): AppConfig {
+  updateAdvanced(
+    patch: {
+      apiBaseUrl?: string;
+      exchange?: "BINANCE" | "KRAKEN" | "OKX";
+      binanceEnvironment?: "MAINNET" | "SPOT_TESTNET";
+      binanceBaseUrlOverride?: string;
+      binanceFuturesBaseUrlOverride?: string;
+      apiHost?: string;
+      apiPort?: number;
+      uiHost?: string;
+      uiPort?: number;
+      botOrderClientIdPrefix?: string;
+      botOrderAutoCancelEnabled?: boolean;
+      botOrderStaleTtlMinutes?: number;
+      botOrderMaxDistancePct?: number;
+      autoCancelBotOrdersOnStop?: boolean;
+      autoCancelBotOrdersOnGlobalProtectionLock?: boolean;
+      manageExternalOpenOrders?: boolean;
+      liveExchangeBracketsEnabled?: boolean;
+      trailingStopEnabled?: boolean;
+      trailingStopActivationPct?: number;
+      trailingStopDistancePct?: number;
+      trailingStopAtrMultiplier?: number;
+      breakEvenStopEnabled?: boolean;
+      breakEvenTriggerPct?: number;
+      breakEvenOffsetPct?: number;
+      takeProfitLadder?: Array<{ pnlPct: number; fraction: number }>;
+      pyramidingEnabled?: boolean;
+      pyramidingTriggerPct?: number;
+      pyramidingMaxAdds?: number;
+      pyramidingAddFraction?: number;
+      maxHoldingMinutesTrend?: number;
+      maxHoldingMinutesMeanReversion?: number;
+      maxHoldingMinutesGrid?: number;
+      stalePositionAction?: "EXIT" | "REEVALUATE";
+      gridLevelCount?: number;
+      gridSpacingMode?: "ARITHMETIC" | "GEOMETRIC";
+      gridRangeMode?: "ATR" | "BOLLINGER" | "INFINITY";
+      gridRecenterMinutes?: number;
+      dcaMaxSafetyOrders?: number;
+      dcaSafetyOrderDeviationPct?: number;
+      dcaDeviationScale?: number;
+      dcaSafetyOrderVolumeScale?: number;
+      dcaTakeProfitPct?: number;
+      futuresEnabled?: boolean;
+      futuresLeverage?: number;
+      futuresMarginType?: "ISOLATED" | "CROSSED";
+      futuresMinFundingRatePct?: number;
+      neverTradeSymbols?: string[];
+      autoBlacklistEnabled?: boolean;
+      autoBlacklistTtlMinutes?: number;
+      followRiskProfile?: boolean;
+      liveTradeCooldownMs?: number;
+      liveTradeNotionalCap?: number;
+      liveTradeSlippageBuffer?: number;
+      liveTradeRebalanceSellCooldownMs?: number;
+      conversionBuyBuffer?: number;
+      conversionSellBuffer?: number;
+      conversionFeeBuffer?: number;
+      routingBridgeAssets?: string[];
+      universeQuoteAssets?: string[];
+      walletQuoteHintLimit?: number;
+      excludeStableStablePairs?: boolean;
+      enforceRegionPolicy?: boolean;
+      symbolEntryCooldownMs?: number;
+      maxConsecutiveEntriesPerSymbol?: number;
+      conversionTopUpReserveMultiplier?: number;
+      conversionTopUpCooldownMs?: number;
+      conversionTopUpMinTarget?: number;
+      paperFeeRate?: number;
+      paperSlippageBps?: number;
+      paperStartingBalanceHome?: number;
+    },
+    source = "internal"
+  ): AppConfig {
     const current = this.load();
     if (!current) {
       throw new BadRequestException("Bot is not initialized.");
@@ -282,6 +446,21 @@ export class ConfigService {
       return trimmed;
     })();
 
+    const binanceFuturesBaseUrlOverride = (() => {
+      if (patch.binanceFuturesBaseUrlOverride === undefined) return undefined;
+      const trimmed = patch.binanceFuturesBaseUrlOverride.trim();
+      if (!trimmed) return undefined;
+      try {
+        const u = new URL(trimmed);
+        if (u.protocol !== "http:" && u.protocol !== "https:") {
+          throw new Error("Only http/https URLs are allowed.");
+        }
+      } catch (e) {
+        throw new BadRequestException(`Invalid binanceFuturesBaseUrlOverride: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      return trimmed;
+    })();
+
     const nextAdvancedBase = {
       ...current.advanced,
       ...patch,
@@ -289,6 +468,10 @@ export class ConfigService {
       ...(apiBaseUrl ? { apiBaseUrl } : {}),
       ...(binanceBaseUrlOverride === undefined && patch.binanceBaseUrlOverride !== undefined ? { binanceBaseUrlOverride: undefined } : {}),
       ...(binanceBaseUrlOverride ? { binanceBaseUrlOverride } : {}),
+      ...(binanceFuturesBaseUrlOverride === undefined && patch.binanceFuturesBaseUrlOverride !== undefined
+        ? { binanceFuturesBaseUrlOverride: undefined }
+        : {}),
+      ...(binanceFuturesBaseUrlOverride ? { binanceFuturesBaseUrlOverride } : {}),
       ...(apiHost ? { apiHost } : {}),
       ...(uiHost ? { uiHost } : {}),
       ...(neverTradeSymbols ? { neverTradeSymbols } : {}),
@@ -306,14 +489,15 @@ export class ConfigService {
     const next = AppConfigSchema.parse({
       ...current,
       updatedAt: new Date().toISOString(),
-      advanced: nextAdvanced
+      advanced: nextAdvanced,
+      derived: deriveSettings(current.basic, nextAdvanced)
     });
 
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 
-  rotateApiKey(): AppConfig {
+  rotateApiKey(source = "internal"): AppConfig {
     const current = this.load();
     if (!current) {
       throw new BadRequestException("Bot is not initialized.");
@@ -329,11 +513,11 @@ export class ConfigService {
       }
     });
 
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 
-  updateUiAuth(patch: { username?: string; password?: string; enabled?: boolean }): AppConfig {
+  updateUiAuth(patch: { username?: string; password?: string; enabled?: boolean }, source = "internal"): AppConfig {
     const current = this.load();
     if (!current) {
       throw new BadRequestException("Bot is not initialized.");
@@ -357,11 +541,11 @@ export class ConfigService {
       }
     });
 
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 
-  updateBinanceCredentials(patch: { apiKey: string; apiSecret: string }): AppConfig {
+  updateBinanceCredentials(patch: { apiKey: string; apiSecret: string; apiPassphrase?: string }, source = "internal"): AppConfig {
     const current = this.load();
     if (!current) {
       throw new BadRequestException("Bot is not initialized.");
@@ -374,17 +558,68 @@ export class ConfigService {
         ...current.basic,
         binance: {
           apiKey: patch.apiKey.trim(),
-          apiSecret: patch.apiSecret.trim()
+          apiSecret: patch.apiSecret.trim(),
+          ...(patch.apiPassphrase?.trim() ? { apiPassphrase: patch.apiPassphrase.trim() } : {})
+        }
+      }
+    });
+
+    this.save(next, source);
+    return next;
+  }
+
+  updateOpenAi(patch: { apiKey?: string; model?: string; baseUrl?: string; timeoutMs?: number }, source = "internal"): AppConfig {
+    const current = this.load();
+    if (!current) {
+      throw new BadRequestException("Bot is not initialized.");
+    }
+
+    const model = patch.model !== undefined ? patch.model.trim() : current.basic.openai.model;
+    const baseUrl = patch.baseUrl !== undefined ? patch.baseUrl.trim() : current.basic.openai.baseUrl;
+    const next = AppConfigSchema.parse({
+      ...current,
+      updatedAt: new Date().toISOString(),
+      basic: {
+        ...current.basic,
+        openai: {
+          apiKey: patch.apiKey !== undefined ? patch.apiKey.trim() : current.basic.openai.apiKey,
+          model: model || undefined,
+          baseUrl: baseUrl || undefined,
+          timeoutMs: patch.timeoutMs ?? current.basic.openai.timeoutMs
+        }
+      }
+    });
+
+    this.save(next, source);
+    return next;
+  }
+
+  updateNotifications(patch: NotificationsPatch, source = "internal"): AppConfig {
+    const current = this.load();
+    if (!current) {
+      throw new BadRequestException("Bot is not initialized.");
+    }
+
+    const notifications = current.basic.notifications;
+    const next = AppConfigSchema.parse({
+      ...current,
+      updatedAt: new Date().toISOString(),
+      basic: {
+        ...current.basic,
+        notifications: {
+          telegram: mergeNotificationChannel(notifications.telegram, patch.telegram),
+          discord: mergeNotificationChannel(notifications.discord, patch.discord),
+          webhook: mergeNotificationChannel(notifications.webhook, patch.webhook)
         }
       }
     });
 
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 
-  importConfig(config: AppConfig): AppConfig {
-    const derived = deriveSettings({ risk: config.basic.risk, tradeMode: config.basic.tradeMode });
+  importConfig(config: AppConfig, source = "internal"): AppConfig {
+    const derived = deriveSettings({ risk: config.basic.risk, tradeMode: config.basic.tradeMode }, config.advanced);
     const parsed = AppConfigSchema.parse({
       ...config,
       version: CONFIG_VERSION,
@@ -400,7 +635,7 @@ export class ConfigService {
           }
         })
       : parsed;
-    this.save(next);
+    this.save(next, source);
     return next;
   }
 }
@@ -35,8 +35,10 @@ type PublicConfigView = {
     uiHost: string;
     uiPort: number;
     apiBaseUrl?: string;
+    exchange: "BINANCE" | "KRAKEN" | "OKX";
     binanceEnvironment: "MAINNET" | "SPOT_TESTNET";
     binanceBaseUrlOverride?: string;
+    binanceFuturesBaseUrlOverride?: string;
     apiKeyHint: string;
     botOrderClientIdPrefix: string;
     botOrderAutoCancelEnabled: boolean;
@@ -45,6 +47,36 @@ type PublicConfigView = {
     autoCancelBotOrdersOnStop: boolean;
     autoCancelBotOrdersOnGlobalProtectionLock: boolean;
     manageExternalOpenOrders: boolean;
+    liveExchangeBracketsEnabled: boolean;
+    trailingStopEnabled: boolean;
+    trailingStopActivationPct: number;
+    trailingStopDistancePct: number;
+    trailingStopAtrMultiplier: number;
+    breakEvenStopEnabled: boolean;
+    breakEvenTriggerPct: number;
+    breakEvenOffsetPct: number;
+    takeProfitLadder: Array<{ pnlPct: number; fraction: number }>;
+    pyramidingEnabled: boolean;
+    pyramidingTriggerPct: number;
+    pyramidingMaxAdds: number;
+    pyramidingAddFraction: number;
+    maxHoldingMinutesTrend: number;
+    maxHoldingMinutesMeanReversion: number;
+    maxHoldingMinutesGrid: number;
+    stalePositionAction: "EXIT" | "REEVALUATE";
+    gridLevelCount: number;
+    gridSpacingMode: "ARITHMETIC" | "GEOMETRIC";
+    gridRangeMode: "ATR" | "BOLLINGER" | "INFINITY";
+    gridRecenterMinutes: number;
+    dcaMaxSafetyOrders: number;
+    dcaSafetyOrderDeviationPct: number;
+    dcaDeviationScale: number;
+    dcaSafetyOrderVolumeScale: number;
+    dcaTakeProfitPct: number;
+    futuresEnabled: boolean;
+    futuresLeverage: number;
+    futuresMarginType: "ISOLATED" | "CROSSED";
+    futuresMinFundingRatePct: number;
     neverTradeSymbols: string[];
     autoBlacklistEnabled: boolean;
     autoBlacklistTtlMinutes: number;
@@ -66,6 +98,9 @@ type PublicConfigView = {
     conversionTopUpReserveMultiplier: number;
     conversionTopUpCooldownMs: number;
     conversionTopUpMinTarget: number;
+    paperFeeRate: number;
+    paperSlippageBps: number;
+    paperStartingBalanceHome: number;
   };
 };
 
@@ -110,8 +145,10 @@ function toPublicConfigView(config: AppConfig | null): PublicConfigView {
       uiHost: config.advanced.uiHost,
       uiPort: config.advanced.uiPort,
       apiBaseUrl: config.advanced.apiBaseUrl,
+      exchange: config.advanced.exchange,
       binanceEnvironment: config.advanced.binanceEnvironment,
       binanceBaseUrlOverride: config.advanced.binanceBaseUrlOverride,
+      binanceFuturesBaseUrlOverride: config.advanced.binanceFuturesBaseUrlOverride,
       apiKeyHint: config.advanced.apiKey.slice(-6),
       botOrderClientIdPrefix: config.advanced.botOrderClientIdPrefix,
       botOrderAutoCancelEnabled: config.advanced.botOrderAutoCancelEnabled,
@@ -120,6 +157,36 @@ function toPublicConfigView(config: AppConfig | null): PublicConfigView {
       autoCancelBotOrdersOnStop: config.advanced.autoCancelBotOrdersOnStop,
       autoCancelBotOrdersOnGlobalProtectionLock: config.advanced.autoCancelBotOrdersOnGlobalProtectionLock,
       manageExternalOpenOrders: config.advanced.manageExternalOpenOrders,
+      liveExchangeBracketsEnabled: config.advanced.liveExchangeBracketsEnabled,
+      trailingStopEnabled: config.advanced.trailingStopEnabled,
+      trailingStopActivationPct: config.advanced.trailingStopActivationPct,
+      trailingStopDistancePct: config.advanced.trailingStopDistancePct,
+      trailingStopAtrMultiplier: config.advanced.trailingStopAtrMultiplier,
+      breakEvenStopEnabled: config.advanced.breakEvenStopEnabled,
+      breakEvenTriggerPct: config.advanced.breakEvenTriggerPct,
+      breakEvenOffsetPct: config.advanced.breakEvenOffsetPct,
+      takeProfitLadder: config.advanced.takeProfitLadder,
+      pyramidingEnabled: config.advanced.pyramidingEnabled,
+      pyramidingTriggerPct: config.advanced.pyramidingTriggerPct,
+      pyramidingMaxAdds: config.advanced.pyramidingMaxAdds,
+      pyramidingAddFraction: config.advanced.pyramidingAddFraction,
+      maxHoldingMinutesTrend: config.advanced.maxHoldingMinutesTrend,
+      maxHoldingMinutesMeanReversion: config.advanced.maxHoldingMinutesMeanReversion,
+      maxHoldingMinutesGrid: config.advanced.maxHoldingMinutesGrid,
+      stalePositionAction: config.advanced.stalePositionAction,
+      gridLevelCount: config.advanced.gridLevelCount,
+      gridSpacingMode: config.advanced.gridSpacingMode,
+      gridRangeMode: config.advanced.gridRangeMode,
+      gridRecenterMinutes: config.advanced.gridRecenterMinutes,
+      dcaMaxSafetyOrders: config.advanced.dcaMaxSafetyOrders,
+      dcaSafetyOrderDeviationPct: config.advanced.dcaSafetyOrderDeviationPct,
+      dcaDeviationScale: config.advanced.dcaDeviationScale,
+      dcaSafetyOrderVolumeScale: config.advanced.dcaSafetyOrderVolumeScale,
+      dcaTakeProfitPct: config.advanced.dcaTakeProfitPct,
+      futuresEnabled: config.advanced.futuresEnabled,
+      futuresLeverage: config.advanced.futuresLeverage,
+      futuresMarginType: config.advanced.futuresMarginType,
+      futuresMinFundingRatePct: config.advanced.futuresMinFundingRatePct,
       neverTradeSymbols: config.advanced.neverTradeSymbols,
       autoBlacklistEnabled: config.advanced.autoBlacklistEnabled,
       autoBlacklistTtlMinutes: config.advanced.autoBlacklistTtlMinutes,
@@ -140,7 +207,10 @@ function toPublicConfigView(config: AppConfig | null): PublicConfigView {
       maxConsecutiveEntriesPerSymbol: config.advanced.maxConsecutiveEntriesPerSymbol,
       conversionTopUpReserveMultiplier: config.advanced.conversionTopUpReserveMultiplier,
       conversionTopUpCooldownMs: config.advanced.conversionTopUpCooldownMs,
-      conversionTopUpMinTarget: config.advanced.conversionTopUpMinTarget
+      conversionTopUpMinTarget: config.advanced.conversionTopUpMinTarget,
+      paperFeeRate: config.advanced.paperFeeRate,
+      paperSlippageBps: config.advanced.paperSlippageBps,
+      paperStartingBalanceHome: config.advanced.paperStartingBalanceHome
     }
   };
 }
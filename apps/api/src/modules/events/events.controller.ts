@@ -0,0 +1,15 @@
+import { Controller, type MessageEvent, Sse } from "@nestjs/common";
+import { map, type Observable } from "rxjs";
+
+import { LiveEventsService } from "./live-events.service";
+
+@Controller("events")
+export class EventsController {
+  constructor(private readonly liveEvents: LiveEventsService) {}
+
+  /** Server-Sent Events; each message's `data` is one JSON `LiveEvent`. */
+  @Sse()
+  stream(): Observable<MessageEvent> {
+    return this.liveEvents.stream().pipe(map((event) => ({ data: event })));
+  }
+}
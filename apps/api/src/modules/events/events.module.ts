@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+
+import { BotModule } from "../bot/bot.module";
+import { PortfolioModule } from "../portfolio/portfolio.module";
+import { EventsController } from "./events.controller";
+import { LiveEventsService } from "./live-events.service";
+
+@Module({
+  imports: [BotModule, PortfolioModule],
+  controllers: [EventsController],
+  providers: [LiveEventsService]
+})
+export class EventsModule {}
@@ -0,0 +1,83 @@
+import { type BotState, defaultBotState, type Order } from "@autobot/shared";
+import { describe, expect, it, vi } from "vitest";
+
+import type { BotEngineService } from "../bot/bot-engine.service";
+import { FixedClock } from "../clock/clock";
+import type { PortfolioService, WalletSnapshot } from "../portfolio/portfolio.service";
+import { diffLiveEvents, type LiveEvent } from "./live-events";
+import { LiveEventsService } from "./live-events.service";
+
+const order: Order = { id: "o1", ts: "2026-03-01T00:00:01.000Z", symbol: "BTCUSDC", side: "BUY", type: "LIMIT", status: "NEW", qty: 0.01, price: 60_000 };
+
+function withDecision(state: BotState, id: string): BotState {
+  return {
+    ...state,
+    decisions: [{ id, ts: "2026-03-01T00:00:00.000Z", kind: "SKIP", summary: `skip ${id}` }, ...state.decisions]
+  };
+}
+
+describe("diffLiveEvents", () => {
+  it("emits new decisions, changed orders, risk, lock and status deltas once", () => {
+    const base = defaultBotState();
+    const placed: BotState = { ...withDecision(base, "d1"), updatedAt: "2026-03-01T00:01:00.000Z", running: true, phase: "EXAMINING", activeOrders: [order] };
+
+    expect(diffLiveEvents(base, placed).map((event) => event.type)).toEqual(["status", "decision", "order"]);
+    expect(diffLiveEvents(placed, { ...placed, updatedAt: "2026-03-01T00:02:00.000Z" })).toEqual([]);
+
+    const filled: BotState = {
+      ...withDecision(placed, "d2"),
+      activeOrders: [],
+      orderHistory: [{ ...order, status: "FILLED" }],
+      riskState: { state: "CAUTION", reason_codes: ["DAILY_LOSS"], unwind_only: false, resume_conditions: [] },
+      symbolBlacklist: [{ symbol: "DOGEUSDC", reason: "dust loop", createdAt: "2026-03-01T00:02:00.000Z", expiresAt: "2026-03-01T03:02:00.000Z" }]
+    };
+    const events = diffLiveEvents(placed, filled);
+    expect(events.map((event) => event.type)).toEqual(["decision", "order", "risk", "locks"]);
+    expect(events.find((event) => event.type === "order")).toMatchObject({ active: false, order: { id: "o1", status: "FILLED" } });
+  });
+});
+
+describe("LiveEventsService", () => {
+  function createService(clock: FixedClock, wallet: () => WalletSnapshot): LiveEventsService {
+    return new LiveEventsService(
+      { onStateSaved: vi.fn(() => () => undefined) } as unknown as BotEngineService,
+      { getWallet: vi.fn(async () => wallet()) } as unknown as PortfolioService,
+      clock
+    );
+  }
+
+  it("streams deltas and heartbeats to subscribers and checks the wallet only while one is connected", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    let wallet: WalletSnapshot = { fetchedAt: "2026-03-01T00:00:00.000Z", homeStableCoin: "USDC", assets: [], errors: [] };
+    const service = createService(clock, () => wallet);
+
+    const state = defaultBotState();
+    service.handleState(state);
+
+    const received: LiveEvent[] = [];
+    const subscription = service.stream().subscribe((event) => received.push(event));
+    service.handleState(withDecision(state, "d1"));
+    expect(received).toEqual([expect.objectContaining({ type: "decision", decision: expect.objectContaining({ id: "d1" }) })]);
+
+    clock.advance(15_000);
+    expect(received.at(-1)).toEqual({ type: "heartbeat", ts: "2026-03-01T00:00:15.000Z" });
+
+    clock.advance(15_000);
+    await vi.waitFor(() => expect(received.filter((event) => event.type === "wallet")).toHaveLength(1));
+
+    // Unchanged snapshot (still cached): no second wallet event.
+    clock.advance(30_000);
+    await Promise.resolve();
+    expect(received.filter((event) => event.type === "wallet")).toHaveLength(1);
+
+    wallet = { ...wallet, fetchedAt: "2026-03-01T00:01:20.000Z", totalEstimatedHome: 120 };
+    clock.advance(30_000);
+    await vi.waitFor(() => expect(received.filter((event) => event.type === "wallet")).toHaveLength(2));
+
+    subscription.unsubscribe();
+    const count = received.length;
+    clock.advance(120_000);
+    service.handleState(withDecision(state, "d2"));
+    expect(received).toHaveLength(count);
+  });
+});
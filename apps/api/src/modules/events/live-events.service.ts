@@ -0,0 +1,105 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from "@nestjs/common";
+import type { BotState } from "@autobot/shared";
+import { Observable, Subject } from "rxjs";
+
+import { BotEngineService } from "../bot/bot-engine.service";
+import { CLOCK, type Clock, type ClockTimer, SystemClock } from "../clock/clock";
+import { PortfolioService } from "../portfolio/portfolio.service";
+import { diffLiveEvents, type LiveEvent } from "./live-events";
+
+const HEARTBEAT_MS = 15_000;
+// PortfolioService caches the wallet for 20s; checking more often than that only re-reads the cache.
+const WALLET_CHECK_MS = 30_000;
+
+/**
+ * Fans engine state writes out to `GET /events` subscribers as typed deltas (see `LiveEvent`).
+ *
+ * Diffing happens once per state write, whatever the number of subscribers. The wallet is only polled while at least
+ * one client is connected, and a `wallet` event goes out whenever its snapshot was refreshed.
+ */
+@Injectable()
+export class LiveEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly events = new Subject<LiveEvent>();
+  private previous: BotState | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private subscribers = 0;
+  private walletTimer: ClockTimer | null = null;
+  private walletFetchedAt: string | null = null;
+
+  constructor(
+    private readonly engine: BotEngineService,
+    private readonly portfolio: PortfolioService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.engine.onStateSaved((state) => this.handleState(state));
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.stopWalletChecks();
+    this.events.complete();
+  }
+
+  /** Diffs against the last state seen; the first state after startup only sets the baseline. */
+  handleState(state: BotState): void {
+    const previous = this.previous;
+    this.previous = state;
+    if (!previous) return;
+    for (const event of diffLiveEvents(previous, state)) this.events.next(event);
+  }
+
+  /** Publishes a `wallet` event when the portfolio snapshot is newer than the last one sent. */
+  async checkWallet(): Promise<void> {
+    try {
+      const wallet = await this.portfolio.getWallet();
+      if (wallet.fetchedAt === this.walletFetchedAt) return;
+      this.walletFetchedAt = wallet.fetchedAt;
+      this.events.next({ type: "wallet", ts: wallet.fetchedAt, wallet });
+    } catch {
+      // getWallet reports exchange failures inside the snapshot; anything else just waits for the next check.
+    }
+  }
+
+  /** One subscriber's stream: every delta from now on, plus heartbeats while the stream is otherwise quiet. */
+  stream(): Observable<LiveEvent> {
+    return new Observable<LiveEvent>((subscriber) => {
+      let lastSentMs = this.clock.now();
+      const subscription = this.events.subscribe({
+        next: (event) => {
+          lastSentMs = this.clock.now();
+          subscriber.next(event);
+        },
+        complete: () => subscriber.complete()
+      });
+      const heartbeat = this.clock.setInterval(() => {
+        const nowMs = this.clock.now();
+        if (nowMs - lastSentMs < HEARTBEAT_MS) return;
+        lastSentMs = nowMs;
+        subscriber.next({ type: "heartbeat", ts: new Date(nowMs).toISOString() });
+      }, HEARTBEAT_MS);
+
+      this.subscribers += 1;
+      if (this.subscribers === 1) this.startWalletChecks();
+
+      return () => {
+        subscription.unsubscribe();
+        heartbeat.cancel();
+        this.subscribers -= 1;
+        if (this.subscribers === 0) this.stopWalletChecks();
+      };
+    });
+  }
+
+  private startWalletChecks(): void {
+    if (this.walletTimer) return;
+    this.walletTimer = this.clock.setInterval(() => void this.checkWallet(), WALLET_CHECK_MS);
+  }
+
+  private stopWalletChecks(): void {
+    this.walletTimer?.cancel();
+    this.walletTimer = null;
+  }
+}
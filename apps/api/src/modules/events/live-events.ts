@@ -0,0 +1,77 @@
+import type { BotPhase, BotState, Decision, Order, ProtectionLockEntry, RuntimeRiskState, SymbolBlacklistEntry } from "@autobot/shared";
+
+import type { WalletSnapshot } from "../portfolio/portfolio.service";
+
+/**
+ * Deltas pushed on `GET /events`. Clients load `/dashboard/snapshot` once, then apply these on top of it; every
+ * payload carries the full new value of what changed (one decision, one order, the whole lock list), never a patch.
+ */
+export type LiveEvent =
+  | { type: "decision"; ts: string; decision: Decision }
+  /** A new order or one whose status, quantity or price changed; `active` tells which `BotState` list it now sits in. */
+  | { type: "order"; ts: string; order: Order; active: boolean }
+  | { type: "risk"; ts: string; riskState?: RuntimeRiskState }
+  | { type: "locks"; ts: string; protectionLocks: ProtectionLockEntry[]; symbolBlacklist: SymbolBlacklistEntry[] }
+  | { type: "status"; ts: string; running: boolean; phase: BotPhase; lastError?: string }
+  | { type: "wallet"; ts: string; wallet: WalletSnapshot }
+  /** Sent while nothing else is, so proxies keep the connection open and clients can tell a stalled stream. */
+  | { type: "heartbeat"; ts: string };
+
+export type LiveEventType = LiveEvent["type"];
+
+type IndexedOrder = { order: Order; active: boolean };
+
+// Active orders win over a stale history copy with the same id.
+function indexOrders(state: BotState): Map<string, IndexedOrder> {
+  const orders = new Map<string, IndexedOrder>();
+  for (const order of state.orderHistory) orders.set(order.id, { order, active: false });
+  for (const order of state.activeOrders) orders.set(order.id, { order, active: true });
+  return orders;
+}
+
+function orderFingerprint({ order, active }: IndexedOrder): string {
+  return `${active ? "A" : "H"}|${order.status}|${order.qty}|${order.price ?? ""}`;
+}
+
+function locksKey(state: BotState): string {
+  const locks = (state.protectionLocks ?? []).map((lock) => `${lock.id}|${lock.expiresAt}`);
+  const blacklist = (state.symbolBlacklist ?? []).map((entry) => `${entry.symbol}|${entry.createdAt}|${entry.expiresAt}`);
+  return JSON.stringify([locks, blacklist]);
+}
+
+/** Deltas between two persisted engine states, oldest decision and order first. Equal states yield none. */
+export function diffLiveEvents(previous: BotState, next: BotState): LiveEvent[] {
+  const events: LiveEvent[] = [];
+  const ts = next.updatedAt;
+
+  if (previous.running !== next.running || previous.phase !== next.phase || previous.lastError !== next.lastError) {
+    events.push({ type: "status", ts, running: next.running, phase: next.phase, lastError: next.lastError });
+  }
+
+  const knownDecisions = new Set(previous.decisions.map((decision) => decision.id));
+  for (const decision of [...next.decisions].reverse()) {
+    if (knownDecisions.has(decision.id)) continue;
+    events.push({ type: "decision", ts: decision.ts, decision });
+  }
+
+  const before = indexOrders(previous);
+  const changed: IndexedOrder[] = [];
+  for (const [id, entry] of indexOrders(next)) {
+    const known = before.get(id);
+    if (!known || orderFingerprint(known) !== orderFingerprint(entry)) changed.push(entry);
+  }
+  changed.sort((a, b) => a.order.ts.localeCompare(b.order.ts));
+  for (const { order, active } of changed) {
+    events.push({ type: "order", ts: order.ts, order, active });
+  }
+
+  if (JSON.stringify(previous.riskState ?? null) !== JSON.stringify(next.riskState ?? null)) {
+    events.push({ type: "risk", ts, riskState: next.riskState });
+  }
+
+  if (locksKey(previous) !== locksKey(next)) {
+    events.push({ type: "locks", ts, protectionLocks: next.protectionLocks ?? [], symbolBlacklist: next.symbolBlacklist ?? [] });
+  }
+
+  return events;
+}
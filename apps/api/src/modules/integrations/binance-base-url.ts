@@ -17,3 +17,28 @@ export function resolveBinanceBaseUrl(config: AppConfig | null): string {
 
   return "https://api.binance.com";
 }
+
+/** WebSocket stream host that pairs with a REST base URL (user-data streams must hit the same environment). */
+export function resolveBinanceStreamBaseUrl(restBaseUrl: string): string {
+  const override = (process.env.BINANCE_STREAM_BASE_URL ?? "").trim();
+  if (override) return normalizeBaseUrl(override);
+
+  if (/demo-api\.binance\.com/i.test(restBaseUrl)) return "wss://demo-stream.binance.com:9443";
+  if (/testnet\.binance\.vision/i.test(restBaseUrl)) return "wss://stream.testnet.binance.vision";
+  return "wss://stream.binance.com:9443";
+}
+
+/** USD-M futures REST host for the configured environment (Demo Trading has its own futures host). */
+export function resolveBinanceFuturesBaseUrl(config: AppConfig | null): string {
+  const override = config?.advanced.binanceFuturesBaseUrlOverride?.trim();
+  if (override) return normalizeBaseUrl(override);
+
+  if (config?.advanced.binanceEnvironment === "SPOT_TESTNET") {
+    return "https://demo-fapi.binance.com";
+  }
+
+  const env = (process.env.BINANCE_FUTURES_BASE_URL ?? "").trim();
+  if (env) return normalizeBaseUrl(env);
+
+  return "https://fapi.binance.com";
+}
@@ -1,25 +1,61 @@
 import crypto from "node:crypto";
 
+import { BinanceRateLimitError, type BinanceRateLimiter, type BinanceRequestPriority, getBinanceRateLimiter } from "./binance-rate-limiter";
+import { recordBinanceRequest } from "./binance-request-metrics";
+import { type BinanceTimeSync, getBinanceTimeSync, isTimestampOutOfWindowError } from "./binance-time-sync";
+
 export type BinanceClientOptions = {
   baseUrl: string;
   apiKey?: string;
   apiSecret?: string;
   timeoutMs?: number;
+  /** Queue priority for this client's non-order requests (universe scans and backfills pass LOW). */
+  priority?: BinanceRequestPriority;
+  /** Defaults to the process-wide limiter for the base URL's host. */
+  rateLimiter?: BinanceRateLimiter;
+  /** Defaults to the process-wide server clock offset for the base URL's host. */
+  timeSync?: BinanceTimeSync;
 };
 
-export type BinanceHttpMethod = "GET" | "POST" | "DELETE";
+export type BinanceHttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+const RETRY_DELAY_MS = 500;
+
+export class BinanceHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "BinanceHttpError";
+  }
+}
+
+function isRetryableFailure(err: unknown): boolean {
+  if (err instanceof BinanceHttpError) return err.status >= 500;
+  // Rate-limit errors are never retried here: the limiter already blocks the host until Retry-After.
+  if (err instanceof BinanceRateLimitError) return false;
+  // fetch rejects with a TypeError on network failures; aborts (timeouts) are not retried.
+  return err instanceof TypeError;
+}
 
 export class BinanceClient {
   private readonly baseUrl: string;
   private readonly apiKey?: string;
   private readonly apiSecret?: string;
   private readonly timeoutMs: number;
+  private readonly priority?: BinanceRequestPriority;
+  private readonly rateLimiter: BinanceRateLimiter;
+  private readonly timeSync: BinanceTimeSync;
 
   constructor(options: BinanceClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/+$/, "");
     this.apiKey = options.apiKey;
     this.apiSecret = options.apiSecret;
     this.timeoutMs = options.timeoutMs ?? 7000;
+    this.priority = options.priority;
+    this.rateLimiter = options.rateLimiter ?? getBinanceRateLimiter(this.baseUrl);
+    this.timeSync = options.timeSync ?? getBinanceTimeSync(this.baseUrl);
   }
 
   async ping(): Promise<void> {
@@ -57,17 +93,18 @@ export class BinanceClient {
     return await this.request("/api/v3/exchangeInfo", symbol ? { query: { symbol } } : undefined);
   }
 
-  async klines(symbol: string, interval: string, limit: number): Promise<unknown> {
-    return await this.request("/api/v3/klines", { query: { symbol, interval, limit } });
+  async klines(symbol: string, interval: string, limit: number, startTime?: number): Promise<unknown> {
+    return await this.request("/api/v3/klines", { query: { symbol, interval, limit, startTime } });
   }
 
   async createOrder(params: {
     symbol: string;
     side: "BUY" | "SELL";
-    type: "MARKET" | "LIMIT";
+    type: "MARKET" | "LIMIT" | "LIMIT_MAKER" | "STOP_LOSS_LIMIT";
     quantity?: string;
     quoteOrderQty?: string;
     price?: string;
+    stopPrice?: string;
     timeInForce?: "GTC" | "IOC" | "FOK";
     newClientOrderId?: string;
     newOrderRespType?: "ACK" | "RESULT" | "FULL";
@@ -92,6 +129,67 @@ export class BinanceClient {
     return await this.request("/api/v3/openOrders", { signed: true, query: symbol ? { symbol } : undefined });
   }
 
+  /**
+   * One-cancels-the-other pair: a LIMIT_MAKER leg above the market and a STOP_LOSS_LIMIT leg below it
+   * (for a SELL: take-profit and stop-loss of a long position).
+   */
+  async createOcoOrderList(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    abovePrice: string;
+    belowStopPrice: string;
+    belowPrice: string;
+    listClientOrderId?: string;
+    aboveClientOrderId?: string;
+    belowClientOrderId?: string;
+  }): Promise<unknown> {
+    return await this.request("/api/v3/orderList/oco", {
+      method: "POST",
+      signed: true,
+      query: {
+        symbol: params.symbol,
+        side: params.side,
+        quantity: params.quantity,
+        aboveType: "LIMIT_MAKER",
+        abovePrice: params.abovePrice,
+        aboveClientOrderId: params.aboveClientOrderId,
+        belowType: "STOP_LOSS_LIMIT",
+        belowStopPrice: params.belowStopPrice,
+        belowPrice: params.belowPrice,
+        belowTimeInForce: "GTC",
+        belowClientOrderId: params.belowClientOrderId,
+        listClientOrderId: params.listClientOrderId,
+        newOrderRespType: "RESULT"
+      }
+    });
+  }
+
+  async cancelOrderList(params: { symbol: string; orderListId?: string | number; listClientOrderId?: string }): Promise<unknown> {
+    return await this.request("/api/v3/orderList", { method: "DELETE", signed: true, query: params });
+  }
+
+  async getOrderList(params: { orderListId?: string | number; origClientOrderId?: string }): Promise<unknown> {
+    return await this.request("/api/v3/orderList", { signed: true, query: params });
+  }
+
+  async openOrderLists(): Promise<unknown> {
+    return await this.request("/api/v3/openOrderList", { signed: true });
+  }
+
+  /** User-data stream keys are API-key authenticated only (no signature). */
+  async createListenKey(): Promise<{ listenKey: string }> {
+    return await this.request("/api/v3/userDataStream", { method: "POST", apiKeyOnly: true });
+  }
+
+  async keepAliveListenKey(listenKey: string): Promise<void> {
+    await this.request("/api/v3/userDataStream", { method: "PUT", apiKeyOnly: true, query: { listenKey } });
+  }
+
+  async closeListenKey(listenKey: string): Promise<void> {
+    await this.request("/api/v3/userDataStream", { method: "DELETE", apiKeyOnly: true, query: { listenKey } });
+  }
+
   private sign(queryString: string): string {
     if (!this.apiSecret) {
       throw new Error("Missing Binance apiSecret for signed request");
@@ -104,6 +202,7 @@ export class BinanceClient {
     options?: {
       method?: BinanceHttpMethod;
       signed?: boolean;
+      apiKeyOnly?: boolean;
       query?: Record<string, string | number | boolean | undefined>;
     }
   ): Promise<T> {
@@ -115,8 +214,45 @@ export class BinanceClient {
       query.set(key, String(value));
     }
 
+    if (options?.apiKeyOnly && !this.apiKey) {
+      throw new Error("Missing Binance apiKey for user data stream request");
+    }
+
+    const method: BinanceHttpMethod = options?.method ?? "GET";
+    const spec = {
+      method,
+      path,
+      hasSymbol: typeof options?.query?.symbol === "string",
+      // Order placement and cancels keep their HIGH default regardless of the client's priority.
+      priority: /^\/api\/v3\/order(List(\/oco)?)?$/.test(path) && method !== "GET" ? undefined : this.priority
+    };
     if (options?.signed) {
-      query.set("timestamp", String(Date.now()));
+      await this.timeSync.ensureSynced(() => this.time());
+    }
+
+    // Only idempotent reads are retried, once, after a server error or a network failure.
+    const attempts = method === "GET" ? 2 : 1;
+    let resynced = false;
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.rateLimiter.schedule(spec, async () => await this.send<T>(url, query, method, options?.signed));
+      } catch (err) {
+        // -1021 means Binance rejected the timestamp before acting on the request, so any method may retry once.
+        if (options?.signed && !resynced && isTimestampOutOfWindowError(err)) {
+          resynced = true;
+          await this.timeSync.sync(() => this.time());
+          continue;
+        }
+        if (attempt >= attempts || !isRetryableFailure(err)) throw err;
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  private async send<T>(url: URL, baseQuery: URLSearchParams, method: BinanceHttpMethod, signed?: boolean): Promise<T> {
+    const query = new URLSearchParams(baseQuery);
+    if (signed) {
+      query.set("timestamp", String(this.timeSync.now()));
       query.set("recvWindow", "5000");
       const sig = this.sign(query.toString());
       query.set("signature", sig);
@@ -128,8 +264,9 @@ export class BinanceClient {
 
     const controller = new AbortController();
     const t = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAtMs = Date.now();
+    let status: number | undefined;
     try {
-      const method: BinanceHttpMethod = options?.method ?? "GET";
       const res = await fetch(url, {
         method,
         headers: {
@@ -137,10 +274,12 @@ export class BinanceClient {
         },
         signal: controller.signal
       });
+      status = res.status;
+      this.rateLimiter.observe(res.status, res.headers);
 
       if (!res.ok) {
         const text = await res.text().catch(() => "");
-        throw new Error(`Binance HTTP ${res.status}: ${text.slice(0, 250)}`);
+        throw new BinanceHttpError(res.status, `Binance HTTP ${res.status}: ${text.slice(0, 250)}`);
       }
 
       if (res.status === 204) {
@@ -150,6 +289,14 @@ export class BinanceClient {
       return (await res.json()) as T;
     } finally {
       clearTimeout(t);
+      recordBinanceRequest({
+        api: "spot",
+        method,
+        endpoint: url.pathname,
+        durationMs: Date.now() - startedAtMs,
+        status,
+        ok: status !== undefined && status < 400
+      });
     }
   }
 }
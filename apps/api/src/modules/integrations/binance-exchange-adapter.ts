@@ -0,0 +1,125 @@
+import { type Kline, parseKlineRow } from "../market-data/kline-store";
+import { BinanceClient } from "./binance-client";
+import type { BinanceRequestPriority } from "./binance-rate-limiter";
+import { CcxtBinanceAdapter } from "./ccxt-binance-adapter";
+import type {
+  ExchangeAdapter,
+  ExchangeBalanceSnapshot,
+  ExchangeLimitOrderParams,
+  ExchangeMarketOrderParams,
+  ExchangeMarketOrderResponse,
+  ExchangeOrderSnapshot,
+  ExchangeSymbolInfo,
+  ExchangeTicker24h
+} from "./exchange-adapter";
+
+export type BinanceExchangeAdapterOptions = {
+  env: "MAINNET" | "SPOT_TESTNET";
+  baseUrl: string;
+  apiKey?: string;
+  apiSecret?: string;
+  timeoutMs?: number;
+  /** Queue priority for public requests (universe scans and kline backfills pass LOW). */
+  priority?: BinanceRequestPriority;
+};
+
+type ExchangeInfoResponse = {
+  symbols?: ExchangeSymbolInfo[];
+};
+
+/**
+ * Binance spot: public data over `BinanceClient` REST, account and orders through `CcxtBinanceAdapter`. Both share
+ * the host's request-weight budget and server clock offset.
+ */
+export class BinanceExchangeAdapter implements ExchangeAdapter {
+  readonly id = "BINANCE" as const;
+  readonly baseUrl: string;
+  private readonly client: BinanceClient;
+  private readonly trading: CcxtBinanceAdapter | null;
+
+  constructor(options: BinanceExchangeAdapterOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.client = new BinanceClient({ baseUrl: this.baseUrl, timeoutMs: options.timeoutMs, priority: options.priority });
+    this.trading =
+      options.apiKey && options.apiSecret
+        ? new CcxtBinanceAdapter({
+            env: options.env,
+            baseUrl: this.baseUrl,
+            apiKey: options.apiKey,
+            apiSecret: options.apiSecret,
+            timeoutMs: options.timeoutMs
+          })
+        : null;
+  }
+
+  private get account(): CcxtBinanceAdapter {
+    if (!this.trading) {
+      throw new Error("Missing Binance API credentials.");
+    }
+    return this.trading;
+  }
+
+  async close(): Promise<void> {
+    await this.trading?.close();
+  }
+
+  async getBalances(): Promise<ExchangeBalanceSnapshot[]> {
+    return await this.account.getBalances();
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrderSnapshot[]> {
+    return await this.account.getOpenOrders(symbol);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot> {
+    return await this.account.getOrder(symbol, orderId);
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot> {
+    return await this.account.cancelOrder(symbol, orderId);
+  }
+
+  async placeMarketOrder(params: ExchangeMarketOrderParams): Promise<ExchangeMarketOrderResponse> {
+    return await this.account.placeSpotMarketOrder({
+      symbolId: params.symbol,
+      side: params.side,
+      quantity: params.quantity,
+      clientOrderId: params.clientOrderId
+    });
+  }
+
+  async placeLimitOrder(params: ExchangeLimitOrderParams): Promise<ExchangeOrderSnapshot> {
+    return await this.account.placeSpotLimitOrder({
+      symbolId: params.symbol,
+      side: params.side,
+      quantity: params.quantity,
+      price: params.price,
+      timeInForce: params.timeInForce,
+      postOnly: params.postOnly,
+      clientOrderId: params.clientOrderId
+    });
+  }
+
+  async getSymbols(symbol?: string): Promise<ExchangeSymbolInfo[]> {
+    const exchangeInfo = (await this.client.exchangeInfo(symbol?.trim().toUpperCase())) as ExchangeInfoResponse;
+    return exchangeInfo.symbols ?? [];
+  }
+
+  async getTickerPrice(symbol: string): Promise<string> {
+    const sym = symbol.trim().toUpperCase();
+    const tick = await this.client.tickerPrice(sym);
+    if (!tick?.price) {
+      throw new Error(`Binance ticker price missing for ${sym}`);
+    }
+    return tick.price;
+  }
+
+  async getTickers24h(): Promise<ExchangeTicker24h[]> {
+    return await this.client.ticker24hr();
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number, startTime?: number): Promise<Kline[]> {
+    const raw = await this.client.klines(symbol.trim().toUpperCase(), interval, limit, startTime);
+    return (Array.isArray(raw) ? raw : []).map(parseKlineRow).filter((bar): bar is Kline => bar !== null);
+  }
+}
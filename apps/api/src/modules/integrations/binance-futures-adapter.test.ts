@@ -0,0 +1,192 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { BinanceFuturesAdapter } from "./binance-futures-adapter";
+
+const API_KEY = "futures-key";
+const API_SECRET = "futures-secret";
+
+type MockPosition = { positionAmt: number; entryPrice: number; leverage: number; marginType: "isolated" | "cross" };
+
+/** Minimal USD-M futures exchange: one-way positions that fill market orders at the mark price. */
+function createMockFuturesExchange(markPrice: number) {
+  const positions = new Map<string, MockPosition>();
+  const calls: Array<{ method: string; path: string; params: URLSearchParams }> = [];
+  const orders: Array<Record<string, unknown>> = [];
+  let nextOrderId = 1;
+
+  const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "content-type": "application/json", "x-mbx-used-weight-1m": "1" });
+    res.end(JSON.stringify(body));
+  };
+  const position = (symbol: string): MockPosition =>
+    positions.get(symbol) ?? { positionAmt: 0, entryPrice: 0, leverage: 20, marginType: "cross" };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const params = url.searchParams;
+    calls.push({ method: req.method ?? "GET", path: url.pathname, params });
+
+    if (params.has("signature")) {
+      const unsigned = new URLSearchParams(params);
+      unsigned.delete("signature");
+      const expected = crypto.createHmac("sha256", API_SECRET).update(unsigned.toString()).digest("hex");
+      if (req.headers["x-mbx-apikey"] !== API_KEY || params.get("signature") !== expected) {
+        return reply(res, 401, { code: -1022, msg: "Signature for this request is not valid." });
+      }
+    }
+
+    const symbol = params.get("symbol") ?? "";
+    switch (`${req.method} ${url.pathname}`) {
+      case "GET /fapi/v1/time":
+        return reply(res, 200, { serverTime: Date.now() });
+      case "GET /fapi/v1/exchangeInfo":
+        return reply(res, 200, {
+          symbols: [
+            {
+              symbol: "ETHUSDT",
+              status: "TRADING",
+              contractType: "PERPETUAL",
+              marginAsset: "USDT",
+              filters: [
+                { filterType: "LOT_SIZE", stepSize: "0.001", minQty: "0.001" },
+                { filterType: "MARKET_LOT_SIZE", stepSize: "0.001", minQty: "0.001" },
+                { filterType: "MIN_NOTIONAL", notional: "20" }
+              ]
+            }
+          ]
+        });
+      case "GET /fapi/v1/premiumIndex":
+        return reply(res, 200, { symbol, markPrice: String(markPrice), lastFundingRate: "-0.00025", nextFundingTime: 1_772_352_000_000 });
+      case "GET /fapi/v2/positionRisk":
+        return reply(
+          res,
+          200,
+          [...positions.entries()].map(([key, entry]) => ({
+            symbol: key,
+            positionAmt: String(entry.positionAmt),
+            entryPrice: String(entry.entryPrice),
+            markPrice: String(markPrice),
+            unRealizedProfit: String((markPrice - entry.entryPrice) * entry.positionAmt),
+            leverage: String(entry.leverage),
+            marginType: entry.marginType
+          }))
+        );
+      case "POST /fapi/v1/leverage":
+        positions.set(symbol, { ...position(symbol), leverage: Number(params.get("leverage")) });
+        return reply(res, 200, { symbol, leverage: Number(params.get("leverage")) });
+      case "POST /fapi/v1/marginType": {
+        const marginType = params.get("marginType") === "ISOLATED" ? "isolated" : "cross";
+        if (position(symbol).marginType === marginType) return reply(res, 400, { code: -4046, msg: "No need to change margin type." });
+        positions.set(symbol, { ...position(symbol), marginType });
+        return reply(res, 200, { code: 200, msg: "success" });
+      }
+      case "POST /fapi/v1/order": {
+        const qty = Number(params.get("quantity"));
+        const signedQty = params.get("side") === "SELL" ? -qty : qty;
+        const current = position(symbol);
+        const reduceOnly = params.get("reduceOnly") === "true";
+        if (reduceOnly && (current.positionAmt === 0 || Math.sign(signedQty) === Math.sign(current.positionAmt) || qty > Math.abs(current.positionAmt))) {
+          return reply(res, 400, { code: -2022, msg: "ReduceOnly Order is rejected." });
+        }
+        const positionAmt = Number((current.positionAmt + signedQty).toFixed(8));
+        positions.set(symbol, { ...current, positionAmt, entryPrice: positionAmt === 0 ? 0 : current.entryPrice || markPrice });
+        const order = {
+          symbol,
+          orderId: nextOrderId++,
+          clientOrderId: params.get("newClientOrderId") ?? "mock",
+          status: "FILLED",
+          side: params.get("side"),
+          type: "MARKET",
+          reduceOnly,
+          avgPrice: String(markPrice),
+          origQty: String(qty),
+          executedQty: String(qty),
+          cumQuote: String(qty * markPrice),
+          updateTime: Date.now()
+        };
+        orders.push(order);
+        return reply(res, 200, order);
+      }
+      case "GET /fapi/v1/allOrders":
+        return reply(
+          res,
+          200,
+          orders.filter((order) => order.symbol === symbol).slice(-Number(params.get("limit") ?? 500))
+        );
+      default:
+        return reply(res, 404, { code: -1, msg: "not found" });
+    }
+  });
+
+  return { server, calls, positions };
+}
+
+describe("BinanceFuturesAdapter", () => {
+  let mock: ReturnType<typeof createMockFuturesExchange>;
+  let adapter: BinanceFuturesAdapter;
+
+  beforeEach(async () => {
+    mock = createMockFuturesExchange(2_000);
+    await new Promise<void>((resolve) => mock.server.listen(0, "127.0.0.1", resolve));
+    adapter = new BinanceFuturesAdapter({
+      baseUrl: `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}`,
+      apiKey: API_KEY,
+      apiSecret: API_SECRET,
+      timeoutMs: 2_000
+    });
+  });
+
+  afterEach(async () => {
+    mock.server.closeAllConnections();
+    await new Promise<void>((resolve) => mock.server.close(() => resolve()));
+  });
+
+  it("opens a short with margin type and leverage, then closes it reduce-only", async () => {
+    await adapter.setMarginType("ETHUSDT", "ISOLATED");
+    // Already isolated: Binance answers -4046, which is not an error for us.
+    await adapter.setMarginType("ETHUSDT", "ISOLATED");
+    await adapter.setLeverage("ETHUSDT", 3);
+
+    const quantity = await adapter.normalizeMarketQuantity("ETHUSDT", 0.05049, 2_000);
+    expect(quantity).toBe("0.050");
+    const entry = await adapter.placeMarketOrder({ symbol: "ethusdt", side: "SELL", quantity: quantity ?? "", clientOrderId: "ABOT-short-1" });
+    expect(entry).toMatchObject({ symbol: "ETHUSDT", status: "FILLED", side: "SELL", reduceOnly: false, avgPrice: 2_000, executedQty: 0.05 });
+
+    const [short] = await adapter.getPositions();
+    expect(short).toMatchObject({ symbol: "ETHUSDT", positionAmt: -0.05, entryPrice: 2_000, leverage: 3, marginType: "ISOLATED" });
+
+    // A reduce-only order larger than the position would flip it; the exchange rejects it.
+    await expect(adapter.placeMarketOrder({ symbol: "ETHUSDT", side: "BUY", quantity: "0.060", reduceOnly: true })).rejects.toThrow(
+      /-2022/
+    );
+    const exit = await adapter.placeMarketOrder({ symbol: "ETHUSDT", side: "BUY", quantity: "0.050", reduceOnly: true });
+    expect(exit.reduceOnly).toBe(true);
+    expect(await adapter.getPositions()).toEqual([]);
+
+    const order = mock.calls.filter((call) => call.path === "/fapi/v1/order").at(-1);
+    expect(order?.params.get("reduceOnly")).toBe("true");
+    expect(order?.params.get("type")).toBe("MARKET");
+
+    const history = await adapter.getRecentOrders("ETHUSDT", 2);
+    expect(history.map((entry) => [entry.clientOrderId, entry.side, entry.reduceOnly, entry.executedQty])).toEqual([
+      ["ABOT-short-1", "SELL", false, 0.05],
+      ["mock", "BUY", true, 0.05]
+    ]);
+    expect(mock.calls.find((call) => call.path === "/fapi/v1/allOrders")?.params.get("limit")).toBe("2");
+  });
+
+  it("reads funding rates in percent and rejects sizes below the contract filters", async () => {
+    const funding = await adapter.getFundingRate("ETHUSDT");
+    expect(funding.markPrice).toBe(2_000);
+    expect(funding.fundingRatePct).toBeCloseTo(-0.025, 10);
+
+    // 0.009 ETH is 18 USDT, below the 20 USDT minimum notional; BTCUSDT has no contract on the mock.
+    expect(await adapter.normalizeMarketQuantity("ETHUSDT", 0.0099, 2_000)).toBeNull();
+    expect(await adapter.normalizeMarketQuantity("BTCUSDT", 1, 60_000)).toBeNull();
+    expect(mock.calls.filter((call) => call.path === "/fapi/v1/exchangeInfo")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,342 @@
+import crypto from "node:crypto";
+
+import { BinanceHttpError } from "./binance-client";
+import { type BinanceRateLimiter, type BinanceRequestSpec, getBinanceRateLimiter } from "./binance-rate-limiter";
+import { recordBinanceRequest } from "./binance-request-metrics";
+import { type BinanceTimeSync, getBinanceTimeSync, isTimestampOutOfWindowError } from "./binance-time-sync";
+
+export type BinanceFuturesMarginType = "ISOLATED" | "CROSSED";
+
+export type BinanceFuturesAdapterOptions = {
+  /** USD-M futures REST host WITHOUT `/fapi` (see `resolveBinanceFuturesBaseUrl`). */
+  baseUrl: string;
+  apiKey: string;
+  apiSecret: string;
+  timeoutMs?: number;
+  /** Defaults to the process-wide limiter for the base URL's host (futures hosts allow 2400 weight per minute). */
+  rateLimiter?: BinanceRateLimiter;
+  /** Defaults to the process-wide server clock offset for the base URL's host. */
+  timeSync?: BinanceTimeSync;
+};
+
+export type BinanceFuturesSymbolRules = {
+  symbol: string;
+  marginAsset: string;
+  stepSize: number;
+  minQty: number;
+  minNotional: number;
+};
+
+/** One side of a one-way-mode position; `positionAmt` is negative for a short. */
+export type BinanceFuturesPositionSnapshot = {
+  symbol: string;
+  positionAmt: number;
+  entryPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  leverage: number;
+  marginType: BinanceFuturesMarginType;
+  liquidationPrice?: number;
+};
+
+export type BinanceFuturesFundingSnapshot = {
+  symbol: string;
+  markPrice: number;
+  /** Last funding rate in % per funding interval (positive: longs pay shorts). */
+  fundingRatePct: number;
+  nextFundingTime?: number;
+};
+
+export type BinanceFuturesOrderSnapshot = {
+  symbol: string;
+  orderId?: string;
+  clientOrderId?: string;
+  status?: string;
+  side?: string;
+  type?: string;
+  reduceOnly: boolean;
+  avgPrice?: number;
+  origQty: number;
+  executedQty: number;
+  cumQuote?: number;
+  updateTime?: number;
+};
+
+type FuturesHttpMethod = "GET" | "POST" | "DELETE";
+
+const FUTURES_WEIGHT_LIMIT_1M = 2_400;
+const EXCHANGE_INFO_TTL_MS = 60 * 60_000;
+
+function asNumber(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim()) {
+    const n = Number.parseFloat(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function asRecord(v: unknown): Record<string, unknown> {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+}
+
+function asText(v: unknown): string | undefined {
+  if (typeof v === "string" && v.trim()) return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return undefined;
+}
+
+function decimalsOf(step: number): number {
+  const text = step.toString();
+  if (text.includes("e-")) return Number.parseInt(text.split("e-")[1] ?? "0", 10);
+  return text.includes(".") ? (text.split(".")[1] ?? "").length : 0;
+}
+
+/** -4046 "No need to change margin type": the symbol already uses the requested margin type. */
+function isMarginTypeUnchangedError(err: unknown): boolean {
+  return err instanceof BinanceHttpError && /"code"\s*:\s*-4046\b/.test(err.message);
+}
+
+function mapPosition(raw: unknown): BinanceFuturesPositionSnapshot {
+  const row = asRecord(raw);
+  const liquidationPrice = asNumber(row.liquidationPrice);
+  return {
+    symbol: asText(row.symbol)?.toUpperCase() ?? "",
+    positionAmt: asNumber(row.positionAmt) ?? 0,
+    entryPrice: asNumber(row.entryPrice) ?? 0,
+    markPrice: asNumber(row.markPrice) ?? 0,
+    unrealizedPnl: asNumber(row.unRealizedProfit) ?? 0,
+    leverage: asNumber(row.leverage) ?? 1,
+    marginType: asText(row.marginType)?.toLowerCase() === "isolated" ? "ISOLATED" : "CROSSED",
+    ...(liquidationPrice && liquidationPrice > 0 ? { liquidationPrice } : {})
+  };
+}
+
+function mapOrder(raw: unknown, symbolHint: string): BinanceFuturesOrderSnapshot {
+  const row = asRecord(raw);
+  const avgPrice = asNumber(row.avgPrice);
+  const cumQuote = asNumber(row.cumQuote);
+  const updateTime = asNumber(row.updateTime);
+  return {
+    symbol: asText(row.symbol)?.toUpperCase() ?? symbolHint,
+    orderId: asText(row.orderId),
+    clientOrderId: asText(row.clientOrderId),
+    status: asText(row.status)?.toUpperCase(),
+    side: asText(row.side)?.toUpperCase(),
+    type: asText(row.type)?.toUpperCase(),
+    reduceOnly: row.reduceOnly === true || row.reduceOnly === "true",
+    ...(avgPrice && avgPrice > 0 ? { avgPrice } : {}),
+    origQty: asNumber(row.origQty) ?? 0,
+    executedQty: asNumber(row.executedQty) ?? 0,
+    ...(cumQuote !== null ? { cumQuote } : {}),
+    ...(updateTime !== null ? { updateTime } : {})
+  };
+}
+
+/**
+ * Binance USD-M futures over REST (one-way position mode): positions, leverage, margin type, reduce-only market
+ * orders and funding-rate reads. Shares the per-host weight budget and server clock offset with the other Binance
+ * clients; ccxt is not used here so the adapter runs unchanged against a local mock exchange.
+ */
+export class BinanceFuturesAdapter {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly rateLimiter: BinanceRateLimiter;
+  private readonly timeSync: BinanceTimeSync;
+  private exchangeInfoCache: { fetchedAtMs: number; rules: Map<string, BinanceFuturesSymbolRules> } | null = null;
+
+  constructor(private readonly options: BinanceFuturesAdapterOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? 12_000;
+    this.rateLimiter = options.rateLimiter ?? getBinanceRateLimiter(this.baseUrl, { weightLimit1m: FUTURES_WEIGHT_LIMIT_1M });
+    this.timeSync = options.timeSync ?? getBinanceTimeSync(this.baseUrl);
+  }
+
+  async getSymbolRules(symbol: string): Promise<BinanceFuturesSymbolRules | null> {
+    const id = symbol.trim().toUpperCase();
+    if (!this.exchangeInfoCache || Date.now() - this.exchangeInfoCache.fetchedAtMs > EXCHANGE_INFO_TTL_MS) {
+      const info = asRecord(await this.request("GET", "/fapi/v1/exchangeInfo"));
+      const rules = new Map<string, BinanceFuturesSymbolRules>();
+      for (const entry of Array.isArray(info.symbols) ? info.symbols : []) {
+        const row = asRecord(entry);
+        const rowSymbol = asText(row.symbol)?.toUpperCase();
+        if (!rowSymbol || asText(row.status) !== "TRADING" || asText(row.contractType) !== "PERPETUAL") continue;
+        const filters = (Array.isArray(row.filters) ? row.filters : []).map(asRecord);
+        const lot = filters.find((f) => f.filterType === "MARKET_LOT_SIZE") ?? filters.find((f) => f.filterType === "LOT_SIZE");
+        const notional = filters.find((f) => f.filterType === "MIN_NOTIONAL");
+        rules.set(rowSymbol, {
+          symbol: rowSymbol,
+          marginAsset: asText(row.marginAsset)?.toUpperCase() ?? "",
+          stepSize: asNumber(lot?.stepSize) ?? 0,
+          minQty: asNumber(lot?.minQty) ?? 0,
+          minNotional: asNumber(notional?.notional) ?? 0
+        });
+      }
+      this.exchangeInfoCache = { fetchedAtMs: Date.now(), rules };
+    }
+    return this.exchangeInfoCache.rules.get(id) ?? null;
+  }
+
+  /**
+   * Floors `qty` to the symbol's market step. Returns null when the symbol has no perpetual contract or the result is
+   * below the minimum quantity / notional at `price`.
+   */
+  async normalizeMarketQuantity(symbol: string, qty: number, price: number): Promise<string | null> {
+    const rules = await this.getSymbolRules(symbol);
+    if (!rules || !Number.isFinite(qty) || qty <= 0) return null;
+    const step = rules.stepSize > 0 ? rules.stepSize : 0;
+    const floored = step > 0 ? Math.floor(qty / step + 1e-9) * step : qty;
+    const normalized = Number(floored.toFixed(step > 0 ? decimalsOf(step) : 8));
+    if (normalized <= 0 || normalized < rules.minQty) return null;
+    if (rules.minNotional > 0 && normalized * price < rules.minNotional) return null;
+    return normalized.toFixed(step > 0 ? decimalsOf(step) : 8);
+  }
+
+  async getFundingRate(symbol: string): Promise<BinanceFuturesFundingSnapshot> {
+    const id = symbol.trim().toUpperCase();
+    const row = asRecord(await this.request("GET", "/fapi/v1/premiumIndex", { query: { symbol: id } }));
+    const nextFundingTime = asNumber(row.nextFundingTime);
+    return {
+      symbol: asText(row.symbol)?.toUpperCase() ?? id,
+      markPrice: asNumber(row.markPrice) ?? 0,
+      fundingRatePct: (asNumber(row.lastFundingRate) ?? 0) * 100,
+      ...(nextFundingTime ? { nextFundingTime } : {})
+    };
+  }
+
+  /** Open positions only (zero-size rows are dropped). */
+  async getPositions(symbol?: string): Promise<BinanceFuturesPositionSnapshot[]> {
+    const raw = await this.request("GET", "/fapi/v2/positionRisk", {
+      signed: true,
+      query: symbol ? { symbol: symbol.trim().toUpperCase() } : undefined
+    });
+    return (Array.isArray(raw) ? raw : []).map(mapPosition).filter((position) => position.symbol && position.positionAmt !== 0);
+  }
+
+  /** The symbol's latest orders (all statuses), newest last as Binance returns them. */
+  async getRecentOrders(symbol: string, limit = 20): Promise<BinanceFuturesOrderSnapshot[]> {
+    const id = symbol.trim().toUpperCase();
+    const raw = await this.request("GET", "/fapi/v1/allOrders", {
+      signed: true,
+      query: { symbol: id, limit: Math.max(1, Math.min(1_000, Math.round(limit))) }
+    });
+    return (Array.isArray(raw) ? raw : []).map((row) => mapOrder(row, id));
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    await this.request("POST", "/fapi/v1/leverage", {
+      signed: true,
+      query: { symbol: symbol.trim().toUpperCase(), leverage: Math.max(1, Math.round(leverage)) }
+    });
+  }
+
+  async setMarginType(symbol: string, marginType: BinanceFuturesMarginType): Promise<void> {
+    try {
+      await this.request("POST", "/fapi/v1/marginType", { signed: true, query: { symbol: symbol.trim().toUpperCase(), marginType } });
+    } catch (err) {
+      if (!isMarginTypeUnchangedError(err)) throw err;
+    }
+  }
+
+  async placeMarketOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    /** Only shrinks an open position; Binance rejects it when it would open or flip one. */
+    reduceOnly?: boolean;
+    clientOrderId?: string;
+  }): Promise<BinanceFuturesOrderSnapshot> {
+    const quantity = Number.parseFloat(params.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new Error(`Invalid quantity: ${params.quantity}`);
+    }
+    const symbol = params.symbol.trim().toUpperCase();
+    const raw = await this.request("POST", "/fapi/v1/order", {
+      signed: true,
+      query: {
+        symbol,
+        side: params.side,
+        type: "MARKET",
+        quantity: params.quantity,
+        ...(params.reduceOnly ? { reduceOnly: true } : {}),
+        ...(params.clientOrderId ? { newClientOrderId: params.clientOrderId } : {}),
+        newOrderRespType: "RESULT"
+      }
+    });
+    return mapOrder(raw, symbol);
+  }
+
+  private async time(): Promise<{ serverTime: number }> {
+    return await this.request("GET", "/fapi/v1/time");
+  }
+
+  private async request<T = unknown>(
+    method: FuturesHttpMethod,
+    path: string,
+    options?: { signed?: boolean; query?: Record<string, string | number | boolean | undefined> }
+  ): Promise<T> {
+    const spec: BinanceRequestSpec = { method, path, hasSymbol: typeof options?.query?.symbol === "string" };
+    if (options?.signed) {
+      await this.timeSync.ensureSynced(() => this.time());
+    }
+    try {
+      return await this.rateLimiter.schedule(spec, async () => await this.send<T>(method, path, options));
+    } catch (err) {
+      // -1021 means Binance rejected the timestamp before acting on the request, so any method may retry once.
+      if (!options?.signed || !isTimestampOutOfWindowError(err)) throw err;
+      await this.timeSync.sync(() => this.time());
+      return await this.rateLimiter.schedule(spec, async () => await this.send<T>(method, path, options));
+    }
+  }
+
+  private async send<T>(
+    method: FuturesHttpMethod,
+    path: string,
+    options?: { signed?: boolean; query?: Record<string, string | number | boolean | undefined> }
+  ): Promise<T> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options?.query ?? {})) {
+      if (value === undefined) continue;
+      query.set(key, String(value));
+    }
+    if (options?.signed) {
+      query.set("timestamp", String(this.timeSync.now()));
+      query.set("recvWindow", "5000");
+      query.set("signature", crypto.createHmac("sha256", this.options.apiSecret).update(query.toString()).digest("hex"));
+    }
+    if (query.size > 0) {
+      url.search = query.toString();
+    }
+
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAtMs = Date.now();
+    let status: number | undefined;
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: options?.signed ? { "X-MBX-APIKEY": this.options.apiKey } : {},
+        signal: controller.signal
+      });
+      status = res.status;
+      this.rateLimiter.observe(res.status, res.headers);
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new BinanceHttpError(res.status, `Binance HTTP ${res.status}: ${text.slice(0, 250)}`);
+      }
+      return (await res.json()) as T;
+    } finally {
+      clearTimeout(t);
+      recordBinanceRequest({
+        api: "futures",
+        method,
+        endpoint: url.pathname,
+        durationMs: Date.now() - startedAtMs,
+        status,
+        ok: status !== undefined && status < 400
+      });
+    }
+  }
+}
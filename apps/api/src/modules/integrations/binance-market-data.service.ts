@@ -1,20 +1,9 @@
-import { Injectable } from "@nestjs/common";
+import { Inject, Injectable, Optional } from "@nestjs/common";
 
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
 import { ConfigService } from "../config/config.service";
-import { BinanceClient } from "./binance-client";
-import { resolveBinanceBaseUrl } from "./binance-base-url";
-
-type ExchangeInfoResponse = {
-  symbols?: ExchangeInfoSymbol[];
-};
-
-type ExchangeInfoSymbol = {
-  symbol: string;
-  status: string;
-  baseAsset: string;
-  quoteAsset: string;
-  filters: Array<Record<string, unknown>>;
-};
+import type { ExchangeAdapter, ExchangeMarketData } from "./exchange-adapter";
+import { createExchangeAdapter, resolveExchangeAdapterKey } from "./exchange-adapter-factory";
 
 type LotSizeFilter = {
   filterType: "LOT_SIZE" | "MARKET_LOT_SIZE";
@@ -188,39 +177,43 @@ function parseNotionalFilter(filters: Array<Record<string, unknown>>): NotionalF
 }
 
 @Injectable()
-export class BinanceMarketDataService {
-  private clientCache: { baseUrl: string; client: BinanceClient } | null = null;
+export class BinanceMarketDataService implements ExchangeMarketData {
+  private adapterCache: { key: string; adapter: ExchangeAdapter } | null = null;
 
   private readonly rulesCache = new Map<string, { atMs: number; rules: BinanceSymbolRules }>();
   private readonly priceCache = new Map<string, { atMs: number; price: string }>();
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
 
-  private get client(): BinanceClient {
+  private get adapter(): ExchangeAdapter {
     const config = this.configService.load();
-    const baseUrl = resolveBinanceBaseUrl(config);
+    const key = resolveExchangeAdapterKey(config, false);
 
-    if (this.clientCache?.baseUrl !== baseUrl) {
-      this.clientCache = { baseUrl, client: new BinanceClient({ baseUrl }) };
+    if (this.adapterCache?.key !== key) {
+      void this.adapterCache?.adapter.close().catch(() => undefined);
+      this.adapterCache = { key, adapter: createExchangeAdapter(config) };
       this.rulesCache.clear();
       this.priceCache.clear();
     }
 
-    return this.clientCache.client;
+    return this.adapterCache.adapter;
   }
 
   async getSymbolRules(symbol: string): Promise<BinanceSymbolRules> {
     const sym = symbol.trim().toUpperCase();
-    const now = Date.now();
+    const now = this.clock.now();
     const cached = this.rulesCache.get(sym);
     if (cached && now - cached.atMs < 60 * 60_000) {
       return cached.rules;
     }
 
-    const exchangeInfo = (await this.client.exchangeInfo(sym)) as ExchangeInfoResponse;
-    const info = exchangeInfo.symbols?.[0];
+    const adapter = this.adapter;
+    const [info] = await adapter.getSymbols(sym);
     if (!info) {
-      throw new Error(`Binance exchangeInfo returned no symbol info for ${sym}`);
+      throw new Error(`${adapter.id} returned no symbol info for ${sym}`);
     }
 
     const filters = (info.filters ?? []).map((f) => asRecord(f) ?? {}).filter((f) => Object.keys(f).length > 0);
@@ -242,19 +235,15 @@ export class BinanceMarketDataService {
 
   async getTickerPrice(symbol: string): Promise<string> {
     const sym = symbol.trim().toUpperCase();
-    const now = Date.now();
+    const now = this.clock.now();
     const cached = this.priceCache.get(sym);
     if (cached && now - cached.atMs < 4_000) {
       return cached.price;
     }
 
-    const tick = await this.client.tickerPrice(sym);
-    if (!tick?.price) {
-      throw new Error(`Binance ticker price missing for ${sym}`);
-    }
-
-    this.priceCache.set(sym, { atMs: now, price: tick.price });
-    return tick.price;
+    const price = await this.adapter.getTickerPrice(sym);
+    this.priceCache.set(sym, { atMs: now, price });
+    return price;
   }
 
   async normalizeLimitPrice(
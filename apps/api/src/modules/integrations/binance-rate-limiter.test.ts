@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { FixedClock } from "../clock/clock";
+import { BinanceClient } from "./binance-client";
+import { BinanceRateLimitError, BinanceRateLimiter } from "./binance-rate-limiter";
+import { BinanceTimeSync } from "./binance-time-sync";
+
+function weightHeaders(usedWeight: number, extra?: Record<string, string>): Headers {
+  return new Headers({ "x-mbx-used-weight-1m": String(usedWeight), ...extra });
+}
+
+describe("BinanceRateLimiter", () => {
+  it("holds low-priority requests near the limit while order placement still goes through", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T10:00:10.000Z"));
+    const limiter = new BinanceRateLimiter(clock, { weightLimit1m: 100 });
+    limiter.observe(200, weightHeaders(69));
+
+    const ran: string[] = [];
+    const scan = limiter.schedule({ method: "GET", path: "/api/v3/klines", priority: "LOW" }, async () => {
+      ran.push("scan");
+    });
+    const order = limiter.schedule({ method: "POST", path: "/api/v3/order", hasSymbol: true }, async () => {
+      ran.push("order");
+    });
+    await order;
+    expect(ran).toEqual(["order"]);
+    expect(limiter.getUsage().queued).toBe(1);
+
+    // The next minute window resets the header weight and releases the queue.
+    clock.advance(50_000);
+    await scan;
+    expect(ran).toEqual(["order", "scan"]);
+    expect(limiter.getUsage().queued).toBe(0);
+  });
+
+  it("blocks the host until Retry-After after a 429 and fails fast meanwhile", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T10:00:15.000Z"));
+    const limiter = new BinanceRateLimiter(clock);
+    limiter.observe(429, weightHeaders(6_100, { "retry-after": "45" }));
+
+    const call = vi.fn(async () => "ok");
+    const blocked = limiter.schedule({ method: "GET", path: "/api/v3/account" }, call);
+    await expect(blocked).rejects.toBeInstanceOf(BinanceRateLimitError);
+    await expect(limiter.schedule({ method: "GET", path: "/api/v3/account" }, call)).rejects.toThrow(
+      /^Binance HTTP 429: .*\(Retry-After 45s\)$/
+    );
+    expect(call).not.toHaveBeenCalled();
+    expect(limiter.getUsage()).toMatchObject({ blockedStatus: 429, blockedUntil: "2026-03-01T10:01:00.000Z" });
+
+    clock.advance(45_000);
+    await expect(limiter.schedule({ method: "GET", path: "/api/v3/account" }, call)).resolves.toBe("ok");
+    expect(limiter.getUsage().blockedUntil).toBeNull();
+  });
+});
+
+describe("BinanceClient rate limiting", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("feeds response headers into the limiter and retries a failed read once", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const limiter = new BinanceRateLimiter(clock);
+    let calls = 0;
+    vi.stubGlobal("fetch", async () => {
+      calls += 1;
+      if (calls === 1) return new Response("bad gateway", { status: 502 });
+      return new Response(JSON.stringify({ symbol: "BTCUSDC", price: "1" }), {
+        status: 200,
+        headers: weightHeaders(42, { "x-mbx-order-count-10s": "3" })
+      });
+    });
+
+    const client = new BinanceClient({ baseUrl: "https://api.binance.com", rateLimiter: limiter });
+    await expect(client.tickerPrice("BTCUSDC")).resolves.toEqual({ symbol: "BTCUSDC", price: "1" });
+    expect(calls).toBe(2);
+
+    const usage = limiter.getUsage();
+    expect(usage.usedWeight1m).toBe(42);
+    expect(usage.orderCount10s).toBe(3);
+    expect(usage.inFlightWeight).toBe(0);
+    expect(usage.endpoints).toEqual([{ endpoint: "GET /api/v3/ticker/price", requests: 2, weight: 4 }]);
+  });
+
+  it("never retries order placement", async () => {
+    const limiter = new BinanceRateLimiter(new FixedClock(0));
+    const fetchMock = vi.fn(async () => new Response("oops", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const timeSync = new BinanceTimeSync();
+    await timeSync.sync(async () => ({ serverTime: Date.now() }));
+
+    const client = new BinanceClient({ baseUrl: "https://api.binance.com", apiKey: "k", apiSecret: "s", rateLimiter: limiter, timeSync });
+    await expect(client.createOrder({ symbol: "BTCUSDC", side: "BUY", type: "MARKET", quantity: "1" })).rejects.toThrow(
+      "Binance HTTP 503"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,348 @@
+import { type Clock, type ClockTimer, SystemClock } from "../clock/clock";
+
+/**
+ * Admission priority. HIGH (order placement / cancels) may use the whole weight budget, NORMAL (account and
+ * per-symbol market data) stops at 90%, LOW (universe scans, kline backfills) at 70% so it never starves trading.
+ */
+export type BinanceRequestPriority = "HIGH" | "NORMAL" | "LOW";
+
+export type BinanceRequestSpec = {
+  method: string;
+  path: string;
+  /** True when the request carries `symbol` (several endpoints are much cheaper per symbol). */
+  hasSymbol?: boolean;
+  priority?: BinanceRequestPriority;
+};
+
+export type BinanceRateLimitUsage = {
+  weightLimit1m: number;
+  usedWeight1m: number;
+  inFlightWeight: number;
+  orderCount10s: number | null;
+  orderCount1d: number | null;
+  queued: number;
+  blockedUntil: string | null;
+  blockedStatus: 418 | 429 | null;
+  lastUpdatedAt: string | null;
+  endpoints: Array<{ endpoint: string; requests: number; weight: number }>;
+};
+
+export class BinanceRateLimitError extends Error {
+  constructor(
+    readonly status: 418 | 429,
+    readonly retryAfterMs: number,
+    detail: string
+  ) {
+    // Keep the `Binance HTTP <status>` prefix: callers classify exchange errors by message.
+    super(`Binance HTTP ${status}: ${detail} (Retry-After ${Math.ceil(retryAfterMs / 1000)}s)`);
+    this.name = "BinanceRateLimitError";
+  }
+}
+
+const DEFAULT_WEIGHT_LIMIT_1M = 6_000;
+const DEFAULT_ORDER_LIMIT_10S = 100;
+const PRIORITY_BUDGET_SHARE: Record<BinanceRequestPriority, number> = { HIGH: 1, NORMAL: 0.9, LOW: 0.7 };
+const PRIORITY_RANK: Record<BinanceRequestPriority, number> = { HIGH: 0, NORMAL: 1, LOW: 2 };
+const DEFAULT_BLOCK_MS: Record<418 | 429, number> = { 418: 120_000, 429: 60_000 };
+
+/** Request weights of the USD-M futures endpoints we call (https://developers.binance.com/docs/derivatives/usds-margined-futures). */
+function getFuturesRequestWeight(spec: BinanceRequestSpec): number {
+  switch (spec.path) {
+    case "/fapi/v2/positionRisk":
+    case "/fapi/v1/allOrders":
+      return 5;
+    case "/fapi/v1/premiumIndex":
+      return spec.hasSymbol ? 1 : 10;
+    default:
+      return 1;
+  }
+}
+
+/** Request weights of the spot endpoints we call (https://developers.binance.com/docs/binance-spot-api-docs/rest-api). */
+export function getBinanceRequestWeight(spec: BinanceRequestSpec): number {
+  if (spec.path.startsWith("/fapi/")) return getFuturesRequestWeight(spec);
+  const path = spec.path.replace(/^\/api\/v3/, "");
+  switch (path) {
+    case "/ping":
+    case "/time":
+      return 1;
+    case "/account":
+      return 20;
+    case "/exchangeInfo":
+      return 20;
+    case "/ticker/price":
+      return spec.hasSymbol ? 2 : 4;
+    case "/ticker/24hr":
+      return spec.hasSymbol ? 2 : 80;
+    case "/klines":
+      return 2;
+    case "/order":
+    case "/orderList":
+      return spec.method === "GET" ? 4 : 1;
+    case "/orderList/oco":
+      return 1;
+    case "/openOrders":
+      return spec.hasSymbol ? 6 : 80;
+    case "/openOrderList":
+      return 6;
+    case "/userDataStream":
+      return 2;
+    default:
+      return 1;
+  }
+}
+
+function isOrderPlacement(spec: BinanceRequestSpec): boolean {
+  return spec.method === "POST" && /\/order(List\/oco)?$/.test(spec.path);
+}
+
+/** Default priority by endpoint: placing/cancelling orders first, everything else normal. */
+function defaultPriority(spec: BinanceRequestSpec): BinanceRequestPriority {
+  if (/\/order/.test(spec.path) && spec.method !== "GET") return "HIGH";
+  return "NORMAL";
+}
+
+function headerValue(headers: Headers | Record<string, unknown> | undefined, name: string): string | null {
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name);
+  const record = headers as Record<string, unknown>;
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  const value = key ? record[key] : undefined;
+  return typeof value === "string" || typeof value === "number" ? String(value) : null;
+}
+
+function parseCount(value: string | null): number | null {
+  if (value === null) return null;
+  const n = Number.parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+type Waiter = {
+  weight: number;
+  priority: BinanceRequestPriority;
+  isOrder: boolean;
+  seq: number;
+  resolve: () => void;
+};
+
+/**
+ * Request-weight budget for one Binance host, shared by every client that talks to it.
+ *
+ * The budget follows the `X-MBX-USED-WEIGHT-1M` / `X-MBX-ORDER-COUNT-*` headers of the latest response plus
+ * the weight of requests still in flight. Requests that do not fit wait in a priority queue until the next
+ * minute window; 429/418 responses block the host until `Retry-After` and make every caller fail fast.
+ * Hosts that never report weight headers (local stand-ins, replays) are not throttled.
+ */
+export class BinanceRateLimiter {
+  private readonly weightLimit1m: number;
+  private readonly orderLimit10s: number;
+
+  private reportsWeight = false;
+  private headerWeight = 0;
+  private headerWeightMinute = -1;
+  private orderCount10s: number | null = null;
+  private orderCount10sWindow = -1;
+  private orderCount1d: number | null = null;
+  private inFlightWeight = 0;
+  private inFlightOrders = 0;
+  private lastUpdatedAtMs: number | null = null;
+
+  private blockedUntilMs = 0;
+  private blockedStatus: 418 | 429 | null = null;
+
+  private readonly queue: Waiter[] = [];
+  private seq = 0;
+  private wakeTimer: ClockTimer | null = null;
+  private readonly endpointStats = new Map<string, { minute: number; requests: number; weight: number }>();
+
+  constructor(
+    private readonly clock: Clock = new SystemClock(),
+    options?: { weightLimit1m?: number; orderLimit10s?: number }
+  ) {
+    this.weightLimit1m = options?.weightLimit1m ?? DEFAULT_WEIGHT_LIMIT_1M;
+    this.orderLimit10s = options?.orderLimit10s ?? DEFAULT_ORDER_LIMIT_10S;
+  }
+
+  /** Waits for budget, runs `fn`, and releases the reservation. `fn` must call `observe()` with the response. */
+  async schedule<T>(spec: BinanceRequestSpec, fn: () => Promise<T>): Promise<T> {
+    const weight = getBinanceRequestWeight(spec);
+    const isOrder = isOrderPlacement(spec);
+    await this.acquire(weight, spec.priority ?? defaultPriority(spec), isOrder);
+    this.recordEndpoint(spec, weight);
+    try {
+      return await fn();
+    } finally {
+      this.inFlightWeight -= weight;
+      if (isOrder) this.inFlightOrders -= 1;
+      this.pump();
+    }
+  }
+
+  /** Folds a response's rate-limit headers (and 429/418 status) into the budget. */
+  observe(status: number, headers: Headers | Record<string, unknown> | undefined): void {
+    const now = this.clock.now();
+    const usedWeight = parseCount(headerValue(headers, "x-mbx-used-weight-1m"));
+    if (usedWeight !== null) {
+      this.reportsWeight = true;
+      this.headerWeight = usedWeight;
+      this.headerWeightMinute = Math.floor(now / 60_000);
+      this.lastUpdatedAtMs = now;
+    }
+    const orders10s = parseCount(headerValue(headers, "x-mbx-order-count-10s"));
+    if (orders10s !== null) {
+      this.orderCount10s = orders10s;
+      this.orderCount10sWindow = Math.floor(now / 10_000);
+    }
+    const orders1d = parseCount(headerValue(headers, "x-mbx-order-count-1d"));
+    if (orders1d !== null) this.orderCount1d = orders1d;
+
+    if (status === 429 || status === 418) {
+      const retryAfterSec = Number.parseInt(headerValue(headers, "retry-after") ?? "", 10);
+      const retryAfterMs = Number.isFinite(retryAfterSec) && retryAfterSec > 0 ? retryAfterSec * 1000 : DEFAULT_BLOCK_MS[status];
+      this.block(status, retryAfterMs);
+    }
+  }
+
+  /** Blocks the host after a 429/418 (also used when the response came through a library that hides the status). */
+  block(status: 418 | 429, retryAfterMs: number): void {
+    const until = this.clock.now() + Math.max(0, retryAfterMs);
+    if (until > this.blockedUntilMs) {
+      this.blockedUntilMs = until;
+      this.blockedStatus = status;
+    }
+    this.scheduleWake();
+  }
+
+  /** Remaining block time, or 0. */
+  getBlockedForMs(): number {
+    return Math.max(0, this.blockedUntilMs - this.clock.now());
+  }
+
+  getUsage(): BinanceRateLimitUsage {
+    const now = this.clock.now();
+    const minute = Math.floor(now / 60_000);
+    const blocked = this.getBlockedForMs() > 0;
+    return {
+      weightLimit1m: this.weightLimit1m,
+      usedWeight1m: this.headerWeightMinute === minute ? this.headerWeight : 0,
+      inFlightWeight: this.inFlightWeight,
+      orderCount10s: this.orderCount10sWindow === Math.floor(now / 10_000) ? this.orderCount10s : this.orderCount10s === null ? null : 0,
+      orderCount1d: this.orderCount1d,
+      queued: this.queue.length,
+      blockedUntil: blocked ? new Date(this.blockedUntilMs).toISOString() : null,
+      blockedStatus: blocked ? this.blockedStatus : null,
+      lastUpdatedAt: this.lastUpdatedAtMs === null ? null : new Date(this.lastUpdatedAtMs).toISOString(),
+      endpoints: [...this.endpointStats.entries()]
+        .filter(([, stats]) => stats.minute === minute)
+        .map(([endpoint, stats]) => ({ endpoint, requests: stats.requests, weight: stats.weight }))
+        .sort((a, b) => b.weight - a.weight)
+    };
+  }
+
+  private async acquire(weight: number, priority: BinanceRequestPriority, isOrder: boolean): Promise<void> {
+    this.throwIfBlocked();
+    if (this.queue.length === 0 && this.fits(weight, priority, isOrder)) {
+      this.reserve(weight, isOrder);
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.queue.push({ weight, priority, isOrder, seq: this.seq++, resolve });
+      this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+      this.pump();
+    });
+    this.throwIfBlocked();
+  }
+
+  private throwIfBlocked(): void {
+    const remaining = this.getBlockedForMs();
+    if (remaining > 0 && this.blockedStatus) {
+      throw new BinanceRateLimitError(
+        this.blockedStatus,
+        remaining,
+        this.blockedStatus === 418 ? "IP banned for request weight abuse" : "request weight limit exceeded"
+      );
+    }
+  }
+
+  private fits(weight: number, priority: BinanceRequestPriority, isOrder: boolean): boolean {
+    if (!this.reportsWeight) return true;
+    const now = this.clock.now();
+    const used = (this.headerWeightMinute === Math.floor(now / 60_000) ? this.headerWeight : 0) + this.inFlightWeight;
+    // Always let one request through per window so the headers can tell us where we stand.
+    const weightOk = used + weight <= this.weightLimit1m * PRIORITY_BUDGET_SHARE[priority] || (this.inFlightWeight === 0 && used === 0);
+    if (!weightOk) return false;
+    if (!isOrder) return true;
+    const orders = (this.orderCount10sWindow === Math.floor(now / 10_000) ? this.orderCount10s ?? 0 : 0) + this.inFlightOrders;
+    return orders < this.orderLimit10s;
+  }
+
+  private reserve(weight: number, isOrder: boolean): void {
+    this.inFlightWeight += weight;
+    if (isOrder) this.inFlightOrders += 1;
+  }
+
+  private pump(): void {
+    if (this.getBlockedForMs() > 0) {
+      // Release everyone so they fail fast instead of hanging behind a ban.
+      for (const waiter of this.queue.splice(0)) waiter.resolve();
+      return;
+    }
+    while (this.queue.length > 0) {
+      const next = this.queue[0];
+      if (!this.fits(next.weight, next.priority, next.isOrder)) {
+        // The queue is sorted by priority, so the head is the most urgent waiter. A smaller request of the same
+        // priority may go ahead of it; anything of lower priority waits until the head has been admitted.
+        const index = this.queue.findIndex((waiter) => this.fits(waiter.weight, waiter.priority, waiter.isOrder));
+        if (index < 0 || PRIORITY_RANK[this.queue[index].priority] > PRIORITY_RANK[next.priority]) break;
+        const [waiter] = this.queue.splice(index, 1);
+        this.reserve(waiter.weight, waiter.isOrder);
+        waiter.resolve();
+        continue;
+      }
+      this.queue.shift();
+      this.reserve(next.weight, next.isOrder);
+      next.resolve();
+    }
+    if (this.queue.length > 0) this.scheduleWake();
+  }
+
+  private scheduleWake(): void {
+    if (this.wakeTimer) return;
+    const now = this.clock.now();
+    const nextWindow = this.getBlockedForMs() > 0 ? this.blockedUntilMs : Math.min((Math.floor(now / 60_000) + 1) * 60_000, (Math.floor(now / 10_000) + 1) * 10_000);
+    this.wakeTimer = this.clock.setTimeout(() => {
+      this.wakeTimer = null;
+      this.pump();
+    }, Math.max(1, nextWindow - now));
+  }
+
+  private recordEndpoint(spec: BinanceRequestSpec, weight: number): void {
+    const minute = Math.floor(this.clock.now() / 60_000);
+    const endpoint = `${spec.method} ${spec.path}`;
+    const stats = this.endpointStats.get(endpoint);
+    if (!stats || stats.minute !== minute) {
+      this.endpointStats.set(endpoint, { minute, requests: 1, weight });
+      return;
+    }
+    stats.requests += 1;
+    stats.weight += weight;
+  }
+}
+
+const limiters = new Map<string, BinanceRateLimiter>();
+
+/** The process-wide limiter for a Binance host (weight limits are per IP and per account, not per client object). */
+export function getBinanceRateLimiter(baseUrl: string, options?: { weightLimit1m?: number }): BinanceRateLimiter {
+  let host: string;
+  try {
+    host = new URL(baseUrl).host.toLowerCase();
+  } catch {
+    host = baseUrl.trim().toLowerCase();
+  }
+  let limiter = limiters.get(host);
+  if (!limiter) {
+    limiter = new BinanceRateLimiter(undefined, options);
+    limiters.set(host, limiter);
+  }
+  return limiter;
+}
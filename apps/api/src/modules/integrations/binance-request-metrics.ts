@@ -0,0 +1,32 @@
+/** One finished Binance REST call, as seen by the client that sent it (after rate limiting, per attempt). */
+export type BinanceRequestSample = {
+  /** `spot` or `futures`. */
+  api: "spot" | "futures";
+  method: string;
+  /** Path without the query string, e.g. `/api/v3/order`. */
+  endpoint: string;
+  durationMs: number;
+  /** HTTP status; absent when no response arrived (network error, timeout). */
+  status?: number;
+  ok: boolean;
+};
+
+type BinanceRequestObserver = (sample: BinanceRequestSample) => void;
+
+const observers = new Set<BinanceRequestObserver>();
+
+/** Process-wide, like the rate limiters: clients are created ad hoc all over the code base. */
+export function onBinanceRequest(observer: BinanceRequestObserver): () => void {
+  observers.add(observer);
+  return () => observers.delete(observer);
+}
+
+export function recordBinanceRequest(sample: BinanceRequestSample): void {
+  for (const observer of observers) {
+    try {
+      observer(sample);
+    } catch {
+      // Metrics must never fail a request.
+    }
+  }
+}
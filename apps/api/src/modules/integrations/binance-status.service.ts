@@ -3,6 +3,8 @@ import { Injectable } from "@nestjs/common";
 import { ConfigService } from "../config/config.service";
 import { BinanceClient } from "./binance-client";
 import { resolveBinanceBaseUrl } from "./binance-base-url";
+import { type BinanceRateLimitUsage, getBinanceRateLimiter } from "./binance-rate-limiter";
+import { type BinanceTimeSyncStatus, getBinanceTimeSync } from "./binance-time-sync";
 
 export type BinanceStatus = {
   checkedAt: string;
@@ -11,16 +13,31 @@ export type BinanceStatus = {
   reachable: boolean;
   authenticated: boolean;
   error?: string;
+  /** Live request-weight usage of the shared limiter for this host (not cached with the rest of the status). */
+  rateLimit: BinanceRateLimitUsage;
+  /** Live server clock offset used to timestamp signed requests. */
+  timeSync: BinanceTimeSyncStatus;
 };
 
+type CachedBinanceStatus = Omit<BinanceStatus, "rateLimit" | "timeSync">;
+
 @Injectable()
 export class BinanceStatusService {
-  private cached: BinanceStatus | null = null;
+  private cached: CachedBinanceStatus | null = null;
   private cachedAtMs = 0;
 
   constructor(private readonly configService: ConfigService) {}
 
   async getStatus(): Promise<BinanceStatus> {
+    const status = await this.getCachedStatus();
+    return {
+      ...status,
+      rateLimit: getBinanceRateLimiter(status.baseUrl).getUsage(),
+      timeSync: getBinanceTimeSync(status.baseUrl).getStatus()
+    };
+  }
+
+  private async getCachedStatus(): Promise<CachedBinanceStatus> {
     const now = Date.now();
     if (this.cached && now - this.cachedAtMs < 30_000) {
       return this.cached;
@@ -62,7 +79,7 @@ export class BinanceStatusService {
       apiSecret: config.basic.binance.apiSecret
     });
 
-    const status: BinanceStatus = {
+    const status: CachedBinanceStatus = {
       checkedAt: new Date().toISOString(),
       baseUrl,
       configured: true,
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { BinanceClient } from "./binance-client";
+import { BinanceRateLimiter } from "./binance-rate-limiter";
+import { BinanceTimeSync } from "./binance-time-sync";
+
+describe("BinanceTimeSync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("measures the server offset and flags drift past the threshold", async () => {
+    const timeSync = new BinanceTimeSync({ driftAlertThresholdMs: 1_000 });
+    await timeSync.sync(async () => ({ serverTime: Date.now() + 2_500 }));
+
+    const status = timeSync.getStatus();
+    expect(status.offsetMs).toBeGreaterThanOrEqual(2_400);
+    expect(status.offsetMs).toBeLessThanOrEqual(2_600);
+    expect(status.driftAlert).toBe(true);
+    expect(timeSync.now() - Date.now()).toBeGreaterThanOrEqual(2_400);
+
+    await timeSync.sync(async () => {
+      throw new Error("offline");
+    });
+    expect(timeSync.getStatus()).toMatchObject({ offsetMs: status.offsetMs, lastError: "offline" });
+  });
+
+  it("signs with the corrected timestamp and resyncs once after a -1021 rejection", async () => {
+    let serverSkewMs = 3_000;
+    const signedTimestamps: number[] = [];
+    vi.stubGlobal("fetch", async (input: string | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/api/v3/time") {
+        return new Response(JSON.stringify({ serverTime: Date.now() + serverSkewMs }), { status: 200 });
+      }
+      const timestamp = Number(url.searchParams.get("timestamp"));
+      signedTimestamps.push(timestamp);
+      if (Math.abs(timestamp - (Date.now() + serverSkewMs)) > 1_000) {
+        return new Response(JSON.stringify({ code: -1021, msg: "Timestamp for this request is outside of the recvWindow." }), {
+          status: 400
+        });
+      }
+      return new Response(JSON.stringify({ balances: [] }), { status: 200 });
+    });
+
+    const timeSync = new BinanceTimeSync();
+    const client = new BinanceClient({
+      baseUrl: "https://api.binance.com",
+      apiKey: "k",
+      apiSecret: "s",
+      rateLimiter: new BinanceRateLimiter(),
+      timeSync
+    });
+
+    await expect(client.account()).resolves.toEqual({ balances: [] });
+    expect(signedTimestamps).toHaveLength(1);
+    expect(signedTimestamps[0] - Date.now()).toBeGreaterThan(2_000);
+
+    // The server clock jumps; the stale offset is rejected once, re-measured, and the request retried.
+    serverSkewMs = -4_000;
+    await expect(client.account()).resolves.toEqual({ balances: [] });
+    expect(signedTimestamps).toHaveLength(3);
+    expect(timeSync.getOffsetMs()).toBeLessThan(-3_000);
+  });
+});
@@ -0,0 +1,120 @@
+export type BinanceTimeSyncStatus = {
+  /** Server time minus local time (positive when the local clock runs behind). */
+  offsetMs: number | null;
+  roundTripMs: number | null;
+  syncedAt: string | null;
+  driftAlertThresholdMs: number;
+  /** True while |offset| exceeds the alert threshold. */
+  driftAlert: boolean;
+  lastError: string | null;
+};
+
+const DEFAULT_RESYNC_INTERVAL_MS = 10 * 60_000;
+const DEFAULT_DRIFT_ALERT_MS = 1_000;
+
+function resolveDriftAlertThresholdMs(): number {
+  const raw = Number.parseInt((process.env.BINANCE_CLOCK_DRIFT_ALERT_MS ?? "").trim(), 10);
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_DRIFT_ALERT_MS;
+}
+
+/**
+ * Local-to-server clock offset for one Binance host, used to timestamp signed requests.
+ *
+ * The offset is measured with `/api/v3/time` (midpoint of the round trip), refreshed lazily before a signed
+ * request once it is older than the resync interval, and immediately after a -1021 (timestamp outside
+ * recvWindow) rejection. Signing and request timeouts are network concerns, so this runs on real time.
+ */
+export class BinanceTimeSync {
+  private offsetMs: number | null = null;
+  private roundTripMs: number | null = null;
+  private syncedAtMs: number | null = null;
+  private lastError: string | null = null;
+  private inFlight: Promise<void> | null = null;
+  private readonly resyncIntervalMs: number;
+  private readonly driftAlertThresholdMs: number;
+
+  constructor(options?: { resyncIntervalMs?: number; driftAlertThresholdMs?: number }) {
+    this.resyncIntervalMs = options?.resyncIntervalMs ?? DEFAULT_RESYNC_INTERVAL_MS;
+    this.driftAlertThresholdMs = options?.driftAlertThresholdMs ?? resolveDriftAlertThresholdMs();
+  }
+
+  /** Local time corrected by the last measured offset. */
+  now(): number {
+    return Date.now() + (this.offsetMs ?? 0);
+  }
+
+  getOffsetMs(): number {
+    return this.offsetMs ?? 0;
+  }
+
+  /** Measures the offset unless a fresh measurement exists. Failures keep the previous offset. */
+  async ensureSynced(fetchServerTime: () => Promise<{ serverTime: number }>): Promise<void> {
+    if (this.syncedAtMs !== null && Date.now() - this.syncedAtMs < this.resyncIntervalMs) return;
+    await this.sync(fetchServerTime);
+  }
+
+  /** Forces a new measurement (concurrent callers share one request). */
+  async sync(fetchServerTime: () => Promise<{ serverTime: number }>): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.measure(fetchServerTime).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    await this.inFlight;
+  }
+
+  /** Marks the offset stale so the next signed request re-measures it. */
+  invalidate(): void {
+    this.syncedAtMs = null;
+  }
+
+  getStatus(): BinanceTimeSyncStatus {
+    return {
+      offsetMs: this.offsetMs,
+      roundTripMs: this.roundTripMs,
+      syncedAt: this.syncedAtMs === null ? null : new Date(this.syncedAtMs).toISOString(),
+      driftAlertThresholdMs: this.driftAlertThresholdMs,
+      driftAlert: this.offsetMs !== null && Math.abs(this.offsetMs) > this.driftAlertThresholdMs,
+      lastError: this.lastError
+    };
+  }
+
+  private async measure(fetchServerTime: () => Promise<{ serverTime: number }>): Promise<void> {
+    const sentAt = Date.now();
+    try {
+      const { serverTime } = await fetchServerTime();
+      const receivedAt = Date.now();
+      if (!Number.isFinite(serverTime)) throw new Error("Invalid serverTime");
+      this.roundTripMs = receivedAt - sentAt;
+      this.offsetMs = Math.round(serverTime - (sentAt + this.roundTripMs / 2));
+      this.syncedAtMs = receivedAt;
+      this.lastError = null;
+    } catch (err) {
+      this.lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+}
+
+const timeSyncs = new Map<string, BinanceTimeSync>();
+
+/** The process-wide time sync for a Binance host (shared by BinanceClient and the ccxt adapter). */
+export function getBinanceTimeSync(baseUrl: string): BinanceTimeSync {
+  let host: string;
+  try {
+    host = new URL(baseUrl).host.toLowerCase();
+  } catch {
+    host = baseUrl.trim().toLowerCase();
+  }
+  let timeSync = timeSyncs.get(host);
+  if (!timeSync) {
+    timeSync = new BinanceTimeSync();
+    timeSyncs.set(host, timeSync);
+  }
+  return timeSync;
+}
+
+/** Binance -1021: the request timestamp fell outside recvWindow (local clock drift or a slow network). */
+export function isTimestampOutOfWindowError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /"code"\s*:\s*-1021\b/.test(message) || /timestamp for this request/i.test(message);
+}
@@ -1,69 +1,136 @@
 import { Injectable } from "@nestjs/common";
 
 import { ConfigService } from "../config/config.service";
-import { resolveBinanceBaseUrl } from "./binance-base-url";
-import { CcxtBinanceAdapter, type CcxtBinanceOrderSnapshot } from "./ccxt-binance-adapter";
-
-export type BinanceBalanceSnapshot = {
-  asset: string;
-  free: number;
-  locked: number;
-  total: number;
-};
+import { resolveBinanceBaseUrl, resolveBinanceFuturesBaseUrl } from "./binance-base-url";
+import { BinanceClient } from "./binance-client";
+import {
+  BinanceFuturesAdapter,
+  type BinanceFuturesFundingSnapshot,
+  type BinanceFuturesMarginType,
+  type BinanceFuturesOrderSnapshot,
+  type BinanceFuturesPositionSnapshot,
+  type BinanceFuturesSymbolRules
+} from "./binance-futures-adapter";
+import { type BinanceTimeSyncStatus, getBinanceTimeSync } from "./binance-time-sync";
+import type {
+  ExchangeAdapter,
+  ExchangeBalanceSnapshot,
+  ExchangeMarketOrderResponse,
+  ExchangeOrderSnapshot,
+  ExchangeTrading
+} from "./exchange-adapter";
+import { createExchangeAdapter, resolveExchangeAdapterKey, resolveExchangeBaseUrl, resolveExchangeId } from "./exchange-adapter-factory";
+
+export type BinanceBalanceSnapshot = ExchangeBalanceSnapshot;
+
+export type BinanceMarketOrderResponse = ExchangeMarketOrderResponse;
 
-export type BinanceMarketOrderResponse = {
-  symbol?: string;
-  orderId?: number;
-  clientOrderId?: string;
-  transactTime?: number;
-  price?: string;
-  origQty?: string;
-  executedQty?: string;
-  cummulativeQuoteQty?: string;
-  status?: string;
-  type?: string;
-  side?: string;
-  fills?: Array<{
-    price?: string;
-    qty?: string;
-    commission?: string;
-    commissionAsset?: string;
-  }>;
+export type BinanceOrderSnapshot = ExchangeOrderSnapshot;
+
+/** An exchange order list (OCO); `orders` holds whatever leg details the endpoint returned. */
+export type BinanceOrderListSnapshot = {
+  symbol: string;
+  orderListId: string;
+  listClientOrderId?: string;
+  /** EXECUTING while the legs are working, ALL_DONE once one filled or the list was canceled. */
+  listOrderStatus?: string;
+  orders: BinanceOrderSnapshot[];
 };
 
-export type BinanceOrderSnapshot = CcxtBinanceOrderSnapshot;
+function asText(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+/** Maps a raw REST order (or OCO order report) onto the snapshot shape the engine already consumes. */
+function mapRestOrder(raw: unknown): BinanceOrderSnapshot {
+  const order = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const transactTime = order.transactTime ?? order.updateTime ?? order.time;
+  return {
+    symbol: asText(order.symbol)?.toUpperCase(),
+    orderId: asText(order.orderId),
+    clientOrderId: asText(order.clientOrderId),
+    transactTime: typeof transactTime === "number" ? transactTime : undefined,
+    price: asText(order.price),
+    origQty: asText(order.origQty),
+    executedQty: asText(order.executedQty),
+    cummulativeQuoteQty: asText(order.cummulativeQuoteQty),
+    status: asText(order.status)?.toUpperCase(),
+    type: asText(order.type)?.toUpperCase(),
+    side: asText(order.side)?.toUpperCase()
+  };
+}
+
+function mapOrderList(raw: unknown): BinanceOrderListSnapshot {
+  const list = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const reports = Array.isArray(list.orderReports) && list.orderReports.length > 0 ? list.orderReports : list.orders;
+  return {
+    symbol: asText(list.symbol)?.toUpperCase() ?? "",
+    orderListId: asText(list.orderListId) ?? "",
+    listClientOrderId: asText(list.listClientOrderId),
+    listOrderStatus: asText(list.listOrderStatus)?.toUpperCase(),
+    orders: (Array.isArray(reports) ? reports : []).map(mapRestOrder)
+  };
+}
 
 export function isBinanceTestnetBaseUrl(baseUrl: string): boolean {
   return /demo-api\.binance\.com|testnet\.binance\.vision|sandbox/i.test(baseUrl);
 }
 
 @Injectable()
-export class BinanceTradingService {
-  private adapterCache: { key: string; adapter: CcxtBinanceAdapter } | null = null;
+export class BinanceTradingService implements ExchangeTrading {
+  private adapterCache: { key: string; adapter: ExchangeAdapter } | null = null;
+  // Order lists and stop orders go straight to Binance REST: ccxt has no unified OCO call.
+  private clientCache: { key: string; client: BinanceClient } | null = null;
+  private futuresCache: { key: string; adapter: BinanceFuturesAdapter } | null = null;
 
   constructor(private readonly configService: ConfigService) {}
 
   getBaseUrl(): string {
     const cfg = this.configService.load();
-    return resolveBinanceBaseUrl(cfg);
+    return resolveExchangeBaseUrl(cfg);
+  }
+
+  getClockSyncStatus(): BinanceTimeSyncStatus {
+    return getBinanceTimeSync(this.getBaseUrl()).getStatus();
+  }
+
+  private get adapter(): ExchangeAdapter {
+    const config = this.configService.load();
+    if (!config) {
+      throw new Error("Bot is not initialized.");
+    }
+    if (!config.basic.binance.apiKey || !config.basic.binance.apiSecret) {
+      throw new Error("Missing exchange API credentials.");
+    }
+
+    const key = resolveExchangeAdapterKey(config, true);
+    if (this.adapterCache?.key !== key) {
+      void this.adapterCache?.adapter.close().catch(() => undefined);
+      this.adapterCache = { key, adapter: createExchangeAdapter(config, { withCredentials: true }) };
+    }
+    return this.adapterCache.adapter;
   }
 
-  private get adapter(): CcxtBinanceAdapter {
+  private get client(): BinanceClient {
     const config = this.configService.load();
     if (!config) {
       throw new Error("Bot is not initialized.");
     }
+    if (resolveExchangeId(config) !== "BINANCE") {
+      throw new Error(`Order lists are not supported on ${resolveExchangeId(config)}.`);
+    }
     if (!config.basic.binance.apiKey || !config.basic.binance.apiSecret) {
       throw new Error("Missing Binance API credentials.");
     }
 
     const baseUrl = resolveBinanceBaseUrl(config);
-    const key = `${config.advanced.binanceEnvironment}|${baseUrl}|${config.basic.binance.apiKey}`;
-    if (this.adapterCache?.key !== key) {
-      this.adapterCache = {
+    const key = `${baseUrl}|${config.basic.binance.apiKey}`;
+    if (this.clientCache?.key !== key) {
+      this.clientCache = {
         key,
-        adapter: new CcxtBinanceAdapter({
-          env: config.advanced.binanceEnvironment,
+        client: new BinanceClient({
           baseUrl,
           apiKey: config.basic.binance.apiKey,
           apiSecret: config.basic.binance.apiSecret,
@@ -71,7 +138,35 @@ export class BinanceTradingService {
         })
       };
     }
-    return this.adapterCache.adapter;
+    return this.clientCache.client;
+  }
+
+  private get futures(): BinanceFuturesAdapter {
+    const config = this.configService.load();
+    if (!config) {
+      throw new Error("Bot is not initialized.");
+    }
+    if (resolveExchangeId(config) !== "BINANCE") {
+      throw new Error(`Futures are not supported on ${resolveExchangeId(config)}.`);
+    }
+    if (!config.basic.binance.apiKey || !config.basic.binance.apiSecret) {
+      throw new Error("Missing Binance API credentials.");
+    }
+
+    const baseUrl = resolveBinanceFuturesBaseUrl(config);
+    const key = `${baseUrl}|${config.basic.binance.apiKey}`;
+    if (this.futuresCache?.key !== key) {
+      this.futuresCache = {
+        key,
+        adapter: new BinanceFuturesAdapter({
+          baseUrl,
+          apiKey: config.basic.binance.apiKey,
+          apiSecret: config.basic.binance.apiSecret,
+          timeoutMs: 12_000
+        })
+      };
+    }
+    return this.futuresCache.adapter;
   }
 
   async getBalances(): Promise<BinanceBalanceSnapshot[]> {
@@ -84,12 +179,7 @@ export class BinanceTradingService {
     quantity: string;
     clientOrderId?: string;
   }): Promise<BinanceMarketOrderResponse> {
-    return await this.adapter.placeSpotMarketOrder({
-      symbolId: params.symbol,
-      side: params.side,
-      quantity: params.quantity,
-      clientOrderId: params.clientOrderId
-    });
+    return await this.adapter.placeMarketOrder(params);
   }
 
   async placeSpotLimitOrder(params: {
@@ -101,15 +191,7 @@ export class BinanceTradingService {
     postOnly?: boolean;
     clientOrderId?: string;
   }): Promise<BinanceOrderSnapshot> {
-    return await this.adapter.placeSpotLimitOrder({
-      symbolId: params.symbol,
-      side: params.side,
-      quantity: params.quantity,
-      price: params.price,
-      timeInForce: params.timeInForce,
-      postOnly: params.postOnly,
-      clientOrderId: params.clientOrderId
-    });
+    return await this.adapter.placeLimitOrder(params);
   }
 
   async getOpenOrders(symbol?: string): Promise<BinanceOrderSnapshot[]> {
@@ -123,4 +205,106 @@ export class BinanceTradingService {
   async cancelOrder(symbol: string, orderId: string): Promise<BinanceOrderSnapshot> {
     return await this.adapter.cancelOrder(symbol, orderId);
   }
+
+  /** Take-profit (LIMIT_MAKER) and stop-loss (STOP_LOSS_LIMIT) SELL legs for a long position, as one OCO list. */
+  async placeOcoSell(params: {
+    symbol: string;
+    quantity: string;
+    takeProfitPrice: string;
+    stopPrice: string;
+    stopLimitPrice: string;
+    listClientOrderId?: string;
+    takeProfitClientOrderId?: string;
+    stopClientOrderId?: string;
+  }): Promise<BinanceOrderListSnapshot> {
+    const raw = await this.client.createOcoOrderList({
+      symbol: params.symbol,
+      side: "SELL",
+      quantity: params.quantity,
+      abovePrice: params.takeProfitPrice,
+      belowStopPrice: params.stopPrice,
+      belowPrice: params.stopLimitPrice,
+      listClientOrderId: params.listClientOrderId,
+      aboveClientOrderId: params.takeProfitClientOrderId,
+      belowClientOrderId: params.stopClientOrderId
+    });
+    return mapOrderList(raw);
+  }
+
+  async placeStopLossLimitOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    stopPrice: string;
+    price: string;
+    clientOrderId?: string;
+  }): Promise<BinanceOrderSnapshot> {
+    const raw = await this.client.createOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: "STOP_LOSS_LIMIT",
+      quantity: params.quantity,
+      stopPrice: params.stopPrice,
+      price: params.price,
+      timeInForce: "GTC",
+      newClientOrderId: params.clientOrderId,
+      newOrderRespType: "RESULT"
+    });
+    return mapRestOrder(raw);
+  }
+
+  async cancelOrderList(symbol: string, orderListId: string): Promise<BinanceOrderListSnapshot> {
+    return mapOrderList(await this.client.cancelOrderList({ symbol, orderListId }));
+  }
+
+  async getOpenOrderLists(): Promise<BinanceOrderListSnapshot[]> {
+    const raw = await this.client.openOrderLists();
+    return (Array.isArray(raw) ? raw : []).map(mapOrderList);
+  }
+
+  /** OCO lists and stop-limit orders: Binance only. */
+  supportsOrderLists(): boolean {
+    return resolveExchangeId(this.configService.load()) === "BINANCE";
+  }
+
+  /** False for the paper / backtest drop-in and for exchanges other than Binance. */
+  supportsFutures(): boolean {
+    return resolveExchangeId(this.configService.load()) === "BINANCE";
+  }
+
+  async getFuturesPositions(symbol?: string): Promise<BinanceFuturesPositionSnapshot[]> {
+    return await this.futures.getPositions(symbol);
+  }
+
+  async getFuturesOrders(symbol: string, limit?: number): Promise<BinanceFuturesOrderSnapshot[]> {
+    return await this.futures.getRecentOrders(symbol, limit);
+  }
+
+  async getFuturesSymbolRules(symbol: string): Promise<BinanceFuturesSymbolRules | null> {
+    return await this.futures.getSymbolRules(symbol);
+  }
+
+  async getFuturesFundingRate(symbol: string): Promise<BinanceFuturesFundingSnapshot> {
+    return await this.futures.getFundingRate(symbol);
+  }
+
+  async normalizeFuturesMarketQuantity(symbol: string, qty: number, price: number): Promise<string | null> {
+    return await this.futures.normalizeMarketQuantity(symbol, qty, price);
+  }
+
+  /** Sets margin type and leverage before an entry (both are per symbol on Binance). */
+  async prepareFuturesSymbol(params: { symbol: string; leverage: number; marginType: BinanceFuturesMarginType }): Promise<void> {
+    await this.futures.setMarginType(params.symbol, params.marginType);
+    await this.futures.setLeverage(params.symbol, params.leverage);
+  }
+
+  async placeFuturesMarketOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    reduceOnly?: boolean;
+    clientOrderId?: string;
+  }): Promise<BinanceFuturesOrderSnapshot> {
+    return await this.futures.placeMarketOrder(params);
+  }
 }
@@ -0,0 +1,95 @@
+import { Inject, Injectable, OnModuleDestroy, Optional } from "@nestjs/common";
+
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
+import { ConfigService } from "../config/config.service";
+import { resolveBinanceBaseUrl, resolveBinanceStreamBaseUrl } from "./binance-base-url";
+import { BinanceClient } from "./binance-client";
+import type { BinanceBalanceSnapshot, BinanceOrderSnapshot } from "./binance-trading.service";
+import { BinanceUserDataStream, type BinanceUserDataStreamStatus } from "./binance-user-data-stream";
+import type { ExchangeAccountStream } from "./exchange-adapter";
+import { resolveExchangeId } from "./exchange-adapter-factory";
+
+/**
+ * Process-wide owner of the live user-data stream. The engine calls `ensureStarted()` on live ticks and
+ * `stop()` when the bot stops; the stream is rebuilt whenever the environment or API key changes.
+ */
+@Injectable()
+export class BinanceUserDataStreamService implements ExchangeAccountStream, OnModuleDestroy {
+  private current: { key: string; stream: BinanceUserDataStream } | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  ensureStarted(): void {
+    const config = this.configService.load();
+    const apiKey = config?.basic.binance.apiKey;
+    // Other exchanges have no listen-key stream; the engine falls back to polling order status.
+    if (!config || !apiKey || resolveExchangeId(config) !== "BINANCE") {
+      void this.stop();
+      return;
+    }
+
+    const baseUrl = resolveBinanceBaseUrl(config);
+    const key = `${config.advanced.binanceEnvironment}|${baseUrl}|${apiKey}`;
+    if (this.current?.key === key) {
+      this.current.stream.start();
+      return;
+    }
+
+    void this.current?.stream.stop();
+    const client = new BinanceClient({ baseUrl, apiKey, timeoutMs: 10_000 });
+    const stream = new BinanceUserDataStream({
+      listenKeys: {
+        create: async () => (await client.createListenKey()).listenKey,
+        keepAlive: async (listenKey) => await client.keepAliveListenKey(listenKey),
+        close: async (listenKey) => await client.closeListenKey(listenKey)
+      },
+      streamBaseUrl: resolveBinanceStreamBaseUrl(baseUrl),
+      clock: this.clock,
+      onUpdate: () => {
+        for (const listener of this.listeners) listener();
+      }
+    });
+    this.current = { key, stream };
+    stream.start();
+  }
+
+  async stop(): Promise<void> {
+    const current = this.current;
+    this.current = null;
+    await current?.stream.stop();
+  }
+
+  onModuleDestroy(): Promise<void> {
+    return this.stop();
+  }
+
+  /** Registers a callback fired after each streamed order/balance event. Returns an unsubscribe function. */
+  onUpdate(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isHealthy(): boolean {
+    return this.current?.stream.isHealthy() ?? false;
+  }
+
+  getStatus(): BinanceUserDataStreamStatus | null {
+    return this.current?.stream.getStatus() ?? null;
+  }
+
+  drainOrderUpdates(): BinanceOrderSnapshot[] {
+    return this.current?.stream.drainOrderUpdates() ?? [];
+  }
+
+  seedBalances(balances: BinanceBalanceSnapshot[]): void {
+    this.current?.stream.seedBalances(balances);
+  }
+
+  getBalances(): BinanceBalanceSnapshot[] | null {
+    return this.current?.stream.getBalances() ?? null;
+  }
+}
@@ -0,0 +1,200 @@
+import type { AddressInfo } from "node:net";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type WebSocket, WebSocketServer } from "ws";
+
+import { FixedClock } from "../clock/clock";
+import { BinanceUserDataStream, type ListenKeyApi, mapExecutionReport } from "./binance-user-data-stream";
+
+type StandIn = {
+  url: string;
+  paths: string[];
+  sockets: WebSocket[];
+  nextSocket: () => Promise<WebSocket>;
+  close: () => Promise<void>;
+};
+
+/** Local stand-in for the Binance stream host: records the paths clients connect to and hands back server sockets. */
+async function startStandIn(): Promise<StandIn> {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  const paths: string[] = [];
+  const sockets: WebSocket[] = [];
+  const waiters: Array<(socket: WebSocket) => void> = [];
+  server.on("connection", (socket, request) => {
+    paths.push(request.url ?? "");
+    sockets.push(socket);
+    waiters.shift()?.(socket);
+  });
+  let consumed = 0;
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    paths,
+    sockets,
+    nextSocket: () => {
+      const index = consumed;
+      consumed += 1;
+      if (sockets[index]) return Promise.resolve(sockets[index]);
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+    close: async () => {
+      for (const socket of server.clients) socket.terminate();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  };
+}
+
+function fakeListenKeys(): ListenKeyApi & { created: number; keptAlive: string[]; closed: string[] } {
+  const api = {
+    created: 0,
+    keptAlive: [] as string[],
+    closed: [] as string[],
+    create: async () => {
+      api.created += 1;
+      return `key-${api.created}`;
+    },
+    keepAlive: async (listenKey: string) => {
+      api.keptAlive.push(listenKey);
+    },
+    close: async (listenKey: string) => {
+      api.closed.push(listenKey);
+    }
+  };
+  return api;
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  await vi.waitFor(() => {
+    if (!predicate()) throw new Error("condition not met yet");
+  });
+}
+
+describe("BinanceUserDataStream", () => {
+  let standIn: StandIn | null = null;
+  let stream: BinanceUserDataStream | null = null;
+
+  afterEach(async () => {
+    await stream?.stop();
+    await standIn?.close();
+    stream = null;
+    standIn = null;
+  });
+
+  it("buffers execution reports, keeps the listenKey alive and applies balance deltas once seeded", async () => {
+    standIn = await startStandIn();
+    const clock = new FixedClock(0);
+    const listenKeys = fakeListenKeys();
+    const onUpdate = vi.fn();
+    stream = new BinanceUserDataStream({ listenKeys, streamBaseUrl: standIn.url, clock, onUpdate });
+    stream.start();
+
+    const server = await standIn.nextSocket();
+    await waitFor(() => stream?.isHealthy() === true);
+    expect(standIn.paths).toEqual(["/ws/key-1"]);
+    expect(stream.getBalances()).toBeNull();
+
+    stream.seedBalances([
+      { asset: "USDC", free: 100, locked: 0, total: 100 },
+      { asset: "BTC", free: 0, locked: 0, total: 0 }
+    ]);
+    server.send(
+      JSON.stringify({
+        e: "executionReport",
+        s: "BTCUSDC",
+        c: "abot-1",
+        S: "BUY",
+        o: "MARKET",
+        q: "0.00100000",
+        p: "0.00000000",
+        X: "FILLED",
+        i: 42,
+        z: "0.00100000",
+        Z: "100.00000000",
+        O: 1_700_000_000_000,
+        T: 1_700_000_000_005
+      })
+    );
+    server.send(JSON.stringify({ e: "outboundAccountPosition", B: [{ a: "BTC", f: "0.00100000", l: "0.00000000" }] }));
+    await waitFor(() => onUpdate.mock.calls.length === 2);
+
+    expect(stream.drainOrderUpdates()).toEqual([
+      expect.objectContaining({ symbol: "BTCUSDC", orderId: "42", status: "FILLED", price: "100000", executedQty: "0.00100000" })
+    ]);
+    expect(stream.drainOrderUpdates()).toEqual([]);
+    expect(stream.getBalances()).toEqual(
+      expect.arrayContaining([
+        { asset: "USDC", free: 100, locked: 0, total: 100 },
+        { asset: "BTC", free: 0.001, locked: 0, total: 0.001 }
+      ])
+    );
+
+    clock.advance(30 * 60_000);
+    await waitFor(() => listenKeys.keptAlive.length === 1);
+    expect(listenKeys.keptAlive).toEqual(["key-1"]);
+
+    await stream.stop();
+    expect(listenKeys.closed).toEqual(["key-1"]);
+    expect(stream.isHealthy()).toBe(false);
+  });
+
+  it("drops cached balances on disconnect and reconnects with a fresh listenKey after backoff", async () => {
+    standIn = await startStandIn();
+    const clock = new FixedClock(0);
+    const listenKeys = fakeListenKeys();
+    stream = new BinanceUserDataStream({ listenKeys, streamBaseUrl: standIn.url, clock, reconnectBaseDelayMs: 1_000 });
+    stream.start();
+
+    const first = await standIn.nextSocket();
+    await waitFor(() => stream?.isHealthy() === true);
+    stream.seedBalances([{ asset: "USDC", free: 100, locked: 0, total: 100 }]);
+    expect(stream.getBalances()).not.toBeNull();
+
+    first.terminate();
+    await waitFor(() => stream?.getStatus().state === "RECONNECTING");
+    expect(stream.isHealthy()).toBe(false);
+    expect(stream.getBalances()).toBeNull();
+    expect(clock.pendingTimers()).toBe(1);
+
+    clock.advance(1_000);
+    await standIn.nextSocket();
+    await waitFor(() => stream?.isHealthy() === true);
+    expect(standIn.paths).toEqual(["/ws/key-1", "/ws/key-2"]);
+    // A reconnect needs a fresh REST snapshot before balances are served again.
+    expect(stream.getBalances()).toBeNull();
+  });
+});
+
+describe("mapExecutionReport", () => {
+  it("keeps the order's own client id on cancels and falls back to the limit price when nothing filled", () => {
+    expect(
+      mapExecutionReport({
+        e: "executionReport",
+        s: "ethusdc",
+        c: "cancel-req-1",
+        C: "abot-7",
+        S: "SELL",
+        o: "LIMIT",
+        q: "1.0",
+        p: "2500.5",
+        X: "CANCELED",
+        i: "7",
+        z: "0",
+        Z: "0",
+        T: 1_700_000_000_000
+      })
+    ).toEqual({
+      symbol: "ETHUSDC",
+      orderId: "7",
+      clientOrderId: "abot-7",
+      transactTime: 1_700_000_000_000,
+      price: "2500.5",
+      origQty: "1.0",
+      executedQty: "0",
+      cummulativeQuoteQty: "0",
+      status: "CANCELED",
+      type: "LIMIT",
+      side: "SELL"
+    });
+    expect(mapExecutionReport({ e: "executionReport", s: "ETHUSDC" })).toBeNull();
+  });
+});
@@ -0,0 +1,315 @@
+import WebSocket from "ws";
+
+import type { Clock, ClockTimer } from "../clock/clock";
+import type { BinanceBalanceSnapshot, BinanceOrderSnapshot } from "./binance-trading.service";
+
+/** REST side of a user-data stream: the listenKey lifecycle (`/api/v3/userDataStream`). */
+export type ListenKeyApi = {
+  create(): Promise<string>;
+  keepAlive(listenKey: string): Promise<void>;
+  close(listenKey: string): Promise<void>;
+};
+
+export type BinanceUserDataStreamOptions = {
+  listenKeys: ListenKeyApi;
+  /** Stream host, e.g. `wss://stream.binance.com:9443`; the socket connects to `<streamBaseUrl>/ws/<listenKey>`. */
+  streamBaseUrl: string;
+  clock: Clock;
+  /** Binance expires a listenKey after 60 minutes without a keepalive. */
+  keepAliveIntervalMs?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  /** Called after every applied order or balance event. */
+  onUpdate?: () => void;
+};
+
+export type BinanceUserDataStreamStatus = {
+  state: "STOPPED" | "CONNECTING" | "CONNECTED" | "RECONNECTING";
+  connectedSince: number | null;
+  lastEventAt: number | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+};
+
+const DEFAULT_KEEPALIVE_INTERVAL_MS = 30 * 60_000;
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1_000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 60_000;
+const MAX_PENDING_ORDER_UPDATES = 500;
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(typeof value === "string" ? value : "");
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+/**
+ * Maps an `executionReport` payload onto the same snapshot shape the REST order endpoints return.
+ * Market orders report `p = 0`, so the average fill price (`Z / z`) is preferred whenever something filled.
+ */
+export function mapExecutionReport(event: Record<string, unknown>): BinanceOrderSnapshot | null {
+  const symbol = asString(event.s);
+  const orderId = asString(event.i);
+  if (!symbol || !orderId) return null;
+
+  const status = asString(event.X);
+  const cumulativeQty = asNumber(event.z);
+  const cumulativeQuote = asNumber(event.Z);
+  const limitPrice = asNumber(event.p);
+  const avgPrice = cumulativeQty > 0 && cumulativeQuote > 0 ? cumulativeQuote / cumulativeQty : Number.NaN;
+  const price = Number.isFinite(avgPrice) ? avgPrice : limitPrice > 0 ? limitPrice : Number.NaN;
+  // Cancels carry the cancel request's id in `c`; the order's own client id moves to `C`.
+  const originalClientOrderId = asString(event.C);
+  const clientOrderId = status === "CANCELED" && originalClientOrderId ? originalClientOrderId : asString(event.c);
+  const orderCreatedAt = asNumber(event.O);
+  const transactedAt = asNumber(event.T);
+
+  return {
+    symbol: symbol.toUpperCase(),
+    orderId,
+    ...(clientOrderId ? { clientOrderId } : {}),
+    transactTime: Number.isFinite(orderCreatedAt) ? orderCreatedAt : Number.isFinite(transactedAt) ? transactedAt : undefined,
+    ...(Number.isFinite(price) ? { price: String(price) } : {}),
+    origQty: asString(event.q),
+    executedQty: asString(event.z),
+    cummulativeQuoteQty: asString(event.Z),
+    status,
+    type: asString(event.o),
+    side: asString(event.S)
+  };
+}
+
+/** Maps an `outboundAccountPosition` payload (only the assets that changed) onto balance snapshots. */
+export function mapAccountPosition(event: Record<string, unknown>): BinanceBalanceSnapshot[] {
+  const rows = Array.isArray(event.B) ? (event.B as Array<Record<string, unknown>>) : [];
+  const out: BinanceBalanceSnapshot[] = [];
+  for (const row of rows) {
+    const asset = asString(row.a)?.trim().toUpperCase();
+    const free = asNumber(row.f);
+    const locked = asNumber(row.l);
+    if (!asset || !Number.isFinite(free) || !Number.isFinite(locked)) continue;
+    out.push({ asset, free, locked, total: free + locked });
+  }
+  return out;
+}
+
+/**
+ * Binance spot user-data stream: owns the listenKey (create, 30-minute keepalive, close) and one WebSocket
+ * on `<streamBaseUrl>/ws/<listenKey>`, and turns `executionReport` / `outboundAccountPosition` events into
+ * order snapshots and balance updates.
+ *
+ * Order updates are buffered until the consumer drains them. Balances are only served once seeded from a REST
+ * snapshot, and the seed is dropped on every disconnect (events sent while we were away are lost), so a
+ * consumer that gets `null` from `getBalances()` or sees `isHealthy() === false` must fall back to polling.
+ */
+export class BinanceUserDataStream {
+  private readonly keepAliveIntervalMs: number;
+  private readonly reconnectBaseDelayMs: number;
+  private readonly reconnectMaxDelayMs: number;
+
+  private running = false;
+  private socket: WebSocket | null = null;
+  private listenKey: string | null = null;
+  private keepAliveTimer: ClockTimer | null = null;
+  private reconnectTimer: ClockTimer | null = null;
+  private generation = 0;
+
+  private state: BinanceUserDataStreamStatus["state"] = "STOPPED";
+  private connectedSince: number | null = null;
+  private lastEventAt: number | null = null;
+  private reconnectAttempts = 0;
+  private lastError: string | null = null;
+
+  private pendingOrders: BinanceOrderSnapshot[] = [];
+  private balances: Map<string, BinanceBalanceSnapshot> | null = null;
+
+  constructor(private readonly options: BinanceUserDataStreamOptions) {
+    this.keepAliveIntervalMs = options.keepAliveIntervalMs ?? DEFAULT_KEEPALIVE_INTERVAL_MS;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS;
+  }
+
+  /** Starts connecting in the background. Idempotent. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.connect();
+  }
+
+  /** Closes the socket and releases the listenKey (best-effort). */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.generation += 1;
+    this.reconnectTimer?.cancel();
+    this.reconnectTimer = null;
+    const listenKey = this.listenKey;
+    this.teardownConnection();
+    this.state = "STOPPED";
+    this.pendingOrders = [];
+    if (listenKey) {
+      await this.options.listenKeys.close(listenKey).catch(() => undefined);
+    }
+  }
+
+  isHealthy(): boolean {
+    return this.state === "CONNECTED";
+  }
+
+  getStatus(): BinanceUserDataStreamStatus {
+    return {
+      state: this.state,
+      connectedSince: this.connectedSince,
+      lastEventAt: this.lastEventAt,
+      reconnectAttempts: this.reconnectAttempts,
+      lastError: this.lastError
+    };
+  }
+
+  /** Order snapshots received since the previous drain, oldest first. */
+  drainOrderUpdates(): BinanceOrderSnapshot[] {
+    const drained = this.pendingOrders;
+    this.pendingOrders = [];
+    return drained;
+  }
+
+  /** Seeds the balance cache from a full REST snapshot taken while the stream is connected. */
+  seedBalances(balances: BinanceBalanceSnapshot[]): void {
+    if (!this.isHealthy()) return;
+    this.balances = new Map(balances.map((balance) => [balance.asset.trim().toUpperCase(), { ...balance }]));
+  }
+
+  /** Live balances (seed + streamed deltas), or null when they cannot be trusted. */
+  getBalances(): BinanceBalanceSnapshot[] | null {
+    if (!this.isHealthy() || !this.balances) return null;
+    return [...this.balances.values()].map((balance) => ({ ...balance }));
+  }
+
+  private async connect(): Promise<void> {
+    const generation = this.generation;
+    this.state = this.reconnectAttempts > 0 ? "RECONNECTING" : "CONNECTING";
+
+    let listenKey: string;
+    try {
+      listenKey = await this.options.listenKeys.create();
+    } catch (error) {
+      this.handleFailure(generation, error);
+      return;
+    }
+    if (generation !== this.generation || !this.running) {
+      await this.options.listenKeys.close(listenKey).catch(() => undefined);
+      return;
+    }
+    this.listenKey = listenKey;
+
+    const socket = new WebSocket(`${this.options.streamBaseUrl.replace(/\/+$/, "")}/ws/${listenKey}`);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      if (generation !== this.generation) return;
+      this.state = "CONNECTED";
+      this.connectedSince = this.options.clock.now();
+      this.reconnectAttempts = 0;
+      this.lastError = null;
+      this.keepAliveTimer = this.options.clock.setInterval(() => {
+        void this.keepAlive(generation, listenKey);
+      }, this.keepAliveIntervalMs);
+    });
+    socket.on("message", (data) => {
+      if (generation !== this.generation) return;
+      this.handleMessage(data.toString());
+    });
+    socket.on("error", (error) => {
+      if (generation !== this.generation) return;
+      this.lastError = error.message;
+    });
+    socket.on("close", () => {
+      this.handleFailure(generation, null);
+    });
+  }
+
+  private async keepAlive(generation: number, listenKey: string): Promise<void> {
+    try {
+      await this.options.listenKeys.keepAlive(listenKey);
+    } catch (error) {
+      // An expired or unknown key will never come back; start over with a fresh one.
+      this.handleFailure(generation, error);
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let event: Record<string, unknown>;
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (!parsed || typeof parsed !== "object") return;
+      event = parsed as Record<string, unknown>;
+    } catch {
+      return;
+    }
+    this.lastEventAt = this.options.clock.now();
+
+    if (event.e === "executionReport") {
+      const snapshot = mapExecutionReport(event);
+      if (!snapshot) return;
+      this.pendingOrders.push(snapshot);
+      if (this.pendingOrders.length > MAX_PENDING_ORDER_UPDATES) {
+        this.pendingOrders = this.pendingOrders.slice(-MAX_PENDING_ORDER_UPDATES);
+      }
+    } else if (event.e === "outboundAccountPosition") {
+      if (!this.balances) return;
+      for (const balance of mapAccountPosition(event)) {
+        this.balances.set(balance.asset, balance);
+      }
+    } else if (event.e === "listenKeyExpired") {
+      this.handleFailure(this.generation, new Error("listenKey expired"));
+      return;
+    } else {
+      return;
+    }
+    this.options.onUpdate?.();
+  }
+
+  private handleFailure(generation: number, error: unknown): void {
+    if (generation !== this.generation) return;
+    this.generation += 1;
+    if (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+    this.teardownConnection();
+    if (!this.running) {
+      this.state = "STOPPED";
+      return;
+    }
+
+    this.state = "RECONNECTING";
+    const delayMs = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * 2 ** Math.min(this.reconnectAttempts, 16));
+    this.reconnectAttempts += 1;
+    this.reconnectTimer?.cancel();
+    this.reconnectTimer = this.options.clock.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) void this.connect();
+    }, delayMs);
+  }
+
+  private teardownConnection(): void {
+    this.keepAliveTimer?.cancel();
+    this.keepAliveTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    this.listenKey = null;
+    this.connectedSince = null;
+    // Anything sent while we are disconnected is lost, so the cache must be re-seeded from REST.
+    this.balances = null;
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on("error", () => undefined);
+      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+        socket.terminate();
+      }
+    }
+  }
+}
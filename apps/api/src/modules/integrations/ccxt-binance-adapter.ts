@@ -1,5 +1,9 @@
 import ccxt from "ccxt";
 
+import { BinanceClient } from "./binance-client";
+import { type BinanceRateLimiter, type BinanceRequestSpec, getBinanceRateLimiter } from "./binance-rate-limiter";
+import { type BinanceTimeSync, getBinanceTimeSync, isTimestampOutOfWindowError } from "./binance-time-sync";
+
 export type CcxtBinanceEnv = "MAINNET" | "SPOT_TESTNET";
 
 export type CcxtBinanceAdapterOptions = {
@@ -8,6 +12,10 @@ export type CcxtBinanceAdapterOptions = {
   apiSecret: string;
   baseUrl: string;
   timeoutMs?: number;
+  /** Defaults to the process-wide limiter for the base URL's host (shared with BinanceClient). */
+  rateLimiter?: BinanceRateLimiter;
+  /** Defaults to the process-wide server clock offset for the base URL's host (shared with BinanceClient). */
+  timeSync?: BinanceTimeSync;
 };
 
 export type CcxtBinanceBalanceSnapshot = {
@@ -115,6 +123,64 @@ function mapCcxtStatusToBinance(status: unknown, rawStatus: unknown): string | u
   return status.toUpperCase();
 }
 
+/** Non-zero assets of a ccxt `fetchBalance` result. */
+export function mapCcxtBalances(raw: unknown): CcxtBinanceBalanceSnapshot[] {
+  const balance = asRecord(raw) ?? {};
+  const totals = (asRecord(balance.total) ?? {}) as Record<string, unknown>;
+  const free = (asRecord(balance.free) ?? {}) as Record<string, unknown>;
+  const used = (asRecord(balance.used) ?? {}) as Record<string, unknown>;
+
+  const out: CcxtBinanceBalanceSnapshot[] = [];
+  for (const asset of Object.keys(totals)) {
+    const total = asNumber(totals[asset]) ?? 0;
+    if (!Number.isFinite(total) || total <= 0) continue;
+    const f = asNumber(free[asset]) ?? 0;
+    const u = asNumber(used[asset]) ?? 0;
+    out.push({ asset, free: f, locked: u, total });
+  }
+  return out;
+}
+
+/** Maps a ccxt order onto the Binance-style snapshot; unified fields back up the raw `info` ones. */
+export function mapCcxtOrder(orderRaw: unknown, symbolIdHint?: string): CcxtBinanceOrderSnapshot {
+  const order = asRecord(orderRaw) ?? {};
+  const info = asRecord(order.info) ?? {};
+
+  const orderIdRaw = asNumberOrString(info.orderId) ?? asNumberOrString(order.id);
+  const orderId = orderIdRaw === null ? undefined : String(orderIdRaw);
+  const unifiedSymbol = asString(order.symbol);
+  const fallbackSymbol = symbolIdHint?.trim().toUpperCase();
+  const mappedSymbol = unifiedSymbol ? unifiedSymbol.replace("/", "").toUpperCase() : fallbackSymbol;
+  const avg = asNumber(order.average);
+  const cost = asNumber(order.cost);
+  const filled = asNumber(order.filled);
+  const amountOrig = asNumber(order.amount);
+  const timestamp =
+    typeof info.transactTime === "number"
+      ? info.transactTime
+      : typeof info.time === "number"
+        ? info.time
+        : typeof order.timestamp === "number"
+          ? order.timestamp
+          : typeof info.updateTime === "number"
+            ? info.updateTime
+            : undefined;
+
+  return {
+    symbol: mappedSymbol,
+    orderId,
+    clientOrderId: asString(info.clientOrderId) ?? asString(order.clientOrderId) ?? undefined,
+    transactTime: typeof timestamp === "number" ? timestamp : undefined,
+    price: avg !== null ? String(avg) : typeof order.price === "number" ? String(order.price) : asString(info.price) ?? undefined,
+    origQty: amountOrig !== null ? String(amountOrig) : asString(info.origQty) ?? undefined,
+    executedQty: filled !== null ? String(filled) : asString(info.executedQty) ?? undefined,
+    cummulativeQuoteQty: cost !== null ? String(cost) : asString(info.cummulativeQuoteQty) ?? undefined,
+    status: mapCcxtStatusToBinance(order.status, info.status),
+    type: (asString(info.type) ?? asString(order.type) ?? "").toUpperCase() || undefined,
+    side: (asString(info.side) ?? asString(order.side) ?? "").toUpperCase() || undefined
+  };
+}
+
 type CcxtExchangeMinimal = {
   loadMarkets: () => Promise<unknown>;
   fetchBalance: () => Promise<unknown>;
@@ -142,10 +208,18 @@ type BinanceLikeCcxtExchange = CcxtExchangeMinimal & {
   markets_by_id?: Record<string, unknown>;
   options?: Record<string, unknown>;
   close?: () => Promise<void> | void;
+  last_response_headers?: Record<string, unknown>;
 };
 
+function errorName(err: unknown): string {
+  return err instanceof Error ? err.name : "";
+}
+
 export class CcxtBinanceAdapter {
   private readonly exchange: BinanceLikeCcxtExchange;
+  private readonly rateLimiter: BinanceRateLimiter;
+  private readonly timeSync: BinanceTimeSync;
+  private readonly timeClient: BinanceClient;
   private marketsLoaded = false;
 
   constructor(private readonly options: CcxtBinanceAdapterOptions) {
@@ -160,7 +234,8 @@ export class CcxtBinanceAdapter {
       timeout,
       options: {
         defaultType: "spot",
-        adjustForTimeDifference: true,
+        // Signed-request timestamps use our shared BinanceTimeSync offset (see `limited`), not ccxt's own.
+        adjustForTimeDifference: false,
         warnOnFetchOpenOrdersWithoutSymbol: false
       }
     });
@@ -188,6 +263,49 @@ export class CcxtBinanceAdapter {
     }
 
     this.exchange = ex;
+    this.rateLimiter = options.rateLimiter ?? getBinanceRateLimiter(baseUrl);
+    this.timeSync = options.timeSync ?? getBinanceTimeSync(baseUrl);
+    this.timeClient = new BinanceClient({ baseUrl, timeoutMs: timeout, rateLimiter: this.rateLimiter, timeSync: this.timeSync });
+  }
+
+  /**
+   * Runs one exchange call through the shared weight budget. ccxt hides the HTTP response, so usage is read from
+   * `last_response_headers` and 429/418 are recognised by ccxt's RateLimitExceeded / DDoSProtection errors.
+   */
+  private async limited<T>(spec: BinanceRequestSpec, call: () => Promise<T>): Promise<T> {
+    await this.applyTimeOffset();
+    try {
+      return await this.scheduleCall(spec, call);
+    } catch (err) {
+      // -1021 (ccxt InvalidNonce): Binance rejected the timestamp before acting, so re-measure and retry once.
+      if (errorName(err) !== "InvalidNonce" && !isTimestampOutOfWindowError(err)) throw err;
+      await this.timeSync.sync(() => this.timeClient.time());
+      await this.applyTimeOffset();
+      return await this.scheduleCall(spec, call);
+    }
+  }
+
+  /** ccxt binance signs with `milliseconds() - options.timeDifference`. */
+  private async applyTimeOffset(): Promise<void> {
+    await this.timeSync.ensureSynced(() => this.timeClient.time());
+    if (this.exchange.options && typeof this.exchange.options === "object") {
+      this.exchange.options.timeDifference = -this.timeSync.getOffsetMs();
+    }
+  }
+
+  private async scheduleCall<T>(spec: BinanceRequestSpec, call: () => Promise<T>): Promise<T> {
+    return await this.rateLimiter.schedule(spec, async () => {
+      try {
+        const result = await call();
+        this.rateLimiter.observe(200, this.exchange.last_response_headers);
+        return result;
+      } catch (err) {
+        const name = errorName(err);
+        const status = name === "RateLimitExceeded" ? 429 : name === "DDoSProtection" ? 418 : 0;
+        this.rateLimiter.observe(status, this.exchange.last_response_headers);
+        throw err;
+      }
+    });
   }
 
   async close(): Promise<void> {
@@ -197,7 +315,7 @@ export class CcxtBinanceAdapter {
 
   private async ensureMarketsLoaded(): Promise<void> {
     if (this.marketsLoaded) return;
-    await this.exchange.loadMarkets();
+    await this.limited({ method: "GET", path: "/api/v3/exchangeInfo" }, () => this.exchange.loadMarkets());
     this.marketsLoaded = true;
   }
 
@@ -217,59 +335,7 @@ export class CcxtBinanceAdapter {
   }
 
   async getBalances(): Promise<CcxtBinanceBalanceSnapshot[]> {
-    const balance = asRecord(await this.exchange.fetchBalance()) ?? {};
-    const totals = (asRecord(balance.total) ?? {}) as Record<string, unknown>;
-    const free = (asRecord(balance.free) ?? {}) as Record<string, unknown>;
-    const used = (asRecord(balance.used) ?? {}) as Record<string, unknown>;
-
-    const out: CcxtBinanceBalanceSnapshot[] = [];
-    for (const asset of Object.keys(totals)) {
-      const total = asNumber(totals[asset]) ?? 0;
-      if (!Number.isFinite(total) || total <= 0) continue;
-      const f = asNumber(free[asset]) ?? 0;
-      const u = asNumber(used[asset]) ?? 0;
-      out.push({ asset, free: f, locked: u, total });
-    }
-    return out;
-  }
-
-  private mapCcxtOrder(orderRaw: unknown, symbolIdHint?: string): CcxtBinanceOrderSnapshot {
-    const order = asRecord(orderRaw) ?? {};
-    const info = asRecord(order.info) ?? {};
-
-    const orderIdRaw = asNumberOrString(info.orderId) ?? asNumberOrString(order.id);
-    const orderId = orderIdRaw === null ? undefined : String(orderIdRaw);
-    const unifiedSymbol = asString(order.symbol);
-    const fallbackSymbol = symbolIdHint?.trim().toUpperCase();
-    const mappedSymbol = unifiedSymbol ? unifiedSymbol.replace("/", "").toUpperCase() : fallbackSymbol;
-    const avg = asNumber(order.average);
-    const cost = asNumber(order.cost);
-    const filled = asNumber(order.filled);
-    const amountOrig = asNumber(order.amount);
-    const timestamp =
-      typeof info.transactTime === "number"
-        ? info.transactTime
-        : typeof info.time === "number"
-          ? info.time
-          : typeof order.timestamp === "number"
-            ? order.timestamp
-            : typeof info.updateTime === "number"
-              ? info.updateTime
-              : undefined;
-
-    return {
-      symbol: mappedSymbol,
-      orderId,
-      clientOrderId: asString(info.clientOrderId) ?? asString(order.clientOrderId) ?? undefined,
-      transactTime: typeof timestamp === "number" ? timestamp : undefined,
-      price: avg !== null ? String(avg) : typeof order.price === "number" ? String(order.price) : asString(info.price) ?? undefined,
-      origQty: amountOrig !== null ? String(amountOrig) : asString(info.origQty) ?? undefined,
-      executedQty: filled !== null ? String(filled) : asString(info.executedQty) ?? undefined,
-      cummulativeQuoteQty: cost !== null ? String(cost) : asString(info.cummulativeQuoteQty) ?? undefined,
-      status: mapCcxtStatusToBinance(order.status, info.status),
-      type: (asString(info.type) ?? asString(order.type) ?? "").toUpperCase() || undefined,
-      side: (asString(info.side) ?? asString(order.side) ?? "").toUpperCase() || undefined
-    };
+    return mapCcxtBalances(await this.limited({ method: "GET", path: "/api/v3/account" }, () => this.exchange.fetchBalance()));
   }
 
   async getOpenOrders(symbolId?: string): Promise<CcxtBinanceOrderSnapshot[]> {
@@ -280,23 +346,29 @@ export class CcxtBinanceAdapter {
     }
 
     const unifiedSymbol = await this.toUnifiedSymbol(id);
-    const raw = await this.exchange.fetchOpenOrders(unifiedSymbol);
+    const raw = await this.limited({ method: "GET", path: "/api/v3/openOrders", hasSymbol: true }, () =>
+      this.exchange.fetchOpenOrders(unifiedSymbol)
+    );
     const list = Array.isArray(raw) ? raw : [];
     return list
-      .map((item) => this.mapCcxtOrder(item, symbolId))
+      .map((item) => mapCcxtOrder(item, symbolId))
       .filter((item) => Boolean(item.orderId));
   }
 
   async getOrder(symbolId: string, orderId: string): Promise<CcxtBinanceOrderSnapshot> {
     const unifiedSymbol = await this.toUnifiedSymbol(symbolId);
-    const raw = await this.exchange.fetchOrder(orderId, unifiedSymbol);
-    return this.mapCcxtOrder(raw, symbolId);
+    const raw = await this.limited({ method: "GET", path: "/api/v3/order", hasSymbol: true }, () =>
+      this.exchange.fetchOrder(orderId, unifiedSymbol)
+    );
+    return mapCcxtOrder(raw, symbolId);
   }
 
   async cancelOrder(symbolId: string, orderId: string): Promise<CcxtBinanceOrderSnapshot> {
     const unifiedSymbol = await this.toUnifiedSymbol(symbolId);
-    const raw = await this.exchange.cancelOrder(orderId, unifiedSymbol);
-    return this.mapCcxtOrder(raw, symbolId);
+    const raw = await this.limited({ method: "DELETE", path: "/api/v3/order", hasSymbol: true }, () =>
+      this.exchange.cancelOrder(orderId, unifiedSymbol)
+    );
+    return mapCcxtOrder(raw, symbolId);
   }
 
   async placeSpotLimitOrder(params: {
@@ -319,12 +391,14 @@ export class CcxtBinanceAdapter {
     }
 
     const side = params.side.toLowerCase();
-    const raw = await this.exchange.createOrder(symbol, "limit", side, amount, price, {
-      timeInForce: params.timeInForce ?? "GTC",
-      ...(params.postOnly ? { postOnly: true } : {}),
-      ...(params.clientOrderId ? { newClientOrderId: params.clientOrderId } : {})
-    });
-    return this.mapCcxtOrder(raw, params.symbolId);
+    const raw = await this.limited({ method: "POST", path: "/api/v3/order", hasSymbol: true }, () =>
+      this.exchange.createOrder(symbol, "limit", side, amount, price, {
+        timeInForce: params.timeInForce ?? "GTC",
+        ...(params.postOnly ? { postOnly: true } : {}),
+        ...(params.clientOrderId ? { newClientOrderId: params.clientOrderId } : {})
+      })
+    );
+    return mapCcxtOrder(raw, params.symbolId);
   }
 
   async placeSpotMarketOrder(params: {
@@ -341,11 +415,13 @@ export class CcxtBinanceAdapter {
 
     const side = params.side.toLowerCase();
     const order = asRecord(
-      await this.exchange.createOrder(symbol, "market", side, amount, undefined, {
-        // Best-effort: Binance supports FULL to return fills; ccxt forwards unknown params.
-        newOrderRespType: "FULL",
-        ...(params.clientOrderId ? { newClientOrderId: params.clientOrderId } : {})
-      })
+      await this.limited({ method: "POST", path: "/api/v3/order", hasSymbol: true }, () =>
+        this.exchange.createOrder(symbol, "market", side, amount, undefined, {
+          // Best-effort: Binance supports FULL to return fills; ccxt forwards unknown params.
+          newOrderRespType: "FULL",
+          ...(params.clientOrderId ? { newClientOrderId: params.clientOrderId } : {})
+        })
+      )
     );
 
     const info = asRecord(order?.info) ?? {};
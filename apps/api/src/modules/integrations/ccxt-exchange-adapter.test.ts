@@ -0,0 +1,152 @@
+import ccxt from "ccxt";
+import { describe, expect, it, vi } from "vitest";
+
+import { buildBotClientOrderId, type BotClientOrderIdParams } from "../bot/bot-client-order-id";
+import { CcxtExchangeAdapter, type CcxtExchangeLike } from "./ccxt-exchange-adapter";
+
+const botIdParams: BotClientOrderIdParams = {
+  prefix: "ABOT",
+  purpose: "GRID",
+  side: "BUY",
+  exchange: "BINANCE",
+  nowMs: Date.parse("2026-03-01T00:00:00.000Z"),
+  random: "A1B2C3"
+};
+
+/** Two OKX-style spot markets (tick-size precision) plus a swap that must stay out of the spot universe. */
+function createFakeExchange(overrides: Partial<CcxtExchangeLike> = {}): CcxtExchangeLike {
+  return {
+    precisionMode: ccxt.TICK_SIZE,
+    loadMarkets: vi.fn(async () => ({
+      "BTC/USDT": {
+        symbol: "BTC/USDT",
+        base: "BTC",
+        quote: "USDT",
+        spot: true,
+        active: true,
+        precision: { amount: 0.00001, price: 0.1 },
+        limits: { amount: { min: 0.00001, max: 1000 }, price: { min: 0.1 }, cost: { min: 5 } }
+      },
+      "ETH/USDT": {
+        symbol: "ETH/USDT",
+        base: "ETH",
+        quote: "USDT",
+        spot: true,
+        active: false,
+        precision: { amount: 0.0001, price: 0.01 },
+        limits: {}
+      },
+      "BTC/USDT:USDT": { symbol: "BTC/USDT:USDT", base: "BTC", quote: "USDT", spot: false }
+    })),
+    fetchBalance: vi.fn(async () => ({ free: { usdt: 100 }, used: { usdt: 5 }, total: { usdt: 105 } })),
+    fetchOpenOrders: vi.fn(async () => []),
+    fetchOrder: vi.fn(async () => ({})),
+    cancelOrder: vi.fn(async () => ({})),
+    createOrder: vi.fn(async (symbol: string, type: string, side: string, amount: number) => ({
+      id: "okx-1",
+      symbol,
+      type,
+      side,
+      status: "closed",
+      amount,
+      filled: amount,
+      average: 60_000,
+      cost: amount * 60_000,
+      fee: { cost: 0.06, currency: "usdt" },
+      timestamp: 1_772_323_200_000
+    })),
+    fetchTicker: vi.fn(async () => ({ symbol: "BTC/USDT", last: 60_000.5 })),
+    fetchTickers: vi.fn(async () => ({
+      "BTC/USDT": { symbol: "BTC/USDT", last: 60_000, baseVolume: 10, percentage: -1.5 },
+      "DOGE/EUR": { symbol: "DOGE/EUR", last: 0.1, quoteVolume: 1_000 }
+    })),
+    fetchOHLCV: vi.fn(async () => [
+      [1_772_323_200_000, 100, 110, 90, 105, 12],
+      [1_772_326_800_000, 105, 115, 100, 112, 8]
+    ]),
+    parseTimeframe: (timeframe: string) => (timeframe === "1h" ? 3_600 : 60),
+    setSandboxMode: vi.fn(),
+    ...overrides
+  };
+}
+
+describe("CcxtExchangeAdapter", () => {
+  it("maps spot markets onto bot symbol ids with Binance-style filters", async () => {
+    const adapter = new CcxtExchangeAdapter({ id: "OKX", env: "MAINNET", exchange: createFakeExchange() });
+
+    const symbols = await adapter.getSymbols();
+    expect(symbols.map((s) => [s.symbol, s.status])).toEqual([
+      ["BTCUSDT", "TRADING"],
+      ["ETHUSDT", "BREAK"]
+    ]);
+    const [btc] = await adapter.getSymbols("btcusdt");
+    expect(btc.filters).toEqual([
+      { filterType: "PRICE_FILTER", minPrice: "0.1", maxPrice: "0", tickSize: "0.1" },
+      { filterType: "LOT_SIZE", minQty: "0.00001", maxQty: "1000", stepSize: "0.00001" },
+      { filterType: "MARKET_LOT_SIZE", minQty: "0.00001", maxQty: "1000", stepSize: "0.00001" },
+      { filterType: "NOTIONAL", minNotional: "5", applyMinToMarket: true }
+    ]);
+    expect(await adapter.getSymbols("SOLUSDT")).toEqual([]);
+  });
+
+  it("reads tickers and klines in the shapes the universe scan and kline cache expect", async () => {
+    const exchange = createFakeExchange();
+    const adapter = new CcxtExchangeAdapter({ id: "OKX", env: "MAINNET", exchange });
+
+    expect(await adapter.getTickerPrice("BTCUSDT")).toBe("60000.5");
+    // DOGE/EUR is not a loaded market; BTC/USDT only reports base volume.
+    expect(await adapter.getTickers24h()).toEqual([{ symbol: "BTCUSDT", lastPrice: "60000", quoteVolume: "600000", priceChangePercent: "-1.5" }]);
+
+    const bars = await adapter.getKlines("BTCUSDT", "1h", 2, 1_772_323_200_000);
+    expect(exchange.fetchOHLCV).toHaveBeenCalledWith("BTC/USDT", "1h", 1_772_323_200_000, 2);
+    expect(bars[1]).toEqual({
+      openTime: 1_772_326_800_000,
+      open: 105,
+      high: 115,
+      low: 100,
+      close: 112,
+      volume: 8,
+      closeTime: 1_772_330_399_999
+    });
+  });
+
+  it("places market orders with a synthesized fill and drops client ids the exchange would reject", async () => {
+    const exchange = createFakeExchange();
+    const adapter = new CcxtExchangeAdapter({ id: "OKX", env: "MAINNET", apiKey: "key", apiSecret: "secret", apiPassphrase: "pass", exchange });
+    const binanceId = buildBotClientOrderId({ ...botIdParams, exchange: "BINANCE" });
+
+    const order = await adapter.placeMarketOrder({ symbol: "BTCUSDT", side: "BUY", quantity: "0.001", clientOrderId: binanceId });
+    expect(exchange.createOrder).toHaveBeenLastCalledWith("BTC/USDT", "market", "buy", 0.001, undefined, {});
+    expect(order).toMatchObject({
+      symbol: "BTCUSDT",
+      orderId: "okx-1",
+      status: "FILLED",
+      fills: [{ price: "60000", qty: "0.001", commission: "0.06", commissionAsset: "USDT" }]
+    });
+
+    const okxId = buildBotClientOrderId({ ...botIdParams, exchange: "OKX" });
+    await adapter.placeMarketOrder({ symbol: "BTCUSDT", side: "SELL", quantity: "0.001", clientOrderId: okxId });
+    expect(exchange.createOrder).toHaveBeenLastCalledWith("BTC/USDT", "market", "sell", 0.001, undefined, { clientOrderId: okxId });
+  });
+
+  it("passes engine-built client ids through on Kraken", async () => {
+    const exchange = createFakeExchange();
+    const adapter = new CcxtExchangeAdapter({ id: "KRAKEN", env: "MAINNET", apiKey: "key", apiSecret: "secret", exchange });
+    const clientOrderId = buildBotClientOrderId({ ...botIdParams, prefix: "MYBOTPREFIX1", exchange: "KRAKEN" });
+
+    await adapter.placeMarketOrder({ symbol: "BTCUSDT", side: "BUY", quantity: "0.001", clientOrderId });
+    expect(exchange.createOrder).toHaveBeenLastCalledWith("BTC/USDT", "market", "buy", 0.001, undefined, { clientOrderId });
+  });
+
+  it("requires credentials for account calls and rejects Kraken testnet", async () => {
+    const adapter = new CcxtExchangeAdapter({ id: "OKX", env: "MAINNET", exchange: createFakeExchange() });
+    await expect(adapter.getBalances()).rejects.toThrow("Missing OKX API credentials.");
+
+    const sandbox = createFakeExchange();
+    new CcxtExchangeAdapter({ id: "OKX", env: "SPOT_TESTNET", exchange: sandbox });
+    expect(sandbox.setSandboxMode).toHaveBeenCalledWith(true);
+    expect(() => new CcxtExchangeAdapter({ id: "KRAKEN", env: "SPOT_TESTNET", exchange: createFakeExchange() })).toThrow(
+      /KRAKEN has no spot testnet/
+    );
+  });
+});
@@ -0,0 +1,377 @@
+import ccxt from "ccxt";
+
+import type { Kline } from "../market-data/kline-store";
+import { mapCcxtBalances, mapCcxtOrder } from "./ccxt-binance-adapter";
+import type {
+  ExchangeAdapter,
+  ExchangeBalanceSnapshot,
+  ExchangeId,
+  ExchangeLimitOrderParams,
+  ExchangeMarketOrderParams,
+  ExchangeMarketOrderResponse,
+  ExchangeOrderSnapshot,
+  ExchangeSymbolInfo,
+  ExchangeTicker24h
+} from "./exchange-adapter";
+
+export type CcxtExchangeId = Exclude<ExchangeId, "BINANCE">;
+
+/** The subset of a ccxt exchange instance the adapter uses; tests pass a fake. */
+export type CcxtExchangeLike = {
+  precisionMode?: number;
+  options?: Record<string, unknown>;
+  loadMarkets: () => Promise<Record<string, unknown>>;
+  fetchBalance: () => Promise<unknown>;
+  fetchOpenOrders: (symbol?: string) => Promise<unknown>;
+  fetchOrder: (id: string, symbol?: string) => Promise<unknown>;
+  cancelOrder: (id: string, symbol?: string) => Promise<unknown>;
+  createOrder: (
+    symbol: string,
+    type: string,
+    side: string,
+    amount: number,
+    price?: number,
+    params?: Record<string, unknown>
+  ) => Promise<unknown>;
+  fetchTicker: (symbol: string) => Promise<unknown>;
+  fetchTickers: () => Promise<unknown>;
+  fetchOHLCV: (symbol: string, timeframe: string, since?: number, limit?: number) => Promise<unknown>;
+  parseTimeframe: (timeframe: string) => number;
+  setSandboxMode?: (enabled: boolean) => void;
+  close?: () => Promise<void> | void;
+};
+
+export type CcxtExchangeAdapterOptions = {
+  id: CcxtExchangeId;
+  env: "MAINNET" | "SPOT_TESTNET";
+  apiKey?: string;
+  apiSecret?: string;
+  apiPassphrase?: string;
+  timeoutMs?: number;
+  /** Replaces the ccxt instance (tests). */
+  exchange?: CcxtExchangeLike;
+};
+
+const CCXT_IDS: Record<CcxtExchangeId, string> = { KRAKEN: "kraken", OKX: "okx" };
+
+export const CCXT_EXCHANGE_BASE_URLS: Record<CcxtExchangeId, string> = {
+  KRAKEN: "https://api.kraken.com",
+  OKX: "https://www.okx.com"
+};
+
+/**
+ * Client order ids each exchange accepts (Kraken: free text up to 18 characters, OKX: up to 32 alphanumerics).
+ * Ids that do not fit are left off the order; the engine still tracks it by exchange order id.
+ */
+const CLIENT_ORDER_ID_PATTERNS: Record<CcxtExchangeId, RegExp> = {
+  KRAKEN: /^[\x21-\x7e]{1,18}$/,
+  OKX: /^[A-Za-z0-9]{1,32}$/
+};
+
+const MARKETS_TTL_MS = 60 * 60_000;
+
+type CcxtMarket = {
+  id?: string;
+  symbol: string;
+  base: string;
+  quote: string;
+  active?: boolean;
+  spot?: boolean;
+  precision?: { amount?: number; price?: number };
+  limits?: { amount?: { min?: number; max?: number }; price?: { min?: number; max?: number }; cost?: { min?: number; max?: number } };
+};
+
+function asRecord(v: unknown): Record<string, unknown> {
+  return v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+}
+
+function asNumber(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim()) {
+    const n = Number.parseFloat(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+/** Decimal string without exponent notation, as Binance filters carry them. */
+function toDecimalString(value: number): string {
+  if (!Number.isFinite(value)) return "0";
+  return value.toFixed(12).replace(/\.?0+$/, "") || "0";
+}
+
+/** ccxt's unified order status in Binance's vocabulary; the raw `info` status differs per exchange. */
+function toBinanceStatus(status: unknown, filled: number | null): string | undefined {
+  if (status === "open") return filled && filled > 0 ? "PARTIALLY_FILLED" : "NEW";
+  if (status === "closed") return "FILLED";
+  if (status === "canceled") return "CANCELED";
+  if (status === "rejected") return "REJECTED";
+  if (status === "expired") return "EXPIRED";
+  return undefined;
+}
+
+export function toBotSymbolId(base: string, quote: string): string {
+  return `${base}${quote}`.trim().toUpperCase();
+}
+
+/**
+ * Spot exchanges other than Binance through ccxt's unified API. Symbols are exposed as base + quote ids
+ * (`BTC/USDT` → `BTCUSDT`) and market precision/limits become Binance-style filters, so the engine's order sizing
+ * and the universe scan run unchanged. Requests are paced by ccxt's own rate limiter.
+ */
+export class CcxtExchangeAdapter implements ExchangeAdapter {
+  readonly id: CcxtExchangeId;
+  readonly baseUrl: string;
+  private readonly exchange: CcxtExchangeLike;
+  private readonly hasCredentials: boolean;
+  private markets: { loadedAtMs: number; byId: Map<string, CcxtMarket> } | null = null;
+
+  constructor(options: CcxtExchangeAdapterOptions) {
+    this.id = options.id;
+    this.baseUrl = CCXT_EXCHANGE_BASE_URLS[options.id];
+    this.hasCredentials = Boolean(options.apiKey && options.apiSecret);
+
+    if (options.exchange) {
+      this.exchange = options.exchange;
+    } else {
+      const Ctor = (ccxt as unknown as Record<string, new (opts: Record<string, unknown>) => CcxtExchangeLike>)[CCXT_IDS[options.id]];
+      this.exchange = new Ctor({
+        apiKey: options.apiKey,
+        secret: options.apiSecret,
+        password: options.apiPassphrase,
+        enableRateLimit: true,
+        timeout: options.timeoutMs ?? 12_000,
+        options: { defaultType: "spot" }
+      });
+    }
+
+    if (options.env === "SPOT_TESTNET") {
+      if (!this.exchange.setSandboxMode || options.id === "KRAKEN") {
+        throw new Error(`${options.id} has no spot testnet; switch the environment to mainnet.`);
+      }
+      this.exchange.setSandboxMode(true);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.exchange.close?.();
+  }
+
+  private requireCredentials(): void {
+    if (!this.hasCredentials) {
+      throw new Error(`Missing ${this.id} API credentials.`);
+    }
+  }
+
+  private async loadMarkets(): Promise<Map<string, CcxtMarket>> {
+    if (this.markets && Date.now() - this.markets.loadedAtMs < MARKETS_TTL_MS) return this.markets.byId;
+    const raw = await this.exchange.loadMarkets();
+    const byId = new Map<string, CcxtMarket>();
+    for (const value of Object.values(raw)) {
+      const market = value as CcxtMarket;
+      if (!market || market.spot === false || !market.base || !market.quote) continue;
+      const id = toBotSymbolId(market.base, market.quote);
+      // Several venues list one pair twice (e.g. darkpool books); keep the first, active one.
+      if (!byId.has(id) || (byId.get(id)?.active === false && market.active !== false)) byId.set(id, market);
+    }
+    this.markets = { loadedAtMs: Date.now(), byId };
+    return byId;
+  }
+
+  private async toUnifiedSymbol(symbol: string): Promise<string> {
+    const id = symbol.trim().toUpperCase();
+    const market = (await this.loadMarkets()).get(id);
+    if (!market) throw new Error(`Unknown symbol (${this.id}): ${id}`);
+    return market.symbol;
+  }
+
+  private fromUnifiedSymbol(unified: string | undefined, fallback?: string): string | undefined {
+    if (!unified) return fallback;
+    const [base, quote] = unified.split(":")[0]?.split("/") ?? [];
+    return base && quote ? toBotSymbolId(base, quote) : fallback;
+  }
+
+  /** ccxt precision is a tick size in TICK_SIZE mode and a digit count otherwise. */
+  private toStepSize(precision: number | undefined): number | undefined {
+    if (precision === undefined || !Number.isFinite(precision)) return undefined;
+    return this.exchange.precisionMode === ccxt.TICK_SIZE ? precision : 10 ** -precision;
+  }
+
+  private toSymbolInfo(id: string, market: CcxtMarket): ExchangeSymbolInfo {
+    const filters: Array<Record<string, unknown>> = [];
+    const tickSize = this.toStepSize(market.precision?.price);
+    if (tickSize) {
+      filters.push({
+        filterType: "PRICE_FILTER",
+        minPrice: toDecimalString(market.limits?.price?.min ?? 0),
+        maxPrice: toDecimalString(market.limits?.price?.max ?? 0),
+        tickSize: toDecimalString(tickSize)
+      });
+    }
+    const stepSize = this.toStepSize(market.precision?.amount);
+    if (stepSize) {
+      const lotSize = {
+        minQty: toDecimalString(market.limits?.amount?.min ?? stepSize),
+        maxQty: toDecimalString(market.limits?.amount?.max ?? 0),
+        stepSize: toDecimalString(stepSize)
+      };
+      filters.push({ filterType: "LOT_SIZE", ...lotSize }, { filterType: "MARKET_LOT_SIZE", ...lotSize });
+    }
+    const minCost = market.limits?.cost?.min;
+    if (minCost && minCost > 0) {
+      filters.push({ filterType: "NOTIONAL", minNotional: toDecimalString(minCost), applyMinToMarket: true });
+    }
+    return {
+      symbol: id,
+      status: market.active === false ? "BREAK" : "TRADING",
+      baseAsset: market.base.toUpperCase(),
+      quoteAsset: market.quote.toUpperCase(),
+      permissions: ["SPOT"],
+      filters
+    };
+  }
+
+  async getSymbols(symbol?: string): Promise<ExchangeSymbolInfo[]> {
+    const markets = await this.loadMarkets();
+    if (symbol) {
+      const id = symbol.trim().toUpperCase();
+      const market = markets.get(id);
+      return market ? [this.toSymbolInfo(id, market)] : [];
+    }
+    return [...markets.entries()].map(([id, market]) => this.toSymbolInfo(id, market));
+  }
+
+  async getTickerPrice(symbol: string): Promise<string> {
+    const ticker = asRecord(await this.exchange.fetchTicker(await this.toUnifiedSymbol(symbol)));
+    const last = asNumber(ticker.last) ?? asNumber(ticker.close);
+    if (last === null) throw new Error(`${this.id} ticker price missing for ${symbol.trim().toUpperCase()}`);
+    return toDecimalString(last);
+  }
+
+  async getTickers24h(): Promise<ExchangeTicker24h[]> {
+    await this.loadMarkets();
+    const tickers = asRecord(await this.exchange.fetchTickers());
+    const out: ExchangeTicker24h[] = [];
+    for (const value of Object.values(tickers)) {
+      const ticker = asRecord(value);
+      const symbol = this.fromUnifiedSymbol(typeof ticker.symbol === "string" ? ticker.symbol : undefined);
+      const last = asNumber(ticker.last) ?? asNumber(ticker.close);
+      if (!symbol || !this.markets?.byId.has(symbol) || last === null) continue;
+      // Some venues only report base volume; value it at the last price.
+      const quoteVolume = asNumber(ticker.quoteVolume) ?? (asNumber(ticker.baseVolume) ?? 0) * last;
+      out.push({
+        symbol,
+        lastPrice: toDecimalString(last),
+        quoteVolume: toDecimalString(quoteVolume),
+        priceChangePercent: toDecimalString(asNumber(ticker.percentage) ?? 0)
+      });
+    }
+    return out;
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number, startTime?: number): Promise<Kline[]> {
+    const intervalMs = this.exchange.parseTimeframe(interval) * 1000;
+    const raw = await this.exchange.fetchOHLCV(await this.toUnifiedSymbol(symbol), interval, startTime, limit);
+    return (Array.isArray(raw) ? raw : [])
+      .map((row): Kline | null => {
+        if (!Array.isArray(row) || row.length < 6) return null;
+        const [openTime, open, high, low, close, volume] = row.map((value) => asNumber(value) ?? Number.NaN);
+        const bar = { openTime, open, high, low, close, volume, closeTime: openTime + intervalMs - 1 };
+        return Object.values(bar).every((value) => Number.isFinite(value)) ? bar : null;
+      })
+      .filter((bar): bar is Kline => bar !== null);
+  }
+
+  async getBalances(): Promise<ExchangeBalanceSnapshot[]> {
+    this.requireCredentials();
+    return mapCcxtBalances(await this.exchange.fetchBalance()).map((balance) => ({ ...balance, asset: balance.asset.toUpperCase() }));
+  }
+
+  private mapOrder(raw: unknown, symbolHint?: string): ExchangeOrderSnapshot {
+    const order = mapCcxtOrder(raw, symbolHint);
+    const { symbol: unified, status } = asRecord(raw);
+    return {
+      ...order,
+      symbol: this.fromUnifiedSymbol(typeof unified === "string" ? unified : undefined, order.symbol),
+      status: toBinanceStatus(status, asNumber(order.executedQty))
+    };
+  }
+
+  async getOpenOrders(symbol?: string): Promise<ExchangeOrderSnapshot[]> {
+    this.requireCredentials();
+    const unified = symbol?.trim() ? await this.toUnifiedSymbol(symbol) : undefined;
+    const raw = await this.exchange.fetchOpenOrders(unified);
+    return (Array.isArray(raw) ? raw : []).map((order) => this.mapOrder(order, symbol)).filter((order) => Boolean(order.orderId));
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot> {
+    this.requireCredentials();
+    return this.mapOrder(await this.exchange.fetchOrder(orderId, await this.toUnifiedSymbol(symbol)), symbol);
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot> {
+    this.requireCredentials();
+    return this.mapOrder(await this.exchange.cancelOrder(orderId, await this.toUnifiedSymbol(symbol)), symbol);
+  }
+
+  private clientOrderIdParams(clientOrderId: string | undefined): Record<string, unknown> {
+    return clientOrderId && CLIENT_ORDER_ID_PATTERNS[this.id].test(clientOrderId) ? { clientOrderId } : {};
+  }
+
+  async placeMarketOrder(params: ExchangeMarketOrderParams): Promise<ExchangeMarketOrderResponse> {
+    this.requireCredentials();
+    const amount = Number.parseFloat(params.quantity);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Invalid quantity: ${params.quantity}`);
+    }
+    const raw = await this.exchange.createOrder(
+      await this.toUnifiedSymbol(params.symbol),
+      "market",
+      params.side.toLowerCase(),
+      amount,
+      undefined,
+      this.clientOrderIdParams(params.clientOrderId)
+    );
+    const order = this.mapOrder(raw, params.symbol);
+    const fee = asRecord(asRecord(raw).fee);
+    const feeCost = asNumber(fee.cost);
+    const filled = asNumber(order.executedQty);
+    return {
+      ...order,
+      symbol: params.symbol.trim().toUpperCase(),
+      type: order.type ?? "MARKET",
+      side: order.side ?? params.side,
+      // ccxt reports the order-level average and fee; expose them as one fill like Binance's FULL response.
+      ...(order.price && filled && filled > 0
+        ? {
+            fills: [
+              {
+                price: order.price,
+                qty: order.executedQty,
+                ...(feeCost !== null ? { commission: toDecimalString(feeCost) } : {}),
+                ...(typeof fee.currency === "string" ? { commissionAsset: fee.currency.toUpperCase() } : {})
+              }
+            ]
+          }
+        : {})
+    };
+  }
+
+  async placeLimitOrder(params: ExchangeLimitOrderParams): Promise<ExchangeOrderSnapshot> {
+    this.requireCredentials();
+    const amount = Number.parseFloat(params.quantity);
+    const price = Number.parseFloat(params.price);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Invalid quantity: ${params.quantity}`);
+    }
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`Invalid price: ${params.price}`);
+    }
+    const raw = await this.exchange.createOrder(await this.toUnifiedSymbol(params.symbol), "limit", params.side.toLowerCase(), amount, price, {
+      timeInForce: params.timeInForce ?? "GTC",
+      ...(params.postOnly ? { postOnly: true } : {}),
+      ...this.clientOrderIdParams(params.clientOrderId)
+    });
+    return this.mapOrder(raw, params.symbol);
+  }
+}
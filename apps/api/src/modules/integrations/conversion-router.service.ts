@@ -1,11 +1,10 @@
-import { Injectable } from "@nestjs/common";
+import { Inject, Injectable } from "@nestjs/common";
 
 import { ConfigService } from "../config/config.service";
 import { resolveRouteBridgeAssets } from "../config/asset-routing";
 import { getPairPolicyBlockReason } from "../policy/trading-policy";
-import { BinanceMarketDataService } from "./binance-market-data.service";
 import type { BinanceMarketOrderResponse } from "./binance-trading.service";
-import { BinanceTradingService } from "./binance-trading.service";
+import { EXCHANGE_MARKET_DATA, EXCHANGE_TRADING, type ExchangeMarketData, type ExchangeTrading } from "./exchange-adapter";
 
 export type ConversionLeg = {
   symbol: string;
@@ -50,8 +49,8 @@ const DEFAULT_CONVERSION_FEE_BUFFER = 1.002;
 export class ConversionRouterService {
   constructor(
     private readonly configService: ConfigService,
-    private readonly marketData: BinanceMarketDataService,
-    private readonly trading: BinanceTradingService
+    @Inject(EXCHANGE_MARKET_DATA) private readonly marketData: ExchangeMarketData,
+    @Inject(EXCHANGE_TRADING) private readonly trading: ExchangeTrading
   ) {}
 
   async convertFromSourceToTarget(params: {
@@ -195,7 +194,7 @@ export class ConversionRouterService {
     }
   }
 
-  private async getRulesSafe(symbol: string): Promise<Awaited<ReturnType<BinanceMarketDataService["getSymbolRules"]>> | null> {
+  private async getRulesSafe(symbol: string): Promise<Awaited<ReturnType<ExchangeMarketData["getSymbolRules"]>> | null> {
     try {
       return await this.marketData.getSymbolRules(symbol);
     } catch {
@@ -0,0 +1,52 @@
+import type { AppConfig } from "@autobot/shared";
+
+import { resolveBinanceBaseUrl } from "./binance-base-url";
+import { BinanceExchangeAdapter } from "./binance-exchange-adapter";
+import type { BinanceRequestPriority } from "./binance-rate-limiter";
+import { CCXT_EXCHANGE_BASE_URLS, CcxtExchangeAdapter } from "./ccxt-exchange-adapter";
+import type { ExchangeAdapter, ExchangeId } from "./exchange-adapter";
+
+export function resolveExchangeId(config: AppConfig | null): ExchangeId {
+  return config?.advanced.exchange ?? "BINANCE";
+}
+
+/** REST host of the configured exchange; the Binance overrides (environment, base URL) only apply to Binance. */
+export function resolveExchangeBaseUrl(config: AppConfig | null): string {
+  const id = resolveExchangeId(config);
+  return id === "BINANCE" ? resolveBinanceBaseUrl(config) : CCXT_EXCHANGE_BASE_URLS[id];
+}
+
+/** Cache key for an adapter built from `config`: changes whenever the exchange, environment, host or key does. */
+export function resolveExchangeAdapterKey(config: AppConfig | null, withCredentials: boolean): string {
+  const apiKey = withCredentials ? (config?.basic.binance.apiKey ?? "") : "";
+  return `${resolveExchangeId(config)}|${config?.advanced.binanceEnvironment ?? "MAINNET"}|${resolveExchangeBaseUrl(config)}|${apiKey}`;
+}
+
+export function createExchangeAdapter(
+  config: AppConfig | null,
+  options: { withCredentials?: boolean; timeoutMs?: number; priority?: BinanceRequestPriority } = {}
+): ExchangeAdapter {
+  const id = resolveExchangeId(config);
+  const env = config?.advanced.binanceEnvironment ?? "MAINNET";
+  const credentials = options.withCredentials ? config?.basic.binance : undefined;
+  const timeoutMs = options.timeoutMs ?? 12_000;
+
+  if (id === "BINANCE") {
+    return new BinanceExchangeAdapter({
+      env,
+      baseUrl: resolveBinanceBaseUrl(config),
+      apiKey: credentials?.apiKey,
+      apiSecret: credentials?.apiSecret,
+      timeoutMs,
+      priority: options.priority
+    });
+  }
+  return new CcxtExchangeAdapter({
+    id,
+    env,
+    apiKey: credentials?.apiKey,
+    apiSecret: credentials?.apiSecret,
+    apiPassphrase: credentials?.apiPassphrase,
+    timeoutMs
+  });
+}
@@ -0,0 +1,213 @@
+import type { ExchangeId } from "@autobot/shared";
+
+import type { Kline } from "../market-data/kline-store";
+import type {
+  BinanceFuturesFundingSnapshot,
+  BinanceFuturesMarginType,
+  BinanceFuturesOrderSnapshot,
+  BinanceFuturesPositionSnapshot,
+  BinanceFuturesSymbolRules
+} from "./binance-futures-adapter";
+import type { BinanceSymbolRules, MarketQtyValidation } from "./binance-market-data.service";
+import type { BinanceTimeSyncStatus } from "./binance-time-sync";
+import type { BinanceOrderListSnapshot } from "./binance-trading.service";
+import type { BinanceUserDataStreamStatus } from "./binance-user-data-stream";
+
+export type { ExchangeId };
+
+export type ExchangeBalanceSnapshot = {
+  asset: string;
+  free: number;
+  locked: number;
+  total: number;
+};
+
+/** Order state in Binance's vocabulary (NEW / PARTIALLY_FILLED / FILLED / CANCELED ...), whatever the exchange. */
+export type ExchangeOrderSnapshot = {
+  symbol?: string;
+  orderId?: string;
+  clientOrderId?: string;
+  transactTime?: number;
+  price?: string;
+  origQty?: string;
+  executedQty?: string;
+  cummulativeQuoteQty?: string;
+  status?: string;
+  type?: string;
+  side?: string;
+};
+
+export type ExchangeMarketOrderResponse = {
+  symbol?: string;
+  /** Numeric on Binance; other exchanges may use ids beyond Number.MAX_SAFE_INTEGER, which stay strings. */
+  orderId?: number | string;
+  clientOrderId?: string;
+  transactTime?: number;
+  price?: string;
+  origQty?: string;
+  executedQty?: string;
+  cummulativeQuoteQty?: string;
+  status?: string;
+  type?: string;
+  side?: string;
+  fills?: Array<{
+    price?: string;
+    qty?: string;
+    commission?: string;
+    commissionAsset?: string;
+  }>;
+};
+
+/**
+ * One spot market. `symbol` is the bot's symbol id (base + quote, e.g. `BTCUSDT`) on every exchange; `filters` use
+ * Binance's filter shapes (PRICE_FILTER, LOT_SIZE, MARKET_LOT_SIZE, NOTIONAL) so order sizing has one code path.
+ */
+export type ExchangeSymbolInfo = {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  permissions?: string[];
+  filters: Array<Record<string, unknown>>;
+};
+
+export type ExchangeTicker24h = {
+  symbol: string;
+  lastPrice: string;
+  quoteVolume: string;
+  priceChangePercent: string;
+};
+
+export type ExchangeMarketOrderParams = {
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: string;
+  clientOrderId?: string;
+};
+
+export type ExchangeLimitOrderParams = {
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: string;
+  price: string;
+  timeInForce?: "GTC" | "IOC" | "FOK";
+  postOnly?: boolean;
+  clientOrderId?: string;
+};
+
+/**
+ * The spot operations the bot needs from an exchange: balances, orders, symbol rules, tickers and klines.
+ * Public calls work without credentials; account and order calls throw when the adapter has none.
+ */
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  /** REST host; also keys the kline cache directory. */
+  readonly baseUrl: string;
+
+  getBalances(): Promise<ExchangeBalanceSnapshot[]>;
+  getOpenOrders(symbol?: string): Promise<ExchangeOrderSnapshot[]>;
+  getOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot>;
+  cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot>;
+  placeMarketOrder(params: ExchangeMarketOrderParams): Promise<ExchangeMarketOrderResponse>;
+  placeLimitOrder(params: ExchangeLimitOrderParams): Promise<ExchangeOrderSnapshot>;
+
+  /** Every spot market, or just `symbol`'s (empty when the exchange does not list it). */
+  getSymbols(symbol?: string): Promise<ExchangeSymbolInfo[]>;
+  getTickerPrice(symbol: string): Promise<string>;
+  getTickers24h(): Promise<ExchangeTicker24h[]>;
+  /** Oldest first; `startTime` fetches from that open time onwards. */
+  getKlines(symbol: string, interval: string, limit: number, startTime?: number): Promise<Kline[]>;
+
+  close(): Promise<void>;
+}
+
+/** Injection token for the optional `ExchangeAccountStream` that pushes order and balance updates between ticks. */
+export const EXCHANGE_ACCOUNT_STREAM = Symbol("EXCHANGE_ACCOUNT_STREAM");
+
+/** Injection token for the `ExchangeTrading` the engine and universe scan trade through. */
+export const EXCHANGE_TRADING = Symbol("EXCHANGE_TRADING");
+
+/** Injection token for the engine's `ExchangeMarketData`. */
+export const EXCHANGE_MARKET_DATA = Symbol("EXCHANGE_MARKET_DATA");
+
+/** Cached symbol rules and prices plus order-size normalization, for whichever exchange is configured. */
+export interface ExchangeMarketData {
+  getSymbolRules(symbol: string): Promise<BinanceSymbolRules>;
+  getTickerPrice(symbol: string): Promise<string>;
+  normalizeLimitPrice(
+    symbol: string,
+    desiredPrice: number,
+    side: "BUY" | "SELL"
+  ): Promise<{ ok: true; normalizedPrice: string } | { ok: false; reason: string; minPrice?: string; maxPrice?: string; tickSize?: string }>;
+  validateLimitOrderQty(symbol: string, desiredQty: number, limitPrice: string): Promise<MarketQtyValidation>;
+  validateMarketOrderQty(symbol: string, desiredQty: number): Promise<MarketQtyValidation>;
+}
+
+/**
+ * Account and order operations against the configured exchange. Order lists (OCO, stop-limit) and USD-M futures are
+ * Binance features: check `supportsOrderLists()` / `supportsFutures()` before calling them.
+ */
+export interface ExchangeTrading {
+  getBaseUrl(): string;
+  /** Offset between the local clock and the exchange's, as measured for signed requests. */
+  getClockSyncStatus(): BinanceTimeSyncStatus;
+  getBalances(): Promise<ExchangeBalanceSnapshot[]>;
+  placeSpotMarketOrder(params: ExchangeMarketOrderParams): Promise<ExchangeMarketOrderResponse>;
+  placeSpotLimitOrder(params: ExchangeLimitOrderParams): Promise<ExchangeOrderSnapshot>;
+  getOpenOrders(symbol?: string): Promise<ExchangeOrderSnapshot[]>;
+  getOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot>;
+  cancelOrder(symbol: string, orderId: string): Promise<ExchangeOrderSnapshot>;
+
+  supportsOrderLists(): boolean;
+  placeOcoSell(params: {
+    symbol: string;
+    quantity: string;
+    takeProfitPrice: string;
+    stopPrice: string;
+    stopLimitPrice: string;
+    listClientOrderId?: string;
+    takeProfitClientOrderId?: string;
+    stopClientOrderId?: string;
+  }): Promise<BinanceOrderListSnapshot>;
+  placeStopLossLimitOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    stopPrice: string;
+    price: string;
+    clientOrderId?: string;
+  }): Promise<ExchangeOrderSnapshot>;
+  cancelOrderList(symbol: string, orderListId: string): Promise<BinanceOrderListSnapshot>;
+  getOpenOrderLists(): Promise<BinanceOrderListSnapshot[]>;
+
+  supportsFutures(): boolean;
+  getFuturesPositions(symbol?: string): Promise<BinanceFuturesPositionSnapshot[]>;
+  getFuturesOrders(symbol: string, limit?: number): Promise<BinanceFuturesOrderSnapshot[]>;
+  getFuturesSymbolRules(symbol: string): Promise<BinanceFuturesSymbolRules | null>;
+  getFuturesFundingRate(symbol: string): Promise<BinanceFuturesFundingSnapshot>;
+  normalizeFuturesMarketQuantity(symbol: string, qty: number, price: number): Promise<string | null>;
+  prepareFuturesSymbol(params: { symbol: string; leverage: number; marginType: BinanceFuturesMarginType }): Promise<void>;
+  placeFuturesMarketOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    reduceOnly?: boolean;
+    clientOrderId?: string;
+  }): Promise<BinanceFuturesOrderSnapshot>;
+}
+
+/**
+ * Live account updates pushed by the exchange (Binance's user-data stream). `ensureStarted()` is a no-op, and
+ * `isHealthy()` stays false, on exchanges without one; the engine then polls orders and balances over REST.
+ */
+export interface ExchangeAccountStream {
+  ensureStarted(): void;
+  stop(): Promise<void>;
+  /** Registers a callback fired after each streamed order/balance event. Returns an unsubscribe function. */
+  onUpdate(listener: () => void): () => void;
+  isHealthy(): boolean;
+  getStatus(): BinanceUserDataStreamStatus | null;
+  drainOrderUpdates(): ExchangeOrderSnapshot[];
+  seedBalances(balances: ExchangeBalanceSnapshot[]): void;
+  getBalances(): ExchangeBalanceSnapshot[] | null;
+}
@@ -4,13 +4,33 @@ import { ConfigModule } from "../config/config.module";
 import { BinanceMarketDataService } from "./binance-market-data.service";
 import { BinanceStatusService } from "./binance-status.service";
 import { BinanceTradingService } from "./binance-trading.service";
+import { BinanceUserDataStreamService } from "./binance-user-data-stream.service";
 import { ConversionRouterService } from "./conversion-router.service";
+import { EXCHANGE_ACCOUNT_STREAM, EXCHANGE_MARKET_DATA, EXCHANGE_TRADING } from "./exchange-adapter";
 import { IntegrationsController } from "./integrations.controller";
 
 @Module({
   imports: [ConfigModule],
   controllers: [IntegrationsController],
-  providers: [BinanceStatusService, BinanceMarketDataService, BinanceTradingService, ConversionRouterService],
-  exports: [BinanceStatusService, BinanceMarketDataService, BinanceTradingService, ConversionRouterService]
+  providers: [
+    BinanceStatusService,
+    BinanceMarketDataService,
+    BinanceTradingService,
+    BinanceUserDataStreamService,
+    ConversionRouterService,
+    { provide: EXCHANGE_MARKET_DATA, useExisting: BinanceMarketDataService },
+    { provide: EXCHANGE_TRADING, useExisting: BinanceTradingService },
+    { provide: EXCHANGE_ACCOUNT_STREAM, useExisting: BinanceUserDataStreamService }
+  ],
+  exports: [
+    BinanceStatusService,
+    BinanceMarketDataService,
+    BinanceTradingService,
+    BinanceUserDataStreamService,
+    ConversionRouterService,
+    EXCHANGE_ACCOUNT_STREAM,
+    EXCHANGE_MARKET_DATA,
+    EXCHANGE_TRADING
+  ]
 })
 export class IntegrationsModule {}
@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type WebSocket, WebSocketServer } from "ws";
+
+import { FixedClock } from "../clock/clock";
+import type { ConfigService } from "../config/config.service";
+import { KlineCacheService } from "./kline-cache.service";
+
+const HOUR_MS = 3_600_000;
+
+function row(openTime: number, close: number): Array<number | string> {
+  return [openTime, String(close), String(close * 1.01), String(close * 0.99), String(close), "10", openTime + HOUR_MS - 1];
+}
+
+/** Fake `GET /api/v3/klines` over a continuous hourly series, honouring `limit` and `startTime`. */
+function installKlinesFetch(clock: FixedClock): { calls: URL[] } {
+  const calls: URL[] = [];
+  vi.stubGlobal("fetch", async (input: string | URL) => {
+    const url = new URL(String(input));
+    calls.push(url);
+    const limit = Number(url.searchParams.get("limit"));
+    const startTime = url.searchParams.get("startTime");
+    const currentOpen = Math.floor(clock.now() / HOUR_MS) * HOUR_MS;
+    const all = Array.from({ length: 500 }, (_, i) => currentOpen - (499 - i) * HOUR_MS);
+    const opens = startTime ? all.filter((openTime) => openTime >= Number(startTime)).slice(0, limit) : all.slice(-limit);
+    return new Response(JSON.stringify(opens.map((openTime) => row(openTime, 100 + (openTime / HOUR_MS) % 17))), { status: 200 });
+  });
+  return { calls };
+}
+
+describe("KlineCacheService", () => {
+  let dataDir: string;
+  const previousDataDir = process.env.DATA_DIR;
+  const previousStreamBase = process.env.BINANCE_STREAM_BASE_URL;
+  const config = { load: () => null } as unknown as ConfigService;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-klines-"));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (previousDataDir === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = previousDataDir;
+    if (previousStreamBase === undefined) delete process.env.BINANCE_STREAM_BASE_URL;
+    else process.env.BINANCE_STREAM_BASE_URL = previousStreamBase;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("fetches a cold series once, then only the missing bars, and survives a restart from disk", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T10:30:00.000Z"));
+    const { calls } = installKlinesFetch(clock);
+    const cache = new KlineCacheService(config, clock, { streaming: false });
+
+    const cold = await cache.getSeries("btcusdc", "1h", 120);
+    expect(cold.source).toBe("rest-full");
+    expect(cold.bars).toHaveLength(120);
+    expect(cold.indicators.rsi14).not.toBeNull();
+    expect(calls[0].searchParams.get("limit")).toBe("120");
+    expect(calls[0].searchParams.has("startTime")).toBe(false);
+
+    clock.advance(2 * HOUR_MS);
+    const warm = await cache.getSeries("BTCUSDC", "1h", 120);
+    expect(warm.source).toBe("rest-incremental");
+    expect(calls[1].searchParams.get("limit")).toBe("3");
+    expect(Number(calls[1].searchParams.get("startTime"))).toBe(cold.bars[cold.bars.length - 1].openTime);
+    expect(warm.bars).toHaveLength(122);
+    expect(warm.bars[warm.bars.length - 1].openTime).toBe(Date.parse("2026-03-01T12:00:00.000Z"));
+
+    cache.flush();
+    expect(fs.existsSync(path.join(dataDir, "klines", "api.binance.com", "1h", "BTCUSDC.json"))).toBe(true);
+
+    const restarted = new KlineCacheService(config, clock, { streaming: false });
+    const reloaded = await restarted.getSeries("BTCUSDC", "1h", 120);
+    expect(reloaded.source).toBe("rest-incremental");
+    expect(calls[2].searchParams.get("limit")).toBe("1");
+    expect(reloaded.indicators).toEqual(warm.indicators);
+  });
+
+  it("serves watched series from the kline stream without REST once caught up", async () => {
+    const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+    const subscriptions: unknown[] = [];
+    const connected = new Promise<WebSocket>((resolve) => {
+      server.on("connection", (socket) => {
+        socket.on("message", (data) => subscriptions.push(JSON.parse(data.toString())));
+        resolve(socket);
+      });
+    });
+    process.env.BINANCE_STREAM_BASE_URL = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const clock = new FixedClock(Date.parse("2026-03-01T10:30:00.000Z"));
+    const { calls } = installKlinesFetch(clock);
+    const cache = new KlineCacheService(config, clock);
+    try {
+      await cache.getSeries("ETHUSDC", "1h", 60);
+      cache.watch(["ETHUSDC"], "1h");
+      const socket = await connected;
+      await vi.waitFor(() => expect(subscriptions).toEqual([expect.objectContaining({ method: "SUBSCRIBE", params: ["ethusdc@kline_1h"] })]));
+
+      const openTime = Date.parse("2026-03-01T10:00:00.000Z");
+      socket.send(
+        JSON.stringify({
+          e: "kline",
+          s: "ETHUSDC",
+          k: { t: openTime, T: openTime + HOUR_MS - 1, s: "ETHUSDC", i: "1h", o: "100", c: "250", h: "260", l: "99", v: "5", x: false }
+        })
+      );
+      await vi.waitFor(async () => {
+        const series = await cache.getSeries("ETHUSDC", "1h", 60);
+        expect(series.source).toBe("stream");
+        expect(series.bars[series.bars.length - 1].close).toBe(250);
+      });
+      expect(calls).toHaveLength(1);
+    } finally {
+      cache.onModuleDestroy();
+      for (const client of server.clients) client.terminate();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
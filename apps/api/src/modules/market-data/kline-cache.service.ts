@@ -0,0 +1,199 @@
+import path from "node:path";
+
+import { Inject, Injectable, OnModuleDestroy, Optional } from "@nestjs/common";
+
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
+import { ConfigService } from "../config/config.service";
+import { resolveBinanceStreamBaseUrl } from "../integrations/binance-base-url";
+import type { ExchangeAdapter } from "../integrations/exchange-adapter";
+import { createExchangeAdapter, resolveExchangeAdapterKey } from "../integrations/exchange-adapter-factory";
+import { type Kline, KlineStore, intervalToMs } from "./kline-store";
+import { BinanceKlineStream } from "./kline-stream";
+import { type IndicatorSnapshot, RollingIndicators } from "./rolling-indicators";
+
+export const KLINE_CACHE_OPTIONS = Symbol("KLINE_CACHE_OPTIONS");
+
+export type KlineCacheOptions = {
+  /** Keep watched series current over kline WebSocket streams (off for replays, which run on simulated time). */
+  streaming?: boolean;
+  /** Bars kept per symbol and interval. */
+  maxBars?: number;
+};
+
+export type KlineSeries = {
+  symbol: string;
+  interval: string;
+  /** Oldest first; the last bar may still be forming. */
+  bars: Kline[];
+  indicators: IndicatorSnapshot;
+  /** Where this read got its newest bars from. */
+  source: "stream" | "rest-incremental" | "rest-full";
+};
+
+const DEFAULT_MAX_BARS = 240;
+// Binance serves at most 1000 bars per klines request.
+const MAX_FETCH_BARS = 1000;
+
+/**
+ * Kline cache per symbol and interval, persisted under `DATA_DIR/klines/<host>/`, with rolling indicators.
+ *
+ * A read costs nothing when a kline stream has kept the series current since its last REST sync, a small
+ * `startTime` fetch of just the missing bars when the cache is behind, and a full fetch only for a cold series.
+ */
+@Injectable()
+export class KlineCacheService implements OnModuleDestroy {
+  private readonly dataDir = process.env.DATA_DIR ?? path.resolve(process.cwd(), "../../data");
+  private readonly streaming: boolean;
+  private readonly maxBars: number;
+
+  private env: { key: string; store: KlineStore; adapter: ExchangeAdapter } | null = null;
+  private readonly indicators = new Map<string, RollingIndicators>();
+  private readonly reseed = new Set<string>();
+  private readonly restSyncedAt = new Map<string, number>();
+  private stream: { streamBaseUrl: string; stream: BinanceKlineStream } | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock(),
+    @Optional() @Inject(KLINE_CACHE_OPTIONS) options: KlineCacheOptions = {}
+  ) {
+    this.streaming = options.streaming ?? true;
+    this.maxBars = Math.max(50, options.maxBars ?? DEFAULT_MAX_BARS);
+  }
+
+  async getSeries(symbol: string, interval: string, minBars: number): Promise<KlineSeries> {
+    const env = this.getEnv();
+    const normalized = symbol.trim().toUpperCase();
+    const key = `${interval}|${normalized}`;
+    const nowMs = this.clock.now();
+    const intervalMs = intervalToMs(interval);
+    const wanted = Math.max(1, Math.min(minBars, this.maxBars));
+
+    let bars = env.store.get(normalized, interval);
+    const last = bars[bars.length - 1];
+    const currentOpenTime = Math.floor(nowMs / intervalMs) * intervalMs;
+    const liveSince = this.stream?.stream.liveSince(normalized, interval) ?? null;
+    const restSyncedAt = this.restSyncedAt.get(key);
+    const missingBars = last ? Math.floor((nowMs - last.openTime) / intervalMs) + 1 : Number.POSITIVE_INFINITY;
+
+    let source: KlineSeries["source"];
+    if (
+      last &&
+      bars.length >= wanted &&
+      last.openTime >= currentOpenTime &&
+      liveSince !== null &&
+      restSyncedAt !== undefined &&
+      liveSince <= restSyncedAt
+    ) {
+      source = "stream";
+    } else if (last && bars.length >= wanted && missingBars <= MAX_FETCH_BARS) {
+      // Refetch from the newest cached bar: it may have been cached while still forming.
+      bars = this.mergeFetched(env, normalized, interval, await env.adapter.getKlines(normalized, interval, missingBars, last.openTime), nowMs);
+      this.restSyncedAt.set(key, nowMs);
+      source = "rest-incremental";
+    } else {
+      bars = this.mergeFetched(env, normalized, interval, await env.adapter.getKlines(normalized, interval, wanted), nowMs);
+      this.restSyncedAt.set(key, nowMs);
+      source = "rest-full";
+    }
+
+    return { symbol: normalized, interval, bars, indicators: this.readIndicators(key, bars, nowMs), source };
+  }
+
+  /** Keeps these series current over kline streams until the next call replaces the list (Binance only). */
+  watch(symbols: string[], interval: string): void {
+    if (!this.streaming) return;
+    const { adapter } = this.getEnv();
+    if (adapter.id !== "BINANCE") return;
+    const streamBaseUrl = resolveBinanceStreamBaseUrl(adapter.baseUrl);
+    if (this.stream?.streamBaseUrl !== streamBaseUrl) {
+      this.stream?.stream.stop();
+      this.stream = {
+        streamBaseUrl,
+        stream: new BinanceKlineStream({
+          streamBaseUrl,
+          clock: this.clock,
+          onKline: (streamSymbol, streamInterval, bar) => this.applyStreamedBar(streamSymbol, streamInterval, bar)
+        })
+      };
+    }
+    this.stream.stream.watch(symbols.map((symbol) => ({ symbol, interval })));
+  }
+
+  /** Persists every series that changed since the last flush. */
+  flush(): void {
+    this.env?.store.flush();
+  }
+
+  onModuleDestroy(): void {
+    this.stream?.stream.stop();
+    this.stream = null;
+    this.flush();
+  }
+
+  private getEnv(): { key: string; store: KlineStore; adapter: ExchangeAdapter } {
+    const config = this.configService.load();
+    const key = resolveExchangeAdapterKey(config, false);
+    if (this.env?.key === key) return this.env;
+
+    this.env?.store.flush();
+    void this.env?.adapter.close().catch(() => undefined);
+    const adapter = createExchangeAdapter(config, { priority: "LOW" });
+    const baseUrl = adapter.baseUrl;
+    this.indicators.clear();
+    this.reseed.clear();
+    this.restSyncedAt.clear();
+    let host: string;
+    try {
+      host = new URL(baseUrl).host;
+    } catch {
+      host = baseUrl;
+    }
+    this.env = {
+      key,
+      store: new KlineStore(path.join(this.dataDir, "klines", host.replace(/[^a-z0-9.-]/gi, "_")), this.maxBars),
+      adapter
+    };
+    return this.env;
+  }
+
+  private mergeFetched(
+    env: { store: KlineStore },
+    symbol: string,
+    interval: string,
+    fetched: Kline[],
+    nowMs: number
+  ): Kline[] {
+    const result = env.store.merge(symbol, interval, fetched, nowMs);
+    if (!result.contiguous || result.rewroteClosedBar) this.reseed.add(`${interval}|${symbol}`);
+    return result.bars;
+  }
+
+  private applyStreamedBar(symbol: string, interval: string, bar: Kline): void {
+    const store = this.env?.store;
+    if (!store) return;
+    const bars = store.get(symbol, interval);
+    const last = bars[bars.length - 1];
+    // Only extend series we already hold; a gap (missed bars) is left for the next REST catch-up.
+    if (!last || bar.openTime > last.openTime + intervalToMs(interval)) return;
+    const result = store.merge(symbol, interval, [bar], this.clock.now());
+    if (result.rewroteClosedBar) this.reseed.add(`${interval}|${symbol}`);
+  }
+
+  private readIndicators(key: string, bars: Kline[], nowMs: number): IndicatorSnapshot {
+    let indicators = this.indicators.get(key);
+    if (!indicators || this.reseed.has(key)) {
+      indicators = new RollingIndicators();
+      this.indicators.set(key, indicators);
+      this.reseed.delete(key);
+    }
+    for (const bar of bars) {
+      if (bar.closeTime >= nowMs) break;
+      const consumed = indicators.lastOpenTime;
+      if (consumed !== null && bar.openTime <= consumed) continue;
+      indicators.push(bar);
+    }
+    const last = bars[bars.length - 1];
+    return indicators.snapshot(last && last.closeTime >= nowMs ? last : undefined);
+  }
+}
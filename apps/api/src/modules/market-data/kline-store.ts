@@ -0,0 +1,173 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { z } from "zod";
+
+export const KLINE_STORE_VERSION = 1 as const;
+
+export type Kline = {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+};
+
+// Bars are stored as compact tuples: [openTime, open, high, low, close, volume, closeTime].
+const KlineTupleSchema = z.tuple([z.number(), z.number(), z.number(), z.number(), z.number(), z.number(), z.number()]);
+
+const KlineSeriesFileSchema = z.object({
+  version: z.literal(KLINE_STORE_VERSION),
+  symbol: z.string().min(1),
+  interval: z.string().min(1),
+  bars: z.array(KlineTupleSchema)
+});
+
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)([mhd])$/.exec(interval.trim());
+  if (!match) {
+    throw new Error(`Unsupported kline interval: ${interval}`);
+  }
+  const n = Number.parseInt(match[1], 10);
+  const unitMs = match[2] === "m" ? 60_000 : match[2] === "h" ? 3_600_000 : 86_400_000;
+  return n * unitMs;
+}
+
+function num(value: unknown): number {
+  const n = typeof value === "number" ? value : typeof value === "string" ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+/** Parses one row of `GET /api/v3/klines` (`[openTime, open, high, low, close, volume, closeTime, ...]`). */
+export function parseKlineRow(row: unknown): Kline | null {
+  if (!Array.isArray(row) || row.length < 7) return null;
+  const bar: Kline = {
+    openTime: num(row[0]),
+    open: num(row[1]),
+    high: num(row[2]),
+    low: num(row[3]),
+    close: num(row[4]),
+    volume: num(row[5]),
+    closeTime: num(row[6])
+  };
+  return Object.values(bar).every((value) => Number.isFinite(value)) ? bar : null;
+}
+
+function atomicWriteFile(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, data, { encoding: "utf-8" });
+  fs.renameSync(tmpPath, filePath);
+}
+
+export type KlineMergeResult = {
+  bars: Kline[];
+  /** False when the incoming bars do not connect to the cached ones (a gap) and the series was replaced. */
+  contiguous: boolean;
+  /** True when a bar that was already cached as closed got different values. */
+  rewroteClosedBar: boolean;
+};
+
+/**
+ * On-disk kline cache, one JSON file per symbol and interval under `<dir>/<interval>/<SYMBOL>.json`.
+ * Series are loaded lazily, capped at `maxBars` and only rewritten by `flush()` when they changed.
+ */
+export class KlineStore {
+  private readonly series = new Map<string, Kline[]>();
+  private readonly dirty = new Set<string>();
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBars: number
+  ) {}
+
+  private key(symbol: string, interval: string): string {
+    return `${interval}|${symbol.trim().toUpperCase()}`;
+  }
+
+  private filePath(symbol: string, interval: string): string {
+    return path.join(this.dir, interval, `${symbol.trim().toUpperCase()}.json`);
+  }
+
+  get(symbol: string, interval: string): Kline[] {
+    const key = this.key(symbol, interval);
+    const cached = this.series.get(key);
+    if (cached) return cached;
+
+    let bars: Kline[] = [];
+    const filePath = this.filePath(symbol, interval);
+    if (fs.existsSync(filePath)) {
+      try {
+        const parsed = KlineSeriesFileSchema.parse(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+        bars = parsed.bars.map(([openTime, open, high, low, close, volume, closeTime]) => ({
+          openTime,
+          open,
+          high,
+          low,
+          close,
+          volume,
+          closeTime
+        }));
+      } catch {
+        // A corrupt cache file only costs one full refetch.
+      }
+    }
+    this.series.set(key, bars);
+    return bars;
+  }
+
+  /**
+   * Merges fetched or streamed bars into the cached series (newer values win per `openTime`).
+   * Bars that do not connect to the cache replace it, so a series never contains holes.
+   */
+  merge(symbol: string, interval: string, incoming: Kline[], nowMs: number): KlineMergeResult {
+    const key = this.key(symbol, interval);
+    const existing = this.get(symbol, interval);
+    const sorted = [...incoming].sort((a, b) => a.openTime - b.openTime);
+    if (sorted.length === 0) return { bars: existing, contiguous: true, rewroteClosedBar: false };
+
+    const intervalMs = intervalToMs(interval);
+    const last = existing[existing.length - 1];
+    const contiguous = !last || sorted[0].openTime <= last.openTime + intervalMs;
+    let rewroteClosedBar = false;
+
+    const byOpenTime = new Map<number, Kline>(contiguous ? existing.map((bar) => [bar.openTime, bar] as const) : []);
+    for (const bar of sorted) {
+      const known = byOpenTime.get(bar.openTime);
+      if (
+        known &&
+        known.closeTime < nowMs &&
+        (known.close !== bar.close || known.high !== bar.high || known.low !== bar.low)
+      ) {
+        rewroteClosedBar = true;
+      }
+      byOpenTime.set(bar.openTime, bar);
+    }
+
+    const bars = [...byOpenTime.values()].sort((a, b) => a.openTime - b.openTime).slice(-this.maxBars);
+    this.series.set(key, bars);
+    this.dirty.add(key);
+    return { bars, contiguous: contiguous || existing.length === 0, rewroteClosedBar };
+  }
+
+  /** Writes every series changed since the last flush. */
+  flush(): void {
+    for (const key of this.dirty) {
+      const [interval, symbol] = key.split("|");
+      const bars = this.series.get(key) ?? [];
+      const filePath = this.filePath(symbol, interval);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      atomicWriteFile(
+        filePath,
+        JSON.stringify({
+          version: KLINE_STORE_VERSION,
+          symbol,
+          interval,
+          bars: bars.map((bar) => [bar.openTime, bar.open, bar.high, bar.low, bar.close, bar.volume, bar.closeTime])
+        })
+      );
+    }
+    this.dirty.clear();
+  }
+}
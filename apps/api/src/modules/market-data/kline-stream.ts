@@ -0,0 +1,184 @@
+import WebSocket from "ws";
+
+import type { Clock, ClockTimer } from "../clock/clock";
+import type { Kline } from "./kline-store";
+
+export type BinanceKlineStreamOptions = {
+  /** Stream host, e.g. `wss://stream.binance.com:9443`; the socket connects to `<streamBaseUrl>/ws`. */
+  streamBaseUrl: string;
+  clock: Clock;
+  onKline: (symbol: string, interval: string, bar: Kline) => void;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+};
+
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1_000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 60_000;
+// Binance caps a single connection at 1024 streams; stay well below it.
+const MAX_STREAMS = 400;
+
+function streamName(symbol: string, interval: string): string {
+  return `${symbol.trim().toLowerCase()}@kline_${interval}`;
+}
+
+function num(value: unknown): number {
+  const n = typeof value === "number" ? value : typeof value === "string" ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+/** Maps a `kline` stream event onto a bar (the forming bar until `k.x` flips to true). */
+export function mapKlineEvent(event: Record<string, unknown>): { symbol: string; interval: string; bar: Kline } | null {
+  const k = event.k && typeof event.k === "object" ? (event.k as Record<string, unknown>) : null;
+  if (event.e !== "kline" || !k || typeof k.s !== "string" || typeof k.i !== "string") return null;
+  const bar: Kline = {
+    openTime: num(k.t),
+    open: num(k.o),
+    high: num(k.h),
+    low: num(k.l),
+    close: num(k.c),
+    volume: num(k.v),
+    closeTime: num(k.T)
+  };
+  if (!Object.values(bar).every((value) => Number.isFinite(value))) return null;
+  return { symbol: k.s.toUpperCase(), interval: k.i, bar };
+}
+
+/**
+ * One WebSocket carrying `<symbol>@kline_<interval>` streams, (un)subscribed with SUBSCRIBE / UNSUBSCRIBE
+ * messages as the watch list changes. Reconnects with exponential backoff and resubscribes everything.
+ *
+ * `liveSince(symbol, interval)` tells consumers since when a stream has been delivering without interruption,
+ * so anything cached before that moment still needs a REST catch-up.
+ */
+export class BinanceKlineStream {
+  private readonly reconnectBaseDelayMs: number;
+  private readonly reconnectMaxDelayMs: number;
+
+  private running = false;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ClockTimer | null = null;
+  private reconnectAttempts = 0;
+  private generation = 0;
+  private nextRequestId = 1;
+  private connected = false;
+
+  private readonly wanted = new Set<string>();
+  private readonly subscribedAt = new Map<string, number>();
+
+  constructor(private readonly options: BinanceKlineStreamOptions) {
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS;
+  }
+
+  /** Replaces the watch list; connects on first use. */
+  watch(pairs: Array<{ symbol: string; interval: string }>): void {
+    const next = new Set(pairs.map((pair) => streamName(pair.symbol, pair.interval)).slice(0, MAX_STREAMS));
+    const added = [...next].filter((name) => !this.wanted.has(name));
+    const removed = [...this.wanted].filter((name) => !next.has(name));
+    for (const name of removed) {
+      this.wanted.delete(name);
+      this.subscribedAt.delete(name);
+    }
+    for (const name of added) this.wanted.add(name);
+
+    if (!this.running) {
+      if (this.wanted.size === 0) return;
+      this.running = true;
+      this.connect();
+      return;
+    }
+    if (this.connected) {
+      this.send("UNSUBSCRIBE", removed);
+      this.send("SUBSCRIBE", added);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    this.generation += 1;
+    this.reconnectTimer?.cancel();
+    this.reconnectTimer = null;
+    this.teardown();
+  }
+
+  isHealthy(): boolean {
+    return this.connected;
+  }
+
+  liveSince(symbol: string, interval: string): number | null {
+    if (!this.connected) return null;
+    return this.subscribedAt.get(streamName(symbol, interval)) ?? null;
+  }
+
+  private connect(): void {
+    const generation = this.generation;
+    const socket = new WebSocket(`${this.options.streamBaseUrl.replace(/\/+$/, "")}/ws`);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      if (generation !== this.generation) return;
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.send("SUBSCRIBE", [...this.wanted]);
+    });
+    socket.on("message", (data) => {
+      if (generation !== this.generation) return;
+      this.handleMessage(data.toString());
+    });
+    socket.on("error", () => undefined);
+    socket.on("close", () => {
+      this.handleFailure(generation);
+    });
+  }
+
+  private send(method: "SUBSCRIBE" | "UNSUBSCRIBE", params: string[]): void {
+    if (params.length === 0 || !this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ method, params, id: this.nextRequestId++ }));
+    if (method === "SUBSCRIBE") {
+      // Events can only start after the request is sent, so this is a safe lower bound for "live since".
+      const now = this.options.clock.now();
+      for (const name of params) this.subscribedAt.set(name, now);
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (!parsed || typeof parsed !== "object") return;
+    const mapped = mapKlineEvent(parsed as Record<string, unknown>);
+    if (!mapped) return;
+    this.options.onKline(mapped.symbol, mapped.interval, mapped.bar);
+  }
+
+  private handleFailure(generation: number): void {
+    if (generation !== this.generation) return;
+    this.generation += 1;
+    this.teardown();
+    if (!this.running) return;
+
+    const delayMs = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * 2 ** Math.min(this.reconnectAttempts, 16));
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = this.options.clock.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) this.connect();
+    }, delayMs);
+  }
+
+  private teardown(): void {
+    this.connected = false;
+    this.subscribedAt.clear();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on("error", () => undefined);
+      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+        socket.terminate();
+      }
+    }
+  }
+}
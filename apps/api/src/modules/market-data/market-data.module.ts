@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+
+import { ConfigModule } from "../config/config.module";
+import { KlineCacheService } from "./kline-cache.service";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [KlineCacheService],
+  exports: [KlineCacheService]
+})
+export class MarketDataModule {}
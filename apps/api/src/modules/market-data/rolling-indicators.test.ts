@@ -0,0 +1,61 @@
+import { computeEmaTrendSpreadPct } from "@autobot/shared";
+import { describe, expect, it } from "vitest";
+
+import type { Kline } from "./kline-store";
+import { RollingIndicators, computeAdx, computeAtrPct, computeRsi } from "./rolling-indicators";
+
+function syntheticBars(count: number): Kline[] {
+  const bars: Kline[] = [];
+  let close = 100;
+  for (let i = 0; i < count; i += 1) {
+    const open = close;
+    close = open * (1 + Math.sin(i / 5) * 0.01 + (i % 7 === 0 ? -0.004 : 0.002));
+    bars.push({
+      openTime: i * 3_600_000,
+      open,
+      high: Math.max(open, close) * 1.003,
+      low: Math.min(open, close) * 0.996,
+      close,
+      volume: 1_000 + i,
+      closeTime: (i + 1) * 3_600_000 - 1
+    });
+  }
+  return bars;
+}
+
+describe("RollingIndicators", () => {
+  it("matches the full-series indicators after every pushed bar", () => {
+    const bars = syntheticBars(90);
+    const rolling = new RollingIndicators();
+
+    for (let i = 0; i < bars.length; i += 1) {
+      rolling.push(bars[i]);
+      const seen = bars.slice(0, i + 1);
+      const highs = seen.map((bar) => bar.high);
+      const lows = seen.map((bar) => bar.low);
+      const closes = seen.map((bar) => bar.close);
+      const snapshot = rolling.snapshot();
+
+      const expectClose = (actual: number | null, expected: number | null) => {
+        if (expected === null) expect(actual).toBeNull();
+        else expect(actual).toBeCloseTo(expected, 9);
+      };
+      expectClose(snapshot.rsi14, computeRsi(closes, 14));
+      expectClose(snapshot.atrPct14, computeAtrPct(highs, lows, closes, 14));
+      expectClose(snapshot.adx14, computeAdx(highs, lows, closes, 14));
+      expectClose(snapshot.emaTrendSpreadPct, computeEmaTrendSpreadPct(closes, 12, 26));
+    }
+  });
+
+  it("folds a forming bar into the snapshot without consuming it", () => {
+    const bars = syntheticBars(60);
+    const rolling = new RollingIndicators();
+    for (const bar of bars.slice(0, 59)) rolling.push(bar);
+
+    const before = rolling.snapshot();
+    const withForming = rolling.snapshot(bars[59]);
+    expect(withForming.rsi14).toBeCloseTo(computeRsi(bars.map((bar) => bar.close), 14) ?? Number.NaN, 9);
+    expect(rolling.snapshot()).toEqual(before);
+    expect(rolling.lastOpenTime).toBe(bars[58].openTime);
+  });
+});
@@ -0,0 +1,287 @@
+import type { Kline } from "./kline-store";
+
+export type IndicatorSnapshot = {
+  rsi14: number | null;
+  adx14: number | null;
+  atrPct14: number | null;
+  emaTrendSpreadPct: number | null;
+};
+
+export function computeRsi(closes: number[], period = 14): number | null {
+  if (closes.length < period + 1) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i += 1) {
+    const diff = closes[i] - closes[i - 1];
+    if (diff >= 0) gain += diff;
+    else loss -= diff;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+
+  for (let i = period + 1; i < closes.length; i += 1) {
+    const diff = closes[i] - closes[i - 1];
+    const g = diff > 0 ? diff : 0;
+    const l = diff < 0 ? -diff : 0;
+    avgGain = (avgGain * (period - 1) + g) / period;
+    avgLoss = (avgLoss * (period - 1) + l) / period;
+  }
+
+  if (avgLoss === 0) return 100;
+  const rs = avgGain / avgLoss;
+  return 100 - 100 / (1 + rs);
+}
+
+export function computeAtrPct(highs: number[], lows: number[], closes: number[], period = 14): number | null {
+  if (closes.length < period + 1) return null;
+  let atr: number | null = null;
+  for (let i = 1; i < closes.length; i += 1) {
+    const tr = Math.max(
+      highs[i] - lows[i],
+      Math.abs(highs[i] - closes[i - 1]),
+      Math.abs(lows[i] - closes[i - 1])
+    );
+    if (i <= period) {
+      atr = (atr ?? 0) + tr;
+      if (i === period) atr = (atr ?? 0) / period;
+      continue;
+    }
+    atr = ((atr ?? 0) * (period - 1) + tr) / period;
+  }
+  const lastClose = closes[closes.length - 1];
+  if (!atr || lastClose <= 0) return null;
+  return (atr / lastClose) * 100;
+}
+
+export function computeAdx(highs: number[], lows: number[], closes: number[], period = 14): number | null {
+  if (closes.length < period * 2 + 2) return null;
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  const trArr: number[] = [];
+  for (let i = 1; i < closes.length; i += 1) {
+    const upMove = highs[i] - highs[i - 1];
+    const downMove = lows[i - 1] - lows[i];
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    const tr = Math.max(
+      highs[i] - lows[i],
+      Math.abs(highs[i] - closes[i - 1]),
+      Math.abs(lows[i] - closes[i - 1])
+    );
+    trArr.push(tr);
+  }
+
+  const smooth = (values: number[]): number[] => {
+    const out: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < values.length; i += 1) {
+      sum += values[i];
+      if (i === period - 1) {
+        out.push(sum);
+        continue;
+      }
+      if (i >= period) {
+        sum = out[out.length - 1] - out[out.length - 1] / period + values[i];
+        out.push(sum);
+      }
+    }
+    return out;
+  };
+
+  const trSmooth = smooth(trArr);
+  const plusSmooth = smooth(plusDM);
+  const minusSmooth = smooth(minusDM);
+  const len = Math.min(trSmooth.length, plusSmooth.length, minusSmooth.length);
+  if (len === 0) return null;
+
+  const dx: number[] = [];
+  for (let i = 0; i < len; i += 1) {
+    const tr = trSmooth[i];
+    if (tr === 0) continue;
+    const plusDI = (100 * plusSmooth[i]) / tr;
+    const minusDI = (100 * minusSmooth[i]) / tr;
+    const denom = plusDI + minusDI;
+    if (denom === 0) continue;
+    dx.push((100 * Math.abs(plusDI - minusDI)) / denom);
+  }
+  if (dx.length < period) return null;
+
+  // Wilder smoothing for ADX
+  let adx = dx.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < dx.length; i += 1) {
+    adx = ((adx * (period - 1)) + dx[i]) / period;
+  }
+  return adx;
+}
+
+/** Wilder-smoothed average seeded with the simple mean of the first `period` samples. */
+type WilderAverage = { count: number; sum: number; value: number | null };
+
+function pushWilderAverage(state: WilderAverage, sample: number, period: number): void {
+  state.count += 1;
+  if (state.value === null) {
+    state.sum += sample;
+    if (state.count === period) state.value = state.sum / period;
+    return;
+  }
+  state.value = (state.value * (period - 1) + sample) / period;
+}
+
+/** Wilder running sum (the ADX variant): seeded with the sum of the first `period` samples. */
+type WilderSum = { count: number; value: number };
+
+function pushWilderSum(state: WilderSum, sample: number, period: number): void {
+  state.count += 1;
+  if (state.count <= period) {
+    state.value += sample;
+    return;
+  }
+  state.value = state.value - state.value / period + sample;
+}
+
+type Ema = { count: number; sum: number; value: number | null };
+
+function pushEma(state: Ema, sample: number, period: number): void {
+  state.count += 1;
+  if (state.value === null) {
+    state.sum += sample;
+    if (state.count === period) state.value = state.sum / period;
+    return;
+  }
+  const multiplier = 2 / (period + 1);
+  state.value = sample * multiplier + state.value * (1 - multiplier);
+}
+
+type RollingState = {
+  bars: number;
+  lastOpenTime: number | null;
+  prev: { high: number; low: number; close: number } | null;
+  gain: WilderAverage;
+  loss: WilderAverage;
+  atr: WilderAverage;
+  trSum: WilderSum;
+  plusDmSum: WilderSum;
+  minusDmSum: WilderSum;
+  dx: WilderAverage;
+  emaFast: Ema;
+  emaSlow: Ema;
+  lastClose: number | null;
+};
+
+function initialState(): RollingState {
+  return {
+    bars: 0,
+    lastOpenTime: null,
+    prev: null,
+    gain: { count: 0, sum: 0, value: null },
+    loss: { count: 0, sum: 0, value: null },
+    atr: { count: 0, sum: 0, value: null },
+    trSum: { count: 0, value: 0 },
+    plusDmSum: { count: 0, value: 0 },
+    minusDmSum: { count: 0, value: 0 },
+    dx: { count: 0, sum: 0, value: null },
+    emaFast: { count: 0, sum: 0, value: null },
+    emaSlow: { count: 0, sum: 0, value: null },
+    lastClose: null
+  };
+}
+
+function cloneState(state: RollingState): RollingState {
+  return {
+    ...state,
+    prev: state.prev ? { ...state.prev } : null,
+    gain: { ...state.gain },
+    loss: { ...state.loss },
+    atr: { ...state.atr },
+    trSum: { ...state.trSum },
+    plusDmSum: { ...state.plusDmSum },
+    minusDmSum: { ...state.minusDmSum },
+    dx: { ...state.dx },
+    emaFast: { ...state.emaFast },
+    emaSlow: { ...state.emaSlow }
+  };
+}
+
+/**
+ * RSI14 / ATR14 / ADX14 / EMA12-26 kept up to date one bar at a time, matching `computeRsi`, `computeAtrPct`,
+ * `computeAdx` and `computeEmaTrendSpreadPct` run over every bar pushed so far.
+ *
+ * Only closed bars are pushed; the forming bar is folded in by `snapshot(formingBar)` without touching the state.
+ */
+export class RollingIndicators {
+  private static readonly PERIOD = 14;
+  private static readonly EMA_FAST = 12;
+  private static readonly EMA_SLOW = 26;
+
+  private state = initialState();
+
+  get lastOpenTime(): number | null {
+    return this.state.lastOpenTime;
+  }
+
+  reset(): void {
+    this.state = initialState();
+  }
+
+  push(bar: Kline): void {
+    RollingIndicators.apply(this.state, bar);
+  }
+
+  snapshot(formingBar?: Kline): IndicatorSnapshot {
+    const state = formingBar ? cloneState(this.state) : this.state;
+    if (formingBar) RollingIndicators.apply(state, formingBar);
+    return RollingIndicators.read(state);
+  }
+
+  private static apply(state: RollingState, bar: Kline): void {
+    const period = RollingIndicators.PERIOD;
+    const prev = state.prev;
+    if (prev) {
+      const diff = bar.close - prev.close;
+      pushWilderAverage(state.gain, diff > 0 ? diff : 0, period);
+      pushWilderAverage(state.loss, diff < 0 ? -diff : 0, period);
+
+      const tr = Math.max(bar.high - bar.low, Math.abs(bar.high - prev.close), Math.abs(bar.low - prev.close));
+      pushWilderAverage(state.atr, tr, period);
+
+      const upMove = bar.high - prev.high;
+      const downMove = prev.low - bar.low;
+      pushWilderSum(state.trSum, tr, period);
+      pushWilderSum(state.plusDmSum, upMove > downMove && upMove > 0 ? upMove : 0, period);
+      pushWilderSum(state.minusDmSum, downMove > upMove && downMove > 0 ? downMove : 0, period);
+      if (state.trSum.count >= period && state.trSum.value !== 0) {
+        const plusDI = (100 * state.plusDmSum.value) / state.trSum.value;
+        const minusDI = (100 * state.minusDmSum.value) / state.trSum.value;
+        const denom = plusDI + minusDI;
+        if (denom !== 0) {
+          pushWilderAverage(state.dx, (100 * Math.abs(plusDI - minusDI)) / denom, period);
+        }
+      }
+    }
+
+    pushEma(state.emaFast, bar.close, RollingIndicators.EMA_FAST);
+    pushEma(state.emaSlow, bar.close, RollingIndicators.EMA_SLOW);
+    state.prev = { high: bar.high, low: bar.low, close: bar.close };
+    state.lastClose = bar.close;
+    state.lastOpenTime = bar.openTime;
+    state.bars += 1;
+  }
+
+  private static read(state: RollingState): IndicatorSnapshot {
+    const period = RollingIndicators.PERIOD;
+    const lastClose = state.lastClose ?? 0;
+
+    let rsi14: number | null = null;
+    if (state.gain.value !== null && state.loss.value !== null) {
+      rsi14 = state.loss.value === 0 ? 100 : 100 - 100 / (1 + state.gain.value / state.loss.value);
+    }
+    const atrPct14 = state.atr.value && lastClose > 0 ? (state.atr.value / lastClose) * 100 : null;
+    const adx14 = state.bars >= period * 2 + 2 && state.dx.value !== null ? state.dx.value : null;
+    const emaTrendSpreadPct =
+      state.emaFast.value !== null && state.emaSlow.value !== null && lastClose > 0
+        ? ((state.emaFast.value - state.emaSlow.value) / lastClose) * 100
+        : null;
+
+    return { rsi14, adx14, atrPct14, emaTrendSpreadPct };
+  }
+}
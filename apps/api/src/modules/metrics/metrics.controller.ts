@@ -0,0 +1,16 @@
+import { Controller, Get, Header } from "@nestjs/common";
+
+import { MetricsService } from "./metrics.service";
+import { PROMETHEUS_CONTENT_TYPE } from "./prometheus";
+
+@Controller("metrics")
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Get()
+  @Header("Content-Type", PROMETHEUS_CONTENT_TYPE)
+  @Header("Cache-Control", "no-store")
+  async getMetrics(): Promise<string> {
+    return await this.metrics.render();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+
+import { BotModule } from "../bot/bot.module";
+import { PortfolioModule } from "../portfolio/portfolio.module";
+import { MetricsController } from "./metrics.controller";
+import { MetricsService } from "./metrics.service";
+
+@Module({
+  imports: [BotModule, PortfolioModule],
+  controllers: [MetricsController],
+  providers: [MetricsService]
+})
+export class MetricsModule {}
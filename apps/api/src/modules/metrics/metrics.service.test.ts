@@ -0,0 +1,102 @@
+import { type BotState, defaultBotState, type Order } from "@autobot/shared";
+import { describe, expect, it, vi } from "vitest";
+
+import type { BotEngineService } from "../bot/bot-engine.service";
+import { FixedClock } from "../clock/clock";
+import type { PortfolioService } from "../portfolio/portfolio.service";
+import { MetricsService } from "./metrics.service";
+import { MetricsRegistry } from "./prometheus";
+
+const order: Order = { id: "o1", ts: "2026-03-01T00:00:01.000Z", symbol: "BTCUSDC", side: "BUY", type: "LIMIT", status: "NEW", qty: 0.01, price: 60_000 };
+
+describe("MetricsRegistry", () => {
+  it("renders counters, gauges and histograms in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("requests_total", "Requests.").inc({ path: 'a"b\\c' }, 2);
+    registry.gauge("up", "Up.").set({}, 1);
+    const latency = registry.histogram("latency_seconds", "Latency.", [0.5, 0.1]);
+    latency.observe({ op: "x" }, 0.2);
+    latency.observe({ op: "x" }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{path="a\\"b\\\\c"} 2',
+        "# HELP up Up.",
+        "# TYPE up gauge",
+        "up 1",
+        "# HELP latency_seconds Latency.",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{op="x",le="0.1"} 0',
+        'latency_seconds_bucket{op="x",le="0.5"} 1',
+        'latency_seconds_bucket{op="x",le="+Inf"} 2',
+        'latency_seconds_sum{op="x"} 3.2',
+        'latency_seconds_count{op="x"} 2',
+        ""
+      ].join("\n")
+    );
+    expect(() => registry.gauge("up", "Again.")).toThrow(/already registered/);
+  });
+});
+
+describe("MetricsService", () => {
+  it("counts ticks, decisions, order transitions and Binance requests and reads gauges on scrape", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:10:00.000Z"));
+    let state: BotState = defaultBotState();
+    const engine = {
+      onTick: vi.fn(() => () => undefined),
+      onStateSaved: vi.fn(() => () => undefined),
+      getState: () => state,
+      isTickInFlight: () => false,
+      getTransientBackoffInfo: () => ({ active: true, remainingMs: 45_000, errorCount: 3 }),
+      getOpenPositions: () => [{ symbol: "BTCUSDC", netQty: 0.01, costQuote: 600 }]
+    };
+    const portfolio = {
+      getWallet: vi.fn(async () => ({ fetchedAt: "2026-03-01T00:10:00.000Z", homeStableCoin: "USDC", totalEstimatedHome: 1234.5, assets: [], errors: [] }))
+    };
+    const service = new MetricsService(engine as unknown as BotEngineService, portfolio as unknown as PortfolioService, clock);
+
+    service.recordTick({ outcome: "COMPLETED", durationMs: 300 });
+    service.recordTick({ outcome: "OVERLAP" });
+    service.recordRequest({ api: "spot", method: "GET", endpoint: "/api/v3/account", durationMs: 80, status: 200, ok: true });
+    service.recordRequest({ api: "spot", method: "POST", endpoint: "/api/v3/order", durationMs: 8000, ok: false });
+
+    service.handleState(state);
+    state = {
+      ...state,
+      decisions: [{ id: "d1", ts: "2026-03-01T00:01:00.000Z", kind: "TRADE", summary: "BUY 0.01 BTCUSDC", reasonCode: "ENTRY" }],
+      activeOrders: [order],
+      orderHistory: [{ ...order, id: "o2", type: "MARKET", status: "FILLED" }]
+    };
+    service.handleState(state);
+    state = {
+      ...state,
+      activeOrders: [],
+      orderHistory: [{ ...order, status: "CANCELED" }, ...state.orderHistory],
+      riskState: { state: "CAUTION", reason_codes: ["DAILY_LOSS"], unwind_only: false, resume_conditions: [] },
+      protectionLocks: [
+        { id: "l1", type: "COOLDOWN", scope: "SYMBOL", symbol: "ETHUSDC", reason: "cooldown", createdAt: "2026-03-01T00:09:00.000Z", expiresAt: "2026-03-01T00:20:00.000Z" },
+        { id: "l2", type: "COOLDOWN", scope: "SYMBOL", symbol: "SOLUSDC", reason: "expired", createdAt: "2026-03-01T00:00:00.000Z", expiresAt: "2026-03-01T00:05:00.000Z" }
+      ]
+    };
+    service.handleState(state);
+
+    const text = await service.render();
+    expect(text).toContain('autobot_tick_duration_seconds_bucket{le="0.5"} 1');
+    expect(text).toContain("autobot_tick_overlaps_total 1");
+    expect(text).toContain('autobot_decisions_total{kind="TRADE",reason="ENTRY"} 1');
+    expect(text).toContain('autobot_orders_total{event="placed"} 2');
+    expect(text).toContain('autobot_orders_total{event="filled"} 1');
+    expect(text).toContain('autobot_orders_total{event="cancelled"} 1');
+    expect(text).toContain('autobot_binance_request_duration_seconds_count{api="spot",method="GET",endpoint="/api/v3/account"} 1');
+    expect(text).toContain('autobot_binance_request_errors_total{api="spot",method="POST",endpoint="/api/v3/order",status="network"} 1');
+    expect(text).not.toContain('autobot_binance_request_errors_total{api="spot",method="GET"');
+    expect(text).toContain("autobot_transient_backoff_remaining_seconds 45");
+    expect(text).toContain('autobot_risk_state{state="CAUTION"} 1');
+    expect(text).toContain('autobot_risk_state{state="NORMAL"} 0');
+    expect(text).toContain('autobot_protection_locks{type="COOLDOWN"} 1');
+    expect(text).toContain('autobot_wallet_equity_home{home="USDC"} 1234.5');
+    expect(text).toContain('autobot_open_exposure_cost{symbol="BTCUSDC"} 600');
+  });
+});
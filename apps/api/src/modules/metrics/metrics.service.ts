@@ -0,0 +1,169 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from "@nestjs/common";
+import type { BotState, Order, OrderStatus } from "@autobot/shared";
+
+import { BotEngineService, type BotTickSample } from "../bot/bot-engine.service";
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
+import { type BinanceRequestSample, onBinanceRequest } from "../integrations/binance-request-metrics";
+import { PortfolioService } from "../portfolio/portfolio.service";
+import { MetricsRegistry } from "./prometheus";
+
+const TICK_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const REQUEST_BUCKETS_SECONDS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const RISK_STATES = ["NORMAL", "CAUTION", "HALT"] as const;
+
+const ORDER_EVENT_BY_STATUS: Record<Exclude<OrderStatus, "NEW">, string> = {
+  FILLED: "filled",
+  CANCELED: "cancelled",
+  REJECTED: "rejected"
+};
+
+function indexOrders(state: BotState): Map<string, Order> {
+  const orders = new Map<string, Order>();
+  for (const order of state.orderHistory) orders.set(order.id, order);
+  for (const order of state.activeOrders) orders.set(order.id, order);
+  return orders;
+}
+
+/**
+ * Prometheus metrics for `GET /metrics`.
+ *
+ * Counters and histograms are fed as things happen: engine ticks (`onTick`), decisions and order transitions (diffed
+ * from `onStateSaved`, like the notification service does) and every Binance REST call. Gauges (risk state, locks,
+ * backoff, wallet equity, open exposure) are read fresh on each scrape. All values reset with the process.
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit, OnModuleDestroy {
+  private readonly registry = new MetricsRegistry();
+  private readonly unsubscribers: Array<() => void> = [];
+  private previous: BotState | null = null;
+
+  private readonly tickDuration = this.registry.histogram(
+    "autobot_tick_duration_seconds",
+    "Engine tick duration.",
+    TICK_BUCKETS_SECONDS
+  );
+  private readonly tickOverlaps = this.registry.counter(
+    "autobot_tick_overlaps_total",
+    "Loop firings skipped because the previous tick was still running."
+  );
+  private readonly tickInFlight = this.registry.gauge("autobot_tick_in_flight", "1 while an engine tick is running.");
+  private readonly decisions = this.registry.counter("autobot_decisions_total", "Engine decisions by kind and reason code.");
+  private readonly orders = this.registry.counter(
+    "autobot_orders_total",
+    "Bot orders by event: placed, filled, cancelled, rejected (paper and live)."
+  );
+  private readonly requestDuration = this.registry.histogram(
+    "autobot_binance_request_duration_seconds",
+    "Binance REST request latency per attempt, excluding rate-limiter queueing.",
+    REQUEST_BUCKETS_SECONDS
+  );
+  private readonly requestErrors = this.registry.counter(
+    "autobot_binance_request_errors_total",
+    "Failed Binance REST requests by endpoint and HTTP status (\"network\" when no response arrived)."
+  );
+  private readonly backoffActive = this.registry.gauge("autobot_transient_backoff_active", "1 while the engine pauses after transient exchange errors.");
+  private readonly backoffRemaining = this.registry.gauge("autobot_transient_backoff_remaining_seconds", "Time left in the transient exchange backoff.");
+  private readonly backoffErrors = this.registry.gauge("autobot_transient_backoff_errors", "Transient exchange errors in the current backoff window.");
+  private readonly botRunning = this.registry.gauge("autobot_bot_running", "1 while the bot is started.");
+  private readonly riskState = this.registry.gauge("autobot_risk_state", "1 for the current runtime risk state.");
+  private readonly unwindOnly = this.registry.gauge("autobot_risk_unwind_only", "1 while the risk state only allows exits.");
+  private readonly protectionLocks = this.registry.gauge("autobot_protection_locks", "Active protection locks by type.");
+  private readonly blacklistEntries = this.registry.gauge("autobot_symbol_blacklist_entries", "Active symbol blacklist entries.");
+  private readonly walletEquity = this.registry.gauge("autobot_wallet_equity_home", "Estimated wallet value in the home stable coin.");
+  private readonly openPositions = this.registry.gauge("autobot_open_positions", "Positions the bot manages.");
+  private readonly openExposure = this.registry.gauge("autobot_open_exposure_cost", "Cost basis of each open position in its quote asset.");
+
+  constructor(
+    private readonly engine: BotEngineService,
+    private readonly portfolio: PortfolioService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribers.push(
+      this.engine.onTick((sample) => this.recordTick(sample)),
+      this.engine.onStateSaved((state) => this.handleState(state)),
+      onBinanceRequest((sample) => this.recordRequest(sample))
+    );
+  }
+
+  onModuleDestroy(): void {
+    for (const unsubscribe of this.unsubscribers.splice(0)) unsubscribe();
+  }
+
+  recordTick(sample: BotTickSample): void {
+    if (sample.outcome === "OVERLAP") {
+      this.tickOverlaps.inc();
+      return;
+    }
+    this.tickDuration.observe({}, sample.durationMs / 1000);
+  }
+
+  recordRequest(sample: BinanceRequestSample): void {
+    const labels = { api: sample.api, method: sample.method, endpoint: sample.endpoint };
+    this.requestDuration.observe(labels, sample.durationMs / 1000);
+    if (!sample.ok) {
+      this.requestErrors.inc({ ...labels, status: sample.status === undefined ? "network" : String(sample.status) });
+    }
+  }
+
+  /** Counts decisions and order transitions since the last state seen; the first state only sets the baseline. */
+  handleState(state: BotState): void {
+    const previous = this.previous;
+    this.previous = state;
+    if (!previous) return;
+
+    const knownDecisions = new Set(previous.decisions.map((decision) => decision.id));
+    for (const decision of state.decisions) {
+      if (knownDecisions.has(decision.id)) continue;
+      this.decisions.inc({ kind: decision.kind, reason: decision.reasonCode ?? "" });
+    }
+
+    const before = indexOrders(previous);
+    for (const [id, order] of indexOrders(state)) {
+      const known = before.get(id);
+      if (!known) this.orders.inc({ event: "placed" });
+      if (order.status !== "NEW" && known?.status !== order.status) {
+        this.orders.inc({ event: ORDER_EVENT_BY_STATUS[order.status] });
+      }
+    }
+  }
+
+  async render(): Promise<string> {
+    const state = this.engine.getState();
+
+    this.tickInFlight.set({}, this.engine.isTickInFlight() ? 1 : 0);
+    this.botRunning.set({}, state.running ? 1 : 0);
+
+    const backoff = this.engine.getTransientBackoffInfo();
+    this.backoffActive.set({}, backoff.active ? 1 : 0);
+    this.backoffRemaining.set({}, backoff.remainingMs / 1000);
+    this.backoffErrors.set({}, backoff.errorCount);
+
+    const currentRisk = state.riskState?.state ?? "NORMAL";
+    for (const risk of RISK_STATES) this.riskState.set({ state: risk }, risk === currentRisk ? 1 : 0);
+    this.unwindOnly.set({}, state.riskState?.unwind_only ? 1 : 0);
+
+    const nowMs = this.clock.now();
+    this.protectionLocks.reset();
+    for (const lock of state.protectionLocks ?? []) {
+      if (Date.parse(lock.expiresAt) <= nowMs) continue;
+      this.protectionLocks.set({ type: lock.type }, this.protectionLocks.get({ type: lock.type }) + 1);
+    }
+    this.blacklistEntries.set({}, (state.symbolBlacklist ?? []).filter((entry) => Date.parse(entry.expiresAt) > nowMs).length);
+
+    const positions = this.engine.getOpenPositions();
+    this.openPositions.set({}, positions.length);
+    this.openExposure.reset();
+    for (const position of positions) this.openExposure.set({ symbol: position.symbol }, position.costQuote);
+
+    // Cached by PortfolioService for 20s, so frequent scrapes do not add exchange calls.
+    this.walletEquity.reset();
+    const wallet = await this.portfolio.getWallet();
+    if (wallet.totalEstimatedHome !== undefined) {
+      this.walletEquity.set({ home: wallet.homeStableCoin }, wallet.totalEstimatedHome);
+    }
+
+    return this.registry.render();
+  }
+}
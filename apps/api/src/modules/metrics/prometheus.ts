@@ -0,0 +1,158 @@
+/**
+ * Minimal Prometheus text exposition (format 0.0.4): counters, gauges and histograms with labels. Enough for one
+ * process-local registry scraped over `GET /metrics`; no summaries, exemplars or OpenMetrics.
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function escapeLabelValue(value: string): string {
+  return escapeHelp(value).replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+  }
+}
+
+abstract class ValueMetric extends Metric {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  protected update(labels: MetricLabels, fn: (value: number) => number): void {
+    const key = seriesKey(labels);
+    const current = this.series.get(key);
+    this.series.set(key, { labels, value: fn(current?.value ?? 0) });
+  }
+}
+
+export class Counter extends ValueMetric {
+  readonly type = "counter" as const;
+
+  inc(labels: MetricLabels = {}, by = 1): void {
+    if (by < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.update(labels, (value) => value + by);
+  }
+}
+
+export class Gauge extends ValueMetric {
+  readonly type = "gauge" as const;
+
+  set(labels: MetricLabels, value: number): void {
+    this.update(labels, () => value);
+  }
+
+  /** Drops every series, for gauges rebuilt from scratch on each scrape (label sets come and go). */
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = "histogram" as const;
+  private readonly series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[]
+  ) {
+    super(name, help);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index] += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, [...buckets].sort((a, b) => a - b)));
+  }
+
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
@@ -0,0 +1,110 @@
+import type { BotState, NotificationEventType, Order } from "@autobot/shared";
+
+export type BotEvent = {
+  type: NotificationEventType;
+  /** Stable per occurrence, so the same trade or lock is never announced twice. */
+  id: string;
+  ts: string;
+  title: string;
+  text: string;
+  details?: Record<string, unknown>;
+};
+
+function formatQty(value: number): string {
+  return Number.isFinite(value) ? Number(value.toPrecision(8)).toString() : String(value);
+}
+
+function allOrders(state: BotState): Order[] {
+  return [...state.orderHistory, ...state.activeOrders];
+}
+
+/**
+ * Events between two persisted engine states: new TRADE decisions, orders that turned FILLED, risk state
+ * transitions, new protection locks and blacklist entries, and a changed `lastError`. Oldest first.
+ */
+export function diffBotStateEvents(previous: BotState, next: BotState): BotEvent[] {
+  const events: BotEvent[] = [];
+
+  const knownDecisions = new Set(previous.decisions.map((decision) => decision.id));
+  for (const decision of [...next.decisions].reverse()) {
+    if (decision.kind !== "TRADE" || knownDecisions.has(decision.id)) continue;
+    const symbol = typeof decision.details?.symbol === "string" ? decision.details.symbol : undefined;
+    events.push({
+      type: "TRADE",
+      id: `trade:${decision.id}`,
+      ts: decision.ts,
+      title: symbol ? `Trade ${symbol}` : "Trade",
+      text: decision.summary,
+      details: { reasonCode: decision.reasonCode, ...(decision.details ?? {}) }
+    });
+  }
+
+  const filledBefore = new Set(allOrders(previous).filter((order) => order.status === "FILLED").map((order) => order.id));
+  const seenFills = new Set<string>();
+  for (const order of allOrders(next).reverse()) {
+    if (order.status !== "FILLED" || filledBefore.has(order.id) || seenFills.has(order.id)) continue;
+    seenFills.add(order.id);
+    const price = order.price !== undefined ? ` @ ${formatQty(order.price)}` : "";
+    events.push({
+      type: "FILL",
+      id: `fill:${order.id}`,
+      ts: order.ts,
+      title: `Filled ${order.side} ${order.symbol}`,
+      text: `${order.side} ${formatQty(order.qty)} ${order.symbol}${price} (${order.type})`,
+      details: { orderId: order.id, clientOrderId: order.clientOrderId, symbol: order.symbol, side: order.side, qty: order.qty, price: order.price }
+    });
+  }
+
+  const riskBefore = previous.riskState?.state ?? "NORMAL";
+  const riskAfter = next.riskState?.state ?? "NORMAL";
+  if (riskBefore !== riskAfter) {
+    const reasons = next.riskState?.reason_codes ?? [];
+    events.push({
+      type: "RISK_STATE",
+      id: `risk:${next.updatedAt}:${riskAfter}`,
+      ts: next.updatedAt,
+      title: `Risk state ${riskAfter}`,
+      text: `${riskBefore} → ${riskAfter}${reasons.length > 0 ? ` (${reasons.join(", ")})` : ""}`,
+      details: { from: riskBefore, to: riskAfter, reasonCodes: reasons, unwindOnly: next.riskState?.unwind_only ?? false }
+    });
+  }
+
+  const knownLocks = new Set((previous.protectionLocks ?? []).map((lock) => lock.id));
+  for (const lock of next.protectionLocks ?? []) {
+    if (knownLocks.has(lock.id)) continue;
+    events.push({
+      type: "PROTECTION_LOCK",
+      id: `lock:${lock.id}`,
+      ts: lock.createdAt,
+      title: `${lock.type} lock${lock.symbol ? ` ${lock.symbol}` : ""}`,
+      text: `${lock.scope === "GLOBAL" ? "All symbols" : lock.symbol} locked until ${lock.expiresAt}: ${lock.reason}`,
+      details: { lockId: lock.id, type: lock.type, scope: lock.scope, symbol: lock.symbol, expiresAt: lock.expiresAt }
+    });
+  }
+
+  const blacklistKey = (entry: { symbol: string; createdAt: string }) => `${entry.symbol}|${entry.createdAt}`;
+  const knownBlacklist = new Set((previous.symbolBlacklist ?? []).map(blacklistKey));
+  for (const entry of next.symbolBlacklist ?? []) {
+    if (knownBlacklist.has(blacklistKey(entry))) continue;
+    events.push({
+      type: "BLACKLIST",
+      id: `blacklist:${blacklistKey(entry)}`,
+      ts: entry.createdAt,
+      title: `Blacklisted ${entry.symbol}`,
+      text: `${entry.symbol} blacklisted until ${entry.expiresAt}: ${entry.reason}`,
+      details: { symbol: entry.symbol, expiresAt: entry.expiresAt }
+    });
+  }
+
+  if (next.lastError && next.lastError !== previous.lastError) {
+    events.push({
+      type: "ERROR",
+      id: `error:${next.updatedAt}`,
+      ts: next.updatedAt,
+      title: "Engine error",
+      text: next.lastError
+    });
+  }
+
+  return events;
+}
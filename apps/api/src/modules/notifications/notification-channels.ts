@@ -0,0 +1,148 @@
+import crypto from "node:crypto";
+
+import type { NotificationEventType, NotificationsConfig } from "@autobot/shared";
+
+import type { BotEvent } from "./bot-events";
+
+export type NotificationChannelName = keyof NotificationsConfig;
+
+export type NotificationRouting = {
+  /** Empty routes every event type. */
+  events: NotificationEventType[];
+  minIntervalMs: number;
+};
+
+/** One delivery target. `send` gets one event or a digest of several and throws when delivery failed. */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  readonly routing: NotificationRouting;
+  send(events: BotEvent[]): Promise<void>;
+}
+
+const DEFAULT_TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+const REQUEST_TIMEOUT_MS = 8_000;
+const MAX_DIGEST_LINES = 20;
+// Discord rejects content over 2000 characters (Telegram allows 4096).
+const DISCORD_MAX_CONTENT = 2_000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-autobot-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-autobot-timestamp";
+
+/** Plain-text message: the event itself, or a digest line per event (capped) when several were batched. */
+export function formatNotificationText(events: BotEvent[]): string {
+  if (events.length === 1) {
+    const [event] = events;
+    return `${event.title}\n${event.text}`;
+  }
+  const lines = events.slice(0, MAX_DIGEST_LINES).map((event) => `• ${event.title}: ${event.text}`);
+  const more = events.length - MAX_DIGEST_LINES;
+  return [`Autobot digest (${events.length} events)`, ...lines, ...(more > 0 ? [`… and ${more} more`] : [])].join("\n");
+}
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>`; receivers recompute it and reject stale timestamps. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body,
+      signal: controller.signal
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`HTTP ${res.status}: ${text.slice(0, 200)}`);
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${REQUEST_TIMEOUT_MS}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export class TelegramChannel implements NotificationChannel {
+  readonly name = "telegram" as const;
+
+  constructor(
+    readonly routing: NotificationRouting,
+    private readonly options: { botToken: string; chatId: string; apiBaseUrl?: string }
+  ) {}
+
+  async send(events: BotEvent[]): Promise<void> {
+    const baseUrl = (this.options.apiBaseUrl ?? DEFAULT_TELEGRAM_API_BASE_URL).replace(/\/+$/, "");
+    await postJson(
+      `${baseUrl}/bot${this.options.botToken}/sendMessage`,
+      JSON.stringify({ chat_id: this.options.chatId, text: formatNotificationText(events), disable_web_page_preview: true })
+    );
+  }
+}
+
+export class DiscordChannel implements NotificationChannel {
+  readonly name = "discord" as const;
+
+  constructor(
+    readonly routing: NotificationRouting,
+    private readonly options: { webhookUrl: string }
+  ) {}
+
+  async send(events: BotEvent[]): Promise<void> {
+    // No mentions: a trade message must never ping @everyone.
+    const content = formatNotificationText(events).slice(0, DISCORD_MAX_CONTENT);
+    await postJson(this.options.webhookUrl, JSON.stringify({ content, allowed_mentions: { parse: [] } }));
+  }
+}
+
+/** Posts `{ sentAt, events }` as JSON; with a secret, adds the timestamp and HMAC signature headers. */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = "webhook" as const;
+
+  constructor(
+    readonly routing: NotificationRouting,
+    private readonly options: { url: string; secret?: string; now?: () => number }
+  ) {}
+
+  async send(events: BotEvent[]): Promise<void> {
+    const sentAtMs = this.options.now?.() ?? Date.now();
+    const body = JSON.stringify({ sentAt: new Date(sentAtMs).toISOString(), events });
+    const timestamp = String(Math.floor(sentAtMs / 1000));
+    const headers: Record<string, string> = this.options.secret
+      ? {
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(this.options.secret, timestamp, body)}`
+        }
+      : {};
+    await postJson(this.options.url, body, headers);
+  }
+}
+
+/** Enabled channels that have everything they need to deliver. */
+export function createNotificationChannels(config: NotificationsConfig | undefined, now?: () => number): NotificationChannel[] {
+  if (!config) return [];
+  const routing = (channel: { events: NotificationEventType[]; minIntervalSeconds: number }): NotificationRouting => ({
+    events: channel.events,
+    minIntervalMs: channel.minIntervalSeconds * 1000
+  });
+
+  const channels: NotificationChannel[] = [];
+  const { telegram, discord, webhook } = config;
+  if (telegram.enabled && telegram.botToken && telegram.chatId) {
+    channels.push(
+      new TelegramChannel(routing(telegram), { botToken: telegram.botToken, chatId: telegram.chatId, apiBaseUrl: telegram.apiBaseUrl })
+    );
+  }
+  if (discord.enabled && discord.webhookUrl) {
+    channels.push(new DiscordChannel(routing(discord), { webhookUrl: discord.webhookUrl }));
+  }
+  if (webhook.enabled && webhook.url) {
+    channels.push(new WebhookChannel(routing(webhook), { url: webhook.url, secret: webhook.secret, now }));
+  }
+  return channels;
+}
@@ -0,0 +1,147 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { type BotState, defaultBotState, NotificationsConfigSchema } from "@autobot/shared";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { BotEngineService } from "../bot/bot-engine.service";
+import { FixedClock } from "../clock/clock";
+import type { ConfigService } from "../config/config.service";
+import { diffBotStateEvents } from "./bot-events";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "./notification-channels";
+import { NotificationService } from "./notification.service";
+
+type Received = { path: string; headers: http.IncomingHttpHeaders; raw: string; body: Record<string, unknown> };
+
+function withTrade(state: BotState, id: string, symbol: string): BotState {
+  return {
+    ...state,
+    decisions: [
+      { id, ts: "2026-03-01T00:00:00.000Z", kind: "TRADE", summary: `BUY 0.01 ${symbol}`, reasonCode: "ENTRY", details: { symbol } },
+      ...state.decisions
+    ]
+  };
+}
+
+describe("diffBotStateEvents", () => {
+  it("reports trades, fills, risk transitions, locks, blacklist entries and errors once", () => {
+    const base = defaultBotState();
+    const next: BotState = {
+      ...withTrade(base, "d1", "BTCUSDC"),
+      updatedAt: "2026-03-01T00:01:00.000Z",
+      lastError: "Binance HTTP 503",
+      orderHistory: [{ id: "o1", ts: "2026-03-01T00:00:01.000Z", symbol: "BTCUSDC", side: "BUY", type: "MARKET", status: "FILLED", qty: 0.01, price: 60_000 }],
+      riskState: { state: "HALT", reason_codes: ["MAX_DRAWDOWN"], unwind_only: true, resume_conditions: [] },
+      protectionLocks: [
+        {
+          id: "lock-1",
+          type: "MAX_DRAWDOWN",
+          scope: "GLOBAL",
+          reason: "drawdown 12%",
+          createdAt: "2026-03-01T00:01:00.000Z",
+          expiresAt: "2026-03-01T06:01:00.000Z"
+        }
+      ],
+      symbolBlacklist: [{ symbol: "DOGEUSDC", reason: "dust loop", createdAt: "2026-03-01T00:01:00.000Z", expiresAt: "2026-03-01T03:01:00.000Z" }]
+    };
+
+    const events = diffBotStateEvents(base, next);
+    expect(events.map((event) => event.type)).toEqual(["TRADE", "FILL", "RISK_STATE", "PROTECTION_LOCK", "BLACKLIST", "ERROR"]);
+    expect(events.find((event) => event.type === "RISK_STATE")?.text).toBe("NORMAL → HALT (MAX_DRAWDOWN)");
+    expect(events.find((event) => event.type === "FILL")?.text).toBe("BUY 0.01 BTCUSDC @ 60000 (MARKET)");
+    expect(diffBotStateEvents(next, { ...next, updatedAt: "2026-03-01T00:02:00.000Z" })).toEqual([]);
+  });
+});
+
+describe("NotificationService", () => {
+  let server: http.Server;
+  let baseUrl = "";
+  let received: Received[] = [];
+  let status = 200;
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        received.push({ path: req.url ?? "/", headers: req.headers, raw, body: JSON.parse(raw) as Record<string, unknown> });
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: status < 400 }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function createService(notifications: Record<string, unknown>, clock: FixedClock): NotificationService {
+    const config = { basic: { notifications: NotificationsConfigSchema.parse(notifications) } };
+    return new NotificationService(
+      { load: () => config } as unknown as ConfigService,
+      { onStateSaved: vi.fn(() => () => undefined) } as unknown as BotEngineService,
+      clock
+    );
+  }
+
+  it("delivers routed events to Telegram and Discord, digesting bursts within the interval", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    const service = createService(
+      {
+        telegram: { enabled: true, botToken: "123:abc", chatId: "42", apiBaseUrl: baseUrl, minIntervalSeconds: 60 },
+        discord: { enabled: true, webhookUrl: `${baseUrl}/discord/hook`, events: ["RISK_STATE"] }
+      },
+      clock
+    );
+
+    let state = defaultBotState();
+    await service.handleState(state);
+    expect(received).toHaveLength(0);
+
+    state = withTrade(state, "d1", "BTCUSDC");
+    await service.handleState(state);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ path: "/bot123:abc/sendMessage", body: { chat_id: "42", text: "Trade BTCUSDC\nBUY 0.01 BTCUSDC" } });
+
+    // Within Telegram's 60s interval: both trades wait and go out as one digest.
+    state = withTrade(state, "d2", "ETHUSDC");
+    await service.handleState(state);
+    state = withTrade(state, "d3", "SOLUSDC");
+    await service.handleState(state);
+    expect(received).toHaveLength(1);
+    expect(service.getStatus()).toEqual([expect.objectContaining({ channel: "telegram", queued: 2, sent: 1 })]);
+
+    clock.advance(60_000);
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[1].body.text).toBe("Autobot digest (2 events)\n• Trade ETHUSDC: BUY 0.01 ETHUSDC\n• Trade SOLUSDC: BUY 0.01 SOLUSDC");
+
+    // Discord only routes risk state changes.
+    await service.handleState({ ...state, riskState: { state: "CAUTION", reason_codes: ["DAILY_LOSS"], unwind_only: false, resume_conditions: [] } });
+    const discord = received.find((call) => call.path === "/discord/hook");
+    expect(discord?.body).toEqual({ content: "Risk state CAUTION\nNORMAL → CAUTION (DAILY_LOSS)", allowed_mentions: { parse: [] } });
+  });
+
+  it("signs generic webhooks with HMAC-SHA256 and records failed deliveries", async () => {
+    const clock = new FixedClock(Date.parse("2026-03-01T00:00:00.000Z"));
+    const service = createService({ webhook: { enabled: true, url: `${baseUrl}/hooks/autobot`, secret: "s3cret", minIntervalSeconds: 0 } }, clock);
+
+    const state = defaultBotState();
+    await service.handleState(state);
+    await service.handleState({ ...state, lastError: "Binance HTTP 503" });
+
+    const [call] = received;
+    const timestamp = String(call.headers[WEBHOOK_TIMESTAMP_HEADER]);
+    expect(timestamp).toBe(String(Date.parse("2026-03-01T00:00:00.000Z") / 1000));
+    expect(call.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${signWebhookPayload("s3cret", timestamp, call.raw)}`);
+    expect(call.body).toMatchObject({ events: [{ type: "ERROR", text: "Binance HTTP 503" }] });
+
+    status = 500;
+    await service.handleState({ ...state, lastError: "Binance HTTP 429" });
+    expect(service.getStatus()).toEqual([expect.objectContaining({ channel: "webhook", sent: 1, failed: 1, lastError: expect.stringMatching(/HTTP 500/) })]);
+  });
+});
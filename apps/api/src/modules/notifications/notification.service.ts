@@ -0,0 +1,174 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from "@nestjs/common";
+import type { BotState } from "@autobot/shared";
+
+import { BotEngineService } from "../bot/bot-engine.service";
+import { CLOCK, type Clock, type ClockTimer, SystemClock } from "../clock/clock";
+import { ConfigService } from "../config/config.service";
+import { type BotEvent, diffBotStateEvents } from "./bot-events";
+import { createNotificationChannels, type NotificationChannel, type NotificationChannelName } from "./notification-channels";
+
+// Per channel; when a receiver is down for long, the oldest undelivered events are dropped first.
+const MAX_QUEUED_EVENTS = 200;
+
+export type NotificationChannelStatus = {
+  channel: NotificationChannelName;
+  queued: number;
+  sent: number;
+  /** Events in messages the channel rejected or never answered. */
+  failed: number;
+  /** Events discarded unsent: queue overflow, or the channel was disabled while they waited. */
+  dropped: number;
+  lastSentAt?: string;
+  lastError?: string;
+};
+
+type ChannelQueue = {
+  pending: BotEvent[];
+  lastSentAtMs: number;
+  timer: ClockTimer | null;
+  sending: Promise<void> | null;
+  status: NotificationChannelStatus;
+};
+
+/**
+ * Turns engine state writes into notifications (trades, fills, risk state changes, protection locks, blacklist entries,
+ * engine errors) and delivers them to the configured channels.
+ *
+ * Each channel gets the event types it routes, at most one message per `minIntervalSeconds`: the first event goes out
+ * at once, anything arriving within the interval is sent together as one digest when it ends. Delivery failures are
+ * recorded in the channel status and never reach the engine.
+ */
+@Injectable()
+export class NotificationService implements OnModuleInit, OnModuleDestroy {
+  private previous: BotState | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private readonly queues = new Map<NotificationChannelName, ChannelQueue>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly engine: BotEngineService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.engine.onStateSaved((state) => void this.handleState(state));
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    for (const queue of this.queues.values()) {
+      queue.timer?.cancel();
+      queue.timer = null;
+    }
+  }
+
+  /** Diffs against the last state seen; the first state after startup only sets the baseline. */
+  async handleState(state: BotState): Promise<void> {
+    const previous = this.previous;
+    this.previous = state;
+    if (!previous) return;
+    await this.publish(diffBotStateEvents(previous, state));
+  }
+
+  /** Queues events on every channel that routes them; resolves once the sends started here have finished. */
+  async publish(events: BotEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const channels = this.getChannels();
+    const sends: Array<Promise<void>> = [];
+    for (const channel of channels) {
+      const routed = channel.routing.events.length === 0 ? events : events.filter((event) => channel.routing.events.includes(event.type));
+      if (routed.length === 0) continue;
+      const queue = this.getQueue(channel.name);
+      queue.pending.push(...routed);
+      const overflow = queue.pending.length - MAX_QUEUED_EVENTS;
+      if (overflow > 0) {
+        queue.pending.splice(0, overflow);
+        queue.status.dropped += overflow;
+      }
+      const send = this.schedule(channel);
+      if (send) sends.push(send);
+    }
+    await Promise.all(sends);
+  }
+
+  /** Sends one test message to every configured channel, bypassing routing and intervals. */
+  async sendTest(): Promise<Array<{ channel: NotificationChannelName; ok: boolean; error?: string }>> {
+    const now = new Date(this.clock.now()).toISOString();
+    const event: BotEvent = { type: "ERROR", id: `test:${now}`, ts: now, title: "Test notification", text: "Autobot notifications are working." };
+    return await Promise.all(
+      this.getChannels().map(async (channel) => {
+        try {
+          await channel.send([event]);
+          return { channel: channel.name, ok: true };
+        } catch (err) {
+          return { channel: channel.name, ok: false, error: err instanceof Error ? err.message : String(err) };
+        }
+      })
+    );
+  }
+
+  getStatus(): NotificationChannelStatus[] {
+    return [...this.queues.values()].map((queue) => ({ ...queue.status, queued: queue.pending.length }));
+  }
+
+  private getChannels(): NotificationChannel[] {
+    return createNotificationChannels(this.configService.load()?.basic.notifications, () => this.clock.now());
+  }
+
+  private getQueue(name: NotificationChannelName): ChannelQueue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = { pending: [], lastSentAtMs: 0, timer: null, sending: null, status: { channel: name, queued: 0, sent: 0, failed: 0, dropped: 0 } };
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  /** Sends now when the channel's interval has passed (returning the send), else makes sure a timer will. */
+  private schedule(channel: NotificationChannel): Promise<void> | null {
+    const queue = this.getQueue(channel.name);
+    if (queue.timer || queue.sending || queue.pending.length === 0) return null;
+    const waitMs = queue.lastSentAtMs + channel.routing.minIntervalMs - this.clock.now();
+    if (queue.lastSentAtMs === 0 || waitMs <= 0) {
+      return this.flush(channel.name);
+    }
+    queue.timer = this.clock.setTimeout(() => {
+      queue.timer = null;
+      void this.flush(channel.name);
+    }, waitMs);
+    return null;
+  }
+
+  private async flush(name: NotificationChannelName): Promise<void> {
+    const queue = this.getQueue(name);
+    // Re-read the config: the channel may have been reconfigured or disabled while events waited.
+    const channel = this.getChannels().find((candidate) => candidate.name === name);
+    if (!channel) {
+      queue.status.dropped += queue.pending.length;
+      queue.pending = [];
+      return;
+    }
+
+    const events = queue.pending.splice(0);
+    if (events.length === 0) return;
+    queue.lastSentAtMs = this.clock.now();
+    queue.sending = channel
+      .send(events)
+      .then(() => {
+        queue.status.sent += events.length;
+        queue.status.lastSentAt = new Date(this.clock.now()).toISOString();
+        queue.status.lastError = undefined;
+      })
+      .catch((err: unknown) => {
+        queue.status.failed += events.length;
+        queue.status.lastError = err instanceof Error ? err.message : String(err);
+      })
+      .finally(() => {
+        queue.sending = null;
+        // Events that arrived during the send wait for the next interval.
+        void this.schedule(channel);
+      });
+    await queue.sending;
+  }
+}
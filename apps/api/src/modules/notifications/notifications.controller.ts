@@ -0,0 +1,19 @@
+import { Controller, Get, Post } from "@nestjs/common";
+
+import { type NotificationChannelStatus, NotificationService } from "./notification.service";
+import type { NotificationChannelName } from "./notification-channels";
+
+@Controller("notifications")
+export class NotificationsController {
+  constructor(private readonly notifications: NotificationService) {}
+
+  @Get("status")
+  getStatus(): { channels: NotificationChannelStatus[] } {
+    return { channels: this.notifications.getStatus() };
+  }
+
+  @Post("test")
+  async sendTest(): Promise<{ results: Array<{ channel: NotificationChannelName; ok: boolean; error?: string }> }> {
+    return { results: await this.notifications.sendTest() };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+
+import { BotModule } from "../bot/bot.module";
+import { ConfigModule } from "../config/config.module";
+import { NotificationService } from "./notification.service";
+import { NotificationsController } from "./notifications.controller";
+
+@Module({
+  imports: [BotModule, ConfigModule],
+  controllers: [NotificationsController],
+  providers: [NotificationService],
+  exports: [NotificationService]
+})
+export class NotificationsModule {}
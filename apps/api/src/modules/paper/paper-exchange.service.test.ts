@@ -0,0 +1,112 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { ConfigService } from "../config/config.service";
+import type { BinanceMarketDataService, BinanceSymbolRules } from "../integrations/binance-market-data.service";
+import { PaperExchangeService } from "./paper-exchange.service";
+
+const rules: BinanceSymbolRules = {
+  symbol: "BTCUSDT",
+  status: "TRADING",
+  baseAsset: "BTC",
+  quoteAsset: "USDT",
+  priceFilter: { filterType: "PRICE_FILTER", minPrice: "0.01000000", maxPrice: "1000000.00000000", tickSize: "0.01000000" },
+  lotSize: { filterType: "LOT_SIZE", minQty: "0.00001000", maxQty: "9000.00000000", stepSize: "0.00001000" },
+  notional: { filterType: "NOTIONAL", minNotional: "5.00000000", applyMinToMarket: true }
+};
+
+describe("paper-exchange.service", () => {
+  let dataDir = "";
+  let previousDataDir: string | undefined;
+  let price = 50_000;
+
+  beforeEach(() => {
+    previousDataDir = process.env.DATA_DIR;
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "autobot-paper-"));
+    process.env.DATA_DIR = dataDir;
+    price = 50_000;
+  });
+
+  afterEach(() => {
+    if (previousDataDir === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = previousDataDir;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function createService(): PaperExchangeService {
+    const service = new PaperExchangeService(
+      {
+        load: () => ({
+          basic: { homeStableCoin: "USDT" },
+          advanced: { paperFeeRate: 0.001, paperSlippageBps: 0, paperStartingBalanceHome: 1_000 }
+        })
+      } as unknown as ConfigService,
+      {
+        getSymbolRules: async () => rules,
+        getTickerPrice: async () => String(price)
+      } as unknown as BinanceMarketDataService
+    );
+    return service;
+  }
+
+  it("seeds the wallet and fills market orders with fees in home currency", async () => {
+    const service = createService();
+    expect(service.getBalances()).toEqual([{ asset: "USDT", free: 1_000, locked: 0, total: 1_000 }]);
+
+    const { order } = await service.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", qty: 0.01 });
+
+    expect(order).toMatchObject({ status: "FILLED", price: 50_000, qty: 0.01, feeHome: 0.5 });
+    expect(service.getBalances()).toEqual([
+      { asset: "BTC", free: 0.01, locked: 0, total: 0.01 },
+      { asset: "USDT", free: 499.5, locked: 0, total: 499.5 }
+    ]);
+    expect(fs.existsSync(path.join(dataDir, "paper-wallet.json"))).toBe(true);
+  });
+
+  it("rejects orders the wallet or filters cannot cover", async () => {
+    const service = createService();
+    await expect(service.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", qty: 0.1 })).rejects.toThrow(/insufficient balance/);
+    await expect(service.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", qty: 0.00005 })).rejects.toThrow(/NOTIONAL/);
+  });
+
+  it("reserves funds for resting limits and fills them when crossed", async () => {
+    const service = createService();
+    await service.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", qty: 0.01 });
+    const { order: takeProfit } = await service.placeOrder({ symbol: "BTCUSDT", side: "SELL", type: "LIMIT", qty: 0.01, price: 51_000 });
+
+    expect(takeProfit.status).toBe("NEW");
+    expect(service.getBalances().find((b) => b.asset === "BTC")).toMatchObject({ free: 0, locked: 0.01 });
+
+    const untouched = await service.matchOpenOrders([takeProfit]);
+    expect(untouched.filledOrders).toHaveLength(0);
+
+    price = 51_500;
+    const matched = await service.matchOpenOrders([takeProfit]);
+    expect(matched.activeOrders).toHaveLength(0);
+    expect(matched.filledOrders[0]).toMatchObject({ status: "FILLED", price: 51_000, feeHome: 0.51 });
+    expect(service.getBalances()).toEqual([{ asset: "USDT", free: 1_008.99, locked: 0, total: 1_008.99 }]);
+  });
+
+  it("keeps a resting order's reservation when its fill cannot settle", async () => {
+    const service = createService();
+    await service.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", qty: 0.01 });
+    const { order: takeProfit } = await service.placeOrder({ symbol: "BTCUSDT", side: "SELL", type: "LIMIT", qty: 0.01, price: 51_000 });
+
+    const walletPath = path.join(dataDir, "paper-wallet.json");
+    const wallet = JSON.parse(fs.readFileSync(walletPath, "utf8"));
+    wallet.locked.BTC = 0.005;
+    wallet.reservations[takeProfit.id].amount = 0.005;
+    fs.writeFileSync(walletPath, JSON.stringify(wallet));
+
+    price = 51_500;
+    const matched = await service.matchOpenOrders([takeProfit]);
+
+    expect(matched.filledOrders).toHaveLength(0);
+    expect(matched.activeOrders).toEqual([takeProfit]);
+    expect(service.getBalances().find((b) => b.asset === "BTC")).toMatchObject({ free: 0, locked: 0.005 });
+    expect(JSON.parse(fs.readFileSync(walletPath, "utf8")).reservations[takeProfit.id]).toEqual({ asset: "BTC", amount: 0.005 });
+  });
+});
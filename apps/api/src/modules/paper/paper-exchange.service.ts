@@ -0,0 +1,383 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { Inject, Injectable, Optional } from "@nestjs/common";
+import type { Order } from "@autobot/shared";
+
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
+import { ConfigService } from "../config/config.service";
+import { BinanceMarketDataService, type BinanceSymbolRules } from "../integrations/binance-market-data.service";
+import type { BinanceBalanceSnapshot } from "../integrations/binance-trading.service";
+import {
+  applyPaperFillToWallet,
+  checkPaperOrderFilters,
+  type PaperFill,
+  type PaperFillModel,
+  type PaperOrderSide,
+  type PaperOrderType,
+  type PaperPriceQuote,
+  type PaperWalletBalances,
+  simulateLimitFill,
+  simulateMarketFill
+} from "./paper-fill-simulator";
+
+export type PaperPriceSource = {
+  getQuote(symbol: string): Promise<PaperPriceQuote | null>;
+};
+
+type PaperWalletFile = {
+  version: 1;
+  homeStableCoin: string;
+  startingBalanceHome: number;
+  free: PaperWalletBalances;
+  locked: PaperWalletBalances;
+  // Funds reserved by resting LIMIT orders, keyed by order id.
+  reservations: Record<string, { asset: string; amount: number }>;
+  orders: Record<string, PaperBookEntry>;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PaperOrderRequest = {
+  symbol: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  qty: number;
+  price?: number;
+  clientOrderId?: string;
+};
+
+export type PaperBookEntry = {
+  order: Order;
+  baseAsset: string;
+  quoteAsset: string;
+  fill?: PaperFill;
+  updatedAt: string;
+};
+
+export type PaperOrderResult = {
+  order: Order;
+  fill?: PaperFill;
+};
+
+const MAX_CLOSED_BOOK_ENTRIES = 500;
+
+function atomicWriteFile(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, data, { encoding: "utf-8" });
+  fs.renameSync(tmpPath, filePath);
+}
+
+function addBalance(balances: PaperWalletBalances, asset: string, delta: number): PaperWalletBalances {
+  const next = Math.round(((balances[asset] ?? 0) + delta) * 1e10) / 1e10;
+  return { ...balances, [asset]: Math.max(0, next) };
+}
+
+/** The wallet with the order's reserved amount moved back from locked to free. */
+function withoutReservation(wallet: PaperWalletFile, orderId: string): PaperWalletFile {
+  const reservation = wallet.reservations[orderId];
+  if (!reservation) return wallet;
+  const reservations = { ...wallet.reservations };
+  delete reservations[orderId];
+  return {
+    ...wallet,
+    free: addBalance(wallet.free, reservation.asset, reservation.amount),
+    locked: addBalance(wallet.locked, reservation.asset, -reservation.amount),
+    reservations
+  };
+}
+
+@Injectable()
+export class PaperExchangeService {
+  private readonly dataDir = process.env.DATA_DIR ?? path.resolve(process.cwd(), "../../data");
+  private readonly walletPath = path.join(this.dataDir, "paper-wallet.json");
+  private priceSource: PaperPriceSource | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly marketData: BinanceMarketDataService,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  /** Overrides the live ticker (e.g. recorded klines for replays). Pass `null` to go back to live prices. */
+  setPriceSource(source: PaperPriceSource | null): void {
+    this.priceSource = source;
+  }
+
+  getBalances(): BinanceBalanceSnapshot[] {
+    const wallet = this.loadWallet();
+    const assets = new Set([...Object.keys(wallet.free), ...Object.keys(wallet.locked)]);
+    return [...assets]
+      .map((asset) => {
+        const free = wallet.free[asset] ?? 0;
+        const locked = wallet.locked[asset] ?? 0;
+        return { asset, free, locked, total: free + locked };
+      })
+      .filter((b) => b.total > 0)
+      .sort((a, b) => a.asset.localeCompare(b.asset));
+  }
+
+  reset(): void {
+    this.saveWallet(this.createWallet());
+  }
+
+  getOpenOrders(symbol?: string): Order[] {
+    const sym = symbol?.trim().toUpperCase();
+    return Object.values(this.loadWallet().orders)
+      .map((entry) => entry.order)
+      .filter((order) => order.status === "NEW" && (!sym || order.symbol === sym));
+  }
+
+  getOrderEntry(orderId: string): PaperBookEntry | null {
+    return this.loadWallet().orders[orderId] ?? null;
+  }
+
+  /** All orders still in the book (open plus the most recent closed ones), oldest first. */
+  listOrderEntries(): PaperBookEntry[] {
+    return Object.values(this.loadWallet().orders).sort((a, b) => Date.parse(a.order.ts) - Date.parse(b.order.ts));
+  }
+
+  async placeOrder(request: PaperOrderRequest): Promise<PaperOrderResult> {
+    const symbol = request.symbol.trim().toUpperCase();
+    const rules = await this.marketData.getSymbolRules(symbol);
+    const quote = await this.getQuote(symbol);
+    if (!quote) {
+      throw new Error(`Paper price missing for ${symbol}`);
+    }
+
+    const checkPrice = request.type === "LIMIT" ? (request.price ?? Number.NaN) : quote.price;
+    const filters = checkPaperOrderFilters({ rules, type: request.type, qty: request.qty, price: checkPrice });
+    if (!filters.ok) {
+      throw new Error(filters.reason);
+    }
+
+    const model = this.getFillModel();
+    const baseOrder: Order = {
+      id: `paper-${crypto.randomUUID()}`,
+      ts: new Date(this.clock.now()).toISOString(),
+      symbol,
+      side: request.side,
+      type: request.type,
+      status: "NEW",
+      qty: request.qty,
+      ...(request.clientOrderId ? { clientOrderId: request.clientOrderId } : {}),
+      ...(request.type === "LIMIT" ? { price: checkPrice } : {})
+    };
+
+    if (request.type === "MARKET") {
+      const fill = simulateMarketFill({ side: request.side, qty: request.qty, quote, model });
+      const order = await this.settleFill(rules, baseOrder, fill);
+      return { order, fill };
+    }
+
+    // A LIMIT that is marketable on arrival takes liquidity at the better of limit and last price.
+    const marketable = request.side === "BUY" ? quote.price <= checkPrice : quote.price >= checkPrice;
+    if (marketable) {
+      const fillPrice = request.side === "BUY" ? Math.min(checkPrice, quote.price) : Math.max(checkPrice, quote.price);
+      const quoteQty = request.qty * fillPrice;
+      const fill: PaperFill = {
+        side: request.side,
+        type: "LIMIT",
+        qty: request.qty,
+        price: fillPrice,
+        quoteQty,
+        feeQuote: quoteQty * model.takerFeeRate,
+        liquidity: "TAKER"
+      };
+      const order = await this.settleFill(rules, baseOrder, fill);
+      return { order, fill };
+    }
+
+    this.reserve(rules, baseOrder, checkPrice, model);
+    this.recordOrder({ order: baseOrder, baseAsset: rules.baseAsset, quoteAsset: rules.quoteAsset, updatedAt: baseOrder.ts });
+    return { order: baseOrder };
+  }
+
+  /** Fills resting paper LIMIT orders whose price was crossed since the last check. */
+  async matchOpenOrders(activeOrders: Order[]): Promise<{ activeOrders: Order[]; filledOrders: Order[] }> {
+    const remaining: Order[] = [];
+    const filledOrders: Order[] = [];
+    const model = this.getFillModel();
+
+    const book = this.loadWallet().orders;
+
+    for (const order of activeOrders) {
+      const limitPrice = order.price ?? Number.NaN;
+      const entry = book[order.id];
+      if (entry && entry.order.status === "FILLED") {
+        filledOrders.push(entry.order);
+        continue;
+      }
+      if (entry && entry.order.status !== "NEW") continue;
+      if (!entry || order.status !== "NEW" || order.type !== "LIMIT" || !Number.isFinite(limitPrice) || limitPrice <= 0) {
+        remaining.push(order);
+        continue;
+      }
+
+      try {
+        const quote = await this.getQuote(order.symbol);
+        const fill = quote ? simulateLimitFill({ side: order.side, qty: order.qty, limitPrice, quote, model }) : null;
+        if (!fill) {
+          remaining.push(order);
+          continue;
+        }
+        const rules = await this.marketData.getSymbolRules(order.symbol);
+        filledOrders.push(await this.settleFill(rules, order, fill));
+      } catch {
+        remaining.push(order);
+      }
+    }
+
+    return { activeOrders: remaining, filledOrders };
+  }
+
+  cancelOrder(orderId: string): Order {
+    const entry = this.loadWallet().orders[orderId];
+    if (!entry) {
+      throw new Error(`Unknown paper order ${orderId}`);
+    }
+    if (entry.order.status !== "NEW") {
+      return entry.order;
+    }
+
+    this.release(orderId);
+    const canceled: Order = { ...entry.order, status: "CANCELED" };
+    this.recordOrder({ ...entry, order: canceled, updatedAt: new Date(this.clock.now()).toISOString() });
+    return canceled;
+  }
+
+  private getFillModel(): PaperFillModel {
+    const config = this.configService.load();
+    const feeRate = config?.advanced.paperFeeRate ?? 0.001;
+    return {
+      takerFeeRate: feeRate,
+      makerFeeRate: feeRate,
+      slippageBps: config?.advanced.paperSlippageBps ?? 5
+    };
+  }
+
+  private async getQuote(symbol: string): Promise<PaperPriceQuote | null> {
+    if (this.priceSource) {
+      return await this.priceSource.getQuote(symbol);
+    }
+    const price = Number.parseFloat(await this.marketData.getTickerPrice(symbol));
+    return Number.isFinite(price) && price > 0 ? { price } : null;
+  }
+
+  /** Releases the order's reservation and books the fill in one wallet write; if the fill is rejected, the reservation stays. */
+  private async settleFill(rules: BinanceSymbolRules, order: Order, fill: PaperFill): Promise<Order> {
+    const wallet = withoutReservation(this.loadWallet(), order.id);
+    const free = applyPaperFillToWallet({
+      balances: wallet.free,
+      baseAsset: rules.baseAsset,
+      quoteAsset: rules.quoteAsset,
+      fill
+    });
+    this.saveWallet({ ...wallet, free });
+
+    const feeHome = await this.estimateFeeHome(rules.quoteAsset, fill.feeQuote, wallet.homeStableCoin);
+    const filled: Order = {
+      ...order,
+      status: "FILLED",
+      price: fill.price,
+      ...(feeHome !== null ? { feeHome } : {})
+    };
+    this.recordOrder({ order: filled, baseAsset: rules.baseAsset, quoteAsset: rules.quoteAsset, fill, updatedAt: new Date(this.clock.now()).toISOString() });
+    return filled;
+  }
+
+  private recordOrder(entry: PaperBookEntry): void {
+    const wallet = this.loadWallet();
+    const orders = { ...wallet.orders, [entry.order.id]: entry };
+    const closed = Object.values(orders)
+      .filter((e) => e.order.status !== "NEW")
+      .sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt));
+    for (const stale of closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_BOOK_ENTRIES))) {
+      delete orders[stale.order.id];
+    }
+    this.saveWallet({ ...wallet, orders });
+  }
+
+  private reserve(rules: BinanceSymbolRules, order: Order, limitPrice: number, model: PaperFillModel): void {
+    const wallet = this.loadWallet();
+    const asset = (order.side === "BUY" ? rules.quoteAsset : rules.baseAsset).trim().toUpperCase();
+    const amount = order.side === "BUY" ? order.qty * limitPrice * (1 + model.makerFeeRate) : order.qty;
+    const available = wallet.free[asset] ?? 0;
+    if (amount > available + 1e-9) {
+      throw new Error(`Account has insufficient balance for requested action (paper ${asset} ${available} < ${amount})`);
+    }
+    this.saveWallet({
+      ...wallet,
+      free: addBalance(wallet.free, asset, -amount),
+      locked: addBalance(wallet.locked, asset, amount),
+      reservations: { ...wallet.reservations, [order.id]: { asset, amount } }
+    });
+  }
+
+  private release(orderId: string): void {
+    const wallet = this.loadWallet();
+    if (!wallet.reservations[orderId]) return;
+    this.saveWallet(withoutReservation(wallet, orderId));
+  }
+
+  private async estimateFeeHome(quoteAsset: string, feeQuote: number, homeStableCoin: string): Promise<number | null> {
+    const quote = quoteAsset.trim().toUpperCase();
+    const home = homeStableCoin.trim().toUpperCase();
+    if (!Number.isFinite(feeQuote) || feeQuote <= 0) return 0;
+    if (quote === home) return feeQuote;
+
+    try {
+      const direct = await this.getQuote(`${quote}${home}`);
+      if (direct) return feeQuote * direct.price;
+    } catch {
+      // fall through to the inverse pair
+    }
+    try {
+      const inverse = await this.getQuote(`${home}${quote}`);
+      if (inverse) return feeQuote / inverse.price;
+    } catch {
+      // unknown conversion path
+    }
+    return null;
+  }
+
+  private createWallet(): PaperWalletFile {
+    const config = this.configService.load();
+    const homeStableCoin = (config?.basic.homeStableCoin ?? "USDT").trim().toUpperCase();
+    const startingBalanceHome = config?.advanced.paperStartingBalanceHome ?? 10_000;
+    const now = new Date(this.clock.now()).toISOString();
+    return {
+      version: 1,
+      homeStableCoin,
+      startingBalanceHome,
+      free: { [homeStableCoin]: startingBalanceHome },
+      locked: {},
+      reservations: {},
+      orders: {},
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private loadWallet(): PaperWalletFile {
+    try {
+      if (fs.existsSync(this.walletPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.walletPath, "utf-8")) as PaperWalletFile;
+        if (parsed?.version === 1 && parsed.free && parsed.locked) {
+          return { ...parsed, reservations: parsed.reservations ?? {}, orders: parsed.orders ?? {} };
+        }
+      }
+    } catch {
+      // fall back to a freshly seeded wallet
+    }
+    const wallet = this.createWallet();
+    this.saveWallet(wallet);
+    return wallet;
+  }
+
+  private saveWallet(wallet: PaperWalletFile): void {
+    fs.mkdirSync(this.dataDir, { recursive: true });
+    atomicWriteFile(this.walletPath, JSON.stringify({ ...wallet, updatedAt: new Date(this.clock.now()).toISOString() }, null, 2) + "\n");
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import type { BinanceSymbolRules } from "../integrations/binance-market-data.service";
+import { applyPaperFillToWallet, checkPaperOrderFilters, simulateLimitFill, simulateMarketFill } from "./paper-fill-simulator";
+
+const rules: BinanceSymbolRules = {
+  symbol: "ETHUSDT",
+  status: "TRADING",
+  baseAsset: "ETH",
+  quoteAsset: "USDT",
+  priceFilter: { filterType: "PRICE_FILTER", minPrice: "0.01000000", maxPrice: "1000000.00000000", tickSize: "0.01000000" },
+  lotSize: { filterType: "LOT_SIZE", minQty: "0.00010000", maxQty: "9000.00000000", stepSize: "0.00010000" },
+  marketLotSize: { filterType: "MARKET_LOT_SIZE", minQty: "0.00000000", maxQty: "1000.00000000", stepSize: "0.00000000" },
+  notional: { filterType: "NOTIONAL", minNotional: "5.00000000", applyMinToMarket: true }
+};
+
+const model = { takerFeeRate: 0.001, makerFeeRate: 0.001, slippageBps: 10 };
+
+describe("paper-fill-simulator", () => {
+  it("rejects orders that violate exchange filters", () => {
+    expect(checkPaperOrderFilters({ rules, type: "MARKET", qty: 0.001, price: 3000 })).toEqual({
+      ok: false,
+      reason: "Filter failure: NOTIONAL (minNotional 5.00000000)"
+    });
+    expect(checkPaperOrderFilters({ rules, type: "LIMIT", qty: 0.01005, price: 3000 })).toMatchObject({ ok: false });
+    expect(checkPaperOrderFilters({ rules, type: "LIMIT", qty: 0.01, price: 3000.005 })).toMatchObject({ ok: false });
+    expect(checkPaperOrderFilters({ rules, type: "LIMIT", qty: 0.01, price: 3000.01 })).toEqual({ ok: true });
+    expect(checkPaperOrderFilters({ rules: { ...rules, status: "BREAK" }, type: "MARKET", qty: 0.01, price: 3000 })).toMatchObject({
+      ok: false
+    });
+  });
+
+  it("applies slippage against the taker and charges the fee in quote", () => {
+    const buy = simulateMarketFill({ side: "BUY", qty: 0.5, quote: { price: 2000 }, model });
+    expect(buy.price).toBeCloseTo(2002, 8);
+    expect(buy.quoteQty).toBeCloseTo(1001, 8);
+    expect(buy.feeQuote).toBeCloseTo(1.001, 8);
+    expect(buy.liquidity).toBe("TAKER");
+
+    const sell = simulateMarketFill({ side: "SELL", qty: 0.5, quote: { price: 2000 }, model });
+    expect(sell.price).toBeCloseTo(1998, 8);
+  });
+
+  it("fills resting limits only once the price range crosses them", () => {
+    expect(simulateLimitFill({ side: "BUY", qty: 1, limitPrice: 99, quote: { price: 100 }, model })).toBeNull();
+    expect(simulateLimitFill({ side: "BUY", qty: 1, limitPrice: 99, quote: { price: 100, low: 98.5 }, model })).toMatchObject({
+      price: 99,
+      liquidity: "MAKER"
+    });
+    expect(simulateLimitFill({ side: "SELL", qty: 1, limitPrice: 101, quote: { price: 100, high: 100.9 }, model })).toBeNull();
+    expect(simulateLimitFill({ side: "SELL", qty: 1, limitPrice: 101, quote: { price: 101.2 }, model })?.quoteQty).toBe(101);
+  });
+
+  it("settles fills against the virtual wallet and refuses overdrafts", () => {
+    const afterBuy = applyPaperFillToWallet({
+      balances: { USDT: 1000 },
+      baseAsset: "ETH",
+      quoteAsset: "USDT",
+      fill: { side: "BUY", qty: 0.25, quoteQty: 500, feeQuote: 0.5 }
+    });
+    expect(afterBuy).toEqual({ USDT: 499.5, ETH: 0.25 });
+
+    const afterSell = applyPaperFillToWallet({
+      balances: afterBuy,
+      baseAsset: "ETH",
+      quoteAsset: "USDT",
+      fill: { side: "SELL", qty: 0.25, quoteQty: 510, feeQuote: 0.51 }
+    });
+    expect(afterSell).toEqual({ USDT: 1008.99, ETH: 0 });
+
+    expect(() =>
+      applyPaperFillToWallet({
+        balances: { USDT: 10 },
+        baseAsset: "ETH",
+        quoteAsset: "USDT",
+        fill: { side: "BUY", qty: 1, quoteQty: 2000, feeQuote: 2 }
+      })
+    ).toThrow(/insufficient balance/);
+  });
+});
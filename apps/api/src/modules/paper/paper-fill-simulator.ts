@@ -0,0 +1,199 @@
+import type { BinanceSymbolRules } from "../integrations/binance-market-data.service";
+
+export type PaperOrderSide = "BUY" | "SELL";
+export type PaperOrderType = "MARKET" | "LIMIT";
+
+export type PaperFillModel = {
+  takerFeeRate: number;
+  makerFeeRate: number;
+  slippageBps: number;
+};
+
+export type PaperPriceQuote = {
+  price: number;
+  // Optional range since the previous quote (e.g. a kline high/low) so resting limits can fill on wicks.
+  low?: number;
+  high?: number;
+};
+
+export type PaperFill = {
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  qty: number;
+  price: number;
+  quoteQty: number;
+  feeQuote: number;
+  liquidity: "MAKER" | "TAKER";
+};
+
+export type PaperWalletBalances = Record<string, number>;
+
+export type PaperFilterCheck = { ok: true } | { ok: false; reason: string };
+
+const EPSILON = 1e-9;
+
+function toFiniteNumber(value: string | undefined): number {
+  const n = value === undefined ? Number.NaN : Number.parseFloat(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function isMultipleOf(value: number, step: number, offset = 0): boolean {
+  if (!Number.isFinite(step) || step <= 0) return true;
+  const units = (value - offset) / step;
+  return Math.abs(units - Math.round(units)) <= 1e-6;
+}
+
+function roundQuote(value: number): number {
+  return Math.round(value * 1e10) / 1e10;
+}
+
+/**
+ * Applies the same exchangeInfo filters Binance enforces on order placement.
+ * Paper orders must be normalized by the caller beforehand; violations are rejected like a real `Filter failure`.
+ */
+export function checkPaperOrderFilters(params: {
+  rules: BinanceSymbolRules;
+  type: PaperOrderType;
+  qty: number;
+  price: number;
+}): PaperFilterCheck {
+  const { rules, type, qty, price } = params;
+  if (rules.status && rules.status !== "TRADING") {
+    return { ok: false, reason: `Symbol ${rules.symbol} is not trading (${rules.status})` };
+  }
+  if (!Number.isFinite(qty) || qty <= 0) return { ok: false, reason: "Invalid quantity" };
+  if (!Number.isFinite(price) || price <= 0) return { ok: false, reason: "Invalid price" };
+
+  const lot = type === "MARKET" ? (rules.marketLotSize ?? rules.lotSize) : rules.lotSize;
+  if (lot) {
+    const minQty = toFiniteNumber(lot.minQty);
+    const maxQty = toFiniteNumber(lot.maxQty);
+    const stepSize = toFiniteNumber(lot.stepSize);
+    if (Number.isFinite(minQty) && qty + EPSILON < minQty) return { ok: false, reason: `Filter failure: ${lot.filterType} (minQty ${lot.minQty})` };
+    if (Number.isFinite(maxQty) && maxQty > 0 && qty - EPSILON > maxQty) {
+      return { ok: false, reason: `Filter failure: ${lot.filterType} (maxQty ${lot.maxQty})` };
+    }
+    if (Number.isFinite(stepSize) && stepSize > 0 && !isMultipleOf(qty, stepSize, Number.isFinite(minQty) ? minQty : 0)) {
+      return { ok: false, reason: `Filter failure: ${lot.filterType} (stepSize ${lot.stepSize})` };
+    }
+  }
+
+  if (type === "LIMIT" && rules.priceFilter) {
+    const minPrice = toFiniteNumber(rules.priceFilter.minPrice);
+    const maxPrice = toFiniteNumber(rules.priceFilter.maxPrice);
+    const tickSize = toFiniteNumber(rules.priceFilter.tickSize);
+    if (Number.isFinite(minPrice) && minPrice > 0 && price + EPSILON < minPrice) {
+      return { ok: false, reason: `Filter failure: PRICE_FILTER (minPrice ${rules.priceFilter.minPrice})` };
+    }
+    if (Number.isFinite(maxPrice) && maxPrice > 0 && price - EPSILON > maxPrice) {
+      return { ok: false, reason: `Filter failure: PRICE_FILTER (maxPrice ${rules.priceFilter.maxPrice})` };
+    }
+    if (Number.isFinite(tickSize) && tickSize > 0 && !isMultipleOf(price, tickSize)) {
+      return { ok: false, reason: `Filter failure: PRICE_FILTER (tickSize ${rules.priceFilter.tickSize})` };
+    }
+  }
+
+  const notionalFilter = rules.notional;
+  if (notionalFilter) {
+    const appliesToOrder =
+      type === "LIMIT" ||
+      (notionalFilter.filterType === "NOTIONAL" ? notionalFilter.applyMinToMarket : notionalFilter.applyToMarket);
+    const minNotional = toFiniteNumber(notionalFilter.minNotional);
+    const notional = qty * price;
+    if (appliesToOrder && Number.isFinite(minNotional) && notional + EPSILON < minNotional) {
+      return { ok: false, reason: `Filter failure: ${notionalFilter.filterType} (minNotional ${notionalFilter.minNotional})` };
+    }
+    if (notionalFilter.filterType === "NOTIONAL" && notionalFilter.maxNotional) {
+      const maxNotional = toFiniteNumber(notionalFilter.maxNotional);
+      const appliesMax = type === "LIMIT" || Boolean(notionalFilter.applyMaxToMarket);
+      if (appliesMax && Number.isFinite(maxNotional) && maxNotional > 0 && notional - EPSILON > maxNotional) {
+        return { ok: false, reason: `Filter failure: NOTIONAL (maxNotional ${notionalFilter.maxNotional})` };
+      }
+    }
+  }
+
+  return { ok: true };
+}
+
+/** Market orders take liquidity: the reference price is moved against the taker by `slippageBps`. */
+export function simulateMarketFill(params: {
+  side: PaperOrderSide;
+  qty: number;
+  quote: PaperPriceQuote;
+  model: PaperFillModel;
+}): PaperFill {
+  const slippage = Math.max(0, params.model.slippageBps) / 10_000;
+  const price = params.side === "BUY" ? params.quote.price * (1 + slippage) : params.quote.price * (1 - slippage);
+  const quoteQty = roundQuote(params.qty * price);
+  return {
+    side: params.side,
+    type: "MARKET",
+    qty: params.qty,
+    price,
+    quoteQty,
+    feeQuote: roundQuote(quoteQty * Math.max(0, params.model.takerFeeRate)),
+    liquidity: "TAKER"
+  };
+}
+
+/**
+ * Resting limit orders fill at their limit price once the market trades through it.
+ * A BUY fills when the low (or last price) is at/below the limit; a SELL when the high is at/above it.
+ */
+export function simulateLimitFill(params: {
+  side: PaperOrderSide;
+  qty: number;
+  limitPrice: number;
+  quote: PaperPriceQuote;
+  model: PaperFillModel;
+}): PaperFill | null {
+  const low = Number.isFinite(params.quote.low) ? Math.min(params.quote.low ?? params.quote.price, params.quote.price) : params.quote.price;
+  const high = Number.isFinite(params.quote.high) ? Math.max(params.quote.high ?? params.quote.price, params.quote.price) : params.quote.price;
+  const crossed = params.side === "BUY" ? low <= params.limitPrice : high >= params.limitPrice;
+  if (!crossed) return null;
+
+  const quoteQty = roundQuote(params.qty * params.limitPrice);
+  return {
+    side: params.side,
+    type: "LIMIT",
+    qty: params.qty,
+    price: params.limitPrice,
+    quoteQty,
+    feeQuote: roundQuote(quoteQty * Math.max(0, params.model.makerFeeRate)),
+    liquidity: "MAKER"
+  };
+}
+
+/**
+ * Settles a fill against the virtual wallet. Fees are charged in the quote asset.
+ * Throws when the wallet cannot cover the fill, mirroring Binance's insufficient balance rejection.
+ */
+export function applyPaperFillToWallet(params: {
+  balances: PaperWalletBalances;
+  baseAsset: string;
+  quoteAsset: string;
+  fill: Pick<PaperFill, "side" | "qty" | "quoteQty" | "feeQuote">;
+}): PaperWalletBalances {
+  const base = params.baseAsset.trim().toUpperCase();
+  const quote = params.quoteAsset.trim().toUpperCase();
+  const next: PaperWalletBalances = { ...params.balances };
+  const baseFree = next[base] ?? 0;
+  const quoteFree = next[quote] ?? 0;
+
+  if (params.fill.side === "BUY") {
+    const cost = params.fill.quoteQty + params.fill.feeQuote;
+    if (cost > quoteFree + EPSILON) {
+      throw new Error(`Account has insufficient balance for requested action (paper ${quote} ${quoteFree} < ${cost})`);
+    }
+    next[quote] = roundQuote(Math.max(0, quoteFree - cost));
+    next[base] = roundQuote(baseFree + params.fill.qty);
+  } else {
+    if (params.fill.qty > baseFree + EPSILON) {
+      throw new Error(`Account has insufficient balance for requested action (paper ${base} ${baseFree} < ${params.fill.qty})`);
+    }
+    next[base] = roundQuote(Math.max(0, baseFree - params.fill.qty));
+    next[quote] = roundQuote(quoteFree + params.fill.quoteQty - params.fill.feeQuote);
+  }
+
+  return next;
+}
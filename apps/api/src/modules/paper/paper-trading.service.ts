@@ -0,0 +1,149 @@
+import { Injectable } from "@nestjs/common";
+import type { Order } from "@autobot/shared";
+
+import { ConfigService } from "../config/config.service";
+import {
+  BinanceTradingService,
+  type BinanceBalanceSnapshot,
+  type BinanceMarketOrderResponse,
+  type BinanceOrderListSnapshot,
+  type BinanceOrderSnapshot
+} from "../integrations/binance-trading.service";
+import { PaperExchangeService, type PaperBookEntry } from "./paper-exchange.service";
+
+function toOrderSnapshot(entry: PaperBookEntry): BinanceOrderSnapshot {
+  const { order, fill } = entry;
+  const executedQty = order.status === "FILLED" ? order.qty : 0;
+  const quoteQty = fill ? fill.quoteQty : order.status === "FILLED" ? order.qty * (order.price ?? 0) : 0;
+  return {
+    symbol: order.symbol,
+    orderId: order.id,
+    clientOrderId: order.clientOrderId,
+    transactTime: Date.parse(order.ts),
+    price: order.type === "LIMIT" && order.price !== undefined ? String(order.price) : "0",
+    origQty: String(order.qty),
+    executedQty: String(executedQty),
+    cummulativeQuoteQty: String(quoteQty),
+    status: order.status,
+    type: order.type,
+    side: order.side
+  };
+}
+
+function requireEntry(paper: PaperExchangeService, order: Order): PaperBookEntry {
+  const entry = paper.getOrderEntry(order.id);
+  if (!entry) {
+    throw new Error(`Unknown paper order ${order.id}`);
+  }
+  return entry;
+}
+
+/**
+ * `BinanceTradingService` drop-in backed by the paper exchange, so the live decision path
+ * (sizing, grid legs, exits, conversions) can run against the virtual wallet.
+ */
+@Injectable()
+export class PaperTradingService extends BinanceTradingService {
+  constructor(
+    configService: ConfigService,
+    private readonly paper: PaperExchangeService
+  ) {
+    super(configService);
+  }
+
+  /** Exchange-side brackets need OCO lists, which the paper exchange does not simulate. */
+  override supportsOrderLists(): boolean {
+    return false;
+  }
+
+  override supportsFutures(): boolean {
+    return false;
+  }
+
+  override async placeOcoSell(): Promise<BinanceOrderListSnapshot> {
+    throw new Error("Order lists are not supported in paper mode.");
+  }
+
+  override async placeStopLossLimitOrder(): Promise<BinanceOrderSnapshot> {
+    throw new Error("Stop-loss limit orders are not supported in paper mode.");
+  }
+
+  override async cancelOrderList(): Promise<BinanceOrderListSnapshot> {
+    throw new Error("Order lists are not supported in paper mode.");
+  }
+
+  override async getOpenOrderLists(): Promise<BinanceOrderListSnapshot[]> {
+    return [];
+  }
+
+  override async getBalances(): Promise<BinanceBalanceSnapshot[]> {
+    return this.paper.getBalances();
+  }
+
+  override async placeSpotMarketOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    clientOrderId?: string;
+  }): Promise<BinanceMarketOrderResponse> {
+    const result = await this.paper.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: "MARKET",
+      qty: Number.parseFloat(params.quantity),
+      clientOrderId: params.clientOrderId
+    });
+    const entry = requireEntry(this.paper, result.order);
+    return {
+      ...toOrderSnapshot(entry),
+      orderId: undefined,
+      fills: result.fill
+        ? [
+            {
+              price: String(result.fill.price),
+              qty: String(result.fill.qty),
+              commission: String(result.fill.feeQuote),
+              commissionAsset: entry.quoteAsset
+            }
+          ]
+        : []
+    };
+  }
+
+  override async placeSpotLimitOrder(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: string;
+    price: string;
+    timeInForce?: "GTC" | "IOC" | "FOK";
+    postOnly?: boolean;
+    clientOrderId?: string;
+  }): Promise<BinanceOrderSnapshot> {
+    const result = await this.paper.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: "LIMIT",
+      qty: Number.parseFloat(params.quantity),
+      price: Number.parseFloat(params.price),
+      clientOrderId: params.clientOrderId
+    });
+    return toOrderSnapshot(requireEntry(this.paper, result.order));
+  }
+
+  override async getOpenOrders(symbol?: string): Promise<BinanceOrderSnapshot[]> {
+    return this.paper.getOpenOrders(symbol).map((order) => toOrderSnapshot(requireEntry(this.paper, order)));
+  }
+
+  override async getOrder(_symbol: string, orderId: string): Promise<BinanceOrderSnapshot> {
+    const entry = this.paper.getOrderEntry(orderId);
+    if (!entry) {
+      throw new Error(`Binance HTTP 400: {"code":-2013,"msg":"Order does not exist."}`);
+    }
+    return toOrderSnapshot(entry);
+  }
+
+  override async cancelOrder(_symbol: string, orderId: string): Promise<BinanceOrderSnapshot> {
+    const canceled = this.paper.cancelOrder(orderId);
+    return toOrderSnapshot(requireEntry(this.paper, canceled));
+  }
+}
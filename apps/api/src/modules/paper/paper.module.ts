@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+
+import { ConfigModule } from "../config/config.module";
+import { IntegrationsModule } from "../integrations/integrations.module";
+import { PaperExchangeService } from "./paper-exchange.service";
+import { PaperTradingService } from "./paper-trading.service";
+
+@Module({
+  imports: [ConfigModule, IntegrationsModule],
+  providers: [PaperExchangeService, PaperTradingService],
+  exports: [PaperExchangeService, PaperTradingService]
+})
+export class PaperModule {}
@@ -0,0 +1,34 @@
+import type { ExecutionContext } from "@nestjs/common";
+import { UnauthorizedException } from "@nestjs/common";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { ConfigService } from "../config/config.service";
+import { ApiKeyGuard } from "./api-key.guard";
+
+function contextFor(path: string, headers: Record<string, string>): ExecutionContext {
+  const req = { path, header: (name: string) => headers[name.toLowerCase()] };
+  return { switchToHttp: () => ({ getRequest: () => req }) } as unknown as ExecutionContext;
+}
+
+describe("ApiKeyGuard", () => {
+  const guard = new ApiKeyGuard({ load: () => ({ advanced: { apiKey: "api-key" } }) } as unknown as ConfigService);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts the metrics scrape token on /metrics only, next to the API key", () => {
+    vi.stubEnv("API_METRICS_TOKEN", "scrape-token");
+
+    expect(guard.canActivate(contextFor("/metrics", { authorization: "Bearer scrape-token" }))).toBe(true);
+    expect(guard.canActivate(contextFor("/metrics", { "x-api-key": "api-key" }))).toBe(true);
+    expect(() => guard.canActivate(contextFor("/metrics", { authorization: "Bearer wrong" }))).toThrow(UnauthorizedException);
+    expect(() => guard.canActivate(contextFor("/bot/status", { authorization: "Bearer scrape-token" }))).toThrow(UnauthorizedException);
+  });
+
+  it("requires the API key on /metrics when no scrape token is configured", () => {
+    vi.stubEnv("API_METRICS_TOKEN", "");
+
+    expect(() => guard.canActivate(contextFor("/metrics", { authorization: "Bearer " }))).toThrow(UnauthorizedException);
+  });
+});
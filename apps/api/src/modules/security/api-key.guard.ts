@@ -11,6 +11,13 @@ export class ApiKeyGuard implements CanActivate {
     const req = context.switchToHttp().getRequest<Request>();
     const path = req.path ?? req.url;
 
+    // Optional separate credential for Prometheus (`authorization: Bearer <API_METRICS_TOKEN>`), so the scraper
+    // never holds the API key. The API key keeps working for /metrics either way.
+    const metricsToken = process.env.API_METRICS_TOKEN?.trim();
+    if (path === "/metrics" && metricsToken && req.header("authorization") === `Bearer ${metricsToken}`) {
+      return true;
+    }
+
     const config = this.configService.load();
     if (!config) {
       if (path === "/health" || path.startsWith("/setup")) {
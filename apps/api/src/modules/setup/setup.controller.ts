@@ -1,6 +1,6 @@
 import { Body, ConflictException, Controller, Get, Post } from "@nestjs/common";
-import type { AppConfig, BasicSetupRequest } from "@autobot/shared";
-import { AppConfigSchema, BasicSetupRequestSchema, defaultHomeStableCoin, deriveSettings } from "@autobot/shared";
+import type { BasicSetupRequest } from "@autobot/shared";
+import { BasicSetupRequestSchema, defaultHomeStableCoin, deriveSettings } from "@autobot/shared";
 
 import { ConfigService } from "../config/config.service";
 
@@ -27,7 +27,7 @@ export class SetupController {
     };
 
     const config = this.configService.createInitialConfig(normalized);
-    this.configService.save(config);
+    this.configService.save(config, "POST /setup/basic");
 
     return { initialized: true };
   }
@@ -38,9 +38,9 @@ export class SetupController {
       throw new ConflictException("Already initialized.");
     }
 
-    const config = AppConfigSchema.parse(body) satisfies AppConfig;
-    const derived = deriveSettings({ risk: config.basic.risk, tradeMode: config.basic.tradeMode });
-    this.configService.save({ ...config, updatedAt: new Date().toISOString(), derived });
+    const config = this.configService.parseImport(body);
+    const derived = deriveSettings({ risk: config.basic.risk, tradeMode: config.basic.tradeMode }, config.advanced);
+    this.configService.save({ ...config, updatedAt: new Date().toISOString(), derived }, "POST /setup/import");
     return { initialized: true };
   }
 }
@@ -2,11 +2,12 @@ import { Module } from "@nestjs/common";
 
 import { ConfigModule } from "../config/config.module";
 import { IntegrationsModule } from "../integrations/integrations.module";
+import { MarketDataModule } from "../market-data/market-data.module";
 import { UniverseController } from "./universe.controller";
 import { UniverseService } from "./universe.service";
 
 @Module({
-  imports: [ConfigModule, IntegrationsModule],
+  imports: [ConfigModule, IntegrationsModule, MarketDataModule],
   controllers: [UniverseController],
   providers: [UniverseService],
   exports: [UniverseService]
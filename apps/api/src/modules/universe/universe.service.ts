@@ -1,56 +1,24 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import { Injectable } from "@nestjs/common";
-import type { UniverseCandidate, UniverseSnapshot } from "@autobot/shared";
+import { Inject, Injectable, Optional } from "@nestjs/common";
+import type { AppConfig, UniverseCandidate, UniverseSnapshot } from "@autobot/shared";
 import {
   computeBollingerSignal,
   computeDonchianBreakoutPct,
-  computeEmaTrendSpreadPct,
   computeRangeCycleScore,
   UNIVERSE_VERSION,
   UniverseSnapshotSchema
 } from "@autobot/shared";
 
+import { CLOCK, type Clock, SystemClock } from "../clock/clock";
 import { ConfigService } from "../config/config.service";
 import { resolveRouteBridgeAssets, resolveUniverseDefaultQuoteAssets, resolveWalletQuoteHintLimit } from "../config/asset-routing";
-import { resolveBinanceBaseUrl } from "../integrations/binance-base-url";
-import { BinanceClient } from "../integrations/binance-client";
-import { BinanceTradingService } from "../integrations/binance-trading.service";
+import { EXCHANGE_TRADING, type ExchangeAdapter, type ExchangeSymbolInfo, type ExchangeTicker24h, type ExchangeTrading } from "../integrations/exchange-adapter";
+import { createExchangeAdapter, resolveExchangeBaseUrl } from "../integrations/exchange-adapter-factory";
+import { KlineCacheService } from "../market-data/kline-cache.service";
 import { getPairPolicyBlockReason } from "../policy/trading-policy";
 
-type ExchangeInfoResponse = {
-  symbols?: Array<{
-    symbol: string;
-    status: string;
-    baseAsset: string;
-    quoteAsset: string;
-    permissions?: string[];
-  }>;
-};
-
-type KlineRow = [
-  number,
-  string,
-  string,
-  string,
-  string,
-  string,
-  number,
-  string,
-  number,
-  string,
-  string,
-  string
-];
-
-type Ticker24h = {
-  symbol: string;
-  lastPrice: string;
-  quoteVolume: string;
-  priceChangePercent: string;
-};
-
 function atomicWriteFile(filePath: string, data: string): void {
   const tmpPath = `${filePath}.tmp`;
   fs.writeFileSync(tmpPath, data, { encoding: "utf-8" });
@@ -145,113 +113,6 @@ function clampNumber(v: number | null, min: number, max: number): number | null
   return v;
 }
 
-function computeRsi(closes: number[], period = 14): number | null {
-  if (closes.length < period + 1) return null;
-  let gain = 0;
-  let loss = 0;
-  for (let i = 1; i <= period; i += 1) {
-    const diff = closes[i] - closes[i - 1];
-    if (diff >= 0) gain += diff;
-    else loss -= diff;
-  }
-  let avgGain = gain / period;
-  let avgLoss = loss / period;
-
-  for (let i = period + 1; i < closes.length; i += 1) {
-    const diff = closes[i] - closes[i - 1];
-    const g = diff > 0 ? diff : 0;
-    const l = diff < 0 ? -diff : 0;
-    avgGain = (avgGain * (period - 1) + g) / period;
-    avgLoss = (avgLoss * (period - 1) + l) / period;
-  }
-
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - 100 / (1 + rs);
-}
-
-function computeAtrPct(highs: number[], lows: number[], closes: number[], period = 14): number | null {
-  if (closes.length < period + 1) return null;
-  let atr: number | null = null;
-  for (let i = 1; i < closes.length; i += 1) {
-    const tr = Math.max(
-      highs[i] - lows[i],
-      Math.abs(highs[i] - closes[i - 1]),
-      Math.abs(lows[i] - closes[i - 1])
-    );
-    if (i <= period) {
-      atr = (atr ?? 0) + tr;
-      if (i === period) atr = (atr ?? 0) / period;
-      continue;
-    }
-    atr = ((atr ?? 0) * (period - 1) + tr) / period;
-  }
-  const lastClose = closes[closes.length - 1];
-  if (!atr || lastClose <= 0) return null;
-  return (atr / lastClose) * 100;
-}
-
-function computeAdx(highs: number[], lows: number[], closes: number[], period = 14): number | null {
-  if (closes.length < period * 2 + 2) return null;
-  const plusDM: number[] = [];
-  const minusDM: number[] = [];
-  const trArr: number[] = [];
-  for (let i = 1; i < closes.length; i += 1) {
-    const upMove = highs[i] - highs[i - 1];
-    const downMove = lows[i - 1] - lows[i];
-    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
-    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
-    const tr = Math.max(
-      highs[i] - lows[i],
-      Math.abs(highs[i] - closes[i - 1]),
-      Math.abs(lows[i] - closes[i - 1])
-    );
-    trArr.push(tr);
-  }
-
-  const smooth = (values: number[]): number[] => {
-    const out: number[] = [];
-    let sum = 0;
-    for (let i = 0; i < values.length; i += 1) {
-      sum += values[i];
-      if (i === period - 1) {
-        out.push(sum);
-        continue;
-      }
-      if (i >= period) {
-        sum = out[out.length - 1] - out[out.length - 1] / period + values[i];
-        out.push(sum);
-      }
-    }
-    return out;
-  };
-
-  const trSmooth = smooth(trArr);
-  const plusSmooth = smooth(plusDM);
-  const minusSmooth = smooth(minusDM);
-  const len = Math.min(trSmooth.length, plusSmooth.length, minusSmooth.length);
-  if (len === 0) return null;
-
-  const dx: number[] = [];
-  for (let i = 0; i < len; i += 1) {
-    const tr = trSmooth[i];
-    if (tr === 0) continue;
-    const plusDI = (100 * plusSmooth[i]) / tr;
-    const minusDI = (100 * minusSmooth[i]) / tr;
-    const denom = plusDI + minusDI;
-    if (denom === 0) continue;
-    dx.push((100 * Math.abs(plusDI - minusDI)) / denom);
-  }
-  if (dx.length < period) return null;
-
-  // Wilder smoothing for ADX
-  let adx = dx.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  for (let i = period; i < dx.length; i += 1) {
-    adx = ((adx * (period - 1)) + dx[i]) / period;
-  }
-  return adx;
-}
-
 async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
   const results: R[] = new Array(items.length) as R[];
   let nextIndex = 0;
@@ -278,7 +139,9 @@ export class UniverseService {
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly trading: BinanceTradingService
+    @Inject(EXCHANGE_TRADING) private readonly trading: ExchangeTrading,
+    @Optional() @Inject(CLOCK) private readonly clock: Clock = new SystemClock(),
+    @Optional() private readonly klines: KlineCacheService = new KlineCacheService(configService, clock)
   ) {}
 
   private async getWalletQuoteHints(maxItems: number): Promise<string[]> {
@@ -305,7 +168,7 @@ export class UniverseService {
 
   async getLatest(): Promise<UniverseSnapshot> {
     const cacheTtlMs = 5 * 60_000;
-    const now = Date.now();
+    const now = this.clock.now();
     if (this.cached && now - this.cachedAtMs < cacheTtlMs) {
       return this.cached;
     }
@@ -334,10 +197,10 @@ export class UniverseService {
     void this.triggerScan();
     return UniverseSnapshotSchema.parse({
       version: UNIVERSE_VERSION,
-      startedAt: new Date().toISOString(),
-      finishedAt: new Date().toISOString(),
+      startedAt: new Date(this.clock.now()).toISOString(),
+      finishedAt: new Date(this.clock.now()).toISOString(),
       durationMs: 0,
-      baseUrl: resolveBinanceBaseUrl(this.configService.load()),
+      baseUrl: resolveExchangeBaseUrl(this.configService.load()),
       interval: "1h",
       quoteAssets: [],
       candidates: [],
@@ -364,10 +227,18 @@ export class UniverseService {
   }
 
   private async scanNow(): Promise<void> {
-    const startedAt = new Date();
     const config = this.configService.load();
-    const baseUrl = resolveBinanceBaseUrl(config);
-    const client = new BinanceClient({ baseUrl, timeoutMs: 12_000 });
+    const adapter = createExchangeAdapter(config, { priority: "LOW" });
+    try {
+      await this.scanWith(adapter, config);
+    } finally {
+      await adapter.close().catch(() => undefined);
+    }
+  }
+
+  private async scanWith(adapter: ExchangeAdapter, config: AppConfig | null): Promise<void> {
+    const startedAt = new Date(this.clock.now());
+    const baseUrl = adapter.baseUrl;
 
     const interval = "1h";
     const klineLimit = 120;
@@ -387,11 +258,11 @@ export class UniverseService {
     const excludeStableStablePairs = config?.advanced.excludeStableStablePairs ?? true;
     const enforceRegionPolicy = config?.advanced.enforceRegionPolicy ?? true;
 
-    let exchangeInfo: ExchangeInfoResponse;
+    let rawSymbols: ExchangeSymbolInfo[];
     try {
-      exchangeInfo = (await client.exchangeInfo()) as ExchangeInfoResponse;
+      rawSymbols = await adapter.getSymbols();
     } catch (e) {
-      const finishedAt = new Date();
+      const finishedAt = new Date(this.clock.now());
       const snapshot = UniverseSnapshotSchema.parse({
         version: UNIVERSE_VERSION,
         startedAt: startedAt.toISOString(),
@@ -407,9 +278,9 @@ export class UniverseService {
       return;
     }
 
-    let tickers: Ticker24h[] = [];
+    let tickers: ExchangeTicker24h[] = [];
     try {
-      tickers = await client.ticker24hr();
+      tickers = await adapter.getTickers24h();
     } catch (e) {
       errors.push({ error: `Ticker feed unavailable: ${e instanceof Error ? e.message : String(e)}` });
     }
@@ -423,7 +294,6 @@ export class UniverseService {
       tickerBySymbol.set(t.symbol, { lastPrice, quoteVolume, priceChangePct });
     }
 
-    const rawSymbols = exchangeInfo.symbols ?? [];
     const availableQuoteAssets = new Set(rawSymbols.map((s) => s.quoteAsset?.trim().toUpperCase()).filter(Boolean));
     const useConfiguredQuoteSet = (config?.advanced.universeQuoteAssets?.length ?? 0) > 0;
     const walletQuoteHints = useConfiguredQuoteSet ? [] : await this.getWalletQuoteHints(walletQuoteHintLimit);
@@ -501,35 +371,28 @@ export class UniverseService {
       .sort((a, b) => liquidityValue(b) - liquidityValue(a))
       .slice(0, 140);
 
+    this.klines.watch(preselected.map((s) => s.symbol), interval);
     const enriched = await mapWithConcurrency(preselected, 6, async (s): Promise<UniverseCandidate | null> => {
       try {
-        const raw = (await client.klines(s.symbol, interval, klineLimit)) as unknown;
-        if (!Array.isArray(raw) || raw.length < 30) {
+        const series = await this.klines.getSeries(s.symbol, interval, klineLimit);
+        if (series.bars.length < 30) {
           throw new Error("Not enough kline data");
         }
 
-        const rows = raw as unknown as KlineRow[];
-        const highs: number[] = [];
-        const lows: number[] = [];
-        const closes: number[] = [];
-        for (const r of rows) {
-          const h = safeNumber(r?.[2]);
-          const l = safeNumber(r?.[3]);
-          const c = safeNumber(r?.[4]);
-          if (h === null || l === null || c === null) continue;
-          highs.push(h);
-          lows.push(l);
-          closes.push(c);
-        }
+        // Window indicators only need the last few dozen bars; RSI/ADX/ATR/EMA come from the rolling state.
+        const window = series.bars.slice(-klineLimit);
+        const highs = window.map((bar) => bar.high);
+        const lows = window.map((bar) => bar.low);
+        const closes = window.map((bar) => bar.close);
 
-        const rsi14 = clampNumber(computeRsi(closes, 14), 0, 100);
-        const adx14 = clampNumber(computeAdx(highs, lows, closes, 14), 0, 100);
-        const atrPct14 = clampNumber(computeAtrPct(highs, lows, closes, 14), 0, 1000);
+        const rsi14 = clampNumber(series.indicators.rsi14, 0, 100);
+        const adx14 = clampNumber(series.indicators.adx14, 0, 100);
+        const atrPct14 = clampNumber(series.indicators.atrPct14, 0, 1000);
         const donchianBreakoutPct20 = clampNumber(computeDonchianBreakoutPct(highs, lows, closes, 20), -1000, 1000);
         const bollinger = computeBollingerSignal(closes, 20, 2);
         const bollingerPosition20 = clampNumber(bollinger?.position ?? null, 0, 1);
         const bollingerWidthPct20 = clampNumber(bollinger?.widthPct ?? null, 0, 1000);
-        const emaTrendSpreadPct = clampNumber(computeEmaTrendSpreadPct(closes, 12, 26), -1000, 1000);
+        const emaTrendSpreadPct = clampNumber(series.indicators.emaTrendSpreadPct, -1000, 1000);
         const rangeCycleScore20 = clampNumber(computeRangeCycleScore(closes, 20), 0, 1);
 
         const normalizedVolume = s.quoteVolumeHome24h && s.quoteVolumeHome24h > 0 ? s.quoteVolumeHome24h : s.quoteVolume24h;
@@ -602,6 +465,8 @@ export class UniverseService {
       }
     });
 
+    this.klines.flush();
+
     const candidates = enriched.filter(Boolean) as UniverseCandidate[];
     const byQuoteTop = new Map<string, UniverseCandidate[]>();
     for (const c of candidates) {
@@ -615,7 +480,7 @@ export class UniverseService {
       .sort((a, b) => b.score - a.score);
     const top = diversified.slice(0, 60);
 
-    const finishedAt = new Date();
+    const finishedAt = new Date(this.clock.now());
     const snapshot = UniverseSnapshotSchema.parse({
       version: UNIVERSE_VERSION,
       startedAt: startedAt.toISOString(),
@@ -635,6 +500,6 @@ export class UniverseService {
     fs.mkdirSync(this.dataDir, { recursive: true });
     atomicWriteFile(this.snapshotPath, JSON.stringify(snapshot, null, 2));
     this.cached = snapshot;
-    this.cachedAtMs = Date.now();
+    this.cachedAtMs = this.clock.now();
   }
 }
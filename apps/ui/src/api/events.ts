@@ -0,0 +1,84 @@
+import type { BotPhase, Decision, Order, ProtectionLockEntry, RuntimeRiskState, SymbolBlacklistEntry } from "@autobot/shared";
+
+import type { WalletSnapshot } from "../hooks/usePortfolioWallet";
+
+export type LiveEvent =
+  | { type: "decision"; ts: string; decision: Decision }
+  | { type: "order"; ts: string; order: Order; active: boolean }
+  | { type: "risk"; ts: string; riskState?: RuntimeRiskState }
+  | { type: "locks"; ts: string; protectionLocks: ProtectionLockEntry[]; symbolBlacklist: SymbolBlacklistEntry[] }
+  | { type: "status"; ts: string; running: boolean; phase: BotPhase; lastError?: string }
+  | { type: "wallet"; ts: string; wallet: WalletSnapshot }
+  | { type: "heartbeat"; ts: string };
+
+type EventListener = (event: LiveEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+// After the server refused the stream outright (e.g. 401); plain disconnects are retried by EventSource itself.
+const REOPEN_DELAY_MS = 10_000;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+let source: EventSource | null = null;
+let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+let connected = false;
+
+function setConnected(next: boolean): void {
+  if (connected === next) return;
+  connected = next;
+  for (const listener of statusListeners) listener(next);
+}
+
+function open(): void {
+  if (source || reopenTimer || typeof EventSource === "undefined") return;
+  const next = new EventSource("/api/events");
+  next.onopen = () => setConnected(true);
+  next.onmessage = (message: MessageEvent<string>) => {
+    let event: LiveEvent;
+    try {
+      event = JSON.parse(message.data) as LiveEvent;
+    } catch {
+      return;
+    }
+    for (const listener of eventListeners) listener(event);
+  };
+  next.onerror = () => {
+    setConnected(false);
+    if (next.readyState !== EventSource.CLOSED) return;
+    next.close();
+    source = null;
+    reopenTimer = setTimeout(() => {
+      reopenTimer = null;
+      if (eventListeners.size > 0 || statusListeners.size > 0) open();
+    }, REOPEN_DELAY_MS);
+  };
+  source = next;
+}
+
+function closeIfUnused(): void {
+  if (eventListeners.size > 0 || statusListeners.size > 0) return;
+  source?.close();
+  source = null;
+  if (reopenTimer) clearTimeout(reopenTimer);
+  reopenTimer = null;
+  setConnected(false);
+}
+
+export function isLiveEventsConnected(): boolean {
+  return connected;
+}
+
+/**
+ * Subscribes to `GET /events`. All subscribers share one EventSource, opened with the first and closed with the last.
+ * `onStatus` reports whether the stream is up; while it is not, callers are expected to poll instead.
+ */
+export function subscribeLiveEvents(onEvent: EventListener, onStatus?: StatusListener): () => void {
+  eventListeners.add(onEvent);
+  if (onStatus) statusListeners.add(onStatus);
+  open();
+  return () => {
+    eventListeners.delete(onEvent);
+    if (onStatus) statusListeners.delete(onStatus);
+    closeIfUnused();
+  };
+}
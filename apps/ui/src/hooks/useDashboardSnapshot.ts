@@ -1,9 +1,11 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 import type { BotState } from "@autobot/shared";
 
+import type { LiveEvent } from "../api/events";
 import { apiGet } from "../api/http";
 import type { IntegrationsStatus } from "./useIntegrationsStatus";
+import { useLiveEvents } from "./useLiveEvents";
 import type { WalletSnapshot } from "./usePortfolioWallet";
 import type { PublicConfig } from "./usePublicConfig";
 import type { RunStatsSnapshot } from "./useRunStats";
@@ -19,6 +21,46 @@ export type DashboardSnapshot = {
   runStats: RunStatsSnapshot;
 };
 
+// While the event stream is up, the parts it does not cover (config, universe, run stats, positions) are resynced this often.
+const LIVE_RESYNC_MS = 60_000;
+// Same caps as the engine applies to the persisted state.
+const MAX_DECISIONS = 200;
+const MAX_ORDER_HISTORY = 500;
+
+/** Applies one streamed delta to a snapshot loaded from `/dashboard/snapshot`. */
+export function applyLiveEvent(snapshot: DashboardSnapshot, event: LiveEvent): DashboardSnapshot {
+  const bot = snapshot.bot;
+  switch (event.type) {
+    case "decision":
+      if (bot.decisions.some((decision) => decision.id === event.decision.id)) return snapshot;
+      return { ...snapshot, bot: { ...bot, decisions: [event.decision, ...bot.decisions].slice(0, MAX_DECISIONS) } };
+    case "order": {
+      const activeOrders = bot.activeOrders.filter((order) => order.id !== event.order.id);
+      const orderHistory = bot.orderHistory.filter((order) => order.id !== event.order.id);
+      return {
+        ...snapshot,
+        bot: event.active
+          ? { ...bot, activeOrders: [event.order, ...activeOrders], orderHistory }
+          : { ...bot, activeOrders, orderHistory: [event.order, ...orderHistory].slice(0, MAX_ORDER_HISTORY) }
+      };
+    }
+    case "risk":
+      return { ...snapshot, bot: { ...bot, riskState: event.riskState } };
+    case "locks":
+      return { ...snapshot, bot: { ...bot, protectionLocks: event.protectionLocks, symbolBlacklist: event.symbolBlacklist } };
+    case "status":
+      return { ...snapshot, bot: { ...bot, running: event.running, phase: event.phase, lastError: event.lastError, updatedAt: event.ts } };
+    case "wallet":
+      return { ...snapshot, wallet: event.wallet };
+    case "heartbeat":
+      return snapshot;
+  }
+}
+
+/**
+ * Loads `/dashboard/snapshot`, then keeps it current from `GET /events`. Polls every `pollMs` whenever the stream is
+ * down and reloads in full when it (re)connects, since deltas sent meanwhile were missed.
+ */
 export function useDashboardSnapshot(options?: {
   pollMs?: number;
 }): {
@@ -31,8 +73,14 @@ export function useDashboardSnapshot(options?: {
   const [loading, setLoading] = useState(true);
   const [snapshot, setSnapshot] = useState<DashboardSnapshot | null>(null);
   const [error, setError] = useState<string | undefined>(undefined);
+  const lastRefreshMsRef = useRef(0);
+  const live = useLiveEvents((event) => {
+    if (event.type === "heartbeat") return;
+    setSnapshot((current) => (current ? applyLiveEvent(current, event) : current));
+  });
 
   const refresh = useCallback(async () => {
+    lastRefreshMsRef.current = Date.now();
     try {
       const next = await apiGet<DashboardSnapshot>("/dashboard/snapshot");
       setSnapshot(next);
@@ -49,13 +97,14 @@ export function useDashboardSnapshot(options?: {
     void refresh().catch(() => undefined);
     const t = setInterval(() => {
       if (cancelled) return;
+      if (live.connected && Date.now() - lastRefreshMsRef.current < LIVE_RESYNC_MS) return;
       void refresh().catch(() => undefined);
     }, pollMs);
     return () => {
       cancelled = true;
       clearInterval(t);
     };
-  }, [pollMs, refresh]);
+  }, [live.connected, pollMs, refresh]);
 
   return { loading, snapshot, error, refresh };
 }
@@ -0,0 +1,20 @@
+import { useEffect, useRef, useState } from "react";
+
+import { isLiveEventsConnected, type LiveEvent, subscribeLiveEvents } from "../api/events";
+
+export type { LiveEvent } from "../api/events";
+
+export function useLiveEvents(onEvent?: (event: LiveEvent) => void): {
+  connected: boolean;
+} {
+  const [connected, setConnected] = useState(isLiveEventsConnected);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    setConnected(isLiveEventsConnected());
+    return subscribeLiveEvents((event) => onEventRef.current?.(event), setConnected);
+  }, []);
+
+  return { connected };
+}
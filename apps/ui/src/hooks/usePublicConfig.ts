@@ -7,7 +7,7 @@ export type PublicConfig = {
   basic?: {
     traderRegion: string;
     homeStableCoin: string;
-    tradeMode: "SPOT" | "SPOT_GRID";
+    tradeMode: "SPOT" | "SPOT_GRID" | "DCA";
     risk: number;
     liveTrading: boolean;
     aiEnabled: boolean;
@@ -28,8 +28,10 @@ export type PublicConfig = {
     uiHost: string;
     uiPort: number;
     apiBaseUrl?: string;
+    exchange: "BINANCE" | "KRAKEN" | "OKX";
     binanceEnvironment: "MAINNET" | "SPOT_TESTNET";
     binanceBaseUrlOverride?: string;
+    binanceFuturesBaseUrlOverride?: string;
     apiKeyHint: string;
     botOrderClientIdPrefix: string;
     botOrderAutoCancelEnabled: boolean;
@@ -38,6 +40,36 @@ export type PublicConfig = {
     autoCancelBotOrdersOnStop: boolean;
     autoCancelBotOrdersOnGlobalProtectionLock: boolean;
     manageExternalOpenOrders: boolean;
+    liveExchangeBracketsEnabled: boolean;
+    trailingStopEnabled: boolean;
+    trailingStopActivationPct: number;
+    trailingStopDistancePct: number;
+    trailingStopAtrMultiplier: number;
+    breakEvenStopEnabled: boolean;
+    breakEvenTriggerPct: number;
+    breakEvenOffsetPct: number;
+    takeProfitLadder: Array<{ pnlPct: number; fraction: number }>;
+    pyramidingEnabled: boolean;
+    pyramidingTriggerPct: number;
+    pyramidingMaxAdds: number;
+    pyramidingAddFraction: number;
+    maxHoldingMinutesTrend: number;
+    maxHoldingMinutesMeanReversion: number;
+    maxHoldingMinutesGrid: number;
+    stalePositionAction: "EXIT" | "REEVALUATE";
+    gridLevelCount: number;
+    gridSpacingMode: "ARITHMETIC" | "GEOMETRIC";
+    gridRangeMode: "ATR" | "BOLLINGER" | "INFINITY";
+    gridRecenterMinutes: number;
+    dcaMaxSafetyOrders: number;
+    dcaSafetyOrderDeviationPct: number;
+    dcaDeviationScale: number;
+    dcaSafetyOrderVolumeScale: number;
+    dcaTakeProfitPct: number;
+    futuresEnabled: boolean;
+    futuresLeverage: number;
+    futuresMarginType: "ISOLATED" | "CROSSED";
+    futuresMinFundingRatePct: number;
     neverTradeSymbols: string[];
     autoBlacklistEnabled: boolean;
     autoBlacklistTtlMinutes: number;
@@ -59,6 +91,9 @@ export type PublicConfig = {
     conversionTopUpReserveMultiplier: number;
     conversionTopUpCooldownMs: number;
     conversionTopUpMinTarget: number;
+    paperFeeRate: number;
+    paperSlippageBps: number;
+    paperStartingBalanceHome: number;
   };
 };
 
@@ -1,6 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 import { apiGet } from "../api/http";
+import { useLiveEvents } from "./useLiveEvents";
 
 export type BaselineRunStats = {
   generatedAt: string;
@@ -14,6 +15,7 @@ export type BaselineRunStats = {
     sells: number;
     conversions: number;
     entryTrades?: number;
+    stalePositionExits?: number;
     sizingRejectSkips?: number;
     feeEdgeSkips?: number;
     minOrderSkips?: number;
@@ -28,7 +30,7 @@ export type BaselineRunStats = {
     feesHome?: number;
     openExposureCost: number;
   };
-  topSkipSummaries: Array<{ summary: string; count: number }>;
+  topSkipSummaries: Array<{ reasonCode?: string; summary: string; count: number }>;
   symbols?: Array<{
     symbol: string;
     buys: number;
@@ -81,11 +83,19 @@ export function useRunStats(): {
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<RunStatsSnapshot | null>(null);
   const [error, setError] = useState<string | undefined>(undefined);
+  // Run stats only move with decisions and orders: while the event stream is up, refetch after those instead of blindly.
+  const staleRef = useRef(true);
+  const live = useLiveEvents((event) => {
+    if (event.type === "decision" || event.type === "order") staleRef.current = true;
+  });
 
   useEffect(() => {
     let cancelled = false;
+    staleRef.current = true;
 
     async function run() {
+      if (live.connected && !staleRef.current) return;
+      staleRef.current = false;
       try {
         const next = await apiGet<RunStatsSnapshot>("/bot/run-stats");
         if (!cancelled) {
@@ -93,6 +103,7 @@ export function useRunStats(): {
           setError(undefined);
         }
       } catch (e) {
+        staleRef.current = true;
         if (!cancelled) {
           setError(e instanceof Error ? e.message : String(e));
         }
@@ -107,7 +118,7 @@ export function useRunStats(): {
       cancelled = true;
       clearInterval(timer);
     };
-  }, []);
+  }, [live.connected]);
 
   return { loading, stats, error };
 }
@@ -148,6 +148,7 @@ export function DashboardPage(): JSX.Element {
   const modePill = useMemo(() => {
     const mode = publicConfig.config?.basic?.tradeMode;
     if (!mode) return { label: "Mode: —", tone: "neutral" as const };
+    if (mode === "DCA") return { label: "Mode: DCA", tone: "neutral" as const };
     return mode === "SPOT_GRID" ? { label: "Mode: Spot + Grid", tone: "neutral" as const } : { label: "Mode: Spot", tone: "neutral" as const };
   }, [publicConfig.config?.basic?.tradeMode]);
 
@@ -957,6 +958,9 @@ export function DashboardPage(): JSX.Element {
                 : "—"}
             </b>
           </span>
+          <span className="pill">
+            Stale exits: <b>{runStats.stats?.kpi?.totals.stalePositionExits ?? "—"}</b>
+          </span>
           <span className="pill">
             Sizing rejects:{" "}
             <b>
@@ -1143,6 +1147,141 @@ export function DashboardPage(): JSX.Element {
         </div>
       </div>
 
+      {(state?.dcaDeals?.length ?? 0) > 0 ? (
+        <div className="card" style={{ marginTop: 14 }}>
+          <div className="title">DCA deals</div>
+          <div className="subtitle">Open deals first, then the latest closed ones. Amounts are in each symbol's quote asset.</div>
+          <div style={{ marginTop: 10, maxHeight: 320, overflow: "auto" }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Symbol</th>
+                  <th>Status</th>
+                  <th>Safety orders</th>
+                  <th>Avg entry</th>
+                  <th>Take-profit</th>
+                  <th>Next safety</th>
+                  <th>Cost</th>
+                  <th>PnL</th>
+                  <th className="col-time">Opened</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(state?.dcaDeals ?? []).map((deal) => (
+                  <tr key={deal.id}>
+                    <td>{deal.symbol}</td>
+                    <td>
+                      {deal.status}
+                      {deal.closeReason ? <div className="subtitle">{deal.closeReason === "TAKE_PROFIT" ? "take-profit" : "sold outside deal"}</div> : null}
+                    </td>
+                    <td>
+                      {deal.safetyOrdersFilled}/{deal.maxSafetyOrders}
+                    </td>
+                    <td>{deal.avgEntryPrice}</td>
+                    <td>{deal.status === "OPEN" ? deal.takeProfitPrice : deal.exitPrice ?? "—"}</td>
+                    <td>{deal.nextSafetyPrice ?? "—"}</td>
+                    <td>{deal.costQuote.toFixed(4)}</td>
+                    <td>{typeof deal.realizedPnl === "number" ? deal.realizedPnl.toFixed(4) : "—"}</td>
+                    <td className="col-time">{formatDateTime(deal.openedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {(state?.futuresShorts?.length ?? 0) > 0 ? (
+        <div className="card" style={{ marginTop: 14 }}>
+          <div className="title">Futures shorts</div>
+          <div className="subtitle">USD-M perpetual shorts opened in the bear-short lane. PnL is in the margin asset.</div>
+          <div style={{ marginTop: 10, maxHeight: 320, overflow: "auto" }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Symbol</th>
+                  <th>Status</th>
+                  <th>Qty</th>
+                  <th>Entry</th>
+                  <th>Exit</th>
+                  <th>Leverage</th>
+                  <th>Funding</th>
+                  <th>PnL</th>
+                  <th className="col-time">Opened</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(state?.futuresShorts ?? []).map((short) => (
+                  <tr key={short.id}>
+                    <td>{short.symbol}</td>
+                    <td>
+                      {short.status}
+                      {short.closeReason ? <div className="subtitle">{short.closeReason.toLowerCase().replace(/_/g, " ")}</div> : null}
+                    </td>
+                    <td>{short.qty}</td>
+                    <td>{short.entryPrice}</td>
+                    <td>{short.exitPrice ?? "—"}</td>
+                    <td>
+                      {short.leverage}x {short.marginType === "ISOLATED" ? "isolated" : "cross"}
+                    </td>
+                    <td>{typeof short.fundingRatePct === "number" ? `${short.fundingRatePct.toFixed(4)}%` : "—"}</td>
+                    <td>{typeof short.realizedPnl === "number" ? short.realizedPnl.toFixed(4) : "—"}</td>
+                    <td className="col-time">{formatDateTime(short.openedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {(state?.gridPlans?.length ?? 0) > 0 ? (
+        <div className="card" style={{ marginTop: 14 }}>
+          <div className="title">Grid plans</div>
+          <div className="subtitle">Levels low → high: resting side, HELD = bought and waiting for the sell above.</div>
+          <div style={{ marginTop: 10, maxHeight: 320, overflow: "auto" }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Symbol</th>
+                  <th>Range</th>
+                  <th>Levels</th>
+                  <th>Cycles</th>
+                  <th>Realized</th>
+                  <th className="col-time">Updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(state?.gridPlans ?? []).map((plan) => (
+                  <tr key={plan.symbol}>
+                    <td>{plan.symbol}</td>
+                    <td>
+                      {plan.lowerPrice} – {plan.upperPrice}
+                      <div className="subtitle">
+                        {plan.levelCount} {plan.spacing.toLowerCase()} · {plan.rangeMode.toLowerCase()} · step {plan.stepPct.toFixed(2)}%
+                        {plan.outOfRangeSince ? ` · out of range since ${formatDateTime(plan.outOfRangeSince)}` : ""}
+                      </div>
+                    </td>
+                    <td>
+                      {plan.levels
+                        .map((level) =>
+                          level.status === "EMPTY"
+                            ? `${level.price}`
+                            : `${level.price} ${level.status === "OPEN" ? level.side ?? "OPEN" : "HELD"}`
+                        )
+                        .join(" · ")}
+                    </td>
+                    <td>{plan.cycleCount}</td>
+                    <td>{plan.realizedProfit.toFixed(4)}</td>
+                    <td className="col-time">{formatDateTime(plan.updatedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
       <div className="card" style={{ marginTop: 14 }}>
         <div className="title">Orders (history)</div>
         <div className="subtitle">Filled/canceled orders (stub data).</div>
@@ -3,6 +3,7 @@ import { Link, NavLink, Route, Routes } from "react-router-dom";
 import { SettingsAdvanced } from "./settings/SettingsAdvanced";
 import { SettingsBasic } from "./settings/SettingsBasic";
 import { SettingsExpert } from "./settings/SettingsExpert";
+import { SettingsHistory } from "./settings/SettingsHistory";
 
 export function SettingsPage(): JSX.Element {
   return (
@@ -26,6 +27,7 @@ export function SettingsPage(): JSX.Element {
             <NavLink to="/settings/basic">Basic</NavLink>
             <NavLink to="/settings/advanced">Advanced</NavLink>
             <NavLink to="/settings/expert">Expert</NavLink>
+            <NavLink to="/settings/history">History</NavLink>
           </div>
         </div>
 
@@ -34,6 +36,7 @@ export function SettingsPage(): JSX.Element {
             <Route path="basic" element={<SettingsBasic />} />
             <Route path="advanced" element={<SettingsAdvanced />} />
             <Route path="expert" element={<SettingsExpert />} />
+            <Route path="history" element={<SettingsHistory />} />
           </Routes>
         </div>
       </div>
@@ -11,7 +11,7 @@ type SetupRequest = {
   uiPassword: string;
   traderRegion: "EEA" | "NON_EEA";
   homeStableCoin: string;
-  tradeMode: "SPOT" | "SPOT_GRID";
+  tradeMode: "SPOT" | "SPOT_GRID" | "DCA";
   risk: number;
   liveTrading: boolean;
   aiEnabled: boolean;
@@ -233,6 +233,7 @@ export function OnboardingBasic(): JSX.Element {
           <select className="field" value={tradeMode} onChange={(e) => setTradeMode(e.target.value as SetupRequest["tradeMode"])}>
             <option value="SPOT">Spot only</option>
             <option value="SPOT_GRID">Spot + Grid</option>
+            <option value="DCA">DCA (base + safety orders)</option>
           </select>
           <div className="subtitle">Futures is out of MVP scope for now.</div>
         </div>
@@ -15,6 +15,7 @@ export function SettingsAdvanced(): JSX.Element {
   const [binanceKeysError, setBinanceKeysError] = useState<string | null>(null);
   const [binanceApiKey, setBinanceApiKey] = useState("");
   const [binanceApiSecret, setBinanceApiSecret] = useState("");
+  const [exchangeApiPassphrase, setExchangeApiPassphrase] = useState("");
 
   const [apiBaseUrl, setApiBaseUrl] = useState("");
   const [apiHost, setApiHost] = useState("0.0.0.0");
@@ -29,9 +30,41 @@ export function SettingsAdvanced(): JSX.Element {
   const [autoCancelBotOrdersOnStop, setAutoCancelBotOrdersOnStop] = useState(true);
   const [autoCancelBotOrdersOnGlobalProtectionLock, setAutoCancelBotOrdersOnGlobalProtectionLock] = useState(true);
   const [manageExternalOpenOrders, setManageExternalOpenOrders] = useState(false);
-
+  const [liveExchangeBracketsEnabled, setLiveExchangeBracketsEnabled] = useState(false);
+  const [trailingStopEnabled, setTrailingStopEnabled] = useState(false);
+  const [trailingStopActivationPct, setTrailingStopActivationPct] = useState(0.8);
+  const [trailingStopDistancePct, setTrailingStopDistancePct] = useState(1);
+  const [trailingStopAtrMultiplier, setTrailingStopAtrMultiplier] = useState(0);
+  const [breakEvenStopEnabled, setBreakEvenStopEnabled] = useState(false);
+  const [breakEvenTriggerPct, setBreakEvenTriggerPct] = useState(0.6);
+  const [breakEvenOffsetPct, setBreakEvenOffsetPct] = useState(0.1);
+  const [takeProfitLadderText, setTakeProfitLadderText] = useState("");
+  const [pyramidingEnabled, setPyramidingEnabled] = useState(false);
+  const [pyramidingTriggerPct, setPyramidingTriggerPct] = useState(1);
+  const [pyramidingMaxAdds, setPyramidingMaxAdds] = useState(2);
+  const [pyramidingAddFraction, setPyramidingAddFraction] = useState(0.5);
+  const [maxHoldingMinutesTrend, setMaxHoldingMinutesTrend] = useState(0);
+  const [maxHoldingMinutesMeanReversion, setMaxHoldingMinutesMeanReversion] = useState(0);
+  const [maxHoldingMinutesGrid, setMaxHoldingMinutesGrid] = useState(0);
+  const [stalePositionAction, setStalePositionAction] = useState<"EXIT" | "REEVALUATE">("REEVALUATE");
+  const [gridLevelCount, setGridLevelCount] = useState(6);
+  const [gridSpacingMode, setGridSpacingMode] = useState<"ARITHMETIC" | "GEOMETRIC">("GEOMETRIC");
+  const [gridRangeMode, setGridRangeMode] = useState<"ATR" | "BOLLINGER" | "INFINITY">("ATR");
+  const [gridRecenterMinutes, setGridRecenterMinutes] = useState(10);
+  const [dcaMaxSafetyOrders, setDcaMaxSafetyOrders] = useState(3);
+  const [dcaSafetyOrderDeviationPct, setDcaSafetyOrderDeviationPct] = useState(1.5);
+  const [dcaDeviationScale, setDcaDeviationScale] = useState(1);
+  const [dcaSafetyOrderVolumeScale, setDcaSafetyOrderVolumeScale] = useState(1.5);
+  const [dcaTakeProfitPct, setDcaTakeProfitPct] = useState(1.5);
+  const [futuresEnabled, setFuturesEnabled] = useState(false);
+  const [futuresLeverage, setFuturesLeverage] = useState(2);
+  const [futuresMarginType, setFuturesMarginType] = useState<"ISOLATED" | "CROSSED">("ISOLATED");
+  const [futuresMinFundingRatePct, setFuturesMinFundingRatePct] = useState(-0.01);
+
+  const [exchange, setExchange] = useState<"BINANCE" | "KRAKEN" | "OKX">("BINANCE");
   const [binanceEnvironment, setBinanceEnvironment] = useState<"MAINNET" | "SPOT_TESTNET">("MAINNET");
   const [binanceBaseUrlOverride, setBinanceBaseUrlOverride] = useState("");
+  const [binanceFuturesBaseUrlOverride, setBinanceFuturesBaseUrlOverride] = useState("");
 
   const [neverTradeSymbolsText, setNeverTradeSymbolsText] = useState("");
   const [autoBlacklistEnabled, setAutoBlacklistEnabled] = useState(true);
@@ -54,6 +87,9 @@ export function SettingsAdvanced(): JSX.Element {
   const [conversionTopUpReserveMultiplier, setConversionTopUpReserveMultiplier] = useState(2);
   const [conversionTopUpCooldownMs, setConversionTopUpCooldownMs] = useState(90000);
   const [conversionTopUpMinTarget, setConversionTopUpMinTarget] = useState(5);
+  const [paperFeeRate, setPaperFeeRate] = useState(0.001);
+  const [paperSlippageBps, setPaperSlippageBps] = useState(5);
+  const [paperStartingBalanceHome, setPaperStartingBalanceHome] = useState(10000);
 
   const [rotatingApiKey, setRotatingApiKey] = useState(false);
   const [rotatedApiKey, setRotatedApiKey] = useState<string | null>(null);
@@ -80,8 +116,42 @@ export function SettingsAdvanced(): JSX.Element {
     setAutoCancelBotOrdersOnStop(config.advanced.autoCancelBotOrdersOnStop ?? true);
     setAutoCancelBotOrdersOnGlobalProtectionLock(config.advanced.autoCancelBotOrdersOnGlobalProtectionLock ?? true);
     setManageExternalOpenOrders(config.advanced.manageExternalOpenOrders ?? false);
+    setLiveExchangeBracketsEnabled(config.advanced.liveExchangeBracketsEnabled ?? false);
+    setTrailingStopEnabled(config.advanced.trailingStopEnabled ?? false);
+    setTrailingStopActivationPct(config.advanced.trailingStopActivationPct ?? 0.8);
+    setTrailingStopDistancePct(config.advanced.trailingStopDistancePct ?? 1);
+    setTrailingStopAtrMultiplier(config.advanced.trailingStopAtrMultiplier ?? 0);
+    setBreakEvenStopEnabled(config.advanced.breakEvenStopEnabled ?? false);
+    setBreakEvenTriggerPct(config.advanced.breakEvenTriggerPct ?? 0.6);
+    setBreakEvenOffsetPct(config.advanced.breakEvenOffsetPct ?? 0.1);
+    setTakeProfitLadderText(
+      (config.advanced.takeProfitLadder ?? []).map((rung) => `${rung.pnlPct}:${Number((rung.fraction * 100).toFixed(2))}`).join("\n")
+    );
+    setPyramidingEnabled(config.advanced.pyramidingEnabled ?? false);
+    setPyramidingTriggerPct(config.advanced.pyramidingTriggerPct ?? 1);
+    setPyramidingMaxAdds(config.advanced.pyramidingMaxAdds ?? 2);
+    setPyramidingAddFraction(config.advanced.pyramidingAddFraction ?? 0.5);
+    setMaxHoldingMinutesTrend(config.advanced.maxHoldingMinutesTrend ?? 0);
+    setMaxHoldingMinutesMeanReversion(config.advanced.maxHoldingMinutesMeanReversion ?? 0);
+    setMaxHoldingMinutesGrid(config.advanced.maxHoldingMinutesGrid ?? 0);
+    setStalePositionAction(config.advanced.stalePositionAction ?? "REEVALUATE");
+    setGridLevelCount(config.advanced.gridLevelCount ?? 6);
+    setGridSpacingMode(config.advanced.gridSpacingMode ?? "GEOMETRIC");
+    setGridRangeMode(config.advanced.gridRangeMode ?? "ATR");
+    setGridRecenterMinutes(config.advanced.gridRecenterMinutes ?? 10);
+    setDcaMaxSafetyOrders(config.advanced.dcaMaxSafetyOrders ?? 3);
+    setDcaSafetyOrderDeviationPct(config.advanced.dcaSafetyOrderDeviationPct ?? 1.5);
+    setDcaDeviationScale(config.advanced.dcaDeviationScale ?? 1);
+    setDcaSafetyOrderVolumeScale(config.advanced.dcaSafetyOrderVolumeScale ?? 1.5);
+    setDcaTakeProfitPct(config.advanced.dcaTakeProfitPct ?? 1.5);
+    setFuturesEnabled(config.advanced.futuresEnabled ?? false);
+    setFuturesLeverage(config.advanced.futuresLeverage ?? 2);
+    setFuturesMarginType(config.advanced.futuresMarginType ?? "ISOLATED");
+    setFuturesMinFundingRatePct(config.advanced.futuresMinFundingRatePct ?? -0.01);
+    setExchange(config.advanced.exchange ?? "BINANCE");
     setBinanceEnvironment(config.advanced.binanceEnvironment ?? "MAINNET");
     setBinanceBaseUrlOverride(config.advanced.binanceBaseUrlOverride ?? "");
+    setBinanceFuturesBaseUrlOverride(config.advanced.binanceFuturesBaseUrlOverride ?? "");
     setNeverTradeSymbolsText((config.advanced.neverTradeSymbols ?? []).join("\n"));
     setAutoBlacklistEnabled(config.advanced.autoBlacklistEnabled);
     setAutoBlacklistTtlMinutes(config.advanced.autoBlacklistTtlMinutes);
@@ -103,6 +173,9 @@ export function SettingsAdvanced(): JSX.Element {
     setConversionTopUpReserveMultiplier(config.advanced.conversionTopUpReserveMultiplier);
     setConversionTopUpCooldownMs(config.advanced.conversionTopUpCooldownMs);
     setConversionTopUpMinTarget(config.advanced.conversionTopUpMinTarget);
+    setPaperFeeRate(config.advanced.paperFeeRate);
+    setPaperSlippageBps(config.advanced.paperSlippageBps);
+    setPaperStartingBalanceHome(config.advanced.paperStartingBalanceHome);
   }, [config?.advanced]);
 
   async function onExport(): Promise<void> {
@@ -179,11 +252,18 @@ export function SettingsAdvanced(): JSX.Element {
         .split(/\r?\n/g)
         .map((s) => s.trim())
         .filter(Boolean);
+      const takeProfitLadder = takeProfitLadderText
+        .split(/\r?\n/g)
+        .map((line) => line.split(":").map((part) => Number.parseFloat(part.replace("%", "").trim())))
+        .filter(([pnlPct, sellPct]) => Number.isFinite(pnlPct) && Number.isFinite(sellPct))
+        .map(([pnlPct, sellPct]) => ({ pnlPct, fraction: sellPct / 100 }));
 
       await apiPut("/config/advanced", {
         apiBaseUrl: apiBaseUrl.trim(),
+        exchange,
         binanceEnvironment,
         binanceBaseUrlOverride: binanceBaseUrlOverride.trim(),
+        binanceFuturesBaseUrlOverride: binanceFuturesBaseUrlOverride.trim(),
         apiHost,
         apiPort,
         uiHost,
@@ -195,6 +275,36 @@ export function SettingsAdvanced(): JSX.Element {
         autoCancelBotOrdersOnStop,
         autoCancelBotOrdersOnGlobalProtectionLock,
         manageExternalOpenOrders,
+        liveExchangeBracketsEnabled,
+        trailingStopEnabled,
+        trailingStopActivationPct,
+        trailingStopDistancePct,
+        trailingStopAtrMultiplier,
+        breakEvenStopEnabled,
+        breakEvenTriggerPct,
+        breakEvenOffsetPct,
+        takeProfitLadder,
+        pyramidingEnabled,
+        pyramidingTriggerPct,
+        pyramidingMaxAdds,
+        pyramidingAddFraction,
+        maxHoldingMinutesTrend,
+        maxHoldingMinutesMeanReversion,
+        maxHoldingMinutesGrid,
+        stalePositionAction,
+        gridLevelCount,
+        gridSpacingMode,
+        gridRangeMode,
+        gridRecenterMinutes,
+        dcaMaxSafetyOrders,
+        dcaSafetyOrderDeviationPct,
+        dcaDeviationScale,
+        dcaSafetyOrderVolumeScale,
+        dcaTakeProfitPct,
+        futuresEnabled,
+        futuresLeverage,
+        futuresMarginType,
+        futuresMinFundingRatePct,
         neverTradeSymbols,
         autoBlacklistEnabled,
         autoBlacklistTtlMinutes,
@@ -215,7 +325,10 @@ export function SettingsAdvanced(): JSX.Element {
         maxConsecutiveEntriesPerSymbol,
         conversionTopUpReserveMultiplier,
         conversionTopUpCooldownMs,
-        conversionTopUpMinTarget
+        conversionTopUpMinTarget,
+        paperFeeRate,
+        paperSlippageBps,
+        paperStartingBalanceHome
       });
       setSavedAt(new Date().toISOString());
     } catch (e) {
@@ -238,10 +351,12 @@ export function SettingsAdvanced(): JSX.Element {
     try {
       await apiPut("/config/binance-credentials", {
         apiKey: binanceApiKey.trim(),
-        apiSecret: binanceApiSecret.trim()
+        apiSecret: binanceApiSecret.trim(),
+        apiPassphrase: exchangeApiPassphrase.trim()
       });
       setBinanceApiKey("");
       setBinanceApiSecret("");
+      setExchangeApiPassphrase("");
       setBinanceKeysSavedAt(new Date().toISOString());
     } catch (e) {
       setBinanceKeysError(e instanceof Error ? e.message : String(e));
@@ -372,9 +487,24 @@ export function SettingsAdvanced(): JSX.Element {
         </div>
 
         <div className="card">
-          <div className="title">Binance environment</div>
+          <div className="title">Exchange & environment</div>
           <div className="subtitle">Switch between mainnet and Spot testnet. Testnet can be unstable/outage-prone.</div>
 
+          <label className="label" style={{ marginTop: 12 }}>
+            Exchange
+          </label>
+          <select className="field" value={exchange} onChange={(e) => setExchange(e.target.value as "BINANCE" | "KRAKEN" | "OKX")}>
+            <option value="BINANCE">Binance</option>
+            <option value="KRAKEN">Kraken (spot, mainnet only)</option>
+            <option value="OKX">OKX (spot)</option>
+          </select>
+          {exchange !== "BINANCE" ? (
+            <div className="subtitle" style={{ marginTop: 6 }}>
+              Exchange-side OCO brackets, futures shorts and the user-data stream are Binance-only and stay off here. Base URL overrides below only
+              apply to Binance.
+            </div>
+          ) : null}
+
           <label className="label" style={{ marginTop: 12 }}>
             Environment
           </label>
@@ -393,6 +523,17 @@ export function SettingsAdvanced(): JSX.Element {
             placeholder="https://api.binance.com"
           />
           <div className="subtitle">Leave empty to use the selected environment default.</div>
+
+          <label className="label" style={{ marginTop: 12 }}>
+            Futures base URL override (optional)
+          </label>
+          <input
+            className="field"
+            value={binanceFuturesBaseUrlOverride}
+            onChange={(e) => setBinanceFuturesBaseUrlOverride(e.target.value)}
+            placeholder="https://fapi.binance.com"
+          />
+          <div className="subtitle">USD-M futures endpoint. Spot testnet uses the futures demo endpoint by default.</div>
         </div>
 
         <div className="card">
@@ -521,6 +662,463 @@ export function SettingsAdvanced(): JSX.Element {
                 place additional bot-owned orders.
               </div>
             </div>
+
+            <div style={{ marginTop: 12 }}>
+              <label className="label">Exchange-side stop-loss / take-profit (OCO)</label>
+              <select
+                className="field"
+                value={liveExchangeBracketsEnabled ? "on" : "off"}
+                onChange={(e) => setLiveExchangeBracketsEnabled(e.target.value === "on")}
+              >
+                <option value="off">Off</option>
+                <option value="on">On</option>
+              </select>
+              <div className="subtitle">
+                Live spot positions get an OCO bracket resting on Binance, so they stay protected if the bot stops or crashes. Bracketed coins are
+                locked on the exchange until the bracket fills or the bot replaces it.
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Trailing stop</label>
+                <select className="field" value={trailingStopEnabled ? "on" : "off"} onChange={(e) => setTrailingStopEnabled(e.target.value === "on")}>
+                  <option value="off">Off (fixed take-profit)</option>
+                  <option value="on">On</option>
+                </select>
+                <div className="subtitle">Once armed, the stop follows the highest price since entry and replaces the fixed take-profit.</div>
+              </div>
+              <div>
+                <label className="label">Trailing activation (% profit)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0}
+                  max={50}
+                  step={0.05}
+                  value={trailingStopActivationPct}
+                  disabled={!trailingStopEnabled}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setTrailingStopActivationPct(next);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Trailing distance (%)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0.1}
+                  max={50}
+                  step={0.05}
+                  value={trailingStopDistancePct}
+                  disabled={!trailingStopEnabled}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setTrailingStopDistancePct(next);
+                  }}
+                />
+              </div>
+              <div>
+                <label className="label">Trailing distance (× ATR%)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={trailingStopAtrMultiplier}
+                  disabled={!trailingStopEnabled}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setTrailingStopAtrMultiplier(next);
+                  }}
+                />
+                <div className="subtitle">0 = use the fixed distance. Otherwise ATR(14)% × this, falling back to the fixed distance without ATR data.</div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Break-even stop</label>
+                <select className="field" value={breakEvenStopEnabled ? "on" : "off"} onChange={(e) => setBreakEvenStopEnabled(e.target.value === "on")}>
+                  <option value="off">Off</option>
+                  <option value="on">On</option>
+                </select>
+                <div className="subtitle">After the trigger profit, the stop never goes back below entry + offset.</div>
+              </div>
+              <div className="row cols-2">
+                <div>
+                  <label className="label">Trigger (% profit)</label>
+                  <input
+                    className="field"
+                    type="number"
+                    min={0.1}
+                    max={50}
+                    step={0.05}
+                    value={breakEvenTriggerPct}
+                    disabled={!breakEvenStopEnabled}
+                    onChange={(e) => {
+                      const next = Number.parseFloat(e.target.value);
+                      if (Number.isFinite(next)) setBreakEvenTriggerPct(next);
+                    }}
+                  />
+                </div>
+                <div>
+                  <label className="label">Offset (%)</label>
+                  <input
+                    className="field"
+                    type="number"
+                    min={0}
+                    max={5}
+                    step={0.01}
+                    value={breakEvenOffsetPct}
+                    disabled={!breakEvenStopEnabled}
+                    onChange={(e) => {
+                      const next = Number.parseFloat(e.target.value);
+                      if (Number.isFinite(next)) setBreakEvenOffsetPct(next);
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Take-profit ladder</label>
+                <textarea
+                  className="field"
+                  style={{ minHeight: 120 }}
+                  value={takeProfitLadderText}
+                  onChange={(e) => setTakeProfitLadderText(e.target.value)}
+                  placeholder={"One step per line, e.g.\n0.5:33\n1:33\n2:34"}
+                />
+                <div className="subtitle">
+                  One step per line as profit %:sell %, sized from the largest the position got. Empty = single take-profit. With
+                  the trailing stop on, whatever is left after the last step trails; otherwise the last step sells the rest.
+                </div>
+              </div>
+              <div>
+                <label className="label">Pyramiding</label>
+                <select className="field" value={pyramidingEnabled ? "on" : "off"} onChange={(e) => setPyramidingEnabled(e.target.value === "on")}>
+                  <option value="off">Off</option>
+                  <option value="on">On</option>
+                </select>
+                <div className="subtitle">Adds to winners while the regime stays BULL_TREND, up to the max position size.</div>
+                <div className="row cols-2" style={{ marginTop: 12 }}>
+                  <div>
+                    <label className="label">Add after (% profit)</label>
+                    <input
+                      className="field"
+                      type="number"
+                      min={0.1}
+                      max={20}
+                      step={0.1}
+                      value={pyramidingTriggerPct}
+                      disabled={!pyramidingEnabled}
+                      onChange={(e) => {
+                        const next = Number.parseFloat(e.target.value);
+                        if (Number.isFinite(next)) setPyramidingTriggerPct(next);
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="label">Max adds</label>
+                    <input
+                      className="field"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={pyramidingMaxAdds}
+                      disabled={!pyramidingEnabled}
+                      onChange={(e) => {
+                        const next = Number.parseInt(e.target.value, 10);
+                        if (Number.isFinite(next)) setPyramidingMaxAdds(next);
+                      }}
+                    />
+                  </div>
+                </div>
+                <label className="label" style={{ marginTop: 12 }}>Add size (× position cost)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={pyramidingAddFraction}
+                  disabled={!pyramidingEnabled}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setPyramidingAddFraction(next);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Max holding (minutes, per strategy lane)</label>
+                <div className="row cols-2">
+                  <div>
+                    <label className="label">Trend</label>
+                    <input
+                      className="field"
+                      type="number"
+                      min={0}
+                      max={43200}
+                      value={maxHoldingMinutesTrend}
+                      onChange={(e) => {
+                        const next = Number.parseInt(e.target.value, 10);
+                        if (Number.isFinite(next)) setMaxHoldingMinutesTrend(next);
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="label">Mean reversion</label>
+                    <input
+                      className="field"
+                      type="number"
+                      min={0}
+                      max={43200}
+                      value={maxHoldingMinutesMeanReversion}
+                      onChange={(e) => {
+                        const next = Number.parseInt(e.target.value, 10);
+                        if (Number.isFinite(next)) setMaxHoldingMinutesMeanReversion(next);
+                      }}
+                    />
+                  </div>
+                </div>
+                <label className="label" style={{ marginTop: 12 }}>Grid</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0}
+                  max={43200}
+                  value={maxHoldingMinutesGrid}
+                  onChange={(e) => {
+                    const next = Number.parseInt(e.target.value, 10);
+                    if (Number.isFinite(next)) setMaxHoldingMinutesGrid(next);
+                  }}
+                />
+                <div className="subtitle">0 = no limit. The lane is the strategy recommended when the position was first tracked.</div>
+              </div>
+              <div>
+                <label className="label">Stale position action</label>
+                <select
+                  className="field"
+                  value={stalePositionAction}
+                  onChange={(e) => setStalePositionAction(e.target.value === "EXIT" ? "EXIT" : "REEVALUATE")}
+                >
+                  <option value="REEVALUATE">Re-evaluate</option>
+                  <option value="EXIT">Exit</option>
+                </select>
+                <div className="subtitle">
+                  Re-evaluate keeps a position past its window while it is in profit in a bull trend (the window restarts) and
+                  exits the rest. Positions that already sold a take-profit step are left to the ladder.
+                </div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Grid levels</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={2}
+                  max={40}
+                  value={gridLevelCount}
+                  onChange={(e) => {
+                    const next = Number.parseInt(e.target.value, 10);
+                    if (Number.isFinite(next)) setGridLevelCount(next);
+                  }}
+                />
+                <div className="subtitle">Price levels per grid plan, centred on the price when the plan is laid out.</div>
+              </div>
+              <div>
+                <label className="label">Grid spacing</label>
+                <select
+                  className="field"
+                  value={gridSpacingMode}
+                  onChange={(e) => setGridSpacingMode(e.target.value === "ARITHMETIC" ? "ARITHMETIC" : "GEOMETRIC")}
+                >
+                  <option value="GEOMETRIC">Geometric (equal % steps)</option>
+                  <option value="ARITHMETIC">Arithmetic (equal price steps)</option>
+                </select>
+                <div className="subtitle">Changing the levels, spacing or range mode lays the plans out again.</div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Grid range</label>
+                <select
+                  className="field"
+                  value={gridRangeMode}
+                  onChange={(e) =>
+                    setGridRangeMode(e.target.value === "BOLLINGER" ? "BOLLINGER" : e.target.value === "INFINITY" ? "INFINITY" : "ATR")
+                  }
+                >
+                  <option value="ATR">ATR step around the price</option>
+                  <option value="BOLLINGER">Bollinger band (20, 2σ)</option>
+                  <option value="INFINITY">Infinity (trails upward)</option>
+                </select>
+                <div className="subtitle">
+                  Bollinger spreads the levels across the current band; infinity adds levels above as the price climbs and drops
+                  free ones below.
+                </div>
+              </div>
+              <div>
+                <label className="label">Re-centre after (minutes out of range)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0}
+                  max={1440}
+                  value={gridRecenterMinutes}
+                  onChange={(e) => {
+                    const next = Number.parseInt(e.target.value, 10);
+                    if (Number.isFinite(next)) setGridRecenterMinutes(next);
+                  }}
+                />
+                <div className="subtitle">0 = immediately. Until then the ladder stays parked at the range edge.</div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">DCA safety orders (max)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={dcaMaxSafetyOrders}
+                  onChange={(e) => {
+                    const next = Number.parseInt(e.target.value, 10);
+                    if (Number.isFinite(next)) setDcaMaxSafetyOrders(next);
+                  }}
+                />
+                <label className="label" style={{ marginTop: 12 }}>First safety order deviation (%)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0.2}
+                  max={20}
+                  step={0.1}
+                  value={dcaSafetyOrderDeviationPct}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setDcaSafetyOrderDeviationPct(next);
+                  }}
+                />
+                <label className="label" style={{ marginTop: 12 }}>Deviation step scale</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={1}
+                  max={3}
+                  step={0.1}
+                  value={dcaDeviationScale}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setDcaDeviationScale(next);
+                  }}
+                />
+                <div className="subtitle">DCA mode only. Deviations are measured from the base order fill.</div>
+              </div>
+              <div>
+                <label className="label">Safety order volume scale</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={1}
+                  max={3}
+                  step={0.1}
+                  value={dcaSafetyOrderVolumeScale}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setDcaSafetyOrderVolumeScale(next);
+                  }}
+                />
+                <label className="label" style={{ marginTop: 12 }}>Take-profit on averaged entry (%)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={0.2}
+                  max={20}
+                  step={0.1}
+                  value={dcaTakeProfitPct}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setDcaTakeProfitPct(next);
+                  }}
+                />
+                <div className="subtitle">
+                  The base order is sized from the risk budget so the largest safety order fits one trade and the whole deal fits
+                  the max position size.
+                </div>
+              </div>
+            </div>
+
+            <div className="row cols-2" style={{ marginTop: 12 }}>
+              <div>
+                <label className="label">Futures shorts</label>
+                <select className="field" value={futuresEnabled ? "on" : "off"} onChange={(e) => setFuturesEnabled(e.target.value === "on")}>
+                  <option value="off">Off</option>
+                  <option value="on">On</option>
+                </select>
+                <div className="subtitle">
+                  Live trading only. Opens USD-M perpetual shorts while the risk budget confirms a bear trend; they close at the
+                  managed take-profit/stop-loss or when the trend ends.
+                </div>
+                <label className="label" style={{ marginTop: 12 }}>Minimum funding rate (%)</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={-1}
+                  max={1}
+                  step={0.005}
+                  disabled={!futuresEnabled}
+                  value={futuresMinFundingRatePct}
+                  onChange={(e) => {
+                    const next = Number.parseFloat(e.target.value);
+                    if (Number.isFinite(next)) setFuturesMinFundingRatePct(next);
+                  }}
+                />
+                <div className="subtitle">Shorts pay funding when the rate is negative; skip entries below this rate.</div>
+              </div>
+              <div>
+                <label className="label">Leverage</label>
+                <input
+                  className="field"
+                  type="number"
+                  min={1}
+                  max={10}
+                  disabled={!futuresEnabled}
+                  value={futuresLeverage}
+                  onChange={(e) => {
+                    const next = Number.parseInt(e.target.value, 10);
+                    if (Number.isFinite(next)) setFuturesLeverage(next);
+                  }}
+                />
+                <label className="label" style={{ marginTop: 12 }}>Margin type</label>
+                <select
+                  className="field"
+                  disabled={!futuresEnabled}
+                  value={futuresMarginType}
+                  onChange={(e) => setFuturesMarginType(e.target.value as "ISOLATED" | "CROSSED")}
+                >
+                  <option value="ISOLATED">Isolated</option>
+                  <option value="CROSSED">Cross</option>
+                </select>
+                <div className="subtitle">The short notional comes from the risk budget; leverage only lowers the margin it locks.</div>
+              </div>
+            </div>
           </div>
 
           <div className="row cols-2" style={{ marginTop: 12 }}>
@@ -795,6 +1393,56 @@ export function SettingsAdvanced(): JSX.Element {
             />
             <div className="subtitle">When shortfall is tiny, conversion still targets at least this amount to satisfy exchange minimums.</div>
           </div>
+
+          <div className="row cols-2" style={{ marginTop: 12 }}>
+            <div>
+              <label className="label">Paper fee rate</label>
+              <input
+                className="field"
+                type="number"
+                min={0}
+                max={0.01}
+                step={0.0001}
+                value={paperFeeRate}
+                onChange={(e) => {
+                  const next = Number.parseFloat(e.target.value);
+                  if (Number.isFinite(next)) setPaperFeeRate(next);
+                }}
+              />
+            </div>
+            <div>
+              <label className="label">Paper slippage (bps)</label>
+              <input
+                className="field"
+                type="number"
+                min={0}
+                max={500}
+                step={0.5}
+                value={paperSlippageBps}
+                onChange={(e) => {
+                  const next = Number.parseFloat(e.target.value);
+                  if (Number.isFinite(next)) setPaperSlippageBps(next);
+                }}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <label className="label">Paper starting balance ({config.basic?.homeStableCoin ?? "USDC"})</label>
+            <input
+              className="field"
+              type="number"
+              min={1}
+              max={10000000}
+              step={1}
+              value={paperStartingBalanceHome}
+              onChange={(e) => {
+                const next = Number.parseFloat(e.target.value);
+                if (Number.isFinite(next)) setPaperStartingBalanceHome(next);
+              }}
+            />
+            <div className="subtitle">Paper mode fills against live prices with this fee/slippage model and a virtual wallet seeded once with this balance.</div>
+          </div>
         </div>
 
         <div className="card">
@@ -833,6 +1481,22 @@ export function SettingsAdvanced(): JSX.Element {
             autoComplete="off"
           />
 
+          {exchange === "OKX" ? (
+            <>
+              <label className="label" style={{ marginTop: 12 }}>
+                API passphrase
+              </label>
+              <input
+                className="field"
+                type="password"
+                value={exchangeApiPassphrase}
+                onChange={(e) => setExchangeApiPassphrase(e.target.value)}
+                placeholder="Passphrase chosen when the OKX key was created"
+                autoComplete="off"
+              />
+            </>
+          ) : null}
+
           <div className="subtitle" style={{ marginTop: 10 }}>
             Recommendation: create separate keys for mainnet and testnet; restrict permissions and IPs. Rotate by generating a new key in Binance and
             updating it here, then revoke the old one in Binance.
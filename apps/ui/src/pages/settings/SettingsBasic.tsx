@@ -13,7 +13,7 @@ export function SettingsBasic(): JSX.Element {
   const [confirmLive, setConfirmLive] = useState(false);
 
   const [risk, setRisk] = useState<number>(basic?.risk ?? 25);
-  const [tradeMode, setTradeMode] = useState<"SPOT" | "SPOT_GRID">(basic?.tradeMode ?? "SPOT_GRID");
+  const [tradeMode, setTradeMode] = useState<"SPOT" | "SPOT_GRID" | "DCA">(basic?.tradeMode ?? "SPOT_GRID");
   const [aiEnabled, setAiEnabled] = useState<boolean>(basic?.aiEnabled ?? false);
   const [aiMinTradeConfidence, setAiMinTradeConfidence] = useState<number>(basic?.aiMinTradeConfidence ?? 65);
   const [liveTrading, setLiveTrading] = useState<boolean>(basic?.liveTrading ?? false);
@@ -157,11 +157,12 @@ export function SettingsBasic(): JSX.Element {
       <div className="row cols-2">
         <div>
           <label className="label">Trading mode (MVP)</label>
-          <select className="field" value={tradeMode} onChange={(e) => setTradeMode(e.target.value as "SPOT" | "SPOT_GRID")}>
+          <select className="field" value={tradeMode} onChange={(e) => setTradeMode(e.target.value as "SPOT" | "SPOT_GRID" | "DCA")}>
             <option value="SPOT">Spot only</option>
             <option value="SPOT_GRID">Spot + Grid</option>
+            <option value="DCA">DCA (base + safety orders)</option>
           </select>
-          <div className="subtitle">Grid is supported in MVP scope; futures is not yet.</div>
+          <div className="subtitle">Grid and DCA are supported in MVP scope; futures is not yet. DCA deals are tuned in Advanced.</div>
         </div>
         <div>
           <label className="label">Home stable coin</label>
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { apiGet, apiPost } from "../../api/http";
+
+type ConfigChange = {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  redacted?: true;
+};
+
+type ConfigHistoryEntry = {
+  id: string;
+  ts: string;
+  source: string;
+  changes: ConfigChange[];
+  canRollback: boolean;
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+export function SettingsHistory(): JSX.Element {
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<ConfigHistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rolledBackAt, setRolledBackAt] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await apiGet<{ entries: ConfigHistoryEntry[] }>("/config/history?limit=100");
+      setEntries(res.entries);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  async function onRollback(id: string): Promise<void> {
+    setRollingBack(true);
+    setRolledBackAt(null);
+    try {
+      await apiPost(`/config/rollback/${encodeURIComponent(id)}`, {});
+      setConfirmId(null);
+      setRolledBackAt(new Date().toISOString());
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRollingBack(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="row">
+        <div className="title">Loading…</div>
+        <div className="subtitle">Reading configuration history.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="row">
+      <div>
+        <div className="title">History</div>
+        <div className="subtitle">
+          Every configuration change, newest first. Rolling back restores the configuration as it was before that change (undoing every
+          later change too); API keys, secrets and passwords always stay as they are now.
+        </div>
+      </div>
+
+      {error ? (
+        <div className="card" style={{ borderColor: "rgba(255, 90, 106, 0.5)" }}>
+          <div className="title" style={{ color: "var(--danger)" }}>
+            Error
+          </div>
+          <div className="subtitle">{error}</div>
+        </div>
+      ) : null}
+
+      {rolledBackAt ? <div className="subtitle">Rolled back at {new Date(rolledBackAt).toLocaleTimeString()}.</div> : null}
+
+      {entries.length === 0 ? <div className="subtitle">No changes recorded yet.</div> : null}
+
+      {entries.map((entry) => (
+        <div className="card" key={entry.id}>
+          <div style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+            <div>
+              <div className="label">{new Date(entry.ts).toLocaleString()}</div>
+              <div className="subtitle">
+                {entry.source} · {entry.changes.length} field{entry.changes.length === 1 ? "" : "s"}
+              </div>
+            </div>
+            {entry.canRollback ? (
+              confirmId === entry.id ? (
+                <div style={{ display: "flex", gap: 8 }}>
+                  <button className="btn tiny danger" disabled={rollingBack} onClick={() => void onRollback(entry.id)}>
+                    {rollingBack ? "Rolling back…" : "Confirm rollback"}
+                  </button>
+                  <button className="btn tiny" disabled={rollingBack} onClick={() => setConfirmId(null)}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button className="btn tiny" disabled={rollingBack} onClick={() => setConfirmId(entry.id)}>
+                  Roll back
+                </button>
+              )
+            ) : null}
+          </div>
+
+          <table className="table" style={{ marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entry.changes.map((change) => (
+                <tr key={change.path}>
+                  <td>{change.path}</td>
+                  {change.redacted ? (
+                    <td colSpan={2}>changed (redacted)</td>
+                  ) : (
+                    <>
+                      <td>{formatValue(change.before)}</td>
+                      <td>{formatValue(change.after)}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 export * from "./schemas/app-config";
 export * from "./schemas/bot-state";
+export * from "./schemas/decision-reason";
 export * from "./schemas/universe";
+export * from "./migrations";
 export * from "./strategy-signals";
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { BOT_STATE_MIGRATIONS, CONFIG_MIGRATIONS, type Migration, migrateBotState, runMigrations, UnsupportedDataVersionError } from "./migrations";
+import { CONFIG_VERSION } from "./schemas/app-config";
+import { BOT_STATE_VERSION, BotStateSchema, defaultBotState } from "./schemas/bot-state";
+
+const registry: Migration[] = [
+  { to: 3, description: "rename risk to riskLevel", up: ({ risk, ...rest }) => ({ ...rest, riskLevel: risk }) },
+  { to: 2, description: "add tags", up: (document) => ({ ...document, tags: [] }) }
+];
+
+describe("runMigrations", () => {
+  it("applies each step in version order and leaves the input untouched", () => {
+    const input = { version: 1, risk: 40 };
+    const result = runMigrations(input, registry, 3, "doc");
+
+    expect(result).toEqual({
+      fromVersion: 1,
+      toVersion: 3,
+      applied: ["v1 → v2: add tags", "v2 → v3: rename risk to riskLevel"],
+      document: { version: 3, tags: [], riskLevel: 40 }
+    });
+    expect(input).toEqual({ version: 1, risk: 40 });
+    expect(runMigrations({ version: 3 }, registry, 3, "doc").applied).toEqual([]);
+  });
+
+  it("refuses newer versions, missing steps and unversioned documents", () => {
+    expect(() => runMigrations({ version: 4 }, registry, 3, "doc")).toThrow(UnsupportedDataVersionError);
+    expect(() => runMigrations({ version: 1 }, registry.slice(0, 1), 3, "doc")).toThrow(/No doc migration to version 2/);
+    expect(() => runMigrations({}, registry, 3, "doc")).toThrow(/no valid version/);
+    expect(() => runMigrations([], registry, 3, "doc")).toThrow(/not a JSON object/);
+  });
+
+  it("has one registered step per version bump", () => {
+    const steps = (current: number) => Array.from({ length: current - 1 }, (_, index) => index + 2);
+    expect(CONFIG_MIGRATIONS.map((migration) => migration.to)).toEqual(steps(CONFIG_VERSION));
+    expect(BOT_STATE_MIGRATIONS.map((migration) => migration.to)).toEqual(steps(BOT_STATE_VERSION));
+  });
+});
+
+describe("BOT_STATE_MIGRATIONS", () => {
+  it("v2 fills reason codes and symbols of decisions recorded without them", () => {
+    const legacy = {
+      ...defaultBotState(),
+      version: 1,
+      decisions: [
+        { id: "d1", ts: "2026-03-01T00:00:00.000Z", kind: "SKIP", summary: "Skip BNBUSDC: Max open positions reached (2)" },
+        { id: "d2", ts: "2026-03-01T00:00:00.000Z", kind: "ENGINE", summary: "Tick completed" }
+      ]
+    };
+    expect(BotStateSchema.safeParse({ ...legacy, version: BOT_STATE_VERSION }).success).toBe(false);
+
+    const state = BotStateSchema.parse(migrateBotState(legacy).document);
+    expect(state.decisions).toEqual([
+      { ...legacy.decisions[0], reasonCode: "MAX_OPEN_POSITIONS", details: { symbol: "BNBUSDC" } },
+      legacy.decisions[1]
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { CONFIG_VERSION } from "./schemas/app-config";
+import { BOT_STATE_VERSION, upgradeLegacyDecision } from "./schemas/bot-state";
+
+export type MigrationDocument = Record<string, unknown>;
+
+/** Upgrades a document from version `to - 1` to `to`. `up` gets a copy it may mutate; the runner sets `version`. */
+export type Migration = {
+  to: number;
+  description: string;
+  up: (document: MigrationDocument) => MigrationDocument;
+};
+
+/**
+ * Ordered `config.json` up-migrations, one per version bump after 1.
+ * Bumping `CONFIG_VERSION` needs an entry here with `to` set to the new version.
+ */
+export const CONFIG_MIGRATIONS: readonly Migration[] = [];
+
+/** Ordered `state.json` up-migrations; see `CONFIG_MIGRATIONS`. */
+export const BOT_STATE_MIGRATIONS: readonly Migration[] = [
+  {
+    to: 2,
+    description: "infer reason codes and symbols of decisions recorded before they existed",
+    up: (document) => ({
+      ...document,
+      decisions: Array.isArray(document.decisions) ? document.decisions.map(upgradeLegacyDecision) : document.decisions
+    })
+  }
+];
+
+/** The document was written by a newer build; running on it would lose or corrupt data. */
+export class UnsupportedDataVersionError extends Error {
+  constructor(
+    readonly label: string,
+    readonly version: number,
+    readonly supportedVersion: number
+  ) {
+    super(`${label} is version ${version}, newer than the supported version ${supportedVersion}. Upgrade the bot or restore a backup.`);
+    this.name = "UnsupportedDataVersionError";
+  }
+}
+
+export type MigrationResult = {
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations that ran, in order; empty when the document was current. */
+  applied: string[];
+  document: MigrationDocument;
+};
+
+function isPlainObject(value: unknown): value is MigrationDocument {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Runs the migrations of `registry` on `document` until it reaches `currentVersion`. Schema validation is left to the caller. */
+export function runMigrations(document: unknown, registry: readonly Migration[], currentVersion: number, label: string): MigrationResult {
+  if (!isPlainObject(document)) {
+    throw new Error(`${label} is not a JSON object.`);
+  }
+  const fromVersion = document.version;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`${label} has no valid version.`);
+  }
+  if (fromVersion > currentVersion) {
+    throw new UnsupportedDataVersionError(label, fromVersion, currentVersion);
+  }
+
+  let next: MigrationDocument = document;
+  const applied: string[] = [];
+  for (let version = fromVersion + 1; version <= currentVersion; version += 1) {
+    const migration = registry.find((candidate) => candidate.to === version);
+    if (!migration) {
+      throw new Error(`No ${label} migration to version ${version}.`);
+    }
+    next = { ...migration.up(structuredClone(next)), version };
+    applied.push(`v${version - 1} → v${version}: ${migration.description}`);
+  }
+  return { fromVersion, toVersion: currentVersion, applied, document: next };
+}
+
+export function migrateAppConfig(document: unknown): MigrationResult {
+  return runMigrations(document, CONFIG_MIGRATIONS, CONFIG_VERSION, "config.json");
+}
+
+export function migrateBotState(document: unknown): MigrationResult {
+  return runMigrations(document, BOT_STATE_MIGRATIONS, BOT_STATE_VERSION, "state.json");
+}
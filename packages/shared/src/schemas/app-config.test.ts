@@ -8,6 +8,7 @@ describe("deriveSettings", () => {
     expect(deriveSettings({ risk: 0, tradeMode: "SPOT" }).allowGrid).toBe(false);
     expect(deriveSettings({ risk: 0, tradeMode: "SPOT_GRID" }).allowGrid).toBe(true);
     expect(deriveSettings({ risk: 0, tradeMode: "SPOT" }).allowFutures).toBe(false);
+    expect(deriveSettings({ risk: 0, tradeMode: "SPOT" }, { futuresEnabled: true }).allowFutures).toBe(true);
     expect(deriveSettings({ risk: 100, tradeMode: "SPOT" }).allowSpot).toBe(true);
   });
 });
@@ -5,12 +5,15 @@ export const CONFIG_VERSION = 1 as const;
 export const TraderRegionSchema = z.enum(["EEA", "NON_EEA"]);
 export type TraderRegion = z.infer<typeof TraderRegionSchema>;
 
-export const TradeModeSchema = z.enum(["SPOT", "SPOT_GRID"]);
+export const TradeModeSchema = z.enum(["SPOT", "SPOT_GRID", "DCA"]);
 export type TradeMode = z.infer<typeof TradeModeSchema>;
 
 export const BinanceEnvironmentSchema = z.enum(["MAINNET", "SPOT_TESTNET"]);
 export type BinanceEnvironment = z.infer<typeof BinanceEnvironmentSchema>;
 
+export const ExchangeIdSchema = z.enum(["BINANCE", "KRAKEN", "OKX"]);
+export type ExchangeId = z.infer<typeof ExchangeIdSchema>;
+
 export const BasicSetupRequestSchema = z
   .object({
     binanceApiKey: z.string().min(1),
@@ -48,19 +51,63 @@ export type UiAuth = z.infer<typeof UiAuthSchema>;
 
 export const BinanceCredentialsSchema = z.object({
   apiKey: z.string().min(1),
-  apiSecret: z.string().min(1)
+  apiSecret: z.string().min(1),
+  /** API key passphrase; only OKX keys have one. */
+  apiPassphrase: z.string().min(1).optional()
 });
 export type BinanceCredentials = z.infer<typeof BinanceCredentialsSchema>;
 
 export const OpenAiConfigSchema = z.object({
   apiKey: z.string().min(1).optional(),
-  model: z.string().min(1).optional()
+  model: z.string().min(1).optional(),
+  // Any OpenAI-compatible chat completions endpoint (e.g. a local mock or proxy). Must include the `/v1` prefix.
+  baseUrl: z.string().url().optional(),
+  timeoutMs: z.number().int().min(1_000).max(60_000).default(8_000)
 });
 export type OpenAiConfig = z.infer<typeof OpenAiConfigSchema>;
 
+export const NotificationEventTypeSchema = z.enum(["TRADE", "FILL", "RISK_STATE", "PROTECTION_LOCK", "BLACKLIST", "ERROR"]);
+export type NotificationEventType = z.infer<typeof NotificationEventTypeSchema>;
+
+const notificationRouting = {
+  enabled: z.boolean().default(false),
+  /** Event types sent to this channel; empty sends all of them. */
+  events: z.array(NotificationEventTypeSchema).default([]),
+  /** At most one message per interval; events arriving in between go out together as one digest. */
+  minIntervalSeconds: z.number().int().min(0).max(3_600).default(30)
+};
+
+export const NotificationsConfigSchema = z.object({
+  telegram: z
+    .object({
+      ...notificationRouting,
+      botToken: z.string().min(1).optional(),
+      chatId: z.string().min(1).optional(),
+      // Bot API host; override for a local stand-in.
+      apiBaseUrl: z.string().url().optional()
+    })
+    .default({}),
+  discord: z
+    .object({
+      ...notificationRouting,
+      webhookUrl: z.string().url().optional()
+    })
+    .default({}),
+  /** Generic JSON webhook, signed with HMAC-SHA256 over `<timestamp>.<body>` when a secret is set. */
+  webhook: z
+    .object({
+      ...notificationRouting,
+      url: z.string().url().optional(),
+      secret: z.string().min(1).optional()
+    })
+    .default({})
+});
+export type NotificationsConfig = z.infer<typeof NotificationsConfigSchema>;
+
 export const BasicSettingsSchema = z.object({
   binance: BinanceCredentialsSchema,
   openai: OpenAiConfigSchema,
+  notifications: NotificationsConfigSchema.default({}),
   uiAuth: UiAuthSchema,
   traderRegion: TraderRegionSchema,
   homeStableCoin: z.string().min(2),
@@ -72,11 +119,22 @@ export const BasicSettingsSchema = z.object({
 });
 export type BasicSettings = z.infer<typeof BasicSettingsSchema>;
 
+/** One scale-out step: sell `fraction` of the position (largest size since it opened) once profit reaches `pnlPct`. */
+export const TakeProfitRungSchema = z.object({
+  pnlPct: z.number().min(0.05).max(50),
+  fraction: z.number().min(0.01).max(1)
+});
+export type TakeProfitRung = z.infer<typeof TakeProfitRungSchema>;
+
 export const AdvancedSettingsSchema = z.object({
   apiKey: z.string().min(16),
   apiBaseUrl: z.string().url().optional(),
+  /** Spot exchange the bot trades on; the API credentials must belong to it. `SPOT_TESTNET` maps to its demo mode. */
+  exchange: ExchangeIdSchema.default("BINANCE"),
   binanceEnvironment: BinanceEnvironmentSchema.default("MAINNET"),
   binanceBaseUrlOverride: z.string().url().optional(),
+  /** USD-M futures REST host (e.g. a local mock exchange); defaults to the host matching `binanceEnvironment`. */
+  binanceFuturesBaseUrlOverride: z.string().url().optional(),
   apiHost: z.string().min(1),
   apiPort: z.number().int().min(1).max(65535),
   uiHost: z.string().min(1),
@@ -88,6 +146,49 @@ export const AdvancedSettingsSchema = z.object({
   autoCancelBotOrdersOnStop: z.boolean().default(true),
   autoCancelBotOrdersOnGlobalProtectionLock: z.boolean().default(true),
   manageExternalOpenOrders: z.boolean().default(false),
+  liveExchangeBracketsEnabled: z.boolean().default(false),
+  trailingStopEnabled: z.boolean().default(false),
+  trailingStopActivationPct: z.number().min(0).max(50).default(0.8),
+  trailingStopDistancePct: z.number().min(0.1).max(50).default(1),
+  trailingStopAtrMultiplier: z.number().min(0).max(10).default(0),
+  breakEvenStopEnabled: z.boolean().default(false),
+  breakEvenTriggerPct: z.number().min(0.1).max(50).default(0.6),
+  breakEvenOffsetPct: z.number().min(0).max(5).default(0.1),
+  takeProfitLadder: z.array(TakeProfitRungSchema).max(5).default([]),
+  pyramidingEnabled: z.boolean().default(false),
+  pyramidingTriggerPct: z.number().min(0.1).max(20).default(1),
+  pyramidingMaxAdds: z.number().int().min(1).max(10).default(2),
+  pyramidingAddFraction: z.number().min(0.1).max(1).default(0.5),
+  /** Max minutes a managed position may stay open per strategy lane before the stale-position check; 0 = no limit. */
+  maxHoldingMinutesTrend: z.number().int().min(0).max(43200).default(0),
+  maxHoldingMinutesMeanReversion: z.number().int().min(0).max(43200).default(0),
+  maxHoldingMinutesGrid: z.number().int().min(0).max(43200).default(0),
+  stalePositionAction: z.enum(["EXIT", "REEVALUATE"]).default("REEVALUATE"),
+  /** SPOT_GRID plan shape: number of price levels and how they are spaced (equal price or equal % steps). */
+  gridLevelCount: z.number().int().min(2).max(40).default(6),
+  gridSpacingMode: z.enum(["ARITHMETIC", "GEOMETRIC"]).default("GEOMETRIC"),
+  /**
+   * How a new grid range is derived: ATR step around the price, the current Bollinger band (20, 2σ), or an infinity
+   * grid (ATR step) that trails upward as the price clears its top level.
+   */
+  gridRangeMode: z.enum(["ATR", "BOLLINGER", "INFINITY"]).default("ATR"),
+  /** Minutes the price may stay outside a grid's range before the grid re-centres on it (0 = immediately). */
+  gridRecenterMinutes: z.number().int().min(0).max(1440).default(10),
+  /**
+   * DCA deals: safety order N buys `volumeScale^N` × the base order once the price is `deviationPct` (each further step
+   * scaled by `dcaDeviationScale`) below the base fill; the deal sells at `dcaTakeProfitPct` over its averaged entry.
+   */
+  dcaMaxSafetyOrders: z.number().int().min(0).max(10).default(3),
+  dcaSafetyOrderDeviationPct: z.number().min(0.2).max(20).default(1.5),
+  dcaDeviationScale: z.number().min(1).max(3).default(1),
+  dcaSafetyOrderVolumeScale: z.number().min(1).max(3).default(1.5),
+  dcaTakeProfitPct: z.number().min(0.2).max(20).default(1.5),
+  /** USD-M futures shorts in confirmed bear trends (live mode); turns on `derived.allowFutures`. */
+  futuresEnabled: z.boolean().default(false),
+  futuresLeverage: z.number().int().min(1).max(10).default(2),
+  futuresMarginType: z.enum(["ISOLATED", "CROSSED"]).default("ISOLATED"),
+  /** Shorts pay funding while the rate is negative; no new short below this rate (% per funding interval). */
+  futuresMinFundingRatePct: z.number().min(-1).max(1).default(-0.01),
   neverTradeSymbols: z.array(z.string().min(1)).default([]),
   autoBlacklistEnabled: z.boolean().default(true),
   autoBlacklistTtlMinutes: z.number().int().min(1).max(43200).default(180),
@@ -108,7 +209,10 @@ export const AdvancedSettingsSchema = z.object({
   maxConsecutiveEntriesPerSymbol: z.number().int().min(1).max(50).default(3),
   conversionTopUpReserveMultiplier: z.number().min(1).max(10).default(2),
   conversionTopUpCooldownMs: z.number().int().min(0).max(86_400_000).default(90_000),
-  conversionTopUpMinTarget: z.number().min(1).max(100_000).default(5)
+  conversionTopUpMinTarget: z.number().min(1).max(100_000).default(5),
+  paperFeeRate: z.number().min(0).max(0.01).default(0.001),
+  paperSlippageBps: z.number().min(0).max(500).default(5),
+  paperStartingBalanceHome: z.number().min(1).max(10_000_000).default(10_000)
 });
 export type AdvancedSettings = z.infer<typeof AdvancedSettingsSchema>;
 
@@ -186,7 +290,10 @@ export function deriveAdvancedRiskProfile(risk: number): Pick<
   };
 }
 
-export function deriveSettings(basic: Pick<BasicSettings, "risk" | "tradeMode">): DerivedSettings {
+export function deriveSettings(
+  basic: Pick<BasicSettings, "risk" | "tradeMode">,
+  advanced?: Pick<AdvancedSettings, "futuresEnabled">
+): DerivedSettings {
   const { risk, tradeMode } = basic;
 
   const maxOpenPositions = Math.max(1, Math.round(1 + (risk / 100) * 9));
@@ -197,6 +304,6 @@ export function deriveSettings(basic: Pick<BasicSettings, "risk" | "tradeMode">)
     maxPositionPct,
     allowSpot: true,
     allowGrid: tradeMode === "SPOT_GRID",
-    allowFutures: false
+    allowFutures: Boolean(advanced?.futuresEnabled)
   };
 }
@@ -1,17 +1,56 @@
 import { z } from "zod";
 
-export const BOT_STATE_VERSION = 1 as const;
+import { DecisionReasonCodeSchema, inferDecisionReasonCode, inferDecisionSymbol, REASON_CODED_DECISION_KINDS } from "./decision-reason";
+
+export const BOT_STATE_VERSION = 2 as const;
 
 export const BotPhaseSchema = z.enum(["STOPPED", "EXAMINING", "TRADING"]);
 export type BotPhase = z.infer<typeof BotPhaseSchema>;
 
-export const DecisionSchema = z.object({
+const DecisionObjectSchema = z.object({
   id: z.string().min(1),
   ts: z.string().min(1),
   kind: z.string().min(1),
   summary: z.string().min(1),
+  reasonCode: DecisionReasonCodeSchema.optional(),
   details: z.record(z.unknown()).optional()
 });
+
+/**
+ * SKIP and TRADE decisions carry a `reasonCode`, and symbol-specific ones a `details.symbol`. Every decision the
+ * engine records sets them; a decision without a required code does not validate.
+ */
+export const DecisionSchema = DecisionObjectSchema.superRefine((decision, ctx) => {
+  if (REASON_CODED_DECISION_KINDS.includes(decision.kind) && !decision.reasonCode) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["reasonCode"],
+      message: `reasonCode is required for ${decision.kind} decisions`
+    });
+  }
+});
+
+/**
+ * Fills `reasonCode` and `details.symbol` of a decision persisted before those fields existed, from its summary.
+ * Only for legacy data: the state.json v1 → v2 migration and history rows written by older builds.
+ */
+export function upgradeLegacyDecision(value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.kind !== "string" || typeof raw.summary !== "string") return value;
+  const details = raw.details && typeof raw.details === "object" ? (raw.details as Record<string, unknown>) : undefined;
+  const reasonCode = raw.reasonCode ?? inferDecisionReasonCode({ kind: raw.kind, summary: raw.summary, details });
+  const symbol = details?.symbol ?? inferDecisionSymbol({ kind: raw.kind, summary: raw.summary });
+  return {
+    ...raw,
+    ...(reasonCode ? { reasonCode } : {}),
+    ...(symbol ? { details: { ...details, symbol } } : {})
+  };
+}
+
+/** `DecisionSchema` for rows that may predate reason codes (the append-only decision history). */
+export const LegacyDecisionSchema = z.preprocess(upgradeLegacyDecision, DecisionSchema);
+
 export type Decision = z.infer<typeof DecisionSchema>;
 
 export const OrderSideSchema = z.enum(["BUY", "SELL"]);
@@ -66,6 +105,165 @@ export const ProtectionLockEntrySchema = z.object({
 });
 export type ProtectionLockEntry = z.infer<typeof ProtectionLockEntrySchema>;
 
+/**
+ * Exchange-side stop-loss (and take-profit) resting for a managed live position, so the position stays protected
+ * while the API process is down. `OCO` brackets carry both legs in one order list; `STOP_LOSS_LIMIT` is the
+ * stop alone (used when the take-profit leg cannot be placed).
+ */
+export const ProtectiveBracketSchema = z.object({
+  symbol: z.string().min(1),
+  kind: z.enum(["OCO", "STOP_LOSS_LIMIT"]),
+  orderListId: z.string().min(1).optional(),
+  listClientOrderId: z.string().min(1).optional(),
+  takeProfitOrderId: z.string().min(1).optional(),
+  stopOrderId: z.string().min(1),
+  qty: z.number().positive(),
+  entryPrice: z.number().positive(),
+  takeProfitPrice: z.number().positive().optional(),
+  stopPrice: z.number().positive(),
+  stopLimitPrice: z.number().positive(),
+  /** The exit rule that set the stop (fixed stop-loss, trailing or break-even). */
+  stopRule: z.enum(["STOP_LOSS", "TRAILING_STOP", "BREAK_EVEN_STOP"]).default("STOP_LOSS"),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1)
+});
+export type ProtectiveBracket = z.infer<typeof ProtectiveBracketSchema>;
+
+/**
+ * Per-position tracking for a managed live position: the high-water mark, whether the break-even stop is armed,
+ * how many take-profit ladder steps have sold, how many pyramid adds were bought and the holding-period lane. Keyed by `openedAt` (the
+ * first buy after the position was flat), so it survives scale-ins and partial closes and starts over for a new position.
+ */
+export const PositionTrackingSchema = z.object({
+  symbol: z.string().min(1),
+  openedAt: z.string().min(1),
+  highWaterPrice: z.number().positive(),
+  highWaterAt: z.string().min(1),
+  breakEvenArmed: z.boolean().default(false),
+  takeProfitStepsDone: z.number().int().min(0).default(0),
+  pyramidAdds: z.number().int().min(0).default(0),
+  /** Strategy lane the position was opened under (recorded by the entry); picks the max holding period. */
+  strategy: z.enum(["TREND", "MEAN_REVERSION", "GRID"]).optional(),
+  /** Last time a stale position was re-evaluated and kept; the holding window restarts from here. */
+  staleReviewedAt: z.string().min(1).optional()
+});
+export type PositionTracking = z.infer<typeof PositionTrackingSchema>;
+
+/**
+ * One price line of a grid plan. EMPTY: nothing resting; OPEN: a bot limit order rests here (`side` / `orderId`);
+ * FILLED: bought here and held until a sell fills on a level above.
+ */
+export const GridLevelSchema = z.object({
+  index: z.number().int().min(0),
+  price: z.number().positive(),
+  status: z.enum(["EMPTY", "OPEN", "FILLED"]).default("EMPTY"),
+  side: OrderSideSchema.optional(),
+  orderId: z.string().min(1).optional(),
+  qty: z.number().positive().optional(),
+  fillPrice: z.number().positive().optional(),
+  /** Fee of the filling order in the quote asset, when known. */
+  fee: z.number().nonnegative().optional(),
+  filledAt: z.string().min(1).optional()
+});
+export type GridLevel = z.infer<typeof GridLevelSchema>;
+
+/** A completed buy-low / sell-high pair; `profit` is in the quote asset, net of the recorded fees. */
+export const GridCycleSchema = z.object({
+  buyPrice: z.number().positive(),
+  sellPrice: z.number().positive(),
+  qty: z.number().positive(),
+  profit: z.number(),
+  completedAt: z.string().min(1)
+});
+export type GridCycle = z.infer<typeof GridCycleSchema>;
+
+/** The grid the engine maintains for one SPOT_GRID symbol: bounds, spacing, levels and realised cycles. */
+export const GridPlanSchema = z.object({
+  symbol: z.string().min(1),
+  spacing: z.enum(["ARITHMETIC", "GEOMETRIC"]),
+  rangeMode: z.enum(["ATR", "BOLLINGER", "INFINITY"]).default("ATR"),
+  /** Configured level count; an infinity grid may briefly hold more levels while lots below are still open. */
+  levelCount: z.number().int().min(2),
+  lowerPrice: z.number().positive(),
+  upperPrice: z.number().positive(),
+  anchorPrice: z.number().positive(),
+  /** Distance between neighbouring levels at the anchor, in %. */
+  stepPct: z.number().positive(),
+  levels: z.array(GridLevelSchema),
+  /** Latest completed cycles, newest first. */
+  cycles: z.array(GridCycleSchema).default([]),
+  cycleCount: z.number().int().min(0).default(0),
+  realizedProfit: z.number().default(0),
+  /** Set while the price is outside the plan's range; cleared when it comes back. */
+  outOfRangeSince: z.string().min(1).optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1)
+});
+export type GridPlan = z.infer<typeof GridPlanSchema>;
+
+export const DcaFillSchema = z.object({
+  kind: z.enum(["BASE", "SAFETY"]),
+  orderId: z.string().min(1),
+  price: z.number().positive(),
+  qty: z.number().positive(),
+  /** Fee of the order in the quote asset, when known. */
+  fee: z.number().nonnegative().optional(),
+  ts: z.string().min(1)
+});
+export type DcaFill = z.infer<typeof DcaFillSchema>;
+
+/**
+ * One DCA deal: the base order, the safety orders bought on the way down and the take-profit on the averaged entry.
+ * Amounts are in the symbol's quote asset; closed deals are kept for per-deal accounting.
+ */
+export const DcaDealSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  status: z.enum(["OPEN", "CLOSED"]),
+  baseOrderQuote: z.number().positive(),
+  maxSafetyOrders: z.number().int().min(0),
+  safetyOrdersFilled: z.number().int().min(0).default(0),
+  fills: z.array(DcaFillSchema).default([]),
+  qty: z.number().nonnegative(),
+  costQuote: z.number().nonnegative(),
+  feesQuote: z.number().nonnegative().default(0),
+  avgEntryPrice: z.number().positive(),
+  takeProfitPrice: z.number().positive(),
+  /** Price that triggers the next safety order; unset once all safety orders are used. */
+  nextSafetyPrice: z.number().positive().optional(),
+  openedAt: z.string().min(1),
+  closedAt: z.string().min(1).optional(),
+  closeReason: z.enum(["TAKE_PROFIT", "POSITION_GONE"]).optional(),
+  exitPrice: z.number().positive().optional(),
+  /** Net of the recorded fees; unset when the position was closed outside the deal. */
+  realizedPnl: z.number().optional()
+});
+export type DcaDeal = z.infer<typeof DcaDealSchema>;
+
+/**
+ * A USD-M futures short opened while the risk budget was in its BEAR_SHORT lane. Amounts are in the contract's margin
+ * asset; closed shorts are kept for accounting.
+ */
+export const FuturesShortSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  status: z.enum(["OPEN", "CLOSED"]),
+  qty: z.number().positive(),
+  entryPrice: z.number().positive(),
+  leverage: z.number().int().min(1),
+  marginType: z.enum(["ISOLATED", "CROSSED"]),
+  entryOrderId: z.string().min(1),
+  /** Funding rate (% per interval) read before the entry. */
+  fundingRatePct: z.number().optional(),
+  openedAt: z.string().min(1),
+  closedAt: z.string().min(1).optional(),
+  closeReason: z.enum(["TAKE_PROFIT", "STOP_LOSS", "REGIME_EXIT", "POSITION_GONE"]).optional(),
+  exitPrice: z.number().positive().optional(),
+  /** Price PnL of the short (fees and funding not included); unset when the position was closed outside the bot. */
+  realizedPnl: z.number().optional()
+});
+export type FuturesShort = z.infer<typeof FuturesShortSchema>;
+
 export const RuntimeRiskStateSchema = z.object({
   state: z.enum(["NORMAL", "CAUTION", "HALT"]),
   reason_codes: z.array(z.string().min(1)).default([]),
@@ -86,6 +284,11 @@ export const BotStateSchema = z.object({
   orderHistory: z.array(OrderSchema),
   symbolBlacklist: z.array(SymbolBlacklistEntrySchema).default([]),
   protectionLocks: z.array(ProtectionLockEntrySchema).default([]),
+  protectiveBrackets: z.array(ProtectiveBracketSchema).default([]),
+  positionTracking: z.array(PositionTrackingSchema).default([]),
+  gridPlans: z.array(GridPlanSchema).default([]),
+  dcaDeals: z.array(DcaDealSchema).default([]),
+  futuresShorts: z.array(FuturesShortSchema).default([]),
   riskState: RuntimeRiskStateSchema.optional()
 });
 export type BotState = z.infer<typeof BotStateSchema>;
@@ -103,6 +306,11 @@ export function defaultBotState(): BotState {
     orderHistory: [],
     symbolBlacklist: [],
     protectionLocks: [],
+    protectiveBrackets: [],
+    positionTracking: [],
+    gridPlans: [],
+    dcaDeals: [],
+    futuresShorts: [],
     riskState: {
       state: "NORMAL",
       reason_codes: [],
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { DecisionSchema, LegacyDecisionSchema } from "./bot-state";
+import { inferDecisionReasonCode, inferDecisionSymbol } from "./decision-reason";
+
+describe("inferDecisionReasonCode", () => {
+  it("maps legacy skip summaries onto reason codes", () => {
+    const skip = (summary: string) => inferDecisionReasonCode({ kind: "SKIP", summary });
+
+    expect(skip("Skip BNBUSDC: Fee/edge filter (net 0.02% < 0.05%)")).toBe("FEE_EDGE");
+    expect(skip("Skip DOGEUSDC: Grid sell sizing rejected (Below minQty 1.00000000)")).toBe("GRID_SELL_SIZING_FLOOR");
+    expect(skip("Skip DOGEUSDC: Grid buy sizing rejected (Price below tick)")).toBe("GRID_BUY_SIZING_REJECTED");
+    expect(skip("Skip TRXETH: Insufficient spendable ETH for grid BUY")).toBe("GRID_BUY_QUOTE_INSUFFICIENT");
+    expect(skip("Skip XRPUSDC: Grid sell leg not actionable yet")).toBe("GRID_SELL_NOT_ACTIONABLE");
+    expect(skip("Skip ETHUSDC: DCA safety order capped (risk budget 4.20 < 6.75)")).toBe("DCA_SAFETY_CAPPED");
+    expect(skip("Skip short ETHUSDT: Futures funding rate -0.0300% below -0.0100%")).toBe("FUTURES_FUNDING");
+    expect(skip("Skip: No feasible candidates: daily loss caution paused new symbols (no managed inventory)")).toBe(
+      "NO_FEASIBLE_CANDIDATE"
+    );
+    expect(skip("Skip BTCUSDC: something nobody anticipated")).toBe("OTHER");
+  });
+
+  it("maps legacy trade reasons and leaves other kinds uncoded", () => {
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance BUY", details: { reason: "entry-retry-sizing" } })).toBe("ENTRY");
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { mode: "wallet-sweep" } })).toBe("CONVERSION");
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { reason: "stop-loss-exit" } })).toBe(
+      "STOP_LOSS_EXIT"
+    );
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { reason: "trailing-stop-exit" } })).toBe(
+      "TRAILING_STOP_EXIT"
+    );
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance BUY", details: { reason: "pyramid-add" } })).toBe("PYRAMID_ADD");
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { reason: "stale-position-exit" } })).toBe(
+      "STALE_POSITION_EXIT"
+    );
+    expect(
+      inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { reason: "partial-take-profit-exit" } })
+    ).toBe("TAKE_PROFIT_EXIT");
+    expect(inferDecisionReasonCode({ kind: "TRADE", summary: "Binance BUY", details: { reason: "dca-safety-order" } })).toBe(
+      "DCA_SAFETY_ORDER"
+    );
+    expect(
+      inferDecisionReasonCode({ kind: "TRADE", summary: "Binance SELL", details: { reason: "dca-take-profit-exit" } })
+    ).toBe("DCA_TAKE_PROFIT_EXIT");
+    expect(
+      inferDecisionReasonCode({ kind: "TRADE", summary: "Futures BUY", details: { reason: "futures-short-exit-take-profit" } })
+    ).toBe("FUTURES_SHORT_EXIT");
+    expect(inferDecisionReasonCode({ kind: "ENGINE", summary: "Start requested" })).toBeUndefined();
+  });
+});
+
+describe("inferDecisionSymbol", () => {
+  it("reads the symbol of legacy skip and trade summaries", () => {
+    expect(inferDecisionSymbol({ kind: "SKIP", summary: "Skip bnbusdc: Fee/edge filter" })).toBe("BNBUSDC");
+    expect(inferDecisionSymbol({ kind: "SKIP", summary: "Skip: No eligible trading candidate" })).toBeUndefined();
+    expect(
+      inferDecisionSymbol({ kind: "TRADE", summary: "Binance live SELL MARKET BTCUSDC qty 0.01 → FILLED (orderId 1 · stop-loss-exit)" })
+    ).toBe("BTCUSDC");
+  });
+});
+
+describe("DecisionSchema", () => {
+  it("requires a reason code for SKIP/TRADE decisions", () => {
+    const skip = { id: "d1", ts: "2026-03-01T00:00:00.000Z", kind: "SKIP", summary: "Skip BNBUSDC: Fee/edge filter" };
+    expect(DecisionSchema.safeParse(skip).success).toBe(false);
+
+    const engine = DecisionSchema.parse({ id: "d2", ts: "2026-03-01T00:00:00.000Z", kind: "ENGINE", summary: "Tick completed" });
+    expect(engine.reasonCode).toBeUndefined();
+  });
+
+  it("keeps explicit codes and rejects unknown ones", () => {
+    const base = { id: "d1", ts: "2026-03-01T00:00:00.000Z", kind: "SKIP", summary: "Skip BNBUSDC: reworded message" };
+    expect(DecisionSchema.parse({ ...base, reasonCode: "FEE_EDGE" }).reasonCode).toBe("FEE_EDGE");
+    expect(DecisionSchema.safeParse({ ...base, reasonCode: "NOT_A_CODE" }).success).toBe(false);
+  });
+});
+
+describe("LegacyDecisionSchema", () => {
+  it("fills the reason code and symbol of decisions persisted without them", () => {
+    const parsed = LegacyDecisionSchema.parse({
+      id: "d1",
+      ts: "2026-03-01T00:00:00.000Z",
+      kind: "SKIP",
+      summary: "Skip BNBUSDC: Fee/edge filter",
+      details: { capitalTier: "SMALL" }
+    });
+    expect(parsed.reasonCode).toBe("FEE_EDGE");
+    expect(parsed.details).toEqual({ capitalTier: "SMALL", symbol: "BNBUSDC" });
+
+    const engine = LegacyDecisionSchema.parse({ id: "d2", ts: "2026-03-01T00:00:00.000Z", kind: "ENGINE", summary: "Tick completed" });
+    expect(engine).toEqual({ id: "d2", ts: "2026-03-01T00:00:00.000Z", kind: "ENGINE", summary: "Tick completed" });
+  });
+});
@@ -0,0 +1,208 @@
+import { z } from "zod";
+
+/**
+ * Machine-readable reason behind a SKIP or TRADE decision.
+ *
+ * Engine protections (skip storms, reason quarantine, KPI clusters) key off this code instead of the
+ * human-readable summary, so summaries can be reworded freely.
+ */
+export const DecisionReasonCodeSchema = z.enum([
+  // SKIP: engine / exchange state
+  "NOT_INITIALIZED",
+  "EXCHANGE_BACKOFF",
+  "ORDER_SYNC_FAILED",
+  "ORDER_REJECTED",
+  "PAPER_REJECTED",
+  // SKIP: candidate selection and protections
+  "NO_CANDIDATE",
+  "NO_FEASIBLE_CANDIDATE",
+  "PROTECTION_LOCK",
+  "SYMBOL_BLACKLISTED",
+  "PAIR_POLICY",
+  "QUOTE_NOT_ENABLED",
+  "ENTRY_COOLDOWN",
+  "STOP_LOSS_COOLDOWN",
+  "MAX_CONSECUTIVE_ENTRIES",
+  "DAILY_LOSS_GUARD",
+  "DAILY_LOSS_CAUTION",
+  "RISK_BUDGET_PAUSED",
+  "RISK_BUDGET_CAP",
+  "MAX_OPEN_POSITIONS",
+  "MAX_SYMBOL_EXPOSURE",
+  "LIVE_NOTIONAL_CAP",
+  "EXTERNAL_OPEN_ORDERS",
+  "CONVERSION_COOLDOWN",
+  // SKIP: sizing and balances
+  "FEE_EDGE",
+  "TARGET_NOTIONAL_ZERO",
+  "MIN_ORDER",
+  "INVALID_ORDER_QTY",
+  "SIZING_FILTER",
+  "INVALID_BALANCE",
+  "INSUFFICIENT_BALANCE",
+  // SKIP: grid
+  "GRID_LADDER_FULL",
+  "GRID_WAITING",
+  "GRID_NO_INVENTORY",
+  "GRID_GUARD_BUY_PAUSED",
+  "GRID_SELL_NOT_ACTIONABLE",
+  "GRID_PRICE_INVALID",
+  "GRID_BUY_QUOTE_INSUFFICIENT",
+  "GRID_BUY_SIZING_FLOOR",
+  "GRID_BUY_SIZING_REJECTED",
+  "GRID_SELL_SIZING_FLOOR",
+  "GRID_SELL_SIZING_REJECTED",
+  // SKIP: DCA
+  "DCA_SAFETY_CAPPED",
+  // SKIP: futures
+  "FUTURES_FUNDING",
+  // TRADE
+  "ENTRY",
+  "PYRAMID_ADD",
+  "TAKE_PROFIT_EXIT",
+  "STOP_LOSS_EXIT",
+  "TRAILING_STOP_EXIT",
+  "BREAK_EVEN_EXIT",
+  "STALE_POSITION_EXIT",
+  "REBALANCE_EXIT",
+  "RISK_UNWIND",
+  "LIQUIDITY_RECOVERY",
+  "GRID_BUY",
+  "GRID_SELL",
+  "DCA_BASE_ORDER",
+  "DCA_SAFETY_ORDER",
+  "DCA_TAKE_PROFIT_EXIT",
+  "FUTURES_SHORT_ENTRY",
+  "FUTURES_SHORT_EXIT",
+  "CONVERSION",
+  // Anything recorded before reason codes existed that no rule below recognises.
+  "OTHER"
+]);
+export type DecisionReasonCode = z.infer<typeof DecisionReasonCodeSchema>;
+
+/** Decision kinds that must carry a `reasonCode`. */
+export const REASON_CODED_DECISION_KINDS: readonly string[] = ["SKIP", "TRADE"];
+
+/** True for exchange filter rejects on minQty / minNotional / LOT_SIZE (as opposed to price or balance rejects). */
+function isSizingFloorRejectReason(reason: string): boolean {
+  const normalized = reason.toLowerCase();
+  return (
+    normalized.includes("minqty") ||
+    normalized.includes("minnotional") ||
+    normalized.includes("notional") ||
+    normalized.includes("lot_size") ||
+    normalized.includes("market_lot_size")
+  );
+}
+
+function inferTradeReasonCode(summary: string, details?: Record<string, unknown>): DecisionReasonCode {
+  const mode = typeof details?.mode === "string" ? details.mode : "";
+  if (mode === "conversion-router" || mode === "wallet-sweep") return "CONVERSION";
+  const reason = (typeof details?.reason === "string" ? details.reason : summary).toLowerCase();
+  if (reason.includes("convert ") || reason.includes("bridge leg") || reason.includes("wallet-sweep")) return "CONVERSION";
+  if (reason.includes("dca-base-order")) return "DCA_BASE_ORDER";
+  if (reason.includes("dca-safety-order")) return "DCA_SAFETY_ORDER";
+  if (reason.includes("dca-take-profit-exit")) return "DCA_TAKE_PROFIT_EXIT";
+  if (reason.includes("futures-short-entry")) return "FUTURES_SHORT_ENTRY";
+  if (reason.includes("futures-short-exit")) return "FUTURES_SHORT_EXIT";
+  if (reason.includes("stop-loss-exit")) return "STOP_LOSS_EXIT";
+  if (reason.includes("trailing-stop-exit")) return "TRAILING_STOP_EXIT";
+  if (reason.includes("break-even-exit")) return "BREAK_EVEN_EXIT";
+  if (reason.includes("take-profit-exit")) return "TAKE_PROFIT_EXIT";
+  if (reason.includes("stale-position-exit")) return "STALE_POSITION_EXIT";
+  if (reason.includes("rebalance-exit")) return "REBALANCE_EXIT";
+  if (reason.includes("pyramid-add")) return "PYRAMID_ADD";
+  if (reason.includes("grid-ladder-buy")) return "GRID_BUY";
+  if (reason.includes("grid-ladder-sell")) return "GRID_SELL";
+  if (reason.includes("unwind")) return "RISK_UNWIND";
+  if (reason.includes("liquidity-recovery")) return "LIQUIDITY_RECOVERY";
+  if (reason.includes("entry")) return "ENTRY";
+  return "OTHER";
+}
+
+function inferSkipReasonCode(summary: string): DecisionReasonCode {
+  const lower = summary.trim().toLowerCase();
+  const detail = lower.includes("(") ? lower.slice(lower.indexOf("(")) : lower;
+
+  if (lower.includes("bot is not initialized")) return "NOT_INITIALIZED";
+  if (lower.includes("transient exchange backoff") || lower.includes("temporary exchange/network issue")) return "EXCHANGE_BACKOFF";
+  if (lower.includes("live order sync failed")) return "ORDER_SYNC_FAILED";
+  if (lower.includes("binance sizing filter")) return "SIZING_FILTER";
+  if (lower.startsWith("order rejected")) return "ORDER_REJECTED";
+  if (lower.includes("protection lock")) return "PROTECTION_LOCK";
+  if (lower.includes("temporarily blacklisted")) return "SYMBOL_BLACKLISTED";
+  if (lower.startsWith("skip:") && lower.includes("feasible")) return "NO_FEASIBLE_CANDIDATE";
+  if (lower.startsWith("skip:") && lower.includes("candidate")) return "NO_CANDIDATE";
+  if (lower.includes("fee/edge filter")) return "FEE_EDGE";
+  if (lower.includes("grid sell leg not actionable yet")) return "GRID_SELL_NOT_ACTIONABLE";
+  if (lower.includes("waiting for ladder slot or inventory")) return "GRID_WAITING";
+  if (lower.includes("grid guard active (no inventory to sell)")) return "GRID_NO_INVENTORY";
+  if (lower.includes("grid guard paused buy leg")) return "GRID_GUARD_BUY_PAUSED";
+  if (lower.includes("grid ladder full")) return "GRID_LADDER_FULL";
+  if (lower.includes("grid buy sizing rejected")) {
+    return isSizingFloorRejectReason(detail) ? "GRID_BUY_SIZING_FLOOR" : "GRID_BUY_SIZING_REJECTED";
+  }
+  if (lower.includes("grid sell sizing rejected")) {
+    return isSizingFloorRejectReason(detail) ? "GRID_SELL_SIZING_FLOOR" : "GRID_SELL_SIZING_REJECTED";
+  }
+  if (lower.includes("grid buy price invalid") || lower.includes("grid sell price invalid")) return "GRID_PRICE_INVALID";
+  if (lower.includes("insufficient spendable") && lower.includes("for grid buy")) return "GRID_BUY_QUOTE_INSUFFICIENT";
+  if (lower.includes("dca safety order capped")) return "DCA_SAFETY_CAPPED";
+  if (lower.includes("futures funding rate")) return "FUTURES_FUNDING";
+  if (lower.includes("daily loss caution") && lower.includes("paused")) return "DAILY_LOSS_CAUTION";
+  if (lower.includes("daily loss")) return "DAILY_LOSS_GUARD";
+  if (lower.includes("risk budget") && lower.includes("below exchange minimum")) return "RISK_BUDGET_CAP";
+  if (lower.includes("risk budget")) return "RISK_BUDGET_PAUSED";
+  if (lower.includes("post stop-loss cooldown")) return "STOP_LOSS_COOLDOWN";
+  if (lower.includes("entry cooldown active")) return "ENTRY_COOLDOWN";
+  if (lower.includes("max consecutive entries reached")) return "MAX_CONSECUTIVE_ENTRIES";
+  if (lower.includes("max open positions reached")) return "MAX_OPEN_POSITIONS";
+  if (lower.includes("max symbol exposure")) return "MAX_SYMBOL_EXPOSURE";
+  if (lower.includes("would exceed live notional cap")) return "LIVE_NOTIONAL_CAP";
+  if (lower.includes("external open limit order")) return "EXTERNAL_OPEN_ORDERS";
+  if (lower.includes("conversion cooldown")) return "CONVERSION_COOLDOWN";
+  if (lower.includes("not enabled for execution")) return "QUOTE_NOT_ENABLED";
+  if (lower.includes("never-trade") || lower.includes("stable/stable pair") || lower.includes("policy filtered")) return "PAIR_POLICY";
+  if (lower.includes("target notional is zero")) return "TARGET_NOTIONAL_ZERO";
+  if (lower.includes("invalid suggested qty")) return "INVALID_ORDER_QTY";
+  if (/invalid \S+ balance/.test(lower)) return "INVALID_BALANCE";
+  if (lower.includes("insufficient")) return "INSUFFICIENT_BALANCE";
+  if (
+    lower.includes("min order constraints") ||
+    lower.includes("minqty") ||
+    lower.includes("minnotional") ||
+    lower.includes("lot_size")
+  ) {
+    return "MIN_ORDER";
+  }
+  return "OTHER";
+}
+
+/**
+ * Best-effort reason code for a decision recorded before reason codes existed, derived from its summary
+ * (and `details.reason` for trades). Returns undefined for kinds that do not carry a reason code.
+ */
+export function inferDecisionReasonCode(decision: {
+  kind: string;
+  summary: string;
+  details?: Record<string, unknown>;
+}): DecisionReasonCode | undefined {
+  if (decision.kind === "TRADE") return inferTradeReasonCode(decision.summary, decision.details);
+  if (decision.kind === "SKIP") return inferSkipReasonCode(decision.summary);
+  return undefined;
+}
+
+/**
+ * Best-effort symbol for a SKIP/TRADE decision recorded before decisions carried `details.symbol`, read from the
+ * `Skip BTCUSDC: …` / `Binance LIVE BUY MARKET BTCUSDC qty …` summaries. Undefined for global decisions.
+ */
+export function inferDecisionSymbol(decision: { kind: string; summary: string }): string | undefined {
+  const summary = decision.summary.trim();
+  const match =
+    decision.kind === "SKIP"
+      ? summary.match(/^skip\s+([^\s:]+):/i)
+      : decision.kind === "TRADE"
+        ? summary.match(/^binance\s+\S+\s+(?:buy|sell)\s+\S+\s+([^\s:]+)\s+qty\b/i)
+        : null;
+  return match ? match[1].toUpperCase() : undefined;
+}
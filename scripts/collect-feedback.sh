@@ -74,6 +74,13 @@ copy_if_exists "data/telemetry/last_run_summary.json" "$TMP_DIR/data/telemetry/l
 if [[ -f "data/telemetry/adaptive-shadow.jsonl" ]]; then
   tail -n 5000 "data/telemetry/adaptive-shadow.jsonl" >"$TMP_DIR/data/telemetry/adaptive-shadow.tail.jsonl" || true
 fi
+for table in decisions orders fills locks blacklist; do
+  if [[ -f "data/history/${table}.jsonl" ]]; then
+    mkdir -p "$TMP_DIR/data/history"
+    tail -n 5000 "data/history/${table}.jsonl" >"$TMP_DIR/data/history/${table}.tail.jsonl" || true
+  fi
+done
+copy_if_exists "data/history/meta.json" "$TMP_DIR/data/history/meta.json"
 if [[ -f "data/telemetry/reset-events.jsonl" ]]; then
   tail -n 200 "data/telemetry/reset-events.jsonl" >"$TMP_DIR/data/telemetry/reset-events.tail.jsonl" || true
 fi
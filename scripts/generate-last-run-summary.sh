@@ -355,6 +355,7 @@ const loopStalls = topSkipSummaries
   .slice(0, 10)
   .map((row) => ({
     reason: String(row?.summary ?? "unknown"),
+    ...(row?.reasonCode ? { reason_code: String(row.reasonCode) } : {}),
     count: safeNum(row?.count, 0)
   }));
 
@@ -412,6 +413,7 @@ const output = {
     skips: {
       top_reasons: topSkipSummaries.slice(0, 15).map((row) => ({
         reason: String(row?.summary ?? "unknown"),
+        ...(row?.reasonCode ? { reason_code: String(row.reasonCode) } : {}),
         count: safeNum(row?.count, 0)
       }))
     },
@@ -33,7 +33,7 @@ Options:
   --down                  Run `docker compose down` (or `docker-compose down`) before starting
   --no-build              Do not build images (skips `--build`)
   --no-recreate           Do not force recreate (skips `--force-recreate`)
-  --reset-state           Delete `data/state.json` before starting; requires AUTOBOT_ALLOW_DATA_RESET=1
+  --reset-state           Delete `data/state.json` and `data/history/` before starting; requires AUTOBOT_ALLOW_DATA_RESET=1
   --reset-universe        Delete `data/universe.json` before starting; requires AUTOBOT_ALLOW_DATA_RESET=1
   --reset-telemetry       Delete `data/telemetry/*` before starting; requires AUTOBOT_ALLOW_DATA_RESET=1
   -h, --help              Show help
@@ -180,6 +180,7 @@ if [[ "$RESET_REQUESTED" -eq 1 ]]; then
   mkdir -p "$RESET_BACKUP_DIR"
   if [[ "$RESET_STATE" -eq 1 ]]; then
     backup_before_reset "data/state.json" "data/state.json" "$RESET_BACKUP_DIR"
+    backup_before_reset "data/history" "data/history/*" "$RESET_BACKUP_DIR"
   fi
   if [[ "$RESET_UNIVERSE" -eq 1 ]]; then
     backup_before_reset "data/universe.json" "data/universe.json" "$RESET_BACKUP_DIR"
@@ -191,7 +192,8 @@ fi
 
 if [[ "$RESET_STATE" -eq 1 ]]; then
   rm -f data/state.json
-  echo "Reset: data/state.json"
+  rm -rf data/history
+  echo "Reset: data/state.json, data/history/"
 fi
 if [[ "$RESET_UNIVERSE" -eq 1 ]]; then
   rm -f data/universe.json